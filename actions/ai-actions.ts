@@ -1,57 +1,116 @@
 /**
  * @description
  * This file contains server actions for AI-driven features in the Learn Kannada app.
- * It integrates with OpenAI to provide grammar explanations, lesson adjustments,
+ * It calls a language model to provide grammar explanations, lesson adjustments,
  * and pronunciation assessments, enhancing the learning experience with personalized feedback.
  *
  * Key features:
- * - Grammar Explanations: Generates explanations for grammatical errors
+ * - Grammar Explanations: Lists each grammatical error with its span in the sentence, category,
+ *   correction and explanation
  * - Lesson Difficulty Adjustment: Adapts lessons based on user progress
  * - Pronunciation Assessment: Evaluates spoken input against expected phrases
+ * - Exercise Generation: Drafts exercises of a chosen type from a lesson's vocabulary and grammar,
+ *   queued for admin review
  *
  * @dependencies
- * - @/lib/ai/openai: Provides the OpenAI client for API calls
- * - @/types: Imports ActionState for consistent return types
+ * - @clerk/nextjs/server: Identifies the learner asking for a grammar check
+ * - @/lib/ai/llm-provider: The configured language model provider (OpenAI, or the offline stub)
+ * - @/lib/ai/exercise-generation: Prompt and output validation for generated exercises
+ * - @/lib/ai/grammar-feedback: Prompt and output validation for grammar feedback
+ * - @/lib/ai/pronunciation-feedback: Prompt for pronunciation feedback
+ * - @/lib/auth/admin: Admin authorization for exercise generation
+ * - @/db/db: Drizzle ORM database instance
+ * - @/db/schema: Lessons and exercise candidates tables
+ * - @/lib/validation/lesson-content-validation: Reads the lesson's content
+ * - @/types: Imports ActionState for consistent return types, and GrammarFeedback
  *
  * @notes
  * - All actions are server-side (marked "use server") per project rules
- * - Uses OPENAI_API_KEY from .env.local, set up in Step 1
+ * - The provider is chosen by LLM_PROVIDER and each task's model by LLM_MODEL_<TASK> (see @/lib/ai/models);
+ *   the OpenAI provider uses OPENAI_API_KEY from .env.local
  * - Handles API errors with fallback messages to ensure user feedback
+ * - Grammar checks require sign-in and are limited to GRAMMAR_SENTENCE_MAX_LENGTH characters
  * - Assumes lesson content includes phrases for pronunciation comparison
+ * - Generated exercises are never published directly: they wait in exercise_candidates until an admin
+ *   approves them (see @/actions/db/exercise-candidates-actions)
  */
 
 "use server"
 
-import { openai } from "@/lib/ai/openai"
-import { ActionState } from "@/types"
+import { auth } from "@clerk/nextjs/server"
+import { db } from "@/db/db"
+import {
+  SelectExerciseCandidate,
+  exerciseCandidatesTable
+} from "@/db/schema/exercise-candidates-schema"
+import { lessonsTable } from "@/db/schema/lessons-schema"
+import {
+  MAX_GENERATED_EXERCISES,
+  buildExerciseGenerationMessages,
+  parseGeneratedExercises
+} from "@/lib/ai/exercise-generation"
+import {
+  GRAMMAR_SENTENCE_MAX_LENGTH,
+  buildGrammarFeedbackMessages,
+  parseGrammarFeedback
+} from "@/lib/ai/grammar-feedback"
+import { getLLMProvider } from "@/lib/ai/llm-provider"
+import {
+  PRONUNCIATION_FEEDBACK_MAX_TOKENS,
+  buildPronunciationMessages
+} from "@/lib/ai/pronunciation-feedback"
+import { ADMIN_REQUIRED_MESSAGE, getAdminUserId } from "@/lib/auth/admin"
+import { readLessonContent } from "@/lib/validation/lesson-content-validation"
+import { ActionState, ExerciseType, GrammarFeedback } from "@/types"
+import { eq } from "drizzle-orm"
 
 /**
- * Generates a grammar explanation for a given sentence using OpenAI.
+ * Checks a sentence's grammar using the language model. Requires a signed-in learner.
  * @param {string} sentence - The sentence to analyze
- * @returns {Promise<ActionState<string>>} The explanation or an error message
+ * @returns {Promise<ActionState<GrammarFeedback>>} Each mistake with its span, category, correction and
+ *   explanation, plus the corrected sentence, or an error message
  */
 export async function getGrammarExplanationAction(
   sentence: string
-): Promise<ActionState<string>> {
+): Promise<ActionState<GrammarFeedback>> {
+  const { userId } = await auth()
+  if (!userId) {
+    return {
+      isSuccess: false,
+      message: "Unauthorized: Please sign in to check your grammar"
+    }
+  }
+
+  if (!sentence.trim()) {
+    return { isSuccess: false, message: "Sentence cannot be empty" }
+  }
+  if (sentence.length > GRAMMAR_SENTENCE_MAX_LENGTH) {
+    return {
+      isSuccess: false,
+      message: `Sentences can be at most ${GRAMMAR_SENTENCE_MAX_LENGTH} characters`
+    }
+  }
+
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4",
-      messages: [
-        {
-          role: "system",
-          content:
-            "You are a Kannada grammar expert. Provide a concise explanation of any grammatical errors in the given sentence, or confirm it’s correct."
-        },
-        { role: "user", content: sentence }
-      ],
-      max_tokens: 150
+    const response = await getLLMProvider().complete({
+      task: "grammar-explanation",
+      messages: buildGrammarFeedbackMessages(sentence),
+      maxTokens: 800,
+      json: true
     })
 
-    const explanation = response.choices[0].message.content ?? "No explanation provided."
+    const feedback = parseGrammarFeedback(response.content, sentence)
+    if (!feedback) {
+      return {
+        isSuccess: false,
+        message: "The grammar feedback could not be read. Please try again."
+      }
+    }
+
     return {
       isSuccess: true,
       message: "Grammar explanation generated successfully",
-      data: explanation
+      data: feedback
     }
   } catch (error) {
     console.error("Error generating grammar explanation:", error)
@@ -63,7 +122,7 @@ export async function getGrammarExplanationAction(
 }
 
 /**
- * Adjusts lesson difficulty based on user progress using OpenAI.
+ * Adjusts lesson difficulty based on user progress using the language model.
  * @param {string} userId - The user’s ID
  * @param {number} currentXp - The user’s current XP
  * @returns {Promise<ActionState<string>>} The recommended level or an error
@@ -73,8 +132,8 @@ export async function adjustLessonDifficultyAction(
   currentXp: number
 ): Promise<ActionState<string>> {
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4",
+    const response = await getLLMProvider().complete({
+      task: "lesson-difficulty",
       messages: [
         {
           role: "system",
@@ -83,10 +142,10 @@ export async function adjustLessonDifficultyAction(
         },
         { role: "user", content: `User XP: ${currentXp}` }
       ],
-      max_tokens: 50
+      maxTokens: 50
     })
 
-    const level = response.choices[0].message.content ?? "beginner"
+    const level = response.content || "beginner"
     return {
       isSuccess: true,
       message: "Lesson difficulty adjusted successfully",
@@ -120,23 +179,13 @@ export async function assessPronunciationAction(
   }
 
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4",
-      messages: [
-        {
-          role: "system",
-          content:
-            "You are a pronunciation coach for Kannada. Compare the user’s transcript to the expected phrase and provide feedback on accuracy. If incorrect, suggest improvements."
-        },
-        {
-          role: "user",
-          content: `Transcript: "${transcript}"\nExpected: "${expectedPhrase}"`
-        }
-      ],
-      max_tokens: 200
+    const response = await getLLMProvider().complete({
+      task: "pronunciation-feedback",
+      messages: buildPronunciationMessages(transcript, expectedPhrase),
+      maxTokens: PRONUNCIATION_FEEDBACK_MAX_TOKENS
     })
 
-    const feedback = response.choices[0].message.content ?? "No feedback provided."
+    const feedback = response.content || "No feedback provided."
     return {
       isSuccess: true,
       message: "Pronunciation assessed successfully",
@@ -149,4 +198,100 @@ export async function assessPronunciationAction(
       message: "Failed to assess pronunciation. Please try again."
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Generates candidate exercises of one type from a lesson's vocabulary and grammar. Admin only.
+ * Valid exercises are queued for review; invalid ones are discarded and counted.
+ * @param {string} lessonId - The lesson to generate exercises for
+ * @param {ExerciseType} type - The exercise type to generate
+ * @param {number} count - Number of exercises to ask for (1 to MAX_GENERATED_EXERCISES)
+ * @returns {Promise<ActionState<{ candidates: SelectExerciseCandidate[]; rejectedCount: number }>>}
+ *   The queued candidates and how many generated exercises failed validation, or an error
+ */
+export async function generateExerciseCandidatesAction(
+  lessonId: string,
+  type: ExerciseType,
+  count: number = 5
+): Promise<
+  ActionState<{ candidates: SelectExerciseCandidate[]; rejectedCount: number }>
+> {
+  const userId = await getAdminUserId()
+  if (!userId) {
+    return { isSuccess: false, message: ADMIN_REQUIRED_MESSAGE }
+  }
+
+  try {
+    const [lesson] = await db
+      .select({
+        title: lessonsTable.title,
+        level: lessonsTable.level,
+        content: lessonsTable.content
+      })
+      .from(lessonsTable)
+      .where(eq(lessonsTable.id, lessonId))
+      .limit(1)
+
+    if (!lesson) {
+      return { isSuccess: false, message: "Lesson not found" }
+    }
+
+    const content = readLessonContent(lesson.content)
+    if (content.vocabulary.length === 0 && content.grammarNotes.length === 0) {
+      return {
+        isSuccess: false,
+        message:
+          "Add vocabulary or grammar notes to the lesson before generating exercises"
+      }
+    }
+
+    const response = await getLLMProvider().complete({
+      task: "exercise-generation",
+      messages: buildExerciseGenerationMessages(
+        { ...lesson, content },
+        type,
+        Math.min(Math.max(Math.floor(count), 1), MAX_GENERATED_EXERCISES)
+      ),
+      json: true
+    })
+
+    const generated = parseGeneratedExercises(response.content, type)
+    if (!generated) {
+      return {
+        isSuccess: false,
+        message: "The generated exercises could not be read. Please try again."
+      }
+    }
+
+    const candidates =
+      generated.exercises.length > 0
+        ? await db
+            .insert(exerciseCandidatesTable)
+            .values(
+              generated.exercises.map(exercise => ({
+                lessonId,
+                ...exercise,
+                model: response.model,
+                generatedBy: userId
+              }))
+            )
+            .returning()
+        : []
+
+    return {
+      isSuccess: true,
+      message: `Generated ${candidates.length} exercises for review${
+        generated.rejected.length > 0
+          ? ` (${generated.rejected.length} discarded as invalid)`
+          : ""
+      }`,
+      data: { candidates, rejectedCount: generated.rejected.length }
+    }
+  } catch (error) {
+    console.error("Error generating exercises:", error)
+    return {
+      isSuccess: false,
+      message: "Failed to generate exercises"
+    }
+  }
+}
@@ -0,0 +1,503 @@
+/**
+ * @description
+ * Server actions for the curriculum structure of the Learn Kannada app.
+ * Lessons are grouped into ordered units and unlock in sequence, or via explicit
+ * prerequisites, based on the learner's completion.
+ *
+ * Key features:
+ * - Curriculum overview: levels, units and lessons with per-learner status
+ * - "Continue where you left off" pointer stored on the learner's profile
+ * - Lesson access checks listing the lessons that still block a locked lesson
+ * - Unit management and prerequisite editing with cycle detection
+ *
+ * @dependencies
+ * - @clerk/nextjs/server: Identifies the learner for progress and the continue pointer
+ * - @/db/db: Drizzle ORM database instance
+ * - @/db/schema: Lessons, revisions, units, prerequisites, progress and profiles tables
+ * - @/lib/auth/admin: Admin authorization for unit and prerequisite edits
+ * - @/lib/curriculum/lesson-status: Pure sequencing rules
+ * - @/lib/exercises/published-exercises: Published exercises, counted per lesson for sequencing
+ * - @/types: ActionState and curriculum types
+ * - drizzle-orm: For database operations
+ *
+ * @notes
+ * - Curriculum order is level, then unit position (unassigned lessons last), then lesson position
+ * - Signed-out visitors get statuses as if nothing were completed, apart from lessons with no exercises to answer
+ * - Only published lessons are part of the curriculum, titled and levelled as of their published revision
+ * - Unit and prerequisite edits are admin-only
+ * - Lesson unit and position are edited through updateLessonAction
+ */
+
+"use server"
+
+import { auth } from "@clerk/nextjs/server"
+import { db } from "@/db/db"
+import { lessonPrerequisitesTable } from "@/db/schema/lesson-prerequisites-schema"
+import { lessonRevisionsTable } from "@/db/schema/lesson-revisions-schema"
+import { lessonsTable } from "@/db/schema/lessons-schema"
+import { profilesTable } from "@/db/schema/profiles-schema"
+import { progressTable } from "@/db/schema/progress-schema"
+import { InsertUnit, SelectUnit, unitsTable } from "@/db/schema/units-schema"
+import { ADMIN_REQUIRED_MESSAGE, getAdminUserId } from "@/lib/auth/admin"
+import {
+  COMPLETION_EXCLUDED_TYPES,
+  LESSON_COMPLETION_THRESHOLD,
+  computeLessonStatuses,
+  findContinueLesson,
+  wouldCreateCycle
+} from "@/lib/curriculum/lesson-status"
+import { loadPublishedExercises } from "@/lib/exercises/published-exercises"
+import {
+  ActionState,
+  CurriculumLesson,
+  CurriculumLevel,
+  CurriculumOverview,
+  CurriculumUnit,
+  LessonStatus
+} from "@/types"
+import { and, asc, eq, inArray, max, sql } from "drizzle-orm"
+
+// Levels in teaching order (matches levelEnum)
+const LEVELS: CurriculumLesson["level"][] = [
+  "beginner",
+  "intermediate",
+  "advanced"
+]
+
+// Title used for lessons that are not assigned to a unit
+const UNASSIGNED_UNIT_TITLE = "More lessons"
+
+/**
+ * Retrieves the learner's curriculum: every level's units and lessons with status,
+ * plus the lesson to continue with.
+ * @returns Promise<ActionState<CurriculumOverview>> - Success with the overview or error
+ */
+export async function getCurriculumOverviewAction(): Promise<
+  ActionState<CurriculumOverview>
+> {
+  try {
+    const { userId } = await auth()
+    const { lessons, units } = await loadCurriculum(userId)
+
+    let lastLessonId: string | null = null
+    if (userId) {
+      const [profile] = await db
+        .select({ lastLessonId: profilesTable.lastLessonId })
+        .from(profilesTable)
+        .where(eq(profilesTable.userId, userId))
+        .limit(1)
+      lastLessonId = profile?.lastLessonId ?? null
+    }
+
+    const levels: CurriculumLevel[] = LEVELS.map(level => {
+      const levelLessons = lessons.filter(lesson => lesson.level === level)
+      return {
+        level,
+        units: groupIntoUnits(levelLessons, units),
+        completedCount: levelLessons.filter(
+          lesson => lesson.status === "completed"
+        ).length,
+        totalCount: levelLessons.length
+      }
+    })
+
+    return {
+      isSuccess: true,
+      message: "Curriculum retrieved successfully",
+      data: {
+        levels,
+        continueLesson: findContinueLesson(lessons, lastLessonId)
+      }
+    }
+  } catch (error) {
+    console.error("Error getting curriculum:", error)
+    return { isSuccess: false, message: "Failed to get curriculum" }
+  }
+}
+
+/**
+ * Checks whether the learner may open a lesson.
+ * @param lessonId - The lesson to check
+ * @returns Promise<ActionState<{ status: LessonStatus; blockedBy: CurriculumLesson[] }>> -
+ *   The lesson's status and, when locked, the uncompleted lessons that block it
+ */
+export async function getLessonAccessAction(
+  lessonId: string
+): Promise<
+  ActionState<{ status: LessonStatus; blockedBy: CurriculumLesson[] }>
+> {
+  try {
+    const { userId } = await auth()
+    const { lessons } = await loadCurriculum(userId)
+
+    const index = lessons.findIndex(lesson => lesson.id === lessonId)
+    if (index < 0) {
+      return { isSuccess: false, message: "Lesson not found" }
+    }
+
+    const lesson = lessons[index]
+    let blockedBy: CurriculumLesson[] = []
+    if (lesson.status === "locked") {
+      const previous = lessons[index - 1]
+      const blockerIds =
+        lesson.prerequisiteIds.length > 0
+          ? lesson.prerequisiteIds
+          : previous && previous.level === lesson.level
+            ? [previous.id]
+            : []
+      blockedBy = lessons.filter(
+        candidate =>
+          blockerIds.includes(candidate.id) && candidate.status !== "completed"
+      )
+    }
+
+    return {
+      isSuccess: true,
+      message: "Lesson access retrieved successfully",
+      data: { status: lesson.status, blockedBy }
+    }
+  } catch (error) {
+    console.error("Error checking lesson access:", error)
+    return { isSuccess: false, message: "Failed to check lesson access" }
+  }
+}
+
+/**
+ * Records the lesson the learner opened last, for "continue where you left off".
+ * @param lessonId - The lesson being viewed
+ * @returns Promise<ActionState<void>> - Success or failure state
+ */
+export async function setLastLessonAction(
+  lessonId: string
+): Promise<ActionState<void>> {
+  const { userId } = await auth()
+  if (!userId) {
+    return {
+      isSuccess: false,
+      message: "Unauthorized: Please sign in to track your place"
+    }
+  }
+
+  try {
+    await db
+      .update(profilesTable)
+      .set({ lastLessonId: lessonId })
+      .where(eq(profilesTable.userId, userId))
+    return {
+      isSuccess: true,
+      message: "Last lesson updated successfully",
+      data: undefined
+    }
+  } catch (error) {
+    console.error("Error updating last lesson:", error)
+    return { isSuccess: false, message: "Failed to update last lesson" }
+  }
+}
+
+/**
+ * Retrieves all units in curriculum order.
+ * @returns Promise<ActionState<SelectUnit[]>> - Success with the units or error
+ */
+export async function getUnitsAction(): Promise<ActionState<SelectUnit[]>> {
+  try {
+    const units = await db
+      .select()
+      .from(unitsTable)
+      .orderBy(asc(unitsTable.position), asc(unitsTable.createdAt))
+    return {
+      isSuccess: true,
+      message: "Units retrieved successfully",
+      data: units
+    }
+  } catch (error) {
+    console.error("Error getting units:", error)
+    return { isSuccess: false, message: "Failed to get units" }
+  }
+}
+
+/**
+ * Creates a new unit. Admin only.
+ * @param unit - The unit data to insert
+ * @returns Promise<ActionState<SelectUnit>> - Success with the created unit or error
+ */
+export async function createUnitAction(
+  unit: InsertUnit
+): Promise<ActionState<SelectUnit>> {
+  if (!(await getAdminUserId())) {
+    return { isSuccess: false, message: ADMIN_REQUIRED_MESSAGE }
+  }
+
+  if (!unit.title?.trim()) {
+    return {
+      isSuccess: false,
+      message: "Unit title is required",
+      fieldErrors: { title: ["Required"] }
+    }
+  }
+
+  try {
+    const [newUnit] = await db.insert(unitsTable).values(unit).returning()
+    return {
+      isSuccess: true,
+      message: "Unit created successfully",
+      data: newUnit
+    }
+  } catch (error) {
+    console.error("Error creating unit:", error)
+    return { isSuccess: false, message: "Failed to create unit" }
+  }
+}
+
+/**
+ * Updates a unit's title, description or position. Admin only.
+ * @param id - The ID of the unit to update
+ * @param data - Partial unit data to update
+ * @returns Promise<ActionState<SelectUnit>> - Success with the updated unit or error
+ */
+export async function updateUnitAction(
+  id: string,
+  data: Partial<InsertUnit>
+): Promise<ActionState<SelectUnit>> {
+  if (!(await getAdminUserId())) {
+    return { isSuccess: false, message: ADMIN_REQUIRED_MESSAGE }
+  }
+
+  if (data.title !== undefined && !data.title.trim()) {
+    return {
+      isSuccess: false,
+      message: "Unit title is required",
+      fieldErrors: { title: ["Required"] }
+    }
+  }
+
+  try {
+    const [updatedUnit] = await db
+      .update(unitsTable)
+      .set(data)
+      .where(eq(unitsTable.id, id))
+      .returning()
+    if (!updatedUnit) {
+      return { isSuccess: false, message: "Unit not found" }
+    }
+    return {
+      isSuccess: true,
+      message: "Unit updated successfully",
+      data: updatedUnit
+    }
+  } catch (error) {
+    console.error("Error updating unit:", error)
+    return { isSuccess: false, message: "Failed to update unit" }
+  }
+}
+
+/**
+ * Deletes a unit. Its lessons stay in place and become unassigned. Admin only.
+ * @param id - The ID of the unit to delete
+ * @returns Promise<ActionState<void>> - Success or failure state
+ */
+export async function deleteUnitAction(id: string): Promise<ActionState<void>> {
+  if (!(await getAdminUserId())) {
+    return { isSuccess: false, message: ADMIN_REQUIRED_MESSAGE }
+  }
+
+  try {
+    await db.delete(unitsTable).where(eq(unitsTable.id, id))
+    return {
+      isSuccess: true,
+      message: "Unit deleted successfully",
+      data: undefined
+    }
+  } catch (error) {
+    console.error("Error deleting unit:", error)
+    return { isSuccess: false, message: "Failed to delete unit" }
+  }
+}
+
+/**
+ * Replaces a lesson's explicit prerequisites. Admin only.
+ * An empty list restores the default rule (the previous lesson unlocks it).
+ * @param lessonId - The lesson whose prerequisites are set
+ * @param prerequisiteIds - Lessons that must be completed first
+ * @returns Promise<ActionState<string[]>> - Success with the stored prerequisite IDs or error
+ */
+export async function setLessonPrerequisitesAction(
+  lessonId: string,
+  prerequisiteIds: string[]
+): Promise<ActionState<string[]>> {
+  if (!(await getAdminUserId())) {
+    return { isSuccess: false, message: ADMIN_REQUIRED_MESSAGE }
+  }
+
+  const uniqueIds = [...new Set(prerequisiteIds)]
+
+  try {
+    const edges = await db
+      .select({
+        lessonId: lessonPrerequisitesTable.lessonId,
+        prerequisiteLessonId: lessonPrerequisitesTable.prerequisiteLessonId
+      })
+      .from(lessonPrerequisitesTable)
+
+    if (wouldCreateCycle(edges, lessonId, uniqueIds)) {
+      return {
+        isSuccess: false,
+        message: "Prerequisites cannot form a cycle",
+        fieldErrors: {
+          prerequisiteIds: ["A lesson cannot (indirectly) require itself"]
+        }
+      }
+    }
+
+    await db.transaction(async tx => {
+      await tx
+        .delete(lessonPrerequisitesTable)
+        .where(eq(lessonPrerequisitesTable.lessonId, lessonId))
+      if (uniqueIds.length > 0) {
+        await tx.insert(lessonPrerequisitesTable).values(
+          uniqueIds.map(prerequisiteLessonId => ({
+            lessonId,
+            prerequisiteLessonId
+          }))
+        )
+      }
+    })
+
+    return {
+      isSuccess: true,
+      message: "Prerequisites updated successfully",
+      data: uniqueIds
+    }
+  } catch (error) {
+    console.error("Error updating prerequisites:", error)
+    return { isSuccess: false, message: "Failed to update prerequisites" }
+  }
+}
+
+/**
+ * Loads every published lesson in curriculum order with the learner's completion and status.
+ */
+async function loadCurriculum(userId: string | null) {
+  // Learners see the published revision's title and level, not the working copy's
+  const publishedLevel = sql<
+    CurriculumLesson["level"]
+  >`coalesce(${lessonRevisionsTable.level}, ${lessonsTable.level})`
+
+  const rows = await db
+    .select({
+      id: lessonsTable.id,
+      title: sql<string>`coalesce(${lessonRevisionsTable.title}, ${lessonsTable.title})`,
+      level: publishedLevel,
+      unitId: lessonsTable.unitId,
+      position: lessonsTable.position
+    })
+    .from(lessonsTable)
+    .leftJoin(unitsTable, eq(lessonsTable.unitId, unitsTable.id))
+    .leftJoin(
+      lessonRevisionsTable,
+      eq(lessonsTable.publishedRevisionId, lessonRevisionsTable.id)
+    )
+    .where(eq(lessonsTable.publishStatus, "published"))
+    .orderBy(
+      asc(publishedLevel),
+      sql`${unitsTable.position} asc nulls last`,
+      asc(unitsTable.createdAt),
+      asc(lessonsTable.position),
+      asc(lessonsTable.createdAt),
+      asc(lessonsTable.id)
+    )
+
+  const units = await db.select().from(unitsTable)
+  const edges = await db
+    .select({
+      lessonId: lessonPrerequisitesTable.lessonId,
+      prerequisiteLessonId: lessonPrerequisitesTable.prerequisiteLessonId
+    })
+    .from(lessonPrerequisitesTable)
+
+  const completionByLesson = new Map<string, number>()
+  if (userId && rows.length > 0) {
+    const completions = await db
+      .select({
+        lessonId: progressTable.lessonId,
+        completion: max(progressTable.completion)
+      })
+      .from(progressTable)
+      .where(
+        and(
+          eq(progressTable.userId, userId),
+          inArray(
+            progressTable.lessonId,
+            rows.map(row => row.id)
+          )
+        )
+      )
+      .groupBy(progressTable.lessonId)
+
+    for (const { lessonId, completion } of completions) {
+      if (lessonId) completionByLesson.set(lessonId, completion ?? 0)
+    }
+  }
+
+  const exerciseCountByLesson = new Map<string, number>()
+  const exercises = await loadPublishedExercises(rows.map(row => row.id))
+  for (const exercise of exercises.values()) {
+    if (COMPLETION_EXCLUDED_TYPES.includes(exercise.type)) continue
+    exerciseCountByLesson.set(
+      exercise.lessonId,
+      (exerciseCountByLesson.get(exercise.lessonId) ?? 0) + 1
+    )
+  }
+
+  const sequenced = rows.map(row => ({
+    ...row,
+    completion: Math.min(
+      completionByLesson.get(row.id) ?? 0,
+      LESSON_COMPLETION_THRESHOLD
+    ),
+    exerciseCount: exerciseCountByLesson.get(row.id) ?? 0
+  }))
+  const statuses = computeLessonStatuses(sequenced, edges)
+
+  const lessons: CurriculumLesson[] = sequenced.map(
+    ({ exerciseCount, ...lesson }) => ({
+      ...lesson,
+      // Lessons with nothing to answer are complete as soon as they are published
+      completion:
+        exerciseCount === 0 ? LESSON_COMPLETION_THRESHOLD : lesson.completion,
+      status: statuses.get(lesson.id) ?? "locked",
+      prerequisiteIds: edges
+        .filter(edge => edge.lessonId === lesson.id)
+        .map(edge => edge.prerequisiteLessonId)
+    })
+  )
+
+  return { lessons, units }
+}
+
+/**
+ * Groups ordered lessons of one level into their units, keeping curriculum order.
+ */
+function groupIntoUnits(
+  lessons: CurriculumLesson[],
+  units: SelectUnit[]
+): CurriculumUnit[] {
+  const grouped: CurriculumUnit[] = []
+
+  for (const lesson of lessons) {
+    let group = grouped.find(candidate => candidate.id === lesson.unitId)
+    if (!group) {
+      const unit = units.find(candidate => candidate.id === lesson.unitId)
+      group = {
+        id: unit?.id ?? null,
+        title: unit?.title ?? UNASSIGNED_UNIT_TITLE,
+        description: unit?.description ?? null,
+        position: unit?.position ?? Number.MAX_SAFE_INTEGER,
+        lessons: []
+      }
+      grouped.push(group)
+    }
+    group.lessons.push(lesson)
+  }
+
+  return grouped
+}
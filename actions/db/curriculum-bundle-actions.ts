@@ -0,0 +1,410 @@
+/**
+ * @description
+ * Server actions for bulk curriculum import and export in the Learn Kannada app.
+ * Curriculum is authored as bundle files (JSON, plus a vocabulary CSV for
+ * spreadsheets) and imported in one step instead of one lesson at a time.
+ *
+ * Key features:
+ * - Export every unit, lesson and exercise as a bundle and a vocabulary CSV
+ * - Dry-run validation report before anything is written
+ * - Idempotent upsert keyed on slugs: re-importing the same files changes nothing
+ * - Imported lessons get a new revision and can optionally be published at once
+ *
+ * @dependencies
+ * - @/actions/db/lesson-revisions-actions: Records (and publishes) revisions for imported lessons
+ * - @/db/db: Drizzle ORM database instance
+ * - @/db/schema: Units, lessons, exercises and prerequisites tables
+ * - @/lib/auth/admin: Admin authorization (all actions here are admin-only)
+ * - @/lib/curriculum-bundle: Bundle format, vocabulary CSV and import planning
+ * - @/lib/validation/lesson-content-validation: Normalizes stored content for export
+ * - @/types: ActionState and bundle types
+ * - drizzle-orm: For database operations
+ *
+ * @notes
+ * - The bundle format is documented in @/lib/curriculum-bundle/bundle-format
+ * - Rows created before slugs existed get one derived from their title; export and
+ *   non-dry-run imports save those slugs so later imports match the same rows
+ * - Imports never delete; entities missing from the bundle are left as they are
+ * - Lessons created by an import start as drafts
+ * - Validation problems are returned in the report, not as a failed action, so the UI can list them
+ */
+
+"use server"
+
+import {
+  publishLessonRevisionAction,
+  recordLessonRevisionAction
+} from "@/actions/db/lesson-revisions-actions"
+import { db } from "@/db/db"
+import { exercisesTable } from "@/db/schema/exercises-schema"
+import { lessonPrerequisitesTable } from "@/db/schema/lesson-prerequisites-schema"
+import { lessonsTable } from "@/db/schema/lessons-schema"
+import { unitsTable } from "@/db/schema/units-schema"
+import { ADMIN_REQUIRED_MESSAGE, getAdminUserId } from "@/lib/auth/admin"
+import {
+  applyVocabularyCsv,
+  assignMissingSlugs,
+  formatVocabularyCsv,
+  parseCurriculumBundle,
+  parseVocabularyCsv
+} from "@/lib/curriculum-bundle/bundle-format"
+import { planCurriculumImport } from "@/lib/curriculum-bundle/import-plan"
+import { readLessonContent } from "@/lib/validation/lesson-content-validation"
+import {
+  ActionState,
+  BundleImportIssue,
+  CURRENT_CURRICULUM_BUNDLE_VERSION,
+  CURRICULUM_BUNDLE_FORMAT,
+  CurriculumBundle,
+  CurriculumExport,
+  CurriculumImportReport,
+  ExerciseDefinition
+} from "@/types"
+import { asc, eq } from "drizzle-orm"
+
+/**
+ * Input files for an import. At least one of bundle or vocabularyCsv is required.
+ */
+interface ImportCurriculumParams {
+  bundle?: string // Bundle JSON text
+  vocabularyCsv?: string // Vocabulary CSV text
+  dryRun?: boolean // Validate and report only (default true)
+  publish?: boolean // Publish the new revision of every changed lesson
+}
+
+/**
+ * Exports the whole curriculum (drafts included, as working copies). Admin only.
+ * @returns Promise<ActionState<CurriculumExport>> - Success with the bundle and vocabulary CSV or error
+ */
+export async function exportCurriculumBundleAction(): Promise<
+  ActionState<CurriculumExport>
+> {
+  if (!(await getAdminUserId())) {
+    return { isSuccess: false, message: ADMIN_REQUIRED_MESSAGE }
+  }
+
+  try {
+    const { bundle } = await loadStoredCurriculum({ saveSlugs: true })
+    return {
+      isSuccess: true,
+      message: "Curriculum exported successfully",
+      data: { bundle, vocabularyCsv: formatVocabularyCsv(bundle) }
+    }
+  } catch (error) {
+    console.error("Error exporting curriculum:", error)
+    return { isSuccess: false, message: "Failed to export curriculum" }
+  }
+}
+
+/**
+ * Validates a bundle and/or vocabulary CSV and, unless dryRun, upserts it. Admin only.
+ * Nothing is written if any problem is found.
+ * @param params - Input files and options
+ * @returns Promise<ActionState<CurriculumImportReport>> - Success with the report (which may list errors) or error
+ */
+export async function importCurriculumBundleAction({
+  bundle: bundleText,
+  vocabularyCsv,
+  dryRun = true,
+  publish = false
+}: ImportCurriculumParams): Promise<ActionState<CurriculumImportReport>> {
+  if (!(await getAdminUserId())) {
+    return { isSuccess: false, message: ADMIN_REQUIRED_MESSAGE }
+  }
+
+  if (!bundleText?.trim() && !vocabularyCsv?.trim()) {
+    return {
+      isSuccess: false,
+      message: "Provide a bundle or a vocabulary CSV",
+      fieldErrors: { bundle: ["Required"] }
+    }
+  }
+
+  try {
+    const stored = await loadStoredCurriculum({ saveSlugs: !dryRun })
+    const blocked = (errors: BundleImportIssue[]) => ({
+      isSuccess: true as const,
+      message: `Found ${errors.length} problem(s); nothing was imported`,
+      data: { dryRun, items: [], errors }
+    })
+
+    let bundle: CurriculumBundle = {
+      format: CURRICULUM_BUNDLE_FORMAT,
+      version: CURRENT_CURRICULUM_BUNDLE_VERSION,
+      units: [],
+      lessons: []
+    }
+    if (bundleText?.trim()) {
+      const parsed = parseCurriculumBundle(bundleText)
+      if (!parsed.success) return blocked(parsed.errors)
+      bundle = parsed.data
+    }
+
+    if (vocabularyCsv?.trim()) {
+      const rows = parseVocabularyCsv(vocabularyCsv)
+      if (!rows.success) return blocked(rows.errors)
+      const merged = applyVocabularyCsv(bundle, rows.data, stored.bundle)
+      if (!merged.success) return blocked(merged.errors)
+      bundle = merged.data
+    }
+
+    const plan = planCurriculumImport(bundle, stored.bundle)
+    if (plan.errors.length > 0) return blocked(plan.errors)
+
+    const report: CurriculumImportReport = {
+      dryRun,
+      items: plan.items,
+      errors: []
+    }
+    const changes = plan.items.filter(item => item.action !== "unchanged")
+
+    if (dryRun) {
+      return {
+        isSuccess: true,
+        message: `Dry run: ${changes.length} change(s) would be imported`,
+        data: report
+      }
+    }
+
+    const actionFor = (kind: string, slug: string) =>
+      plan.items.find(item => item.kind === kind && item.slug === slug)?.action
+    const changedLessonIds = new Set<string>()
+
+    await db.transaction(async tx => {
+      const unitIds = new Map(stored.unitIds)
+      for (const unit of bundle.units) {
+        const values = {
+          slug: unit.slug,
+          title: unit.title,
+          description: unit.description ?? null,
+          position: unit.position
+        }
+        const action = actionFor("unit", unit.slug)
+        if (action === "create") {
+          const [created] = await tx
+            .insert(unitsTable)
+            .values(values)
+            .returning()
+          unitIds.set(unit.slug, created.id)
+        } else if (action === "update") {
+          await tx
+            .update(unitsTable)
+            .set(values)
+            .where(eq(unitsTable.id, unitIds.get(unit.slug)!))
+        }
+      }
+
+      const lessonIds = new Map(stored.lessonIds)
+      for (const lesson of bundle.lessons) {
+        const values = {
+          slug: lesson.slug,
+          title: lesson.title,
+          level: lesson.level,
+          unitId: lesson.unit ? unitIds.get(lesson.unit)! : null,
+          position: lesson.position,
+          content: lesson.content
+        }
+        const action = actionFor("lesson", lesson.slug)
+        if (action === "create") {
+          const [created] = await tx
+            .insert(lessonsTable)
+            .values({ ...values, publishStatus: "draft" })
+            .returning()
+          lessonIds.set(lesson.slug, created.id)
+        } else if (action === "update") {
+          await tx
+            .update(lessonsTable)
+            .set(values)
+            .where(eq(lessonsTable.id, lessonIds.get(lesson.slug)!))
+        }
+        if (action !== "unchanged") {
+          changedLessonIds.add(lessonIds.get(lesson.slug)!)
+        }
+      }
+
+      // Prerequisites may point at lessons created above, so set them once all exist
+      for (const lesson of bundle.lessons) {
+        if (actionFor("lesson", lesson.slug) === "unchanged") continue
+        const lessonId = lessonIds.get(lesson.slug)!
+        await tx
+          .delete(lessonPrerequisitesTable)
+          .where(eq(lessonPrerequisitesTable.lessonId, lessonId))
+        if (lesson.prerequisites.length > 0) {
+          await tx.insert(lessonPrerequisitesTable).values(
+            lesson.prerequisites.map(prerequisite => ({
+              lessonId,
+              prerequisiteLessonId: lessonIds.get(prerequisite)!
+            }))
+          )
+        }
+      }
+
+      for (const lesson of bundle.lessons) {
+        const lessonId = lessonIds.get(lesson.slug)!
+        for (const exercise of lesson.exercises) {
+          const key = `${lesson.slug}/${exercise.slug}`
+          const values = {
+            lessonId,
+            slug: exercise.slug,
+            type: exercise.type,
+            content: exercise.content
+          }
+          const action = actionFor("exercise", key)
+          if (action === "create") {
+            await tx.insert(exercisesTable).values(values)
+          } else if (action === "update") {
+            await tx
+              .update(exercisesTable)
+              .set(values)
+              .where(eq(exercisesTable.id, stored.exerciseIds.get(key)!))
+          }
+          if (action !== "unchanged") changedLessonIds.add(lessonId)
+        }
+      }
+    })
+
+    // Revisions are recorded after the transaction so they snapshot committed rows
+    for (const lessonId of changedLessonIds) {
+      const revision = await recordLessonRevisionAction(lessonId)
+      if (publish && revision.isSuccess) {
+        await publishLessonRevisionAction(lessonId, revision.data.id)
+      }
+    }
+
+    return {
+      isSuccess: true,
+      message: `Imported ${changes.length} change(s)`,
+      data: report
+    }
+  } catch (error) {
+    console.error("Error importing curriculum:", error)
+    return { isSuccess: false, message: "Failed to import curriculum" }
+  }
+}
+
+/**
+ * Loads the current curriculum in bundle form, with row IDs keyed by slug.
+ * Rows without a slug get one derived from their title (or exercise type);
+ * with saveSlugs those slugs are written back so later imports match the rows.
+ */
+async function loadStoredCurriculum({ saveSlugs }: { saveSlugs: boolean }) {
+  const [units, lessons, exercises, prerequisites] = await Promise.all([
+    db.select().from(unitsTable).orderBy(asc(unitsTable.position)),
+    db
+      .select()
+      .from(lessonsTable)
+      .orderBy(asc(lessonsTable.level), asc(lessonsTable.position)),
+    db
+      .select()
+      .from(exercisesTable)
+      .orderBy(asc(exercisesTable.createdAt), asc(exercisesTable.id)),
+    db.select().from(lessonPrerequisitesTable)
+  ])
+
+  const unitSlugs = assignMissingSlugs(
+    units.map(unit => ({ id: unit.id, slug: unit.slug, name: unit.title }))
+  )
+  const lessonSlugs = assignMissingSlugs(
+    lessons.map(lesson => ({
+      id: lesson.id,
+      slug: lesson.slug,
+      name: lesson.title
+    }))
+  )
+  const exerciseSlugs = new Map<string, string>()
+  for (const lesson of lessons) {
+    const assigned = assignMissingSlugs(
+      exercises
+        .filter(exercise => exercise.lessonId === lesson.id)
+        .map(exercise => ({
+          id: exercise.id,
+          slug: exercise.slug,
+          name: exercise.type
+        }))
+    )
+    assigned.forEach((slug, id) => exerciseSlugs.set(id, slug))
+  }
+
+  if (saveSlugs) {
+    await saveAssignedSlugs(unitSlugs, lessonSlugs, exerciseSlugs)
+  }
+
+  const unitSlug = (id: string) =>
+    unitSlugs.get(id) ?? units.find(unit => unit.id === id)?.slug ?? undefined
+  const lessonSlug = (id: string) =>
+    lessonSlugs.get(id) ?? lessons.find(lesson => lesson.id === id)!.slug!
+  const exerciseSlug = (exercise: (typeof exercises)[number]) =>
+    exerciseSlugs.get(exercise.id) ?? exercise.slug!
+
+  const bundle: CurriculumBundle = {
+    format: CURRICULUM_BUNDLE_FORMAT,
+    version: CURRENT_CURRICULUM_BUNDLE_VERSION,
+    units: units.map(unit => ({
+      slug: unitSlug(unit.id)!,
+      title: unit.title,
+      description: unit.description ?? undefined,
+      position: unit.position
+    })),
+    lessons: lessons.map(lesson => ({
+      slug: lessonSlug(lesson.id),
+      title: lesson.title,
+      level: lesson.level,
+      unit: lesson.unitId ? unitSlug(lesson.unitId) : undefined,
+      position: lesson.position,
+      prerequisites: prerequisites
+        .filter(edge => edge.lessonId === lesson.id)
+        .map(edge => lessonSlug(edge.prerequisiteLessonId)),
+      content: readLessonContent(lesson.content),
+      exercises: exercises
+        .filter(exercise => exercise.lessonId === lesson.id)
+        .map(exercise => ({
+          slug: exerciseSlug(exercise),
+          // Exported as stored; content that no longer fits its type is reported on re-import
+          ...({
+            type: exercise.type,
+            content: exercise.content
+          } as ExerciseDefinition)
+        }))
+    }))
+  }
+
+  return {
+    bundle,
+    unitIds: new Map(units.map(unit => [unitSlug(unit.id)!, unit.id])),
+    lessonIds: new Map(
+      lessons.map(lesson => [lessonSlug(lesson.id), lesson.id])
+    ),
+    exerciseIds: new Map(
+      exercises.map(exercise => [
+        `${lessonSlug(exercise.lessonId)}/${exerciseSlug(exercise)}`,
+        exercise.id
+      ])
+    )
+  }
+}
+
+/**
+ * Writes slugs picked for rows that did not have one.
+ */
+async function saveAssignedSlugs(
+  unitSlugs: Map<string, string>,
+  lessonSlugs: Map<string, string>,
+  exerciseSlugs: Map<string, string>
+) {
+  if (unitSlugs.size + lessonSlugs.size + exerciseSlugs.size === 0) return
+
+  await db.transaction(async tx => {
+    for (const [id, slug] of unitSlugs) {
+      await tx.update(unitsTable).set({ slug }).where(eq(unitsTable.id, id))
+    }
+    for (const [id, slug] of lessonSlugs) {
+      await tx.update(lessonsTable).set({ slug }).where(eq(lessonsTable.id, id))
+    }
+    for (const [id, slug] of exerciseSlugs) {
+      await tx
+        .update(exercisesTable)
+        .set({ slug })
+        .where(eq(exercisesTable.id, id))
+    }
+  })
+}
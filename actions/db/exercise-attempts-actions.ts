@@ -0,0 +1,115 @@
+/**
+ * @description
+ * Server actions for reading a learner's exercise attempt history in the Learn Kannada app.
+ * Attempts are recorded by submitExerciseAction each time a response is graded.
+ *
+ * Key features:
+ * - History for one exercise, newest first
+ * - History for every exercise in a lesson, newest first
+ *
+ * @dependencies
+ * - @clerk/nextjs/server: Identifies the learner
+ * - @/db/db: Drizzle ORM database instance
+ * - @/db/schema/exercise-attempts-schema: Exercise attempts table and types
+ * - @/types: ActionState type
+ * - drizzle-orm: For database operations
+ *
+ * @notes
+ * - Learners only ever read their own attempts
+ * - Attempts are written only by submitExerciseAction, so clients cannot record scores directly
+ */
+
+"use server"
+
+import { auth } from "@clerk/nextjs/server"
+import { db } from "@/db/db"
+import {
+  SelectExerciseAttempt,
+  exerciseAttemptsTable
+} from "@/db/schema/exercise-attempts-schema"
+import { ActionState } from "@/types"
+import { and, desc, eq } from "drizzle-orm"
+
+/**
+ * Retrieves the signed-in learner's attempts at one exercise.
+ * @param exerciseId - The exercise to fetch attempts for
+ * @returns Promise<ActionState<SelectExerciseAttempt[]>> - Attempts, newest first, or error
+ */
+export async function getExerciseAttemptsAction(
+  exerciseId: string
+): Promise<ActionState<SelectExerciseAttempt[]>> {
+  const { userId } = await auth()
+  if (!userId) {
+    return {
+      isSuccess: false,
+      message: "Unauthorized: Please sign in to view your attempts"
+    }
+  }
+
+  try {
+    const attempts = await db
+      .select()
+      .from(exerciseAttemptsTable)
+      .where(
+        and(
+          eq(exerciseAttemptsTable.userId, userId),
+          eq(exerciseAttemptsTable.exerciseId, exerciseId)
+        )
+      )
+      .orderBy(desc(exerciseAttemptsTable.createdAt))
+
+    return {
+      isSuccess: true,
+      message: "Attempts retrieved successfully",
+      data: attempts
+    }
+  } catch (error) {
+    console.error("Error retrieving exercise attempts:", error)
+    return {
+      isSuccess: false,
+      message: "Failed to retrieve attempts due to a server error"
+    }
+  }
+}
+
+/**
+ * Retrieves the signed-in learner's attempts at every exercise in a lesson.
+ * @param lessonId - The lesson to fetch attempts for
+ * @returns Promise<ActionState<SelectExerciseAttempt[]>> - Attempts, newest first, or error
+ */
+export async function getLessonAttemptsAction(
+  lessonId: string
+): Promise<ActionState<SelectExerciseAttempt[]>> {
+  const { userId } = await auth()
+  if (!userId) {
+    return {
+      isSuccess: false,
+      message: "Unauthorized: Please sign in to view your attempts"
+    }
+  }
+
+  try {
+    const attempts = await db
+      .select()
+      .from(exerciseAttemptsTable)
+      .where(
+        and(
+          eq(exerciseAttemptsTable.userId, userId),
+          eq(exerciseAttemptsTable.lessonId, lessonId)
+        )
+      )
+      .orderBy(desc(exerciseAttemptsTable.createdAt))
+
+    return {
+      isSuccess: true,
+      message: "Attempts retrieved successfully",
+      data: attempts
+    }
+  } catch (error) {
+    console.error("Error retrieving lesson attempts:", error)
+    return {
+      isSuccess: false,
+      message: "Failed to retrieve attempts due to a server error"
+    }
+  }
+}
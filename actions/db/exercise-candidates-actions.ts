@@ -0,0 +1,199 @@
+/**
+ * @description
+ * Server actions for reviewing AI-generated exercise candidates in the Learn Kannada app.
+ * Candidates are drafted by generateExerciseCandidatesAction and wait for an admin to
+ * approve (optionally after editing), or reject them.
+ *
+ * Key features:
+ * - Pending candidates of a lesson, oldest first
+ * - Approve: creates the exercise in the lesson's working copy and records who approved it
+ * - Reject: keeps the candidate for the record without creating an exercise
+ *
+ * @dependencies
+ * - @/actions/db/exercises-actions: createExerciseAction validates and stores approved exercises
+ * - @/db/db: Drizzle ORM database instance
+ * - @/db/schema/exercise-candidates-schema: Exercise candidates table and types
+ * - @/lib/auth/admin: Admin authorization
+ * - @/types: ActionState type
+ * - drizzle-orm: For database operations
+ *
+ * @notes
+ * - All actions are admin only
+ * - Edited content is validated against the candidate's type by createExerciseAction; invalid content is
+ *   rejected with fieldErrors keyed by "content.<path>" and the candidate stays pending
+ * - Approval claims the candidate before creating the exercise, so concurrent approvals create it once
+ * - Approved exercises reach learners once the lesson is published
+ */
+
+"use server"
+
+import { createExerciseAction } from "@/actions/db/exercises-actions"
+import { db } from "@/db/db"
+import {
+  SelectExerciseCandidate,
+  exerciseCandidatesTable
+} from "@/db/schema/exercise-candidates-schema"
+import { ADMIN_REQUIRED_MESSAGE, getAdminUserId } from "@/lib/auth/admin"
+import { ActionState } from "@/types"
+import { and, asc, eq, isNull } from "drizzle-orm"
+
+/**
+ * Retrieves a lesson's candidates waiting for review. Admin only.
+ * @param lessonId - The lesson to fetch candidates for
+ * @returns Promise<ActionState<SelectExerciseCandidate[]>> - Pending candidates, oldest first, or error
+ */
+export async function getExerciseCandidatesAction(
+  lessonId: string
+): Promise<ActionState<SelectExerciseCandidate[]>> {
+  if (!(await getAdminUserId())) {
+    return { isSuccess: false, message: ADMIN_REQUIRED_MESSAGE }
+  }
+
+  try {
+    const candidates = await db
+      .select()
+      .from(exerciseCandidatesTable)
+      .where(
+        and(
+          eq(exerciseCandidatesTable.lessonId, lessonId),
+          eq(exerciseCandidatesTable.status, "pending")
+        )
+      )
+      .orderBy(asc(exerciseCandidatesTable.createdAt))
+
+    return {
+      isSuccess: true,
+      message: "Exercise candidates retrieved successfully",
+      data: candidates
+    }
+  } catch (error) {
+    console.error("Error retrieving exercise candidates:", error)
+    return {
+      isSuccess: false,
+      message: "Failed to retrieve exercise candidates due to a server error"
+    }
+  }
+}
+
+/**
+ * Approves a candidate, adding it to its lesson as an exercise. Admin only.
+ * @param candidateId - The candidate to approve
+ * @param content - Edited content to use instead of the generated content (optional)
+ * @returns Promise<ActionState<SelectExerciseCandidate>> - The approved candidate with its exerciseId, or error
+ */
+export async function approveExerciseCandidateAction(
+  candidateId: string,
+  content?: unknown
+): Promise<ActionState<SelectExerciseCandidate>> {
+  const userId = await getAdminUserId()
+  if (!userId) {
+    return { isSuccess: false, message: ADMIN_REQUIRED_MESSAGE }
+  }
+
+  try {
+    // Claim the candidate first, so approving it twice at once creates one exercise
+    const [candidate] = await db
+      .update(exerciseCandidatesTable)
+      .set({ status: "approved", reviewedBy: userId, reviewedAt: new Date() })
+      .where(
+        and(
+          eq(exerciseCandidatesTable.id, candidateId),
+          eq(exerciseCandidatesTable.status, "pending")
+        )
+      )
+      .returning()
+    if (!candidate) {
+      return {
+        isSuccess: false,
+        message: "Exercise candidate not found or already reviewed"
+      }
+    }
+
+    const created = await createExerciseAction({
+      lessonId: candidate.lessonId,
+      type: candidate.type,
+      content: content ?? candidate.content
+    })
+    if (!created.isSuccess) {
+      // The candidate stays pending, so it can be fixed and approved again
+      await db
+        .update(exerciseCandidatesTable)
+        .set({ status: "pending", reviewedBy: null, reviewedAt: null })
+        .where(
+          and(
+            eq(exerciseCandidatesTable.id, candidateId),
+            isNull(exerciseCandidatesTable.exerciseId)
+          )
+        )
+      return {
+        isSuccess: false,
+        message: created.message,
+        fieldErrors: created.fieldErrors
+      }
+    }
+
+    const [approved] = await db
+      .update(exerciseCandidatesTable)
+      .set({ content: created.data.content, exerciseId: created.data.id })
+      .where(eq(exerciseCandidatesTable.id, candidateId))
+      .returning()
+
+    return {
+      isSuccess: true,
+      message: "Exercise candidate approved",
+      data: approved
+    }
+  } catch (error) {
+    console.error("Error approving exercise candidate:", error)
+    return {
+      isSuccess: false,
+      message: "Failed to approve exercise candidate due to a server error"
+    }
+  }
+}
+
+/**
+ * Rejects a candidate. Admin only.
+ * @param candidateId - The candidate to reject
+ * @returns Promise<ActionState<void>> - Success or error
+ */
+export async function rejectExerciseCandidateAction(
+  candidateId: string
+): Promise<ActionState<void>> {
+  const userId = await getAdminUserId()
+  if (!userId) {
+    return { isSuccess: false, message: ADMIN_REQUIRED_MESSAGE }
+  }
+
+  try {
+    const [rejected] = await db
+      .update(exerciseCandidatesTable)
+      .set({ status: "rejected", reviewedBy: userId, reviewedAt: new Date() })
+      .where(
+        and(
+          eq(exerciseCandidatesTable.id, candidateId),
+          eq(exerciseCandidatesTable.status, "pending")
+        )
+      )
+      .returning({ id: exerciseCandidatesTable.id })
+
+    if (!rejected) {
+      return {
+        isSuccess: false,
+        message: "Exercise candidate not found or already reviewed"
+      }
+    }
+
+    return {
+      isSuccess: true,
+      message: "Exercise candidate rejected",
+      data: undefined
+    }
+  } catch (error) {
+    console.error("Error rejecting exercise candidate:", error)
+    return {
+      isSuccess: false,
+      message: "Failed to reject exercise candidate due to a server error"
+    }
+  }
+}
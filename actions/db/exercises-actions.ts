@@ -6,45 +6,103 @@
  * feature by enabling exercise creation, retrieval by lesson, and basic scoring.
  *
  * Key features:
- * - Create Exercise: Adds a new exercise linked to a lesson
- * - Retrieve Exercises: Fetches all exercises for a given lesson ID
- * - Submit Exercise: Processes user responses and returns a score (basic implementation)
+ * - Create, Update and Delete Exercise: Authoring actions, admin only
+ * - Retrieve Exercises: Fetches all exercises for a given lesson ID (working copy for admins, or the published
+ *   revision as learner projections without answer keys)
+ * - Submit Exercise: Processes user responses and returns a score, graded against the lesson's published revision;
+ *   every graded submission is recorded as an exercise attempt and counts towards the streak; XP (and so badges)
+ *   is earned only by improving on the learner's best earlier score; mistakes go into the learner's review queue
  *
  * @dependencies
  * - @clerk/nextjs/server: Used for authentication via Clerk
  * - drizzle-orm: Provides database query capabilities with Drizzle ORM
  * - @/db/db: Imports the database instance with schema
  * - @/db/schema/exercises-schema: Imports exercises table schema and types
+ * - @/db/schema/exercise-attempts-schema: Records each graded submission
+ * - @/db/schema/progress-schema: The learner's XP, streak and badges
+ * - @/db/schema/review-items-schema: The learner's mistake review queue
+ * - @/lib/auth/admin: Admin authorization for authoring actions
+ * - @/lib/exercises/learner-exercise: Strips answer keys from exercises served to learners
+ * - @/lib/exercises/published-exercises: The exercises learners are served, for grading
+ * - @/lib/gamification/rewards: XP, streak and badge rules
+ * - @/lib/grading/exercise-grading: Per-type grading of responses
+ * - @/lib/review/mistake-review: Review queue scheduling and missed matching pairs
+ * - @/lib/validation/exercise-content-validation: Per-type content schemas
+ * - @/actions/db/lesson-revisions-actions: Records a lesson revision after each authoring change
  * - @/types/server-action-types: Imports ActionState type for consistent return values
  *
  * @notes
  * - All actions are server-side only ("use server") per Next.js conventions
- * - Authentication is included for submitExerciseAction; creation/retrieval may assume admin or lesson context
- * - Scoring in submitExerciseAction is basic (correct/incorrect); AI integration is planned for later steps
+ * - Authentication is included for submitExerciseAction; create/update/delete and the working-copy read
+ *   require the admin role
+ * - Scoring in submitExerciseAction is per type (see @/lib/grading/exercise-grading): spelling variants and
+ *   romanized answers are accepted, and near misses, matching and fill-blank earn partial credit
+ * - The attempt, the learner's XP, streak and badges, and their review queue are written in one transaction;
+ *   totals live on the learner's progress record without a lessonId, locked while they are updated
+ * - Pairs missed in a matching exercise also enter the review queue as vocabulary
  * - Date handling relies on schema defaults for createdAt/updatedAt
- * - Assumes exercise content JSON includes a 'correctAnswer' field for scoring
+ * - Learners get exercises from the published revision; authors edit the exercises table (the working copy)
+ * - Exercises of draft lessons are never graded, and a submission naming an outdated revision is rejected rather
+ *   than graded against answers the learner was not shown
+ * - Content is validated against its exercise type on create and update; invalid content is rejected with
+ *   fieldErrors keyed by "type" or "content.<path>"
  */
 
 "use server"
 
 import { auth } from "@clerk/nextjs/server"
-import { eq } from "drizzle-orm"
+import { and, asc, eq, isNull, max, ne } from "drizzle-orm"
+import { recordLessonRevisionAction } from "@/actions/db/lesson-revisions-actions"
 import { db } from "@/db/db"
+import { exerciseAttemptsTable } from "@/db/schema/exercise-attempts-schema"
 import {
   InsertExercise,
   SelectExercise,
   exercisesTable
 } from "@/db/schema/exercises-schema"
+import { lessonRevisionsTable } from "@/db/schema/lesson-revisions-schema"
+import { lessonsTable } from "@/db/schema/lessons-schema"
+import { progressTable } from "@/db/schema/progress-schema"
+import {
+  InsertReviewItem,
+  reviewItemsTable
+} from "@/db/schema/review-items-schema"
+import { ADMIN_REQUIRED_MESSAGE, getAdminUserId } from "@/lib/auth/admin"
+import { toLearnerExercise } from "@/lib/exercises/learner-exercise"
+import {
+  PublishedExercise,
+  loadPublishedExercises
+} from "@/lib/exercises/published-exercises"
+import { applyExerciseReward, RewardLevel } from "@/lib/gamification/rewards"
+import { gradeExercise } from "@/lib/grading/exercise-grading"
+import { findMissedPairs, scheduleReview } from "@/lib/review/mistake-review"
+import {
+  readExerciseDefinition,
+  validateExerciseDefinition
+} from "@/lib/validation/exercise-content-validation"
+import {
+  ExerciseAttemptDetails,
+  ExerciseDefinition,
+  ExerciseResponse,
+  ExerciseReward,
+  ExerciseSubmission,
+  ExerciseType,
+  LearnerExercise
+} from "@/types"
 import { ActionState } from "@/types/server-action-types"
 
 /**
- * Creates a new exercise linked to a specific lesson.
+ * Creates a new exercise linked to a specific lesson. Admin only.
  * @param exercise - The exercise data to insert (excluding id, createdAt, updatedAt)
  * @returns Promise<ActionState<SelectExercise>> - Success with new exercise or error
  */
 export async function createExerciseAction(
   exercise: Omit<InsertExercise, "id" | "createdAt" | "updatedAt">
 ): Promise<ActionState<SelectExercise>> {
+  if (!(await getAdminUserId())) {
+    return { isSuccess: false, message: ADMIN_REQUIRED_MESSAGE }
+  }
+
   try {
     // Validate required fields
     if (!exercise.lessonId || !exercise.type || !exercise.content) {
@@ -54,11 +112,25 @@ export async function createExerciseAction(
       }
     }
 
+    // Content must match the shape of its exercise type
+    const validation = validateExerciseDefinition({
+      type: exercise.type,
+      content: exercise.content
+    })
+    if (!validation.success) {
+      return {
+        isSuccess: false,
+        message: "Exercise content is invalid",
+        fieldErrors: validation.fieldErrors
+      }
+    }
+
     // Insert the exercise into the database
     const [newExercise] = await db
       .insert(exercisesTable)
-      .values(exercise)
+      .values({ ...exercise, ...validation.data })
       .returning()
+    await recordLessonRevisionAction(newExercise.lessonId)
 
     return {
       isSuccess: true,
@@ -75,13 +147,117 @@ export async function createExerciseAction(
 }
 
 /**
- * Retrieves all exercises associated with a given lesson ID.
+ * Updates an existing exercise's type or content. Admin only.
+ * @param id - The ID of the exercise to update
+ * @param data - The fields to update
+ * @returns Promise<ActionState<SelectExercise>> - Success with the updated exercise or error
+ */
+export async function updateExerciseAction(
+  id: string,
+  data: Partial<Pick<InsertExercise, "type" | "content">>
+): Promise<ActionState<SelectExercise>> {
+  if (!(await getAdminUserId())) {
+    return { isSuccess: false, message: ADMIN_REQUIRED_MESSAGE }
+  }
+
+  try {
+    const [existing] = await db
+      .select({ type: exercisesTable.type, content: exercisesTable.content })
+      .from(exercisesTable)
+      .where(eq(exercisesTable.id, id))
+      .limit(1)
+
+    if (!existing) {
+      return {
+        isSuccess: false,
+        message: "Exercise not found"
+      }
+    }
+
+    // Validate the exercise as it will be after the update
+    const validation = validateExerciseDefinition({ ...existing, ...data })
+    if (!validation.success) {
+      return {
+        isSuccess: false,
+        message: "Exercise content is invalid",
+        fieldErrors: validation.fieldErrors
+      }
+    }
+
+    const [updatedExercise] = await db
+      .update(exercisesTable)
+      .set(validation.data)
+      .where(eq(exercisesTable.id, id))
+      .returning()
+
+    if (!updatedExercise) {
+      return {
+        isSuccess: false,
+        message: "Exercise not found"
+      }
+    }
+    await recordLessonRevisionAction(updatedExercise.lessonId)
+
+    return {
+      isSuccess: true,
+      message: "Exercise updated successfully",
+      data: updatedExercise
+    }
+  } catch (error) {
+    console.error("Error updating exercise:", error)
+    return {
+      isSuccess: false,
+      message: "Failed to update exercise due to a server error"
+    }
+  }
+}
+
+/**
+ * Deletes an exercise. Admin only.
+ * @param id - The ID of the exercise to delete
+ * @returns Promise<ActionState<void>> - Success or failure state
+ */
+export async function deleteExerciseAction(
+  id: string
+): Promise<ActionState<void>> {
+  if (!(await getAdminUserId())) {
+    return { isSuccess: false, message: ADMIN_REQUIRED_MESSAGE }
+  }
+
+  try {
+    const [deletedExercise] = await db
+      .delete(exercisesTable)
+      .where(eq(exercisesTable.id, id))
+      .returning()
+    if (deletedExercise) {
+      await recordLessonRevisionAction(deletedExercise.lessonId)
+    }
+    return {
+      isSuccess: true,
+      message: "Exercise deleted successfully",
+      data: undefined
+    }
+  } catch (error) {
+    console.error("Error deleting exercise:", error)
+    return {
+      isSuccess: false,
+      message: "Failed to delete exercise due to a server error"
+    }
+  }
+}
+
+/**
+ * Retrieves all exercises associated with a given lesson ID, answer keys included. Admin only.
  * @param lessonId - The ID of the lesson to fetch exercises for
  * @returns Promise<ActionState<SelectExercise[]>> - Success with exercise list or error
  */
 export async function getExercisesByLessonIdAction(
   lessonId: string
 ): Promise<ActionState<SelectExercise[]>> {
+  if (!(await getAdminUserId())) {
+    return { isSuccess: false, message: ADMIN_REQUIRED_MESSAGE }
+  }
+
   try {
     // Validate lessonId
     if (!lessonId) {
@@ -112,15 +288,85 @@ export async function getExercisesByLessonIdAction(
 }
 
 /**
- * Submits a user’s exercise response and returns a basic score.
+ * Retrieves a published lesson's exercises as learners should see them: from the
+ * lesson's published revision, or from the exercises table for lessons published
+ * before versioning, without their answer keys.
+ * @param lessonId - The ID of the lesson to fetch exercises for
+ * @returns Promise<ActionState<LearnerExercise[]>> - Success with the learner projections or error;
+ *   exercises whose content does not fit their type are left out
+ */
+export async function getPublishedExercisesAction(
+  lessonId: string
+): Promise<ActionState<LearnerExercise[]>> {
+  try {
+    const [lesson] = await db
+      .select({ publishedRevisionId: lessonsTable.publishedRevisionId })
+      .from(lessonsTable)
+      .where(
+        and(
+          eq(lessonsTable.id, lessonId),
+          eq(lessonsTable.publishStatus, "published")
+        )
+      )
+      .limit(1)
+
+    if (!lesson) {
+      return {
+        isSuccess: false,
+        message: "Lesson not found"
+      }
+    }
+
+    if (!lesson.publishedRevisionId) {
+      const exercises = await db
+        .select()
+        .from(exercisesTable)
+        .where(eq(exercisesTable.lessonId, lessonId))
+        .orderBy(asc(exercisesTable.createdAt), asc(exercisesTable.id))
+      return {
+        isSuccess: true,
+        message: "Exercises retrieved successfully",
+        data: toLearnerExercises(exercises)
+      }
+    }
+
+    const [revision] = await db
+      .select()
+      .from(lessonRevisionsTable)
+      .where(eq(lessonRevisionsTable.id, lesson.publishedRevisionId))
+      .limit(1)
+
+    return {
+      isSuccess: true,
+      message: "Exercises retrieved successfully",
+      data: toLearnerExercises(revision?.exercises ?? [])
+    }
+  } catch (error) {
+    console.error("Error retrieving published exercises:", error)
+    return {
+      isSuccess: false,
+      message: "Failed to retrieve exercises due to a server error"
+    }
+  }
+}
+
+/**
+ * Submits a user’s exercise response, records the attempt, awards XP and returns its score and reward.
+ * The exercise is graded as the lesson's published revision has it; when the learner's revision is given and
+ * is no longer the published one, the submission is rejected so they are not marked against edits they have not seen.
+ * XP is earned once per exercise: a submission earns only what it improves on the learner's best earlier score.
  * @param exerciseId - The ID of the exercise being submitted
- * @param userResponse - The user’s response to the exercise (string or JSON based on type)
- * @returns Promise<ActionState<{ score: number; feedback: string }>> - Success with score or error
+ * @param userResponse - The user’s response: text, one entry per blank or word, or a matching map
+ * @param lessonRevisionId - The lesson revision the learner was served; null for lessons published before versioning
+ * @param details - Time taken and hints used, recorded with the attempt
+ * @returns Promise<ActionState<ExerciseSubmission>> - Success with score, feedback and reward, or error
  */
 export async function submitExerciseAction(
   exerciseId: string,
-  userResponse: string | object
-): Promise<ActionState<{ score: number; feedback: string }>> {
+  userResponse: ExerciseResponse,
+  lessonRevisionId?: string | null,
+  details: ExerciseAttemptDetails = {}
+): Promise<ActionState<ExerciseSubmission>> {
   // Authenticate the user
   const { userId } = await auth()
   if (!userId) {
@@ -139,40 +385,78 @@ export async function submitExerciseAction(
       }
     }
 
-    // Fetch the exercise to get the correct answer
-    const [exercise] = await db
-      .select()
-      .from(exercisesTable)
-      .where(eq(exercisesTable.id, exerciseId))
-      .limit(1)
+    // Fetch the exercise as the lesson's published revision has it
+    const found = await findGradableExercise(
+      exerciseId,
+      lessonRevisionId ?? null
+    )
+    if (!found.isSuccess) return found
+    const { exercise, level } = found.data
 
-    if (!exercise) {
+    // Grade against the answer key of the exercise's type
+    const definition = readExerciseDefinition(exercise)
+    if (!definition) {
       return {
         isSuccess: false,
-        message: "Exercise not found"
+        message: "Exercise content is invalid for its type"
       }
     }
-
-    // Basic scoring logic (assumes content JSON has a 'correctAnswer' field)
-    const content = exercise.content as { correctAnswer?: string }
-    if (!content.correctAnswer) {
+    const grade = gradeExercise(definition, userResponse)
+    if (!grade) {
       return {
         isSuccess: false,
-        message: "Exercise content lacks a correct answer for scoring"
+        message: "Response does not match the exercise type"
       }
     }
+    const { score, feedback } = grade
 
-    // Compare user response with correct answer (string comparison for simplicity)
-    const isCorrect =
-      typeof userResponse === "string" &&
-      userResponse.trim().toLowerCase() === content.correctAnswer.trim().toLowerCase()
-    const score = isCorrect ? 1 : 0
-    const feedback = isCorrect ? "Correct! Well done." : "Incorrect. Try again!"
+    // Record the attempt and award XP together, so neither is kept without the other
+    const { attemptId, reward } = await db.transaction(async tx => {
+      // Keep the attempt for history, mistake review and analytics
+      const [attempt] = await tx
+        .insert(exerciseAttemptsTable)
+        .values({
+          userId,
+          exerciseId,
+          exerciseType: definition.type,
+          lessonId: exercise.lessonId,
+          lessonRevisionId: exercise.lessonRevisionId,
+          response: userResponse,
+          score,
+          timeTakenMs: toCount(details.timeTakenMs),
+          hintsUsed: toCount(details.hintsUsed) ?? 0
+        })
+        .returning({ id: exerciseAttemptsTable.id })
+
+      const reward = await awardExerciseProgress(tx, userId, {
+        attemptId: attempt.id,
+        exerciseId,
+        score,
+        exerciseType: definition.type,
+        level
+      })
+
+      await updateReviewQueue(tx, userId, {
+        exerciseId,
+        lessonId: exercise.lessonId,
+        lessonRevisionId: exercise.lessonRevisionId,
+        definition,
+        response: userResponse,
+        score
+      })
+      return { attemptId: attempt.id, reward }
+    })
 
     return {
       isSuccess: true,
       message: "Exercise submitted successfully",
-      data: { score, feedback }
+      data: {
+        attemptId,
+        score,
+        feedback,
+        lessonRevisionId: exercise.lessonRevisionId,
+        reward
+      }
     }
   } catch (error) {
     console.error("Error submitting exercise:", error)
@@ -181,4 +465,244 @@ export async function submitExerciseAction(
       message: "Failed to submit exercise due to a server error"
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Finds the exercise to grade a submission against: as the lesson's published revision has it.
+ * A revision other than the published one means the learner was served an outdated lesson.
+ */
+async function findGradableExercise(
+  exerciseId: string,
+  lessonRevisionId: string | null
+): Promise<ActionState<{ exercise: PublishedExercise; level: RewardLevel }>> {
+  const [source] = lessonRevisionId
+    ? await db
+        .select({ lessonId: lessonRevisionsTable.lessonId })
+        .from(lessonRevisionsTable)
+        .where(eq(lessonRevisionsTable.id, lessonRevisionId))
+        .limit(1)
+    : await db
+        .select({ lessonId: exercisesTable.lessonId })
+        .from(exercisesTable)
+        .where(eq(exercisesTable.id, exerciseId))
+        .limit(1)
+  if (!source) {
+    return { isSuccess: false, message: "Exercise not found" }
+  }
+
+  const [lesson] = await db
+    .select({
+      level: lessonsTable.level,
+      publishStatus: lessonsTable.publishStatus,
+      publishedRevisionId: lessonsTable.publishedRevisionId
+    })
+    .from(lessonsTable)
+    .where(eq(lessonsTable.id, source.lessonId))
+    .limit(1)
+  if (!lesson || lesson.publishStatus !== "published") {
+    return { isSuccess: false, message: "Exercise not found" }
+  }
+  if (lessonRevisionId && lessonRevisionId !== lesson.publishedRevisionId) {
+    return {
+      isSuccess: false,
+      message: "This lesson has been updated. Reload it to continue."
+    }
+  }
+
+  const exercise = (await loadPublishedExercises([source.lessonId])).get(
+    exerciseId
+  )
+  if (!exercise) {
+    return { isSuccess: false, message: "Exercise not found" }
+  }
+
+  return {
+    isSuccess: true,
+    message: "Exercise found",
+    data: { exercise, level: lesson.level }
+  }
+}
+
+// Learner projections of stored exercises, leaving out those whose content does not fit their type
+function toLearnerExercises(
+  exercises: { id: string; type: ExerciseType; content: unknown }[]
+): LearnerExercise[] {
+  return exercises.flatMap(exercise => {
+    const learnerExercise = toLearnerExercise(exercise)
+    return learnerExercise ? [learnerExercise] : []
+  })
+}
+
+// Client-reported counts are stored as non-negative integers; anything else is unknown
+function toCount(value: number | undefined): number | null {
+  return typeof value === "number" && Number.isFinite(value)
+    ? Math.max(0, Math.round(value))
+    : null
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0]
+
+// Adds a submission's reward to the learner's totals, creating their totals record on the first submission
+async function awardExerciseProgress(
+  tx: Transaction,
+  userId: string,
+  submission: {
+    attemptId: string
+    exerciseId: string
+    score: number
+    exerciseType: ExerciseType
+    level: RewardLevel
+  }
+): Promise<ExerciseReward> {
+  const [existing] = await tx
+    .select()
+    .from(progressTable)
+    .where(
+      and(eq(progressTable.userId, userId), isNull(progressTable.lessonId))
+    )
+    .limit(1)
+    .for("update")
+
+  // Only an improvement on the learner's best earlier attempt earns XP, so repeating an answer earns nothing;
+  // read after the totals are locked, so concurrent submissions see each other's attempts
+  const [earlier] = await tx
+    .select({ best: max(exerciseAttemptsTable.score) })
+    .from(exerciseAttemptsTable)
+    .where(
+      and(
+        eq(exerciseAttemptsTable.userId, userId),
+        eq(exerciseAttemptsTable.exerciseId, submission.exerciseId),
+        ne(exerciseAttemptsTable.id, submission.attemptId)
+      )
+    )
+  const unrewardedScore = Math.max(0, submission.score - (earlier?.best ?? 0))
+
+  const now = new Date()
+  const { totals, reward } = applyExerciseReward(
+    existing
+      ? {
+          xp: existing.xp,
+          streak: existing.streak,
+          badges: existing.badges as string[],
+          lastActiveAt: existing.updatedAt
+        }
+      : null,
+    { ...submission, score: unrewardedScore },
+    now
+  )
+
+  const values = {
+    xp: totals.xp,
+    streak: totals.streak,
+    badges: totals.badges,
+    updatedAt: now
+  }
+  if (existing) {
+    await tx
+      .update(progressTable)
+      .set(values)
+      .where(eq(progressTable.id, existing.id))
+  } else {
+    await tx.insert(progressTable).values({ userId, ...values })
+  }
+
+  return reward
+}
+
+// Puts a submission's mistakes in the learner's review queue and moves due items along when answered correctly
+async function updateReviewQueue(
+  tx: Transaction,
+  userId: string,
+  submission: {
+    exerciseId: string
+    lessonId: string
+    lessonRevisionId: string | null
+    definition: ExerciseDefinition
+    response: ExerciseResponse
+    score: number
+  }
+): Promise<void> {
+  const { exerciseId, lessonId, lessonRevisionId, definition, response } =
+    submission
+  const now = new Date()
+
+  await updateReviewItem(
+    tx,
+    userId,
+    {
+      kind: "exercise",
+      lessonId,
+      exerciseId,
+      exerciseType: definition.type,
+      lessonRevisionId
+    },
+    submission.score,
+    now
+  )
+
+  // Each pair of a matching exercise is also a word to remember
+  if (
+    definition.type === "matching" &&
+    typeof response === "object" &&
+    !Array.isArray(response)
+  ) {
+    const missed = findMissedPairs(definition.content.pairs, response)
+    for (const pair of definition.content.pairs) {
+      await updateReviewItem(
+        tx,
+        userId,
+        { kind: "vocabulary", lessonId, ...pair },
+        missed.includes(pair) ? 0 : 1,
+        now
+      )
+    }
+  }
+}
+
+// Applies one answer to a review item, adding the item on a first mistake
+async function updateReviewItem(
+  tx: Transaction,
+  userId: string,
+  item: Pick<
+    InsertReviewItem,
+    | "kind"
+    | "lessonId"
+    | "exerciseId"
+    | "exerciseType"
+    | "lessonRevisionId"
+    | "kannada"
+    | "english"
+  >,
+  score: number,
+  now: Date
+): Promise<void> {
+  const [existing] = await tx
+    .select()
+    .from(reviewItemsTable)
+    .where(
+      and(
+        eq(reviewItemsTable.userId, userId),
+        item.kind === "exercise"
+          ? eq(reviewItemsTable.exerciseId, item.exerciseId!)
+          : eq(reviewItemsTable.kannada, item.kannada!)
+      )
+    )
+    .limit(1)
+    .for("update")
+
+  const schedule = scheduleReview(existing ?? null, score, now)
+  if (!schedule || schedule === existing) return
+
+  if (existing) {
+    // A mistake also points the item at the lesson and revision it was made in
+    await tx
+      .update(reviewItemsTable)
+      .set({ ...schedule, ...(score < 1 ? item : {}), lastReviewedAt: now })
+      .where(eq(reviewItemsTable.id, existing.id))
+  } else {
+    await tx
+      .insert(reviewItemsTable)
+      .values({ userId, ...item, ...schedule, lastReviewedAt: now })
+      .onConflictDoNothing()
+  }
+}
@@ -0,0 +1,473 @@
+/**
+ * @description
+ * Server actions for lesson versioning in the Learn Kannada app.
+ * Each save of a lesson or its exercises records an immutable revision; publishing
+ * moves the lesson's pointer to a revision, which is what learners are served.
+ *
+ * Key features:
+ * - Record a revision snapshot of the working copy (lesson + exercises)
+ * - List revisions and diff any two of them
+ * - Publish or unpublish, and roll back to an earlier revision in one step
+ * - Keeps the vocabulary table in step with each lesson's published revision
+ *
+ * @dependencies
+ * - @/db/db: Drizzle ORM database instance
+ * - @/db/schema: Lessons, exercises, lesson revisions and vocabulary tables
+ * - @/lib/auth/admin: Admin authorization (all actions here are admin-only)
+ * - @/lib/versioning/lesson-diff: Field-level revision diffs
+ * - @/lib/validation/lesson-content-validation: Normalizes content for snapshots
+ * - @/lib/vocabulary/lesson-vocabulary: Extracts the words a lesson teaches
+ * - @/types: ActionState and revision types
+ * - drizzle-orm: For database operations
+ *
+ * @notes
+ * - Revisions are never modified; rollback restores the working copy from a revision instead
+ * - Saving without changes does not create a new revision
+ * - Learner-facing reads of published revisions live in lessons-actions and exercises-actions
+ * - Unpublishing keeps the lesson's vocabulary; learners' review queues skip words of unpublished lessons
+ */
+
+"use server"
+
+import { db } from "@/db/db"
+import { exercisesTable } from "@/db/schema/exercises-schema"
+import {
+  SelectLessonRevision,
+  lessonRevisionsTable
+} from "@/db/schema/lesson-revisions-schema"
+import { lessonsTable } from "@/db/schema/lessons-schema"
+import { vocabularyTable } from "@/db/schema/vocabulary-schema"
+import { ADMIN_REQUIRED_MESSAGE, getAdminUserId } from "@/lib/auth/admin"
+import { readLessonContent } from "@/lib/validation/lesson-content-validation"
+import { diffLessonRevisions } from "@/lib/versioning/lesson-diff"
+import { extractLessonVocabulary } from "@/lib/vocabulary/lesson-vocabulary"
+import {
+  ActionState,
+  LessonContent,
+  LessonRevisionChange,
+  LessonRevisionSnapshot
+} from "@/types"
+import { and, asc, desc, eq, notInArray } from "drizzle-orm"
+
+/**
+ * Records the lesson's working copy (and its exercises) as a new revision. Admin only.
+ * If nothing changed since the latest revision, the latest revision is returned instead.
+ * @param lessonId - The lesson to snapshot
+ * @returns Promise<ActionState<SelectLessonRevision>> - Success with the new (or unchanged latest) revision
+ */
+export async function recordLessonRevisionAction(
+  lessonId: string
+): Promise<ActionState<SelectLessonRevision>> {
+  const userId = await getAdminUserId()
+  if (!userId) {
+    return { isSuccess: false, message: ADMIN_REQUIRED_MESSAGE }
+  }
+
+  try {
+    const [lesson] = await db
+      .select()
+      .from(lessonsTable)
+      .where(eq(lessonsTable.id, lessonId))
+      .limit(1)
+    if (!lesson) {
+      return { isSuccess: false, message: "Lesson not found" }
+    }
+
+    const exercises = await db
+      .select()
+      .from(exercisesTable)
+      .where(eq(exercisesTable.lessonId, lessonId))
+      .orderBy(asc(exercisesTable.createdAt), asc(exercisesTable.id))
+
+    const snapshot: LessonRevisionSnapshot = {
+      title: lesson.title,
+      level: lesson.level,
+      content: readLessonContent(lesson.content),
+      exercises: exercises.map(({ id, type, content }) => ({
+        id,
+        type,
+        content
+      }))
+    }
+
+    const [latest] = await db
+      .select()
+      .from(lessonRevisionsTable)
+      .where(eq(lessonRevisionsTable.lessonId, lessonId))
+      .orderBy(desc(lessonRevisionsTable.revisionNumber))
+      .limit(1)
+
+    if (
+      latest &&
+      diffLessonRevisions(toSnapshot(latest), snapshot).length === 0
+    ) {
+      return {
+        isSuccess: true,
+        message: "No changes since the latest revision",
+        data: latest
+      }
+    }
+
+    const [revision] = await db
+      .insert(lessonRevisionsTable)
+      .values({
+        lessonId,
+        revisionNumber: (latest?.revisionNumber ?? 0) + 1,
+        userId,
+        ...snapshot
+      })
+      .returning()
+
+    return {
+      isSuccess: true,
+      message: "Revision recorded successfully",
+      data: revision
+    }
+  } catch (error) {
+    console.error("Error recording lesson revision:", error)
+    return { isSuccess: false, message: "Failed to record lesson revision" }
+  }
+}
+
+/**
+ * Lists a lesson's revisions, newest first. Admin only.
+ * @param lessonId - The lesson whose history to list
+ * @returns Promise<ActionState<SelectLessonRevision[]>> - Success with the revisions or error
+ */
+export async function getLessonRevisionsAction(
+  lessonId: string
+): Promise<ActionState<SelectLessonRevision[]>> {
+  if (!(await getAdminUserId())) {
+    return { isSuccess: false, message: ADMIN_REQUIRED_MESSAGE }
+  }
+
+  try {
+    const revisions = await db
+      .select()
+      .from(lessonRevisionsTable)
+      .where(eq(lessonRevisionsTable.lessonId, lessonId))
+      .orderBy(desc(lessonRevisionsTable.revisionNumber))
+    return {
+      isSuccess: true,
+      message: "Revisions retrieved successfully",
+      data: revisions
+    }
+  } catch (error) {
+    console.error("Error getting lesson revisions:", error)
+    return { isSuccess: false, message: "Failed to get lesson revisions" }
+  }
+}
+
+/**
+ * Diffs a revision against another revision of the same lesson. Admin only.
+ * @param lessonId - The lesson both revisions belong to
+ * @param revisionId - The newer revision
+ * @param baseRevisionId - The revision to compare against; defaults to the one before revisionId
+ * @returns Promise<ActionState<{ fromRevisionNumber: number | null; toRevisionNumber: number; changes: LessonRevisionChange[] }>>
+ */
+export async function getLessonRevisionDiffAction(
+  lessonId: string,
+  revisionId: string,
+  baseRevisionId?: string
+): Promise<
+  ActionState<{
+    fromRevisionNumber: number | null
+    toRevisionNumber: number
+    changes: LessonRevisionChange[]
+  }>
+> {
+  if (!(await getAdminUserId())) {
+    return { isSuccess: false, message: ADMIN_REQUIRED_MESSAGE }
+  }
+
+  try {
+    const revisions = await db
+      .select()
+      .from(lessonRevisionsTable)
+      .where(eq(lessonRevisionsTable.lessonId, lessonId))
+      .orderBy(asc(lessonRevisionsTable.revisionNumber))
+
+    const target = revisions.find(revision => revision.id === revisionId)
+    if (!target) {
+      return { isSuccess: false, message: "Revision not found" }
+    }
+
+    const base = baseRevisionId
+      ? revisions.find(revision => revision.id === baseRevisionId)
+      : revisions.findLast(
+          revision => revision.revisionNumber < target.revisionNumber
+        )
+    if (baseRevisionId && !base) {
+      return { isSuccess: false, message: "Revision not found" }
+    }
+
+    return {
+      isSuccess: true,
+      message: "Revision diff computed successfully",
+      data: {
+        fromRevisionNumber: base?.revisionNumber ?? null,
+        toRevisionNumber: target.revisionNumber,
+        changes: diffLessonRevisions(
+          base ? toSnapshot(base) : null,
+          toSnapshot(target)
+        )
+      }
+    }
+  } catch (error) {
+    console.error("Error diffing lesson revisions:", error)
+    return { isSuccess: false, message: "Failed to compare revisions" }
+  }
+}
+
+/**
+ * Publishes a revision: learners are served it from now on. Admin only.
+ * @param lessonId - The lesson to publish
+ * @param revisionId - The revision to publish; defaults to the latest one
+ * @returns Promise<ActionState<SelectLessonRevision>> - Success with the published revision or error
+ */
+export async function publishLessonRevisionAction(
+  lessonId: string,
+  revisionId?: string
+): Promise<ActionState<SelectLessonRevision>> {
+  if (!(await getAdminUserId())) {
+    return { isSuccess: false, message: ADMIN_REQUIRED_MESSAGE }
+  }
+
+  try {
+    const [revision] = await db
+      .select()
+      .from(lessonRevisionsTable)
+      .where(
+        revisionId
+          ? and(
+              eq(lessonRevisionsTable.lessonId, lessonId),
+              eq(lessonRevisionsTable.id, revisionId)
+            )
+          : eq(lessonRevisionsTable.lessonId, lessonId)
+      )
+      .orderBy(desc(lessonRevisionsTable.revisionNumber))
+      .limit(1)
+
+    if (!revision) {
+      return { isSuccess: false, message: "Revision not found" }
+    }
+
+    await db.transaction(async tx => {
+      await tx
+        .update(lessonsTable)
+        .set({ publishedRevisionId: revision.id, publishStatus: "published" })
+        .where(eq(lessonsTable.id, lessonId))
+      await syncLessonVocabulary(tx, lessonId, revision.content)
+    })
+
+    return {
+      isSuccess: true,
+      message: `Revision ${revision.revisionNumber} published`,
+      data: revision
+    }
+  } catch (error) {
+    console.error("Error publishing lesson revision:", error)
+    return { isSuccess: false, message: "Failed to publish lesson" }
+  }
+}
+
+/**
+ * Hides a lesson from learners without discarding its publish pointer. Admin only.
+ * @param lessonId - The lesson to unpublish
+ * @returns Promise<ActionState<void>> - Success or failure state
+ */
+export async function unpublishLessonAction(
+  lessonId: string
+): Promise<ActionState<void>> {
+  if (!(await getAdminUserId())) {
+    return { isSuccess: false, message: ADMIN_REQUIRED_MESSAGE }
+  }
+
+  try {
+    await db
+      .update(lessonsTable)
+      .set({ publishStatus: "draft" })
+      .where(eq(lessonsTable.id, lessonId))
+    return {
+      isSuccess: true,
+      message: "Lesson unpublished",
+      data: undefined
+    }
+  } catch (error) {
+    console.error("Error unpublishing lesson:", error)
+    return { isSuccess: false, message: "Failed to unpublish lesson" }
+  }
+}
+
+/**
+ * Rolls a lesson back to an earlier revision. Admin only.
+ * The working copy (lesson fields and exercises) is restored from the revision
+ * and the revision is published, so authors and learners both see it.
+ * @param lessonId - The lesson to roll back
+ * @param revisionId - The revision to restore
+ * @returns Promise<ActionState<SelectLessonRevision>> - Success with the restored revision or error
+ */
+export async function rollbackLessonAction(
+  lessonId: string,
+  revisionId: string
+): Promise<ActionState<SelectLessonRevision>> {
+  if (!(await getAdminUserId())) {
+    return { isSuccess: false, message: ADMIN_REQUIRED_MESSAGE }
+  }
+
+  try {
+    const [revision] = await db
+      .select()
+      .from(lessonRevisionsTable)
+      .where(
+        and(
+          eq(lessonRevisionsTable.lessonId, lessonId),
+          eq(lessonRevisionsTable.id, revisionId)
+        )
+      )
+      .limit(1)
+
+    if (!revision) {
+      return { isSuccess: false, message: "Revision not found" }
+    }
+
+    await db.transaction(async tx => {
+      await tx
+        .update(lessonsTable)
+        .set({
+          title: revision.title,
+          level: revision.level,
+          content: revision.content,
+          publishedRevisionId: revision.id,
+          publishStatus: "published"
+        })
+        .where(eq(lessonsTable.id, lessonId))
+
+      const keptIds = revision.exercises.map(exercise => exercise.id)
+      await tx
+        .delete(exercisesTable)
+        .where(
+          keptIds.length > 0
+            ? and(
+                eq(exercisesTable.lessonId, lessonId),
+                notInArray(exercisesTable.id, keptIds)
+              )
+            : eq(exercisesTable.lessonId, lessonId)
+        )
+
+      for (const exercise of revision.exercises) {
+        await tx
+          .insert(exercisesTable)
+          .values({
+            id: exercise.id,
+            lessonId,
+            type: exercise.type,
+            content: exercise.content
+          })
+          .onConflictDoUpdate({
+            target: exercisesTable.id,
+            set: { type: exercise.type, content: exercise.content }
+          })
+      }
+
+      await syncLessonVocabulary(tx, lessonId, revision.content)
+    })
+
+    return {
+      isSuccess: true,
+      message: `Rolled back to revision ${revision.revisionNumber}`,
+      data: revision
+    }
+  } catch (error) {
+    console.error("Error rolling back lesson:", error)
+    return { isSuccess: false, message: "Failed to roll back lesson" }
+  }
+}
+
+/**
+ * Rebuilds the vocabulary of every published lesson from its published revision. Admin only.
+ * Run once for lessons published before the vocabulary table existed; publishing keeps it up to date after that.
+ * @returns Promise<ActionState<{ lessonCount: number; wordCount: number }>> - Lessons and words synced, or error
+ */
+export async function syncPublishedVocabularyAction(): Promise<
+  ActionState<{ lessonCount: number; wordCount: number }>
+> {
+  if (!(await getAdminUserId())) {
+    return { isSuccess: false, message: ADMIN_REQUIRED_MESSAGE }
+  }
+
+  try {
+    const published = await db
+      .select({
+        lessonId: lessonRevisionsTable.lessonId,
+        content: lessonRevisionsTable.content
+      })
+      .from(lessonsTable)
+      .innerJoin(
+        lessonRevisionsTable,
+        eq(lessonsTable.publishedRevisionId, lessonRevisionsTable.id)
+      )
+
+    let wordCount = 0
+    for (const lesson of published) {
+      wordCount += await db.transaction(tx =>
+        syncLessonVocabulary(tx, lesson.lessonId, lesson.content)
+      )
+    }
+
+    return {
+      isSuccess: true,
+      message: `Synced ${wordCount} words from ${published.length} lessons`,
+      data: { lessonCount: published.length, wordCount }
+    }
+  } catch (error) {
+    console.error("Error syncing vocabulary:", error)
+    return { isSuccess: false, message: "Failed to sync vocabulary" }
+  }
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0]
+
+// Makes the lesson's vocabulary rows match its published content, keeping the IDs of words it still teaches
+async function syncLessonVocabulary(
+  tx: Transaction,
+  lessonId: string,
+  content: LessonContent
+): Promise<number> {
+  const words = extractLessonVocabulary(readLessonContent(content))
+
+  const kept = words.map(word => word.kannada)
+  await tx
+    .delete(vocabularyTable)
+    .where(
+      kept.length > 0
+        ? and(
+            eq(vocabularyTable.lessonId, lessonId),
+            notInArray(vocabularyTable.kannada, kept)
+          )
+        : eq(vocabularyTable.lessonId, lessonId)
+    )
+
+  for (const word of words) {
+    await tx
+      .insert(vocabularyTable)
+      .values({ lessonId, ...word })
+      .onConflictDoUpdate({
+        target: [vocabularyTable.lessonId, vocabularyTable.kannada],
+        set: word
+      })
+  }
+  return words.length
+}
+
+/**
+ * Extracts the learner-visible snapshot from a revision row.
+ */
+function toSnapshot(revision: SelectLessonRevision): LessonRevisionSnapshot {
+  return {
+    title: revision.title,
+    level: revision.level,
+    content: revision.content,
+    exercises: revision.exercises
+  }
+}
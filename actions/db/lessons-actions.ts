@@ -4,49 +4,80 @@
  * Provides CRUD operations for lessons stored in the database.
  *
  * Key features:
- * - Create, read, update, and delete lessons
+ * - Create, read, update, and delete lessons (writes are admin-only)
+ * - Single-lesson reads normalize legacy content for rendering
+ * - Learner reads only see published lessons, served from their published revision; admin reads include drafts
+ * - Every create and update records a lesson revision
+ * - Paginated level catalogue in curriculum order with the learner's completion and lesson status
  * - Type-safe interactions with the lessons table
+ * - Lesson content is validated against the versioned document format
+ * - Migration of legacy (unversioned) lesson content to the current format
  *
  * @dependencies
+ * - @/actions/db/curriculum-actions: Curriculum order, completion and lesson status
+ * - @/actions/db/lesson-revisions-actions: Records a revision after each write
  * - @/db/db: Drizzle ORM database instance
  * - @/db/schema/lessons-schema: Lesson schema definitions
+ * - @/lib/auth/admin: Admin authorization for authoring actions
+ * - @/lib/validation/lesson-content-validation: Lesson content validation and upgrade helpers
  * - @/types: ActionState type for consistent return values
- * - drizzle-orm: For database operations (eq for where clauses)
+ * - drizzle-orm: For database operations (eq, and, inArray, asc)
  *
  * @notes
  * - All actions follow the ActionState pattern
  * - Errors are logged and returned as user-friendly messages
+ * - Invalid content is rejected with fieldErrors keyed by "content.<path>"
+ * - Non-admin callers of authoring actions get ADMIN_REQUIRED_MESSAGE
  */
 
 "use server"
 
+import { getCurriculumOverviewAction } from "@/actions/db/curriculum-actions"
 import { db } from "@/db/db"
-import { lessonsTable } from "@/db/schema/lessons-schema"
-import { ActionState } from "@/types"
-import { eq } from "drizzle-orm"
-
-// Explicitly define InsertLesson to enforce level enum
-interface InsertLesson {
-  id: string
-  level: "beginner" | "intermediate" | "advanced"
-  title: string
-  content: unknown // JSON content, can be refined further if needed
-}
+import { recordLessonRevisionAction } from "@/actions/db/lesson-revisions-actions"
+import { lessonRevisionsTable } from "@/db/schema/lesson-revisions-schema"
+import { InsertLesson, SelectLesson, lessonsTable } from "@/db/schema/lessons-schema"
+import { ADMIN_REQUIRED_MESSAGE, getAdminUserId } from "@/lib/auth/admin"
+import {
+  isCurrentLessonContent,
+  readLessonContent,
+  findUnglossedVocabulary,
+  upgradeLessonContent,
+  validateLessonContent,
+  validateMigratedLessonContent
+} from "@/lib/validation/lesson-content-validation"
+import { ActionState, LessonContentMigrationReport, PaginatedResult, PaginationParams } from "@/types"
+import { and, asc, eq, inArray } from "drizzle-orm"
 
-// SelectLesson extends InsertLesson with timestamps
-interface SelectLesson extends InsertLesson {
-  createdAt: Date
-  updatedAt: Date
-}
+// Default and maximum page sizes for the lesson catalogue
+const DEFAULT_PAGE_SIZE = 12
+const MAX_PAGE_SIZE = 50
 
 /**
- * Creates a new lesson in the database.
+ * Creates a new lesson in the database as a draft. Admin only.
  * @param lesson - The lesson data to insert
  * @returns Promise<ActionState<SelectLesson>> - Success or failure state with the created lesson
  */
 export async function createLessonAction(lesson: InsertLesson): Promise<ActionState<SelectLesson>> {
+  if (!(await getAdminUserId())) {
+    return { isSuccess: false, message: ADMIN_REQUIRED_MESSAGE }
+  }
+
+  if (!lesson.title?.trim()) {
+    return { isSuccess: false, message: "Lesson title is required", fieldErrors: { title: ["Required"] } }
+  }
+
+  const validation = validateLessonContent(lesson.content)
+  if (!validation.success) {
+    return { isSuccess: false, message: "Lesson content is invalid", fieldErrors: validation.fieldErrors }
+  }
+
   try {
-    const [newLesson] = await db.insert(lessonsTable).values(lesson).returning()
+    const [newLesson] = await db
+      .insert(lessonsTable)
+      .values({ ...lesson, content: validation.data, publishStatus: "draft" })
+      .returning()
+    await recordLessonRevisionAction(newLesson.id)
     return { isSuccess: true, message: "Lesson created successfully", data: newLesson }
   } catch (error) {
     console.error("Error creating lesson:", error)
@@ -55,14 +86,27 @@ export async function createLessonAction(lesson: InsertLesson): Promise<ActionSt
 }
 
 /**
- * Retrieves a lesson by its ID.
+ * Retrieves a single published lesson for display, as of its published revision,
+ * with its content normalized to the current format.
  * @param id - The ID of the lesson to retrieve
- * @returns Promise<ActionState<SelectLesson[]>> - Success or failure state with the lesson array
+ * @returns Promise<ActionState<SelectLesson>> - Success with the lesson, or failure if it does not exist or is a draft
  */
-export async function getLessonAction(id: string): Promise<ActionState<SelectLesson[]>> {
+export async function getLessonByIdAction(id: string): Promise<ActionState<SelectLesson>> {
   try {
-    const lessons = await db.select().from(lessonsTable).where(eq(lessonsTable.id, id))
-    return { isSuccess: true, message: "Lesson retrieved successfully", data: lessons }
+    const [lesson] = await db
+      .select()
+      .from(lessonsTable)
+      .where(and(eq(lessonsTable.id, id), eq(lessonsTable.publishStatus, "published")))
+      .limit(1)
+    if (!lesson) {
+      return { isSuccess: false, message: "Lesson not found" }
+    }
+    const [published] = await servePublishedRevisions([lesson])
+    return {
+      isSuccess: true,
+      message: "Lesson retrieved successfully",
+      data: { ...published, content: readLessonContent(published.content) }
+    }
   } catch (error) {
     console.error("Error getting lesson:", error)
     return { isSuccess: false, message: "Failed to get lesson" }
@@ -70,14 +114,143 @@ export async function getLessonAction(id: string): Promise<ActionState<SelectLes
 }
 
 /**
- * Updates an existing lesson by its ID.
+ * Lists every lesson, drafts included, for the authoring studio. Admin only.
+ * @returns Promise<ActionState<SelectLesson[]>> - Success with all lessons by level, then creation time
+ */
+export async function getAdminLessonsAction(): Promise<ActionState<SelectLesson[]>> {
+  if (!(await getAdminUserId())) {
+    return { isSuccess: false, message: ADMIN_REQUIRED_MESSAGE }
+  }
+
+  try {
+    const lessons = await db
+      .select()
+      .from(lessonsTable)
+      .orderBy(asc(lessonsTable.level), asc(lessonsTable.position), asc(lessonsTable.createdAt))
+    return { isSuccess: true, message: "Lessons retrieved successfully", data: lessons }
+  } catch (error) {
+    console.error("Error listing lessons for admin:", error)
+    return { isSuccess: false, message: "Failed to get lessons" }
+  }
+}
+
+/**
+ * Retrieves a lesson for editing, drafts included. Admin only.
+ * Content is normalized so legacy rows open in the editor.
+ * @param id - The ID of the lesson to edit
+ * @returns Promise<ActionState<SelectLesson>> - Success with the lesson, or failure if it does not exist
+ */
+export async function getAdminLessonAction(id: string): Promise<ActionState<SelectLesson>> {
+  if (!(await getAdminUserId())) {
+    return { isSuccess: false, message: ADMIN_REQUIRED_MESSAGE }
+  }
+
+  try {
+    const [lesson] = await db.select().from(lessonsTable).where(eq(lessonsTable.id, id)).limit(1)
+    if (!lesson) {
+      return { isSuccess: false, message: "Lesson not found" }
+    }
+    return {
+      isSuccess: true,
+      message: "Lesson retrieved successfully",
+      data: { ...lesson, content: readLessonContent(lesson.content) }
+    }
+  } catch (error) {
+    console.error("Error getting lesson for admin:", error)
+    return { isSuccess: false, message: "Failed to get lesson" }
+  }
+}
+
+/**
+ * Lists lessons for a level in curriculum order (unit, then position), one page at a time.
+ * Each lesson carries the signed-in learner's completion percentage (0 when signed out) and unlock status.
+ * @param params - The level plus optional page and pageSize
+ * @returns Promise<ActionState<PaginatedResult<SelectLesson>>> - Success with a page of lessons or error
+ */
+export async function getLessonsByLevelAction({
+  level,
+  page = 1,
+  pageSize = DEFAULT_PAGE_SIZE
+}: { level: SelectLesson["level"] } & PaginationParams): Promise<ActionState<PaginatedResult<SelectLesson>>> {
+  const safePageSize = Math.min(Math.max(Math.floor(pageSize), 1), MAX_PAGE_SIZE)
+  const safePage = Math.max(Math.floor(page), 1)
+
+  try {
+    // The curriculum outline fixes the order and carries completion and status per lesson
+    const curriculum = await getCurriculumOverviewAction()
+    if (!curriculum.isSuccess) {
+      return { isSuccess: false, message: "Failed to get lessons" }
+    }
+
+    const outline =
+      curriculum.data.levels.find(entry => entry.level === level)?.units.flatMap(unit => unit.lessons) ?? []
+    const pageOutline = outline.slice((safePage - 1) * safePageSize, safePage * safePageSize)
+
+    const lessons =
+      pageOutline.length > 0
+        ? await servePublishedRevisions(
+            await db
+              .select()
+              .from(lessonsTable)
+              .where(
+                inArray(
+                  lessonsTable.id,
+                  pageOutline.map(entry => entry.id)
+                )
+              )
+          )
+        : []
+
+    return {
+      isSuccess: true,
+      message: "Lessons retrieved successfully",
+      data: {
+        items: pageOutline.flatMap(entry => {
+          const lesson = lessons.find(row => row.id === entry.id)
+          return lesson ? [{ ...lesson, progress: entry.completion, status: entry.status }] : []
+        }),
+        page: safePage,
+        pageSize: safePageSize,
+        total: outline.length,
+        pageCount: Math.max(Math.ceil(outline.length / safePageSize), 1)
+      }
+    }
+  } catch (error) {
+    console.error("Error listing lessons:", error)
+    return { isSuccess: false, message: "Failed to get lessons" }
+  }
+}
+
+/**
+ * Updates an existing lesson by its ID. Admin only.
  * @param id - The ID of the lesson to update
  * @param data - Partial lesson data to update
  * @returns Promise<ActionState<SelectLesson>> - Success or failure state with the updated lesson
  */
 export async function updateLessonAction(id: string, data: Partial<InsertLesson>): Promise<ActionState<SelectLesson>> {
+  if (!(await getAdminUserId())) {
+    return { isSuccess: false, message: ADMIN_REQUIRED_MESSAGE }
+  }
+
+  if (data.title !== undefined && !data.title.trim()) {
+    return { isSuccess: false, message: "Lesson title is required", fieldErrors: { title: ["Required"] } }
+  }
+
+  let updates = data
+  if (data.content !== undefined) {
+    const validation = validateLessonContent(data.content)
+    if (!validation.success) {
+      return { isSuccess: false, message: "Lesson content is invalid", fieldErrors: validation.fieldErrors }
+    }
+    updates = { ...data, content: validation.data }
+  }
+
   try {
-    const [updatedLesson] = await db.update(lessonsTable).set(data).where(eq(lessonsTable.id, id)).returning()
+    const [updatedLesson] = await db.update(lessonsTable).set(updates).where(eq(lessonsTable.id, id)).returning()
+    if (!updatedLesson) {
+      return { isSuccess: false, message: "Lesson not found" }
+    }
+    await recordLessonRevisionAction(updatedLesson.id)
     return { isSuccess: true, message: "Lesson updated successfully", data: updatedLesson }
   } catch (error) {
     console.error("Error updating lesson:", error)
@@ -86,11 +259,15 @@ export async function updateLessonAction(id: string, data: Partial<InsertLesson>
 }
 
 /**
- * Deletes a lesson by its ID.
+ * Deletes a lesson by its ID. Admin only.
  * @param id - The ID of the lesson to delete
  * @returns Promise<ActionState<void>> - Success or failure state
  */
 export async function deleteLessonAction(id: string): Promise<ActionState<void>> {
+  if (!(await getAdminUserId())) {
+    return { isSuccess: false, message: ADMIN_REQUIRED_MESSAGE }
+  }
+
   try {
     await db.delete(lessonsTable).where(eq(lessonsTable.id, id))
     return { isSuccess: true, message: "Lesson deleted successfully", data: undefined }
@@ -98,4 +275,74 @@ export async function deleteLessonAction(id: string): Promise<ActionState<void>>
     console.error("Error deleting lesson:", error)
     return { isSuccess: false, message: "Failed to delete lesson" }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Upgrades stored lesson rows to the current content format.
+ * Rows that still fail validation after the upgrade are left untouched and reported. Admin only.
+ * Legacy vocabulary given as bare words is kept, and listed in the report so an author can add its meaning.
+ * @param options - Set dryRun to false to write the upgraded content
+ * @returns Promise<ActionState<LessonContentMigrationReport>> - Per-row migration report
+ */
+export async function migrateLessonContentAction(
+  { dryRun = true }: { dryRun?: boolean } = {}
+): Promise<ActionState<LessonContentMigrationReport>> {
+  if (!(await getAdminUserId())) {
+    return { isSuccess: false, message: ADMIN_REQUIRED_MESSAGE }
+  }
+
+  try {
+    const lessons = await db.select({ id: lessonsTable.id, content: lessonsTable.content }).from(lessonsTable)
+    const report: LessonContentMigrationReport = { dryRun, migrated: [], alreadyCurrent: [], failed: [], unglossed: [] }
+
+    for (const lesson of lessons) {
+      const wasCurrent = isCurrentLessonContent(lesson.content)
+      const validation = validateMigratedLessonContent(upgradeLessonContent(lesson.content))
+
+      if (!validation.success) {
+        report.failed.push({ lessonId: lesson.id, fieldErrors: validation.fieldErrors })
+        continue
+      }
+
+      if (wasCurrent) {
+        report.alreadyCurrent.push(lesson.id)
+        continue
+      }
+
+      if (!dryRun) {
+        await db.update(lessonsTable).set({ content: validation.data }).where(eq(lessonsTable.id, lesson.id))
+      }
+      report.migrated.push(lesson.id)
+
+      const words = findUnglossedVocabulary(validation.data)
+      if (words.length > 0) {
+        report.unglossed.push({ lessonId: lesson.id, words })
+      }
+    }
+
+    return {
+      isSuccess: true,
+      message: dryRun ? "Lesson content migration dry run completed" : "Lesson content migrated successfully",
+      data: report
+    }
+  } catch (error) {
+    console.error("Error migrating lesson content:", error)
+    return { isSuccess: false, message: "Failed to migrate lesson content" }
+  }
+}
+
+/**
+ * Replaces each lesson's working-copy title, level and content with its published revision.
+ * Lessons published before versioning (no revision pointer) are served as stored.
+ */
+async function servePublishedRevisions(lessons: SelectLesson[]): Promise<SelectLesson[]> {
+  const revisionIds = lessons.flatMap(lesson => (lesson.publishedRevisionId ? [lesson.publishedRevisionId] : []))
+  if (revisionIds.length === 0) return lessons
+
+  const revisions = await db.select().from(lessonRevisionsTable).where(inArray(lessonRevisionsTable.id, revisionIds))
+
+  return lessons.map(lesson => {
+    const revision = revisions.find(candidate => candidate.id === lesson.publishedRevisionId)
+    return revision ? { ...lesson, title: revision.title, level: revision.level, content: revision.content } : lesson
+  })
+}
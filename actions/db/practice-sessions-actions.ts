@@ -0,0 +1,467 @@
+/**
+ * @description
+ * Server actions for practice sessions in the Learn Kannada app.
+ * A session is built from the learner's current lessons, weak areas and review items,
+ * stored, and answered one exercise at a time, so it survives reloads.
+ *
+ * Key features:
+ * - Resume the learner's active session, or build one when there is none
+ * - Start over with a freshly built session
+ * - Submit the answer to the current item: graded, recorded and rewarded by submitExerciseAction
+ *
+ * @dependencies
+ * - @clerk/nextjs/server: Identifies the learner
+ * - @/actions/db/curriculum-actions: Lesson statuses, to keep locked lessons out of sessions
+ * - @/actions/db/exercises-actions: submitExerciseAction for grading, attempts and XP
+ * - @/db/db: Drizzle ORM database instance
+ * - @/db/schema: Practice sessions, exercise attempts, exercises, lessons and lesson revisions tables
+ * - @/lib/exercises/learner-exercise: Strips answer keys from the session's exercises
+ * - @/lib/exercises/published-exercises: Exercises as their lessons' published revisions have them
+ * - @/lib/practice/practice-session: Exercise selection rules
+ * - @/lib/validation/exercise-content-validation: Skips exercises with malformed content
+ * - @/types: ActionState and practice session types
+ * - drizzle-orm: For database operations
+ *
+ * @notes
+ * - Sessions are keyed by exercise type; null is the mixed session
+ * - Only published lessons that are not locked supply exercises, from their published revision
+ * - Items are served and graded from their lesson's current published revision, so a lesson republished
+ *   mid-session does not leave items that cannot be answered
+ * - Speaking exercises give pronunciation feedback rather than a grade, so they are left out
+ * - Each item is answered once: the position is claimed before grading, and handed back only if grading fails
+ */
+
+"use server"
+
+import { auth } from "@clerk/nextjs/server"
+import { getCurriculumOverviewAction } from "@/actions/db/curriculum-actions"
+import { submitExerciseAction } from "@/actions/db/exercises-actions"
+import { db } from "@/db/db"
+import { exerciseAttemptsTable } from "@/db/schema/exercise-attempts-schema"
+import { exercisesTable } from "@/db/schema/exercises-schema"
+import { lessonRevisionsTable } from "@/db/schema/lesson-revisions-schema"
+import { lessonsTable } from "@/db/schema/lessons-schema"
+import {
+  SelectPracticeSession,
+  practiceSessionsTable
+} from "@/db/schema/practice-sessions-schema"
+import { toLearnerExercise } from "@/lib/exercises/learner-exercise"
+import { loadPublishedExercises } from "@/lib/exercises/published-exercises"
+import {
+  DEFAULT_PRACTICE_SESSION_SIZE,
+  MAX_PRACTICE_SESSION_SIZE,
+  PracticeCandidate,
+  selectPracticeItems
+} from "@/lib/practice/practice-session"
+import { readExerciseDefinition } from "@/lib/validation/exercise-content-validation"
+import {
+  ActionState,
+  ExerciseAttemptDetails,
+  ExerciseResponse,
+  ExerciseSubmission,
+  ExerciseType,
+  PracticeItemResult,
+  PracticeSessionEntry,
+  PracticeSessionState
+} from "@/types"
+import { and, eq, inArray, isNull } from "drizzle-orm"
+
+const NO_EXERCISES_MESSAGE =
+  "No exercises are ready for practice yet. Start a lesson to unlock some!"
+
+// Exercise types kept out of sessions. Speaking is gradable, but SpeakingExercise returns
+// pronunciation feedback instead of submitting an answer, so a session could not move past it
+const SESSION_EXCLUDED_TYPES: ExerciseType[] = ["speaking"]
+
+/**
+ * Retrieves the learner's active practice session, building a new one when there is none.
+ * @param exerciseType - Exercise type to practise, or null for mixed practice
+ * @returns Promise<ActionState<PracticeSessionState>> - The session with its exercises, or error
+ */
+export async function getPracticeSessionAction(
+  exerciseType: ExerciseType | null
+): Promise<ActionState<PracticeSessionState>> {
+  const { userId } = await auth()
+  if (!userId) {
+    return {
+      isSuccess: false,
+      message: "Unauthorized: Please sign in to practise"
+    }
+  }
+
+  try {
+    const [active] = await db
+      .select()
+      .from(practiceSessionsTable)
+      .where(activeSessionWhere(userId, exerciseType))
+      .limit(1)
+
+    if (active) {
+      const entries = await loadEntries(active)
+      // Exercises can disappear when their lesson is deleted; such a session cannot be finished
+      if (entries.length === active.items.length) {
+        return {
+          isSuccess: true,
+          message: "Practice session resumed",
+          data: toSessionState(active, entries)
+        }
+      }
+      await db
+        .update(practiceSessionsTable)
+        .set({ status: "abandoned" })
+        .where(eq(practiceSessionsTable.id, active.id))
+    }
+
+    return await createSession(
+      userId,
+      exerciseType,
+      DEFAULT_PRACTICE_SESSION_SIZE
+    )
+  } catch (error) {
+    console.error("Error retrieving practice session:", error)
+    return {
+      isSuccess: false,
+      message: "Failed to load practice session due to a server error"
+    }
+  }
+}
+
+/**
+ * Abandons the learner's active session of this type and builds a new one.
+ * @param exerciseType - Exercise type to practise, or null for mixed practice
+ * @param size - Number of exercises (1 to MAX_PRACTICE_SESSION_SIZE)
+ * @returns Promise<ActionState<PracticeSessionState>> - The new session with its exercises, or error
+ */
+export async function startPracticeSessionAction(
+  exerciseType: ExerciseType | null,
+  size: number = DEFAULT_PRACTICE_SESSION_SIZE
+): Promise<ActionState<PracticeSessionState>> {
+  const { userId } = await auth()
+  if (!userId) {
+    return {
+      isSuccess: false,
+      message: "Unauthorized: Please sign in to practise"
+    }
+  }
+
+  if (!Number.isInteger(size) || size < 1 || size > MAX_PRACTICE_SESSION_SIZE) {
+    return {
+      isSuccess: false,
+      message: `Session size must be between 1 and ${MAX_PRACTICE_SESSION_SIZE}`
+    }
+  }
+
+  try {
+    await db
+      .update(practiceSessionsTable)
+      .set({ status: "abandoned" })
+      .where(activeSessionWhere(userId, exerciseType))
+
+    return await createSession(userId, exerciseType, size)
+  } catch (error) {
+    console.error("Error starting practice session:", error)
+    return {
+      isSuccess: false,
+      message: "Failed to start practice session due to a server error"
+    }
+  }
+}
+
+/**
+ * Submits the learner's answer to the current item of a session and moves to the next item.
+ * @param sessionId - The active session
+ * @param exerciseId - The exercise being answered, which must be the session's current item
+ * @param response - The learner's answer to the current item
+ * @param details - Time taken and hints used, recorded with the attempt
+ * @returns Promise<ActionState<ExerciseSubmission>> - Score, feedback and reward, or error
+ */
+export async function submitPracticeAnswerAction(
+  sessionId: string,
+  exerciseId: string,
+  response: ExerciseResponse,
+  details: ExerciseAttemptDetails = {}
+): Promise<ActionState<ExerciseSubmission>> {
+  const { userId } = await auth()
+  if (!userId) {
+    return {
+      isSuccess: false,
+      message: "Unauthorized: Please sign in to practise"
+    }
+  }
+
+  try {
+    const [session] = await db
+      .select()
+      .from(practiceSessionsTable)
+      .where(
+        and(
+          eq(practiceSessionsTable.id, sessionId),
+          eq(practiceSessionsTable.userId, userId)
+        )
+      )
+      .limit(1)
+
+    if (!session) {
+      return { isSuccess: false, message: "Practice session not found" }
+    }
+    const item = session.items[session.position]
+    if (session.status !== "active" || !item) {
+      return { isSuccess: false, message: "Practice session is not active" }
+    }
+    if (item.exerciseId !== exerciseId) {
+      return {
+        isSuccess: false,
+        message: "This exercise has already been answered"
+      }
+    }
+
+    // The exercise is graded as its lesson's published revision has it, like the entries are served
+    const published = (await loadPublishedExercises([item.lessonId])).get(
+      item.exerciseId
+    )
+    if (!published) {
+      return { isSuccess: false, message: "Exercise not found" }
+    }
+
+    // Claim the position before grading, so a repeated submission is neither graded nor rewarded twice
+    const position = session.position + 1
+    const isFinished = position >= session.items.length
+    const [claimed] = await db
+      .update(practiceSessionsTable)
+      .set({
+        position,
+        ...(isFinished && { status: "completed", completedAt: new Date() })
+      })
+      .where(
+        and(
+          eq(practiceSessionsTable.id, session.id),
+          eq(practiceSessionsTable.status, "active"),
+          eq(practiceSessionsTable.position, session.position)
+        )
+      )
+      .returning({ id: practiceSessionsTable.id })
+    if (!claimed) {
+      return {
+        isSuccess: false,
+        message: "This exercise has already been answered"
+      }
+    }
+
+    const submission = await submitExerciseAction(
+      item.exerciseId,
+      response,
+      published.lessonRevisionId,
+      details
+    )
+    if (!submission.isSuccess) {
+      // Hand the position back so the learner can answer again
+      await db
+        .update(practiceSessionsTable)
+        .set({
+          position: session.position,
+          status: "active",
+          completedAt: null
+        })
+        .where(
+          and(
+            eq(practiceSessionsTable.id, session.id),
+            eq(practiceSessionsTable.position, position)
+          )
+        )
+      return submission
+    }
+
+    const { attemptId, score, feedback, reward } = submission.data
+    await saveItemResult(session.id, session.position, {
+      attemptId,
+      response,
+      score,
+      feedback,
+      xpEarned: reward.xpEarned
+    })
+
+    return submission
+  } catch (error) {
+    console.error("Error submitting practice answer:", error)
+    return {
+      isSuccess: false,
+      message: "Failed to submit answer due to a server error"
+    }
+  }
+}
+
+// Stores the result of an answered item; the row is locked so results of quick answers are not lost
+async function saveItemResult(
+  sessionId: string,
+  index: number,
+  result: PracticeItemResult
+) {
+  await db.transaction(async tx => {
+    const [session] = await tx
+      .select({ items: practiceSessionsTable.items })
+      .from(practiceSessionsTable)
+      .where(eq(practiceSessionsTable.id, sessionId))
+      .limit(1)
+      .for("update")
+    if (!session) return
+
+    await tx
+      .update(practiceSessionsTable)
+      .set({
+        items: session.items.map((item, itemIndex) =>
+          itemIndex === index ? { ...item, result } : item
+        )
+      })
+      .where(eq(practiceSessionsTable.id, sessionId))
+  })
+}
+
+// The learner's active session of a type; null matches the mixed session
+function activeSessionWhere(userId: string, exerciseType: ExerciseType | null) {
+  return and(
+    eq(practiceSessionsTable.userId, userId),
+    eq(practiceSessionsTable.status, "active"),
+    exerciseType
+      ? eq(practiceSessionsTable.exerciseType, exerciseType)
+      : isNull(practiceSessionsTable.exerciseType)
+  )
+}
+
+// Chooses exercises for a new session and stores it
+async function createSession(
+  userId: string,
+  exerciseType: ExerciseType | null,
+  size: number
+): Promise<ActionState<PracticeSessionState>> {
+  const candidates = (await loadCandidates()).filter(
+    candidate =>
+      !SESSION_EXCLUDED_TYPES.includes(candidate.exerciseType) &&
+      (!exerciseType || candidate.exerciseType === exerciseType)
+  )
+  if (candidates.length === 0) {
+    return { isSuccess: false, message: NO_EXERCISES_MESSAGE }
+  }
+
+  const attempts = await db
+    .select({
+      exerciseId: exerciseAttemptsTable.exerciseId,
+      exerciseType: exerciseAttemptsTable.exerciseType,
+      score: exerciseAttemptsTable.score,
+      createdAt: exerciseAttemptsTable.createdAt
+    })
+    .from(exerciseAttemptsTable)
+    .where(eq(exerciseAttemptsTable.userId, userId))
+
+  const items = selectPracticeItems(candidates, attempts, {
+    size,
+    seed: `${userId}:${Date.now()}`
+  })
+
+  const [session] = await db
+    .insert(practiceSessionsTable)
+    .values({ userId, exerciseType, items })
+    .returning()
+
+  return {
+    isSuccess: true,
+    message: "Practice session started",
+    data: toSessionState(session, await loadEntries(session))
+  }
+}
+
+// Published exercises from every lesson the learner may open, in curriculum order
+async function loadCandidates(): Promise<PracticeCandidate[]> {
+  const overview = await getCurriculumOverviewAction()
+  if (!overview.isSuccess) {
+    throw new Error(overview.message)
+  }
+
+  const statusByLesson = new Map(
+    overview.data.levels
+      .flatMap(level => level.units.flatMap(unit => unit.lessons))
+      .filter(lesson => lesson.status !== "locked")
+      .map(lesson => [lesson.id, lesson.status as "available" | "completed"])
+  )
+  if (statusByLesson.size === 0) return []
+
+  const lessons = await db
+    .select({
+      id: lessonsTable.id,
+      publishedRevisionId: lessonsTable.publishedRevisionId,
+      exercises: lessonRevisionsTable.exercises
+    })
+    .from(lessonsTable)
+    .leftJoin(
+      lessonRevisionsTable,
+      eq(lessonsTable.publishedRevisionId, lessonRevisionsTable.id)
+    )
+    .where(inArray(lessonsTable.id, [...statusByLesson.keys()]))
+
+  // Lessons published before versioning are served from the exercises table
+  const unversionedIds = lessons
+    .filter(lesson => !lesson.publishedRevisionId)
+    .map(lesson => lesson.id)
+  const unversioned =
+    unversionedIds.length > 0
+      ? await db
+          .select()
+          .from(exercisesTable)
+          .where(inArray(exercisesTable.lessonId, unversionedIds))
+      : []
+
+  const exercisesByLesson = new Map(
+    lessons.map(lesson => [
+      lesson.id,
+      {
+        lessonRevisionId: lesson.publishedRevisionId,
+        exercises: lesson.publishedRevisionId
+          ? (lesson.exercises ?? [])
+          : unversioned.filter(exercise => exercise.lessonId === lesson.id)
+      }
+    ])
+  )
+
+  return [...statusByLesson].flatMap(([lessonId, lessonStatus]) => {
+    const lesson = exercisesByLesson.get(lessonId)
+    // Exercises whose content does not fit their type cannot be shown, so are skipped
+    const exercises = (lesson?.exercises ?? []).filter(
+      exercise => readExerciseDefinition(exercise) !== null
+    )
+    return exercises.map(exercise => ({
+      exerciseId: exercise.id,
+      exerciseType: exercise.type,
+      lessonId,
+      lessonRevisionId: lesson?.lessonRevisionId ?? null,
+      lessonStatus
+    }))
+  })
+}
+
+// Pairs each session item with the learner projection of its exercise, as the lesson's published revision has it;
+// items whose exercise is no longer published are dropped
+async function loadEntries(
+  session: SelectPracticeSession
+): Promise<PracticeSessionEntry[]> {
+  const published = await loadPublishedExercises(
+    session.items.map(item => item.lessonId)
+  )
+
+  return session.items.flatMap(item => {
+    const stored = published.get(item.exerciseId)
+    const exercise = stored && toLearnerExercise(stored)
+    return exercise ? [{ ...item, exercise }] : []
+  })
+}
+
+function toSessionState(
+  session: SelectPracticeSession,
+  entries: PracticeSessionEntry[]
+): PracticeSessionState {
+  return {
+    id: session.id,
+    exerciseType: session.exerciseType,
+    status: session.status,
+    position: session.position,
+    entries
+  }
+}
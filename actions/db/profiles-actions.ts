@@ -9,6 +9,8 @@
  * - Create Progress: Initializes a new progress record for a user and lesson
  * - Retrieve Progress: Fetches all progress records for a given user
  * - Update Progress: Modifies an existing progress record (e.g., XP, streak, badges)
+ * - Script Display: Saves how the learner wants Kannada text shown
+ * - Profiles: Create and update the signed-in user's own profile
  *
  * @dependencies
  * - @clerk/nextjs/server: Used for authentication via Clerk
@@ -22,6 +24,7 @@
  * - Authentication is required; unauthenticated requests are rejected
  * - Progress updates use partial updates to allow flexible modifications
  * - Date handling follows backend rules by relying on schema defaults for timestamps
+ * - Profile writes take an allow-list of fields: role grants admin access and is never writable here
  */
 
 "use server"
@@ -35,7 +38,12 @@ import {
   progressTable
 } from "@/db/schema/progress-schema"
 import { ActionState } from "@/types/server-action-types"
-import { profilesTable } from "@/db/schema/profiles-schema"
+import {
+  InsertProfile,
+  SelectProfile,
+  profilesTable
+} from "@/db/schema/profiles-schema"
+import { ScriptDisplay } from "@/types"
 
 /**
  * Creates a new progress record for the authenticated user.
@@ -178,72 +186,135 @@ export async function updateProgressAction(
   }
 }
 
-export async function updateProfileAction(userId: string, data: any) {
-    // Implementation for updating a profile based on userId
-    try {
-        const updatedProfile = await db
-            .update(profilesTable) // Now profilesTable should be defined
-            .set(data)
-            .where(eq(profilesTable.userId, userId))
-            .returning();
+// Profile fields learners may change themselves; role, membership and billing are never among them
+const LEARNER_PROFILE_FIELDS = ["scriptDisplay", "lastLessonId"] as const
 
-        return {
-            isSuccess: true,
-            message: "Profile updated successfully",
-            data: updatedProfile
-        };
-    } catch (error) {
-        console.error("Error updating profile:", error);
-        return {
-            isSuccess: false,
-            message: "Failed to update profile"
-        };
+// Profile fields the Stripe webhook keeps in sync with a subscription
+const BILLING_PROFILE_FIELDS = [
+  "membership",
+  "stripeCustomerId",
+  "stripeSubscriptionId"
+] as const
+
+/**
+ * Profile fields a learner may update on their own profile.
+ */
+export type LearnerProfileUpdate = Partial<
+  Pick<InsertProfile, (typeof LEARNER_PROFILE_FIELDS)[number]>
+>
+
+/**
+ * Profile fields a subscription change may update.
+ */
+export type BillingProfileUpdate = Partial<
+  Pick<InsertProfile, (typeof BILLING_PROFILE_FIELDS)[number]>
+>
+
+/**
+ * Updates the authenticated user's own profile.
+ * @param data - Fields to change; anything outside LEARNER_PROFILE_FIELDS is ignored
+ * @returns Promise<ActionState<SelectProfile>> - Success with the updated profile or error
+ */
+export async function updateProfileAction(
+  data: LearnerProfileUpdate
+): Promise<ActionState<SelectProfile>> {
+  const { userId } = await auth()
+  if (!userId) {
+    return {
+      isSuccess: false,
+      message: "Unauthorized: Please sign in to update your profile"
     }
+  }
+
+  const changes = pickFields(data, LEARNER_PROFILE_FIELDS)
+  if (Object.keys(changes).length === 0) {
+    return { isSuccess: false, message: "Nothing to update" }
+  }
+
+  try {
+    const [updatedProfile] = await db
+      .update(profilesTable)
+      .set(changes)
+      .where(eq(profilesTable.userId, userId))
+      .returning()
+
+    if (!updatedProfile) {
+      return { isSuccess: false, message: "Profile not found" }
+    }
+
+    return {
+      isSuccess: true,
+      message: "Profile updated successfully",
+      data: updatedProfile
+    }
+  } catch (error) {
+    console.error("Error updating profile:", error)
+    return {
+      isSuccess: false,
+      message: "Failed to update profile"
+    }
+  }
 }
 
-export async function updateProfileByStripeCustomerIdAction(customerId: string, data: any) {
-    // Implementation for updating a profile based on Stripe customer ID
-    try {
-        const updatedProfile = await db
-            .update(profilesTable) // Assuming profilesTable is defined
-            .set(data)
-            .where(eq(profilesTable.stripeCustomerId, customerId))
-            .returning();
+export async function updateProfileByStripeCustomerIdAction(
+  customerId: string,
+  data: BillingProfileUpdate
+) {
+  // Implementation for updating a profile based on Stripe customer ID
+  try {
+    const updatedProfile = await db
+      .update(profilesTable)
+      .set(pickFields(data, BILLING_PROFILE_FIELDS))
+      .where(eq(profilesTable.stripeCustomerId, customerId))
+      .returning()
 
-        return {
-            isSuccess: true,
-            message: "Profile updated successfully by Stripe customer ID",
-            data: updatedProfile
-        };
-    } catch (error) {
-        console.error("Error updating profile by Stripe customer ID:", error);
-        return {
-            isSuccess: false,
-            message: "Failed to update profile by Stripe customer ID"
-        };
+    return {
+      isSuccess: true,
+      message: "Profile updated successfully by Stripe customer ID",
+      data: updatedProfile
     }
+  } catch (error) {
+    console.error("Error updating profile by Stripe customer ID:", error)
+    return {
+      isSuccess: false,
+      message: "Failed to update profile by Stripe customer ID"
+    }
+  }
 }
 
-export async function createProfileAction(data: any) {
-    // Implementation for creating a profile
-    try {
-        const newProfile = await db
-            .insert(profilesTable) // Assuming profilesTable is defined
-            .values(data)
-            .returning();
+/**
+ * Creates the authenticated user's profile with the default settings, as a learner.
+ * @returns Promise<ActionState<SelectProfile>> - Success with the new profile or error
+ */
+export async function createProfileAction(): Promise<
+  ActionState<SelectProfile>
+> {
+  const { userId } = await auth()
+  if (!userId) {
+    return {
+      isSuccess: false,
+      message: "Unauthorized: Please sign in to create your profile"
+    }
+  }
 
-        return {
-            isSuccess: true,
-            message: "Profile created successfully",
-            data: newProfile
-        };
-    } catch (error) {
-        console.error("Error creating profile:", error);
-        return {
-            isSuccess: false,
-            message: "Failed to create profile"
-        };
+  try {
+    const [newProfile] = await db
+      .insert(profilesTable)
+      .values({ userId })
+      .returning()
+
+    return {
+      isSuccess: true,
+      message: "Profile created successfully",
+      data: newProfile
+    }
+  } catch (error) {
+    console.error("Error creating profile:", error)
+    return {
+      isSuccess: false,
+      message: "Failed to create profile"
     }
+  }
 }
 
 export async function getProfileByUserIdAction(userId: string) {
@@ -274,3 +345,53 @@ export async function getProfileByUserIdAction(userId: string) {
         };
     }
 }
+
+/**
+ * Saves the authenticated user's script display preference.
+ * @param scriptDisplay - How Kannada text should be shown (script, script + romanization, romanization + English)
+ * @returns Promise<ActionState<ScriptDisplay>> - Success with the saved preference or error
+ */
+export async function updateScriptDisplayAction(
+  scriptDisplay: ScriptDisplay
+): Promise<ActionState<ScriptDisplay>> {
+  const { userId } = await auth()
+  if (!userId) {
+    return {
+      isSuccess: false,
+      message: "Unauthorized: Please sign in to save your preferences"
+    }
+  }
+
+  try {
+    const [profile] = await db
+      .update(profilesTable)
+      .set({ scriptDisplay })
+      .where(eq(profilesTable.userId, userId))
+      .returning({ scriptDisplay: profilesTable.scriptDisplay })
+
+    if (!profile) {
+      return { isSuccess: false, message: "Profile not found" }
+    }
+
+    return {
+      isSuccess: true,
+      message: "Script display updated successfully",
+      data: profile.scriptDisplay
+    }
+  } catch (error) {
+    console.error("Error updating script display:", error)
+    return { isSuccess: false, message: "Failed to update script display" }
+  }
+}
+
+// Copies only the listed fields; server actions can be called with any payload
+function pickFields<T extends object, K extends keyof T & string>(
+  data: T,
+  fields: readonly K[]
+): Pick<T, K> {
+  const picked = {} as Pick<T, K>
+  for (const field of fields) {
+    if (data[field] !== undefined) picked[field] = data[field]
+  }
+  return picked
+}
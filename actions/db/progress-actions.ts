@@ -1,47 +1,51 @@
 /**
  * @description
  * This file contains server actions for managing user progress in the Learn Kannada app.
- * It provides CRUD operations for progress records and gamification logic to track XP,
- * streaks, and badges, enhancing user engagement through motivational features.
+ * It provides CRUD operations for progress records, which hold XP, streaks and badges
+ * and per-lesson completion.
  *
  * Key features:
  * - Create, read, and update progress records
- * - Gamification: Calculates XP, increments streaks, and awards badges
+ * - Lesson completion: Records the share of a lesson's exercises the learner has answered, at its best
+ * - Role-play completion: Adds a debriefed role-play's XP to the learner's totals, once
  * - Integrates with Supabase via Drizzle ORM for database operations
  *
  * @dependencies
+ * - @clerk/nextjs/server: Identifies the learner when recording lesson completion
  * - @/db/db: Provides the Drizzle ORM database instance
+ * - @/db/schema/exercise-attempts-schema: Recorded attempts that lesson completion is worked out from
+ * - @/db/schema/lessons-schema: Lessons and their published revisions
  * - @/db/schema/progress-schema: Imports progressTable and types
- * - @/types: Imports ActionState for consistent return types
- * - drizzle-orm: Provides eq and desc for query conditions and ordering
+ * - @/db/schema/roleplay-sessions-schema: Role-play sessions with their debriefs
+ * - @/lib/curriculum/lesson-status: Exercise types left out of lesson completion
+ * - @/lib/exercises/published-exercises: The exercises of a lesson's published revision
+ * - @/lib/gamification/rewards: applyXpReward for role-play XP
+ * - @/types: Imports ActionState for consistent return types, and ExerciseReward
+ * - drizzle-orm: Provides eq, and, inArray and isNull for query conditions
  *
  * @notes
  * - Marked "use server" per backend rules
- * - XP is awarded based on exercise completion (10 XP per submission)
- * - Streaks increment if updated within 24 hours of last update
- * - Badges are awarded at XP thresholds: Learner (50), Scholar (150), Master (300)
+ * - XP, streaks and badges are awarded by submitExerciseAction, in the same transaction as the attempt
+ *   (rules in @/lib/gamification/rewards); they are kept on the learner's record without a lessonId
+ * - Role-play XP comes from the debrief saved by completeRolePlayAction, never from the caller
+ * - Records with a lessonId hold that lesson's completion; it is computed from the attempts recorded
+ *   for the published revision, never taken from the caller
  * - No migrations generated here; handled externally
  */
 
 "use server"
 
+import { auth } from "@clerk/nextjs/server"
 import { db } from "@/db/db"
+import { exerciseAttemptsTable } from "@/db/schema/exercise-attempts-schema"
+import { lessonsTable } from "@/db/schema/lessons-schema"
 import { InsertProgress, SelectProgress, progressTable } from "@/db/schema/progress-schema"
-import { ActionState } from "@/types"
-import { eq, desc } from "drizzle-orm"
-
-// XP per exercise completion
-const XP_PER_EXERCISE = 10
-
-// Badge thresholds and names
-const BADGE_THRESHOLDS: { [key: number]: string } = {
-  50: "Learner",
-  150: "Scholar",
-  300: "Master"
-}
-
-// 24-hour window for streak increment (in milliseconds)
-const STREAK_WINDOW = 24 * 60 * 60 * 1000
+import { roleplaySessionsTable } from "@/db/schema/roleplay-sessions-schema"
+import { COMPLETION_EXCLUDED_TYPES } from "@/lib/curriculum/lesson-status"
+import { loadPublishedExercises } from "@/lib/exercises/published-exercises"
+import { applyXpReward } from "@/lib/gamification/rewards"
+import { ActionState, ExerciseReward } from "@/types"
+import { and, eq, inArray, isNull } from "drizzle-orm"
 
 /**
  * Creates a new progress record for a user.
@@ -121,97 +125,157 @@ export async function updateProgressAction(
 }
 
 /**
- * Updates a user’s progress with gamification logic after an exercise submission.
- * @param {string} userId - The user’s ID
- * @param {string} lessonId - The lesson ID (optional)
- * @returns {Promise<ActionState<SelectProgress>>} The updated progress record or error
+ * Records the signed-in learner's completion of a lesson, worked out from the attempts
+ * they have recorded for the lesson's published revision.
+ * Completion only ever increases, so replaying a lesson cannot lower it.
+ * @param {string} lessonId - The lesson ID
+ * @returns {Promise<ActionState<SelectProgress>>} The lesson's progress record or error
  */
-export async function updateProgressWithGamificationAction(
-  userId: string,
-  lessonId?: string
+export async function recordLessonCompletionAction(
+  lessonId: string
 ): Promise<ActionState<SelectProgress>> {
+  const { userId } = await auth()
+  if (!userId) {
+    return { isSuccess: false, message: "Unauthorized: Please sign in to record progress" }
+  }
+
   try {
-    // Fetch the latest progress record for the user
-    const existingProgressRecords = await db
+    const [lesson] = await db
+      .select({ publishedRevisionId: lessonsTable.publishedRevisionId })
+      .from(lessonsTable)
+      .where(and(eq(lessonsTable.id, lessonId), eq(lessonsTable.publishStatus, "published")))
+      .limit(1)
+    if (!lesson) {
+      return { isSuccess: false, message: "Lesson not found" }
+    }
+
+    const exercises = [...(await loadPublishedExercises([lessonId])).values()]
+    const exerciseIds = exercises
+      .filter(exercise => !COMPLETION_EXCLUDED_TYPES.includes(exercise.type))
+      .map(exercise => exercise.id)
+
+    let completion = 100
+    if (exerciseIds.length > 0) {
+      const answered = await db
+        .select({ exerciseId: exerciseAttemptsTable.exerciseId })
+        .from(exerciseAttemptsTable)
+        .where(
+          and(
+            eq(exerciseAttemptsTable.userId, userId),
+            inArray(exerciseAttemptsTable.exerciseId, exerciseIds),
+            lesson.publishedRevisionId
+              ? eq(exerciseAttemptsTable.lessonRevisionId, lesson.publishedRevisionId)
+              : isNull(exerciseAttemptsTable.lessonRevisionId)
+          )
+        )
+        .groupBy(exerciseAttemptsTable.exerciseId)
+      completion = Math.round((answered.length / exerciseIds.length) * 100)
+    }
+
+    const [existing] = await db
       .select()
       .from(progressTable)
-      .where(eq(progressTable.userId, userId))
-      .orderBy(desc(progressTable.updatedAt))
+      .where(and(eq(progressTable.userId, userId), eq(progressTable.lessonId, lessonId)))
       .limit(1)
 
-    const existingProgress = existingProgressRecords[0]
-
-    // Calculate new XP
-    const newXp = (existingProgress?.xp || 0) + XP_PER_EXERCISE
-
-    // Calculate streak
-    const now = new Date()
-    let newStreak = existingProgress?.streak || 0
-    if (existingProgress && existingProgress.updatedAt) {
-      const lastUpdate = new Date(existingProgress.updatedAt)
-      const timeDiff = now.getTime() - lastUpdate.getTime()
-      if (timeDiff <= STREAK_WINDOW) {
-        newStreak += 1
-      } else if (timeDiff > STREAK_WINDOW * 2) {
-        newStreak = 1 // Reset streak if more than 48 hours have passed
+    if (existing) {
+      if (existing.completion >= completion) {
+        return { isSuccess: true, message: "Lesson completion unchanged", data: existing }
       }
-    } else {
-      newStreak = 1 // First activity starts the streak
+
+      const [updated] = await db
+        .update(progressTable)
+        .set({ completion, lessonRevisionId: lesson.publishedRevisionId })
+        .where(eq(progressTable.id, existing.id))
+        .returning()
+      return { isSuccess: true, message: "Lesson completion recorded", data: updated }
     }
 
-    // Calculate badges
-    let badges: string[] = existingProgress?.badges
-      ? (existingProgress.badges as string[])
-      : []
-    for (const [threshold, badgeName] of Object.entries(BADGE_THRESHOLDS)) {
-      if (newXp >= Number(threshold) && !badges.includes(badgeName)) {
-        badges.push(badgeName)
+    const [created] = await db
+      .insert(progressTable)
+      .values({ userId, lessonId, completion, lessonRevisionId: lesson.publishedRevisionId })
+      .returning()
+    return { isSuccess: true, message: "Lesson completion recorded", data: created }
+  } catch (error) {
+    console.error("Error recording lesson completion:", error)
+    return { isSuccess: false, message: "Failed to record lesson completion" }
+  }
+}
+
+/**
+ * Adds the XP of the signed-in learner's debriefed role-play to their totals.
+ * XP is awarded once per session, so recording a session again adds nothing.
+ * @param {string} sessionId - The role-play session ID
+ * @returns {Promise<ActionState<ExerciseReward>>} The XP, streak and badges earned, or error
+ */
+export async function recordRolePlayCompletionAction(
+  sessionId: string
+): Promise<ActionState<ExerciseReward>> {
+  const { userId } = await auth()
+  if (!userId) {
+    return { isSuccess: false, message: "Unauthorized: Please sign in to record progress" }
+  }
+
+  try {
+    return await db.transaction(async (tx): Promise<ActionState<ExerciseReward>> => {
+      const [session] = await tx
+        .select()
+        .from(roleplaySessionsTable)
+        .where(and(eq(roleplaySessionsTable.id, sessionId), eq(roleplaySessionsTable.userId, userId)))
+        .limit(1)
+        .for("update")
+      if (!session) {
+        return { isSuccess: false, message: "Role-play session not found" }
+      }
+      if (!session.debrief) {
+        return { isSuccess: false, message: "End the role-play to get its debrief first" }
       }
-    }
 
-    // Prepare updated progress data
-    const updatedData: Partial<InsertProgress> = {
-      xp: newXp,
-      streak: newStreak,
-      badges,
-      updatedAt: now,
-      ...(lessonId && { lessonId }) // Update lessonId if provided
-    }
+      const [existing] = await tx
+        .select()
+        .from(progressTable)
+        .where(and(eq(progressTable.userId, userId), isNull(progressTable.lessonId)))
+        .limit(1)
+        .for("update")
 
-    let updatedProgress: SelectProgress
+      if (session.xpAwarded !== null) {
+        return {
+          isSuccess: true,
+          message: "Role-play completion already recorded",
+          data: {
+            xpEarned: session.xpAwarded,
+            totalXp: existing?.xp ?? 0,
+            streak: existing?.streak ?? 0,
+            streakExtended: false,
+            newBadges: []
+          }
+        }
+      }
 
-    if (existingProgress) {
-      // Update existing record
-      const [result] = await db
-        .update(progressTable)
-        .set(updatedData)
-        .where(eq(progressTable.id, existingProgress.id))
-        .returning()
-      updatedProgress = result
-    } else {
-      // Create new record if none exists
-      const [result] = await db
-        .insert(progressTable)
-        .values({
-          userId,
-          lessonId,
-          xp: newXp,
-          streak: newStreak,
-          badges,
-          createdAt: now,
-          updatedAt: now
-        })
-        .returning()
-      updatedProgress = result
-    }
+      const now = new Date()
+      const { totals, reward } = applyXpReward(
+        existing
+          ? { xp: existing.xp, streak: existing.streak, badges: existing.badges as string[], lastActiveAt: existing.updatedAt }
+          : null,
+        session.debrief.xpEarned,
+        now
+      )
 
-    return {
-      isSuccess: true,
-      message: "Progress updated with gamification successfully",
-      data: updatedProgress
-    }
+      const values = { xp: totals.xp, streak: totals.streak, badges: totals.badges, updatedAt: now }
+      if (existing) {
+        await tx.update(progressTable).set(values).where(eq(progressTable.id, existing.id))
+      } else {
+        await tx.insert(progressTable).values({ userId, ...values })
+      }
+      await tx
+        .update(roleplaySessionsTable)
+        .set({ xpAwarded: reward.xpEarned })
+        .where(eq(roleplaySessionsTable.id, session.id))
+
+      return { isSuccess: true, message: "Role-play completion recorded", data: reward }
+    })
   } catch (error) {
-    console.error("Error updating progress with gamification:", error)
-    return { isSuccess: false, message: "Failed to update progress with gamification" }
+    console.error("Error recording role-play completion:", error)
+    return { isSuccess: false, message: "Failed to record role-play completion" }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,326 @@
+/**
+ * @description
+ * Server actions for the mistake review queue in the Learn Kannada app.
+ * Mistakes are added to the queue by submitExerciseAction; the "Review mistakes" mode
+ * works through the items that are due here.
+ *
+ * Key features:
+ * - Due items, oldest first, each with the exercise the learner is shown
+ * - Due and total counts for the dashboard badge
+ * - Answering an item: exercises go through submitExerciseAction (graded, recorded, rewarded),
+ *   vocabulary is graded here as a translation
+ *
+ * @dependencies
+ * - @clerk/nextjs/server: Identifies the learner
+ * - @/actions/db/exercises-actions: submitExerciseAction for exercise items
+ * - @/db/db: Drizzle ORM database instance
+ * - @/db/schema: Review items table
+ * - @/lib/exercises/learner-exercise: Strips answer keys from the exercises shown
+ * - @/lib/exercises/published-exercises: Exercises as their lessons' published revisions have them
+ * - @/lib/grading/exercise-grading: Grades vocabulary answers
+ * - @/lib/review/mistake-review: Review scheduling and the vocabulary exercise
+ * - @/types: ActionState, exercise and review types
+ * - drizzle-orm: For database operations
+ *
+ * @notes
+ * - Exercises are served and graded as the lesson's published revision has them, not as they were when missed
+ * - Items whose exercise is no longer published are left out of the queue, and its counts, until their lesson is deleted
+ * - Vocabulary reviews earn no XP and are not recorded as exercise attempts; they have no exercise
+ * - An item answered wrongly is due again straight away, so it is back on the next visit
+ */
+
+"use server"
+
+import { auth } from "@clerk/nextjs/server"
+import { submitExerciseAction } from "@/actions/db/exercises-actions"
+import { db } from "@/db/db"
+import {
+  SelectReviewItem,
+  reviewItemsTable
+} from "@/db/schema/review-items-schema"
+import { toLearnerExercise } from "@/lib/exercises/learner-exercise"
+import { loadPublishedExercises } from "@/lib/exercises/published-exercises"
+import { gradeExercise } from "@/lib/grading/exercise-grading"
+import {
+  scheduleReview,
+  toVocabularyReviewDefinition
+} from "@/lib/review/mistake-review"
+import {
+  ActionState,
+  ExerciseAttemptDetails,
+  ExerciseResponse,
+  ExerciseSnapshot,
+  ReviewAnswerResult,
+  ReviewQueueCounts,
+  ReviewQueueEntry
+} from "@/types"
+import { and, asc, eq, isNull, lte } from "drizzle-orm"
+
+/**
+ * Number of due items served per review round.
+ */
+const REVIEW_ROUND_SIZE = 20
+
+/**
+ * Retrieves the learner's due review items, oldest first.
+ * @param limit - Maximum number of items (1 to REVIEW_ROUND_SIZE)
+ * @returns Promise<ActionState<ReviewQueueEntry[]>> - Due items with their exercises, or error
+ */
+export async function getReviewQueueAction(
+  limit: number = REVIEW_ROUND_SIZE
+): Promise<ActionState<ReviewQueueEntry[]>> {
+  const { userId } = await auth()
+  if (!userId) {
+    return {
+      isSuccess: false,
+      message: "Unauthorized: Please sign in to review your mistakes"
+    }
+  }
+
+  try {
+    const items = await db
+      .select()
+      .from(reviewItemsTable)
+      .where(
+        and(
+          eq(reviewItemsTable.userId, userId),
+          isNull(reviewItemsTable.clearedAt),
+          lte(reviewItemsTable.dueAt, new Date())
+        )
+      )
+      .orderBy(asc(reviewItemsTable.dueAt))
+      .limit(Math.min(Math.max(Math.floor(limit), 1), REVIEW_ROUND_SIZE))
+
+    return {
+      isSuccess: true,
+      message: "Review queue retrieved successfully",
+      data: await loadEntries(items)
+    }
+  } catch (error) {
+    console.error("Error retrieving review queue:", error)
+    return {
+      isSuccess: false,
+      message: "Failed to retrieve review queue due to a server error"
+    }
+  }
+}
+
+/**
+ * Counts the learner's review items that are due, and all still in the queue.
+ * Only items that can still be served are counted, so an exercise that has been
+ * deleted or unpublished does not leave a count the learner cannot work off.
+ * @returns Promise<ActionState<ReviewQueueCounts>> - The counts, or error
+ */
+export async function getReviewQueueCountsAction(): Promise<
+  ActionState<ReviewQueueCounts>
+> {
+  const { userId } = await auth()
+  if (!userId) {
+    return {
+      isSuccess: false,
+      message: "Unauthorized: Please sign in to review your mistakes"
+    }
+  }
+
+  try {
+    const items = await db
+      .select()
+      .from(reviewItemsTable)
+      .where(
+        and(
+          eq(reviewItemsTable.userId, userId),
+          isNull(reviewItemsTable.clearedAt)
+        )
+      )
+    const servable = new Set((await loadEntries(items)).map(entry => entry.id))
+    const queued = items.filter(item => servable.has(item.id))
+    const now = new Date()
+
+    return {
+      isSuccess: true,
+      message: "Review queue counted successfully",
+      data: {
+        due: queued.filter(item => item.dueAt <= now).length,
+        total: queued.length
+      }
+    }
+  } catch (error) {
+    console.error("Error counting review queue:", error)
+    return {
+      isSuccess: false,
+      message: "Failed to count review queue due to a server error"
+    }
+  }
+}
+
+/**
+ * Answers a review item and reschedules it.
+ * @param reviewItemId - The item being answered
+ * @param response - The learner's response, in the shape of the item's exercise type
+ * @param details - Time taken and hints used, recorded with exercise attempts
+ * @returns Promise<ActionState<ReviewAnswerResult>> - Grade and new schedule, or error
+ */
+export async function submitReviewAnswerAction(
+  reviewItemId: string,
+  response: ExerciseResponse,
+  details: ExerciseAttemptDetails = {}
+): Promise<ActionState<ReviewAnswerResult>> {
+  const { userId } = await auth()
+  if (!userId) {
+    return {
+      isSuccess: false,
+      message: "Unauthorized: Please sign in to review your mistakes"
+    }
+  }
+
+  try {
+    const [item] = await db
+      .select()
+      .from(reviewItemsTable)
+      .where(
+        and(
+          eq(reviewItemsTable.id, reviewItemId),
+          eq(reviewItemsTable.userId, userId),
+          isNull(reviewItemsTable.clearedAt)
+        )
+      )
+      .limit(1)
+
+    if (!item) {
+      return { isSuccess: false, message: "Review item not found" }
+    }
+
+    // Exercises are graded, recorded and rescheduled by the regular submission
+    if (item.kind === "exercise" && item.exerciseId) {
+      const exercise = (await loadPublishedExercises([item.lessonId])).get(
+        item.exerciseId
+      )
+      if (!exercise) {
+        return { isSuccess: false, message: "Review item not found" }
+      }
+
+      const submission = await submitExerciseAction(
+        item.exerciseId,
+        response,
+        exercise.lessonRevisionId,
+        details
+      )
+      if (!submission.isSuccess) return submission
+
+      const [updated] = await db
+        .select()
+        .from(reviewItemsTable)
+        .where(eq(reviewItemsTable.id, item.id))
+        .limit(1)
+
+      const { score, feedback, reward } = submission.data
+      return {
+        isSuccess: true,
+        message: "Review answer submitted successfully",
+        data: toAnswerResult(updated ?? item, {
+          score,
+          feedback,
+          xpEarned: reward.xpEarned
+        })
+      }
+    }
+
+    if (!item.kannada || !item.english) {
+      return { isSuccess: false, message: "Review item not found" }
+    }
+    const grade = gradeExercise(
+      toVocabularyReviewDefinition({
+        kannada: item.kannada,
+        english: item.english
+      }),
+      response
+    )
+    if (!grade) {
+      return {
+        isSuccess: false,
+        message: "Response does not match the exercise type"
+      }
+    }
+
+    const updated = await db.transaction(async tx => {
+      const [locked] = await tx
+        .select()
+        .from(reviewItemsTable)
+        .where(eq(reviewItemsTable.id, item.id))
+        .limit(1)
+        .for("update")
+
+      const now = new Date()
+      const schedule = scheduleReview(locked, grade.score, now)
+      if (!schedule || schedule === locked) return locked
+
+      const [row] = await tx
+        .update(reviewItemsTable)
+        .set({ ...schedule, lastReviewedAt: now })
+        .where(eq(reviewItemsTable.id, item.id))
+        .returning()
+      return row
+    })
+
+    return {
+      isSuccess: true,
+      message: "Review answer submitted successfully",
+      data: toAnswerResult(updated, { ...grade, xpEarned: 0 })
+    }
+  } catch (error) {
+    console.error("Error submitting review answer:", error)
+    return {
+      isSuccess: false,
+      message: "Failed to submit review answer due to a server error"
+    }
+  }
+}
+
+// Pairs each item with the learner projection of its exercise, as the lesson's published revision has it;
+// items whose exercise is no longer published are dropped
+async function loadEntries(
+  items: SelectReviewItem[]
+): Promise<ReviewQueueEntry[]> {
+  const published = await loadPublishedExercises(
+    items.flatMap(item => (item.exerciseId ? [item.lessonId] : []))
+  )
+
+  return items.flatMap(item => {
+    const stored: ExerciseSnapshot | undefined =
+      item.kind === "vocabulary" && item.kannada && item.english
+        ? {
+            id: item.id,
+            ...toVocabularyReviewDefinition({
+              kannada: item.kannada,
+              english: item.english
+            })
+          }
+        : item.exerciseId
+          ? published.get(item.exerciseId)
+          : undefined
+    const exercise = stored && toLearnerExercise(stored)
+    return exercise
+      ? [
+          {
+            id: item.id,
+            kind: item.kind,
+            exerciseType: exercise.type,
+            correctStreak: item.correctStreak,
+            exercise
+          }
+        ]
+      : []
+  })
+}
+
+function toAnswerResult(
+  item: SelectReviewItem,
+  grade: { score: number; feedback: string; xpEarned: number }
+): ReviewAnswerResult {
+  return {
+    ...grade,
+    correctStreak: item.correctStreak,
+    cleared: item.clearedAt !== null,
+    dueAt: item.dueAt
+  }
+}
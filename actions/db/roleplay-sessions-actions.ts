@@ -0,0 +1,254 @@
+/**
+ * @description
+ * Server actions for role-play scenarios in the Learn Kannada app.
+ * Learners play a scenario from the library in the tutor chat; ending it gives a scored
+ * debrief and awards XP through the progress actions.
+ *
+ * Key features:
+ * - Load the learner's unfinished session of a scenario, so it can be resumed
+ * - End a session: the model rates the learner's Kannada, the score combines that with the goals met,
+ *   and the XP it is worth is added to the learner's progress
+ *
+ * @dependencies
+ * - @clerk/nextjs/server: Identifies the learner
+ * - @/actions/db/progress-actions: recordRolePlayCompletionAction to award the XP
+ * - @/db/db: Drizzle ORM database instance
+ * - @/db/schema: Role-play sessions, tutor conversations and tutor messages tables
+ * - @/lib/ai/llm-provider: The configured language model provider
+ * - @/lib/ai/roleplay-debrief: Debrief prompt, reply checking and scoring
+ * - @/lib/ai/tutor-chat: toTutorMessage for saved messages
+ * - @/lib/gamification/rewards: calculateRolePlayXp
+ * - @/lib/roleplay/scenarios: The scenario library
+ * - @/types: ActionState and role-play types
+ * - drizzle-orm: For database operations
+ *
+ * @notes
+ * - Sessions are started, and their goals tracked, by the /api/ai/tutor route as messages are sent
+ * - Ending a session twice returns the same debrief; the XP is only ever awarded once
+ * - Learners can only read and end their own sessions
+ */
+
+"use server"
+
+import { auth } from "@clerk/nextjs/server"
+import { recordRolePlayCompletionAction } from "@/actions/db/progress-actions"
+import { db } from "@/db/db"
+import { roleplaySessionsTable } from "@/db/schema/roleplay-sessions-schema"
+import { tutorConversationsTable } from "@/db/schema/tutor-conversations-schema"
+import { tutorMessagesTable } from "@/db/schema/tutor-messages-schema"
+import { getLLMProvider } from "@/lib/ai/llm-provider"
+import {
+  buildDebriefMessages,
+  parseDebriefReply,
+  scoreRolePlay
+} from "@/lib/ai/roleplay-debrief"
+import { toTutorMessage } from "@/lib/ai/tutor-chat"
+import { calculateRolePlayXp } from "@/lib/gamification/rewards"
+import { getScenario } from "@/lib/roleplay/scenarios"
+import {
+  ActionState,
+  RolePlayDebrief,
+  RolePlayResult,
+  RolePlaySession
+} from "@/types"
+import { and, asc, desc, eq, isNull } from "drizzle-orm"
+
+/**
+ * Retrieves the learner's unfinished session of a scenario.
+ * @param scenarioId - The scenario
+ * @returns Promise<ActionState<RolePlaySession | null>> - The most recent unfinished session with its messages,
+ *   null when there is none, or error
+ */
+export async function getActiveRolePlayAction(
+  scenarioId: string
+): Promise<ActionState<RolePlaySession | null>> {
+  const { userId } = await auth()
+  if (!userId) {
+    return {
+      isSuccess: false,
+      message: "Unauthorized: Please sign in to play role-play scenarios"
+    }
+  }
+
+  try {
+    const [session] = await db
+      .select({
+        id: roleplaySessionsTable.id,
+        scenarioId: roleplaySessionsTable.scenarioId,
+        achievedGoals: roleplaySessionsTable.achievedGoals,
+        conversation: {
+          id: tutorConversationsTable.id,
+          title: tutorConversationsTable.title,
+          level: tutorConversationsTable.level,
+          updatedAt: tutorConversationsTable.updatedAt
+        }
+      })
+      .from(roleplaySessionsTable)
+      .innerJoin(
+        tutorConversationsTable,
+        eq(roleplaySessionsTable.conversationId, tutorConversationsTable.id)
+      )
+      .where(
+        and(
+          eq(roleplaySessionsTable.userId, userId),
+          eq(roleplaySessionsTable.scenarioId, scenarioId),
+          isNull(roleplaySessionsTable.completedAt)
+        )
+      )
+      .orderBy(desc(roleplaySessionsTable.updatedAt))
+      .limit(1)
+
+    if (!session) {
+      return {
+        isSuccess: true,
+        message: "No unfinished role-play session",
+        data: null
+      }
+    }
+
+    const messages = await db
+      .select()
+      .from(tutorMessagesTable)
+      .where(eq(tutorMessagesTable.conversationId, session.conversation.id))
+      .orderBy(asc(tutorMessagesTable.createdAt))
+
+    return {
+      isSuccess: true,
+      message: "Role-play session retrieved successfully",
+      data: {
+        ...session,
+        conversation: {
+          ...session.conversation,
+          messages: messages.map(toTutorMessage)
+        },
+        debrief: null
+      }
+    }
+  } catch (error) {
+    console.error("Error retrieving role-play session:", error)
+    return {
+      isSuccess: false,
+      message: "Failed to retrieve role-play session due to a server error"
+    }
+  }
+}
+
+/**
+ * Ends a role-play session with a scored debrief and awards its XP.
+ * @param conversationId - The session's conversation
+ * @returns Promise<ActionState<RolePlayResult>> - The debrief and the XP, streak and badges earned, or error
+ */
+export async function completeRolePlayAction(
+  conversationId: string
+): Promise<ActionState<RolePlayResult>> {
+  const { userId } = await auth()
+  if (!userId) {
+    return {
+      isSuccess: false,
+      message: "Unauthorized: Please sign in to play role-play scenarios"
+    }
+  }
+
+  try {
+    const [session] = await db
+      .select()
+      .from(roleplaySessionsTable)
+      .where(
+        and(
+          eq(roleplaySessionsTable.conversationId, conversationId),
+          eq(roleplaySessionsTable.userId, userId)
+        )
+      )
+      .limit(1)
+    const scenario = session ? getScenario(session.scenarioId) : null
+    if (!session || !scenario) {
+      return { isSuccess: false, message: "Role-play session not found" }
+    }
+
+    let debrief = session.debrief
+    if (!debrief) {
+      const transcript = await db
+        .select({
+          role: tutorMessagesTable.role,
+          content: tutorMessagesTable.content
+        })
+        .from(tutorMessagesTable)
+        .where(eq(tutorMessagesTable.conversationId, conversationId))
+        .orderBy(asc(tutorMessagesTable.createdAt))
+
+      const response = await getLLMProvider().complete({
+        task: "roleplay-debrief",
+        messages: buildDebriefMessages(
+          scenario,
+          transcript,
+          session.achievedGoals
+        ),
+        maxTokens: 500,
+        json: true
+      })
+
+      const reply = parseDebriefReply(response.content)
+      if (!reply) {
+        return {
+          isSuccess: false,
+          message: "The debrief could not be read. Please try again."
+        }
+      }
+
+      const goalsAchieved = session.achievedGoals.length
+      const goalsTotal = scenario.goals.length
+      const score = scoreRolePlay(
+        goalsAchieved,
+        goalsTotal,
+        reply.languageScore
+      )
+      debrief = {
+        score,
+        goalsAchieved,
+        goalsTotal,
+        languageScore: Math.round(reply.languageScore),
+        summary: reply.summary,
+        strengths: reply.strengths,
+        improvements: reply.improvements,
+        xpEarned: calculateRolePlayXp(score, scenario.level)
+      } satisfies RolePlayDebrief
+
+      // A session ended twice at once keeps the first debrief
+      const [ended] = await db
+        .update(roleplaySessionsTable)
+        .set({ debrief, completedAt: new Date() })
+        .where(
+          and(
+            eq(roleplaySessionsTable.id, session.id),
+            isNull(roleplaySessionsTable.completedAt)
+          )
+        )
+        .returning({ debrief: roleplaySessionsTable.debrief })
+      if (!ended) {
+        const [current] = await db
+          .select({ debrief: roleplaySessionsTable.debrief })
+          .from(roleplaySessionsTable)
+          .where(eq(roleplaySessionsTable.id, session.id))
+          .limit(1)
+        debrief = current?.debrief ?? debrief
+      }
+    }
+
+    const reward = await recordRolePlayCompletionAction(session.id)
+    if (!reward.isSuccess) {
+      return { isSuccess: false, message: reward.message }
+    }
+
+    return {
+      isSuccess: true,
+      message: "Role-play completed successfully",
+      data: { debrief, reward: reward.data }
+    }
+  } catch (error) {
+    console.error("Error completing role-play:", error)
+    return {
+      isSuccess: false,
+      message: "Failed to complete role-play due to a server error"
+    }
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * @description
+ * Server actions for the AI Kannada tutor chat in the Learn Kannada app.
+ * Learners converse with the tutor in Kannada; every exchange is saved so conversations
+ * can be resumed or reviewed later.
+ *
+ * Key features:
+ * - List the learner's conversations, most recent first
+ * - Load a conversation with its messages
+ * - Delete a conversation
+ *
+ * @dependencies
+ * - @clerk/nextjs/server: Identifies the learner
+ * - @/db/db: Drizzle ORM database instance
+ * - @/db/schema: Tutor conversations and tutor messages tables
+ * - @/lib/ai/tutor-chat: toTutorMessage for saved messages
+ * - @/types: ActionState and tutor types
+ * - drizzle-orm: For database operations
+ *
+ * @notes
+ * - Messages are sent through the streaming /api/ai/tutor route, which saves each exchange
+ * - Learners can only read and delete their own conversations
+ */
+
+"use server"
+
+import { auth } from "@clerk/nextjs/server"
+import { db } from "@/db/db"
+import { tutorConversationsTable } from "@/db/schema/tutor-conversations-schema"
+import { tutorMessagesTable } from "@/db/schema/tutor-messages-schema"
+import { toTutorMessage } from "@/lib/ai/tutor-chat"
+import {
+  ActionState,
+  TutorConversation,
+  TutorConversationSummary
+} from "@/types"
+import { and, asc, desc, eq } from "drizzle-orm"
+
+// Most conversations listed
+const CONVERSATION_LIST_LIMIT = 50
+
+// Columns of a conversation row that make up a TutorConversationSummary
+const summaryColumns = {
+  id: tutorConversationsTable.id,
+  title: tutorConversationsTable.title,
+  level: tutorConversationsTable.level,
+  updatedAt: tutorConversationsTable.updatedAt
+}
+
+/**
+ * Retrieves the learner's tutor conversations.
+ * @returns Promise<ActionState<TutorConversationSummary[]>> - Conversations, most recent first, or error
+ */
+export async function getTutorConversationsAction(): Promise<
+  ActionState<TutorConversationSummary[]>
+> {
+  const { userId } = await auth()
+  if (!userId) {
+    return {
+      isSuccess: false,
+      message: "Unauthorized: Please sign in to chat with the tutor"
+    }
+  }
+
+  try {
+    const conversations = await db
+      .select(summaryColumns)
+      .from(tutorConversationsTable)
+      .where(eq(tutorConversationsTable.userId, userId))
+      .orderBy(desc(tutorConversationsTable.updatedAt))
+      .limit(CONVERSATION_LIST_LIMIT)
+
+    return {
+      isSuccess: true,
+      message: "Tutor conversations retrieved successfully",
+      data: conversations
+    }
+  } catch (error) {
+    console.error("Error retrieving tutor conversations:", error)
+    return {
+      isSuccess: false,
+      message: "Failed to retrieve tutor conversations due to a server error"
+    }
+  }
+}
+
+/**
+ * Retrieves one of the learner's tutor conversations with its messages.
+ * @param conversationId - The conversation to load
+ * @returns Promise<ActionState<TutorConversation>> - The conversation, messages oldest first, or error
+ */
+export async function getTutorConversationAction(
+  conversationId: string
+): Promise<ActionState<TutorConversation>> {
+  const { userId } = await auth()
+  if (!userId) {
+    return {
+      isSuccess: false,
+      message: "Unauthorized: Please sign in to chat with the tutor"
+    }
+  }
+
+  try {
+    const [conversation] = await db
+      .select(summaryColumns)
+      .from(tutorConversationsTable)
+      .where(
+        and(
+          eq(tutorConversationsTable.id, conversationId),
+          eq(tutorConversationsTable.userId, userId)
+        )
+      )
+      .limit(1)
+    if (!conversation) {
+      return { isSuccess: false, message: "Conversation not found" }
+    }
+
+    const messages = await db
+      .select()
+      .from(tutorMessagesTable)
+      .where(eq(tutorMessagesTable.conversationId, conversationId))
+      .orderBy(asc(tutorMessagesTable.createdAt))
+
+    return {
+      isSuccess: true,
+      message: "Tutor conversation retrieved successfully",
+      data: { ...conversation, messages: messages.map(toTutorMessage) }
+    }
+  } catch (error) {
+    console.error("Error retrieving tutor conversation:", error)
+    return {
+      isSuccess: false,
+      message: "Failed to retrieve tutor conversation due to a server error"
+    }
+  }
+}
+
+/**
+ * Deletes one of the learner's tutor conversations and its messages.
+ * @param conversationId - The conversation to delete
+ * @returns Promise<ActionState<void>> - Success or error
+ */
+export async function deleteTutorConversationAction(
+  conversationId: string
+): Promise<ActionState<void>> {
+  const { userId } = await auth()
+  if (!userId) {
+    return {
+      isSuccess: false,
+      message: "Unauthorized: Please sign in to chat with the tutor"
+    }
+  }
+
+  try {
+    await db
+      .delete(tutorConversationsTable)
+      .where(
+        and(
+          eq(tutorConversationsTable.id, conversationId),
+          eq(tutorConversationsTable.userId, userId)
+        )
+      )
+
+    return {
+      isSuccess: true,
+      message: "Tutor conversation deleted successfully",
+      data: undefined
+    }
+  } catch (error) {
+    console.error("Error deleting tutor conversation:", error)
+    return {
+      isSuccess: false,
+      message: "Failed to delete tutor conversation due to a server error"
+    }
+  }
+}
@@ -0,0 +1,313 @@
+/**
+ * @description
+ * Server actions for vocabulary and spaced-repetition flashcards in the Learn Kannada app.
+ * Words are copied from published lessons into the vocabulary table; each learner
+ * reviews them on a daily queue and rates their recall.
+ *
+ * Key features:
+ * - Words of a lesson, in lesson order
+ * - Daily queue: due cards first, then new words from lessons the learner has started
+ * - Rating a card (again, hard, good, easy) reschedules it with SM-2
+ *
+ * @dependencies
+ * - @clerk/nextjs/server: Identifies the learner
+ * - @/actions/db/curriculum-actions: Lesson order and the learner's started lessons
+ * - @/db/db: Drizzle ORM database instance
+ * - @/db/schema: Vocabulary, vocabulary reviews and lessons tables
+ * - @/lib/vocabulary/srs: SM-2 scheduling and daily limits
+ * - @/types: ActionState and vocabulary types
+ * - drizzle-orm: For database operations
+ *
+ * @notes
+ * - New words are introduced up to DAILY_NEW_WORD_LIMIT a day, counted from UTC midnight
+ * - Words of unpublished lessons are left out of the queue but keep their schedules
+ * - The vocabulary table is written by lesson-revisions-actions when lessons are published
+ */
+
+"use server"
+
+import { auth } from "@clerk/nextjs/server"
+import { getCurriculumOverviewAction } from "@/actions/db/curriculum-actions"
+import { db } from "@/db/db"
+import { lessonsTable } from "@/db/schema/lessons-schema"
+import {
+  SelectVocabularyReview,
+  vocabularyReviewsTable
+} from "@/db/schema/vocabulary-reviews-schema"
+import { vocabularyTable } from "@/db/schema/vocabulary-schema"
+import {
+  DAILY_NEW_WORD_LIMIT,
+  DAILY_REVIEW_LIMIT,
+  scheduleVocabularyReview
+} from "@/lib/vocabulary/srs"
+import {
+  ActionState,
+  DailyVocabularyQueue,
+  RecallRating,
+  VocabularyReviewState,
+  VocabularyWord
+} from "@/types"
+import { and, asc, count, eq, gte, inArray, isNull, lte } from "drizzle-orm"
+
+const RECALL_RATINGS: RecallRating[] = ["again", "hard", "good", "easy"]
+
+// Columns of a vocabulary row that make up a VocabularyWord
+const wordColumns = {
+  id: vocabularyTable.id,
+  lessonId: vocabularyTable.lessonId,
+  kannada: vocabularyTable.kannada,
+  transliteration: vocabularyTable.transliteration,
+  english: vocabularyTable.english,
+  partOfSpeech: vocabularyTable.partOfSpeech,
+  audioUrl: vocabularyTable.audioUrl,
+  exampleKannada: vocabularyTable.exampleKannada,
+  exampleEnglish: vocabularyTable.exampleEnglish
+}
+
+/**
+ * Retrieves the words a lesson teaches.
+ * @param lessonId - The lesson to fetch words for
+ * @returns Promise<ActionState<VocabularyWord[]>> - Words in lesson order, or error
+ */
+export async function getLessonVocabularyAction(
+  lessonId: string
+): Promise<ActionState<VocabularyWord[]>> {
+  try {
+    const words = await db
+      .select(wordColumns)
+      .from(vocabularyTable)
+      .where(eq(vocabularyTable.lessonId, lessonId))
+      .orderBy(asc(vocabularyTable.position))
+
+    return {
+      isSuccess: true,
+      message: "Vocabulary retrieved successfully",
+      data: words
+    }
+  } catch (error) {
+    console.error("Error retrieving vocabulary:", error)
+    return {
+      isSuccess: false,
+      message: "Failed to retrieve vocabulary due to a server error"
+    }
+  }
+}
+
+/**
+ * Retrieves the learner's flashcards for today: due cards, then new words.
+ * @returns Promise<ActionState<DailyVocabularyQueue>> - The day's cards, or error
+ */
+export async function getDailyVocabularyQueueAction(): Promise<
+  ActionState<DailyVocabularyQueue>
+> {
+  const { userId } = await auth()
+  if (!userId) {
+    return {
+      isSuccess: false,
+      message: "Unauthorized: Please sign in to review vocabulary"
+    }
+  }
+
+  try {
+    const now = new Date()
+    const due = await db
+      .select({ word: wordColumns, review: vocabularyReviewsTable })
+      .from(vocabularyReviewsTable)
+      .innerJoin(
+        vocabularyTable,
+        eq(vocabularyReviewsTable.vocabularyId, vocabularyTable.id)
+      )
+      .innerJoin(lessonsTable, eq(vocabularyTable.lessonId, lessonsTable.id))
+      .where(
+        and(
+          eq(vocabularyReviewsTable.userId, userId),
+          lte(vocabularyReviewsTable.dueAt, now),
+          eq(lessonsTable.publishStatus, "published")
+        )
+      )
+      .orderBy(asc(vocabularyReviewsTable.dueAt))
+      .limit(DAILY_REVIEW_LIMIT)
+
+    // Words seen for the first time today count towards the daily limit
+    const startOfDay = new Date(now)
+    startOfDay.setUTCHours(0, 0, 0, 0)
+    const [introduced] = await db
+      .select({ count: count() })
+      .from(vocabularyReviewsTable)
+      .where(
+        and(
+          eq(vocabularyReviewsTable.userId, userId),
+          gte(vocabularyReviewsTable.createdAt, startOfDay)
+        )
+      )
+    const newLimit = Math.max(0, DAILY_NEW_WORD_LIMIT - introduced.count)
+
+    const newWords = newLimit > 0 ? await loadNewWords(userId, newLimit) : []
+
+    return {
+      isSuccess: true,
+      message: "Vocabulary queue retrieved successfully",
+      data: {
+        cards: [
+          ...due.map(({ word, review }) => ({
+            ...word,
+            review: toReviewState(review)
+          })),
+          ...newWords.map(word => ({ ...word, review: null }))
+        ],
+        dueCount: due.length,
+        newCount: newWords.length
+      }
+    }
+  } catch (error) {
+    console.error("Error retrieving vocabulary queue:", error)
+    return {
+      isSuccess: false,
+      message: "Failed to retrieve vocabulary queue due to a server error"
+    }
+  }
+}
+
+/**
+ * Records how well the learner recalled a word and schedules its next review.
+ * @param vocabularyId - The word reviewed
+ * @param rating - again, hard, good or easy
+ * @returns Promise<ActionState<VocabularyReviewState>> - The word's new schedule, or error
+ */
+export async function rateVocabularyCardAction(
+  vocabularyId: string,
+  rating: RecallRating
+): Promise<ActionState<VocabularyReviewState>> {
+  const { userId } = await auth()
+  if (!userId) {
+    return {
+      isSuccess: false,
+      message: "Unauthorized: Please sign in to review vocabulary"
+    }
+  }
+
+  if (!RECALL_RATINGS.includes(rating)) {
+    return { isSuccess: false, message: "Unknown recall rating" }
+  }
+
+  try {
+    const [word] = await db
+      .select({ id: vocabularyTable.id })
+      .from(vocabularyTable)
+      .where(eq(vocabularyTable.id, vocabularyId))
+      .limit(1)
+    if (!word) {
+      return { isSuccess: false, message: "Word not found" }
+    }
+
+    const schedule = await db.transaction(async tx => {
+      const [existing] = await tx
+        .select()
+        .from(vocabularyReviewsTable)
+        .where(
+          and(
+            eq(vocabularyReviewsTable.userId, userId),
+            eq(vocabularyReviewsTable.vocabularyId, vocabularyId)
+          )
+        )
+        .limit(1)
+        .for("update")
+
+      const now = new Date()
+      const schedule = scheduleVocabularyReview(
+        existing ? toReviewState(existing) : null,
+        rating,
+        now
+      )
+      const values = { ...schedule, lastReviewedAt: now }
+
+      if (existing) {
+        await tx
+          .update(vocabularyReviewsTable)
+          .set(values)
+          .where(eq(vocabularyReviewsTable.id, existing.id))
+      } else {
+        await tx
+          .insert(vocabularyReviewsTable)
+          .values({ userId, vocabularyId, ...values })
+          .onConflictDoUpdate({
+            target: [
+              vocabularyReviewsTable.userId,
+              vocabularyReviewsTable.vocabularyId
+            ],
+            set: values
+          })
+      }
+      return schedule
+    })
+
+    return {
+      isSuccess: true,
+      message: "Recall recorded successfully",
+      data: schedule
+    }
+  } catch (error) {
+    console.error("Error rating vocabulary card:", error)
+    return {
+      isSuccess: false,
+      message: "Failed to record recall due to a server error"
+    }
+  }
+}
+
+// Words the learner has not reviewed yet, from lessons they have started, in curriculum order
+async function loadNewWords(
+  userId: string,
+  limit: number
+): Promise<VocabularyWord[]> {
+  const overview = await getCurriculumOverviewAction()
+  if (!overview.isSuccess) {
+    throw new Error(overview.message)
+  }
+
+  const lessonIds = overview.data.levels
+    .flatMap(level => level.units.flatMap(unit => unit.lessons))
+    .filter(lesson => lesson.status === "completed" || lesson.completion > 0)
+    .map(lesson => lesson.id)
+  if (lessonIds.length === 0) return []
+
+  const words = await db
+    .select(wordColumns)
+    .from(vocabularyTable)
+    .leftJoin(
+      vocabularyReviewsTable,
+      and(
+        eq(vocabularyReviewsTable.vocabularyId, vocabularyTable.id),
+        eq(vocabularyReviewsTable.userId, userId)
+      )
+    )
+    .where(
+      and(
+        inArray(vocabularyTable.lessonId, lessonIds),
+        isNull(vocabularyReviewsTable.id)
+      )
+    )
+    .orderBy(asc(vocabularyTable.position))
+
+  // The same word taught by two lessons is introduced once
+  const lessonOrder = new Map(lessonIds.map((id, index) => [id, index]))
+  const seen = new Set<string>()
+  return words
+    .sort((a, b) => lessonOrder.get(a.lessonId)! - lessonOrder.get(b.lessonId)!)
+    .filter(word => {
+      if (seen.has(word.kannada)) return false
+      seen.add(word.kannada)
+      return true
+    })
+    .slice(0, limit)
+}
+
+function toReviewState(review: SelectVocabularyReview): VocabularyReviewState {
+  return {
+    easeFactor: review.easeFactor,
+    intervalDays: review.intervalDays,
+    repetitions: review.repetitions,
+    lapses: review.lapses,
+    dueAt: review.dueAt
+  }
+}
@@ -5,7 +5,7 @@
  * All actions are server-side, adhering to the project’s backend and storage rules.
  *
  * Key features:
- * - Download Lessons: Generates a signed URL for a lesson’s JSON content
+ * - Download Lessons: Writes the published revision of a lesson as JSON and generates a signed URL for it
  * - Security: Uses Clerk auth and RLS policies to restrict access to user-owned files
  * - Type Safety: Defines interfaces for inputs and outputs
  *
@@ -13,11 +13,15 @@
  * - @supabase/supabase-js: Supabase client for storage operations
  * - @clerk/nextjs/server: Clerk auth helper for user authentication
  * - @/types/server-action-types: ActionState type for consistent return values
- * - @/db/schema/lessons-schema: SelectLesson type for lesson metadata
+ * - @/actions/db/lessons-actions: Published lesson content
+ * - @/actions/db/exercises-actions: Published lesson exercises, without their answer keys
  *
  * @notes
  * - Assumes a `lessons` bucket exists in Supabase with RLS policy applied (user instructions provided)
- * - Lesson content is stored as JSON files in `{userId}/{lessonId}.json` format
+ * - Lesson content is stored as JSON files in `{userId}/{lessonId}/{revisionId}.json` format, so a
+ *   downloaded copy always names the revision it came from and never goes stale in place
+ * - Lessons published before versioning have no revision and are stored as `current.json`
+ * - Exercises are stored without their answer keys, as learners are served them; answers are graded online
  * - Signed URLs are valid for 1 hour; adjust expiration as needed
  * - No direct client-side storage access; all operations are server-side per rules
  * - Error handling covers auth, storage access, and file existence
@@ -27,8 +31,9 @@
 
 import { createClient } from "@supabase/supabase-js"
 import { auth } from "@clerk/nextjs/server"
+import { getPublishedExercisesAction } from "@/actions/db/exercises-actions"
+import { getLessonByIdAction } from "@/actions/db/lessons-actions"
 import { ActionState } from "@/types/server-action-types"
-import { SelectLesson } from "@/db/schema/lessons-schema"
 
 // Define parameters for downloading a lesson
 interface DownloadLessonParams {
@@ -38,10 +43,12 @@ interface DownloadLessonParams {
 // Define response type for lesson download
 interface DownloadLessonResponse {
   url: string // Signed URL for downloading the lesson content
+  revisionId: string | null // Published revision the file was written from
+  fileName: string // Suggested file name, including the revision
 }
 
 /**
- * Generates a signed URL for downloading a lesson’s content from Supabase Storage.
+ * Writes the published revision of a lesson to Supabase Storage and generates a signed URL for it.
  * @param {DownloadLessonParams} params - Lesson ID to download
  * @returns {Promise<ActionState<DownloadLessonResponse>>} Success/failure with signed URL
  */
@@ -66,6 +73,21 @@ export async function downloadLessonStorage({
       }
     }
 
+    // Load the lesson exactly as learners are served it
+    const [lessonResult, exercisesResult] = await Promise.all([
+      getLessonByIdAction(lessonId),
+      getPublishedExercisesAction(lessonId)
+    ])
+    if (!lessonResult.isSuccess || !exercisesResult.isSuccess) {
+      return {
+        isSuccess: false,
+        message: "Lesson not found"
+      }
+    }
+    const lesson = lessonResult.data
+    const revisionId = lesson.publishedRevisionId
+    const revisionKey = revisionId ?? "current"
+
     // Initialize Supabase client with environment variables
     const supabase = createClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -75,7 +97,27 @@ export async function downloadLessonStorage({
 
     // Define bucket and file path per storage rules: {bucket}/{userId}/{purpose}/{filename}
     const bucketName = process.env.SUPABASE_LESSONS_BUCKET || "lessons"
-    const filePath = `${userId}/${lessonId}.json`
+    const filePath = `${userId}/${lessonId}/${revisionKey}.json`
+
+    // Write the revision's JSON (overwriting only a copy of the same revision)
+    const { error: uploadError } = await supabase.storage
+      .from(bucketName)
+      .upload(
+        filePath,
+        JSON.stringify({
+          lessonId,
+          revisionId,
+          title: lesson.title,
+          level: lesson.level,
+          content: lesson.content,
+          exercises: exercisesResult.data // Learner projections, without answer keys
+        }),
+        { contentType: "application/json", upsert: true }
+      )
+
+    if (uploadError) {
+      throw uploadError
+    }
 
     // Generate a signed URL for the lesson file
     const { data, error } = await supabase.storage
@@ -93,7 +135,11 @@ export async function downloadLessonStorage({
     return {
       isSuccess: true,
       message: "Lesson download URL generated successfully",
-      data: { url: data.signedUrl }
+      data: {
+        url: data.signedUrl,
+        revisionId,
+        fileName: `lesson-${lessonId}-${revisionKey}.json`
+      }
     }
   } catch (error) {
     console.error("Error generating lesson download URL:", error)
@@ -102,4 +148,4 @@ export async function downloadLessonStorage({
       message: "Failed to generate lesson download URL. Please try again."
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,246 @@
+/**
+ * @description
+ * This server-side page edits an existing lesson and its exercises in the content studio.
+ *
+ * Key features:
+ * - Lesson editor with live preview
+ * - Exercise manager with learner-facing previews
+ * - AI exercise generation with a review queue for the generated candidates
+ * - Revision history with publish, diff and rollback
+ * - Suspense: Handles the loading state while the lesson is fetched
+ *
+ * @dependencies
+ * - @/actions/db/lessons-actions: Admin lesson read, update and delete
+ * - @/actions/db/exercises-actions: Exercise retrieval and authoring actions
+ * - @/actions/ai-actions: generateExerciseCandidatesAction
+ * - @/actions/db/exercise-candidates-actions: Candidate review actions
+ * - @/actions/db/curriculum-actions: getUnitsAction for the unit select
+ * - @/actions/db/lesson-revisions-actions: Revision history, publishing and rollback
+ * - ../_components/*: Client-side lesson and exercise editors and the candidate review queue
+ * - @/types: ExerciseType type
+ *
+ * @notes
+ * - Marked "use server" per server component rules
+ * - Returns 404 for unknown lessons
+ * - Edits change the working copy; learners only see them once a revision is published
+ */
+
+"use server"
+
+import { generateExerciseCandidatesAction } from "@/actions/ai-actions"
+import { getUnitsAction } from "@/actions/db/curriculum-actions"
+import {
+  approveExerciseCandidateAction,
+  getExerciseCandidatesAction,
+  rejectExerciseCandidateAction
+} from "@/actions/db/exercise-candidates-actions"
+import {
+  createExerciseAction,
+  deleteExerciseAction,
+  getExercisesByLessonIdAction,
+  updateExerciseAction
+} from "@/actions/db/exercises-actions"
+import {
+  getLessonRevisionDiffAction,
+  getLessonRevisionsAction,
+  publishLessonRevisionAction,
+  rollbackLessonAction,
+  unpublishLessonAction
+} from "@/actions/db/lesson-revisions-actions"
+import {
+  deleteLessonAction,
+  getAdminLessonAction,
+  updateLessonAction
+} from "@/actions/db/lessons-actions"
+import { Badge } from "@/components/ui/badge"
+import { ExerciseType } from "@/types"
+import { ArrowLeft } from "lucide-react"
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { Suspense } from "react"
+import ExerciseCandidates from "../_components/exercise-candidates"
+import ExerciseEditor, {
+  ExerciseFormValues
+} from "../_components/exercise-editor"
+import LessonEditor, { LessonFormValues } from "../_components/lesson-editor"
+import RevisionHistory from "../_components/revision-history"
+
+interface EditLessonPageProps {
+  params: Promise<{ lessonId: string }>
+}
+
+/**
+ * EditLessonPage component.
+ * @param {EditLessonPageProps} props - The route parameters
+ * @returns {JSX.Element} The lesson and exercise editors
+ */
+export default async function EditLessonPage({ params }: EditLessonPageProps) {
+  const { lessonId } = await params
+
+  return (
+    <div>
+      <Link
+        href="/admin/content"
+        className="text-muted-foreground hover:text-foreground mb-4 inline-flex items-center gap-1 text-sm"
+      >
+        <ArrowLeft className="size-4" />
+        All lessons
+      </Link>
+
+      <Suspense fallback={<div>Loading lesson...</div>}>
+        <EditLessonFetcher lessonId={lessonId} />
+      </Suspense>
+    </div>
+  )
+}
+
+/**
+ * EditLessonFetcher loads the lesson, its exercises, generated candidates, revisions and the units,
+ * then renders the editors.
+ */
+async function EditLessonFetcher({ lessonId }: { lessonId: string }) {
+  const [
+    lessonResult,
+    exercisesResult,
+    candidatesResult,
+    unitsResult,
+    revisionsResult
+  ] = await Promise.all([
+    getAdminLessonAction(lessonId),
+    getExercisesByLessonIdAction(lessonId),
+    getExerciseCandidatesAction(lessonId),
+    getUnitsAction(),
+    getLessonRevisionsAction(lessonId)
+  ])
+
+  if (!lessonResult.isSuccess) {
+    notFound()
+  }
+
+  const lesson = lessonResult.data
+
+  // Save the lesson's metadata and content
+  const handleSave = async (values: LessonFormValues) => {
+    "use server"
+    return updateLessonAction(lessonId, values)
+  }
+
+  // Delete the lesson (exercises cascade)
+  const handleDelete = async () => {
+    "use server"
+    return deleteLessonAction(lessonId)
+  }
+
+  // Add an exercise to this lesson
+  const handleCreateExercise = async (values: ExerciseFormValues) => {
+    "use server"
+    return createExerciseAction({ ...values, lessonId })
+  }
+
+  // Update one of this lesson's exercises
+  const handleUpdateExercise = async (
+    id: string,
+    values: ExerciseFormValues
+  ) => {
+    "use server"
+    return updateExerciseAction(id, values)
+  }
+
+  // Delete one of this lesson's exercises
+  const handleDeleteExercise = async (id: string) => {
+    "use server"
+    return deleteExerciseAction(id)
+  }
+
+  // Generate exercises of a type for review
+  const handleGenerate = async (type: ExerciseType, count: number) => {
+    "use server"
+    return generateExerciseCandidatesAction(lessonId, type, count)
+  }
+
+  // Add a generated exercise to the lesson, with the author's edits
+  const handleApproveCandidate = async (
+    candidateId: string,
+    content: unknown
+  ) => {
+    "use server"
+    return approveExerciseCandidateAction(candidateId, content)
+  }
+
+  // Discard a generated exercise
+  const handleRejectCandidate = async (candidateId: string) => {
+    "use server"
+    return rejectExerciseCandidateAction(candidateId)
+  }
+
+  // Serve a revision to learners
+  const handlePublish = async (revisionId: string) => {
+    "use server"
+    return publishLessonRevisionAction(lessonId, revisionId)
+  }
+
+  // Hide the lesson from learners
+  const handleUnpublish = async () => {
+    "use server"
+    return unpublishLessonAction(lessonId)
+  }
+
+  // Restore and publish an earlier revision
+  const handleRollback = async (revisionId: string) => {
+    "use server"
+    return rollbackLessonAction(lessonId, revisionId)
+  }
+
+  // Compare a revision with the one before it
+  const handleDiff = async (revisionId: string) => {
+    "use server"
+    return getLessonRevisionDiffAction(lessonId, revisionId)
+  }
+
+  return (
+    <div className="space-y-12">
+      <div className="flex items-center gap-3">
+        <h1 className="text-3xl font-bold">{lesson.title}</h1>
+        <Badge
+          variant={
+            lesson.publishStatus === "published" ? "default" : "secondary"
+          }
+          className="capitalize"
+        >
+          {lesson.publishStatus}
+        </Badge>
+      </div>
+
+      <LessonEditor
+        lesson={lesson}
+        units={unitsResult.isSuccess ? unitsResult.data : []}
+        onSave={handleSave}
+        onDelete={handleDelete}
+      />
+
+      <ExerciseEditor
+        exercises={exercisesResult.isSuccess ? exercisesResult.data : []}
+        onCreate={handleCreateExercise}
+        onUpdate={handleUpdateExercise}
+        onDelete={handleDeleteExercise}
+      />
+
+      <ExerciseCandidates
+        candidates={candidatesResult.isSuccess ? candidatesResult.data : []}
+        onGenerate={handleGenerate}
+        onApprove={handleApproveCandidate}
+        onReject={handleRejectCandidate}
+      />
+
+      <RevisionHistory
+        revisions={revisionsResult.isSuccess ? revisionsResult.data : []}
+        publishedRevisionId={lesson.publishedRevisionId}
+        isPublished={lesson.publishStatus === "published"}
+        onPublish={handlePublish}
+        onUnpublish={handleUnpublish}
+        onRollback={handleRollback}
+        onDiff={handleDiff}
+      />
+    </div>
+  )
+}
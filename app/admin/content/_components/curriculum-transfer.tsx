@@ -0,0 +1,248 @@
+/**
+ * @description
+ * This client component runs bulk curriculum import and export in the content studio.
+ * Authors pick a bundle file and/or a vocabulary CSV, review a dry-run report, and
+ * then import; or download the current curriculum in the same format.
+ *
+ * Key features:
+ * - File pickers for the bundle (.json) and vocabulary (.csv)
+ * - Dry-run report with per-entity create/update/unchanged and located errors
+ * - Import is only enabled after a clean dry run of the same files
+ * - Optional publishing of every changed lesson
+ * - Export downloads curriculum.json and vocabulary.csv
+ *
+ * @dependencies
+ * - @/components/ui/*: Shadcn Badge, Button, Checkbox, Input and Label
+ * - @/types: ActionState and bundle types
+ *
+ * @notes
+ * - Persistence is delegated to the onImport/onExport props (server actions defined by the page)
+ * - Files are read in the browser and sent as text
+ */
+
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  ActionState,
+  BundleImportAction,
+  CurriculumExport,
+  CurriculumImportReport
+} from "@/types"
+import { Download, Upload } from "lucide-react"
+import { useRouter } from "next/navigation"
+import { useState } from "react"
+
+/**
+ * Values sent to the import action.
+ */
+export interface CurriculumImportValues {
+  bundle?: string
+  vocabularyCsv?: string
+  dryRun: boolean
+  publish: boolean
+}
+
+interface CurriculumTransferProps {
+  onImport: (
+    values: CurriculumImportValues
+  ) => Promise<ActionState<CurriculumImportReport>>
+  onExport: () => Promise<ActionState<CurriculumExport>>
+}
+
+const ACTION_LABELS: Record<BundleImportAction, string> = {
+  create: "New",
+  update: "Changed",
+  unchanged: "Unchanged"
+}
+
+/**
+ * CurriculumTransfer renders the import form, its report, and the export button.
+ * @param {CurriculumTransferProps} props - Import and export handlers
+ * @returns {JSX.Element} The import/export tools
+ */
+export default function CurriculumTransfer({
+  onImport,
+  onExport
+}: CurriculumTransferProps) {
+  const router = useRouter()
+  const [bundle, setBundle] = useState<string | undefined>()
+  const [vocabularyCsv, setVocabularyCsv] = useState<string | undefined>()
+  const [publish, setPublish] = useState(false)
+  const [report, setReport] = useState<CurriculumImportReport | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+
+  const readFile =
+    (setter: (text: string | undefined) => void) =>
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0]
+      setter(file ? await file.text() : undefined)
+      setReport(null)
+      setMessage(null)
+    }
+
+  const runImport = async (dryRun: boolean) => {
+    setIsBusy(true)
+    const result = await onImport({ bundle, vocabularyCsv, dryRun, publish })
+    setIsBusy(false)
+    setMessage(result.message)
+    setReport(result.isSuccess ? result.data : null)
+    if (result.isSuccess && !dryRun && result.data.errors.length === 0) {
+      router.refresh()
+    }
+  }
+
+  const handleExport = async () => {
+    setIsBusy(true)
+    const result = await onExport()
+    setIsBusy(false)
+    if (!result.isSuccess) {
+      setMessage(result.message)
+      return
+    }
+    download(
+      "curriculum.json",
+      JSON.stringify(result.data.bundle, null, 2),
+      "application/json"
+    )
+    download("vocabulary.csv", result.data.vocabularyCsv, "text/csv")
+  }
+
+  const canImport =
+    !!report && report.dryRun && report.errors.length === 0 && !isBusy
+  const changes = report?.items.filter(item => item.action !== "unchanged")
+
+  return (
+    <div className="space-y-10">
+      <section className="space-y-4">
+        <h2 className="text-2xl font-semibold">Import</h2>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="bundle-file">Bundle (.json)</Label>
+            <Input
+              id="bundle-file"
+              type="file"
+              accept=".json,application/json"
+              onChange={readFile(setBundle)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="vocabulary-file">Vocabulary (.csv)</Label>
+            <Input
+              id="vocabulary-file"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={readFile(setVocabularyCsv)}
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="publish"
+            checked={publish}
+            onCheckedChange={checked => {
+              setPublish(checked === true)
+              setReport(null)
+            }}
+          />
+          <Label htmlFor="publish">
+            Publish changed lessons after importing
+          </Label>
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            disabled={isBusy || (!bundle && !vocabularyCsv)}
+            onClick={() => runImport(true)}
+          >
+            Validate (dry run)
+          </Button>
+          <Button disabled={!canImport} onClick={() => runImport(false)}>
+            <Upload className="mr-2 size-4" />
+            Import
+          </Button>
+        </div>
+
+        {message && (
+          <div className="text-muted-foreground text-sm">{message}</div>
+        )}
+
+        {report && report.errors.length > 0 && (
+          <ul className="border-destructive space-y-1 rounded-lg border p-3 text-sm">
+            {report.errors.map((error, index) => (
+              <li key={index}>
+                <span className="font-mono">{error.path}</span>: {error.message}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {report && report.errors.length === 0 && (
+          <div className="rounded-lg border p-3">
+            {changes && changes.length === 0 ? (
+              <div className="text-muted-foreground text-sm">
+                Everything is already up to date.
+              </div>
+            ) : (
+              <ul className="space-y-1 text-sm">
+                {report.items.map(item => (
+                  <li
+                    key={`${item.kind}:${item.slug}`}
+                    className="flex items-center gap-2"
+                  >
+                    <Badge
+                      variant={
+                        item.action === "unchanged" ? "outline" : "secondary"
+                      }
+                    >
+                      {ACTION_LABELS[item.action]}
+                    </Badge>
+                    <span className="text-muted-foreground capitalize">
+                      {item.kind}
+                    </span>
+                    <span className="font-mono">{item.slug}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </section>
+
+      <section className="space-y-4">
+        <h2 className="text-2xl font-semibold">Export</h2>
+        <p className="text-muted-foreground text-sm">
+          Downloads every unit, lesson and exercise (drafts included) as
+          curriculum.json, and all vocabulary as vocabulary.csv. Edit them and
+          import them back; rows are matched by slug.
+        </p>
+        <Button variant="outline" disabled={isBusy} onClick={handleExport}>
+          <Download className="mr-2 size-4" />
+          Export curriculum
+        </Button>
+      </section>
+    </div>
+  )
+}
+
+/**
+ * Saves text as a file in the browser.
+ */
+function download(fileName: string, text: string, type: string) {
+  const url = window.URL.createObjectURL(new Blob([text], { type }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  window.URL.revokeObjectURL(url)
+}
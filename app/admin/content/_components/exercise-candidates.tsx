@@ -0,0 +1,290 @@
+/**
+ * @description
+ * This client component generates exercises with AI and reviews them in the content studio.
+ * Authors pick a type and a number of exercises; the generated candidates are listed with a
+ * learner-facing preview and can be edited, approved into the lesson, or rejected.
+ *
+ * Key features:
+ * - Generate form with exercise type and count
+ * - Pending candidates with their content as editable JSON and a live preview
+ * - Approve (with edits) and reject controls
+ *
+ * @dependencies
+ * - @/components/practice/exercise-renderer: Learner-facing exercise components
+ * - @/components/ui/*: Shadcn form controls and Badge
+ * - @/db/schema/exercise-candidates-schema: SelectExerciseCandidate type
+ * - @/lib/ai/exercise-generation: MAX_GENERATED_EXERCISES
+ * - @/lib/exercises/learner-exercise: Projects the candidate as learners would receive it
+ * - @/lib/validation/exercise-content-validation: Checks edited content before previewing it
+ * - @/types: ActionState and ExerciseType types
+ * - lucide-react: Provides icons (e.g., Check, Sparkles, X)
+ *
+ * @notes
+ * - Generation and review are delegated to the onGenerate/onApprove/onReject props (server actions defined by the page)
+ * - The server validates edited content against the candidate's type when it is approved
+ */
+
+"use client"
+
+import ExerciseRenderer from "@/components/practice/exercise-renderer"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { SelectExerciseCandidate } from "@/db/schema/exercise-candidates-schema"
+import { MAX_GENERATED_EXERCISES } from "@/lib/ai/exercise-generation"
+import { toLearnerExercise } from "@/lib/exercises/learner-exercise"
+import { validateExerciseDefinition } from "@/lib/validation/exercise-content-validation"
+import { ActionState, ExerciseType } from "@/types"
+import { Check, Sparkles, X } from "lucide-react"
+import { useRouter } from "next/navigation"
+import { useState } from "react"
+
+interface ExerciseCandidatesProps {
+  candidates: SelectExerciseCandidate[] // Candidates waiting for review
+  onGenerate: (
+    type: ExerciseType,
+    count: number
+  ) => Promise<
+    ActionState<{
+      candidates: SelectExerciseCandidate[]
+      rejectedCount: number
+    }>
+  >
+  onApprove: (
+    candidateId: string,
+    content: unknown
+  ) => Promise<ActionState<SelectExerciseCandidate>>
+  onReject: (candidateId: string) => Promise<ActionState<void>>
+}
+
+/**
+ * ExerciseCandidates generates exercises and lists them for review.
+ * @param {ExerciseCandidatesProps} props - The pending candidates and handlers
+ * @returns {JSX.Element} The generator and review queue
+ */
+export default function ExerciseCandidates({
+  candidates,
+  onGenerate,
+  onApprove,
+  onReject
+}: ExerciseCandidatesProps) {
+  const router = useRouter()
+  const [type, setType] = useState<ExerciseType>("quiz")
+  const [count, setCount] = useState(5)
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const handleGenerate = async () => {
+    setIsGenerating(true)
+    const result = await onGenerate(type, count)
+    setIsGenerating(false)
+    setMessage(result.message)
+    if (result.isSuccess) {
+      router.refresh()
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-2xl font-semibold">Generated exercises</h2>
+
+      <div className="flex flex-wrap items-end gap-4 rounded-lg border p-4">
+        <div className="space-y-2">
+          <Label>Type</Label>
+          <Select
+            value={type}
+            onValueChange={value => setType(value as ExerciseType)}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="quiz">Quiz</SelectItem>
+              <SelectItem value="writing">Writing</SelectItem>
+              <SelectItem value="speaking">Speaking</SelectItem>
+              <SelectItem value="matching">Matching</SelectItem>
+              <SelectItem value="fill-blank">Fill in the blank</SelectItem>
+              <SelectItem value="word-order">Word order</SelectItem>
+              <SelectItem value="dictation">Dictation</SelectItem>
+              <SelectItem value="translation">Translation</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>How many</Label>
+          <Input
+            type="number"
+            min={1}
+            max={MAX_GENERATED_EXERCISES}
+            value={count}
+            onChange={event => setCount(Number(event.target.value) || 1)}
+            className="w-24"
+          />
+        </div>
+        <Button onClick={handleGenerate} disabled={isGenerating}>
+          <Sparkles className="mr-2 size-4" />
+          {isGenerating ? "Generating..." : "Generate"}
+        </Button>
+        {message && (
+          <div className="text-muted-foreground text-sm">{message}</div>
+        )}
+      </div>
+
+      {candidates.length === 0 ? (
+        <div className="text-muted-foreground text-sm">
+          No generated exercises are waiting for review.
+        </div>
+      ) : (
+        <ul className="space-y-4">
+          {candidates.map(candidate => (
+            <CandidateReview
+              key={candidate.id}
+              candidate={candidate}
+              onApprove={onApprove}
+              onReject={onReject}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+interface CandidateReviewProps {
+  candidate: SelectExerciseCandidate
+  onApprove: ExerciseCandidatesProps["onApprove"]
+  onReject: ExerciseCandidatesProps["onReject"]
+}
+
+/**
+ * CandidateReview shows one candidate with its editable content and preview.
+ */
+function CandidateReview({
+  candidate,
+  onApprove,
+  onReject
+}: CandidateReviewProps) {
+  const router = useRouter()
+  const [json, setJson] = useState(() =>
+    JSON.stringify(candidate.content, null, 2)
+  )
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const content = parseJson(json)
+
+  const handleApprove = async () => {
+    if (content === undefined) {
+      setError("The content is not valid JSON.")
+      return
+    }
+
+    setIsSaving(true)
+    const result = await onApprove(candidate.id, content)
+    setIsSaving(false)
+
+    if (!result.isSuccess) {
+      const details = Object.entries(result.fieldErrors ?? {}).map(
+        ([field, messages]) => `${field}: ${messages.join(", ")}`
+      )
+      setError([result.message, ...details].join(" — "))
+      return
+    }
+    router.refresh()
+  }
+
+  const handleReject = async () => {
+    setIsSaving(true)
+    const result = await onReject(candidate.id)
+    setIsSaving(false)
+    if (result.isSuccess) {
+      router.refresh()
+    } else {
+      setError(result.message)
+    }
+  }
+
+  // Only content that is valid for its type can be previewed
+  const validation =
+    content !== undefined
+      ? validateExerciseDefinition({ type: candidate.type, content })
+      : null
+  const preview = validation?.success
+    ? toLearnerExercise({ id: candidate.id, ...validation.data })
+    : null
+
+  return (
+    <li className="grid gap-6 rounded-lg border p-4 lg:grid-cols-2">
+      <div className="space-y-4">
+        <div className="flex items-center gap-2">
+          <Badge variant="secondary" className="capitalize">
+            {candidate.type}
+          </Badge>
+          <span className="text-muted-foreground text-xs">
+            {candidate.model}
+          </span>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Content (JSON)</Label>
+          <Textarea
+            value={json}
+            rows={10}
+            className="font-mono text-xs"
+            onChange={event => setJson(event.target.value)}
+          />
+        </div>
+
+        {error && <div className="text-destructive text-sm">{error}</div>}
+
+        <div className="flex gap-2">
+          <Button onClick={handleApprove} disabled={isSaving}>
+            <Check className="mr-2 size-4" />
+            Approve
+          </Button>
+          <Button variant="ghost" onClick={handleReject} disabled={isSaving}>
+            <X className="mr-2 size-4" />
+            Reject
+          </Button>
+        </div>
+      </div>
+
+      <div>
+        <div className="text-muted-foreground mb-2 text-sm font-medium uppercase">
+          Preview
+        </div>
+        {preview ? (
+          <ExerciseRenderer
+            key={json}
+            exercise={preview}
+            onSubmit={async () => {}}
+          />
+        ) : (
+          <div className="text-muted-foreground text-sm">
+            Fix the content to see a preview.
+          </div>
+        )}
+      </div>
+    </li>
+  )
+}
+
+/**
+ * Parses edited JSON, or returns undefined when it is not valid.
+ */
+function parseJson(value: string): unknown {
+  try {
+    return JSON.parse(value)
+  } catch {
+    return undefined
+  }
+}
@@ -0,0 +1,682 @@
+/**
+ * @description
+ * This client component manages a lesson's exercises in the content studio.
+ * Authors add, edit and delete exercises of every type, with a live preview
+ * rendered by the learner-facing exercise components.
+ *
+ * Key features:
+ * - List of the lesson's exercises with edit and delete controls
+ * - Type-specific form fields (question/options, prompt, phrase, pairs, cloze sentence, words, dictation text, translation)
+ * - Live preview using ExerciseRenderer
+ *
+ * @dependencies
+ * - @/components/practice/exercise-renderer: Learner-facing exercise components
+ * - @/components/ui/*: Shadcn form controls and Badge
+ * - @/db/schema/exercises-schema: SelectExercise type
+ * - @/lib/exercises/learner-exercise: Projects the draft as learners receive it
+ * - @/lib/validation/exercise-content-validation: BLANK_MARKER for cloze sentences
+ * - @/types: ActionState, ExerciseDefinition, FillBlankSlot and TranslationDirection types
+ *
+ * @notes
+ * - Persistence is delegated to the onCreate/onUpdate/onDelete props (server actions defined by the page)
+ * - Quiz options are entered one per line; the correct answer must match one of them
+ * - The form checks the basics for a quick preview; the server validates content against its type
+ * - Speaking exercises use their phrase as the expected answer
+ * - List fields are one entry per line: matching pairs as "ಕನ್ನಡ = English", blanks as
+ *   "answer / other answers | hint", accepted answers one each; word-order sentences are split on spaces
+ */
+
+"use client"
+
+import ExerciseRenderer from "@/components/practice/exercise-renderer"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { SelectExercise } from "@/db/schema/exercises-schema"
+import { toLearnerExercise } from "@/lib/exercises/learner-exercise"
+import { BLANK_MARKER } from "@/lib/validation/exercise-content-validation"
+import {
+  ActionState,
+  ExerciseDefinition,
+  FillBlankSlot,
+  TranslationDirection
+} from "@/types"
+import { Pencil, Plus, Trash2 } from "lucide-react"
+import { useRouter } from "next/navigation"
+import { useState } from "react"
+
+/**
+ * Values submitted by the exercise form: a type and content of that type.
+ */
+export type ExerciseFormValues = ExerciseDefinition
+
+interface ExerciseEditorProps {
+  exercises: SelectExercise[] // The lesson's current exercises
+  onCreate: (values: ExerciseFormValues) => Promise<ActionState<SelectExercise>>
+  onUpdate: (
+    id: string,
+    values: ExerciseFormValues
+  ) => Promise<ActionState<SelectExercise>>
+  onDelete: (id: string) => Promise<ActionState<void>>
+}
+
+interface ExerciseDraft {
+  type: SelectExercise["type"]
+  question: string
+  options: string
+  prompt: string
+  phrase: string
+  correctAnswer: string
+  pairs: string
+  sentence: string
+  blanks: string
+  words: string
+  text: string
+  audioUrl: string
+  english: string
+  source: string
+  direction: TranslationDirection
+  acceptedAnswers: string
+}
+
+const EMPTY_DRAFT: ExerciseDraft = {
+  type: "quiz",
+  question: "",
+  options: "",
+  prompt: "",
+  phrase: "",
+  correctAnswer: "",
+  pairs: "",
+  sentence: "",
+  blanks: "",
+  words: "",
+  text: "",
+  audioUrl: "",
+  english: "",
+  source: "",
+  direction: "kn-en",
+  acceptedAnswers: ""
+}
+
+/**
+ * ExerciseEditor lists a lesson's exercises and edits one at a time.
+ * @param {ExerciseEditorProps} props - The exercises and persistence handlers
+ * @returns {JSX.Element} The exercise manager
+ */
+export default function ExerciseEditor({
+  exercises,
+  onCreate,
+  onUpdate,
+  onDelete
+}: ExerciseEditorProps) {
+  const router = useRouter()
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draft, setDraft] = useState<ExerciseDraft | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const startEditing = (exercise?: SelectExercise) => {
+    setEditingId(exercise?.id ?? null)
+    setDraft(exercise ? toDraft(exercise) : { ...EMPTY_DRAFT })
+    setError(null)
+  }
+
+  const handleSave = async () => {
+    if (!draft) return
+
+    const built = buildExercise(draft)
+    if ("error" in built) {
+      setError(built.error)
+      return
+    }
+
+    setIsSaving(true)
+    const result = editingId
+      ? await onUpdate(editingId, built)
+      : await onCreate(built)
+    setIsSaving(false)
+
+    if (!result.isSuccess) {
+      const details = Object.entries(result.fieldErrors ?? {}).map(
+        ([field, messages]) => `${field}: ${messages.join(", ")}`
+      )
+      setError([result.message, ...details].join(" — "))
+      return
+    }
+
+    setDraft(null)
+    setEditingId(null)
+    router.refresh()
+  }
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm("Delete this exercise?")) return
+    const result = await onDelete(id)
+    if (result.isSuccess) {
+      router.refresh()
+    } else {
+      setError(result.message)
+    }
+  }
+
+  const built = draft ? buildExercise(draft) : null
+  // Previewed as learners receive it, so authors see the shuffled order too
+  const preview =
+    built && !("error" in built)
+      ? toLearnerExercise({ id: editingId ?? "preview", ...built })
+      : null
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-semibold">Exercises</h2>
+        <Button variant="outline" onClick={() => startEditing()}>
+          <Plus className="mr-2 size-4" />
+          Add exercise
+        </Button>
+      </div>
+
+      {exercises.length === 0 && !draft && (
+        <div className="text-muted-foreground text-sm">
+          This lesson has no exercises yet.
+        </div>
+      )}
+
+      <ul className="space-y-2">
+        {exercises.map(exercise => (
+          <li
+            key={exercise.id}
+            className="flex items-center justify-between gap-4 rounded-lg border p-3"
+          >
+            <div className="flex min-w-0 items-center gap-3">
+              <Badge variant="secondary" className="capitalize">
+                {exercise.type}
+              </Badge>
+              <span className="truncate">{describeExercise(exercise)}</span>
+            </div>
+
+            <div className="flex gap-2">
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Edit exercise"
+                onClick={() => startEditing(exercise)}
+              >
+                <Pencil className="size-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Delete exercise"
+                onClick={() => handleDelete(exercise.id)}
+              >
+                <Trash2 className="size-4" />
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {draft && (
+        <div className="grid gap-6 rounded-lg border p-4 lg:grid-cols-2">
+          <div className="space-y-4">
+            <div className="text-lg font-semibold">
+              {editingId ? "Edit exercise" : "New exercise"}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={draft.type}
+                onValueChange={value =>
+                  setDraft({ ...draft, type: value as ExerciseDraft["type"] })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="quiz">Quiz</SelectItem>
+                  <SelectItem value="writing">Writing</SelectItem>
+                  <SelectItem value="speaking">Speaking</SelectItem>
+                  <SelectItem value="matching">Matching</SelectItem>
+                  <SelectItem value="fill-blank">Fill in the blank</SelectItem>
+                  <SelectItem value="word-order">Word order</SelectItem>
+                  <SelectItem value="dictation">Dictation</SelectItem>
+                  <SelectItem value="translation">Translation</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {draft.type === "quiz" && (
+              <>
+                <div className="space-y-2">
+                  <Label>Question</Label>
+                  <Input
+                    value={draft.question}
+                    onChange={event =>
+                      setDraft({ ...draft, question: event.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Options (one per line)</Label>
+                  <Textarea
+                    value={draft.options}
+                    onChange={event =>
+                      setDraft({ ...draft, options: event.target.value })
+                    }
+                  />
+                </div>
+              </>
+            )}
+
+            {draft.type === "writing" && (
+              <div className="space-y-2">
+                <Label>Prompt</Label>
+                <Textarea
+                  value={draft.prompt}
+                  onChange={event =>
+                    setDraft({ ...draft, prompt: event.target.value })
+                  }
+                />
+              </div>
+            )}
+
+            {draft.type === "speaking" && (
+              <div className="space-y-2">
+                <Label>Phrase to say</Label>
+                <Input
+                  value={draft.phrase}
+                  onChange={event =>
+                    setDraft({ ...draft, phrase: event.target.value })
+                  }
+                />
+              </div>
+            )}
+
+            {(draft.type === "quiz" || draft.type === "writing") && (
+              <div className="space-y-2">
+                <Label>Correct answer</Label>
+                <Input
+                  value={draft.correctAnswer}
+                  onChange={event =>
+                    setDraft({ ...draft, correctAnswer: event.target.value })
+                  }
+                />
+              </div>
+            )}
+
+            {draft.type === "matching" && (
+              <div className="space-y-2">
+                <Label>Pairs (one per line, Kannada = English)</Label>
+                <Textarea
+                  value={draft.pairs}
+                  placeholder={"ನೀರು = water\nಹಾಲು = milk"}
+                  onChange={event =>
+                    setDraft({ ...draft, pairs: event.target.value })
+                  }
+                />
+              </div>
+            )}
+
+            {draft.type === "fill-blank" && (
+              <>
+                <div className="space-y-2">
+                  <Label>Sentence (mark each blank with {BLANK_MARKER})</Label>
+                  <Input
+                    value={draft.sentence}
+                    placeholder={`ನಾನು ಮನೆ${BLANK_MARKER} ಹೋಗುತ್ತೇನೆ`}
+                    onChange={event =>
+                      setDraft({ ...draft, sentence: event.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>
+                    Blanks (one per line, answer / other answers | hint)
+                  </Label>
+                  <Textarea
+                    value={draft.blanks}
+                    placeholder="ಗೆ / ಕ್ಕೆ | dative"
+                    onChange={event =>
+                      setDraft({ ...draft, blanks: event.target.value })
+                    }
+                  />
+                </div>
+              </>
+            )}
+
+            {draft.type === "word-order" && (
+              <div className="space-y-2">
+                <Label>Sentence in the correct order</Label>
+                <Input
+                  value={draft.words}
+                  placeholder="ನಾನು ಊಟ ಮಾಡಿದೆ"
+                  onChange={event =>
+                    setDraft({ ...draft, words: event.target.value })
+                  }
+                />
+              </div>
+            )}
+
+            {draft.type === "dictation" && (
+              <>
+                <div className="space-y-2">
+                  <Label>Text to dictate</Label>
+                  <Input
+                    value={draft.text}
+                    onChange={event =>
+                      setDraft({ ...draft, text: event.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Audio URL (optional; text-to-speech otherwise)</Label>
+                  <Input
+                    value={draft.audioUrl}
+                    onChange={event =>
+                      setDraft({ ...draft, audioUrl: event.target.value })
+                    }
+                  />
+                </div>
+              </>
+            )}
+
+            {(draft.type === "writing" || draft.type === "dictation") && (
+              <div className="space-y-2">
+                <Label>Also accept (one per line, optional)</Label>
+                <Textarea
+                  value={draft.acceptedAnswers}
+                  onChange={event =>
+                    setDraft({ ...draft, acceptedAnswers: event.target.value })
+                  }
+                />
+              </div>
+            )}
+
+            {(draft.type === "fill-blank" ||
+              draft.type === "word-order" ||
+              draft.type === "dictation") && (
+              <div className="space-y-2">
+                <Label>English meaning (optional)</Label>
+                <Input
+                  value={draft.english}
+                  onChange={event =>
+                    setDraft({ ...draft, english: event.target.value })
+                  }
+                />
+              </div>
+            )}
+
+            {draft.type === "translation" && (
+              <>
+                <div className="space-y-2">
+                  <Label>Direction</Label>
+                  <Select
+                    value={draft.direction}
+                    onValueChange={value =>
+                      setDraft({
+                        ...draft,
+                        direction: value as TranslationDirection
+                      })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="kn-en">Kannada to English</SelectItem>
+                      <SelectItem value="en-kn">English to Kannada</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Sentence to translate</Label>
+                  <Input
+                    value={draft.source}
+                    onChange={event =>
+                      setDraft({ ...draft, source: event.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Accepted translations (one per line)</Label>
+                  <Textarea
+                    value={draft.acceptedAnswers}
+                    onChange={event =>
+                      setDraft({
+                        ...draft,
+                        acceptedAnswers: event.target.value
+                      })
+                    }
+                  />
+                </div>
+              </>
+            )}
+
+            {error && <div className="text-destructive text-sm">{error}</div>}
+
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={isSaving}>
+                {isSaving ? "Saving..." : "Save exercise"}
+              </Button>
+              <Button
+                variant="ghost"
+                onClick={() => {
+                  setDraft(null)
+                  setEditingId(null)
+                }}
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+
+          <div>
+            <div className="text-muted-foreground mb-2 text-sm font-medium uppercase">
+              Preview
+            </div>
+            {preview ? (
+              <ExerciseRenderer
+                key={JSON.stringify(preview.content)}
+                exercise={preview}
+                onSubmit={async () => {}}
+              />
+            ) : (
+              <div className="text-muted-foreground text-sm">
+                Fill in the exercise to see a preview.
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Converts a stored exercise into editable form fields.
+ */
+function toDraft(exercise: SelectExercise): ExerciseDraft {
+  const content = (exercise.content ?? {}) as Record<string, unknown>
+  const text = (key: string) =>
+    typeof content[key] === "string" ? (content[key] as string) : ""
+  const list = (key: string) =>
+    Array.isArray(content[key]) ? (content[key] as unknown[]) : []
+
+  return {
+    type: exercise.type,
+    question: text("question"),
+    options: list("options").join("\n"),
+    prompt: text("prompt"),
+    phrase: text("phrase"),
+    correctAnswer: text("correctAnswer"),
+    pairs: (list("pairs") as { kannada: string; english: string }[])
+      .map(pair => `${pair.kannada} = ${pair.english}`)
+      .join("\n"),
+    sentence: text("sentence"),
+    blanks: (list("blanks") as FillBlankSlot[])
+      .map(blank => {
+        const answers = [blank.answer, ...(blank.acceptedAnswers ?? [])]
+        return [answers.join(" / "), blank.hint].filter(Boolean).join(" | ")
+      })
+      .join("\n"),
+    words: list("words").join(" "),
+    text: text("text"),
+    audioUrl: text("audioUrl"),
+    english: text("english"),
+    source: text("source"),
+    direction: content.direction === "en-kn" ? "en-kn" : "kn-en",
+    acceptedAnswers: list("acceptedAnswers").join("\n")
+  }
+}
+
+/**
+ * Builds exercise content from the form, or explains what is missing.
+ */
+function buildExercise(
+  draft: ExerciseDraft
+): ExerciseFormValues | { error: string } {
+  const correctAnswer = draft.correctAnswer.trim()
+  const english = draft.english.trim() || undefined
+  const alternatives = toLines(draft.acceptedAnswers)
+  const acceptedAnswers = alternatives.length > 0 ? alternatives : undefined
+
+  switch (draft.type) {
+    case "quiz": {
+      const options = draft.options
+        .split("\n")
+        .map(option => option.trim())
+        .filter(Boolean)
+      if (!draft.question.trim()) return { error: "Add a question." }
+      if (options.length < 2) return { error: "Add at least two options." }
+      if (!options.includes(correctAnswer)) {
+        return { error: "The correct answer must be one of the options." }
+      }
+      return {
+        type: "quiz",
+        content: { question: draft.question.trim(), options, correctAnswer }
+      }
+    }
+    case "writing":
+      if (!draft.prompt.trim()) return { error: "Add a prompt." }
+      if (!correctAnswer) return { error: "Add the correct answer." }
+      return {
+        type: "writing",
+        content: { prompt: draft.prompt.trim(), correctAnswer, acceptedAnswers }
+      }
+    case "speaking": {
+      const phrase = draft.phrase.trim()
+      if (!phrase) return { error: "Add the phrase to say." }
+      return {
+        type: "speaking",
+        content: { phrase, correctAnswer: phrase }
+      }
+    }
+    case "matching": {
+      const pairs = toLines(draft.pairs).map(line => {
+        const [kannada = "", english = ""] = line
+          .split("=")
+          .map(part => part.trim())
+        return { kannada, english }
+      })
+      if (pairs.some(pair => !pair.kannada || !pair.english)) {
+        return { error: "Write each pair as Kannada = English." }
+      }
+      if (pairs.length < 2) return { error: "Add at least two pairs." }
+      return { type: "matching", content: { pairs } }
+    }
+    case "fill-blank": {
+      const sentence = draft.sentence.trim()
+      const blanks = toLines(draft.blanks).map(line => {
+        const [answers = "", hint] = line.split("|").map(part => part.trim())
+        const [answer = "", ...others] = answers
+          .split("/")
+          .map(part => part.trim())
+          .filter(Boolean)
+        const blank: FillBlankSlot = { answer }
+        if (others.length > 0) blank.acceptedAnswers = others
+        if (hint) blank.hint = hint
+        return blank
+      })
+      if (!sentence) return { error: "Add a sentence." }
+      if (blanks.length === 0 || blanks.some(blank => !blank.answer)) {
+        return { error: "Add an answer for each blank." }
+      }
+      if (sentence.split(BLANK_MARKER).length - 1 !== blanks.length) {
+        return {
+          error: `Mark each of the ${blanks.length} blanks with ${BLANK_MARKER}.`
+        }
+      }
+      return { type: "fill-blank", content: { sentence, blanks, english } }
+    }
+    case "word-order": {
+      const words = draft.words.split(/\s+/).filter(Boolean)
+      if (words.length < 2) {
+        return { error: "Add a sentence of at least two words." }
+      }
+      return { type: "word-order", content: { words, english } }
+    }
+    case "dictation": {
+      const text = draft.text.trim()
+      const audioUrl = draft.audioUrl.trim() || undefined
+      if (!text) return { error: "Add the text to dictate." }
+      return {
+        type: "dictation",
+        content: { text, audioUrl, acceptedAnswers, english }
+      }
+    }
+    case "translation": {
+      const source = draft.source.trim()
+      if (!source) return { error: "Add the sentence to translate." }
+      if (alternatives.length === 0) {
+        return { error: "Add at least one accepted translation." }
+      }
+      return {
+        type: "translation",
+        content: {
+          source,
+          direction: draft.direction,
+          acceptedAnswers: alternatives
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Splits a multi-line field into trimmed, non-empty lines.
+ */
+function toLines(value: string): string[] {
+  return value
+    .split("\n")
+    .map(line => line.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Short description of an exercise for the list.
+ */
+function describeExercise(exercise: SelectExercise): string {
+  const content = (exercise.content ?? {}) as Record<string, unknown>
+  const summary =
+    content.question ??
+    content.prompt ??
+    content.phrase ??
+    content.sentence ??
+    content.text ??
+    content.source ??
+    content.instructions ??
+    (Array.isArray(content.words) ? content.words.join(" ") : undefined)
+  return typeof summary === "string" ? summary : "Untitled exercise"
+}
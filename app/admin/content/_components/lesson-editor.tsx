@@ -0,0 +1,541 @@
+/**
+ * @description
+ * This client component is the form-based lesson editor of the content studio.
+ * Authors edit lesson metadata and every section of the lesson document while a
+ * live preview renders it with the learner-facing LessonContentView.
+ *
+ * Key features:
+ * - Metadata: title, level, unit and position
+ * - Section editors for summary, grammar, vocabulary, examples, dialogues and culture notes
+ * - Live preview using the same component learners see
+ * - Field-level errors from the server shown next to the offending input
+ *
+ * @dependencies
+ * - @/components/learn/lesson-content: Learner-facing lesson renderer for the preview
+ * - @/components/ui/*: Shadcn form controls
+ * - @/db/schema/*: Lesson and unit types
+ * - @/lib/validation/lesson-content-validation: Empty document and lenient reads for the preview
+ * - @/types: ActionState, FieldErrors and lesson content types
+ *
+ * @notes
+ * - Saving is delegated to the onSave prop (a server action defined by the page)
+ * - Saving edits the working copy only; publishing happens from the revision history
+ * - Empty optional fields are dropped before saving so they validate as absent
+ * - Grammar note examples are not editable here yet but are preserved on save
+ */
+
+"use client"
+
+import LessonContentView from "@/components/learn/lesson-content"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { InsertLesson, SelectLesson } from "@/db/schema/lessons-schema"
+import { SelectUnit } from "@/db/schema/units-schema"
+import {
+  createEmptyLessonContent,
+  readLessonContent
+} from "@/lib/validation/lesson-content-validation"
+import {
+  ActionState,
+  DialogueLine,
+  ExampleSentence,
+  FieldErrors,
+  LessonContent
+} from "@/types"
+import { Plus, Save, Trash2 } from "lucide-react"
+import { useRouter } from "next/navigation"
+import { useMemo, useState } from "react"
+
+/**
+ * Values submitted by the lesson editor.
+ */
+export type LessonFormValues = Pick<
+  InsertLesson,
+  "title" | "level" | "unitId" | "position" | "content"
+>
+
+interface LessonEditorProps {
+  lesson?: SelectLesson // Lesson being edited; omitted when creating
+  units: SelectUnit[] // Units available for assignment
+  onSave: (values: LessonFormValues) => Promise<ActionState<SelectLesson>>
+  onDelete?: () => Promise<ActionState<void>>
+}
+
+interface FieldConfig<T> {
+  key: keyof T & string // Text property of the item edited by this field
+  label: string
+  multiline?: boolean
+}
+
+// Sentinel for "no unit" in the unit select (Radix Select cannot use "")
+const NO_UNIT = "none"
+
+/**
+ * LessonEditor renders the lesson form and its live preview.
+ * @param {LessonEditorProps} props - The lesson, units and save/delete handlers
+ * @returns {JSX.Element} The editor
+ */
+export default function LessonEditor({
+  lesson,
+  units,
+  onSave,
+  onDelete
+}: LessonEditorProps) {
+  const router = useRouter()
+  const [title, setTitle] = useState(lesson?.title ?? "")
+  const [level, setLevel] = useState<SelectLesson["level"]>(
+    lesson?.level ?? "beginner"
+  )
+  const [unitId, setUnitId] = useState(lesson?.unitId ?? NO_UNIT)
+  const [position, setPosition] = useState(String(lesson?.position ?? 0))
+  const [content, setContent] = useState<LessonContent>(
+    lesson?.content ?? createEmptyLessonContent()
+  )
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({})
+  const [message, setMessage] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const prunedContent = useMemo(() => pruneEmptyStrings(content), [content])
+  const previewContent = useMemo(
+    () => readLessonContent(prunedContent),
+    [prunedContent]
+  )
+
+  const updateSection = <K extends keyof LessonContent>(
+    key: K,
+    value: LessonContent[K]
+  ) => setContent(current => ({ ...current, [key]: value }))
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setMessage(null)
+
+    const result = await onSave({
+      title,
+      level,
+      unitId: unitId === NO_UNIT ? null : unitId,
+      position: Number.parseInt(position, 10) || 0,
+      content: prunedContent as LessonContent
+    })
+
+    setIsSaving(false)
+    setMessage(result.message)
+    setFieldErrors(result.isSuccess ? {} : (result.fieldErrors ?? {}))
+
+    if (result.isSuccess) {
+      if (!lesson) {
+        router.push(`/admin/content/${result.data.id}`)
+      } else {
+        router.refresh()
+      }
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!onDelete || !window.confirm("Delete this lesson and its exercises?")) {
+      return
+    }
+    const result = await onDelete()
+    if (result.isSuccess) {
+      router.push("/admin/content")
+    } else {
+      setMessage(result.message)
+    }
+  }
+
+  return (
+    <div className="grid gap-8 lg:grid-cols-2">
+      <div className="space-y-8">
+        <div className="space-y-4">
+          <TextField
+            label="Title"
+            value={title}
+            onChange={setTitle}
+            error={fieldErrors.title?.[0]}
+          />
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Level</Label>
+              <Select
+                value={level}
+                onValueChange={value =>
+                  setLevel(value as SelectLesson["level"])
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="beginner">Beginner</SelectItem>
+                  <SelectItem value="intermediate">Intermediate</SelectItem>
+                  <SelectItem value="advanced">Advanced</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Unit</Label>
+              <Select value={unitId} onValueChange={setUnitId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_UNIT}>No unit</SelectItem>
+                  {units.map(unit => (
+                    <SelectItem key={unit.id} value={unit.id}>
+                      {unit.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <TextField
+              label="Position"
+              value={position}
+              onChange={setPosition}
+              type="number"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Summary</Label>
+          <Textarea
+            value={content.summary ?? ""}
+            onChange={event => updateSection("summary", event.target.value)}
+          />
+        </div>
+
+        <FieldListEditor
+          title="Grammar notes"
+          items={content.grammarNotes}
+          fields={[
+            { key: "title", label: "Title" },
+            { key: "explanation", label: "Explanation", multiline: true }
+          ]}
+          errorPath="content.grammarNotes"
+          fieldErrors={fieldErrors}
+          createItem={() => ({ title: "", explanation: "" })}
+          onChange={items => updateSection("grammarNotes", items)}
+        />
+
+        <FieldListEditor
+          title="Vocabulary"
+          items={content.vocabulary}
+          fields={[
+            { key: "kannada", label: "Kannada" },
+            { key: "transliteration", label: "Romanization" },
+            { key: "english", label: "English" },
+            { key: "partOfSpeech", label: "Part of speech" },
+            { key: "audioUrl", label: "Audio URL" }
+          ]}
+          errorPath="content.vocabulary"
+          fieldErrors={fieldErrors}
+          createItem={() => ({ kannada: "", english: "" })}
+          onChange={items => updateSection("vocabulary", items)}
+        />
+
+        <FieldListEditor
+          title="Example sentences"
+          items={content.examples}
+          fields={SENTENCE_FIELDS}
+          errorPath="content.examples"
+          fieldErrors={fieldErrors}
+          createItem={() => ({ kannada: "", english: "" })}
+          onChange={items => updateSection("examples", items)}
+        />
+
+        <DialogueListEditor
+          dialogues={content.dialogues}
+          fieldErrors={fieldErrors}
+          onChange={dialogues => updateSection("dialogues", dialogues)}
+        />
+
+        <FieldListEditor
+          title="Culture notes"
+          items={content.culturalNotes}
+          fields={[
+            { key: "title", label: "Title" },
+            { key: "body", label: "Note", multiline: true }
+          ]}
+          errorPath="content.culturalNotes"
+          fieldErrors={fieldErrors}
+          createItem={() => ({ title: "", body: "" })}
+          onChange={items => updateSection("culturalNotes", items)}
+        />
+
+        <div className="bg-background sticky bottom-0 flex items-center gap-4 border-t py-4">
+          <Button onClick={handleSave} disabled={isSaving}>
+            <Save className="mr-2 size-4" />
+            {isSaving ? "Saving..." : "Save lesson"}
+          </Button>
+
+          {onDelete && (
+            <Button variant="destructive" onClick={handleDelete}>
+              <Trash2 className="mr-2 size-4" />
+              Delete
+            </Button>
+          )}
+
+          {message && (
+            <span className="text-muted-foreground text-sm">{message}</span>
+          )}
+        </div>
+      </div>
+
+      <div className="lg:sticky lg:top-6 lg:self-start">
+        <div className="text-muted-foreground mb-2 text-sm font-medium uppercase">
+          Preview
+        </div>
+        <div className="max-h-[80vh] overflow-y-auto rounded-lg border p-6">
+          <h1 className="mb-6 text-3xl font-bold">{title || "Untitled"}</h1>
+          <LessonContentView content={previewContent} />
+        </div>
+      </div>
+    </div>
+  )
+}
+
+// Fields of example sentences
+const SENTENCE_FIELDS: FieldConfig<ExampleSentence>[] = [
+  { key: "kannada", label: "Kannada" },
+  { key: "transliteration", label: "Romanization" },
+  { key: "english", label: "English" },
+  { key: "notes", label: "Notes" }
+]
+
+// Fields of dialogue lines
+const LINE_FIELDS: FieldConfig<DialogueLine>[] = [
+  { key: "speaker", label: "Speaker" },
+  { key: "kannada", label: "Kannada" },
+  { key: "transliteration", label: "Romanization" },
+  { key: "english", label: "English" }
+]
+
+/**
+ * TextField renders a labelled input or textarea with an optional error.
+ */
+function TextField({
+  label,
+  value,
+  onChange,
+  error,
+  multiline,
+  type = "text"
+}: {
+  label: string
+  value: string
+  onChange: (value: string) => void
+  error?: string
+  multiline?: boolean
+  type?: string
+}) {
+  return (
+    <div className="space-y-1">
+      <Label>{label}</Label>
+      {multiline ? (
+        <Textarea
+          value={value}
+          onChange={event => onChange(event.target.value)}
+        />
+      ) : (
+        <Input
+          type={type}
+          value={value}
+          onChange={event => onChange(event.target.value)}
+        />
+      )}
+      {error && <div className="text-destructive text-xs">{error}</div>}
+    </div>
+  )
+}
+
+/**
+ * FieldListEditor edits a list of flat objects (one card per entry), one text field per configured key.
+ */
+function FieldListEditor<T extends object>({
+  title,
+  items,
+  fields,
+  errorPath,
+  fieldErrors,
+  createItem,
+  onChange
+}: {
+  title: string
+  items: T[]
+  fields: FieldConfig<T>[]
+  errorPath: string
+  fieldErrors: FieldErrors
+  createItem: () => NoInfer<T> // Blank entry; T is taken from items
+  onChange: (items: T[]) => void
+}) {
+  const updateItem = (index: number, key: keyof T & string, value: string) =>
+    onChange(
+      items.map((item, itemIndex) =>
+        itemIndex === index ? { ...item, [key]: value } : item
+      )
+    )
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">{title}</h2>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...items, createItem()])}
+        >
+          <Plus className="mr-1 size-4" />
+          Add
+        </Button>
+      </div>
+
+      {items.map((item, index) => (
+        <div key={index} className="space-y-3 rounded-lg border p-4">
+          {fields.map(field => (
+            <TextField
+              key={field.key}
+              label={field.label}
+              value={textValue(item[field.key])}
+              onChange={value => updateItem(index, field.key, value)}
+              multiline={field.multiline}
+              error={fieldErrors[`${errorPath}.${index}.${field.key}`]?.[0]}
+            />
+          ))}
+
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() =>
+              onChange(items.filter((_, itemIndex) => itemIndex !== index))
+            }
+          >
+            <Trash2 className="mr-1 size-4" />
+            Remove
+          </Button>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * DialogueListEditor edits dialogues, each with its own list of lines.
+ */
+function DialogueListEditor({
+  dialogues,
+  fieldErrors,
+  onChange
+}: {
+  dialogues: LessonContent["dialogues"]
+  fieldErrors: FieldErrors
+  onChange: (dialogues: LessonContent["dialogues"]) => void
+}) {
+  const updateDialogue = (
+    index: number,
+    update: Partial<LessonContent["dialogues"][number]>
+  ) =>
+    onChange(
+      dialogues.map((dialogue, dialogueIndex) =>
+        dialogueIndex === index ? { ...dialogue, ...update } : dialogue
+      )
+    )
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Dialogues</h2>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...dialogues, { title: "", lines: [] }])}
+        >
+          <Plus className="mr-1 size-4" />
+          Add
+        </Button>
+      </div>
+
+      {dialogues.map((dialogue, index) => (
+        <div key={index} className="space-y-3 rounded-lg border p-4">
+          <TextField
+            label="Title"
+            value={dialogue.title}
+            onChange={value => updateDialogue(index, { title: value })}
+            error={fieldErrors[`content.dialogues.${index}.title`]?.[0]}
+          />
+          <TextField
+            label="Context"
+            value={dialogue.context ?? ""}
+            onChange={value => updateDialogue(index, { context: value })}
+          />
+
+          {fieldErrors[`content.dialogues.${index}.lines`] && (
+            <div className="text-destructive text-xs">
+              {fieldErrors[`content.dialogues.${index}.lines`][0]}
+            </div>
+          )}
+
+          <div className="pl-4">
+            <FieldListEditor
+              title="Lines"
+              items={dialogue.lines}
+              fields={LINE_FIELDS}
+              errorPath={`content.dialogues.${index}.lines`}
+              fieldErrors={fieldErrors}
+              createItem={() => ({ speaker: "", kannada: "", english: "" })}
+              onChange={lines => updateDialogue(index, { lines })}
+            />
+          </div>
+
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() =>
+              onChange(
+                dialogues.filter((_, dialogueIndex) => dialogueIndex !== index)
+              )
+            }
+          >
+            <Trash2 className="mr-1 size-4" />
+            Remove dialogue
+          </Button>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+// Text of an optional field, or "" when it is absent
+function textValue(value: unknown): string {
+  return typeof value === "string" ? value : ""
+}
+
+/**
+ * Recursively drops object keys whose value is an empty string, so optional
+ * fields left blank in the form are treated as absent by validation.
+ */
+function pruneEmptyStrings<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(entry => pruneEmptyStrings(entry)) as T
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, entry]) => !(typeof entry === "string" && !entry.trim()))
+        .map(([key, entry]) => [key, pruneEmptyStrings(entry)])
+    ) as T
+  }
+  return value
+}
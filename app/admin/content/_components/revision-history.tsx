@@ -0,0 +1,237 @@
+/**
+ * @description
+ * This client component shows a lesson's revision history in the content studio.
+ * Every save of the lesson or its exercises creates a revision; authors publish a
+ * revision to make it what learners see, compare revisions, and roll back.
+ *
+ * Key features:
+ * - Revision list with save dates and the currently published revision marked
+ * - Publish any revision, or unpublish the lesson
+ * - Field-level diff of a revision against the one before it
+ * - One-click rollback, which restores the working copy and publishes the revision
+ *
+ * @dependencies
+ * - @/components/ui/*: Shadcn Badge and Button
+ * - @/db/schema/lesson-revisions-schema: SelectLessonRevision type
+ * - @/types: ActionState and LessonRevisionChange types
+ *
+ * @notes
+ * - Persistence is delegated to the onPublish/onUnpublish/onRollback/onDiff props (server actions defined by the page)
+ * - Diffs are loaded on demand and cached per revision while the page is open
+ */
+
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { SelectLessonRevision } from "@/db/schema/lesson-revisions-schema"
+import { ActionState, LessonRevisionChange } from "@/types"
+import { useRouter } from "next/navigation"
+import { useState } from "react"
+
+interface RevisionDiff {
+  fromRevisionNumber: number | null
+  toRevisionNumber: number
+  changes: LessonRevisionChange[]
+}
+
+interface RevisionHistoryProps {
+  revisions: SelectLessonRevision[] // Newest first
+  publishedRevisionId: string | null // Revision learners are served, if any
+  isPublished: boolean // Whether the lesson is visible to learners
+  onPublish: (revisionId: string) => Promise<ActionState<SelectLessonRevision>>
+  onUnpublish: () => Promise<ActionState<void>>
+  onRollback: (revisionId: string) => Promise<ActionState<SelectLessonRevision>>
+  onDiff: (revisionId: string) => Promise<ActionState<RevisionDiff>>
+}
+
+/**
+ * RevisionHistory lists a lesson's revisions with publish, diff and rollback controls.
+ * @param {RevisionHistoryProps} props - The revisions and versioning handlers
+ * @returns {JSX.Element} The revision history panel
+ */
+export default function RevisionHistory({
+  revisions,
+  publishedRevisionId,
+  isPublished,
+  onPublish,
+  onUnpublish,
+  onRollback,
+  onDiff
+}: RevisionHistoryProps) {
+  const router = useRouter()
+  const [openDiffId, setOpenDiffId] = useState<string | null>(null)
+  const [diffs, setDiffs] = useState<Record<string, RevisionDiff>>({})
+  const [message, setMessage] = useState<string | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+
+  const latestRevisionId = revisions[0]?.id
+
+  const run = async (action: () => Promise<ActionState<unknown>>) => {
+    setIsBusy(true)
+    const result = await action()
+    setIsBusy(false)
+    setMessage(result.message)
+    if (result.isSuccess) {
+      router.refresh()
+    }
+  }
+
+  const toggleDiff = async (revisionId: string) => {
+    if (openDiffId === revisionId) {
+      setOpenDiffId(null)
+      return
+    }
+    setOpenDiffId(revisionId)
+    if (diffs[revisionId]) return
+
+    const result = await onDiff(revisionId)
+    if (result.isSuccess) {
+      setDiffs(current => ({ ...current, [revisionId]: result.data }))
+    } else {
+      setMessage(result.message)
+    }
+  }
+
+  const handleRollback = (revision: SelectLessonRevision) => {
+    if (
+      !window.confirm(
+        `Restore revision ${revision.revisionNumber} and publish it? Later edits stay in the history.`
+      )
+    ) {
+      return
+    }
+    void run(() => onRollback(revision.id))
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-semibold">Revisions</h2>
+        {isPublished && (
+          <Button
+            variant="outline"
+            disabled={isBusy}
+            onClick={() => run(onUnpublish)}
+          >
+            Unpublish
+          </Button>
+        )}
+      </div>
+
+      {message && (
+        <div className="text-muted-foreground text-sm">{message}</div>
+      )}
+
+      {revisions.length === 0 ? (
+        <div className="text-muted-foreground text-sm">
+          Save the lesson to create its first revision.
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {revisions.map(revision => {
+            const isLive = isPublished && revision.id === publishedRevisionId
+            const diff = diffs[revision.id]
+
+            return (
+              <li key={revision.id} className="rounded-lg border p-3">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex min-w-0 items-center gap-3">
+                    <span className="font-medium">
+                      Revision {revision.revisionNumber}
+                    </span>
+                    {isLive && <Badge>Published</Badge>}
+                    <span className="text-muted-foreground truncate text-sm">
+                      {new Date(revision.createdAt).toLocaleString()}
+                    </span>
+                  </div>
+
+                  <div className="flex gap-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => toggleDiff(revision.id)}
+                    >
+                      {openDiffId === revision.id ? "Hide changes" : "Changes"}
+                    </Button>
+                    {!isLive && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={isBusy}
+                        onClick={() => run(() => onPublish(revision.id))}
+                      >
+                        Publish
+                      </Button>
+                    )}
+                    {revision.id !== latestRevisionId && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={isBusy}
+                        onClick={() => handleRollback(revision)}
+                      >
+                        Roll back
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {openDiffId === revision.id && (
+                  <div className="mt-3 border-t pt-3 text-sm">
+                    {!diff ? (
+                      <div className="text-muted-foreground">
+                        Loading changes...
+                      </div>
+                    ) : diff.changes.length === 0 ? (
+                      <div className="text-muted-foreground">No changes.</div>
+                    ) : (
+                      <ul className="space-y-1">
+                        {diff.changes.map(change => (
+                          <li key={change.path} className="font-mono">
+                            <span
+                              className={
+                                change.kind === "added"
+                                  ? "text-green-600"
+                                  : change.kind === "removed"
+                                    ? "text-destructive"
+                                    : "text-amber-600"
+                              }
+                            >
+                              {change.kind === "added"
+                                ? "+"
+                                : change.kind === "removed"
+                                  ? "-"
+                                  : "~"}
+                            </span>{" "}
+                            {change.path}
+                            {change.kind === "changed" && (
+                              <span className="text-muted-foreground">
+                                {": "}
+                                {formatValue(change.before)} →{" "}
+                                {formatValue(change.after)}
+                              </span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Short, single-line rendering of a changed value.
+ */
+function formatValue(value: unknown): string {
+  const text = typeof value === "string" ? value : JSON.stringify(value)
+  if (text === undefined) return "(none)"
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text
+}
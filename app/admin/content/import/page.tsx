@@ -0,0 +1,62 @@
+/**
+ * @description
+ * This server-side page imports and exports the curriculum in bulk in the content studio.
+ *
+ * Key features:
+ * - Upload a bundle (JSON) and/or vocabulary CSV, validate with a dry run, then import
+ * - Download the current curriculum as a bundle and a vocabulary CSV
+ *
+ * @dependencies
+ * - @/actions/db/curriculum-bundle-actions: Import and export actions
+ * - ../_components/curriculum-transfer: Client-side upload, report and download UI
+ *
+ * @notes
+ * - Marked "use server" per server component rules
+ * - Access is restricted to admins by app/admin/layout.tsx
+ */
+
+"use server"
+
+import {
+  exportCurriculumBundleAction,
+  importCurriculumBundleAction
+} from "@/actions/db/curriculum-bundle-actions"
+import { ArrowLeft } from "lucide-react"
+import Link from "next/link"
+import CurriculumTransfer, {
+  CurriculumImportValues
+} from "../_components/curriculum-transfer"
+
+/**
+ * CurriculumImportPage component.
+ * @returns {JSX.Element} The import/export tools
+ */
+export default async function CurriculumImportPage() {
+  // Validate (dry run) or apply an import
+  const handleImport = async (values: CurriculumImportValues) => {
+    "use server"
+    return importCurriculumBundleAction(values)
+  }
+
+  // Export the current curriculum
+  const handleExport = async () => {
+    "use server"
+    return exportCurriculumBundleAction()
+  }
+
+  return (
+    <div>
+      <Link
+        href="/admin/content"
+        className="text-muted-foreground hover:text-foreground mb-4 inline-flex items-center gap-1 text-sm"
+      >
+        <ArrowLeft className="size-4" />
+        All lessons
+      </Link>
+
+      <h1 className="mb-6 text-3xl font-bold">Import &amp; export</h1>
+
+      <CurriculumTransfer onImport={handleImport} onExport={handleExport} />
+    </div>
+  )
+}
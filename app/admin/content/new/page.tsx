@@ -0,0 +1,58 @@
+/**
+ * @description
+ * This server-side page creates a new lesson in the content studio.
+ *
+ * Key features:
+ * - Empty lesson editor with live preview
+ * - New lessons start as drafts so they stay out of /learn until published
+ *
+ * @dependencies
+ * - @/actions/db/lessons-actions: createLessonAction for saving
+ * - @/actions/db/curriculum-actions: getUnitsAction for the unit select
+ * - ../_components/lesson-editor: Client-side lesson form
+ *
+ * @notes
+ * - Marked "use server" per server component rules
+ * - Exercises can be added once the lesson has been saved
+ */
+
+"use server"
+
+import { getUnitsAction } from "@/actions/db/curriculum-actions"
+import { createLessonAction } from "@/actions/db/lessons-actions"
+import { ArrowLeft } from "lucide-react"
+import Link from "next/link"
+import LessonEditor, { LessonFormValues } from "../_components/lesson-editor"
+
+/**
+ * NewLessonPage component.
+ * @returns {JSX.Element} The lesson editor for a new lesson
+ */
+export default async function NewLessonPage() {
+  const unitsResult = await getUnitsAction()
+
+  // Create the lesson from the editor's values
+  const handleSave = async (values: LessonFormValues) => {
+    "use server"
+    return createLessonAction(values)
+  }
+
+  return (
+    <div>
+      <Link
+        href="/admin/content"
+        className="text-muted-foreground hover:text-foreground mb-4 inline-flex items-center gap-1 text-sm"
+      >
+        <ArrowLeft className="size-4" />
+        All lessons
+      </Link>
+
+      <h1 className="mb-6 text-3xl font-bold">New lesson</h1>
+
+      <LessonEditor
+        units={unitsResult.isSuccess ? unitsResult.data : []}
+        onSave={handleSave}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,151 @@
+/**
+ * @description
+ * This server-side page lists every lesson, drafts included, for content authors.
+ *
+ * Key features:
+ * - Table of lessons with level, unit, position and draft/published state
+ * - Links to the lesson editor, to create a new lesson and to bulk import/export
+ * - Suspense: Handles the loading state while lessons are fetched
+ *
+ * @dependencies
+ * - @/actions/db/lessons-actions: getAdminLessonsAction for all lessons
+ * - @/actions/db/curriculum-actions: getUnitsAction for unit titles
+ * - @/components/ui/*: Shadcn Badge, Button and Table
+ *
+ * @notes
+ * - Marked "use server" per server component rules
+ * - Access is restricted to admins by app/admin/layout.tsx
+ */
+
+"use server"
+
+import { getUnitsAction } from "@/actions/db/curriculum-actions"
+import { getAdminLessonsAction } from "@/actions/db/lessons-actions"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table"
+import { FileUp, Plus } from "lucide-react"
+import Link from "next/link"
+import { Suspense } from "react"
+
+/**
+ * AdminContentPage component.
+ * @returns {JSX.Element} The lesson list for authors
+ */
+export default async function AdminContentPage() {
+  return (
+    <div>
+      <div className="mb-6 flex items-center justify-between">
+        <h1 className="text-3xl font-bold">Lessons</h1>
+
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/admin/content/import">
+              <FileUp className="mr-2 size-4" />
+              Import &amp; export
+            </Link>
+          </Button>
+
+          <Button asChild>
+            <Link href="/admin/content/new">
+              <Plus className="mr-2 size-4" />
+              New lesson
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      <Suspense fallback={<div>Loading lessons...</div>}>
+        <AdminLessonsFetcher />
+      </Suspense>
+    </div>
+  )
+}
+
+/**
+ * AdminLessonsFetcher loads all lessons and units and renders the table.
+ */
+async function AdminLessonsFetcher() {
+  const [lessonsResult, unitsResult] = await Promise.all([
+    getAdminLessonsAction(),
+    getUnitsAction()
+  ])
+
+  if (!lessonsResult.isSuccess) {
+    return (
+      <div className="text-muted-foreground p-4 text-center">
+        {lessonsResult.message}
+      </div>
+    )
+  }
+
+  const units = unitsResult.isSuccess ? unitsResult.data : []
+  const lessons = lessonsResult.data
+
+  if (lessons.length === 0) {
+    return (
+      <div className="text-muted-foreground p-4 text-center">
+        No lessons yet. Create the first one.
+      </div>
+    )
+  }
+
+  return (
+    <div className="rounded-lg border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Title</TableHead>
+            <TableHead>Level</TableHead>
+            <TableHead>Unit</TableHead>
+            <TableHead>Position</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Updated</TableHead>
+          </TableRow>
+        </TableHeader>
+
+        <TableBody>
+          {lessons.map(lesson => (
+            <TableRow key={lesson.id}>
+              <TableCell>
+                <Link
+                  href={`/admin/content/${lesson.id}`}
+                  className="font-medium hover:underline"
+                >
+                  {lesson.title}
+                </Link>
+              </TableCell>
+              <TableCell className="capitalize">{lesson.level}</TableCell>
+              <TableCell>
+                {units.find(unit => unit.id === lesson.unitId)?.title ?? "—"}
+              </TableCell>
+              <TableCell>{lesson.position}</TableCell>
+              <TableCell>
+                <Badge
+                  variant={
+                    lesson.publishStatus === "published"
+                      ? "default"
+                      : "secondary"
+                  }
+                  className="capitalize"
+                >
+                  {lesson.publishStatus}
+                </Badge>
+              </TableCell>
+              <TableCell className="text-muted-foreground text-sm">
+                {lesson.updatedAt.toLocaleDateString()}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
@@ -0,0 +1,70 @@
+/**
+ * @description
+ * This file defines the server-side layout for the /admin routes in the Learn Kannada app.
+ * It restricts the authoring area to admins and provides a simple header for navigation.
+ *
+ * Key features:
+ * - Admin gate: Non-admins get a 404 so the area is not discoverable
+ * - Header navigation back to the lesson list and to the learner view
+ *
+ * @dependencies
+ * - @/lib/auth/admin: getAdminUserId for the role check
+ * - lucide-react: Icons for the header
+ * - next/link: Navigation links
+ * - next/navigation: notFound for non-admins
+ *
+ * @notes
+ * - Marked "use server" per server component rules
+ * - Sign-in is enforced by middleware; this layout only checks the role
+ * - Every admin action re-checks the role, so the gate is not the only protection
+ */
+
+"use server"
+
+import { getAdminUserId } from "@/lib/auth/admin"
+import { BookOpen, PenSquare } from "lucide-react"
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { ReactNode } from "react"
+
+interface AdminLayoutProps {
+  children: ReactNode
+}
+
+/**
+ * The server-side layout component for /admin routes.
+ * @param {AdminLayoutProps} props - Component props
+ * @returns {JSX.Element} The admin header and page content
+ */
+export default async function AdminLayout({ children }: AdminLayoutProps) {
+  const adminUserId = await getAdminUserId()
+  if (!adminUserId) {
+    notFound()
+  }
+
+  return (
+    <div className="bg-background min-h-screen">
+      <header className="bg-card border-b">
+        <div className="container mx-auto flex items-center justify-between p-4">
+          <Link
+            href="/admin/content"
+            className="flex items-center gap-2 text-lg font-semibold"
+          >
+            <PenSquare className="size-5" />
+            Content Studio
+          </Link>
+
+          <Link
+            href="/learn/beginner"
+            className="text-muted-foreground hover:text-foreground flex items-center gap-1 text-sm"
+          >
+            <BookOpen className="size-4" />
+            Learner view
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto p-6">{children}</main>
+    </div>
+  )
+}
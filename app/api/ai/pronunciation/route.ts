@@ -0,0 +1,104 @@
+/**
+ * @description
+ * This file defines the streaming endpoint for AI pronunciation feedback in the Learn Kannada app.
+ * The learner's speech transcript is compared to the expected phrase, and the feedback is
+ * streamed to the browser as it is generated.
+ *
+ * Key features:
+ * - Streams feedback text as delta events, ending with a done event carrying the full feedback
+ * - Cancellation: stops the model when the browser aborts the request
+ *
+ * @dependencies
+ * - @clerk/nextjs/server: Identifies the learner
+ * - next/server: Provides NextRequest and NextResponse for API handling
+ * - @/lib/ai/llm-provider: The configured language model provider
+ * - @/lib/ai/pronunciation-feedback: Pronunciation prompt
+ * - @/lib/ai/streaming: Stream encoding
+ * - @/types: AIStreamEvent type
+ *
+ * @notes
+ * - Expects a JSON body { transcript: string, expectedPhrase: string }
+ * - Returns 401 or 400 as JSON { error } before streaming starts; failures after that are error events
+ * - The non-streaming assessPronunciationAction uses the same prompt
+ */
+
+import { auth } from "@clerk/nextjs/server"
+import { NextRequest, NextResponse } from "next/server"
+import { getLLMProvider } from "@/lib/ai/llm-provider"
+import {
+  PRONUNCIATION_FEEDBACK_MAX_TOKENS,
+  buildPronunciationMessages
+} from "@/lib/ai/pronunciation-feedback"
+import { STREAM_CONTENT_TYPE, toEventStream } from "@/lib/ai/streaming"
+import { AIStreamEvent } from "@/types"
+
+/**
+ * Handles POST requests: streams feedback on a learner's pronunciation.
+ *
+ * @param request - The incoming Next.js request
+ * @returns Response - A stream of AIStreamEvent lines, or a JSON error
+ */
+export async function POST(request: NextRequest) {
+  const { userId } = await auth()
+  if (!userId) {
+    return NextResponse.json(
+      { error: "Unauthorized: Please sign in to get pronunciation feedback" },
+      { status: 401 }
+    )
+  }
+
+  const body = await request.json().catch(() => null)
+  const transcript =
+    typeof body?.transcript === "string" ? body.transcript.trim() : ""
+  const expectedPhrase =
+    typeof body?.expectedPhrase === "string" ? body.expectedPhrase.trim() : ""
+  if (!transcript || !expectedPhrase) {
+    return NextResponse.json(
+      { error: "Transcript or expected phrase cannot be empty" },
+      { status: 400 }
+    )
+  }
+
+  return new Response(
+    toEventStream(streamFeedback(request.signal, transcript, expectedPhrase)),
+    {
+      headers: {
+        "Content-Type": STREAM_CONTENT_TYPE,
+        "Cache-Control": "no-cache"
+      }
+    }
+  )
+}
+
+async function* streamFeedback(
+  signal: AbortSignal,
+  transcript: string,
+  expectedPhrase: string
+): AsyncGenerator<AIStreamEvent<string>> {
+  let feedback = ""
+
+  try {
+    const chunks = getLLMProvider().stream(
+      {
+        task: "pronunciation-feedback",
+        messages: buildPronunciationMessages(transcript, expectedPhrase),
+        maxTokens: PRONUNCIATION_FEEDBACK_MAX_TOKENS
+      },
+      signal
+    )
+
+    for await (const chunk of chunks) {
+      feedback += chunk
+      yield { type: "delta", text: chunk }
+    }
+
+    yield { type: "done", data: feedback || "No feedback provided." }
+  } catch (error) {
+    if (signal.aborted) return // The learner cancelled; nobody is listening
+    console.error("Error streaming pronunciation feedback:", error)
+    yield {
+      type: "error",
+      message: "Failed to assess pronunciation. Please try again."
+    }
+  }
+}
@@ -0,0 +1,382 @@
+/**
+ * @description
+ * This file defines the streaming endpoint of the AI Kannada tutor chat in the Learn Kannada app.
+ * The learner's message is answered in Kannada at their level; the reply is streamed to the
+ * browser as it is generated, then the exchange is saved with its translation and corrections.
+ * The same endpoint runs role-play scenarios, with the AI playing the scenario's character.
+ *
+ * Key features:
+ * - Streams the tutor's Kannada reply text as delta events while the model writes it
+ * - Saves the learner's message and the reply together, starting a conversation when none is given
+ * - Role-play: starts a session for the scenario and records the goals each message meets
+ * - Ends with a done event carrying the saved TutorExchange, or an error event
+ * - Cancellation: stops the model when the browser aborts the request
+ *
+ * @dependencies
+ * - @clerk/nextjs/server: Identifies the learner
+ * - next/server: Provides NextRequest and NextResponse for API handling
+ * - @/db/db: Drizzle ORM database instance
+ * - @/db/schema: Tutor conversations, tutor messages, role-play sessions, profiles and lessons tables
+ * - @/lib/ai/llm-provider: The configured language model provider
+ * - @/lib/ai/roleplay-chat: Character prompt, reply checking and goal tracking
+ * - @/lib/ai/streaming: Stream encoding and partial JSON reading
+ * - @/lib/ai/tutor-chat: Tutor prompt, reply checking and conversation titles
+ * - @/lib/roleplay/scenarios: The scenario library
+ * - @/types: Stream event, tutor and role-play types
+ * - drizzle-orm: For database operations
+ *
+ * @notes
+ * - Expects a JSON body { conversationId: string | null, content: string, scenarioId?: string };
+ *   scenarioId starts a role-play and is only read when there is no conversationId
+ * - Returns 401, 400 or 404 as JSON { error } before streaming starts; failures after that are error events
+ * - A new conversation takes the level of the learner's last lesson (beginner when there is none),
+ *   or the scenario's level, and keeps it, so the tutor does not change register mid-conversation
+ * - Nothing is saved unless the whole reply arrives: a failed, unreadable or cancelled reply saves nothing
+ * - A role-play that has been debriefed accepts no more messages
+ * - Learners can only continue their own conversations
+ */
+
+import { auth } from "@clerk/nextjs/server"
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/db/db"
+import { lessonsTable } from "@/db/schema/lessons-schema"
+import { profilesTable } from "@/db/schema/profiles-schema"
+import { roleplaySessionsTable } from "@/db/schema/roleplay-sessions-schema"
+import { tutorConversationsTable } from "@/db/schema/tutor-conversations-schema"
+import { tutorMessagesTable } from "@/db/schema/tutor-messages-schema"
+import { getLLMProvider } from "@/lib/ai/llm-provider"
+import {
+  RolePlayReply,
+  buildRolePlayMessages,
+  mergeAchievedGoals,
+  parseRolePlayReply
+} from "@/lib/ai/roleplay-chat"
+import {
+  STREAM_CONTENT_TYPE,
+  partialJsonString,
+  toEventStream
+} from "@/lib/ai/streaming"
+import {
+  TUTOR_HISTORY_LIMIT,
+  TUTOR_MESSAGE_MAX_LENGTH,
+  TutorReply,
+  buildTutorMessages,
+  conversationTitle,
+  parseTutorReply,
+  toTutorMessage
+} from "@/lib/ai/tutor-chat"
+import { getScenario } from "@/lib/roleplay/scenarios"
+import {
+  AIStreamEvent,
+  LLMRequest,
+  RolePlayScenario,
+  TutorConversationSummary,
+  TutorExchange,
+  TutorMessageRole
+} from "@/types"
+import { and, desc, eq } from "drizzle-orm"
+
+type Level = TutorConversationSummary["level"]
+
+// Everything needed to answer one learner message
+interface TutorTurn {
+  userId: string
+  conversationId: string | null // Null to start a conversation
+  level: Level
+  history: { role: TutorMessageRole; content: string }[]
+  message: string
+  rolePlay: { scenario: RolePlayScenario; achievedGoals: string[] } | null // Set in a role-play
+}
+
+/**
+ * Handles POST requests: sends a message to the tutor and streams the reply.
+ *
+ * @param request - The incoming Next.js request
+ * @returns Response - A stream of AIStreamEvent lines, or a JSON error
+ */
+export async function POST(request: NextRequest) {
+  const { userId } = await auth()
+  if (!userId) {
+    return NextResponse.json(
+      { error: "Unauthorized: Please sign in to chat with the tutor" },
+      { status: 401 }
+    )
+  }
+
+  const body = await request.json().catch(() => null)
+  const conversationId: string | null =
+    typeof body?.conversationId === "string" ? body.conversationId : null
+  const message = typeof body?.content === "string" ? body.content.trim() : ""
+  if (!message) {
+    return NextResponse.json(
+      { error: "Message cannot be empty" },
+      { status: 400 }
+    )
+  }
+  if (message.length > TUTOR_MESSAGE_MAX_LENGTH) {
+    return NextResponse.json(
+      {
+        error: `Messages can be at most ${TUTOR_MESSAGE_MAX_LENGTH} characters`
+      },
+      { status: 400 }
+    )
+  }
+
+  let turn: TutorTurn
+  try {
+    if (conversationId) {
+      const conversation = await findConversation(userId, conversationId)
+      if (!conversation) {
+        return NextResponse.json(
+          { error: "Conversation not found" },
+          { status: 404 }
+        )
+      }
+      const { rolePlayEnded, ...context } = conversation
+      if (rolePlayEnded) {
+        return NextResponse.json(
+          {
+            error:
+              "This role-play has ended. Start it again to keep practising."
+          },
+          { status: 400 }
+        )
+      }
+      turn = { userId, conversationId, message, ...context }
+    } else if (typeof body?.scenarioId === "string") {
+      const scenario = getScenario(body.scenarioId)
+      if (!scenario) {
+        return NextResponse.json(
+          { error: "Scenario not found" },
+          { status: 404 }
+        )
+      }
+      turn = {
+        userId,
+        conversationId,
+        level: scenario.level,
+        history: [],
+        message,
+        rolePlay: { scenario, achievedGoals: [] }
+      }
+    } else {
+      turn = {
+        userId,
+        conversationId,
+        level: await findLearnerLevel(userId),
+        history: [],
+        message,
+        rolePlay: null
+      }
+    }
+  } catch (error) {
+    console.error("Error loading tutor conversation:", error)
+    return NextResponse.json(
+      { error: "Failed to get a reply from the tutor. Please try again." },
+      { status: 500 }
+    )
+  }
+
+  return new Response(toEventStream(streamTutorReply(request.signal, turn)), {
+    headers: {
+      "Content-Type": STREAM_CONTENT_TYPE,
+      "Cache-Control": "no-cache"
+    }
+  })
+}
+
+// Streams the reply text, then saves the exchange
+async function* streamTutorReply(
+  signal: AbortSignal,
+  turn: TutorTurn
+): AsyncGenerator<AIStreamEvent<TutorExchange>> {
+  const sentAt = new Date()
+  const request: LLMRequest = turn.rolePlay
+    ? {
+        task: "roleplay-chat",
+        messages: buildRolePlayMessages(
+          turn.rolePlay.scenario,
+          turn.history,
+          turn.message
+        ),
+        maxTokens: 1000,
+        json: true
+      }
+    : {
+        task: "tutor-chat",
+        messages: buildTutorMessages(turn.level, turn.history, turn.message),
+        maxTokens: 1000,
+        json: true
+      }
+  let raw = ""
+  let shown = 0
+
+  try {
+    for await (const chunk of getLLMProvider().stream(request, signal)) {
+      raw += chunk
+      const reply = partialJsonString(raw, "reply") ?? ""
+      if (reply.length > shown) {
+        yield { type: "delta", text: reply.slice(shown) }
+        shown = reply.length
+      }
+    }
+
+    const reply = turn.rolePlay
+      ? parseRolePlayReply(raw, turn.message, turn.rolePlay.scenario)
+      : parseTutorReply(raw, turn.message)
+    if (!reply) {
+      yield {
+        type: "error",
+        message: "The tutor's reply could not be read. Please try again."
+      }
+      return
+    }
+
+    signal.throwIfAborted()
+    const exchange = await saveExchange(turn, reply, sentAt)
+    yield { type: "done", data: exchange }
+  } catch (error) {
+    if (signal.aborted) return // The learner cancelled; nobody is listening
+    console.error("Error streaming tutor reply:", error)
+    yield {
+      type: "error",
+      message: "Failed to get a reply from the tutor. Please try again."
+    }
+  }
+}
+
+// Saves the learner's message and the reply, starting the conversation (and role-play session) if needed
+async function saveExchange(
+  turn: TutorTurn,
+  reply: TutorReply | RolePlayReply,
+  sentAt: Date
+): Promise<TutorExchange> {
+  return db.transaction(async tx => {
+    const id =
+      turn.conversationId ??
+      (
+        await tx
+          .insert(tutorConversationsTable)
+          .values({
+            userId: turn.userId,
+            title:
+              turn.rolePlay?.scenario.title ?? conversationTitle(turn.message),
+            level: turn.level
+          })
+          .returning({ id: tutorConversationsTable.id })
+      )[0].id
+
+    // Explicit times keep the two messages in order within one transaction
+    const [userMessage, replyMessage] = await tx
+      .insert(tutorMessagesTable)
+      .values([
+        {
+          conversationId: id,
+          role: "user" as const,
+          content: turn.message,
+          corrections: reply.corrections,
+          createdAt: sentAt
+        },
+        {
+          conversationId: id,
+          role: "assistant" as const,
+          content: reply.reply,
+          translation: reply.translation || null,
+          createdAt: new Date(Math.max(Date.now(), sentAt.getTime() + 1))
+        }
+      ])
+      .returning()
+
+    if (turn.conversationId) {
+      await tx
+        .update(tutorConversationsTable)
+        .set({ updatedAt: new Date() })
+        .where(eq(tutorConversationsTable.id, turn.conversationId))
+    }
+
+    const exchange: TutorExchange = {
+      conversationId: id,
+      userMessage: toTutorMessage(userMessage),
+      reply: toTutorMessage(replyMessage)
+    }
+    if (!turn.rolePlay) return exchange
+
+    const achievedGoals = mergeAchievedGoals(
+      turn.rolePlay.scenario,
+      turn.rolePlay.achievedGoals,
+      "achievedGoals" in reply ? reply.achievedGoals : []
+    )
+    if (turn.conversationId) {
+      await tx
+        .update(roleplaySessionsTable)
+        .set({ achievedGoals })
+        .where(eq(roleplaySessionsTable.conversationId, turn.conversationId))
+    } else {
+      await tx.insert(roleplaySessionsTable).values({
+        userId: turn.userId,
+        conversationId: id,
+        scenarioId: turn.rolePlay.scenario.id,
+        achievedGoals
+      })
+    }
+
+    return { ...exchange, achievedGoals }
+  })
+}
+
+// The learner's conversation with its level, recent messages (oldest first) and role-play, if any
+async function findConversation(userId: string, conversationId: string) {
+  const [conversation] = await db
+    .select({
+      level: tutorConversationsTable.level,
+      scenarioId: roleplaySessionsTable.scenarioId,
+      achievedGoals: roleplaySessionsTable.achievedGoals,
+      completedAt: roleplaySessionsTable.completedAt
+    })
+    .from(tutorConversationsTable)
+    .leftJoin(
+      roleplaySessionsTable,
+      eq(roleplaySessionsTable.conversationId, tutorConversationsTable.id)
+    )
+    .where(
+      and(
+        eq(tutorConversationsTable.id, conversationId),
+        eq(tutorConversationsTable.userId, userId)
+      )
+    )
+    .limit(1)
+  if (!conversation) return null
+
+  const history = await db
+    .select({
+      role: tutorMessagesTable.role,
+      content: tutorMessagesTable.content
+    })
+    .from(tutorMessagesTable)
+    .where(eq(tutorMessagesTable.conversationId, conversationId))
+    .orderBy(desc(tutorMessagesTable.createdAt))
+    .limit(TUTOR_HISTORY_LIMIT)
+
+  const scenario = conversation.scenarioId
+    ? getScenario(conversation.scenarioId)
+    : null
+  return {
+    level: conversation.level,
+    history: history.reverse(),
+    rolePlay: scenario
+      ? { scenario, achievedGoals: conversation.achievedGoals ?? [] }
+      : null,
+    rolePlayEnded: conversation.completedAt !== null
+  }
+}
+
+// Level of the learner's last lesson, or beginner
+async function findLearnerLevel(userId: string): Promise<Level> {
+  const [lastLesson] = await db
+    .select({ level: lessonsTable.level })
+    .from(profilesTable)
+    .innerJoin(lessonsTable, eq(profilesTable.lastLessonId, lessonsTable.id))
+    .where(eq(profilesTable.userId, userId))
+    .limit(1)
+  return lastLesson?.level ?? "beginner"
+}
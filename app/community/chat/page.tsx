@@ -8,6 +8,7 @@
  * - Real-time message updates using Supabase subscriptions
  * - Displays a scrollable list of chat messages
  * - Allows users to send messages via sendMessageAction
+ * - Kannada in messages follows the learner's script display preference, with a switcher beside the title
  * - Clean, responsive UI with Tailwind CSS and Shadcn components
  * - Integrates Clerk authentication for user identification
  *
@@ -15,6 +16,8 @@
  * - @clerk/nextjs: For Clerk auth hooks (useUser)
  * - @supabase/supabase-js: For real-time Supabase client
  * - @/actions/db/chats-actions: Server action to send messages
+ * - @/components/learn/kannada-text: Script display for message text
+ * - @/components/utilities/script-display-switcher: Script display preference control
  * - @/components/ui/input: Shadcn Input for message input
  * - @/components/ui/button: Shadcn Button for sending messages
  * - @/db/schema/chat-messages-schema: Types for chat messages
@@ -34,8 +37,10 @@
 import { useUser } from "@clerk/nextjs"
 import { createClient } from "@supabase/supabase-js"
 import { sendMessageAction } from "@/actions/db/chats-actions"
+import KannadaText from "@/components/learn/kannada-text"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
+import { ScriptDisplaySwitcher } from "@/components/utilities/script-display-switcher"
 import { SelectChatMessage } from "@/db/schema/chat-messages-schema"
 import { Send } from "lucide-react"
 import { FormEvent, useEffect, useRef, useState } from "react"
@@ -141,9 +146,10 @@ export default function ChatPage() {
 
   return (
     <div className="container mx-auto flex h-[calc(100vh-4rem)] flex-col p-6">
-      <h1 className="text-foreground mb-6 text-3xl font-bold">
-        Community Chat
-      </h1>
+      <div className="mb-6 flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-foreground text-3xl font-bold">Community Chat</h1>
+        <ScriptDisplaySwitcher />
+      </div>
 
       {/* Message List */}
       <div className="bg-card flex-1 overflow-y-auto rounded-lg p-4 shadow-sm">
@@ -162,7 +168,9 @@ export default function ChatPage() {
                     : "bg-muted text-muted-foreground"
                 }`}
               >
-                <p>{msg.content}</p>
+                <p>
+                  <KannadaText text={msg.content} />
+                </p>
                 <p className="mt-1 text-xs opacity-70">
                   {new Date(msg.createdAt).toLocaleTimeString()}
                 </p>
@@ -7,22 +7,28 @@
  * Key features:
  * - Fetches progress data server-side using a server action
  * - Displays XP with a progress bar, streak count, and badge list
+ * - "Review mistakes" link with a badge counting the review items due
  * - Responsive UI: Uses Tailwind CSS and Shadcn components for a clean design
  * - Loading State: Implements Suspense for asynchronous data fetching
  *
  * @dependencies
  * - @/actions/db/progress-actions: Provides getProgressByUserIdAction
+ * - @/actions/db/review-items-actions: Provides getReviewQueueCountsAction
+ * - @/components/ui/badge: Shadcn Badge for the due review count
+ * - @/components/ui/button: Shadcn Button for the review link
  * - @/components/ui/progress: Shadcn Progress bar for XP visualization
  * - @/db/schema/progress-schema: Imports SelectProgress for type safety
  * - @clerk/nextjs/server: Provides auth for user authentication
- * - lucide-react: Provides icons (Trophy, Flame)
+ * - lucide-react: Provides icons (Trophy, Flame, History)
+ * - next/link: Link to the review page
  * - react: Provides Suspense for async rendering
  *
  * @notes
  * - Marked "use server" per server component rules
  * - Requires Clerk authentication; redirects unauthenticated users
- * - Assumes progress records exist; displays fallback if none found
+ * - Shows the learner's totals record (the one without a lessonId); displays fallback if none found
  * - XP progress bar caps at 300 (Master badge threshold)
+ * - The review section is left out if its counts cannot be loaded
  */
 
 "use server"
@@ -30,9 +36,13 @@
 import { auth } from "@clerk/nextjs/server"
 import { Suspense } from "react"
 import { getProgressByUserIdAction } from "@/actions/db/progress-actions"
+import { getReviewQueueCountsAction } from "@/actions/db/review-items-actions"
 import { SelectProgress } from "@/db/schema/progress-schema"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
 import { Progress } from "@/components/ui/progress"
-import { Trophy, Flame } from "lucide-react"
+import { Trophy, Flame, History } from "lucide-react"
+import Link from "next/link"
 
 // Define props interface (though not directly used here due to server component)
 interface DashboardPageProps {}
@@ -62,19 +72,26 @@ export default async function DashboardPage({}: DashboardPageProps) {
  * @returns {JSX.Element} The rendered dashboard content
  */
 async function DashboardContentFetcher({ userId }: { userId: string }) {
-  const { isSuccess, data, message } = await getProgressByUserIdAction(userId)
+  const [{ isSuccess, data, message }, reviewCounts] = await Promise.all([
+    getProgressByUserIdAction(userId),
+    getReviewQueueCountsAction()
+  ])
 
-  if (!isSuccess || !data || data.length === 0) {
+  // XP, streak and badges are kept on the learner's record without a lesson
+  const progress: SelectProgress | undefined = data?.find(
+    record => record.lessonId === null
+  )
+
+  if (!isSuccess || !progress) {
     return (
       <div className="text-muted-foreground p-4 text-center">
-        {message ||
-          "No progress data available yet. Start learning to track your progress!"}
+        {isSuccess
+          ? "No progress data available yet. Start learning to track your progress!"
+          : message}
       </div>
     )
   }
 
-  // Use the latest progress record (assuming one per user for simplicity)
-  const progress: SelectProgress = data[0]
   const xp = progress.xp || 0
   const streak = progress.streak || 0
   const badges = (progress.badges as string[]) || []
@@ -103,6 +120,28 @@ async function DashboardContentFetcher({ userId }: { userId: string }) {
         </span>
       </div>
 
+      {/* Review Section */}
+      {reviewCounts.isSuccess && reviewCounts.data.total > 0 && (
+        <div className="mb-8 flex items-center justify-between gap-4 rounded-md border p-4">
+          <div>
+            <h2 className="text-lg font-semibold">Review mistakes</h2>
+            <p className="text-muted-foreground text-sm">
+              {reviewCounts.data.total} item
+              {reviewCounts.data.total !== 1 ? "s" : ""} in your review queue
+            </p>
+          </div>
+          <Button asChild variant="outline">
+            <Link href="/review">
+              <History className="mr-2 size-4" />
+              Review
+              {reviewCounts.data.due > 0 && (
+                <Badge className="ml-2">{reviewCounts.data.due}</Badge>
+              )}
+            </Link>
+          </Button>
+        </div>
+      )}
+
       {/* Badges Section */}
       <div>
         <h2 className="mb-2 text-lg font-semibold">Badges</h2>
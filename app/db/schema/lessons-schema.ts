@@ -1,8 +0,0 @@
-export interface SelectLesson {
-  id: string
-  level: "beginner" | "intermediate" | "advanced"
-  title: string
-  content: unknown // Adjust this type as necessary
-  createdAt: Date
-  updatedAt: Date
-}
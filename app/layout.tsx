@@ -10,6 +10,7 @@ import { Toaster } from "@/components/ui/toaster"
 import { Providers } from "@/components/utilities/providers"
 import { TailwindIndicator } from "@/components/utilities/tailwind-indicator"
 import { cn } from "@/lib/utils"
+import { ScriptDisplay } from "@/types"
 import { ClerkProvider } from "@clerk/nextjs"
 import { auth } from "@clerk/nextjs/server"
 import type { Metadata } from "next"
@@ -29,12 +30,14 @@ export default async function RootLayout({
   children: React.ReactNode
 }) {
   const { userId } = await auth()
+  let scriptDisplay: ScriptDisplay | undefined
 
   if (userId) {
     const profileRes = await getProfileByUserIdAction(userId)
     if (!profileRes.isSuccess) {
-      await createProfileAction({ userId })
+      await createProfileAction()
     }
+    scriptDisplay = profileRes.data?.scriptDisplay
   }
 
   return (
@@ -51,6 +54,8 @@ export default async function RootLayout({
             defaultTheme="light"
             enableSystem={false}
             disableTransitionOnChange
+            scriptDisplay={scriptDisplay}
+            isSignedIn={!!userId}
           >
             {children}
 
@@ -0,0 +1,191 @@
+/**
+ * @description
+ * This file defines the lesson detail page for the Learn Kannada app.
+ * It fetches a single lesson server-side and renders its structured content,
+ * with an entry point that starts the lesson's exercises.
+ *
+ * Key features:
+ * - Dynamic routing: /learn/[level]/[lessonId]
+ * - Structured content: grammar, vocabulary with audio, examples, dialogues, culture notes
+ * - Practice entry point: links to the lesson's exercises when any exist
+ * - Offline support: Includes OfflineButton for downloading the lesson
+ * - Curriculum: Locked lessons list the lessons to finish first; opening a lesson
+ *   updates the learner's "continue where you left off" pointer
+ *
+ * @dependencies
+ * - @/actions/db/curriculum-actions: Lesson access check and last-lesson pointer
+ * - @/actions/db/lessons-actions: getLessonByIdAction for lesson data
+ * - @/actions/db/exercises-actions: getPublishedExercisesAction for the exercise count
+ * - @/components/learn/lesson-content: Renders the lesson document
+ * - @/components/learn/offline-button: Offline lesson download
+ * - @/components/ui/button: Shadcn Button for the practice link
+ *
+ * @notes
+ * - Marked "use server" per frontend rules for server components
+ * - Returns 404 for unknown lessons or when the level in the URL does not match the lesson
+ */
+
+"use server"
+
+import {
+  getLessonAccessAction,
+  setLastLessonAction
+} from "@/actions/db/curriculum-actions"
+import { getPublishedExercisesAction } from "@/actions/db/exercises-actions"
+import { getLessonByIdAction } from "@/actions/db/lessons-actions"
+import LessonContentView from "@/components/learn/lesson-content"
+import OfflineButton from "@/components/learn/offline-button"
+import { Button } from "@/components/ui/button"
+import { ArrowLeft, Dumbbell, Lock } from "lucide-react"
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { Suspense } from "react"
+
+interface LessonPageProps {
+  params: Promise<{ level: string; lessonId: string }> // Async params per Next.js App Router
+}
+
+/**
+ * LessonPage component.
+ * @param {LessonPageProps} props - The route parameters
+ * @returns {JSX.Element} The rendered lesson
+ */
+export default async function LessonPage({ params }: LessonPageProps) {
+  const { level, lessonId } = await params
+
+  return (
+    <Suspense fallback={<LessonSkeleton />}>
+      <LessonFetcher level={level} lessonId={lessonId} />
+    </Suspense>
+  )
+}
+
+/**
+ * LessonFetcher loads the lesson and its exercises and renders the page body.
+ */
+async function LessonFetcher({
+  level,
+  lessonId
+}: {
+  level: string
+  lessonId: string
+}) {
+  const [lessonResult, exercisesResult, accessResult] = await Promise.all([
+    getLessonByIdAction(lessonId),
+    getPublishedExercisesAction(lessonId),
+    getLessonAccessAction(lessonId)
+  ])
+
+  if (!lessonResult.isSuccess || lessonResult.data.level !== level) {
+    notFound()
+  }
+
+  const lesson = lessonResult.data
+  const exerciseCount = exercisesResult.isSuccess
+    ? exercisesResult.data.length
+    : 0
+
+  const backLink = (
+    <Link
+      href={`/learn/${level}`}
+      className="text-muted-foreground hover:text-foreground mb-4 inline-flex items-center gap-1 text-sm"
+    >
+      <ArrowLeft className="size-4" />
+      Back to {level} lessons
+    </Link>
+  )
+
+  if (accessResult.isSuccess && accessResult.data.status === "locked") {
+    const { blockedBy } = accessResult.data
+
+    return (
+      <div className="container mx-auto max-w-4xl py-8">
+        {backLink}
+
+        <div className="bg-card rounded-lg border p-6">
+          <div className="flex items-center gap-2 text-xl font-semibold">
+            <Lock className="size-5" />
+            {lesson.title} is locked
+          </div>
+
+          <div className="text-muted-foreground mt-2">
+            Complete {blockedBy.length === 1 ? "this lesson" : "these lessons"}{" "}
+            first:
+          </div>
+
+          <ul className="mt-4 space-y-2">
+            {blockedBy.map(blocker => (
+              <li key={blocker.id}>
+                <Link
+                  href={`/learn/${blocker.level}/${blocker.id}`}
+                  className="text-primary hover:underline"
+                >
+                  {blocker.title}
+                </Link>
+                <span className="text-muted-foreground ml-2 text-sm">
+                  {blocker.completion}% complete
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    )
+  }
+
+  // Remember this lesson for "continue where you left off"
+  await setLastLessonAction(lesson.id)
+
+  return (
+    <div className="container mx-auto max-w-4xl py-8">
+      {backLink}
+
+      <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">{lesson.title}</h1>
+          <div className="text-muted-foreground mt-1 text-sm capitalize">
+            {lesson.level}
+          </div>
+        </div>
+
+        <OfflineButton lessonId={lesson.id} />
+      </div>
+
+      <LessonContentView content={lesson.content} />
+
+      <div className="bg-card mt-12 flex flex-wrap items-center justify-between gap-4 rounded-lg border p-6">
+        <div>
+          <div className="text-lg font-semibold">Practice this lesson</div>
+          <div className="text-muted-foreground text-sm">
+            {exerciseCount > 0
+              ? `${exerciseCount} exercise${exerciseCount !== 1 ? "s" : ""} to reinforce what you learned.`
+              : "No exercises are available for this lesson yet."}
+          </div>
+        </div>
+
+        {exerciseCount > 0 && (
+          <Button asChild>
+            <Link href={`/learn/${level}/${lesson.id}/practice`}>
+              <Dumbbell className="mr-2 size-4" />
+              Start practice
+            </Link>
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * LessonSkeleton displays a placeholder while the lesson loads.
+ */
+function LessonSkeleton() {
+  return (
+    <div className="container mx-auto max-w-4xl space-y-6 py-8">
+      <div className="bg-muted h-10 w-2/3 animate-pulse rounded-lg" />
+      {[...Array(3)].map((_, index) => (
+        <div key={index} className="bg-muted h-32 animate-pulse rounded-lg" />
+      ))}
+    </div>
+  )
+}
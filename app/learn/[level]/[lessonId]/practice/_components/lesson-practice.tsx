@@ -0,0 +1,156 @@
+/**
+ * @description
+ * This client component steps through a lesson's exercises one at a time.
+ * It renders the matching exercise component, shows feedback after each submission
+ * and a short summary once every exercise has been attempted.
+ *
+ * Key features:
+ * - Progress bar across the lesson's exercises
+ * - Per-exercise feedback from the submission handler, with the XP, streak and badges it earned
+ * - Running XP total for the session on the completion summary
+ * - Times each exercise from when it is shown, for the attempt history
+ * - Completion summary with a link back to the lesson
+ * - Asks the server to record lesson completion after each answer so the catalogue can show it
+ *
+ * @dependencies
+ * - @/components/practice/exercise-renderer: Renders the component for each exercise type
+ * - @/components/practice/submission-feedback: Feedback and reward for each submission
+ * - @/components/ui/button: Shadcn Button for navigation
+ * - @/components/ui/progress: Shadcn Progress bar
+ * - @/types: ActionState, ExerciseAttemptDetails, ExerciseResponse, ExerciseSubmission and LearnerExercise types
+ *
+ * @notes
+ * - Submission is delegated to the onSubmit prop (a server action defined by the page)
+ * - Speaking exercises give their own pronunciation feedback and are not counted in the score
+ */
+
+"use client"
+
+import ExerciseRenderer from "@/components/practice/exercise-renderer"
+import SubmissionFeedback from "@/components/practice/submission-feedback"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import {
+  ActionState,
+  ExerciseAttemptDetails,
+  ExerciseResponse,
+  ExerciseSubmission,
+  LearnerExercise
+} from "@/types"
+import { ArrowRight, CheckCircle2 } from "lucide-react"
+import Link from "next/link"
+import { useEffect, useRef, useState } from "react"
+
+interface LessonPracticeProps {
+  lessonTitle: string
+  lessonHref: string // Link back to the lesson page
+  exercises: LearnerExercise[] // Exercises without their answer keys
+  onSubmit: (
+    exerciseId: string,
+    response: ExerciseResponse,
+    details: ExerciseAttemptDetails
+  ) => Promise<ActionState<ExerciseSubmission>>
+  onProgress: () => Promise<unknown> // Records lesson completion from the learner's answers
+}
+
+/**
+ * LessonPractice runs a lesson's exercises in order.
+ * @param {LessonPracticeProps} props - Exercises and submission handler
+ * @returns {JSX.Element} The current exercise, feedback or summary
+ */
+export default function LessonPractice({
+  lessonTitle,
+  lessonHref,
+  exercises,
+  onSubmit,
+  onProgress
+}: LessonPracticeProps) {
+  const [index, setIndex] = useState(0)
+  const [result, setResult] = useState<ActionState<ExerciseSubmission> | null>(
+    null
+  )
+  const [scores, setScores] = useState<number[]>([])
+  const [xpEarned, setXpEarned] = useState(0)
+
+  const shownAt = useRef(Date.now())
+
+  const isFinished = index >= exercises.length
+  const exercise = exercises[index]
+
+  // Time each exercise from when it is shown
+  useEffect(() => {
+    shownAt.current = Date.now()
+  }, [index])
+
+  // Submit the current exercise and record its score
+  const handleSubmit = async (response: ExerciseResponse) => {
+    const submission = await onSubmit(exercise.id, response, {
+      timeTakenMs: Date.now() - shownAt.current
+    })
+    setResult(submission)
+    if (submission.isSuccess) {
+      setScores(prev => [...prev, submission.data.score])
+      setXpEarned(prev => prev + submission.data.reward.xpEarned)
+      onProgress().catch(error =>
+        console.error("Failed to record lesson progress:", error)
+      )
+    }
+  }
+
+  // Move to the next exercise
+  const handleNext = () => {
+    setResult(null)
+    setIndex(index + 1)
+  }
+
+  if (isFinished) {
+    const correct = scores.filter(score => score >= 1).length
+
+    return (
+      <div className="container mx-auto max-w-lg space-y-6 py-8 text-center">
+        <CheckCircle2 className="mx-auto size-12 text-green-600" />
+
+        <div>
+          <div className="text-2xl font-bold">Lesson practice complete</div>
+          <div className="text-muted-foreground mt-1">
+            You got {correct} of {exercises.length} right in {lessonTitle}.
+          </div>
+          {xpEarned > 0 && (
+            <div className="mt-1 font-semibold">+{xpEarned} XP</div>
+          )}
+        </div>
+
+        <Button asChild>
+          <Link href={lessonHref}>Back to lesson</Link>
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto max-w-lg space-y-6 py-8">
+      <div>
+        <div className="text-muted-foreground mb-2 flex justify-between text-sm">
+          <span>{lessonTitle}</span>
+          <span>
+            {index + 1} / {exercises.length}
+          </span>
+        </div>
+        <Progress value={(index / exercises.length) * 100} />
+      </div>
+
+      <div key={exercise.id}>
+        <ExerciseRenderer exercise={exercise} onSubmit={handleSubmit} />
+      </div>
+
+      {result && <SubmissionFeedback result={result} />}
+
+      {(result || exercise.type === "speaking") && (
+        <Button onClick={handleNext} className="w-full">
+          {index + 1 < exercises.length ? "Next exercise" : "Finish"}
+          <ArrowRight className="ml-2 size-4" />
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,125 @@
+/**
+ * @description
+ * This server-side page runs the exercises for a single lesson in the Learn Kannada app.
+ * It fetches the lesson's exercises and hands them to a client component that steps
+ * through them one at a time.
+ *
+ * Key features:
+ * - Dynamic routing: /learn/[level]/[lessonId]/practice
+ * - Server-side data fetching via getPublishedExercisesAction, which strips answer keys before they reach the client
+ * - Submission through submitExerciseAction with per-exercise feedback; each attempt is recorded with its timing
+ * - Grading is tied to the published lesson revision the learner was served; completion is worked out
+ *   on the server from the attempts recorded for the published revision
+ *
+ * @dependencies
+ * - @/actions/db/curriculum-actions: getLessonAccessAction for the unlock check
+ * - @/actions/db/exercises-actions: Exercise retrieval and submission
+ * - @/actions/db/lessons-actions: getLessonByIdAction for the lesson title
+ * - @/actions/db/progress-actions: recordLessonCompletionAction for lesson completion
+ * - ./_components/lesson-practice: Client-side exercise stepper
+ *
+ * @notes
+ * - Marked "use server" per server component rules
+ * - Returns 404 for unknown lessons or level mismatches
+ * - Exercises whose content does not fit their type are left out
+ * - Locked lessons redirect back to the lesson page, which explains what to finish first
+ */
+
+"use server"
+
+import { getLessonAccessAction } from "@/actions/db/curriculum-actions"
+import {
+  getPublishedExercisesAction,
+  submitExerciseAction
+} from "@/actions/db/exercises-actions"
+import { getLessonByIdAction } from "@/actions/db/lessons-actions"
+import { recordLessonCompletionAction } from "@/actions/db/progress-actions"
+import { ExerciseAttemptDetails, ExerciseResponse } from "@/types"
+import { notFound, redirect } from "next/navigation"
+import { Suspense } from "react"
+import LessonPractice from "./_components/lesson-practice"
+
+interface LessonPracticePageProps {
+  params: Promise<{ level: string; lessonId: string }>
+}
+
+/**
+ * LessonPracticePage component.
+ * @param {LessonPracticePageProps} props - The route parameters
+ * @returns {JSX.Element} The lesson's exercise runner
+ */
+export default async function LessonPracticePage({
+  params
+}: LessonPracticePageProps) {
+  const { level, lessonId } = await params
+
+  return (
+    <Suspense fallback={<div>Loading exercises...</div>}>
+      <LessonPracticeFetcher level={level} lessonId={lessonId} />
+    </Suspense>
+  )
+}
+
+/**
+ * LessonPracticeFetcher loads the lesson's exercises and renders the runner.
+ */
+async function LessonPracticeFetcher({
+  level,
+  lessonId
+}: {
+  level: string
+  lessonId: string
+}) {
+  const [lessonResult, exercisesResult, accessResult] = await Promise.all([
+    getLessonByIdAction(lessonId),
+    getPublishedExercisesAction(lessonId),
+    getLessonAccessAction(lessonId)
+  ])
+
+  if (!lessonResult.isSuccess || lessonResult.data.level !== level) {
+    notFound()
+  }
+
+  if (accessResult.isSuccess && accessResult.data.status === "locked") {
+    redirect(`/learn/${level}/${lessonId}`)
+  }
+
+  if (!exercisesResult.isSuccess || exercisesResult.data.length === 0) {
+    return (
+      <div className="text-muted-foreground p-4 text-center">
+        {exercisesResult.isSuccess
+          ? "No exercises are available for this lesson yet."
+          : exercisesResult.message}
+      </div>
+    )
+  }
+
+  // Revision the exercises were served from; edits published mid-session do not change grading
+  const revisionId = lessonResult.data.publishedRevisionId
+
+  // Submit a response for one of this lesson's exercises
+  const handleSubmit = async (
+    exerciseId: string,
+    response: ExerciseResponse,
+    details: ExerciseAttemptDetails
+  ) => {
+    "use server"
+    return submitExerciseAction(exerciseId, response, revisionId, details)
+  }
+
+  // Record how many of the lesson's exercises the learner has answered
+  const handleProgress = async () => {
+    "use server"
+    return recordLessonCompletionAction(lessonId)
+  }
+
+  return (
+    <LessonPractice
+      lessonTitle={lessonResult.data.title}
+      lessonHref={`/learn/${level}/${lessonId}`}
+      exercises={exercisesResult.data}
+      onSubmit={handleSubmit}
+      onProgress={handleProgress}
+    />
+  )
+}
@@ -6,13 +6,17 @@
  *
  * Key features:
  * - Dynamic routing: Displays lessons based on the level parameter (beginner, intermediate, advanced)
- * - Server-side data fetching: Retrieves lessons using getLessonAction
+ * - Server-side data fetching: Retrieves a page of lessons using getLessonsByLevelAction
+ * - Pagination: ?page= search param with previous/next controls
+ * - Progress: Each LessonCard shows the learner's completion and lock status
+ * - Curriculum order: Lessons follow their unit and position; locked lessons cannot be opened
  * - Suspense: Handles loading states for asynchronous data
  * - Accessibility: Integrates LessonCard with text-to-speech from Step 31
  * - Offline support: Includes OfflineButton for downloading lessons
  *
  * @dependencies
- * - @/actions/db/lessons-actions: For fetching lesson data
+ * - @/actions/db/lessons-actions: For fetching the lesson catalogue
+ * - @/components/ui/pagination: Shadcn pagination controls
  * - @/components/learn/lesson-card: Default export for rendering lesson cards
  * - @/components/learn/offline-button: For offline lesson downloads
  * - @/db/schema/lessons-schema: For lesson types and level enum
@@ -22,24 +26,34 @@
  * - Marked as "use server" per frontend rules for server components
  * - Handles invalid levels with a 404 response
  * - Uses Tailwind for minimalistic, responsive styling
- * - Assumes lessons are fetched by ID, but filters by level client-side if needed
+ * - Out-of-range pages render an empty state with a link back to the first page
  */
 
 "use server"
 
-import { getLessonAction } from "@/actions/db/lessons-actions"
+import { getLessonsByLevelAction } from "@/actions/db/lessons-actions"
 import LessonCard from "@/components/learn/lesson-card" // Corrected to default import
 import OfflineButton from "@/components/learn/offline-button"
+import { Button } from "@/components/ui/button"
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious
+} from "@/components/ui/pagination"
 import { levelEnum, SelectLesson } from "@/db/schema/lessons-schema"
 import { Suspense } from "react"
+import Link from "next/link"
 import { notFound } from "next/navigation"
 
 /**
  * Props for the LearnPage component.
- * Defines the dynamic route parameters.
+ * Defines the dynamic route parameters and search params.
  */
 interface LearnPageProps {
   params: Promise<{ level: string }> // Async params per Next.js App Router
+  searchParams: Promise<{ page?: string }> // 1-based page number
 }
 
 /**
@@ -49,18 +63,25 @@ interface LearnPageProps {
  * @param {LearnPageProps} props - The route parameters including the level
  * @returns {JSX.Element} The rendered page with lesson cards
  */
-export default async function LearnPage({ params }: LearnPageProps) {
+export default async function LearnPage({
+  params,
+  searchParams
+}: LearnPageProps) {
   const { level } = await params // Await async params
+  const { page } = await searchParams
 
   // Validate the level against the enum
   if (!levelEnum.enumValues.includes(level as any)) {
     notFound() // Return 404 for invalid levels
   }
 
+  const pageNumber = Math.max(Number.parseInt(page ?? "1", 10) || 1, 1)
+
   return (
-    <Suspense fallback={<LoadingSkeleton />}>
+    <Suspense key={pageNumber} fallback={<LoadingSkeleton />}>
       <LessonsFetcher
-        level={level as "beginner" | "intermediate" | "advanced"}
+        level={level as SelectLesson["level"]}
+        page={pageNumber}
       />
     </Suspense>
   )
@@ -68,48 +89,95 @@ export default async function LearnPage({ params }: LearnPageProps) {
 
 /**
  * LessonsFetcher component.
- * Fetches lessons server-side and renders them as LessonCard components.
+ * Fetches one page of lessons server-side and renders them as LessonCard components.
  *
- * @param {Object} props - Props containing the level to fetch
- * @param {"beginner" | "intermediate" | "advanced"} props.level - The lesson level
+ * @param {Object} props - Props containing the level and page to fetch
+ * @param {SelectLesson["level"]} props.level - The lesson level
+ * @param {number} props.page - The 1-based page number
  * @returns {JSX.Element} The rendered lesson list
  */
 async function LessonsFetcher({
-  level
+  level,
+  page
 }: {
-  level: "beginner" | "intermediate" | "advanced"
+  level: SelectLesson["level"]
+  page: number
 }) {
-  // Fetch lessons (assuming getLessonAction can filter by level; adjust if needed)
-  const { isSuccess, data, message } = await getLessonAction(level)
+  const result = await getLessonsByLevelAction({ level, page })
+
+  if (!result.isSuccess) {
+    return (
+      <div className="container mx-auto py-8">
+        <p className="text-muted-foreground">{result.message}</p>
+      </div>
+    )
+  }
+
+  const { items: lessons, pageCount, total } = result.data
 
-  if (!isSuccess || !data || data.length === 0) {
+  if (lessons.length === 0) {
     return (
       <div className="container mx-auto py-8">
+        <h1 className="mb-6 text-3xl font-bold capitalize">{level} Lessons</h1>
         <p className="text-muted-foreground">
-          {message || "No lessons found for this level."}
+          {total === 0 ? (
+            "No lessons found for this level."
+          ) : (
+            <Link href={`/learn/${level}`} className="underline">
+              This page is empty. Go back to the first page.
+            </Link>
+          )}
         </p>
       </div>
     )
   }
 
-  // Filter lessons by level (if getLessonAction doesn’t already)
-  const lessons = data.filter((lesson: SelectLesson) => lesson.level === level)
-
   return (
     <div className="container mx-auto py-8">
       <h1 className="mb-6 text-3xl font-bold capitalize">{level} Lessons</h1>
 
       <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-        {lessons.map((lesson: SelectLesson) => (
+        {lessons.map(lesson => (
           <div key={lesson.id} className="flex flex-col">
             <LessonCard lesson={lesson} />
 
-            <div className="mt-2">
+            <div className="mt-2 flex items-center gap-2">
+              {lesson.status === "locked" ? (
+                <Button size="sm" disabled>
+                  Locked
+                </Button>
+              ) : (
+                <Button asChild size="sm">
+                  <Link href={`/learn/${level}/${lesson.id}`}>Open lesson</Link>
+                </Button>
+              )}
               <OfflineButton lessonId={lesson.id} />
             </div>
           </div>
         ))}
       </div>
+
+      {pageCount > 1 && (
+        <Pagination className="mt-8">
+          <PaginationContent>
+            {page > 1 && (
+              <PaginationItem>
+                <PaginationPrevious href={`/learn/${level}?page=${page - 1}`} />
+              </PaginationItem>
+            )}
+
+            <PaginationItem className="text-muted-foreground px-4 text-sm">
+              Page {page} of {pageCount}
+            </PaginationItem>
+
+            {page < pageCount && (
+              <PaginationItem>
+                <PaginationNext href={`/learn/${level}?page=${page + 1}`} />
+              </PaginationItem>
+            )}
+          </PaginationContent>
+        </Pagination>
+      )}
     </div>
   )
 }
@@ -2,29 +2,35 @@
  * @description
  * This file defines the server-side layout component for the /learn routes in the Learn Kannada app.
  * It provides a structured layout with a sidebar for navigation and a main content area for rendering
- * nested pages. The layout supports the learning modules feature by offering navigation to different
- * lesson levels and placeholders for progress indicators.
+ * nested pages. The sidebar outlines the curriculum (levels and their units) with the learner's progress
+ * and a "continue where you left off" link.
  *
  * Key features:
- * - Sidebar Navigation: Links to beginner, intermediate, and advanced lesson levels
- * - Progress Indicators: Placeholder section for future integration with user progress data
+ * - Continue Link: Resumes the last opened lesson, or the next available one
+ * - Sidebar Navigation: Links to beginner, intermediate, and advanced lesson levels with completion counts
+ * - Script Display: Lets the learner choose how Kannada text is shown across lessons and exercises
+ * - Curriculum Outline: Units per level with completed/total lessons
  * - Responsive Design: Mobile-friendly layout using Tailwind CSS
  *
  * @dependencies
- * - lucide-react: Provides icons for navigation (BookOpen, GraduationCap)
+ * - @/actions/db/curriculum-actions: getCurriculumOverviewAction for units, status and the continue pointer
+ * - @/components/utilities/script-display-switcher: Script display preference control
+ * - lucide-react: Provides icons for navigation (BookOpen, GraduationCap, PlayCircle)
  * - next/link: Enables client-side navigation for lesson level links
  * - react: Core React library for component structure
  *
  * @notes
  * - Marked as "use server" to comply with server component rules
- * - No async data fetching yet; progress indicators are placeholders until Step 15 integrates data
+ * - If the curriculum cannot be loaded, the sidebar falls back to plain level links
  * - Assumes lesson levels are "beginner", "intermediate", "advanced" per lessons-schema.ts
  * - Edge case: Mobile sidebar collapse not implemented yet; could be added in future iterations
  */
 
 "use server"
 
-import { BookOpen, GraduationCap } from "lucide-react"
+import { getCurriculumOverviewAction } from "@/actions/db/curriculum-actions"
+import { ScriptDisplaySwitcher } from "@/components/utilities/script-display-switcher"
+import { BookOpen, GraduationCap, PlayCircle } from "lucide-react"
 import Link from "next/link"
 import { ReactNode } from "react"
 
@@ -45,11 +51,30 @@ interface LearnLayoutProps {
 export default async function LearnLayout({ children }: LearnLayoutProps) {
   // Define navigation items for lesson levels
   const navItems = [
-    { label: "Beginner", href: "/learn/beginner", icon: BookOpen },
-    { label: "Intermediate", href: "/learn/intermediate", icon: BookOpen },
-    { label: "Advanced", href: "/learn/advanced", icon: GraduationCap }
+    {
+      level: "beginner",
+      label: "Beginner",
+      href: "/learn/beginner",
+      icon: BookOpen
+    },
+    {
+      level: "intermediate",
+      label: "Intermediate",
+      href: "/learn/intermediate",
+      icon: BookOpen
+    },
+    {
+      level: "advanced",
+      label: "Advanced",
+      href: "/learn/advanced",
+      icon: GraduationCap
+    }
   ]
 
+  const curriculumResult = await getCurriculumOverviewAction()
+  const curriculum = curriculumResult.isSuccess ? curriculumResult.data : null
+  const continueLesson = curriculum?.continueLesson
+
   return (
     <div className="bg-background flex min-h-screen flex-col md:flex-row">
       {/* Sidebar */}
@@ -63,30 +88,75 @@ export default async function LearnLayout({ children }: LearnLayoutProps) {
           </p>
         </div>
 
+        <div className="mb-6">
+          <div className="text-muted-foreground mb-1 text-xs">
+            Show Kannada as
+          </div>
+          <ScriptDisplaySwitcher className="w-full" />
+        </div>
+
+        {continueLesson && (
+          <Link
+            href={`/learn/${continueLesson.level}/${continueLesson.id}`}
+            className="bg-primary text-primary-foreground mb-6 flex items-center gap-2 rounded-md p-3 hover:opacity-90"
+          >
+            <PlayCircle className="size-5 shrink-0" />
+            <div className="min-w-0">
+              <div className="text-xs opacity-80">
+                Continue where you left off
+              </div>
+              <div className="truncate font-medium">{continueLesson.title}</div>
+            </div>
+          </Link>
+        )}
+
         <nav>
           <ul className="space-y-2">
-            {navItems.map(item => (
-              <li key={item.href}>
-                <Link
-                  href={item.href}
-                  className="text-foreground hover:bg-accent hover:text-accent-foreground flex items-center gap-2 rounded-md p-2"
-                >
-                  <item.icon className="size-5" />
-                  <span>{item.label}</span>
-                </Link>
-              </li>
-            ))}
+            {navItems.map(item => {
+              const outline = curriculum?.levels.find(
+                entry => entry.level === item.level
+              )
+
+              return (
+                <li key={item.href}>
+                  <Link
+                    href={item.href}
+                    className="text-foreground hover:bg-accent hover:text-accent-foreground flex items-center gap-2 rounded-md p-2"
+                  >
+                    <item.icon className="size-5" />
+                    <span className="flex-1">{item.label}</span>
+                    {outline && outline.totalCount > 0 && (
+                      <span className="text-muted-foreground text-xs">
+                        {outline.completedCount}/{outline.totalCount}
+                      </span>
+                    )}
+                  </Link>
+
+                  {outline && outline.units.length > 0 && (
+                    <ul className="ml-9 mt-1 space-y-1">
+                      {outline.units.map(unit => (
+                        <li
+                          key={unit.id ?? "unassigned"}
+                          className="text-muted-foreground flex justify-between gap-2 text-sm"
+                        >
+                          <span className="truncate">{unit.title}</span>
+                          <span className="text-xs">
+                            {
+                              unit.lessons.filter(
+                                lesson => lesson.status === "completed"
+                              ).length
+                            }
+                            /{unit.lessons.length}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              )
+            })}
           </ul>
         </nav>
-
-        {/* Progress Indicators Placeholder */}
-        <div className="mt-6">
-          <h3 className="text-foreground text-lg font-medium">Your Progress</h3>
-          <p className="text-muted-foreground mt-1 text-sm">
-            Progress tracking coming soon...
-          </p>
-          {/* Future integration: Display XP, streak, badges here */}
-        </div>
       </aside>
 
       {/* Main Content */}
@@ -0,0 +1,23 @@
+/**
+ * @description
+ * Display names for exercise types on the practice pages of the Learn Kannada app.
+ *
+ * @dependencies
+ * - @/types: ExerciseType type
+ */
+
+import { ExerciseType } from "@/types"
+
+/**
+ * Learner-facing name of each exercise type.
+ */
+export const EXERCISE_TYPE_LABELS: Record<ExerciseType, string> = {
+  quiz: "Quiz",
+  writing: "Writing",
+  speaking: "Speaking",
+  matching: "Matching",
+  "fill-blank": "Fill in the blank",
+  "word-order": "Word order",
+  dictation: "Dictation",
+  translation: "Translation"
+}
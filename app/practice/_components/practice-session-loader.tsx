@@ -0,0 +1,73 @@
+/**
+ * @description
+ * This server component loads the learner's practice session for the practice pages
+ * of the Learn Kannada app and hands it to the client-side runner.
+ *
+ * Key features:
+ * - Resumes the active session of the requested type, or builds a new one
+ * - Binds the session's submit and restart server actions
+ *
+ * @dependencies
+ * - @/actions/db/practice-sessions-actions: Session retrieval, restart and submission
+ * - @/types: Exercise and practice session types
+ * - ./practice-session-runner: Client-side session stepper
+ *
+ * @notes
+ * - Marked "use server" per server component rules
+ * - Shown for both mixed practice (/practice) and single-type practice (/practice/[type])
+ */
+
+"use server"
+
+import {
+  getPracticeSessionAction,
+  startPracticeSessionAction,
+  submitPracticeAnswerAction
+} from "@/actions/db/practice-sessions-actions"
+import { ExerciseAttemptDetails, ExerciseResponse, ExerciseType } from "@/types"
+import PracticeSessionRunner from "./practice-session-runner"
+
+/**
+ * PracticeSessionLoader fetches the session and renders the runner.
+ * @param {{ exerciseType: ExerciseType | null }} props - Type to practise, or null for mixed practice
+ * @returns {JSX.Element} The session runner, or a notice when no session can be built
+ */
+export default async function PracticeSessionLoader({
+  exerciseType
+}: {
+  exerciseType: ExerciseType | null
+}) {
+  const { isSuccess, data, message } =
+    await getPracticeSessionAction(exerciseType)
+
+  if (!isSuccess || !data) {
+    return (
+      <div className="text-muted-foreground p-4 text-center">{message}</div>
+    )
+  }
+
+  // Answer the session's current exercise
+  const handleSubmit = async (
+    sessionId: string,
+    exerciseId: string,
+    response: ExerciseResponse,
+    details: ExerciseAttemptDetails
+  ) => {
+    "use server"
+    return submitPracticeAnswerAction(sessionId, exerciseId, response, details)
+  }
+
+  // Replace the session with a freshly built one of the same type
+  const handleRestart = async () => {
+    "use server"
+    return startPracticeSessionAction(exerciseType)
+  }
+
+  return (
+    <PracticeSessionRunner
+      initialSession={data}
+      onSubmit={handleSubmit}
+      onRestart={handleRestart}
+    />
+  )
+}
@@ -0,0 +1,207 @@
+/**
+ * @description
+ * This client component steps through a practice session in the Learn Kannada app.
+ * It renders each exercise in turn, shows feedback and the reward after each answer,
+ * and the session summary once every exercise has been answered.
+ *
+ * Key features:
+ * - Progress bar and "n / total" counter across the session
+ * - Shows why each exercise was chosen (current lesson, weak area, review, refresher)
+ * - Resumes at the first unanswered exercise, as the session is stored on the server
+ * - Times each exercise from when it is shown, for the attempt history
+ * - Starts a fresh session on request
+ *
+ * @dependencies
+ * - @/components/practice/exercise-renderer: Renders the component for each exercise type
+ * - @/components/practice/submission-feedback: Feedback and reward for each answer
+ * - @/components/ui/badge: Shadcn Badge for the reason an exercise was chosen
+ * - @/components/ui/button: Shadcn Button for navigation
+ * - @/components/ui/progress: Shadcn Progress bar
+ * - @/types: ActionState, exercise and practice session types
+ * - ./exercise-type-labels: Exercise type names
+ * - ./practice-session-summary: End-of-session summary
+ * - lucide-react: Provides icons (e.g., ArrowRight, RotateCcw)
+ *
+ * @notes
+ * - Submission and restarting are delegated to props (server actions defined by the page)
+ * - Answers are recorded on the server before feedback is shown, so reloading never loses one
+ */
+
+"use client"
+
+import ExerciseRenderer from "@/components/practice/exercise-renderer"
+import SubmissionFeedback from "@/components/practice/submission-feedback"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import {
+  ActionState,
+  ExerciseAttemptDetails,
+  ExerciseResponse,
+  ExerciseSubmission,
+  PracticeItemReason,
+  PracticeSessionState
+} from "@/types"
+import { ArrowRight, RotateCcw } from "lucide-react"
+import { useEffect, useRef, useState } from "react"
+import { EXERCISE_TYPE_LABELS } from "./exercise-type-labels"
+import PracticeSessionSummary from "./practice-session-summary"
+
+const REASON_LABELS: Record<PracticeItemReason, string> = {
+  lesson: "Current lesson",
+  "weak-area": "Weak area",
+  review: "Review",
+  refresher: "Refresher"
+}
+
+interface PracticeSessionRunnerProps {
+  initialSession: PracticeSessionState
+  onSubmit: (
+    sessionId: string,
+    exerciseId: string,
+    response: ExerciseResponse,
+    details: ExerciseAttemptDetails
+  ) => Promise<ActionState<ExerciseSubmission>>
+  onRestart: () => Promise<ActionState<PracticeSessionState>> // Builds a new session
+}
+
+/**
+ * PracticeSessionRunner runs a practice session from its first unanswered exercise.
+ * @param {PracticeSessionRunnerProps} props - The session and its handlers
+ * @returns {JSX.Element} The current exercise, its feedback or the summary
+ */
+export default function PracticeSessionRunner({
+  initialSession,
+  onSubmit,
+  onRestart
+}: PracticeSessionRunnerProps) {
+  const [session, setSession] = useState(initialSession)
+  const [index, setIndex] = useState(initialSession.position)
+  const [result, setResult] = useState<ActionState<ExerciseSubmission> | null>(
+    null
+  )
+  const [restartError, setRestartError] = useState<string | null>(null)
+  const [isRestarting, setIsRestarting] = useState(false)
+
+  const shownAt = useRef(Date.now())
+
+  const { entries } = session
+  const entry = entries[index]
+
+  // Time each exercise from when it is shown
+  useEffect(() => {
+    shownAt.current = Date.now()
+  }, [session.id, index])
+
+  // Submit the current exercise and keep its result for the summary
+  const handleSubmit = async (response: ExerciseResponse) => {
+    const submission = await onSubmit(session.id, entry.exerciseId, response, {
+      timeTakenMs: Date.now() - shownAt.current
+    })
+    setResult(submission)
+    if (submission.isSuccess) {
+      const { attemptId, score, feedback, reward } = submission.data
+      setSession(prev => ({
+        ...prev,
+        entries: prev.entries.map((item, itemIndex) =>
+          itemIndex === index
+            ? {
+                ...item,
+                result: {
+                  attemptId,
+                  response,
+                  score,
+                  feedback,
+                  xpEarned: reward.xpEarned
+                }
+              }
+            : item
+        )
+      }))
+    }
+  }
+
+  // Move to the next exercise, or the summary after the last one
+  const handleNext = () => {
+    setResult(null)
+    setIndex(prev => prev + 1)
+  }
+
+  // Replace the session with a freshly built one
+  const handleRestart = async () => {
+    setIsRestarting(true)
+    const restarted = await onRestart()
+    setIsRestarting(false)
+    if (!restarted.isSuccess) {
+      setRestartError(restarted.message)
+      return
+    }
+    setRestartError(null)
+    setResult(null)
+    setSession(restarted.data)
+    setIndex(restarted.data.position)
+  }
+
+  if (!entry) {
+    return (
+      <>
+        <PracticeSessionSummary
+          entries={entries}
+          isRestarting={isRestarting}
+          onRestart={handleRestart}
+        />
+        {restartError && (
+          <div className="text-muted-foreground text-center">
+            {restartError}
+          </div>
+        )}
+      </>
+    )
+  }
+
+  const isAnswered = !!result?.isSuccess
+
+  return (
+    <div className="container mx-auto max-w-lg space-y-6 py-8">
+      <div>
+        <div className="text-muted-foreground mb-2 flex items-center justify-between text-sm">
+          <span className="flex items-center gap-2">
+            {EXERCISE_TYPE_LABELS[entry.exerciseType]}
+            <Badge variant="secondary">{REASON_LABELS[entry.reason]}</Badge>
+          </span>
+          <span>
+            {index + 1} / {entries.length}
+          </span>
+        </div>
+        <Progress value={(index / entries.length) * 100} />
+      </div>
+
+      {/* Each exercise is answered once; its controls are disabled while the feedback is shown */}
+      <fieldset key={`${session.id}-${index}`} disabled={isAnswered}>
+        <ExerciseRenderer exercise={entry.exercise} onSubmit={handleSubmit} />
+      </fieldset>
+
+      {result && <SubmissionFeedback result={result} />}
+
+      {isAnswered && (
+        <Button onClick={handleNext} className="w-full">
+          {index + 1 < entries.length ? "Next exercise" : "See results"}
+          <ArrowRight className="ml-2 size-4" />
+        </Button>
+      )}
+
+      <Button
+        variant="ghost"
+        onClick={handleRestart}
+        disabled={isRestarting}
+        className="w-full"
+      >
+        <RotateCcw className="mr-2 size-4" />
+        Start a new session
+      </Button>
+      {restartError && (
+        <div className="text-muted-foreground text-center">{restartError}</div>
+      )}
+    </div>
+  )
+}
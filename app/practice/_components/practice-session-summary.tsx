@@ -0,0 +1,119 @@
+/**
+ * @description
+ * This client component shows the summary screen at the end of a practice session
+ * in the Learn Kannada app.
+ *
+ * Key features:
+ * - Accuracy, correct answers and XP earned across the session
+ * - Each mistake with the learner's answer and the grading feedback
+ * - Starts another session
+ *
+ * @dependencies
+ * - @/components/ui/button: Shadcn Button for starting again
+ * - @/lib/practice/practice-session: summarizePracticeSession
+ * - @/types: ExerciseResponse, ExerciseType and PracticeSessionEntry types
+ * - ./exercise-type-labels: Exercise type names
+ * - lucide-react: Provides icons (e.g., CheckCircle2, RotateCcw)
+ *
+ * @notes
+ * - The feedback of a mistake names the expected answer for most exercise types
+ */
+
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { summarizePracticeSession } from "@/lib/practice/practice-session"
+import { ExerciseResponse, ExerciseType, PracticeSessionEntry } from "@/types"
+import { CheckCircle2, RotateCcw } from "lucide-react"
+import { EXERCISE_TYPE_LABELS } from "./exercise-type-labels"
+
+interface PracticeSessionSummaryProps {
+  entries: PracticeSessionEntry[] // The session's items, with results
+  isRestarting: boolean // A new session is being built
+  onRestart: () => void // Starts another session
+}
+
+/**
+ * PracticeSessionSummary renders the end-of-session results.
+ * @param {PracticeSessionSummaryProps} props - Session entries and restart handler
+ * @returns {JSX.Element} Accuracy, XP and mistakes
+ */
+export default function PracticeSessionSummary({
+  entries,
+  isRestarting,
+  onRestart
+}: PracticeSessionSummaryProps) {
+  const summary = summarizePracticeSession(entries)
+
+  return (
+    <div className="container mx-auto max-w-lg space-y-6 py-8">
+      <div className="space-y-1 text-center">
+        <CheckCircle2 className="mx-auto size-12 text-green-600" />
+        <div className="text-2xl font-bold">Practice complete</div>
+        <div className="text-muted-foreground">
+          You got {summary.correct} of {summary.answered} right.
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 text-center">
+        <div className="rounded-md border p-4">
+          <div className="text-2xl font-bold">
+            {Math.round(summary.accuracy * 100)}%
+          </div>
+          <div className="text-muted-foreground text-sm">Accuracy</div>
+        </div>
+        <div className="rounded-md border p-4">
+          <div className="text-2xl font-bold">+{summary.xpEarned}</div>
+          <div className="text-muted-foreground text-sm">XP earned</div>
+        </div>
+      </div>
+
+      {summary.mistakes.length > 0 && (
+        <div className="space-y-2">
+          <h2 className="text-lg font-semibold">Mistakes to review</h2>
+          {summary.mistakes.map(mistake => (
+            <div
+              key={mistake.exerciseId}
+              className="space-y-1 rounded-md border p-3 text-sm"
+            >
+              <div className="text-muted-foreground">
+                {EXERCISE_TYPE_LABELS[mistake.exerciseType]}
+              </div>
+              {mistake.result && (
+                <>
+                  <div>
+                    Your answer:{" "}
+                    {formatResponse(
+                      mistake.exerciseType,
+                      mistake.result.response
+                    )}
+                  </div>
+                  <div>{mistake.result.feedback}</div>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Button onClick={onRestart} disabled={isRestarting} className="w-full">
+        <RotateCcw className="mr-2 size-4" />
+        Practice again
+      </Button>
+    </div>
+  )
+}
+
+// Responses as one line: matching pairs as "item = choice", blanks separated by slashes, words by spaces
+function formatResponse(
+  exerciseType: ExerciseType,
+  response: ExerciseResponse
+): string {
+  if (typeof response === "string") return response
+  if (Array.isArray(response)) {
+    return response.join(exerciseType === "fill-blank" ? " / " : " ")
+  }
+  return Object.entries(response)
+    .map(([item, choice]) => `${item} = ${choice}`)
+    .join("; ")
+}
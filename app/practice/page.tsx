@@ -0,0 +1,35 @@
+/**
+ * @description
+ * This server-side page runs a mixed practice session for the Learn Kannada app.
+ * Exercises of every graded type are chosen from the learner's current lessons,
+ * weak areas and review items.
+ *
+ * Key features:
+ * - Session Resume: The learner's active mixed session is stored, so reloading carries on where they stopped
+ * - Session Summary: Accuracy, XP earned and mistakes once every exercise is answered
+ *
+ * @dependencies
+ * - react: Provides Suspense for async rendering
+ * - ./_components/practice-session-loader: Loads the session and renders the runner
+ *
+ * @notes
+ * - Marked "use server" per server component rules
+ * - Single-type practice lives at /practice/[type]
+ */
+
+"use server"
+
+import { Suspense } from "react"
+import PracticeSessionLoader from "./_components/practice-session-loader"
+
+/**
+ * MixedPracticePage component runs a practice session across exercise types.
+ * @returns {JSX.Element} The practice session
+ */
+export default async function MixedPracticePage() {
+  return (
+    <Suspense fallback={<div>Loading practice session...</div>}>
+      <PracticeSessionLoader exerciseType={null} />
+    </Suspense>
+  )
+}
@@ -0,0 +1,197 @@
+/**
+ * @description
+ * This client component steps through the learner's due review items in the Learn Kannada app.
+ * It renders each item's exercise, shows the feedback and where the item now stands,
+ * and a short tally once the round is done.
+ *
+ * Key features:
+ * - Progress bar and "n / total" counter across the round
+ * - Marks vocabulary items, which are reviewed as translations
+ * - After each answer: cleared from the queue, or when it comes back
+ * - Times each item from when it is shown, for the attempt history
+ *
+ * @dependencies
+ * - @/components/practice/exercise-renderer: Renders the component for each exercise type
+ * - @/components/ui/badge: Shadcn Badge for the item kind
+ * - @/components/ui/button: Shadcn Button for navigation
+ * - @/components/ui/progress: Shadcn Progress bar
+ * - @/lib/review/mistake-review: REVIEW_CLEAR_STREAK for the "more in a row" count
+ * - @/types: ActionState, exercise and review types
+ * - lucide-react: Provides icons (e.g., ArrowRight, CheckCircle2, XCircle)
+ * - next/link: Link back to the dashboard
+ *
+ * @notes
+ * - Submission is delegated to the onSubmit prop (a server action defined by the page)
+ * - Each item is answered once per round; wrong answers are due again on the next visit
+ */
+
+"use client"
+
+import ExerciseRenderer from "@/components/practice/exercise-renderer"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import { REVIEW_CLEAR_STREAK } from "@/lib/review/mistake-review"
+import {
+  ActionState,
+  ExerciseAttemptDetails,
+  ExerciseResponse,
+  ReviewAnswerResult,
+  ReviewQueueEntry
+} from "@/types"
+import { ArrowRight, CheckCircle2, XCircle } from "lucide-react"
+import Link from "next/link"
+import { useEffect, useRef, useState } from "react"
+
+interface ReviewRunnerProps {
+  entries: ReviewQueueEntry[] // Due items, oldest first
+  onSubmit: (
+    reviewItemId: string,
+    response: ExerciseResponse,
+    details: ExerciseAttemptDetails
+  ) => Promise<ActionState<ReviewAnswerResult>>
+}
+
+/**
+ * ReviewRunner works through a round of due review items.
+ * @param {ReviewRunnerProps} props - The due items and submit handler
+ * @returns {JSX.Element} The current item, its feedback or the round's tally
+ */
+export default function ReviewRunner({ entries, onSubmit }: ReviewRunnerProps) {
+  const [index, setIndex] = useState(0)
+  const [result, setResult] = useState<ActionState<ReviewAnswerResult> | null>(
+    null
+  )
+  const [tally, setTally] = useState({ answered: 0, correct: 0, cleared: 0 })
+
+  const shownAt = useRef(Date.now())
+  const entry = entries[index]
+
+  // Time each item from when it is shown
+  useEffect(() => {
+    shownAt.current = Date.now()
+  }, [index])
+
+  // Submit the current item and count it towards the tally
+  const handleSubmit = async (response: ExerciseResponse) => {
+    const answer = await onSubmit(entry.id, response, {
+      timeTakenMs: Date.now() - shownAt.current
+    })
+    setResult(answer)
+    if (answer.isSuccess) {
+      setTally(prev => ({
+        answered: prev.answered + 1,
+        correct: prev.correct + (answer.data.score >= 1 ? 1 : 0),
+        cleared: prev.cleared + (answer.data.cleared ? 1 : 0)
+      }))
+    }
+  }
+
+  // Move to the next item, or the tally after the last one
+  const handleNext = () => {
+    setResult(null)
+    setIndex(prev => prev + 1)
+  }
+
+  if (!entry) {
+    return (
+      <div className="container mx-auto max-w-lg space-y-6 py-8 text-center">
+        <CheckCircle2 className="mx-auto size-12 text-green-600" />
+        <div className="text-2xl font-bold">Review complete</div>
+        <div className="text-muted-foreground">
+          You got {tally.correct} of {tally.answered} right and cleared{" "}
+          {tally.cleared} from your queue.
+        </div>
+        <Button asChild className="w-full">
+          <Link href="/dashboard">Back to dashboard</Link>
+        </Button>
+      </div>
+    )
+  }
+
+  const isAnswered = !!result?.isSuccess
+
+  return (
+    <div className="container mx-auto max-w-lg space-y-6 py-8">
+      <div>
+        <div className="text-muted-foreground mb-2 flex items-center justify-between text-sm">
+          <span className="flex items-center gap-2">
+            Review mistakes
+            {entry.kind === "vocabulary" && (
+              <Badge variant="secondary">Vocabulary</Badge>
+            )}
+          </span>
+          <span>
+            {index + 1} / {entries.length}
+          </span>
+        </div>
+        <Progress value={(index / entries.length) * 100} />
+      </div>
+
+      {/* Each item is answered once; its controls are disabled while the feedback is shown */}
+      <fieldset key={entry.id} disabled={isAnswered}>
+        <ExerciseRenderer exercise={entry.exercise} onSubmit={handleSubmit} />
+      </fieldset>
+
+      {result && <ReviewFeedback result={result} />}
+
+      {isAnswered && (
+        <Button onClick={handleNext} className="w-full">
+          {index + 1 < entries.length ? "Next item" : "See results"}
+          <ArrowRight className="ml-2 size-4" />
+        </Button>
+      )}
+    </div>
+  )
+}
+
+/**
+ * ReviewFeedback shows the grade of a review answer and where the item now stands.
+ * @param {{ result: ActionState<ReviewAnswerResult> }} props - The answer result
+ * @returns {JSX.Element} Feedback and schedule
+ */
+function ReviewFeedback({
+  result
+}: {
+  result: ActionState<ReviewAnswerResult>
+}) {
+  if (!result.isSuccess) {
+    return (
+      <div className="bg-muted text-foreground flex items-center gap-2 rounded-md p-4">
+        <XCircle className="size-5" />
+        {result.message}
+      </div>
+    )
+  }
+
+  const { score, feedback, xpEarned, correctStreak, cleared, dueAt } =
+    result.data
+  const isCorrect = score >= 1
+  const remaining = REVIEW_CLEAR_STREAK - correctStreak
+
+  return (
+    <div
+      className={`space-y-2 rounded-md p-4 ${
+        isCorrect ? "bg-green-50 text-green-800" : "bg-muted text-foreground"
+      }`}
+    >
+      <div className="flex items-center gap-2">
+        {isCorrect ? (
+          <CheckCircle2 className="size-5" />
+        ) : (
+          <XCircle className="size-5" />
+        )}
+        {feedback}
+      </div>
+
+      <div className="font-semibold" aria-live="polite">
+        {cleared
+          ? "Cleared from your review queue!"
+          : isCorrect
+            ? `${remaining} more in a row to clear it. Next review ${new Date(dueAt).toLocaleDateString()}.`
+            : "It will come back in your next review."}
+        {xpEarned > 0 && ` +${xpEarned} XP`}
+      </div>
+    </div>
+  )
+}
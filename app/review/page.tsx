@@ -0,0 +1,73 @@
+/**
+ * @description
+ * This server-side page runs the "Review mistakes" mode of the Learn Kannada app.
+ * Exercises the learner answered wrongly, and words they paired wrongly, come back
+ * here at increasing intervals until they are answered correctly several times in a row.
+ *
+ * Key features:
+ * - Fetches the due review items server-side
+ * - Binds the review submission server action for the client-side runner
+ * - Loading State: Implements Suspense for asynchronous data fetching
+ *
+ * @dependencies
+ * - @/actions/db/review-items-actions: Review queue retrieval and submission
+ * - @/types: Exercise types for the submit handler
+ * - react: Provides Suspense for async rendering
+ * - ./_components/review-runner: Client-side review stepper
+ *
+ * @notes
+ * - Marked "use server" per server component rules
+ * - Items are added to the queue by exercise submissions anywhere in the app
+ */
+
+"use server"
+
+import {
+  getReviewQueueAction,
+  submitReviewAnswerAction
+} from "@/actions/db/review-items-actions"
+import { ExerciseAttemptDetails, ExerciseResponse } from "@/types"
+import { Suspense } from "react"
+import ReviewRunner from "./_components/review-runner"
+
+/**
+ * ReviewPage component runs a round of mistake review.
+ * @returns {JSX.Element} The review round
+ */
+export default async function ReviewPage() {
+  return (
+    <Suspense fallback={<div>Loading review...</div>}>
+      <ReviewQueueFetcher />
+    </Suspense>
+  )
+}
+
+/**
+ * ReviewQueueFetcher fetches the due items and renders the runner.
+ * @returns {JSX.Element} The review runner, or a notice when nothing is due
+ */
+async function ReviewQueueFetcher() {
+  const { isSuccess, data, message } = await getReviewQueueAction()
+
+  if (!isSuccess || data.length === 0) {
+    return (
+      <div className="text-muted-foreground p-4 text-center">
+        {isSuccess
+          ? "Nothing to review right now. Mistakes you make come back here."
+          : message}
+      </div>
+    )
+  }
+
+  // Answer one review item
+  const handleSubmit = async (
+    reviewItemId: string,
+    response: ExerciseResponse,
+    details: ExerciseAttemptDetails
+  ) => {
+    "use server"
+    return submitReviewAnswerAction(reviewItemId, response, details)
+  }
+
+  return <ReviewRunner entries={data} onSubmit={handleSubmit} />
+}
@@ -0,0 +1,93 @@
+/**
+ * @description
+ * This server-side page runs one role-play scenario for the Learn Kannada app.
+ * The learner talks with the AI character in the tutor chat, working through the
+ * scenario's goals, then ends it for a scored debrief and XP.
+ *
+ * Key features:
+ * - Resumes the learner's unfinished session of the scenario, or starts a new one
+ * - Binds the completion server action for the client-side session
+ * - Loading State: Implements Suspense for asynchronous data fetching
+ *
+ * @dependencies
+ * - @/actions/db/roleplay-sessions-actions: Session retrieval and completion
+ * - @/lib/roleplay/scenarios: The scenario library
+ * - next/navigation: Provides notFound for unknown scenarios
+ * - react: Provides Suspense for async rendering
+ * - ../_components/scenario-session: Client-side brief, chat and debrief
+ *
+ * @notes
+ * - Marked "use server" per server component rules
+ * - Params are awaited as a Promise per Next.js 15 dynamic route behavior
+ * - Handles unknown scenarios with 404
+ */
+
+"use server"
+
+import {
+  completeRolePlayAction,
+  getActiveRolePlayAction
+} from "@/actions/db/roleplay-sessions-actions"
+import { getScenario } from "@/lib/roleplay/scenarios"
+import { RolePlayScenario } from "@/types"
+import { notFound } from "next/navigation"
+import { Suspense } from "react"
+import ScenarioSession from "../_components/scenario-session"
+
+interface ScenarioPageProps {
+  params: Promise<{ scenarioId: string }> // Dynamic route params as a Promise
+}
+
+/**
+ * ScenarioPage component runs a role-play scenario.
+ * @param {ScenarioPageProps} props - The route parameters
+ * @returns {JSX.Element} The role-play or 404
+ */
+export default async function ScenarioPage({ params }: ScenarioPageProps) {
+  const { scenarioId } = await params
+  const scenario = getScenario(scenarioId)
+  if (!scenario) {
+    return notFound()
+  }
+
+  return (
+    <div className="container mx-auto py-8">
+      <h1 className="mb-6 text-2xl font-bold">{scenario.title}</h1>
+      <Suspense fallback={<div>Loading role-play...</div>}>
+        <ScenarioFetcher scenario={scenario} />
+      </Suspense>
+    </div>
+  )
+}
+
+/**
+ * ScenarioFetcher fetches the learner's unfinished session and renders it.
+ * @param {{ scenario: RolePlayScenario }} props - The scenario being played
+ * @returns {JSX.Element} The role-play session, or an error notice
+ */
+async function ScenarioFetcher({ scenario }: { scenario: RolePlayScenario }) {
+  const { isSuccess, data, message } = await getActiveRolePlayAction(
+    scenario.id
+  )
+
+  if (!isSuccess) {
+    return (
+      <div className="text-muted-foreground p-4 text-center">{message}</div>
+    )
+  }
+
+  // End the role-play with a debrief and its XP
+  const handleComplete = async (conversationId: string) => {
+    "use server"
+    return completeRolePlayAction(conversationId)
+  }
+
+  return (
+    <ScenarioSession
+      key={data?.id ?? "new"}
+      scenario={scenario}
+      session={data}
+      onComplete={handleComplete}
+    />
+  )
+}
@@ -0,0 +1,241 @@
+/**
+ * @description
+ * This client component runs a role-play scenario: the brief, the conversation with the
+ * AI character, and the scored debrief at the end.
+ *
+ * Key features:
+ * - Brief: setting, the character, goals (ticked off as they are met) and target vocabulary
+ * - Conversation: the tutor chat playing the scenario's character
+ * - End: asks for the debrief, then shows the score, feedback and XP earned
+ * - Play again once the debrief has been shown
+ *
+ * @dependencies
+ * - @/components/learn/kannada-text: Script display for the vocabulary
+ * - @/components/practice/chatbot: The conversation
+ * - @/components/ui/*: Shadcn Badge and Button
+ * - @/types: ActionState, role-play and tutor types
+ * - lucide-react: Provides icons (e.g., CheckCircle2, Circle, RotateCcw)
+ * - next/navigation: Reloads the page to play again
+ *
+ * @notes
+ * - Completion is delegated to the onComplete prop (a server action defined by the page)
+ * - The scenario can be ended once the learner has sent a message; the session is started by the first one
+ */
+
+"use client"
+
+import KannadaText from "@/components/learn/kannada-text"
+import Chatbot from "@/components/practice/chatbot"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  ActionState,
+  RolePlayResult,
+  RolePlayScenario,
+  RolePlaySession,
+  TutorExchange
+} from "@/types"
+import { CheckCircle2, Circle, RotateCcw } from "lucide-react"
+import { useRouter } from "next/navigation"
+import { useState } from "react"
+
+interface ScenarioSessionProps {
+  scenario: RolePlayScenario
+  session: RolePlaySession | null // Unfinished session to resume, or null to start one
+  onComplete: (conversationId: string) => Promise<ActionState<RolePlayResult>>
+}
+
+/**
+ * ScenarioSession renders a role-play from brief to debrief.
+ * @param {ScenarioSessionProps} props - The scenario, the session to resume and the completion handler
+ * @returns {JSX.Element} The role-play UI
+ */
+export default function ScenarioSession({
+  scenario,
+  session,
+  onComplete
+}: ScenarioSessionProps) {
+  const router = useRouter()
+  const [conversationId, setConversationId] = useState(
+    session?.conversation.id ?? null
+  )
+  const [achievedGoals, setAchievedGoals] = useState(
+    session?.achievedGoals ?? []
+  )
+  const [result, setResult] = useState<RolePlayResult | null>(null)
+  const [isEnding, setIsEnding] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleExchange = (exchange: TutorExchange) => {
+    setConversationId(exchange.conversationId)
+    setAchievedGoals(exchange.achievedGoals ?? [])
+  }
+
+  const handleEnd = async () => {
+    if (!conversationId) return
+
+    setIsEnding(true)
+    setError(null)
+    const outcome = await onComplete(conversationId)
+    setIsEnding(false)
+
+    if (outcome.isSuccess) {
+      setResult(outcome.data)
+    } else {
+      setError(outcome.message)
+    }
+  }
+
+  // Start afresh; the finished session is no longer loaded
+  const handlePlayAgain = () => {
+    setResult(null)
+    setConversationId(null)
+    setAchievedGoals([])
+    router.refresh()
+  }
+
+  return (
+    <div className="flex flex-col gap-6 md:flex-row">
+      <aside className="w-full space-y-4 md:w-72">
+        <div className="space-y-1">
+          <Badge variant="secondary" className="capitalize">
+            {scenario.level}
+          </Badge>
+          <p className="text-sm">{scenario.setting}</p>
+          <p className="text-muted-foreground text-sm">
+            You are talking to {scenario.persona.name}, the{" "}
+            {scenario.persona.role}.
+          </p>
+        </div>
+
+        <div>
+          <h2 className="mb-2 font-semibold">
+            Goals ({achievedGoals.length}/{scenario.goals.length})
+          </h2>
+          <ul className="space-y-1 text-sm">
+            {scenario.goals.map(goal => (
+              <li key={goal.id} className="flex items-center gap-2">
+                {achievedGoals.includes(goal.id) ? (
+                  <CheckCircle2 className="size-4 shrink-0 text-green-600" />
+                ) : (
+                  <Circle className="text-muted-foreground size-4 shrink-0" />
+                )}
+                {goal.description}
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div>
+          <h2 className="mb-2 font-semibold">Useful words</h2>
+          <ul className="space-y-1 text-sm">
+            {scenario.vocabulary.map(item => (
+              <li key={item.kannada} className="flex justify-between gap-2">
+                <KannadaText text={item.kannada} />
+                <span className="text-muted-foreground">{item.english}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </aside>
+
+      <div className="flex-1 space-y-4">
+        {result ? (
+          <RolePlayDebriefView result={result} onPlayAgain={handlePlayAgain} />
+        ) : (
+          <>
+            <Chatbot
+              conversation={session?.conversation ?? null}
+              scenarioId={scenario.id}
+              opening={scenario.opening}
+              onExchange={handleExchange}
+            />
+
+            {error && <p className="text-destructive text-sm">{error}</p>}
+
+            <div className="mx-auto flex max-w-2xl justify-end">
+              <Button
+                variant="outline"
+                onClick={handleEnd}
+                disabled={!conversationId || isEnding}
+              >
+                {isEnding ? "Preparing debrief..." : "End and get debrief"}
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * RolePlayDebriefView shows the score, feedback and XP of a finished role-play.
+ */
+function RolePlayDebriefView({
+  result,
+  onPlayAgain
+}: {
+  result: RolePlayResult
+  onPlayAgain: () => void
+}) {
+  const { debrief, reward } = result
+
+  return (
+    <div className="mx-auto max-w-2xl space-y-6 rounded-lg border p-6">
+      <div className="space-y-1 text-center">
+        <div className="text-4xl font-bold">{debrief.score}</div>
+        <div className="text-muted-foreground">out of 100</div>
+        <p>{debrief.summary}</p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 text-center">
+        <div className="rounded-md border p-4">
+          <div className="text-2xl font-bold">
+            {debrief.goalsAchieved}/{debrief.goalsTotal}
+          </div>
+          <div className="text-muted-foreground text-sm">Goals met</div>
+        </div>
+        <div className="rounded-md border p-4">
+          <div className="text-2xl font-bold">{debrief.languageScore}</div>
+          <div className="text-muted-foreground text-sm">Kannada</div>
+        </div>
+        <div className="rounded-md border p-4">
+          <div className="text-2xl font-bold">+{reward.xpEarned}</div>
+          <div className="text-muted-foreground text-sm">XP earned</div>
+        </div>
+      </div>
+
+      {reward.newBadges.length > 0 && (
+        <p className="text-center">New badge: {reward.newBadges.join(", ")}</p>
+      )}
+
+      {debrief.strengths.length > 0 && (
+        <div>
+          <h2 className="mb-1 font-semibold">What went well</h2>
+          <ul className="list-disc pl-5 text-sm">
+            {debrief.strengths.map(point => (
+              <li key={point}>{point}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {debrief.improvements.length > 0 && (
+        <div>
+          <h2 className="mb-1 font-semibold">To work on</h2>
+          <ul className="list-disc pl-5 text-sm">
+            {debrief.improvements.map(point => (
+              <li key={point}>{point}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <Button onClick={onPlayAgain} className="w-full">
+        <RotateCcw className="mr-2 size-4" />
+        Play again
+      </Button>
+    </div>
+  )
+}
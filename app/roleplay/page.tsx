@@ -0,0 +1,58 @@
+/**
+ * @description
+ * This server-side page lists the role-play scenarios of the Learn Kannada app.
+ * Learners pick an everyday situation to practise with the AI playing the other side.
+ *
+ * Key features:
+ * - One card per scenario with its level, setting and number of goals
+ * - Links to the scenario's role-play page
+ *
+ * @dependencies
+ * - @/components/ui/badge: Shadcn Badge for the level
+ * - @/lib/roleplay/scenarios: The scenario library
+ * - next/link: Links to the scenarios
+ *
+ * @notes
+ * - Marked "use server" per server component rules
+ * - The library is static, so there is nothing to load
+ */
+
+"use server"
+
+import { Badge } from "@/components/ui/badge"
+import { ROLEPLAY_SCENARIOS } from "@/lib/roleplay/scenarios"
+import Link from "next/link"
+
+/**
+ * RolePlayPage component lists the scenarios.
+ * @returns {JSX.Element} The scenario library
+ */
+export default async function RolePlayPage() {
+  return (
+    <div className="container mx-auto max-w-3xl py-8">
+      <h1 className="mb-2 text-2xl font-bold">Role-play</h1>
+      <p className="text-muted-foreground mb-6">
+        Practise real situations in Kannada. Meet the goals to earn XP.
+      </p>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        {ROLEPLAY_SCENARIOS.map(scenario => (
+          <Link
+            key={scenario.id}
+            href={`/roleplay/${scenario.id}`}
+            className="hover:bg-muted space-y-2 rounded-md border p-4"
+          >
+            <div className="flex items-center justify-between gap-2">
+              <h2 className="font-semibold">{scenario.title}</h2>
+              <Badge variant="secondary" className="capitalize">
+                {scenario.level}
+              </Badge>
+            </div>
+            <p className="text-muted-foreground text-sm">{scenario.setting}</p>
+            <p className="text-sm">{scenario.goals.length} goals</p>
+          </Link>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,140 @@
+/**
+ * @description
+ * This client component lays out the tutor chat page: the learner's saved conversations
+ * beside the open conversation.
+ *
+ * Key features:
+ * - Conversation list, most recent first, with the open one highlighted
+ * - Start a new conversation or resume a saved one
+ * - Delete a conversation after confirmation
+ *
+ * @dependencies
+ * - @/components/practice/chatbot: The tutor chat itself
+ * - @/components/ui/*: Shadcn Badge and Button
+ * - @/types: ActionState and tutor types
+ * - lucide-react: Provides Plus and Trash2 icons
+ * - next/link and next/navigation: Links and router updates
+ *
+ * @notes
+ * - Deletion is delegated to the onDelete prop (a server action defined by the page); messages are
+ *   sent and saved by the Chatbot through the /api/ai/tutor route
+ * - The open conversation is chosen by the "conversation" search parameter, so it survives a reload
+ */
+
+"use client"
+
+import Chatbot from "@/components/practice/chatbot"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  ActionState,
+  TutorConversation,
+  TutorConversationSummary
+} from "@/types"
+import { Plus, Trash2 } from "lucide-react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { useState } from "react"
+
+interface TutorWorkspaceProps {
+  conversations: TutorConversationSummary[] // Most recent first
+  conversation: TutorConversation | null // Open conversation, or null for a new one
+  onDelete: (conversationId: string) => Promise<ActionState<void>>
+}
+
+/**
+ * TutorWorkspace shows the conversation list and the open conversation.
+ * @param {TutorWorkspaceProps} props - Conversations and the delete handler
+ * @returns {JSX.Element} The tutor chat layout
+ */
+export default function TutorWorkspace({
+  conversations,
+  conversation,
+  onDelete
+}: TutorWorkspaceProps) {
+  const router = useRouter()
+  const [error, setError] = useState<string | null>(null)
+
+  // Show a newly started conversation in the list and the URL
+  const handleStarted = (conversationId: string) => {
+    router.replace(`/tutor?conversation=${conversationId}`)
+  }
+
+  const handleDelete = async (conversationId: string) => {
+    if (!window.confirm("Delete this conversation?")) return
+
+    const result = await onDelete(conversationId)
+    if (!result.isSuccess) {
+      setError(result.message)
+      return
+    }
+
+    setError(null)
+    if (conversationId === conversation?.id) {
+      router.replace("/tutor")
+    } else {
+      router.refresh()
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-6 md:flex-row">
+      <aside className="w-full space-y-2 md:w-64">
+        <Button asChild variant="outline" className="w-full">
+          <Link href="/tutor">
+            <Plus className="mr-2 size-4" />
+            New conversation
+          </Link>
+        </Button>
+
+        {error && <p className="text-destructive text-sm">{error}</p>}
+
+        {conversations.length === 0 ? (
+          <p className="text-muted-foreground text-sm">
+            Your conversations are saved here.
+          </p>
+        ) : (
+          <ul className="space-y-1">
+            {conversations.map(item => (
+              <li
+                key={item.id}
+                className={`flex items-center gap-1 rounded-md ${
+                  item.id === conversation?.id ? "bg-muted" : ""
+                }`}
+              >
+                <Link
+                  href={`/tutor?conversation=${item.id}`}
+                  className="min-w-0 flex-1 p-2"
+                >
+                  <p className="truncate text-sm font-medium">{item.title}</p>
+                  <p className="text-muted-foreground text-xs">
+                    {new Date(item.updatedAt).toLocaleDateString()}{" "}
+                    <Badge variant="secondary" className="ml-1 capitalize">
+                      {item.level}
+                    </Badge>
+                  </p>
+                </Link>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDelete(item.id)}
+                >
+                  <Trash2 className="size-4" />
+                  <span className="sr-only">Delete conversation</span>
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </aside>
+
+      <div className="flex-1">
+        <Chatbot
+          key={conversation?.id ?? "new"}
+          conversation={conversation}
+          onStarted={handleStarted}
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,98 @@
+/**
+ * @description
+ * This server-side page hosts the AI Kannada tutor chat for the Learn Kannada app.
+ * Learners converse with the tutor in Kannada at their level, get corrections on each
+ * message, and come back to saved conversations later.
+ *
+ * Key features:
+ * - Fetches the learner's conversations and the open one server-side
+ * - Binds the delete server action for the client-side conversation list
+ * - Loading State: Implements Suspense for asynchronous data fetching
+ *
+ * @dependencies
+ * - @/actions/db/tutor-conversations-actions: Conversation retrieval and deletion
+ * - react: Provides Suspense for async rendering
+ * - ./_components/tutor-workspace: Client-side conversation list and chat
+ *
+ * @notes
+ * - Marked "use server" per server component rules
+ * - The open conversation comes from the "conversation" search parameter; without it a new one is started
+ * - Messages are streamed and saved by the /api/ai/tutor route, not by a server action
+ */
+
+"use server"
+
+import {
+  deleteTutorConversationAction,
+  getTutorConversationAction,
+  getTutorConversationsAction
+} from "@/actions/db/tutor-conversations-actions"
+import { Suspense } from "react"
+import TutorWorkspace from "./_components/tutor-workspace"
+
+interface TutorPageProps {
+  searchParams: Promise<{ conversation?: string }>
+}
+
+/**
+ * TutorPage component shows the tutor chat.
+ * @param {TutorPageProps} props - Search parameters naming the open conversation
+ * @returns {JSX.Element} The tutor chat page
+ */
+export default async function TutorPage({ searchParams }: TutorPageProps) {
+  const { conversation } = await searchParams
+
+  return (
+    <div className="container mx-auto py-8">
+      <h1 className="mb-6 text-2xl font-bold">Kannada tutor</h1>
+      <Suspense fallback={<div>Loading conversations...</div>}>
+        <TutorFetcher conversationId={conversation ?? null} />
+      </Suspense>
+    </div>
+  )
+}
+
+/**
+ * TutorFetcher fetches the conversations and renders the workspace.
+ * @param {{ conversationId: string | null }} props - The conversation to open, if any
+ * @returns {JSX.Element} The tutor workspace, or an error notice
+ */
+async function TutorFetcher({
+  conversationId
+}: {
+  conversationId: string | null
+}) {
+  const [conversationsResult, conversationResult] = await Promise.all([
+    getTutorConversationsAction(),
+    conversationId ? getTutorConversationAction(conversationId) : null
+  ])
+
+  if (!conversationsResult.isSuccess) {
+    return (
+      <div className="text-muted-foreground p-4 text-center">
+        {conversationsResult.message}
+      </div>
+    )
+  }
+  if (conversationResult && !conversationResult.isSuccess) {
+    return (
+      <div className="text-muted-foreground p-4 text-center">
+        {conversationResult.message}
+      </div>
+    )
+  }
+
+  // Delete a conversation
+  const handleDelete = async (id: string) => {
+    "use server"
+    return deleteTutorConversationAction(id)
+  }
+
+  return (
+    <TutorWorkspace
+      conversations={conversationsResult.data}
+      conversation={conversationResult?.data ?? null}
+      onDelete={handleDelete}
+    />
+  )
+}
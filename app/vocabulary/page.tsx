@@ -0,0 +1,67 @@
+/**
+ * @description
+ * This server-side page runs the learner's daily vocabulary flashcards for the Learn Kannada app.
+ * Words from the lessons they have started come back on an SM-2 schedule set by
+ * how well they recall each one.
+ *
+ * Key features:
+ * - Fetches the day's queue server-side: due cards first, then new words
+ * - Binds the rating server action for the client-side flashcards
+ * - Loading State: Implements Suspense for asynchronous data fetching
+ *
+ * @dependencies
+ * - @/actions/db/vocabulary-actions: Daily queue and recall rating
+ * - @/components/practice/flashcard-review: Client-side flashcards
+ * - @/types: RecallRating type
+ * - react: Provides Suspense for async rendering
+ *
+ * @notes
+ * - Marked "use server" per server component rules
+ */
+
+"use server"
+
+import {
+  getDailyVocabularyQueueAction,
+  rateVocabularyCardAction
+} from "@/actions/db/vocabulary-actions"
+import FlashcardReview from "@/components/practice/flashcard-review"
+import { RecallRating } from "@/types"
+import { Suspense } from "react"
+
+/**
+ * VocabularyPage component runs the day's flashcards.
+ * @returns {JSX.Element} The flashcard session
+ */
+export default async function VocabularyPage() {
+  return (
+    <div className="container mx-auto max-w-lg py-8">
+      <h1 className="mb-6 text-2xl font-bold">Vocabulary</h1>
+      <Suspense fallback={<div>Loading flashcards...</div>}>
+        <VocabularyQueueFetcher />
+      </Suspense>
+    </div>
+  )
+}
+
+/**
+ * VocabularyQueueFetcher fetches the day's cards and renders the flashcards.
+ * @returns {JSX.Element} The flashcards, or the error message
+ */
+async function VocabularyQueueFetcher() {
+  const { isSuccess, data, message } = await getDailyVocabularyQueueAction()
+
+  if (!isSuccess) {
+    return (
+      <div className="text-muted-foreground p-4 text-center">{message}</div>
+    )
+  }
+
+  // Record how well the learner recalled a word
+  const handleRate = async (vocabularyId: string, rating: RecallRating) => {
+    "use server"
+    return rateVocabularyCardAction(vocabularyId, rating)
+  }
+
+  return <FlashcardReview queue={data} onRate={handleRate} />
+}
@@ -5,6 +5,7 @@ This client component provides the header for the app.
 "use client"
 
 import { Button } from "@/components/ui/button"
+import { ScriptDisplaySwitcher } from "@/components/utilities/script-display-switcher"
 import {
   SignedIn,
   SignedOut,
@@ -121,6 +122,7 @@ export default function Header() {
           </SignedOut>
 
           <SignedIn>
+            <ScriptDisplaySwitcher className="hidden md:flex" />
             <UserButton />
           </SignedIn>
 
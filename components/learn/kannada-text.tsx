@@ -0,0 +1,65 @@
+/**
+ * @description
+ * This client component renders Kannada text according to the learner's script display preference.
+ * It is the single place that decides whether script, romanization or an English gloss is shown,
+ * so lessons, exercises and chats stay consistent.
+ *
+ * Key features:
+ * - script: Kannada script only
+ * - script_romanization: Kannada script with its romanization underneath
+ * - romanization_english: romanization with the English gloss underneath (when one is given)
+ * - Text without any Kannada script is rendered as-is in every mode
+ *
+ * @dependencies
+ * - @/components/utilities/script-display-provider: useScriptDisplay for the preference
+ * - @/lib/transliteration/transliterate: hasKannada and toLatin
+ * - @/lib/utils: cn helper for class names
+ *
+ * @notes
+ * - Romanization uses ISO 15919 unless an authored romanization is passed in
+ * - The secondary line uses opacity rather than a muted color so it reads on colored chat bubbles
+ */
+
+"use client"
+
+import { useScriptDisplay } from "@/components/utilities/script-display-provider"
+import { hasKannada, toLatin } from "@/lib/transliteration/transliterate"
+import { cn } from "@/lib/utils"
+
+interface KannadaTextProps {
+  text: string // Text that may contain Kannada script
+  romanization?: string // Authored romanization; computed from text when omitted
+  gloss?: string // English meaning, shown with the romanization_english preference
+  className?: string
+}
+
+/**
+ * KannadaText renders text in the learner's preferred script display.
+ * @param {KannadaTextProps} props - The text with optional romanization and gloss
+ * @returns {JSX.Element} The text with its romanization or gloss
+ */
+export default function KannadaText({
+  text,
+  romanization,
+  gloss,
+  className
+}: KannadaTextProps) {
+  const { scriptDisplay } = useScriptDisplay()
+
+  if (!hasKannada(text) || scriptDisplay === "script") {
+    return <span className={className}>{text}</span>
+  }
+
+  const latin = romanization ?? toLatin(text)
+  const [primary, secondary] =
+    scriptDisplay === "script_romanization" ? [text, latin] : [latin, gloss]
+
+  return (
+    <span className={cn("inline-flex flex-col", className)}>
+      <span>{primary}</span>
+      {secondary && (
+        <span className="text-sm font-normal opacity-70">{secondary}</span>
+      )}
+    </span>
+  )
+}
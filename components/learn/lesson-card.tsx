@@ -1,18 +1,23 @@
 /**
  * @description
  * This component renders a lesson card for the Learn Kannada app, displaying lesson details
- * such as title and level, with an added text-to-speech feature for accessibility.
+ * such as title, level and the learner's completion, with an added text-to-speech feature for accessibility.
  * It is a reusable client component used across the learning module pages.
  *
  * Key features:
  * - Displays lesson title and level with clean, minimalistic styling
+ * - Shows the learner's completion as a progress bar and links to the lesson page
+ * - Shows the curriculum status (locked, available, completed); locked lessons are not linked
  * - Text-to-speech: Reads lesson title aloud when triggered
+ * - Kannada titles follow the learner's script display preference
  * - Responsive design using Tailwind CSS
  *
  * @dependencies
  * - react: For state management and hooks
  * - lucide-react: For icons (e.g., Volume2 for TTS button)
- * - @/types: For ActionState type (not directly used here but part of ecosystem)
+ * - @/components/learn/kannada-text: Script display for the title
+ * - @/components/ui/progress: Shadcn Progress bar for completion
+ * - @/db/schema/lessons-schema: SelectLesson type
  *
  * @notes
  * - Uses Web Speech API, which requires browser support (checked at runtime)
@@ -23,22 +28,19 @@
 
 "use client"
 
+import KannadaText from "@/components/learn/kannada-text"
+import { Progress } from "@/components/ui/progress"
+import { SelectLesson } from "@/db/schema/lessons-schema"
+import { CheckCircle2, Lock, Volume2 } from "lucide-react"
+import Link from "next/link"
 import { useState } from "react"
-import { Volume2 } from "lucide-react"
 
 /**
  * Props for the LessonCard component.
  * Defines the structure of the lesson data passed to the component.
  */
 interface LessonCardProps {
-  lesson: {
-    id: string
-    title: string
-    level: "beginner" | "intermediate" | "advanced"
-    content: unknown // JSON content, not rendered here but available
-    createdAt: Date
-    updatedAt: Date
-  }
+  lesson: SelectLesson // progress holds the learner's completion percentage (0-100), status its unlock state
 }
 
 /**
@@ -50,6 +52,11 @@ interface LessonCardProps {
  */
 export default function LessonCard({ lesson }: LessonCardProps) {
   const [isSpeaking, setIsSpeaking] = useState(false)
+  const completion = lesson.progress ?? 0
+  const isCompleted = lesson.status
+    ? lesson.status === "completed"
+    : completion >= 100
+  const isLocked = lesson.status === "locked"
 
   // Check if Web Speech API is supported
   const isSpeechSupported =
@@ -84,9 +91,19 @@ export default function LessonCard({ lesson }: LessonCardProps) {
     <div className="bg-card rounded-lg border p-4 shadow-sm transition-shadow hover:shadow-md">
       {/* Lesson Title */}
       <div className="flex items-center justify-between">
-        <h2 className="text-foreground text-xl font-semibold">
-          {lesson.title}
-        </h2>
+        {isLocked ? (
+          <span className="text-muted-foreground flex items-center gap-2 text-xl font-semibold">
+            <Lock className="size-4" />
+            <KannadaText text={lesson.title} />
+          </span>
+        ) : (
+          <Link
+            href={`/learn/${lesson.level}/${lesson.id}`}
+            className="text-foreground text-xl font-semibold hover:underline"
+          >
+            <KannadaText text={lesson.title} />
+          </Link>
+        )}
 
         {/* Text-to-Speech Button */}
         <button
@@ -112,6 +129,25 @@ export default function LessonCard({ lesson }: LessonCardProps) {
       <div className="text-muted-foreground mt-2 text-sm">
         Level: {lesson.level.charAt(0).toUpperCase() + lesson.level.slice(1)}
       </div>
+
+      {/* Completion */}
+      <div className="mt-4">
+        <div className="text-muted-foreground mb-1 flex items-center justify-between text-xs">
+          <span className="flex items-center gap-1">
+            {isCompleted && <CheckCircle2 className="size-3 text-green-600" />}
+            {isLocked && <Lock className="size-3" />}
+            {isCompleted
+              ? "Completed"
+              : isLocked
+                ? "Locked"
+                : completion > 0
+                  ? "In progress"
+                  : "Not started"}
+          </span>
+          <span>{completion}%</span>
+        </div>
+        <Progress value={completion} className="h-2" />
+      </div>
     </div>
   )
 }
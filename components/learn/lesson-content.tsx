@@ -0,0 +1,233 @@
+/**
+ * @description
+ * This client component renders a structured lesson document for the Learn Kannada app.
+ * It displays every section of LessonContent: summary, grammar notes, a vocabulary table,
+ * example sentences, dialogues and cultural notes, with audio for Kannada text.
+ *
+ * Key features:
+ * - Grammar blocks with inline illustrative examples
+ * - Vocabulary table with per-word audio (recorded clip or text-to-speech)
+ * - Example sentences and dialogues with romanization and translation
+ * - Empty sections are skipped
+ *
+ * @dependencies
+ * - @/components/learn/speak-button: Per-item audio playback
+ * - @/components/ui/table: Shadcn Table for vocabulary
+ * - @/types: LessonContent and section types
+ *
+ * @notes
+ * - Expects content already normalized with readLessonContent
+ * - Reused by the learner lesson page and the authoring preview
+ */
+
+"use client"
+
+import SpeakButton from "@/components/learn/speak-button"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table"
+import { ExampleSentence, LessonContent } from "@/types"
+import { ReactNode } from "react"
+
+interface LessonContentViewProps {
+  content: LessonContent // Normalized lesson document
+}
+
+/**
+ * LessonContentView renders all sections of a lesson.
+ * @param {LessonContentViewProps} props - The lesson document
+ * @returns {JSX.Element} The rendered lesson body
+ */
+export default function LessonContentView({ content }: LessonContentViewProps) {
+  const isEmpty =
+    !content.summary &&
+    content.grammarNotes.length === 0 &&
+    content.vocabulary.length === 0 &&
+    content.examples.length === 0 &&
+    content.dialogues.length === 0 &&
+    content.culturalNotes.length === 0
+
+  if (isEmpty) {
+    return (
+      <div className="text-muted-foreground">
+        This lesson has no content yet.
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-10">
+      {content.summary && (
+        <div className="text-muted-foreground text-lg">{content.summary}</div>
+      )}
+
+      {content.grammarNotes.length > 0 && (
+        <LessonSection title="Grammar">
+          {content.grammarNotes.map((note, index) => (
+            <div key={index} className="bg-card rounded-lg border p-4">
+              <div className="text-foreground font-semibold">{note.title}</div>
+
+              <div className="text-foreground mt-2 whitespace-pre-line">
+                {note.explanation}
+              </div>
+
+              {note.examples && note.examples.length > 0 && (
+                <div className="mt-4 space-y-3">
+                  {note.examples.map((example, exampleIndex) => (
+                    <ExampleSentenceRow key={exampleIndex} example={example} />
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </LessonSection>
+      )}
+
+      {content.vocabulary.length > 0 && (
+        <LessonSection title="Vocabulary">
+          <div className="rounded-lg border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Kannada</TableHead>
+                  <TableHead>Romanization</TableHead>
+                  <TableHead>Meaning</TableHead>
+                  <TableHead className="w-12">
+                    <span className="sr-only">Audio</span>
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+
+              <TableBody>
+                {content.vocabulary.map((item, index) => (
+                  <TableRow key={index}>
+                    <TableCell className="text-lg font-medium">
+                      {item.kannada}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {item.transliteration ?? "—"}
+                    </TableCell>
+                    <TableCell>
+                      {item.english}
+                      {item.partOfSpeech && (
+                        <span className="text-muted-foreground ml-2 text-xs italic">
+                          {item.partOfSpeech}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <SpeakButton
+                        text={item.kannada}
+                        audioUrl={item.audioUrl}
+                        label={`Listen to ${item.english}`}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </LessonSection>
+      )}
+
+      {content.examples.length > 0 && (
+        <LessonSection title="Example Sentences">
+          <div className="space-y-3">
+            {content.examples.map((example, index) => (
+              <ExampleSentenceRow key={index} example={example} />
+            ))}
+          </div>
+        </LessonSection>
+      )}
+
+      {content.dialogues.length > 0 && (
+        <LessonSection title="Dialogues">
+          {content.dialogues.map((dialogue, index) => (
+            <div key={index} className="bg-card rounded-lg border p-4">
+              <div className="text-foreground font-semibold">
+                {dialogue.title}
+              </div>
+              {dialogue.context && (
+                <div className="text-muted-foreground text-sm">
+                  {dialogue.context}
+                </div>
+              )}
+
+              <div className="mt-4 space-y-3">
+                {dialogue.lines.map((line, lineIndex) => (
+                  <div key={lineIndex} className="flex gap-3">
+                    <div className="text-muted-foreground w-24 shrink-0 text-sm font-medium">
+                      {line.speaker}
+                    </div>
+                    <ExampleSentenceRow example={line} />
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </LessonSection>
+      )}
+
+      {content.culturalNotes.length > 0 && (
+        <LessonSection title="Culture Corner">
+          {content.culturalNotes.map((note, index) => (
+            <div key={index} className="bg-muted rounded-lg p-4">
+              <div className="text-foreground font-semibold">{note.title}</div>
+              <div className="text-foreground mt-1 whitespace-pre-line">
+                {note.body}
+              </div>
+            </div>
+          ))}
+        </LessonSection>
+      )}
+    </div>
+  )
+}
+
+/**
+ * LessonSection renders a titled section of the lesson.
+ */
+function LessonSection({
+  title,
+  children
+}: {
+  title: string
+  children: ReactNode
+}) {
+  return (
+    <div>
+      <h2 className="text-foreground mb-4 text-2xl font-semibold">{title}</h2>
+      <div className="space-y-4">{children}</div>
+    </div>
+  )
+}
+
+/**
+ * ExampleSentenceRow renders a Kannada sentence with audio, romanization and translation.
+ */
+function ExampleSentenceRow({ example }: { example: ExampleSentence }) {
+  return (
+    <div className="flex-1">
+      <div className="flex items-center gap-2">
+        <span className="text-foreground text-lg">{example.kannada}</span>
+        <SpeakButton text={example.kannada} label="Listen to sentence" />
+      </div>
+      {example.transliteration && (
+        <div className="text-muted-foreground text-sm italic">
+          {example.transliteration}
+        </div>
+      )}
+      <div className="text-foreground text-sm">{example.english}</div>
+      {example.notes && (
+        <div className="text-muted-foreground mt-1 text-xs">
+          {example.notes}
+        </div>
+      )}
+    </div>
+  )
+}
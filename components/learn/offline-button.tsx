@@ -20,7 +20,7 @@
  * - Assumes lesson content is stored as JSON in Supabase Storage (from Step 26)
  * - No direct Supabase calls; relies on server action per project rules
  * - Handles edge cases like failed downloads or missing URLs
- * - Filename includes lesson ID for uniqueness
+ * - Filename includes the lesson ID and the published revision it was taken from
  */
 
 "use client"
@@ -65,7 +65,7 @@ export default function OfflineButton({ lessonId }: OfflineButtonProps) {
       const url = window.URL.createObjectURL(blob)
       const link = document.createElement("a")
       link.href = url
-      link.download = `lesson-${lessonId}.json` // Unique filename with lesson ID
+      link.download = result.data.fileName // Names the lesson and the revision it was taken from
       document.body.appendChild(link)
       link.click()
       document.body.removeChild(link)
@@ -6,12 +6,13 @@
  * pages to support interactive pronunciation learning.
  *
  * Key features:
- * - Phrase Display: Shows the Kannada phrase to practice
+ * - Phrase Display: Shows the Kannada phrase to practice in the learner's script display preference
  * - Speech Recording: Uses Web Speech API to record and transcribe user speech
  * - Responsive UI: Clean, minimalistic design with Tailwind CSS and Shadcn components
  * - Error Handling: Handles unsupported browsers and recognition errors gracefully
  *
  * @dependencies
+ * - @/components/learn/kannada-text: Script display for the phrase
  * - @/components/ui/button: Shadcn Button for record/stop controls
  * - @/components/ui/textarea: Shadcn Textarea for displaying transcription
  * - lucide-react: Provides Mic and Send icons for UI
@@ -27,6 +28,7 @@
 
 "use client"
 
+import KannadaText from "@/components/learn/kannada-text"
 import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
 import { Mic, Send } from "lucide-react"
@@ -41,6 +43,7 @@ import {
 // Define props interface for type safety
 interface PronunciationGuideProps {
   phrase: string // The Kannada phrase to practice
+  gloss?: string // Optional English meaning of the phrase
   onSubmit: (transcript: string) => Promise<void> // Handler to process the recorded speech
 }
 
@@ -51,6 +54,7 @@ interface PronunciationGuideProps {
  */
 export default function PronunciationGuide({
   phrase,
+  gloss,
   onSubmit
 }: PronunciationGuideProps) {
   const [isRecording, setIsRecording] = useState(false)
@@ -109,7 +113,9 @@ export default function PronunciationGuide({
   return (
     <div className="w-full max-w-lg space-y-6 p-4">
       {/* Display the phrase to practice */}
-      <div className="text-foreground text-lg font-medium">{phrase}</div>
+      <div className="text-foreground text-lg font-medium">
+        <KannadaText text={phrase} gloss={gloss} />
+      </div>
 
       {/* Recording controls and transcript display */}
       {isSupported ? (
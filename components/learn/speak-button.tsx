@@ -0,0 +1,66 @@
+/**
+ * @description
+ * This client component renders a small icon button that reads Kannada text aloud.
+ * It plays a recorded clip when an audio URL is provided and falls back to the
+ * browser's speech synthesis otherwise. Used for per-word and per-sentence audio in lessons.
+ *
+ * Key features:
+ * - Recorded audio first, text-to-speech fallback
+ * - Pulses while speaking; disabled when no audio source is available
+ *
+ * @dependencies
+ * - @/lib/hooks/use-speech-synthesis: Playback and synthesis hook
+ * - @/lib/utils: cn helper for class names
+ * - lucide-react: Volume2 icon
+ *
+ * @notes
+ * - Speech synthesis uses the "kn-IN" voice; browsers without one fall back to their default voice
+ */
+
+"use client"
+
+import { useSpeechSynthesis } from "@/lib/hooks/use-speech-synthesis"
+import { cn } from "@/lib/utils"
+import { Volume2 } from "lucide-react"
+
+interface SpeakButtonProps {
+  text: string // Kannada text to read aloud
+  audioUrl?: string // Optional recorded pronunciation
+  label?: string // Accessible label; defaults to "Listen"
+  className?: string
+}
+
+/**
+ * SpeakButton plays audio for a word or sentence.
+ * @param {SpeakButtonProps} props - Text, optional audio URL and label
+ * @returns {JSX.Element} An icon button
+ */
+export default function SpeakButton({
+  text,
+  audioUrl,
+  label = "Listen",
+  className
+}: SpeakButtonProps) {
+  const { isSupported, isSpeaking, speak } = useSpeechSynthesis()
+  const canSpeak = isSupported || !!audioUrl
+
+  return (
+    <button
+      type="button"
+      onClick={() => speak(text, { audioUrl })}
+      disabled={!canSpeak || isSpeaking}
+      className={cn(
+        "rounded-full p-1.5 transition-colors",
+        canSpeak
+          ? "text-muted-foreground hover:text-primary"
+          : "text-muted cursor-not-allowed",
+        isSpeaking && "animate-pulse",
+        className
+      )}
+      aria-label={label}
+      title={canSpeak ? label : "Audio not supported"}
+    >
+      <Volume2 className="size-4" />
+    </button>
+  )
+}
@@ -1,141 +1,177 @@
 /**
  * @description
- * This client-side component renders a chatbot interface for the Learn Kannada app.
- * It allows users to practice conversational Kannada with AI-generated responses,
- * integrating with server actions for real-time feedback.
+ * This client-side component renders the Kannada tutor chat for the Learn Kannada app.
+ * Learners converse with the AI tutor, which replies in Kannada at their level and
+ * corrects each of their messages; the conversation is saved as it goes.
  *
  * Key features:
- * - Conversation history: Displays user and AI messages with timestamps
- * - Real-time input: Handles user messages with form submission
- * - AI integration: Uses getGrammarExplanationAction for responses (placeholder for future conversational action)
+ * - Conversation history: Displays learner and tutor messages with timestamps
+ * - Real-time input: Handles learner messages with form submission
+ * - Streaming: The tutor's reply appears as it is written, and can be stopped
+ * - Tutor replies: Kannada reply with its English translation underneath
+ * - Corrections: Mistakes are underlined in the learner's message, with the fix on hover
+ * - Script display: Tutor replies follow the learner's script display preference
+ * - Role-play: Runs a scenario, opening with the character's first line
  * - Responsive design: Clean, minimalistic UI with Tailwind CSS and Shadcn components
  *
  * @dependencies
- * - @/actions/ai-actions: Imports getGrammarExplanationAction for AI responses
+ * - @/components/learn/kannada-text: Script display for message text
+ * - @/components/practice/grammar-feedback-view: Underlines mistakes in learner messages
  * - @/components/ui/button: Shadcn Button for submission
  * - @/components/ui/input: Shadcn Input for message entry
  * - @/components/ui/scroll-area: Shadcn ScrollArea for conversation history
- * - lucide-react: Provides Send icon
+ * - @/lib/hooks/use-ai-stream: Streams replies from the /api/ai/tutor route
+ * - @/types: Tutor types
+ * - lucide-react: Provides Send and Square icons
  * - react: Manages state and effects
  *
  * @notes
  * - Runs as a client component ("use client") for interactive UI
- * - Currently uses getGrammarExplanationAction; a dedicated conversational action could be added later
- * - Messages are stored locally in state; persistence could be added with a backend table
- * - Assumes user input is in Kannada or Romanized Kannada; transliteration support pending
- * - Error handling displays messages in the UI for user feedback
+ * - The /api/ai/tutor route saves each exchange once the reply is complete; translations and
+ *   corrections are shown then
+ * - Sending a new message while a reply is streaming cancels that reply, and so does leaving the page;
+ *   a cancelled or interrupted exchange is not saved
+ * - After Stop or an interrupted reply, the learner's message is put back in the input to resend
+ * - When a conversation is started, onStarted is called with its ID so the page can show it in the list
+ * - With a scenarioId, a new conversation starts that role-play; onExchange reports each saved exchange,
+ *   with the goals met so far
+ * - Learner messages are shown as written, so the underlines line up with the text
  */
 
 "use client"
 
-import { getGrammarExplanationAction } from "@/actions/ai-actions"
+import KannadaText from "@/components/learn/kannada-text"
+import GrammarFeedbackView from "@/components/practice/grammar-feedback-view"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { ScrollArea } from "@/components/ui/scroll-area"
-import { Send } from "lucide-react"
+import { useAIStream } from "@/lib/hooks/use-ai-stream"
+import { TutorConversation, TutorExchange, TutorMessage } from "@/types"
+import { Send, Square } from "lucide-react"
 import { FormEvent, useState } from "react"
 
-/**
- * Interface for a chat message.
- */
-interface ChatMessage {
-  id: number // Unique identifier for each message
-  sender: "user" | "ai" // Who sent the message
-  content: string // Message text
-  timestamp: string // ISO string of when the message was sent
+interface ChatbotProps {
+  conversation: TutorConversation | null // Conversation to resume, or null for a new one
+  scenarioId?: string // Role-play scenario a new conversation plays
+  opening?: { kannada: string; english: string } // First line of the role-play character
+  onStarted?: (conversationId: string) => void // Called once a new conversation is saved
+  onExchange?: (exchange: TutorExchange) => void // Called after each saved exchange
 }
 
 /**
- * Chatbot component for conversational practice.
+ * Chatbot component for conversational practice with the tutor.
+ * @param {ChatbotProps} props - The conversation to show
  * @returns {JSX.Element} The chatbot UI with input and message display
  */
-export default function Chatbot() {
+export default function Chatbot({
+  conversation,
+  scenarioId,
+  opening,
+  onStarted,
+  onExchange
+}: ChatbotProps) {
   // State for conversation history and current input
-  const [messages, setMessages] = useState<ChatMessage[]>([])
+  const [conversationId, setConversationId] = useState(conversation?.id ?? null)
+  const [messages, setMessages] = useState<TutorMessage[]>(
+    conversation?.messages ?? []
+  )
+  const [pending, setPending] = useState<string | null>(null)
   const [input, setInput] = useState("")
-  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const reply = useAIStream<TutorExchange>("/api/ai/tutor")
 
   // Handle form submission to send a message
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault()
-    if (!input.trim()) return // Prevent empty submissions
+    const content = input.trim()
+    if (!content) return // Prevent empty submissions
 
-    const userMessage: ChatMessage = {
-      id: Date.now(), // Simple ID based on timestamp
-      sender: "user",
-      content: input,
-      timestamp: new Date().toISOString()
+    setPending(content) // Replaces any message whose reply is still streaming
+    setInput("") // Clear input field
+    setError(null)
+
+    const result = await reply.start({ conversationId, content, scenarioId })
+    if (!result) return // Cancelled; a newer message or Stop has taken over
+
+    setPending(null)
+    if (!result.isSuccess) {
+      setInput(current => current || content) // Give the message back so it can be resent
+      setError(result.message)
+      return
     }
 
-    // Add user message to history
-    setMessages(prev => [...prev, userMessage])
-    setInput("") // Clear input field
-    setIsLoading(true)
-
-    try {
-      // Call server action for AI response (using grammar explanation as a placeholder)
-      const result = await getGrammarExplanationAction(input)
-      const aiContent = result.isSuccess
-        ? result.data
-        : `Error: ${result.message}`
-
-      const aiMessage: ChatMessage = {
-        id: Date.now() + 1, // Ensure unique ID
-        sender: "ai",
-        content: aiContent,
-        timestamp: new Date().toISOString()
-      }
-
-      // Add AI response to history
-      setMessages(prev => [...prev, aiMessage])
-    } catch (error) {
-      // Handle unexpected errors (e.g., network issues)
-      const errorMessage: ChatMessage = {
-        id: Date.now() + 1,
-        sender: "ai",
-        content: "Sorry, something went wrong. Please try again.",
-        timestamp: new Date().toISOString()
-      }
-      setMessages(prev => [...prev, errorMessage])
-      console.error("Chatbot error:", error)
-    } finally {
-      setIsLoading(false)
+    // Dates arrive as strings in the streamed JSON
+    const { userMessage, reply: tutorReply } = result.data
+    setMessages(prev => [
+      ...prev,
+      { ...userMessage, createdAt: new Date(userMessage.createdAt) },
+      { ...tutorReply, createdAt: new Date(tutorReply.createdAt) }
+    ])
+    if (!conversationId) {
+      setConversationId(result.data.conversationId)
+      onStarted?.(result.data.conversationId)
     }
+    onExchange?.(result.data)
+  }
+
+  // Stop the reply and put the message back in the input
+  const handleStop = () => {
+    reply.cancel()
+    setInput(current => current || pending || "")
+    setPending(null)
   }
 
   return (
-    <div className="bg-background mx-auto flex h-[500px] w-full max-w-md flex-col rounded-lg border p-4 shadow-md">
+    <div className="bg-background mx-auto flex h-[600px] w-full max-w-2xl flex-col rounded-lg border p-4 shadow-md">
       {/* Chat history */}
       <ScrollArea className="mb-4 flex-1">
-        {messages.length === 0 ? (
+        {opening && (
+          <MessageBubble
+            message={{
+              id: "opening",
+              role: "assistant",
+              content: opening.kannada,
+              translation: opening.english,
+              corrections: null,
+              createdAt: null
+            }}
+          />
+        )}
+        {messages.length === 0 && !pending && !opening ? (
           <div className="text-muted-foreground text-center">
-            Start a conversation to practice Kannada!
+            Say hello in Kannada to start a conversation with your tutor!
           </div>
         ) : (
-          messages.map(message => (
-            <div
-              key={message.id}
-              className={`mb-2 flex ${
-                message.sender === "user" ? "justify-end" : "justify-start"
-              }`}
-            >
-              <div
-                className={`max-w-[70%] rounded-lg p-2 ${
-                  message.sender === "user"
-                    ? "bg-primary text-primary-foreground"
-                    : "bg-muted text-foreground"
-                }`}
-              >
-                <p>{message.content}</p>
-                <p className="mt-1 text-xs opacity-70">
-                  {new Date(message.timestamp).toLocaleTimeString()}
-                </p>
-              </div>
-            </div>
-          ))
+          <>
+            {messages.map(message => (
+              <MessageBubble key={message.id} message={message} />
+            ))}
+            {pending && (
+              <>
+                <div className="mb-2 flex justify-end">
+                  <div className="bg-primary text-primary-foreground max-w-[70%] rounded-lg p-2 opacity-70">
+                    {pending}
+                  </div>
+                </div>
+                <div className="mb-2 flex justify-start">
+                  <div className="bg-muted text-foreground max-w-[70%] rounded-lg p-2">
+                    {reply.text ? (
+                      <KannadaText text={reply.text} />
+                    ) : (
+                      <span className="text-muted-foreground text-sm">
+                        Tutor is typing...
+                      </span>
+                    )}
+                  </div>
+                </div>
+              </>
+            )}
+          </>
         )}
       </ScrollArea>
 
+      {error && <div className="text-destructive mb-2 text-sm">{error}</div>}
+
       {/* Input form */}
       <form onSubmit={handleSubmit} className="flex gap-2">
         <Input
@@ -143,10 +179,16 @@ export default function Chatbot() {
           onChange={e => setInput(e.target.value)}
           placeholder="Type your message in Kannada..."
           className="flex-1"
-          disabled={isLoading}
         />
 
-        <Button type="submit" disabled={isLoading || !input.trim()}>
+        {reply.isStreaming && (
+          <Button type="button" variant="outline" onClick={handleStop}>
+            <Square className="size-4" />
+            <span className="sr-only">Stop reply</span>
+          </Button>
+        )}
+
+        <Button type="submit" disabled={!input.trim()}>
           <Send className="size-4" />
           <span className="sr-only">Send message</span>
         </Button>
@@ -154,3 +196,50 @@ export default function Chatbot() {
     </div>
   )
 }
+
+/**
+ * MessageBubble shows one message: the learner's with its corrections, or the tutor's with its translation.
+ */
+function MessageBubble({
+  message
+}: {
+  message: Omit<TutorMessage, "createdAt"> & { createdAt: Date | null }
+}) {
+  const isUser = message.role === "user"
+  const corrections = message.corrections
+
+  return (
+    <div className={`mb-2 flex ${isUser ? "justify-end" : "justify-start"}`}>
+      <div
+        className={`max-w-[70%] rounded-lg p-2 ${
+          isUser
+            ? "bg-primary text-primary-foreground"
+            : "bg-muted text-foreground"
+        }`}
+      >
+        {isUser && corrections ? (
+          <>
+            <GrammarFeedbackView feedback={corrections} showDetails={false} />
+            {corrections.errors.length > 0 && (
+              <p className="mt-1 text-sm opacity-80">
+                {corrections.summary} {corrections.correctedSentence}
+              </p>
+            )}
+          </>
+        ) : (
+          <p>
+            <KannadaText text={message.content} />
+          </p>
+        )}
+        {!isUser && message.translation && (
+          <p className="mt-1 text-sm opacity-70">{message.translation}</p>
+        )}
+        {message.createdAt && (
+          <p className="mt-1 text-xs opacity-70">
+            {new Date(message.createdAt).toLocaleTimeString()}
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
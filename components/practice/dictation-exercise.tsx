@@ -0,0 +1,115 @@
+/**
+ * @description
+ * This client-side component renders a listening dictation exercise for the Learn Kannada app.
+ * Learners play the audio, at normal or slow speed, and type what they hear.
+ *
+ * Key features:
+ * - Plays the recorded clip when one exists, otherwise reads the text with text-to-speech
+ * - Slow replay for synthesized audio
+ * - Textarea for the learner's transcription
+ *
+ * @dependencies
+ * - @/components/ui/button: Shadcn Button for playback and submission
+ * - @/components/ui/textarea: Shadcn Textarea for the transcription
+ * - @/lib/hooks/use-speech-synthesis: Playback and synthesis hook
+ * - @/types: LearnerDictationContent and ExerciseResponse types
+ * - lucide-react: Provides icons (e.g., Check, Snail, Volume2)
+ *
+ * @notes
+ * - Expects the learner projection of the exercise (see toLearnerExercise): the text arrives only when there is
+ *   no recording to play, and is never rendered; it is only spoken
+ * - Submission handler is expected to call a server action (e.g., submitExerciseAction)
+ */
+
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { useSpeechSynthesis } from "@/lib/hooks/use-speech-synthesis"
+import { ExerciseResponse, LearnerDictationContent } from "@/types"
+import { Check, Snail, Volume2 } from "lucide-react"
+import { useState } from "react"
+
+interface DictationExerciseProps {
+  exercise: { id: string; content: LearnerDictationContent } // Exercise without its answer
+  onSubmit: (response: ExerciseResponse) => Promise<void> // Handler to process submission
+}
+
+/**
+ * DictationExercise component renders playback controls and a transcription box.
+ * @param {DictationExerciseProps} props - Exercise data and submission handler
+ * @returns {JSX.Element} The dictation UI
+ */
+export default function DictationExercise({
+  exercise,
+  onSubmit
+}: DictationExerciseProps) {
+  const { audioUrl, speechText } = exercise.content
+  const { isSupported, isSpeaking, speak } = useSpeechSynthesis()
+  const [response, setResponse] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const canPlay = !!audioUrl || (isSupported && !!speechText)
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true)
+    await onSubmit(response.trim())
+    setIsSubmitting(false)
+  }
+
+  return (
+    <div className="w-full max-w-lg space-y-6 p-4">
+      <div className="text-foreground text-lg font-medium">
+        Listen and type what you hear.
+      </div>
+
+      {canPlay ? (
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            className="flex-1"
+            disabled={isSpeaking}
+            onClick={() => speak(speechText ?? "", { audioUrl })}
+          >
+            <Volume2 className="mr-2 size-4" />
+            Play
+          </Button>
+          {!audioUrl && (
+            <Button
+              type="button"
+              variant="outline"
+              className="flex-1"
+              disabled={isSpeaking}
+              onClick={() => speak(speechText ?? "", { rate: 0.6 })}
+            >
+              <Snail className="mr-2 size-4" />
+              Play slowly
+            </Button>
+          )}
+        </div>
+      ) : (
+        <div className="text-muted-foreground">
+          Audio playback is not supported in your browser.
+        </div>
+      )}
+
+      <Textarea
+        value={response}
+        onChange={event => setResponse(event.target.value)}
+        placeholder="Type in Kannada..."
+        className="h-24 resize-none"
+        aria-label="Your transcription"
+      />
+
+      <Button
+        onClick={handleSubmit}
+        disabled={!response.trim() || isSubmitting}
+        className="w-full"
+      >
+        <Check className="mr-2 size-4" />
+        Submit Answer
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,64 @@
+/**
+ * @description
+ * This client component renders the learner-facing component for an exercise's type.
+ * It is shared by the lesson practice runner, the practice page and the authoring preview so all
+ * show exercises exactly as learners see them.
+ *
+ * Key features:
+ * - Dispatches on the exercise type with typed learner content
+ *
+ * @dependencies
+ * - @/components/practice/*: One exercise component per type
+ * - @/types: ExerciseResponse and LearnerExercise types
+ *
+ * @notes
+ * - Submission is delegated to the onSubmit prop; the response shape depends on the type (see ExerciseResponse)
+ * - Exercises arrive as learner projections (see toLearnerExercise), so answer keys never reach the browser;
+ *   exercises whose content does not fit their type are left out by the server
+ */
+
+"use client"
+
+import DictationExercise from "@/components/practice/dictation-exercise"
+import FillBlankExercise from "@/components/practice/fill-blank-exercise"
+import MatchingExercise from "@/components/practice/matching-exercise"
+import QuizExercise from "@/components/practice/quiz-exercise"
+import SpeakingExercise from "@/components/practice/speaking-exercise"
+import TranslationExercise from "@/components/practice/translation-exercise"
+import WordOrderExercise from "@/components/practice/word-order-exercise"
+import WritingExercise from "@/components/practice/writing-exercise"
+import { ExerciseResponse, LearnerExercise } from "@/types"
+
+interface ExerciseRendererProps {
+  exercise: LearnerExercise // Exercise to render, without its answer key
+  onSubmit: (response: ExerciseResponse) => Promise<void> // Handler for the learner's response
+}
+
+/**
+ * ExerciseRenderer renders the component for an exercise's type.
+ * @param {ExerciseRendererProps} props - The exercise and submission handler
+ * @returns {JSX.Element} The exercise UI
+ */
+export default function ExerciseRenderer({
+  exercise,
+  onSubmit
+}: ExerciseRendererProps) {
+  switch (exercise.type) {
+    case "quiz":
+      return <QuizExercise exercise={exercise} onSubmit={onSubmit} />
+    case "writing":
+      return <WritingExercise exercise={exercise} onSubmit={onSubmit} />
+    case "speaking":
+      return <SpeakingExercise exercise={exercise} onSubmit={onSubmit} />
+    case "matching":
+      return <MatchingExercise exercise={exercise} onSubmit={onSubmit} />
+    case "fill-blank":
+      return <FillBlankExercise exercise={exercise} onSubmit={onSubmit} />
+    case "word-order":
+      return <WordOrderExercise exercise={exercise} onSubmit={onSubmit} />
+    case "dictation":
+      return <DictationExercise exercise={exercise} onSubmit={onSubmit} />
+    case "translation":
+      return <TranslationExercise exercise={exercise} onSubmit={onSubmit} />
+  }
+}
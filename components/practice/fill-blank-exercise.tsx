@@ -0,0 +1,109 @@
+/**
+ * @description
+ * This client-side component renders a fill-in-the-blank (cloze) exercise for the Learn Kannada app.
+ * The sentence is shown with an input in each gap, typically for a case ending such as ಗೆ or ಅನ್ನು.
+ *
+ * Key features:
+ * - Inline inputs that grow with the learner's text, with optional hints (e.g. "dative") underneath
+ * - English meaning of the sentence shown as a prompt when authored
+ * - Submits one entry per blank, in order
+ *
+ * @dependencies
+ * - @/components/ui/button: Shadcn Button for submission
+ * - @/components/ui/input: Shadcn Input for the gaps
+ * - @/lib/validation/exercise-content-validation: BLANK_MARKER for splitting the sentence
+ * - @/types: LearnerFillBlankContent and ExerciseResponse types
+ * - lucide-react: Provides icons (e.g., Check)
+ *
+ * @notes
+ * - Expects the learner projection of the exercise (see toLearnerExercise); the answers stay on the server
+ * - The sentence is shown in Kannada script whatever the script display preference, since learners type into it
+ * - Submission handler is expected to call a server action (e.g., submitExerciseAction)
+ */
+
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { BLANK_MARKER } from "@/lib/validation/exercise-content-validation"
+import { ExerciseResponse, LearnerFillBlankContent } from "@/types"
+import { Check } from "lucide-react"
+import { Fragment, useState } from "react"
+
+interface FillBlankExerciseProps {
+  exercise: { id: string; content: LearnerFillBlankContent } // Exercise without its answers
+  onSubmit: (response: ExerciseResponse) => Promise<void> // Handler to process submission
+}
+
+/**
+ * FillBlankExercise component renders a sentence with inputs in its gaps.
+ * @param {FillBlankExerciseProps} props - Exercise data and submission handler
+ * @returns {JSX.Element} The cloze sentence and a submit button
+ */
+export default function FillBlankExercise({
+  exercise,
+  onSubmit
+}: FillBlankExerciseProps) {
+  const { sentence, hints, english } = exercise.content
+  const parts = sentence.split(BLANK_MARKER)
+
+  const [answers, setAnswers] = useState<string[]>(() => hints.map(() => ""))
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const isComplete = answers.every(answer => answer.trim())
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true)
+    await onSubmit(answers.map(answer => answer.trim()))
+    setIsSubmitting(false)
+  }
+
+  return (
+    <div className="w-full max-w-lg space-y-6 p-4">
+      {english && (
+        <div className="text-muted-foreground text-sm">{english}</div>
+      )}
+
+      <div className="text-foreground flex flex-wrap items-start gap-x-1 gap-y-3 text-lg font-medium leading-loose">
+        {parts.map((part, index) => (
+          <Fragment key={index}>
+            {part && <span>{part}</span>}
+            {index < hints.length && (
+              <span className="inline-flex flex-col items-center">
+                <Input
+                  aria-label={`Blank ${index + 1}`}
+                  value={answers[index]}
+                  onChange={event =>
+                    setAnswers(
+                      answers.map((answer, i) =>
+                        i === index ? event.target.value : answer
+                      )
+                    )
+                  }
+                  className="h-8 text-center"
+                  style={{
+                    width: `${Math.max(answers[index].length + 3, 6)}ch`
+                  }}
+                />
+                {hints[index] && (
+                  <span className="text-muted-foreground text-xs">
+                    {hints[index]}
+                  </span>
+                )}
+              </span>
+            )}
+          </Fragment>
+        ))}
+      </div>
+
+      <Button
+        onClick={handleSubmit}
+        disabled={!isComplete || isSubmitting}
+        className="w-full"
+      >
+        <Check className="mr-2 size-4" />
+        Submit Answer
+      </Button>
+    </div>
+  )
+}
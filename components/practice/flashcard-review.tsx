@@ -0,0 +1,204 @@
+/**
+ * @description
+ * This client component runs a vocabulary flashcard session for the Learn Kannada app.
+ * The learner sees a Kannada word, recalls its meaning, reveals the answer and rates
+ * how well they remembered it; the rating schedules the word's next review.
+ *
+ * Key features:
+ * - Word front with pronunciation (recording when there is one, speech synthesis otherwise)
+ * - Answer side with romanization, meaning, part of speech and an example sentence
+ * - Again / Hard / Good / Easy buttons showing when the word would come back
+ * - Words rated "again" return at the end of the session
+ *
+ * @dependencies
+ * - @/components/ui/badge: Shadcn Badge for new words and part of speech
+ * - @/components/ui/button: Shadcn Button for controls
+ * - @/components/ui/progress: Shadcn Progress bar
+ * - @/lib/hooks/use-speech-synthesis: Plays the word
+ * - @/lib/vocabulary/srs: previewIntervals for the rating buttons
+ * - @/types: ActionState and vocabulary types
+ * - lucide-react: Provides icons (e.g., CheckCircle2, Eye, Volume2)
+ *
+ * @notes
+ * - Rating is delegated to the onRate prop (a server action defined by the page)
+ * - The front shows Kannada script only, whatever the script display preference, so the meaning stays hidden
+ */
+
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import { useSpeechSynthesis } from "@/lib/hooks/use-speech-synthesis"
+import { previewIntervals } from "@/lib/vocabulary/srs"
+import {
+  ActionState,
+  DailyVocabularyQueue,
+  RecallRating,
+  VocabularyCard,
+  VocabularyReviewState
+} from "@/types"
+import { CheckCircle2, Eye, Volume2 } from "lucide-react"
+import { useState } from "react"
+
+const RATINGS: { rating: RecallRating; label: string }[] = [
+  { rating: "again", label: "Again" },
+  { rating: "hard", label: "Hard" },
+  { rating: "good", label: "Good" },
+  { rating: "easy", label: "Easy" }
+]
+
+interface FlashcardReviewProps {
+  queue: DailyVocabularyQueue // Today's cards
+  onRate: (
+    vocabularyId: string,
+    rating: RecallRating
+  ) => Promise<ActionState<VocabularyReviewState>>
+}
+
+/**
+ * FlashcardReview steps through the day's vocabulary cards.
+ * @param {FlashcardReviewProps} props - The queue and rating handler
+ * @returns {JSX.Element} The current card, or a message once the queue is done
+ */
+export default function FlashcardReview({
+  queue,
+  onRate
+}: FlashcardReviewProps) {
+  const [cards, setCards] = useState<VocabularyCard[]>(queue.cards)
+  const [index, setIndex] = useState(0)
+  const [isRevealed, setIsRevealed] = useState(false)
+  const [isRating, setIsRating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const { isSupported, speak } = useSpeechSynthesis()
+
+  const card = cards[index]
+
+  // Record the rating, then move on; forgotten words go to the back of the session
+  const handleRate = async (rating: RecallRating) => {
+    setIsRating(true)
+    const result = await onRate(card.id, rating)
+    setIsRating(false)
+    if (!result.isSuccess) {
+      setError(result.message)
+      return
+    }
+
+    setError(null)
+    if (rating === "again") {
+      setCards(prev => [...prev, { ...card, review: result.data }])
+    }
+    setIsRevealed(false)
+    setIndex(prev => prev + 1)
+  }
+
+  if (!card) {
+    return (
+      <div className="space-y-2 py-8 text-center">
+        <CheckCircle2 className="mx-auto size-12 text-green-600" />
+        <div className="text-2xl font-bold">
+          {queue.cards.length > 0 ? "All done for today" : "No words to review"}
+        </div>
+        <div className="text-muted-foreground">
+          {queue.cards.length > 0
+            ? `You reviewed ${queue.cards.length} word${queue.cards.length !== 1 ? "s" : ""}. Come back tomorrow for more.`
+            : "Start a lesson to add its words to your flashcards."}
+        </div>
+      </div>
+    )
+  }
+
+  const intervals = previewIntervals(card.review)
+  const canPlay = !!card.audioUrl || isSupported
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <div className="text-muted-foreground mb-2 flex justify-between text-sm">
+          <span>
+            {queue.dueCount} due, {queue.newCount} new
+          </span>
+          <span>
+            {index + 1} / {cards.length}
+          </span>
+        </div>
+        <Progress value={(index / cards.length) * 100} />
+      </div>
+
+      <div className="space-y-4 rounded-md border p-6 text-center">
+        {!card.review && <Badge variant="secondary">New word</Badge>}
+        <div className="text-4xl font-bold">{card.kannada}</div>
+        {canPlay && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() =>
+              speak(card.kannada, { audioUrl: card.audioUrl ?? undefined })
+            }
+          >
+            <Volume2 className="mr-2 size-4" />
+            Listen
+          </Button>
+        )}
+
+        {isRevealed && (
+          <div className="space-y-2 border-t pt-4">
+            {card.transliteration && (
+              <div className="text-muted-foreground">
+                {card.transliteration}
+              </div>
+            )}
+            <div className="text-2xl">{card.english}</div>
+            {card.partOfSpeech && (
+              <Badge variant="outline">{card.partOfSpeech}</Badge>
+            )}
+            {card.exampleKannada && (
+              <div className="text-sm">
+                <div>{card.exampleKannada}</div>
+                {card.exampleEnglish && (
+                  <div className="text-muted-foreground">
+                    {card.exampleEnglish}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {isRevealed ? (
+        <div className="grid grid-cols-4 gap-2">
+          {RATINGS.map(({ rating, label }) => (
+            <Button
+              key={rating}
+              variant={rating === "again" ? "outline" : "default"}
+              onClick={() => handleRate(rating)}
+              disabled={isRating}
+              className="flex h-auto flex-col py-2"
+            >
+              {label}
+              <span className="text-xs font-normal opacity-80">
+                {formatInterval(intervals[rating])}
+              </span>
+            </Button>
+          ))}
+        </div>
+      ) : (
+        <Button onClick={() => setIsRevealed(true)} className="w-full">
+          <Eye className="mr-2 size-4" />
+          Show answer
+        </Button>
+      )}
+
+      {error && (
+        <div className="text-muted-foreground text-center">{error}</div>
+      )}
+    </div>
+  )
+}
+
+// "now", "1 day", "6 days"
+function formatInterval(days: number): string {
+  if (days === 0) return "now"
+  return `${days} day${days !== 1 ? "s" : ""}`
+}
@@ -0,0 +1,102 @@
+/**
+ * @description
+ * This client component shows grammar feedback on a learner's sentence for the Learn Kannada app.
+ * Each mistake is underlined where it occurs; hovering or focusing it shows the fix,
+ * the kind of mistake and a short explanation.
+ *
+ * Key features:
+ * - Inline underlines at each mistake's exact span
+ * - Tooltip with the correction, category and explanation
+ * - Optional summary and corrected sentence underneath
+ *
+ * @dependencies
+ * - @/components/ui/tooltip: Shadcn Tooltip for the fix on hover
+ * - @/lib/ai/grammar-feedback: segmentSentence for the underlined parts
+ * - @/types: GrammarErrorCategory and GrammarFeedback types
+ *
+ * @notes
+ * - Underlined parts are focusable so the fix can be read without a mouse
+ * - Used by WritingExercise and Chatbot; the sentence is shown as written, in Kannada script
+ */
+
+"use client"
+
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger
+} from "@/components/ui/tooltip"
+import { segmentSentence } from "@/lib/ai/grammar-feedback"
+import { GrammarErrorCategory, GrammarFeedback } from "@/types"
+
+const CATEGORY_LABELS: Record<GrammarErrorCategory, string> = {
+  "case-ending": "Case ending",
+  "verb-agreement": "Verb agreement",
+  "word-order": "Word order",
+  spelling: "Spelling",
+  honorific: "Honorific"
+}
+
+interface GrammarFeedbackViewProps {
+  feedback: GrammarFeedback // Feedback to show
+  showDetails?: boolean // Show the summary and corrected sentence (default true)
+}
+
+/**
+ * GrammarFeedbackView underlines the mistakes in a sentence.
+ * @param {GrammarFeedbackViewProps} props - The feedback and display options
+ * @returns {JSX.Element} The sentence with its mistakes underlined
+ */
+export default function GrammarFeedbackView({
+  feedback,
+  showDetails = true
+}: GrammarFeedbackViewProps) {
+  const segments = segmentSentence(feedback.sentence, feedback.errors)
+
+  return (
+    <TooltipProvider delayDuration={100}>
+      <div className="space-y-2">
+        <p className="whitespace-pre-wrap">
+          {segments.map((segment, index) =>
+            segment.error ? (
+              <Tooltip key={index}>
+                <TooltipTrigger asChild>
+                  <span
+                    tabIndex={0}
+                    className="cursor-help underline decoration-red-500 decoration-wavy underline-offset-4"
+                  >
+                    {segment.text}
+                  </span>
+                </TooltipTrigger>
+                <TooltipContent className="max-w-xs space-y-1">
+                  <div className="font-medium">
+                    {segment.error.correction || "Remove this"}
+                  </div>
+                  <div className="text-muted-foreground text-xs uppercase">
+                    {CATEGORY_LABELS[segment.error.category]}
+                  </div>
+                  <div>{segment.error.explanation}</div>
+                </TooltipContent>
+              </Tooltip>
+            ) : (
+              <span key={index}>{segment.text}</span>
+            )
+          )}
+        </p>
+
+        {showDetails && (
+          <div className="space-y-1 text-sm">
+            {feedback.summary && <div>{feedback.summary}</div>}
+            {feedback.errors.length > 0 && (
+              <div>
+                <span className="opacity-70">Corrected: </span>
+                {feedback.correctedSentence}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </TooltipProvider>
+  )
+}
@@ -0,0 +1,136 @@
+/**
+ * @description
+ * This client-side component renders a matching exercise for the Learn Kannada app.
+ * Learners pair each Kannada word or phrase with its English meaning.
+ *
+ * Key features:
+ * - Kannada items in authored order, English items shuffled beside them
+ * - Select a Kannada item, then an English item, to pair them; select a paired item again to undo
+ * - Kannada items follow the learner's script display preference
+ * - Submits a map from each Kannada item to the chosen English item
+ *
+ * @dependencies
+ * - @/components/learn/kannada-text: Script display for the Kannada items
+ * - @/components/ui/button: Shadcn Button for items and submission
+ * - @/lib/utils: cn helper
+ * - @/types: LearnerMatchingContent and ExerciseResponse types
+ * - lucide-react: Provides icons (e.g., Check)
+ *
+ * @notes
+ * - Expects the learner projection of the exercise (see toLearnerExercise): the columns arrive without
+ *   the pairing, the English one already shuffled
+ * - Submission handler is expected to call a server action (e.g., submitExerciseAction)
+ */
+
+"use client"
+
+import KannadaText from "@/components/learn/kannada-text"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import { ExerciseResponse, LearnerMatchingContent } from "@/types"
+import { Check } from "lucide-react"
+import { useState } from "react"
+
+interface MatchingExerciseProps {
+  exercise: { id: string; content: LearnerMatchingContent } // Exercise without its pairing
+  onSubmit: (response: ExerciseResponse) => Promise<void> // Handler to process submission
+}
+
+/**
+ * MatchingExercise component renders two columns of items to pair up.
+ * @param {MatchingExerciseProps} props - Exercise data and submission handler
+ * @returns {JSX.Element} The matching board
+ */
+export default function MatchingExercise({
+  exercise,
+  onSubmit
+}: MatchingExerciseProps) {
+  const { instructions, kannadaItems, englishItems } = exercise.content
+
+  const [matches, setMatches] = useState<Record<string, string>>({})
+  const [selected, setSelected] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const matchedEnglish = new Set(Object.values(matches))
+  const isComplete = Object.keys(matches).length === kannadaItems.length
+
+  // Select a Kannada item, or unpair it if it is already matched
+  const handleKannada = (kannada: string) => {
+    if (matches[kannada]) {
+      const rest = { ...matches }
+      delete rest[kannada]
+      setMatches(rest)
+      return
+    }
+    setSelected(selected === kannada ? null : kannada)
+  }
+
+  // Pair the selected Kannada item with an English item
+  const handleEnglish = (english: string) => {
+    if (!selected || matchedEnglish.has(english)) return
+    setMatches({ ...matches, [selected]: english })
+    setSelected(null)
+  }
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true)
+    await onSubmit(matches)
+    setIsSubmitting(false)
+  }
+
+  return (
+    <div className="w-full max-w-lg space-y-6 p-4">
+      <div className="text-foreground text-lg font-medium">
+        {instructions ?? "Match each word with its meaning."}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          {kannadaItems.map(kannada => (
+            <Button
+              key={kannada}
+              type="button"
+              variant={selected === kannada ? "default" : "outline"}
+              className="h-auto w-full flex-col py-2"
+              onClick={() => handleKannada(kannada)}
+            >
+              <KannadaText text={kannada} />
+              {matches[kannada] && (
+                <span className="text-muted-foreground text-xs">
+                  = {matches[kannada]}
+                </span>
+              )}
+            </Button>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          {englishItems.map(english => (
+            <Button
+              key={english}
+              type="button"
+              variant="outline"
+              className={cn(
+                "h-auto w-full py-2",
+                matchedEnglish.has(english) && "opacity-40"
+              )}
+              disabled={!selected || matchedEnglish.has(english)}
+              onClick={() => handleEnglish(english)}
+            >
+              {english}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <Button
+        onClick={handleSubmit}
+        disabled={!isComplete || isSubmitting}
+        className="w-full"
+      >
+        <Check className="mr-2 size-4" />
+        Submit Matches
+      </Button>
+    </div>
+  )
+}
@@ -9,25 +9,28 @@
  * - Manages form state and submission with React Hook Form
  * - Clean, responsive UI with Tailwind CSS and Shadcn components
  * - Submits selected answer to a provided handler function
+ * - Question and options follow the learner's script display preference
  *
  * @dependencies
+ * - @/components/learn/kannada-text: Script display for the question and options
  * - @/components/ui/button: Shadcn Button for submission
  * - @/components/ui/form: Shadcn Form components for form structure
  * - @/components/ui/radio-group: Shadcn RadioGroup for options
- * - @/db/schema/exercises-schema: Imports SelectExercise for type safety
+ * - @/types: LearnerQuizContent type
  * - react-hook-form: Manages form state and validation
  * - lucide-react: Provides icons (e.g., Check)
  *
  * @notes
  * - Requires a parent component to fetch exercise data and pass it as props
- * - Assumes content JSON has a question and options array
+ * - Expects the learner projection of the exercise (see toLearnerExercise); the answer stays on the server
  * - Submission handler is expected to call a server action (e.g., submitExerciseAction)
  * - No direct server actions here; adheres to client component rules
- * - Handles edge case of missing/invalid content gracefully
+ * - Handles edge case of an empty options list gracefully
  */
 
 "use client"
 
+import KannadaText from "@/components/learn/kannada-text"
 import { Button } from "@/components/ui/button"
 import {
   Form,
@@ -38,9 +41,9 @@ import {
   FormMessage
 } from "@/components/ui/form"
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
-import { SelectExercise } from "@/db/schema/exercises-schema"
 import { zodResolver } from "@hookform/resolvers/zod"
 import { Check } from "lucide-react"
+import { LearnerQuizContent } from "@/types"
 import { useForm } from "react-hook-form"
 import * as z from "zod"
 
@@ -54,7 +57,7 @@ type QuizFormValues = z.infer<typeof quizFormSchema>
 
 // Define props interface
 interface QuizExerciseProps {
-  exercise: SelectExercise // Exercise data from database
+  exercise: { id: string; content: LearnerQuizContent } // Exercise without its answer
   onSubmit: (answer: string) => Promise<void> // Handler to process submission
 }
 
@@ -67,10 +70,7 @@ export default function QuizExercise({
   exercise,
   onSubmit
 }: QuizExerciseProps) {
-  // Parse exercise content (assuming JSON structure: { question: string, options: string[] })
-  const content = exercise.content as { question: string; options: string[] }
-  const question = content?.question ?? "No question available"
-  const options = content?.options ?? []
+  const { question, options } = exercise.content
 
   // Initialize form with React Hook Form
   const form = useForm<QuizFormValues>({
@@ -88,7 +88,9 @@ export default function QuizExercise({
       <Form {...form}>
         <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
           {/* Question display */}
-          <div className="text-foreground text-lg font-medium">{question}</div>
+          <div className="text-foreground text-lg font-medium">
+            <KannadaText text={question} />
+          </div>
 
           {/* Options */}
           <FormField
@@ -119,7 +121,7 @@ export default function QuizExercise({
                             htmlFor={`option-${index}`}
                             className="text-foreground"
                           >
-                            {option}
+                            <KannadaText text={option} />
                           </FormLabel>
                         </FormItem>
                       ))
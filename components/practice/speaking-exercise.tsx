@@ -6,14 +6,17 @@
  *
  * Key features:
  * - Speech Recording: Uses Web Speech API to capture and transcribe user speech
- * - Pronunciation Feedback: Submits transcript to AI server action for evaluation
+ * - Pronunciation Feedback: Streams AI feedback on the transcript as it is written
+ * - Script Display: The phrase follows the learner's script display preference
  * - Responsive UI: Clean design with Tailwind CSS and Shadcn components
  * - Error Handling: Manages unsupported browsers and API errors
  *
  * @dependencies
+ * - @/components/learn/kannada-text: Script display for the phrase
  * - @/components/ui/button: Shadcn Button for recording and submission
  * - @/components/ui/textarea: Shadcn Textarea for transcript display
- * - @/actions/ai-actions: Imports assessPronunciationAction for feedback
+ * - @/lib/hooks/use-ai-stream: Streams feedback from the /api/ai/pronunciation route
+ * - @/types: LearnerSpeakingContent type
  * - lucide-react: Provides Mic and Send icons
  * - react: Manages state and effects
  *
@@ -22,13 +25,16 @@
  * - Language set to "kn-IN" (Kannada) for accurate recognition
  * - No direct server actions are called here; submission is async via props
  * - Handles edge cases like empty transcripts or API failures with user feedback
+ * - Recording again or leaving the exercise cancels feedback that is still streaming
  */
 
 "use client"
 
+import KannadaText from "@/components/learn/kannada-text"
 import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
-import { assessPronunciationAction } from "@/actions/ai-actions"
+import { useAIStream } from "@/lib/hooks/use-ai-stream"
+import { LearnerSpeakingContent } from "@/types"
 import { Mic, Send } from "lucide-react"
 import { useState } from "react"
 import {
@@ -51,8 +57,8 @@ type SpeechRecognitionConstructor = new () => SpeechRecognition
 interface SpeakingExerciseProps {
   exercise: {
     id: string
-    content: { phrase: string } // Expected phrase from exercise content
-  } // Exercise data from database
+    content: LearnerSpeakingContent // Phrase to say and its optional English meaning
+  } // Exercise with validated content
   onSubmit: (response: string) => Promise<void>
 }
 
@@ -66,6 +72,7 @@ export default function SpeakingExercise({ exercise }: SpeakingExerciseProps) {
   const [transcript, setTranscript] = useState("")
   const [feedback, setFeedback] = useState("")
   const [isSupported, setIsSupported] = useState(true)
+  const assessment = useAIStream<string>("/api/ai/pronunciation")
 
   // Extract phrase from exercise content
   const phrase = exercise.content.phrase || "No phrase available"
@@ -104,6 +111,7 @@ export default function SpeakingExercise({ exercise }: SpeakingExerciseProps) {
       recognition.stop()
     } else {
       setTranscript("")
+      assessment.cancel()
       setFeedback("") // Clear previous feedback
       recognition.start()
       setIsRecording(true)
@@ -117,22 +125,26 @@ export default function SpeakingExercise({ exercise }: SpeakingExerciseProps) {
       return
     }
 
-    const { isSuccess, data, message } = await assessPronunciationAction(
+    setFeedback("")
+    const result = await assessment.start({
       transcript,
-      phrase
-    )
+      expectedPhrase: phrase
+    })
+    if (!result) return // Cancelled by a new recording or submission
 
-    if (isSuccess) {
-      setFeedback(data)
+    if (result.isSuccess) {
+      setFeedback(result.data)
     } else {
-      setFeedback(message || "Failed to get feedback. Please try again.")
+      setFeedback(result.message || "Failed to get feedback. Please try again.")
     }
   }
 
   return (
     <div className="w-full max-w-lg space-y-6 p-4">
       {/* Phrase display */}
-      <div className="text-foreground text-lg font-medium">{phrase}</div>
+      <div className="text-foreground text-lg font-medium">
+        <KannadaText text={phrase} gloss={exercise.content.english} />
+      </div>
 
       {/* Recording controls */}
       {isSupported ? (
@@ -159,17 +171,20 @@ export default function SpeakingExercise({ exercise }: SpeakingExerciseProps) {
           {/* Submit button */}
           <Button
             onClick={handleSubmit}
-            disabled={!transcript.trim() || isRecording}
+            disabled={
+              !transcript.trim() || isRecording || assessment.isStreaming
+            }
             className="w-full"
           >
             <Send className="mr-2 size-4" />
-            Submit Speech
+            {assessment.isStreaming ? "Assessing..." : "Submit Speech"}
           </Button>
 
-          {/* Feedback display */}
-          {feedback && (
+          {/* Feedback display, filled in as it streams */}
+          {(feedback || assessment.isStreaming) && (
             <div className="text-foreground bg-muted rounded-md p-4">
-              <strong>Feedback:</strong> {feedback}
+              <strong>Feedback:</strong>{" "}
+              {assessment.isStreaming ? assessment.text || "..." : feedback}
             </div>
           )}
         </>
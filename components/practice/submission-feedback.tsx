@@ -0,0 +1,89 @@
+/**
+ * @description
+ * This client component shows the outcome of an exercise submission in the Learn Kannada app:
+ * the grading feedback and, when the submission earned something, a short celebration.
+ *
+ * Key features:
+ * - Correct answers are highlighted; partial and wrong answers are shown neutrally
+ * - "+15 XP, streak 4 🔥" line for XP and the day's first submission
+ * - New badges are announced by name
+ *
+ * @dependencies
+ * - @/components/ui/badge: Shadcn Badge for newly earned badges
+ * - @/types: ActionState and ExerciseSubmission types
+ * - lucide-react: Provides icons (e.g., CheckCircle2, Trophy, XCircle)
+ *
+ * @notes
+ * - Failed submissions show the action's error message instead
+ * - Speaking exercises give their own feedback and never render this component
+ */
+
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { ActionState, ExerciseSubmission } from "@/types"
+import { CheckCircle2, Trophy, XCircle } from "lucide-react"
+
+interface SubmissionFeedbackProps {
+  result: ActionState<ExerciseSubmission> // Result of the submission action
+}
+
+/**
+ * SubmissionFeedback renders grading feedback and the reward earned.
+ * @param {SubmissionFeedbackProps} props - The submission result
+ * @returns {JSX.Element} Feedback, XP, streak and new badges
+ */
+export default function SubmissionFeedback({
+  result
+}: SubmissionFeedbackProps) {
+  if (!result.isSuccess) {
+    return (
+      <div className="bg-muted text-foreground flex items-center gap-2 rounded-md p-4">
+        <XCircle className="size-5" />
+        {result.message}
+      </div>
+    )
+  }
+
+  const { score, feedback, reward } = result.data
+  const isCorrect = score >= 1
+
+  // Streaks are celebrated once a day, on the submission that extended them
+  const celebration = [
+    reward.xpEarned > 0 && `+${reward.xpEarned} XP`,
+    reward.streakExtended && `streak ${reward.streak} 🔥`
+  ].filter(Boolean)
+
+  return (
+    <div
+      className={`space-y-2 rounded-md p-4 ${
+        isCorrect ? "bg-green-50 text-green-800" : "bg-muted text-foreground"
+      }`}
+    >
+      <div className="flex items-center gap-2">
+        {isCorrect ? (
+          <CheckCircle2 className="size-5" />
+        ) : (
+          <XCircle className="size-5" />
+        )}
+        {feedback}
+      </div>
+
+      {celebration.length > 0 && (
+        <div className="font-semibold" aria-live="polite">
+          {celebration.join(", ")}
+        </div>
+      )}
+
+      {reward.newBadges.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Trophy className="size-4 text-yellow-500" />
+          <span>New badge:</span>
+          {reward.newBadges.map(badge => (
+            <Badge key={badge}>{badge}</Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,87 @@
+/**
+ * @description
+ * This client-side component renders a free translation exercise for the Learn Kannada app.
+ * Learners translate a sentence from Kannada to English or from English to Kannada.
+ *
+ * Key features:
+ * - Shows the source sentence and which language to answer in
+ * - Kannada sources follow the learner's script display preference
+ * - Textarea for the learner's translation
+ *
+ * @dependencies
+ * - @/components/learn/kannada-text: Script display for Kannada sources
+ * - @/components/ui/button: Shadcn Button for submission
+ * - @/components/ui/textarea: Shadcn Textarea for the translation
+ * - @/types: LearnerTranslationContent and ExerciseResponse types
+ * - lucide-react: Provides icons (e.g., Check)
+ *
+ * @notes
+ * - Expects the learner projection of the exercise (see toLearnerExercise); accepted translations stay on the server
+ * - Submission handler is expected to call a server action (e.g., submitExerciseAction)
+ */
+
+"use client"
+
+import KannadaText from "@/components/learn/kannada-text"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { ExerciseResponse, LearnerTranslationContent } from "@/types"
+import { Check } from "lucide-react"
+import { useState } from "react"
+
+interface TranslationExerciseProps {
+  exercise: { id: string; content: LearnerTranslationContent } // Exercise without its accepted answers
+  onSubmit: (response: ExerciseResponse) => Promise<void> // Handler to process submission
+}
+
+/**
+ * TranslationExercise component renders a sentence to translate.
+ * @param {TranslationExerciseProps} props - Exercise data and submission handler
+ * @returns {JSX.Element} The source sentence and a translation box
+ */
+export default function TranslationExercise({
+  exercise,
+  onSubmit
+}: TranslationExerciseProps) {
+  const { source, direction } = exercise.content
+  const [response, setResponse] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const targetLanguage = direction === "kn-en" ? "English" : "Kannada"
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true)
+    await onSubmit(response.trim())
+    setIsSubmitting(false)
+  }
+
+  return (
+    <div className="w-full max-w-lg space-y-6 p-4">
+      <div className="space-y-1">
+        <div className="text-muted-foreground text-sm">
+          Translate into {targetLanguage}
+        </div>
+        <div className="text-foreground text-lg font-medium">
+          <KannadaText text={source} />
+        </div>
+      </div>
+
+      <Textarea
+        value={response}
+        onChange={event => setResponse(event.target.value)}
+        placeholder={`Your ${targetLanguage} translation...`}
+        className="h-24 resize-none"
+        aria-label="Your translation"
+      />
+
+      <Button
+        onClick={handleSubmit}
+        disabled={!response.trim() || isSubmitting}
+        className="w-full"
+      >
+        <Check className="mr-2 size-4" />
+        Submit Translation
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,116 @@
+/**
+ * @description
+ * This client-side component renders a word-ordering exercise for the Learn Kannada app.
+ * Learners drag shuffled word tiles into the right order to build a sentence, practising
+ * Kannada's subject-object-verb word order.
+ *
+ * Key features:
+ * - Drag-and-drop reordering of word tiles
+ * - Keyboard reordering: focus a tile and use the left/right arrow keys
+ * - English meaning shown as the prompt when authored
+ * - Tiles follow the learner's script display preference
+ * - Submits the words in the chosen order
+ *
+ * @dependencies
+ * - @/components/learn/kannada-text: Script display for the tiles
+ * - @/components/ui/button: Shadcn Button for submission
+ * - @/lib/utils: cn helper
+ * - @/types: LearnerWordOrderContent and ExerciseResponse types
+ * - lucide-react: Provides icons (e.g., Check, GripVertical)
+ *
+ * @notes
+ * - Expects the learner projection of the exercise (see toLearnerExercise): the words arrive already shuffled,
+ *   as their authored order is the answer
+ * - Submission handler is expected to call a server action (e.g., submitExerciseAction)
+ */
+
+"use client"
+
+import KannadaText from "@/components/learn/kannada-text"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import { ExerciseResponse, LearnerWordOrderContent } from "@/types"
+import { Check, GripVertical } from "lucide-react"
+import { useState } from "react"
+
+interface WordOrderExerciseProps {
+  exercise: { id: string; content: LearnerWordOrderContent } // Exercise with its words shuffled
+  onSubmit: (response: ExerciseResponse) => Promise<void> // Handler to process submission
+}
+
+/**
+ * WordOrderExercise component renders word tiles to put in order.
+ * @param {WordOrderExerciseProps} props - Exercise data and submission handler
+ * @returns {JSX.Element} The tiles and a submit button
+ */
+export default function WordOrderExercise({
+  exercise,
+  onSubmit
+}: WordOrderExerciseProps) {
+  const { words, english } = exercise.content
+
+  // Tiles are positions in the word list, so repeated words stay distinct
+  const [order, setOrder] = useState<number[]>(() =>
+    words.map((_, index) => index)
+  )
+  const [dragged, setDragged] = useState<number | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Move the tile at one position to another
+  const moveTile = (from: number, to: number) => {
+    if (to < 0 || to >= order.length || from === to) return
+    const next = [...order]
+    const [tile] = next.splice(from, 1)
+    next.splice(to, 0, tile)
+    setOrder(next)
+  }
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true)
+    await onSubmit(order.map(index => words[index]))
+    setIsSubmitting(false)
+  }
+
+  return (
+    <div className="w-full max-w-lg space-y-6 p-4">
+      <div className="text-foreground text-lg font-medium">
+        {english ? `Build the sentence: ${english}` : "Put the words in order."}
+      </div>
+
+      <ol className="flex flex-wrap gap-2" aria-label="Sentence words">
+        {order.map((wordIndex, position) => (
+          <li
+            key={wordIndex}
+            draggable
+            tabIndex={0}
+            aria-label={`${words[wordIndex]}, position ${position + 1} of ${order.length}`}
+            onDragStart={() => setDragged(position)}
+            onDragOver={event => event.preventDefault()}
+            onDrop={() => {
+              if (dragged !== null) moveTile(dragged, position)
+              setDragged(null)
+            }}
+            onDragEnd={() => setDragged(null)}
+            onKeyDown={event => {
+              if (event.key === "ArrowLeft") moveTile(position, position - 1)
+              if (event.key === "ArrowRight") moveTile(position, position + 1)
+            }}
+            className={cn(
+              "bg-background flex cursor-grab items-center gap-1 rounded-md border px-3 py-2",
+              "focus-visible:ring-ring focus-visible:outline-none focus-visible:ring-2",
+              dragged === position && "opacity-50"
+            )}
+          >
+            <GripVertical className="text-muted-foreground size-4" />
+            <KannadaText text={words[wordIndex]} />
+          </li>
+        ))}
+      </ol>
+
+      <Button onClick={handleSubmit} disabled={isSubmitting} className="w-full">
+        <Check className="mr-2 size-4" />
+        Submit Sentence
+      </Button>
+    </div>
+  )
+}
@@ -9,25 +9,33 @@
  * - Manages form state and submission with React Hook Form
  * - Clean, responsive UI with Tailwind CSS and Shadcn components
  * - Submits user text to a provided handler function
+ * - Grammar check before submitting: mistakes are underlined in the learner's text, with the fix on hover
+ * - The prompt follows the learner's script display preference
  *
  * @dependencies
+ * - @/actions/ai-actions: Imports getGrammarExplanationAction for the grammar check
+ * - @/components/learn/kannada-text: Script display for the prompt
+ * - @/components/practice/grammar-feedback-view: Underlines the mistakes found
  * - @/components/ui/button: Shadcn Button for submission
  * - @/components/ui/form: Shadcn Form components for form structure
  * - @/components/ui/textarea: Shadcn Textarea for user input
- * - @/db/schema/exercises-schema: Imports SelectExercise for type safety
+ * - @/types: GrammarFeedback and LearnerWritingContent types
  * - react-hook-form: Manages form state and validation
- * - lucide-react: Provides icons (e.g., Check)
+ * - lucide-react: Provides icons (e.g., Check, SpellCheck)
  *
  * @notes
  * - Requires a parent component to fetch exercise data and pass it as props
- * - Assumes content JSON has a prompt string
+ * - Expects the learner projection of the exercise (see toLearnerExercise); the answer stays on the server
  * - Submission handler is expected to call a server action (e.g., submitExerciseAction)
- * - No direct server actions here; adheres to client component rules
- * - Handles edge case of missing/invalid content
+ * - The grammar check calls its server action directly, like the speaking exercise's pronunciation feedback;
+ *   it does not affect grading, and feedback is hidden once the text changes
  */
 
 "use client"
 
+import { getGrammarExplanationAction } from "@/actions/ai-actions"
+import KannadaText from "@/components/learn/kannada-text"
+import GrammarFeedbackView from "@/components/practice/grammar-feedback-view"
 import { Button } from "@/components/ui/button"
 import {
   Form,
@@ -38,9 +46,10 @@ import {
   FormMessage
 } from "@/components/ui/form"
 import { Textarea } from "@/components/ui/textarea"
-import { SelectExercise } from "@/db/schema/exercises-schema"
 import { zodResolver } from "@hookform/resolvers/zod"
-import { Check } from "lucide-react"
+import { Check, SpellCheck } from "lucide-react"
+import { GrammarFeedback, LearnerWritingContent } from "@/types"
+import { useState } from "react"
 import { useForm } from "react-hook-form"
 import * as z from "zod"
 
@@ -54,7 +63,7 @@ type WritingFormValues = z.infer<typeof writingFormSchema>
 
 // Define props interface
 interface WritingExerciseProps {
-  exercise: SelectExercise // Exercise data from database
+  exercise: { id: string; content: LearnerWritingContent } // Exercise without its answer
   onSubmit: (response: string) => Promise<void> // Handler to process submission
 }
 
@@ -67,15 +76,31 @@ export default function WritingExercise({
   exercise,
   onSubmit
 }: WritingExerciseProps) {
-  // Parse exercise content (assuming JSON structure: { prompt: string })
-  const content = exercise.content as { prompt: string }
-  const prompt = content?.prompt ?? "No prompt available"
+  const { prompt } = exercise.content
 
   // Initialize form with React Hook Form
   const form = useForm<WritingFormValues>({
     resolver: zodResolver(writingFormSchema),
     defaultValues: { response: "" }
   })
+  const [feedback, setFeedback] = useState<GrammarFeedback | null>(null)
+  const [grammarError, setGrammarError] = useState<string | null>(null)
+  const [isChecking, setIsChecking] = useState(false)
+  const response = form.watch("response")
+
+  // Check the response's grammar without submitting it
+  const handleCheckGrammar = async () => {
+    setIsChecking(true)
+    const result = await getGrammarExplanationAction(response)
+    setIsChecking(false)
+    if (result.isSuccess) {
+      setFeedback(result.data)
+      setGrammarError(null)
+    } else {
+      setFeedback(null)
+      setGrammarError(result.message)
+    }
+  }
 
   // Handle form submission
   const handleSubmit = async (data: WritingFormValues) => {
@@ -87,7 +112,9 @@ export default function WritingExercise({
       <Form {...form}>
         <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
           {/* Prompt display */}
-          <div className="text-foreground text-lg font-medium">{prompt}</div>
+          <div className="text-foreground text-lg font-medium">
+            <KannadaText text={prompt} />
+          </div>
 
           {/* Textarea */}
           <FormField
@@ -108,15 +135,37 @@ export default function WritingExercise({
             )}
           />
 
-          {/* Submit button */}
-          <Button
-            type="submit"
-            disabled={form.formState.isSubmitting || !form.formState.isValid}
-            className="w-full"
-          >
-            <Check className="mr-2 size-4" />
-            Submit Response
-          </Button>
+          {/* Grammar feedback on the current response */}
+          {feedback && feedback.sentence === response && (
+            <div className="bg-muted rounded-md p-4">
+              <GrammarFeedbackView feedback={feedback} />
+            </div>
+          )}
+          {grammarError && (
+            <div className="text-muted-foreground text-sm">{grammarError}</div>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleCheckGrammar}
+              disabled={isChecking || !response.trim()}
+            >
+              <SpellCheck className="mr-2 size-4" />
+              {isChecking ? "Checking..." : "Check grammar"}
+            </Button>
+
+            {/* Submit button */}
+            <Button
+              type="submit"
+              disabled={form.formState.isSubmitting || !form.formState.isValid}
+              className="flex-1"
+            >
+              <Check className="mr-2 size-4" />
+              Submit Response
+            </Button>
+          </div>
         </form>
       </Form>
     </div>
@@ -5,15 +5,32 @@ This client component provides the providers for the app.
 "use client"
 
 import { TooltipProvider } from "@/components/ui/tooltip"
+import { ScriptDisplayProvider } from "@/components/utilities/script-display-provider"
+import { ScriptDisplay } from "@/types"
 import {
   ThemeProvider as NextThemesProvider,
   ThemeProviderProps
 } from "next-themes"
 
-export const Providers = ({ children, ...props }: ThemeProviderProps) => {
+interface ProvidersProps extends ThemeProviderProps {
+  scriptDisplay?: ScriptDisplay // Signed-in learner's saved preference
+  isSignedIn: boolean
+}
+
+export const Providers = ({
+  children,
+  scriptDisplay,
+  isSignedIn,
+  ...props
+}: ProvidersProps) => {
   return (
     <NextThemesProvider {...props}>
-      <TooltipProvider>{children}</TooltipProvider>
+      <ScriptDisplayProvider
+        initialScriptDisplay={scriptDisplay}
+        persist={isSignedIn}
+      >
+        <TooltipProvider>{children}</TooltipProvider>
+      </ScriptDisplayProvider>
     </NextThemesProvider>
   )
 }
@@ -0,0 +1,84 @@
+/**
+ * @description
+ * This client component shares the learner's script display preference with every component
+ * that shows Kannada text, and saves changes to their profile.
+ *
+ * Key features:
+ * - useScriptDisplay: Current preference and a setter, available anywhere under the provider
+ * - Changes apply immediately and are saved in the background for signed-in learners
+ *
+ * @dependencies
+ * - @/actions/db/profiles-actions: updateScriptDisplayAction to save the preference
+ * - @/types: ScriptDisplay type
+ *
+ * @notes
+ * - Outside the provider (e.g. tests) components fall back to DEFAULT_SCRIPT_DISPLAY
+ * - Signed-out visitors can still switch; their choice lasts until the page is reloaded
+ */
+
+"use client"
+
+import { updateScriptDisplayAction } from "@/actions/db/profiles-actions"
+import { ScriptDisplay } from "@/types"
+import { createContext, ReactNode, useContext, useState } from "react"
+
+/**
+ * Preference used before a learner chooses one: script with romanization suits beginners.
+ */
+export const DEFAULT_SCRIPT_DISPLAY: ScriptDisplay = "script_romanization"
+
+interface ScriptDisplayContextValue {
+  scriptDisplay: ScriptDisplay
+  setScriptDisplay: (scriptDisplay: ScriptDisplay) => void
+}
+
+const ScriptDisplayContext = createContext<ScriptDisplayContextValue>({
+  scriptDisplay: DEFAULT_SCRIPT_DISPLAY,
+  setScriptDisplay: () => {}
+})
+
+interface ScriptDisplayProviderProps {
+  initialScriptDisplay?: ScriptDisplay // Saved preference from the learner's profile
+  persist: boolean // Save changes to the profile (signed-in learners only)
+  children: ReactNode
+}
+
+/**
+ * ScriptDisplayProvider holds the script display preference for its subtree.
+ * @param {ScriptDisplayProviderProps} props - Saved preference, persistence flag and children
+ * @returns {JSX.Element} The context provider
+ */
+export function ScriptDisplayProvider({
+  initialScriptDisplay,
+  persist,
+  children
+}: ScriptDisplayProviderProps) {
+  const [scriptDisplay, setScriptDisplayState] = useState<ScriptDisplay>(
+    initialScriptDisplay ?? DEFAULT_SCRIPT_DISPLAY
+  )
+
+  const setScriptDisplay = (next: ScriptDisplay) => {
+    setScriptDisplayState(next)
+    if (!persist) return
+
+    updateScriptDisplayAction(next).then(result => {
+      if (!result.isSuccess) {
+        console.error("Failed to save script display:", result.message)
+      }
+    })
+  }
+
+  return (
+    <ScriptDisplayContext.Provider value={{ scriptDisplay, setScriptDisplay }}>
+      {children}
+    </ScriptDisplayContext.Provider>
+  )
+}
+
+/**
+ * Returns the learner's script display preference and a setter.
+ * @returns {ScriptDisplayContextValue} The current preference and setScriptDisplay
+ */
+export function useScriptDisplay(): ScriptDisplayContextValue {
+  return useContext(ScriptDisplayContext)
+}
@@ -0,0 +1,53 @@
+/*
+This client component lets learners choose how Kannada text is displayed.
+*/
+
+"use client"
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select"
+import { useScriptDisplay } from "@/components/utilities/script-display-provider"
+import { cn } from "@/lib/utils"
+import { ScriptDisplay } from "@/types"
+
+const scriptDisplayOptions: { value: ScriptDisplay; label: string }[] = [
+  { value: "script", label: "ಕನ್ನಡ only" },
+  { value: "script_romanization", label: "ಕನ್ನಡ + romanization" },
+  { value: "romanization_english", label: "Romanization + English" }
+]
+
+interface ScriptDisplaySwitcherProps {
+  className?: string
+}
+
+export const ScriptDisplaySwitcher = ({
+  className
+}: ScriptDisplaySwitcherProps) => {
+  const { scriptDisplay, setScriptDisplay } = useScriptDisplay()
+
+  return (
+    <Select
+      value={scriptDisplay}
+      onValueChange={value => setScriptDisplay(value as ScriptDisplay)}
+    >
+      <SelectTrigger
+        className={cn("w-52", className)}
+        aria-label="Kannada text display"
+      >
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {scriptDisplayOptions.map(option => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -27,6 +27,18 @@ import { lessonsTable } from "@/db/schema/lessons-schema"
 import { progressTable } from "@/db/schema/progress-schema"
 import { exercisesTable } from "@/db/schema/exercises-schema" // Added to align with Step 6 completion
 import { chatMessagesTable } from "@/db/schema/chat-messages-schema" // Updated to real import from type-only
+import { unitsTable } from "@/db/schema/units-schema"
+import { lessonPrerequisitesTable } from "@/db/schema/lesson-prerequisites-schema"
+import { lessonRevisionsTable } from "@/db/schema/lesson-revisions-schema"
+import { exerciseAttemptsTable } from "@/db/schema/exercise-attempts-schema"
+import { practiceSessionsTable } from "@/db/schema/practice-sessions-schema"
+import { reviewItemsTable } from "@/db/schema/review-items-schema"
+import { vocabularyTable } from "@/db/schema/vocabulary-schema"
+import { vocabularyReviewsTable } from "@/db/schema/vocabulary-reviews-schema"
+import { exerciseCandidatesTable } from "@/db/schema/exercise-candidates-schema"
+import { tutorConversationsTable } from "@/db/schema/tutor-conversations-schema"
+import { tutorMessagesTable } from "@/db/schema/tutor-messages-schema"
+import { roleplaySessionsTable } from "@/db/schema/roleplay-sessions-schema"
 
 // Load environment variables from .env.local
 config({ path: ".env.local" })
@@ -37,7 +49,19 @@ const schema = {
   lessons: lessonsTable,
   progress: progressTable,
   exercises: exercisesTable, // Added exercises schema
-  chatMessages: chatMessagesTable // Added chat messages schema
+  chatMessages: chatMessagesTable, // Added chat messages schema
+  units: unitsTable,
+  lessonPrerequisites: lessonPrerequisitesTable,
+  lessonRevisions: lessonRevisionsTable,
+  exerciseAttempts: exerciseAttemptsTable,
+  practiceSessions: practiceSessionsTable,
+  reviewItems: reviewItemsTable,
+  vocabulary: vocabularyTable,
+  vocabularyReviews: vocabularyReviewsTable,
+  exerciseCandidates: exerciseCandidatesTable,
+  tutorConversations: tutorConversationsTable,
+  tutorMessages: tutorMessagesTable,
+  roleplaySessions: roleplaySessionsTable
 }
 
 // Initialize PostgreSQL client with the connection string
@@ -0,0 +1,85 @@
+/*
+ * Defines the database schema for exercise attempts in the Learn Kannada app.
+ * Every graded submission records who answered which exercise, what they answered,
+ * how well and how long it took. Mistake review, analytics and mastery tracking
+ * read their history from here.
+ *
+ * Key features:
+ * - Links to profiles, lessons and the lesson revision the learner was served
+ * - Stores the raw response as JSON, in the shape of its exercise type
+ * - Score from 0 to 1, so partial credit is kept
+ * - Time taken and hints used per attempt
+ * - Indexed for a learner's history per exercise and per lesson
+ *
+ * @dependencies
+ * - drizzle-orm/pg-core: Provides PostgreSQL schema definition utilities
+ * - @/db/schema: Imports profilesTable, lessonsTable, lessonRevisionsTable and exerciseTypeEnum
+ * - @/types: ExerciseResponse type
+ *
+ * @notes
+ * - No migrations are generated here; handled externally per backend rules
+ * - exerciseId has no foreign key: exercises live on in published revisions after they are
+ *   deleted from the working copy, and their history must survive that
+ * - Rows are never updated; there are no update actions for this table
+ */
+
+import {
+  index,
+  integer,
+  json,
+  pgTable,
+  real,
+  text,
+  timestamp,
+  uuid
+} from "drizzle-orm/pg-core"
+import { exerciseTypeEnum } from "@/db/schema/exercises-schema"
+import { lessonRevisionsTable } from "@/db/schema/lesson-revisions-schema"
+import { lessonsTable } from "@/db/schema/lessons-schema"
+import { profilesTable } from "@/db/schema/profiles-schema"
+import { ExerciseResponse } from "@/types"
+
+/**
+ * Defines the exercise attempts table schema.
+ */
+export const exerciseAttemptsTable = pgTable(
+  "exercise_attempts",
+  {
+    id: uuid("id").defaultRandom().primaryKey(), // Unique identifier for each attempt
+    userId: text("user_id")
+      .notNull()
+      .references(() => profilesTable.userId, { onDelete: "cascade" }), // Learner who answered
+    exerciseId: uuid("exercise_id").notNull(), // Exercise answered (working copy or revision snapshot ID)
+    exerciseType: exerciseTypeEnum("exercise_type").notNull(), // Type of the exercise when answered
+    lessonId: uuid("lesson_id")
+      .notNull()
+      .references(() => lessonsTable.id, { onDelete: "cascade" }), // Lesson the exercise belongs to
+    lessonRevisionId: uuid("lesson_revision_id").references(
+      () => lessonRevisionsTable.id,
+      { onDelete: "set null" }
+    ), // Revision the exercise was graded against; null for the working copy
+    response: json("response").$type<ExerciseResponse>().notNull(), // Raw response as submitted
+    score: real("score").notNull(), // 0 to 1
+    timeTakenMs: integer("time_taken_ms"), // From showing the exercise to submitting, when known
+    hintsUsed: integer("hints_used").default(0).notNull(), // Hints revealed before answering
+    createdAt: timestamp("created_at").defaultNow().notNull(), // When the attempt was submitted
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .notNull()
+      .$onUpdate(() => new Date()) // Update timestamp on modification
+  },
+  table => [
+    index().on(table.userId, table.exerciseId),
+    index().on(table.userId, table.lessonId)
+  ]
+)
+
+/**
+ * Type definition for inserting a new attempt.
+ */
+export type InsertExerciseAttempt = typeof exerciseAttemptsTable.$inferInsert
+
+/**
+ * Type definition for selecting an attempt.
+ */
+export type SelectExerciseAttempt = typeof exerciseAttemptsTable.$inferSelect
@@ -0,0 +1,80 @@
+/*
+ * Defines the database schema for generated exercise candidates in the Learn Kannada app.
+ * Exercises drafted by the AI generator wait here until an admin approves, edits or
+ * rejects them; approved candidates become exercises in the lesson's working copy.
+ *
+ * Key features:
+ * - Links to lessons via a foreign key (lessonId) with cascade delete
+ * - Exercise type and content, validated against the exercise schemas before they are stored
+ * - Review status (pending, approved, rejected), reviewer and review time
+ * - The exercise created on approval, and the model that generated the candidate
+ *
+ * @dependencies
+ * - drizzle-orm/pg-core: Provides PostgreSQL schema definition utilities
+ * - @/db/schema: Imports lessonsTable and exerciseTypeEnum
+ *
+ * @notes
+ * - No migrations are generated here; handled externally per backend rules
+ * - Approved exercises reach learners only once a lesson revision containing them is published
+ * - exerciseId has no foreign key: the exercise may later be deleted while the review record is kept
+ */
+
+import {
+  index,
+  json,
+  pgEnum,
+  pgTable,
+  text,
+  timestamp,
+  uuid
+} from "drizzle-orm/pg-core"
+import { exerciseTypeEnum } from "@/db/schema/exercises-schema"
+import { lessonsTable } from "@/db/schema/lessons-schema"
+
+/**
+ * Defines the exercise candidate status enum.
+ */
+export const exerciseCandidateStatusEnum = pgEnum("exercise_candidate_status", [
+  "pending",
+  "approved",
+  "rejected"
+])
+
+/**
+ * Defines the exercise candidates table schema.
+ */
+export const exerciseCandidatesTable = pgTable(
+  "exercise_candidates",
+  {
+    id: uuid("id").defaultRandom().primaryKey(), // Unique identifier for each candidate
+    lessonId: uuid("lesson_id")
+      .notNull()
+      .references(() => lessonsTable.id, { onDelete: "cascade" }), // Lesson the candidate was generated for
+    type: exerciseTypeEnum("type").notNull(), // Exercise type requested
+    content: json("content").notNull(), // Generated content, valid for its type
+    status: exerciseCandidateStatusEnum("status").default("pending").notNull(), // Review state
+    model: text("model").notNull(), // Model that generated the candidate
+    generatedBy: text("generated_by").notNull(), // Admin who ran the generator
+    reviewedBy: text("reviewed_by"), // Admin who approved or rejected it
+    reviewedAt: timestamp("reviewed_at"), // When it was approved or rejected
+    exerciseId: uuid("exercise_id"), // Exercise created on approval
+    createdAt: timestamp("created_at").defaultNow().notNull(), // When the candidate was generated
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .notNull()
+      .$onUpdate(() => new Date()) // Update timestamp on modification
+  },
+  table => [index().on(table.lessonId, table.status)]
+)
+
+/**
+ * Type definition for inserting a new candidate.
+ */
+export type InsertExerciseCandidate =
+  typeof exerciseCandidatesTable.$inferInsert
+
+/**
+ * Type definition for selecting a candidate.
+ */
+export type SelectExerciseCandidate =
+  typeof exerciseCandidatesTable.$inferSelect
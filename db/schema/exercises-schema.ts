@@ -1,12 +1,14 @@
 /*
  * Defines the database schema for exercises in the Learn Kannada app.
  * This file creates the exercises table to store interactive exercise data,
- * such as quizzes, writing, and speaking exercises, linked to lessons.
+ * such as quizzes, writing, speaking, matching, fill-in-the-blank, word ordering,
+ * dictation and translation exercises, linked to lessons.
  *
  * Key features:
  * - Links to lessons via a foreign key (lessonId) with cascade delete
- * - Uses an enum for exercise types (quiz, writing, speaking)
+ * - Uses an enum for exercise types (quiz, writing, speaking, matching, fill-blank, word-order, dictation, translation)
  * - Stores exercise content as JSON for structured data (e.g., questions, answers)
+ * - Stable slug, unique within its lesson, used as the key for curriculum bundle import/export
  * - Includes timestamps for creation and updates
  *
  * @dependencies
@@ -25,6 +27,7 @@ import {
   pgTable,
   text,
   timestamp,
+  unique,
   uuid
 } from "drizzle-orm/pg-core"
 import { lessonsTable } from "@/db/schema/lessons-schema"
@@ -33,25 +36,39 @@ import { lessonsTable } from "@/db/schema/lessons-schema"
  * Defines the exercise type enum.
  * Represents the possible types of exercises supported by the app.
  */
-export const exerciseTypeEnum = pgEnum("type", ["quiz", "writing", "speaking"])
+export const exerciseTypeEnum = pgEnum("type", [
+  "quiz",
+  "writing",
+  "speaking",
+  "matching",
+  "fill-blank",
+  "word-order",
+  "dictation",
+  "translation"
+])
 
 /**
  * Defines the exercises table schema.
  * This table stores exercise data linked to a specific lesson.
  */
-export const exercisesTable = pgTable("exercises", {
-  id: uuid("id").defaultRandom().primaryKey(), // Unique identifier for each exercise
-  lessonId: uuid("lesson_id")
-    .notNull()
-    .references(() => lessonsTable.id, { onDelete: "cascade" }), // Foreign key to lessons, cascades on delete
-  type: exerciseTypeEnum("type").notNull(), // Type of exercise (quiz, writing, speaking)
-  content: json("content").notNull(), // JSON content storing exercise details (e.g., questions, prompts)
-  createdAt: timestamp("created_at").defaultNow().notNull(), // Creation timestamp
-  updatedAt: timestamp("updated_at")
-    .defaultNow()
-    .notNull()
-    .$onUpdate(() => new Date()) // Update timestamp on modification
-})
+export const exercisesTable = pgTable(
+  "exercises",
+  {
+    id: uuid("id").defaultRandom().primaryKey(), // Unique identifier for each exercise
+    lessonId: uuid("lesson_id")
+      .notNull()
+      .references(() => lessonsTable.id, { onDelete: "cascade" }), // Foreign key to lessons, cascades on delete
+    slug: text("slug"), // Stable key within the lesson for bundle import/export, e.g. "quiz-hello"
+    type: exerciseTypeEnum("type").notNull(), // Type of exercise; content shape depends on it
+    content: json("content").notNull(), // JSON content storing exercise details (e.g., questions, prompts)
+    createdAt: timestamp("created_at").defaultNow().notNull(), // Creation timestamp
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .notNull()
+      .$onUpdate(() => new Date()) // Update timestamp on modification
+  },
+  table => [unique().on(table.lessonId, table.slug)] // Slugs are unique per lesson
+)
 
 /**
  * Type definition for inserting a new exercise record.
@@ -14,3 +14,15 @@ export * from "./lessons-schema"
 export * from "./progress-schema"
 export * from "./exercises-schema" // Added to align with Step 6 completion
 export * from "./chat-messages-schema" // Added export for chat messages schema
+export * from "./units-schema"
+export * from "./lesson-prerequisites-schema"
+export * from "./lesson-revisions-schema"
+export * from "./exercise-attempts-schema"
+export * from "./practice-sessions-schema"
+export * from "./review-items-schema"
+export * from "./vocabulary-schema"
+export * from "./vocabulary-reviews-schema"
+export * from "./exercise-candidates-schema"
+export * from "./tutor-conversations-schema"
+export * from "./tutor-messages-schema"
+export * from "./roleplay-sessions-schema"
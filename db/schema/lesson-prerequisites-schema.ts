@@ -0,0 +1,56 @@
+/*
+ * Defines the database schema for lesson prerequisites in the Learn Kannada app.
+ * Each row is an edge in the prerequisite graph: a lesson stays locked until
+ * every one of its prerequisite lessons has been completed.
+ *
+ * Key features:
+ * - Links two lessons with cascade delete on both sides
+ * - Unique (lesson, prerequisite) pairs
+ * - Includes timestamps for creation and updates
+ *
+ * @dependencies
+ * - drizzle-orm/pg-core: Provides PostgreSQL schema definition utilities
+ * - @/db/schema/lessons-schema: Imports lessonsTable for foreign key references
+ *
+ * @notes
+ * - No migrations are generated here; handled externally per backend rules
+ * - Cycles are rejected in setLessonPrerequisitesAction, not by the database
+ * - Lessons without explicit prerequisites unlock after the previous lesson in order
+ */
+
+import { pgTable, timestamp, unique, uuid } from "drizzle-orm/pg-core"
+import { lessonsTable } from "@/db/schema/lessons-schema"
+
+/**
+ * Defines the lesson prerequisites table schema.
+ */
+export const lessonPrerequisitesTable = pgTable(
+  "lesson_prerequisites",
+  {
+    id: uuid("id").defaultRandom().primaryKey(), // Unique identifier for each edge
+    lessonId: uuid("lesson_id")
+      .notNull()
+      .references(() => lessonsTable.id, { onDelete: "cascade" }), // The lesson being unlocked
+    prerequisiteLessonId: uuid("prerequisite_lesson_id")
+      .notNull()
+      .references(() => lessonsTable.id, { onDelete: "cascade" }), // The lesson that must be completed first
+    createdAt: timestamp("created_at").defaultNow().notNull(), // Creation timestamp
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .notNull()
+      .$onUpdate(() => new Date()) // Update timestamp on modification
+  },
+  table => [unique().on(table.lessonId, table.prerequisiteLessonId)]
+)
+
+/**
+ * Type definition for inserting a new prerequisite edge.
+ */
+export type InsertLessonPrerequisite =
+  typeof lessonPrerequisitesTable.$inferInsert
+
+/**
+ * Type definition for selecting a prerequisite edge.
+ */
+export type SelectLessonPrerequisite =
+  typeof lessonPrerequisitesTable.$inferSelect
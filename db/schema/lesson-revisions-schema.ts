@@ -0,0 +1,69 @@
+/*
+ * Defines the database schema for lesson revisions in the Learn Kannada app.
+ * Every save of a lesson or one of its exercises records an immutable snapshot here.
+ * Learners are served the revision that lessons.published_revision_id points at,
+ * so editing the working copy never changes what they see until it is published.
+ *
+ * Key features:
+ * - Sequential revision numbers per lesson
+ * - Full snapshot of title, level, content and exercises
+ * - Records the author of each revision
+ * - Includes timestamps for creation and updates
+ *
+ * @dependencies
+ * - drizzle-orm/pg-core: Provides PostgreSQL schema definition utilities
+ * - @/db/schema/lessons-schema: Imports lessonsTable and levelEnum
+ * - @/types: Snapshot types for content and exercises
+ *
+ * @notes
+ * - No migrations are generated here; handled externally per backend rules
+ * - Rows are never updated; there are no update actions for this table
+ * - Progress rows reference revisions via progress.lesson_revision_id
+ */
+
+import {
+  integer,
+  json,
+  pgTable,
+  text,
+  timestamp,
+  unique,
+  uuid
+} from "drizzle-orm/pg-core"
+import { lessonsTable, levelEnum } from "@/db/schema/lessons-schema"
+import { ExerciseSnapshot, LessonContent } from "@/types"
+
+/**
+ * Defines the lesson revisions table schema.
+ */
+export const lessonRevisionsTable = pgTable(
+  "lesson_revisions",
+  {
+    id: uuid("id").defaultRandom().primaryKey(), // Unique identifier for each revision
+    lessonId: uuid("lesson_id")
+      .notNull()
+      .references(() => lessonsTable.id, { onDelete: "cascade" }), // Lesson the revision belongs to
+    revisionNumber: integer("revision_number").notNull(), // 1, 2, 3, ... per lesson
+    userId: text("user_id").notNull(), // Author who saved the revision
+    title: text("title").notNull(), // Lesson title at this revision
+    level: levelEnum("level").notNull(), // Lesson level at this revision
+    content: json("content").$type<LessonContent>().notNull(), // Lesson document at this revision
+    exercises: json("exercises").$type<ExerciseSnapshot[]>().notNull(), // Exercises at this revision
+    createdAt: timestamp("created_at").defaultNow().notNull(), // Creation timestamp
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .notNull()
+      .$onUpdate(() => new Date()) // Update timestamp on modification
+  },
+  table => [unique().on(table.lessonId, table.revisionNumber)]
+)
+
+/**
+ * Type definition for inserting a new revision.
+ */
+export type InsertLessonRevision = typeof lessonRevisionsTable.$inferInsert
+
+/**
+ * Type definition for selecting a revision.
+ */
+export type SelectLessonRevision = typeof lessonRevisionsTable.$inferSelect
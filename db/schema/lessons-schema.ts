@@ -5,18 +5,28 @@
  *
  * Key features:
  * - Uses an enum for lesson levels (beginner, intermediate, advanced)
- * - Stores lesson content as JSON for structured data (grammar, vocab, sentences)
+ * - Stores lesson content as a versioned JSON document (see LessonContent in @/types)
+ * - Belongs to an optional unit and is ordered within it via position
+ * - Draft/published state so unfinished lessons stay out of /learn
+ * - Points at the published revision; the row itself is the authors' working copy
+ * - Stable slug used as the key for curriculum bundle import/export
  * - Includes timestamps for creation and updates
  *
  * @dependencies
  * - drizzle-orm/pg-core: Provides PostgreSQL schema definition utilities
+ * - @/db/schema/units-schema: Imports unitsTable for the unit foreign key
+ * - @/types: LessonContent document and LessonStatus types
  *
  * @notes
  * - No migrations are generated here; handled externally per backend rules
- * - Content is JSON to allow flexible lesson structure
+ * - Content is typed at compile time only; validate writes with validateLessonContent
+ * - published_revision_id has no foreign key because lesson_revisions already references lessons
+ * - publish_status defaults to "published" so lessons that existed before the column stay visible;
+ *   createLessonAction and bundle imports set "draft" on the lessons they create
  */
 
 import {
+  integer,
   json,
   pgEnum,
   pgTable,
@@ -24,6 +34,8 @@ import {
   timestamp,
   uuid
 } from "drizzle-orm/pg-core"
+import { unitsTable } from "@/db/schema/units-schema"
+import { LessonContent, LessonStatus } from "@/types"
 
 // Define the lesson level enum
 export const levelEnum = pgEnum("level", [
@@ -32,12 +44,27 @@ export const levelEnum = pgEnum("level", [
   "advanced"
 ])
 
+// Define the lesson publish status enum (drafts are only visible in /admin/content)
+export const lessonPublishStatusEnum = pgEnum("lesson_publish_status", [
+  "draft",
+  "published"
+])
+
 // Define the lessons table
 export const lessonsTable = pgTable("lessons", {
   id: uuid("id").defaultRandom().primaryKey(), // Unique identifier for each lesson
+  slug: text("slug").unique(), // Stable key for bundle import/export, e.g. "greetings-basics"
   level: levelEnum("level").notNull(), // Lesson difficulty level (beginner, intermediate, advanced)
   title: text("title").notNull(), // Human-readable title of the lesson
-  content: json("content").notNull(), // JSON content storing lesson details (e.g., grammar, vocab)
+  content: json("content").$type<LessonContent>().notNull(), // Versioned lesson document (grammar, vocabulary, examples, ...)
+  unitId: uuid("unit_id").references(() => unitsTable.id, {
+    onDelete: "set null"
+  }), // Optional unit the lesson belongs to
+  position: integer("position").default(0).notNull(), // Sort order within the unit (ascending)
+  publishStatus: lessonPublishStatusEnum("publish_status")
+    .default("published")
+    .notNull(), // Draft lessons are hidden from learners; new lessons are created as drafts explicitly
+  publishedRevisionId: uuid("published_revision_id"), // Revision served to learners (lesson_revisions.id)
   createdAt: timestamp("created_at").defaultNow().notNull(), // Creation timestamp
   updatedAt: timestamp("updated_at")
     .defaultNow()
@@ -49,10 +76,16 @@ export const lessonsTable = pgTable("lessons", {
 export type InsertLesson = typeof lessonsTable.$inferInsert
 export interface SelectLesson {
   id: string
+  slug: string | null
   title: string
   level: "beginner" | "intermediate" | "advanced"
-  content: unknown // Adjust as necessary
+  content: LessonContent
+  unitId: string | null
+  position: number
+  publishStatus: "draft" | "published"
+  publishedRevisionId: string | null
   createdAt: Date
   updatedAt: Date
-  progress?: number
+  progress?: number // Learner's completion percentage (0-100), when joined
+  status?: LessonStatus // Learner's unlock state, when computed
 }
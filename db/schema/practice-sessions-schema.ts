@@ -0,0 +1,80 @@
+/*
+ * Defines the database schema for practice sessions in the Learn Kannada app.
+ * A session is a list of exercises chosen for one learner from their current lessons,
+ * weak areas and review items, answered one at a time. Keeping it here lets the
+ * learner reload the page, or come back later, and carry on where they stopped.
+ *
+ * Key features:
+ * - Links to profiles via a foreign key (userId)
+ * - Optional exercise type, for sessions of a single type
+ * - Items stored as JSON, each with its result once answered
+ * - Position of the next item and a status (active, completed, abandoned)
+ *
+ * @dependencies
+ * - drizzle-orm/pg-core: Provides PostgreSQL schema definition utilities
+ * - @/db/schema: Imports profilesTable and exerciseTypeEnum
+ * - @/types: PracticeSessionItem type
+ *
+ * @notes
+ * - No migrations are generated here; handled externally per backend rules
+ * - A learner has at most one active session per exercise type (and one mixed session);
+ *   starting another abandons the previous one
+ * - Items keep their lesson revision, so a session is not changed by lessons published after it started
+ */
+
+import {
+  index,
+  integer,
+  json,
+  pgEnum,
+  pgTable,
+  text,
+  timestamp,
+  uuid
+} from "drizzle-orm/pg-core"
+import { exerciseTypeEnum } from "@/db/schema/exercises-schema"
+import { profilesTable } from "@/db/schema/profiles-schema"
+import { PracticeSessionItem } from "@/types"
+
+/**
+ * Defines the practice session status enum.
+ */
+export const practiceSessionStatusEnum = pgEnum("practice_session_status", [
+  "active",
+  "completed",
+  "abandoned"
+])
+
+/**
+ * Defines the practice sessions table schema.
+ */
+export const practiceSessionsTable = pgTable(
+  "practice_sessions",
+  {
+    id: uuid("id").defaultRandom().primaryKey(), // Unique identifier for each session
+    userId: text("user_id")
+      .notNull()
+      .references(() => profilesTable.userId, { onDelete: "cascade" }), // Learner the session was built for
+    exerciseType: exerciseTypeEnum("exercise_type"), // Type the session is limited to; null for mixed practice
+    status: practiceSessionStatusEnum("status").default("active").notNull(), // Session state
+    items: json("items").$type<PracticeSessionItem[]>().notNull(), // Exercises in order, with results once answered
+    position: integer("position").default(0).notNull(), // Index of the next item to answer
+    completedAt: timestamp("completed_at"), // When the last item was answered
+    createdAt: timestamp("created_at").defaultNow().notNull(), // When the session was built
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .notNull()
+      .$onUpdate(() => new Date()) // Update timestamp on modification
+  },
+  table => [index().on(table.userId, table.status)]
+)
+
+/**
+ * Type definition for inserting a new practice session.
+ */
+export type InsertPracticeSession = typeof practiceSessionsTable.$inferInsert
+
+/**
+ * Type definition for selecting a practice session.
+ */
+export type SelectPracticeSession = typeof practiceSessionsTable.$inferSelect
@@ -2,15 +2,32 @@
 Defines the database schema for profiles.
 */
 
-import { pgEnum, pgTable, text, timestamp } from "drizzle-orm/pg-core"
+import { pgEnum, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core"
+import { lessonsTable } from "@/db/schema/lessons-schema"
 
 export const membershipEnum = pgEnum("membership", ["free", "pro"])
 
+export const roleEnum = pgEnum("role", ["learner", "admin"])
+
+// How Kannada text is shown to the learner (see ScriptDisplay in @/types)
+export const scriptDisplayEnum = pgEnum("script_display", [
+  "script",
+  "script_romanization",
+  "romanization_english"
+])
+
 export const profilesTable = pgTable("profiles", {
   userId: text("user_id").primaryKey().notNull(),
   membership: membershipEnum("membership").notNull().default("free"),
+  role: roleEnum("role").notNull().default("learner"),
   stripeCustomerId: text("stripe_customer_id"),
   stripeSubscriptionId: text("stripe_subscription_id"),
+  lastLessonId: uuid("last_lesson_id").references(() => lessonsTable.id, {
+    onDelete: "set null"
+  }),
+  scriptDisplay: scriptDisplayEnum("script_display")
+    .notNull()
+    .default("script_romanization"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at")
     .defaultNow()
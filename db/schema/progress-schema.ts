@@ -6,12 +6,13 @@
  * Key features:
  * - Links to profiles and lessons via foreign keys (userId and lessonId)
  * - Stores XP and streak as integers for gamification
+ * - Tracks per-lesson completion as a percentage (0-100) and the lesson revision it was made against
  * - Uses JSON for badges to support flexible badge structures
  * - Includes timestamps for creation and updates
  *
  * @dependencies
  * - drizzle-orm/pg-core: Provides PostgreSQL schema definition utilities
- * - @/db/schema: Imports profilesTable and lessonsTable for foreign key references
+ * - @/db/schema: Imports profilesTable, lessonsTable and lessonRevisionsTable for foreign key references
  *
  * @notes
  * - No migrations are generated here; handled externally per backend rules
@@ -29,6 +30,7 @@ import {
 } from "drizzle-orm/pg-core"
 import { profilesTable } from "@/db/schema/profiles-schema"
 import { lessonsTable } from "@/db/schema/lessons-schema"
+import { lessonRevisionsTable } from "@/db/schema/lesson-revisions-schema"
 
 /**
  * Defines the progress table schema.
@@ -45,6 +47,11 @@ export const progressTable = pgTable("progress", {
   xp: integer("xp").default(0).notNull(), // Experience points earned, defaults to 0
   streak: integer("streak").default(0).notNull(), // Current streak count, defaults to 0
   badges: json("badges").default([]).notNull(), // Array of badges earned, stored as JSON, defaults to empty array
+  completion: integer("completion").default(0).notNull(), // Lesson completion percentage (0-100), meaningful when lessonId is set
+  lessonRevisionId: uuid("lesson_revision_id").references(
+    () => lessonRevisionsTable.id,
+    { onDelete: "set null" }
+  ), // Lesson revision the completion was last recorded against
   createdAt: timestamp("created_at").defaultNow().notNull(), // Creation timestamp
   updatedAt: timestamp("updated_at")
     .defaultNow()
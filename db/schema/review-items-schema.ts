@@ -0,0 +1,93 @@
+/*
+ * Defines the database schema for the mistake review queue in the Learn Kannada app.
+ * Each row is an exercise a learner answered wrongly, or a word they paired wrongly
+ * in a matching exercise, with when it is next due for review.
+ *
+ * Key features:
+ * - Links to profiles via a foreign key (userId) and to the lesson the mistake was made in
+ * - Kind of item: an exercise (by ID and lesson revision) or a vocabulary word (Kannada and English)
+ * - Correct answers in a row, mistakes so far, next due time and when the item was cleared
+ * - One row per learner and exercise, and per learner and word
+ *
+ * @dependencies
+ * - drizzle-orm/pg-core: Provides PostgreSQL schema definition utilities
+ * - @/db/schema: Imports profilesTable, lessonsTable, lessonRevisionsTable and exerciseTypeEnum
+ *
+ * @notes
+ * - No migrations are generated here; handled externally per backend rules
+ * - Cleared items are kept, so a later mistake brings the same row back with its lapse count
+ * - exerciseId has no foreign key, like exercise attempts: revision snapshots outlive the working copy
+ */
+
+import {
+  index,
+  integer,
+  pgEnum,
+  pgTable,
+  text,
+  timestamp,
+  uniqueIndex,
+  uuid
+} from "drizzle-orm/pg-core"
+import { exerciseTypeEnum } from "@/db/schema/exercises-schema"
+import { lessonRevisionsTable } from "@/db/schema/lesson-revisions-schema"
+import { lessonsTable } from "@/db/schema/lessons-schema"
+import { profilesTable } from "@/db/schema/profiles-schema"
+
+/**
+ * Defines the review item kind enum.
+ */
+export const reviewItemKindEnum = pgEnum("review_item_kind", [
+  "exercise",
+  "vocabulary"
+])
+
+/**
+ * Defines the review items table schema.
+ */
+export const reviewItemsTable = pgTable(
+  "review_items",
+  {
+    id: uuid("id").defaultRandom().primaryKey(), // Unique identifier for each review item
+    userId: text("user_id")
+      .notNull()
+      .references(() => profilesTable.userId, { onDelete: "cascade" }), // Learner who made the mistake
+    kind: reviewItemKindEnum("kind").notNull(), // What is reviewed
+    lessonId: uuid("lesson_id")
+      .notNull()
+      .references(() => lessonsTable.id, { onDelete: "cascade" }), // Lesson of the latest mistake
+    exerciseId: uuid("exercise_id"), // Exercise to review; null for vocabulary
+    exerciseType: exerciseTypeEnum("exercise_type"), // Type of that exercise; null for vocabulary
+    lessonRevisionId: uuid("lesson_revision_id").references(
+      () => lessonRevisionsTable.id,
+      { onDelete: "set null" }
+    ), // Revision the exercise was served from; null for the working copy and vocabulary
+    kannada: text("kannada"), // Word to review; null for exercises
+    english: text("english"), // Its meaning; null for exercises
+    correctStreak: integer("correct_streak").default(0).notNull(), // Correct answers in a row since the last mistake
+    lapses: integer("lapses").default(1).notNull(), // Mistakes made on the item so far
+    dueAt: timestamp("due_at").notNull(), // When the item is next due
+    lastReviewedAt: timestamp("last_reviewed_at"), // When the item was last answered
+    clearedAt: timestamp("cleared_at"), // When the item left the queue; null while it is in it
+    createdAt: timestamp("created_at").defaultNow().notNull(), // When the first mistake was made
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .notNull()
+      .$onUpdate(() => new Date()) // Update timestamp on modification
+  },
+  table => [
+    uniqueIndex().on(table.userId, table.exerciseId),
+    uniqueIndex().on(table.userId, table.kannada),
+    index().on(table.userId, table.dueAt)
+  ]
+)
+
+/**
+ * Type definition for inserting a new review item.
+ */
+export type InsertReviewItem = typeof reviewItemsTable.$inferInsert
+
+/**
+ * Type definition for selecting a review item.
+ */
+export type SelectReviewItem = typeof reviewItemsTable.$inferSelect
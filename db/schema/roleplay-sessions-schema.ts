@@ -0,0 +1,77 @@
+/*
+ * Defines the database schema for role-play sessions in the Learn Kannada app.
+ * Each row is one learner's run of a scenario from the role-play library; its messages
+ * are the linked tutor conversation's.
+ *
+ * Key features:
+ * - Links to profiles via a foreign key (userId) and to the conversation, both with cascade delete
+ * - The scenario played, by its ID in the scenario library
+ * - The goals the learner has met so far
+ * - The scored debrief, set when the learner ends the scenario
+ * - The XP awarded for it, set once it has been added to the learner's progress
+ *
+ * @dependencies
+ * - drizzle-orm/pg-core: Provides PostgreSQL schema definition utilities
+ * - @/db/schema: Imports profilesTable and tutorConversationsTable
+ * - @/types: RolePlayDebrief type
+ *
+ * @notes
+ * - A session has exactly one conversation, so conversationId is unique
+ * - A session with a debrief is over: no more messages are accepted
+ * - xpAwarded stays null until the debrief's XP is added, so it is awarded only once
+ * - No migrations are generated here; handled externally per backend rules
+ */
+
+import {
+  index,
+  integer,
+  json,
+  pgTable,
+  text,
+  timestamp,
+  uuid
+} from "drizzle-orm/pg-core"
+import { profilesTable } from "@/db/schema/profiles-schema"
+import { tutorConversationsTable } from "@/db/schema/tutor-conversations-schema"
+import { RolePlayDebrief } from "@/types"
+
+/**
+ * Defines the role-play sessions table schema.
+ */
+export const roleplaySessionsTable = pgTable(
+  "roleplay_sessions",
+  {
+    id: uuid("id").defaultRandom().primaryKey(), // Unique identifier for each session
+    userId: text("user_id")
+      .notNull()
+      .references(() => profilesTable.userId, { onDelete: "cascade" }), // Learner playing the scenario
+    conversationId: uuid("conversation_id")
+      .notNull()
+      .unique()
+      .references(() => tutorConversationsTable.id, { onDelete: "cascade" }), // Messages of the session
+    scenarioId: text("scenario_id").notNull(), // Scenario ID in the role-play library
+    achievedGoals: json("achieved_goals")
+      .$type<string[]>()
+      .notNull()
+      .default([]), // IDs of the goals met
+    debrief: json("debrief").$type<RolePlayDebrief>(), // Scored debrief, once ended
+    xpAwarded: integer("xp_awarded"), // XP added to the learner's progress, once awarded
+    completedAt: timestamp("completed_at"), // When the learner ended the scenario
+    createdAt: timestamp("created_at").defaultNow().notNull(), // When the session started
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .notNull()
+      .$onUpdate(() => new Date()) // Update timestamp on modification
+  },
+  table => [index().on(table.userId, table.scenarioId, table.updatedAt)]
+)
+
+/**
+ * Type definition for inserting a new session.
+ */
+export type InsertRoleplaySession = typeof roleplaySessionsTable.$inferInsert
+
+/**
+ * Type definition for selecting a session.
+ */
+export type SelectRoleplaySession = typeof roleplaySessionsTable.$inferSelect
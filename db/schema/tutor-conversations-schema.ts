@@ -0,0 +1,55 @@
+/*
+ * Defines the database schema for tutor conversations in the Learn Kannada app.
+ * Each row is one chat session between a learner and the AI Kannada tutor;
+ * its messages are stored in tutor_messages.
+ *
+ * Key features:
+ * - Links to profiles via a foreign key (userId) with cascade delete
+ * - Title taken from the learner's first message
+ * - The level the tutor speaks at, fixed when the conversation starts
+ * - updatedAt moves with every message, so recent conversations sort first
+ *
+ * @dependencies
+ * - drizzle-orm/pg-core: Provides PostgreSQL schema definition utilities
+ * - @/db/schema: Imports profilesTable and levelEnum
+ *
+ * @notes
+ * - No migrations are generated here; handled externally per backend rules
+ */
+
+import { index, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core"
+import { levelEnum } from "@/db/schema/lessons-schema"
+import { profilesTable } from "@/db/schema/profiles-schema"
+
+/**
+ * Defines the tutor conversations table schema.
+ */
+export const tutorConversationsTable = pgTable(
+  "tutor_conversations",
+  {
+    id: uuid("id").defaultRandom().primaryKey(), // Unique identifier for each conversation
+    userId: text("user_id")
+      .notNull()
+      .references(() => profilesTable.userId, { onDelete: "cascade" }), // Learner chatting with the tutor
+    title: text("title").notNull(), // Short title for the conversation list
+    level: levelEnum("level").notNull(), // Level the tutor replies at
+    createdAt: timestamp("created_at").defaultNow().notNull(), // When the conversation started
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .notNull()
+      .$onUpdate(() => new Date()) // Update timestamp on modification
+  },
+  table => [index().on(table.userId, table.updatedAt)]
+)
+
+/**
+ * Type definition for inserting a new conversation.
+ */
+export type InsertTutorConversation =
+  typeof tutorConversationsTable.$inferInsert
+
+/**
+ * Type definition for selecting a conversation.
+ */
+export type SelectTutorConversation =
+  typeof tutorConversationsTable.$inferSelect
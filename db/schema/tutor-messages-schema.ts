@@ -0,0 +1,68 @@
+/*
+ * Defines the database schema for tutor chat messages in the Learn Kannada app.
+ * Each row is one turn of a tutor conversation: a learner message with the tutor's
+ * corrections, or a tutor reply with its English translation.
+ *
+ * Key features:
+ * - Links to tutor_conversations via a foreign key (conversationId) with cascade delete
+ * - Role (user or assistant) and message text
+ * - Grammar feedback on learner messages, and an English translation of tutor replies
+ *
+ * @dependencies
+ * - drizzle-orm/pg-core: Provides PostgreSQL schema definition utilities
+ * - @/db/schema: Imports tutorConversationsTable
+ * - @/types: GrammarFeedback type for the corrections column
+ *
+ * @notes
+ * - No migrations are generated here; handled externally per backend rules
+ * - Messages are immutable, so only createdAt is included
+ */
+
+import {
+  index,
+  json,
+  pgEnum,
+  pgTable,
+  text,
+  timestamp,
+  uuid
+} from "drizzle-orm/pg-core"
+import { tutorConversationsTable } from "@/db/schema/tutor-conversations-schema"
+import { GrammarFeedback } from "@/types"
+
+/**
+ * Defines the tutor message role enum.
+ */
+export const tutorMessageRoleEnum = pgEnum("tutor_message_role", [
+  "user",
+  "assistant"
+])
+
+/**
+ * Defines the tutor messages table schema.
+ */
+export const tutorMessagesTable = pgTable(
+  "tutor_messages",
+  {
+    id: uuid("id").defaultRandom().primaryKey(), // Unique identifier for each message
+    conversationId: uuid("conversation_id")
+      .notNull()
+      .references(() => tutorConversationsTable.id, { onDelete: "cascade" }), // Conversation the message belongs to
+    role: tutorMessageRoleEnum("role").notNull(), // Learner (user) or tutor (assistant)
+    content: text("content").notNull(), // Message text
+    translation: text("translation"), // English translation of a tutor reply
+    corrections: json("corrections").$type<GrammarFeedback>(), // Grammar feedback on a learner message
+    createdAt: timestamp("created_at").defaultNow().notNull() // When the message was sent
+  },
+  table => [index().on(table.conversationId, table.createdAt)]
+)
+
+/**
+ * Type definition for inserting a new message.
+ */
+export type InsertTutorMessage = typeof tutorMessagesTable.$inferInsert
+
+/**
+ * Type definition for selecting a message.
+ */
+export type SelectTutorMessage = typeof tutorMessagesTable.$inferSelect
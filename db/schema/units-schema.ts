@@ -0,0 +1,47 @@
+/*
+ * Defines the database schema for curriculum units in the Learn Kannada app.
+ * A unit (module) groups related lessons and gives them an explicit order,
+ * so the curriculum reads as a sequence rather than a flat pool of lessons.
+ *
+ * Key features:
+ * - Explicit ordering via position (lower comes first)
+ * - Optional description shown in the learn sidebar
+ * - Stable slug used as the key for curriculum bundle import/export
+ * - Includes timestamps for creation and updates
+ *
+ * @dependencies
+ * - drizzle-orm/pg-core: Provides PostgreSQL schema definition utilities
+ *
+ * @notes
+ * - No migrations are generated here; handled externally per backend rules
+ * - Lessons reference units via lessons.unit_id; a unit's level follows from its lessons
+ */
+
+import { integer, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core"
+
+/**
+ * Defines the units table schema.
+ * This table stores ordered groups of lessons.
+ */
+export const unitsTable = pgTable("units", {
+  id: uuid("id").defaultRandom().primaryKey(), // Unique identifier for each unit
+  slug: text("slug").unique(), // Stable key for bundle import/export, e.g. "greetings"
+  title: text("title").notNull(), // Human-readable unit title
+  description: text("description"), // Optional summary of what the unit covers
+  position: integer("position").default(0).notNull(), // Sort order across units (ascending)
+  createdAt: timestamp("created_at").defaultNow().notNull(), // Creation timestamp
+  updatedAt: timestamp("updated_at")
+    .defaultNow()
+    .notNull()
+    .$onUpdate(() => new Date()) // Update timestamp on modification
+})
+
+/**
+ * Type definition for inserting a new unit record.
+ */
+export type InsertUnit = typeof unitsTable.$inferInsert
+
+/**
+ * Type definition for selecting a unit record.
+ */
+export type SelectUnit = typeof unitsTable.$inferSelect
@@ -0,0 +1,73 @@
+/*
+ * Defines the database schema for vocabulary reviews in the Learn Kannada app.
+ * Each row is one learner's spaced-repetition schedule for one word, updated
+ * every time they rate their recall of its flashcard.
+ *
+ * Key features:
+ * - Links to profiles (userId) and vocabulary (vocabularyId) via foreign keys
+ * - SM-2 state: ease factor, interval, successful repetitions and lapses
+ * - Next due time, indexed for the daily review queue
+ *
+ * @dependencies
+ * - drizzle-orm/pg-core: Provides PostgreSQL schema definition utilities
+ * - @/db/schema: Imports profilesTable and vocabularyTable
+ *
+ * @notes
+ * - No migrations are generated here; handled externally per backend rules
+ * - A row is created the first time the learner reviews a word; words without one are new to them
+ * - Scheduling rules live in @/lib/vocabulary/srs
+ */
+
+import {
+  index,
+  integer,
+  pgTable,
+  real,
+  text,
+  timestamp,
+  unique,
+  uuid
+} from "drizzle-orm/pg-core"
+import { profilesTable } from "@/db/schema/profiles-schema"
+import { vocabularyTable } from "@/db/schema/vocabulary-schema"
+
+/**
+ * Defines the vocabulary reviews table schema.
+ */
+export const vocabularyReviewsTable = pgTable(
+  "vocabulary_reviews",
+  {
+    id: uuid("id").defaultRandom().primaryKey(), // Unique identifier for each schedule
+    userId: text("user_id")
+      .notNull()
+      .references(() => profilesTable.userId, { onDelete: "cascade" }), // Learner reviewing the word
+    vocabularyId: uuid("vocabulary_id")
+      .notNull()
+      .references(() => vocabularyTable.id, { onDelete: "cascade" }), // Word reviewed
+    easeFactor: real("ease_factor").default(2.5).notNull(), // SM-2 interval multiplier
+    intervalDays: integer("interval_days").default(0).notNull(), // Days until the next review
+    repetitions: integer("repetitions").default(0).notNull(), // Successful reviews in a row
+    lapses: integer("lapses").default(0).notNull(), // Times the word was forgotten
+    dueAt: timestamp("due_at").notNull(), // When the word is next due
+    lastReviewedAt: timestamp("last_reviewed_at").notNull(), // When the word was last rated
+    createdAt: timestamp("created_at").defaultNow().notNull(), // When the learner first reviewed the word
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .notNull()
+      .$onUpdate(() => new Date()) // Update timestamp on modification
+  },
+  table => [
+    unique().on(table.userId, table.vocabularyId),
+    index().on(table.userId, table.dueAt)
+  ]
+)
+
+/**
+ * Type definition for inserting a new schedule.
+ */
+export type InsertVocabularyReview = typeof vocabularyReviewsTable.$inferInsert
+
+/**
+ * Type definition for selecting a schedule.
+ */
+export type SelectVocabularyReview = typeof vocabularyReviewsTable.$inferSelect
@@ -0,0 +1,68 @@
+/*
+ * Defines the database schema for vocabulary in the Learn Kannada app.
+ * Each row is a word taught by a published lesson, copied from the vocabulary
+ * section of the lesson's content so words can be queried and reviewed on their own.
+ *
+ * Key features:
+ * - Links to lessons via a foreign key (lessonId)
+ * - Kannada word, transliteration, meaning, part of speech and audio
+ * - An example sentence from the lesson that uses the word
+ * - One row per word and lesson, in lesson order
+ *
+ * @dependencies
+ * - drizzle-orm/pg-core: Provides PostgreSQL schema definition utilities
+ * - @/db/schema/lessons-schema: Imports lessonsTable
+ *
+ * @notes
+ * - No migrations are generated here; handled externally per backend rules
+ * - Rows are written when a lesson revision is published (or rolled back to) and mirror that revision;
+ *   edit the lesson's vocabulary section rather than these rows
+ * - Words removed from a lesson are deleted with their learners' review state
+ */
+
+import {
+  integer,
+  pgTable,
+  text,
+  timestamp,
+  unique,
+  uuid
+} from "drizzle-orm/pg-core"
+import { lessonsTable } from "@/db/schema/lessons-schema"
+
+/**
+ * Defines the vocabulary table schema.
+ */
+export const vocabularyTable = pgTable(
+  "vocabulary",
+  {
+    id: uuid("id").defaultRandom().primaryKey(), // Unique identifier for each word
+    lessonId: uuid("lesson_id")
+      .notNull()
+      .references(() => lessonsTable.id, { onDelete: "cascade" }), // Lesson that teaches the word
+    kannada: text("kannada").notNull(), // Word in Kannada script
+    transliteration: text("transliteration"), // Romanized form
+    english: text("english").notNull(), // English meaning
+    partOfSpeech: text("part_of_speech"), // e.g. "noun", "verb"
+    audioUrl: text("audio_url"), // Recorded pronunciation
+    exampleKannada: text("example_kannada"), // A sentence from the lesson that uses the word
+    exampleEnglish: text("example_english"), // Its translation
+    position: integer("position").default(0).notNull(), // Order within the lesson
+    createdAt: timestamp("created_at").defaultNow().notNull(), // Creation timestamp
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .notNull()
+      .$onUpdate(() => new Date()) // Update timestamp on modification
+  },
+  table => [unique().on(table.lessonId, table.kannada)]
+)
+
+/**
+ * Type definition for inserting a new word.
+ */
+export type InsertVocabulary = typeof vocabularyTable.$inferInsert
+
+/**
+ * Type definition for selecting a word.
+ */
+export type SelectVocabulary = typeof vocabularyTable.$inferSelect
@@ -7,6 +7,7 @@
  * - Uses ts-jest preset for TypeScript support
  * - Sets test environment to Node.js
  * - Specifies test file location
+ * - Maps the `@/` import alias to the project root (mirrors tsconfig paths)
  *
  * @notes
  * - Adjust roots if your test directory differs
@@ -16,5 +17,8 @@ module.exports = {
   preset: "ts-jest",
   testEnvironment: "node",
   roots: ["<rootDir>/tests"],
-  moduleFileExtensions: ["ts", "tsx", "js", "jsx", "json", "node"]
+  moduleFileExtensions: ["ts", "tsx", "js", "jsx", "json", "node"],
+  moduleNameMapper: {
+    "^@/(.*)$": "<rootDir>/$1"
+  }
 }
\ No newline at end of file
@@ -0,0 +1,167 @@
+/**
+ * @description
+ * Prompt building and output checking for AI-generated exercises in the Learn Kannada app.
+ * The generator asks the model for exercises of one type, drawn from a lesson's vocabulary
+ * and grammar, as JSON; every exercise it returns is validated before it is queued for review.
+ *
+ * Key features:
+ * - buildExerciseGenerationMessages: system and user messages for a lesson and exercise type
+ * - parseGeneratedExercises: reads the model's JSON and validates each exercise against its type
+ * - EXERCISE_CONTENT_EXAMPLES: a worked content example per exercise type, so the model matches the stored format
+ *
+ * @dependencies
+ * - @/lib/validation/exercise-content-validation: BLANK_MARKER and validateExerciseDefinition
+ * - @/types: Exercise, lesson content, FieldErrors and LLMMessage types
+ *
+ * @notes
+ * - The model is asked for {"exercises": [content, ...]}; the type is set by the request, not the model
+ * - Exercises that fail validation are reported with their field errors and never stored
+ */
+
+import {
+  BLANK_MARKER,
+  validateExerciseDefinition
+} from "@/lib/validation/exercise-content-validation"
+import {
+  ExerciseDefinition,
+  ExerciseType,
+  FieldErrors,
+  LessonContent,
+  LLMMessage
+} from "@/types"
+
+/**
+ * Most exercises generated in one request.
+ */
+export const MAX_GENERATED_EXERCISES = 10
+
+/**
+ * Exercises read from a model response.
+ */
+export interface GeneratedExercises {
+  exercises: ExerciseDefinition[] // Exercises valid for the requested type
+  rejected: FieldErrors[] // Field errors of each exercise that was not valid
+}
+
+/**
+ * Example content of each type, in the shape stored in exercises.content.
+ */
+export const EXERCISE_CONTENT_EXAMPLES: Record<ExerciseType, object> = {
+  quiz: {
+    question: "What does ನೀರು mean?",
+    options: ["water", "milk", "rice", "house"],
+    correctAnswer: "water"
+  },
+  writing: {
+    prompt: "Write 'water' in Kannada",
+    correctAnswer: "ನೀರು",
+    acceptedAnswers: ["ನೀರ್"]
+  },
+  speaking: { phrase: "ನಮಸ್ಕಾರ", english: "Hello" },
+  matching: {
+    instructions: "Match each word with its meaning",
+    pairs: [
+      { kannada: "ನೀರು", english: "water" },
+      { kannada: "ಹಾಲು", english: "milk" },
+      { kannada: "ಮನೆ", english: "house" }
+    ]
+  },
+  "fill-blank": {
+    sentence: `ನಾನು ಮನೆ${BLANK_MARKER} ಹೋಗುತ್ತೇನೆ`,
+    blanks: [{ answer: "ಗೆ", hint: "dative" }],
+    english: "I am going home"
+  },
+  "word-order": {
+    words: ["ನಾನು", "ಮನೆಗೆ", "ಹೋಗುತ್ತೇನೆ"],
+    english: "I am going home"
+  },
+  dictation: { text: "ನೀರು ಕೊಡಿ", english: "Please give water" },
+  translation: {
+    source: "ನನಗೆ ಕಾಫಿ ಬೇಕು",
+    direction: "kn-en",
+    acceptedAnswers: ["I want coffee", "I need coffee"]
+  }
+}
+
+/**
+ * Builds the messages that ask the model for exercises of one type from a lesson.
+ * @param lesson - The lesson's title, level and content
+ * @param type - Exercise type to generate
+ * @param count - Number of exercises wanted (1 to MAX_GENERATED_EXERCISES)
+ * @returns {LLMMessage[]} System and user messages
+ */
+export function buildExerciseGenerationMessages(
+  lesson: { title: string; level: string; content: LessonContent },
+  type: ExerciseType,
+  count: number
+): LLMMessage[] {
+  const { vocabulary, grammarNotes, examples } = lesson.content
+
+  const material = [
+    `Lesson: ${lesson.title} (${lesson.level})`,
+    vocabulary.length > 0 &&
+      `Vocabulary:\n${vocabulary
+        .map(word => `- ${word.kannada} = ${word.english}`)
+        .join("\n")}`,
+    grammarNotes.length > 0 &&
+      `Grammar:\n${grammarNotes
+        .map(note => `- ${note.title}: ${note.explanation}`)
+        .join("\n")}`,
+    examples.length > 0 &&
+      `Example sentences:\n${examples
+        .map(example => `- ${example.kannada} = ${example.english}`)
+        .join("\n")}`
+  ].filter(Boolean)
+
+  return [
+    {
+      role: "system",
+      content: [
+        "You write Kannada exercises for English-speaking learners.",
+        "Use only the vocabulary and grammar of the lesson you are given, in Kannada script.",
+        `Reply with a JSON object {"exercises": [...]} where each item is the content of one "${type}" exercise, shaped like this example:`,
+        JSON.stringify(EXERCISE_CONTENT_EXAMPLES[type]),
+        "Do not add fields that are not in the example. Make every exercise different."
+      ].join("\n")
+    },
+    {
+      role: "user",
+      content: `${material.join("\n\n")}\n\nWrite ${count} "${type}" exercises for this lesson.`
+    }
+  ]
+}
+
+/**
+ * Reads and validates the exercises in a model response.
+ * @param raw - The model's reply
+ * @param type - Exercise type that was requested
+ * @returns {GeneratedExercises | null} Valid exercises and the errors of invalid ones, or null when the reply is not the expected JSON
+ */
+export function parseGeneratedExercises(
+  raw: string,
+  type: ExerciseType
+): GeneratedExercises | null {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(raw)
+  } catch {
+    return null
+  }
+
+  const items =
+    parsed && typeof parsed === "object" && "exercises" in parsed
+      ? parsed.exercises
+      : null
+  if (!Array.isArray(items)) return null
+
+  const result: GeneratedExercises = { exercises: [], rejected: [] }
+  for (const content of items.slice(0, MAX_GENERATED_EXERCISES)) {
+    const validation = validateExerciseDefinition({ type, content })
+    if (validation.success) {
+      result.exercises.push(validation.data)
+    } else {
+      result.rejected.push(validation.fieldErrors)
+    }
+  }
+  return result
+}
@@ -0,0 +1,207 @@
+/**
+ * @description
+ * Prompt building and reply checking for structured grammar feedback in the Learn Kannada app.
+ * The model is asked to list each mistake in a learner's sentence as JSON; the reply is validated
+ * with zod and every mistake is pinned to the exact characters it covers in the sentence.
+ *
+ * Key features:
+ * - GRAMMAR_SENTENCE_MAX_LENGTH: longest sentence sent to the model for checking
+ * - buildGrammarFeedbackMessages: system and user messages for a sentence
+ * - parseGrammarFeedback: validates the reply and resolves each mistake's span
+ * - grammarReplySchema, toGrammarFeedback and GRAMMAR_ERROR_FORMAT: the same prompt and checks for replies
+ *   that carry feedback among other fields
+ * - segmentSentence: splits a sentence into plain and mistaken parts for inline underlining
+ *
+ * @dependencies
+ * - zod: Schema for the model's reply
+ * - @/types: Grammar feedback and LLMMessage types
+ *
+ * @notes
+ * - Models often miscount character offsets, so a span is trusted only when it covers the quoted text;
+ *   otherwise the quoted text is searched for in the sentence. Mistakes that cannot be found are dropped
+ * - Overlapping mistakes are not supported by the inline display; the earlier one is kept
+ */
+
+import {
+  GrammarError,
+  GrammarErrorCategory,
+  GrammarFeedback,
+  LLMMessage
+} from "@/types"
+import { z } from "zod"
+
+const grammarErrorCategorySchema = z.enum([
+  "case-ending",
+  "verb-agreement",
+  "word-order",
+  "spelling",
+  "honorific"
+])
+
+/**
+ * Grammar error categories, in the order they are described to the model.
+ */
+export const GRAMMAR_ERROR_CATEGORIES: GrammarErrorCategory[] =
+  grammarErrorCategorySchema.options
+
+/**
+ * Longest sentence checked for grammar, in characters.
+ */
+export const GRAMMAR_SENTENCE_MAX_LENGTH = 500
+
+/**
+ * How the model should describe each mistake, for prompts that ask for grammar feedback.
+ */
+export const GRAMMAR_ERROR_FORMAT =
+  'Each error is {"text": exact mistaken text copied from the sentence, "start": index of its first character, "end": index after its last character, "category": ..., "correction": the fixed text, "explanation": one short sentence in English}.'
+
+/**
+ * A part of a sentence: plain text, or text with a mistake.
+ */
+export interface SentenceSegment {
+  text: string
+  error: GrammarError | null
+}
+
+/**
+ * The feedback fields of a model reply.
+ */
+export const grammarReplySchema = z.object({
+  errors: z.array(
+    z.object({
+      text: z.string().min(1),
+      start: z.number().int().nonnegative().optional(),
+      end: z.number().int().positive().optional(),
+      category: grammarErrorCategorySchema,
+      correction: z.string(),
+      explanation: z.string()
+    })
+  ),
+  correctedSentence: z.string(),
+  summary: z.string()
+})
+
+/**
+ * Builds the messages that ask the model to check a sentence.
+ * @param sentence - The learner's sentence
+ * @returns {LLMMessage[]} System and user messages
+ */
+export function buildGrammarFeedbackMessages(sentence: string): LLMMessage[] {
+  return [
+    {
+      role: "system",
+      content: [
+        "You are a Kannada grammar expert checking sentences written by English-speaking learners.",
+        `List every mistake, using one of these categories: ${GRAMMAR_ERROR_CATEGORIES.join(", ")}.`,
+        'Reply with a JSON object {"errors": [...], "correctedSentence": "...", "summary": "..."}.',
+        GRAMMAR_ERROR_FORMAT,
+        'If the sentence is correct, reply with "errors": [] and the sentence unchanged. Keep the summary to one or two sentences.'
+      ].join("\n")
+    },
+    { role: "user", content: sentence }
+  ]
+}
+
+/**
+ * Reads and validates the model's grammar feedback.
+ * @param raw - The model's reply
+ * @param sentence - The sentence that was checked
+ * @returns {GrammarFeedback | null} Feedback with every span pinned to the sentence, or null when the reply
+ *   is not the expected JSON
+ */
+export function parseGrammarFeedback(
+  raw: string,
+  sentence: string
+): GrammarFeedback | null {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(raw)
+  } catch {
+    return null
+  }
+
+  const result = grammarReplySchema.safeParse(parsed)
+  return result.success ? toGrammarFeedback(result.data, sentence) : null
+}
+
+/**
+ * Pins each mistake in a validated reply to the sentence.
+ * @param reply - Feedback fields that passed grammarReplySchema
+ * @param sentence - The sentence that was checked
+ * @returns {GrammarFeedback} Feedback with mistakes in sentence order; mistakes not found are dropped
+ */
+export function toGrammarFeedback(
+  reply: z.infer<typeof grammarReplySchema>,
+  sentence: string
+): GrammarFeedback {
+  const errors: GrammarError[] = []
+  for (const { text, start, end, ...rest } of reply.errors) {
+    const span =
+      start !== undefined &&
+      end !== undefined &&
+      sentence.slice(start, end) === text
+        ? { start, end }
+        : findFreeSpan(sentence, text, errors)
+    if (span && !errors.some(error => overlaps(error, span))) {
+      errors.push({ ...span, text, ...rest })
+    }
+  }
+  errors.sort((a, b) => a.start - b.start)
+
+  return {
+    sentence,
+    errors,
+    correctedSentence: reply.correctedSentence || sentence,
+    summary: reply.summary
+  }
+}
+
+/**
+ * Splits a sentence into plain and mistaken parts, in order.
+ * @param sentence - The checked sentence
+ * @param errors - Its mistakes, in sentence order and not overlapping
+ * @returns {SentenceSegment[]} Segments that join back into the sentence
+ */
+export function segmentSentence(
+  sentence: string,
+  errors: GrammarError[]
+): SentenceSegment[] {
+  const segments: SentenceSegment[] = []
+  let position = 0
+  for (const error of errors) {
+    if (error.start > position) {
+      segments.push({
+        text: sentence.slice(position, error.start),
+        error: null
+      })
+    }
+    segments.push({ text: sentence.slice(error.start, error.end), error })
+    position = error.end
+  }
+  if (position < sentence.length) {
+    segments.push({ text: sentence.slice(position), error: null })
+  }
+  return segments
+}
+
+// First occurrence of text that does not overlap a mistake already found
+function findFreeSpan(
+  sentence: string,
+  text: string,
+  taken: GrammarError[]
+): { start: number; end: number } | null {
+  let start = sentence.indexOf(text)
+  while (start !== -1) {
+    const span = { start, end: start + text.length }
+    if (!taken.some(error => overlaps(error, span))) return span
+    start = sentence.indexOf(text, start + 1)
+  }
+  return null
+}
+
+function overlaps(
+  a: { start: number; end: number },
+  b: { start: number; end: number }
+): boolean {
+  return a.start < b.end && b.start < a.end
+}
@@ -0,0 +1,42 @@
+/**
+ * @description
+ * Language model provider selection for the Learn Kannada app.
+ * AI features call getLLMProvider().complete(...) instead of a vendor SDK, so they run
+ * against the OpenAI API in production and against a deterministic stub offline.
+ *
+ * Key features:
+ * - getLLMProvider: the provider named by LLM_PROVIDER (openai by default, or stub)
+ *
+ * @dependencies
+ * - @/lib/ai/openai: OpenAI provider
+ * - @/lib/ai/stub-provider: Deterministic fixture-backed provider
+ * - @/types: LLM provider types
+ *
+ * @notes
+ * - Selected with LLM_PROVIDER=openai|stub, read per call so tests can switch provider by setting process.env
+ * - The model each task uses is configured in @/lib/ai/models
+ */
+
+import { openaiProvider } from "@/lib/ai/openai"
+import { stubProvider } from "@/lib/ai/stub-provider"
+import { LLMProvider, LLMProviderName } from "@/types"
+
+type Env = Record<string, string | undefined>
+
+/**
+ * Returns the provider selected by LLM_PROVIDER.
+ * @param env - Environment to read (process.env by default)
+ * @returns {LLMProvider} The OpenAI provider, or the stub when LLM_PROVIDER=stub
+ * @throws {Error} When LLM_PROVIDER names an unknown provider
+ */
+export function getLLMProvider(env: Env = process.env): LLMProvider {
+  const name = (env.LLM_PROVIDER || "openai") as LLMProviderName
+  switch (name) {
+    case "openai":
+      return openaiProvider
+    case "stub":
+      return stubProvider
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}"; use "openai" or "stub"`)
+  }
+}
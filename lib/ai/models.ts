@@ -0,0 +1,52 @@
+/**
+ * @description
+ * Model configuration for the AI features of the Learn Kannada app.
+ * Each task has a default model that can be overridden by environment variable,
+ * so a cheaper or newer model can be tried for one feature without a code change.
+ *
+ * Key features:
+ * - DEFAULT_MODELS: the model each task uses when no override is set
+ * - resolveModel: the model for a task, from LLM_MODEL_<TASK> or the default
+ *
+ * @dependencies
+ * - @/types: LLMTask type
+ *
+ * @notes
+ * - e.g. LLM_MODEL_EXERCISE_GENERATION=gpt-4o-mini; read per call
+ */
+
+import { LLMTask } from "@/types"
+
+/**
+ * Model used by each task when no LLM_MODEL_<TASK> override is set.
+ */
+export const DEFAULT_MODELS: Record<LLMTask, string> = {
+  "grammar-explanation": "gpt-4o", // Must support JSON output
+  "lesson-difficulty": "gpt-4",
+  "pronunciation-feedback": "gpt-4",
+  "exercise-generation": "gpt-4o", // Must support JSON output
+  "tutor-chat": "gpt-4o", // Must support JSON output
+  "roleplay-chat": "gpt-4o", // Must support JSON output
+  "roleplay-debrief": "gpt-4o" // Must support JSON output
+}
+
+type Env = Record<string, string | undefined>
+
+/**
+ * Returns the model a task should use.
+ * @param task - The AI feature making the request
+ * @param env - Environment to read (process.env by default)
+ * @returns {string} LLM_MODEL_<TASK> when set, otherwise the task's default model
+ */
+export function resolveModel(task: LLMTask, env: Env = process.env): string {
+  return env[modelEnvVar(task)]?.trim() || DEFAULT_MODELS[task]
+}
+
+/**
+ * Name of the environment variable that overrides a task's model.
+ * @param task - The AI feature
+ * @returns {string} e.g. LLM_MODEL_GRAMMAR_EXPLANATION
+ */
+export function modelEnvVar(task: LLMTask): string {
+  return `LLM_MODEL_${task.toUpperCase().replace(/-/g, "_")}`
+}
@@ -1,44 +1,82 @@
 /**
  * @description
- * This file configures the OpenAI client for the Learn Kannada app.
- * It initializes the OpenAI SDK with an API key from environment variables,
- * providing a reusable client instance for AI-driven features like grammar explanations.
+ * This file provides the OpenAI implementation of the language model provider for the Learn Kannada app.
+ * It sends chat completion requests to the OpenAI API with the model configured for each task.
  *
  * Key features:
+ * - Lazy initialization: The client is created on the first request, not at import
  * - Secure initialization: Uses environment variable for API key
- * - Consistent versioning: Specifies a fixed API version
- * - App identification: Includes metadata for OpenAI tracking
+ * - JSON mode for tasks that need structured replies
+ * - Streaming: yields reply text as it is generated, and cancels the request when aborted
  *
  * @dependencies
  * - openai: The OpenAI SDK for interacting with the API
- * - dotenv: Loads environment variables from .env.local (loaded globally in db.ts)
+ * - @/lib/ai/models: resolveModel for the task's model
+ * - @/types: LLM request and provider types
  *
  * @notes
- * - Requires OPENAI_API_KEY in .env.local (set up in Step 1)
- * - Throws an error if the API key is missing to prevent runtime failures
- * - Uses a specific API version (2024-02-15-preview) for stability; update as needed
- * - No direct API calls are made here; this is purely configuration
+ * - Requires OPENAI_API_KEY in .env.local; a request without it fails with an error naming the variable,
+ *   so importing this module never throws
+ * - Select this provider with LLM_PROVIDER=openai (the default)
  */
 
+import { resolveModel } from "@/lib/ai/models"
+import { LLMProvider, LLMRequest, LLMResponse } from "@/types"
 import OpenAI from "openai"
 
-// Initialize the OpenAI client with configuration
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY!, // Expects key from .env.local; ! assumes it’s set per Step 1
-  // Specify API version for consistency across calls
-  // Using a preview version as of March 2025; adjust based on OpenAI’s latest stable version
-  baseURL: "https://api.openai.com/v1",
-  defaultHeaders: {
-    "OpenAI-Beta": "v1" // Optional: Indicates beta features if needed
+let client: OpenAI | null = null
+
+// Create the OpenAI client on first use, failing clearly if the key is missing
+function getClient(): OpenAI {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error(
+      "OPENAI_API_KEY is not set in .env.local. Add it, or set LLM_PROVIDER=stub to work offline."
+    )
   }
-})
 
-// Validate the API key presence to fail fast if misconfigured
-if (!process.env.OPENAI_API_KEY) {
-  throw new Error(
-    "OPENAI_API_KEY is not set in .env.local. Please add it as per Step 1 instructions."
-  )
+  client ??= new OpenAI({
+    apiKey: process.env.OPENAI_API_KEY,
+    baseURL: "https://api.openai.com/v1"
+  })
+  return client
 }
 
-// Export the configured client for use in server actions
-export { openai }
+/**
+ * Language model provider backed by the OpenAI chat completions API.
+ */
+export const openaiProvider: LLMProvider = {
+  name: "openai",
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const model = resolveModel(request.task)
+    const response = await getClient().chat.completions.create({
+      model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      response_format: request.json ? { type: "json_object" } : undefined
+    })
+
+    return {
+      content: response.choices[0]?.message.content ?? "",
+      model: response.model || model
+    }
+  },
+
+  async *stream(request: LLMRequest, signal?: AbortSignal) {
+    const stream = await getClient().chat.completions.create(
+      {
+        model: resolveModel(request.task),
+        messages: request.messages,
+        max_tokens: request.maxTokens,
+        response_format: request.json ? { type: "json_object" } : undefined,
+        stream: true
+      },
+      { signal }
+    )
+
+    for await (const chunk of stream) {
+      const text = chunk.choices[0]?.delta.content
+      if (text) yield text
+    }
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * @description
+ * Prompt building for AI pronunciation feedback in the Learn Kannada app.
+ * The learner's speech transcript is compared to the phrase they were asked to say.
+ *
+ * Key features:
+ * - buildPronunciationMessages: coach prompt with the transcript and the expected phrase
+ *
+ * @dependencies
+ * - @/types: LLMMessage type
+ *
+ * @notes
+ * - Shared by assessPronunciationAction and the streaming /api/ai/pronunciation route
+ * - The stub provider's fixture reads the Transcript and Expected lines, so keep their wording
+ */
+
+import { LLMMessage } from "@/types"
+
+/**
+ * Longest pronunciation feedback, in tokens.
+ */
+export const PRONUNCIATION_FEEDBACK_MAX_TOKENS = 200
+
+/**
+ * Builds the messages asking for feedback on a learner's pronunciation.
+ * @param transcript - What the learner said, as transcribed
+ * @param expectedPhrase - The phrase they were asked to say
+ * @returns {LLMMessage[]} System prompt and the comparison request
+ */
+export function buildPronunciationMessages(
+  transcript: string,
+  expectedPhrase: string
+): LLMMessage[] {
+  return [
+    {
+      role: "system",
+      content:
+        "You are a pronunciation coach for Kannada. Compare the user’s transcript to the expected phrase and provide feedback on accuracy. If incorrect, suggest improvements."
+    },
+    {
+      role: "user",
+      content: `Transcript: "${transcript}"\nExpected: "${expectedPhrase}"`
+    }
+  ]
+}
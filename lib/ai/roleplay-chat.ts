@@ -0,0 +1,128 @@
+/**
+ * @description
+ * Prompt building and reply checking for role-play scenarios in the Learn Kannada app.
+ * The model plays the scenario's character in Kannada and, with each reply, returns a
+ * translation, grammar feedback on the learner's message and the goals that message met.
+ *
+ * Key features:
+ * - buildRolePlayMessages: character prompt with the setting, goals and level, then the conversation
+ * - parseRolePlayReply: validates the reply, pins corrections to the message and keeps only known goals
+ * - mergeAchievedGoals: adds newly met goals to those met before, in scenario order
+ *
+ * @dependencies
+ * - zod: Schema for the model's reply
+ * - @/lib/ai/grammar-feedback: Span resolution for the corrections
+ * - @/lib/ai/tutor-chat: Reply format, level guidance and history limit shared with the tutor chat
+ * - @/types: LLMMessage, tutor and role-play types
+ *
+ * @notes
+ * - The character's opening line is sent as the first assistant turn, as the learner saw it first
+ * - The prompt asks for "reply" first, so it can be shown while the rest of the JSON is still streaming
+ */
+
+import { toGrammarFeedback } from "@/lib/ai/grammar-feedback"
+import {
+  TUTOR_HISTORY_LIMIT,
+  TUTOR_LEVEL_GUIDANCE,
+  TUTOR_REPLY_FORMAT,
+  TutorReply,
+  tutorReplySchema
+} from "@/lib/ai/tutor-chat"
+import { LLMMessage, RolePlayScenario, TutorMessageRole } from "@/types"
+import { z } from "zod"
+
+/**
+ * A character reply read from the model.
+ */
+export interface RolePlayReply extends TutorReply {
+  achievedGoals: string[] // IDs of the goals the learner's message met
+}
+
+const rolePlayReplySchema = tutorReplySchema.extend({
+  achievedGoals: z.array(z.string()).default([])
+})
+
+/**
+ * Builds the messages for the character's next reply.
+ * @param scenario - The scenario being played
+ * @param history - Earlier messages of the conversation, oldest first
+ * @param message - The learner's new message
+ * @returns {LLMMessage[]} System prompt, opening line, recent history and the new message
+ */
+export function buildRolePlayMessages(
+  scenario: RolePlayScenario,
+  history: { role: TutorMessageRole; content: string }[],
+  message: string
+): LLMMessage[] {
+  const { persona } = scenario
+  return [
+    {
+      role: "system",
+      content: [
+        `You are ${persona.name}, a ${persona.role}, in a Kannada role-play with an English-speaking learner. ${persona.description}`,
+        `Setting: ${scenario.setting}`,
+        TUTOR_LEVEL_GUIDANCE[scenario.level],
+        "Stay in character and reply in Kannada script only. Let the learner lead; do not do their goals for them.",
+        "The learner's goals:",
+        ...scenario.goals.map(goal => `- "${goal.id}": ${goal.description}`),
+        TUTOR_REPLY_FORMAT,
+        'Also include "achievedGoals": the IDs of the goals the learner\'s latest message meets, or [] when it meets none.'
+      ].join("\n")
+    },
+    { role: "assistant", content: scenario.opening.kannada },
+    ...history.slice(-TUTOR_HISTORY_LIMIT).map(turn => ({
+      role: turn.role,
+      content: turn.content
+    })),
+    { role: "user", content: message }
+  ]
+}
+
+/**
+ * Reads and validates the character's reply.
+ * @param raw - The model's reply
+ * @param message - The learner's message it answers
+ * @param scenario - The scenario being played
+ * @returns {RolePlayReply | null} The reply with corrections pinned to the message and the goals met,
+ *   or null when the reply is not the expected JSON
+ */
+export function parseRolePlayReply(
+  raw: string,
+  message: string,
+  scenario: RolePlayScenario
+): RolePlayReply | null {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(raw)
+  } catch {
+    return null
+  }
+
+  const result = rolePlayReplySchema.safeParse(parsed)
+  if (!result.success) return null
+
+  const { reply, translation, achievedGoals, ...feedback } = result.data
+  return {
+    reply,
+    translation,
+    corrections: toGrammarFeedback(feedback, message),
+    achievedGoals: mergeAchievedGoals(scenario, [], achievedGoals)
+  }
+}
+
+/**
+ * Adds newly met goals to those met before.
+ * @param scenario - The scenario being played
+ * @param achieved - IDs of the goals met before
+ * @param met - IDs of the goals just met; unknown IDs are ignored
+ * @returns {string[]} Every goal met, in the scenario's order
+ */
+export function mergeAchievedGoals(
+  scenario: RolePlayScenario,
+  achieved: string[],
+  met: string[]
+): string[] {
+  return scenario.goals
+    .map(goal => goal.id)
+    .filter(id => achieved.includes(id) || met.includes(id))
+}
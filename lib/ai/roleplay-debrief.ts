@@ -0,0 +1,125 @@
+/**
+ * @description
+ * The scored debrief at the end of a role-play scenario in the Learn Kannada app.
+ * The model rates the learner's Kannada over the whole conversation; the score combines that
+ * rating with the share of the scenario's goals the learner met.
+ *
+ * Key features:
+ * - buildDebriefMessages: the scenario, the goals met and the transcript, asking for a JSON debrief
+ * - parseDebriefReply: validates the model's rating and feedback
+ * - scoreRolePlay: the 0 to 100 score from goals met and the language rating
+ *
+ * @dependencies
+ * - zod: Schema for the model's reply
+ * - @/types: LLMMessage, tutor and role-play types
+ *
+ * @notes
+ * - Goals weigh more than the rating (GOAL_WEIGHT), so the score mostly reflects what the learner
+ *   managed to do in Kannada, which the goal tracking has already judged turn by turn
+ */
+
+import { LLMMessage, RolePlayScenario, TutorMessageRole } from "@/types"
+import { z } from "zod"
+
+/**
+ * Share of the score that comes from goals met; the rest comes from the language rating.
+ */
+export const GOAL_WEIGHT = 0.7
+
+/**
+ * Most messages of the conversation sent for the debrief, the latest kept.
+ */
+export const DEBRIEF_TRANSCRIPT_LIMIT = 60
+
+const debriefReplySchema = z.object({
+  languageScore: z.number().min(0).max(100),
+  summary: z.string().trim().min(1),
+  strengths: z.array(z.string().trim().min(1)).max(5).default([]),
+  improvements: z.array(z.string().trim().min(1)).max(5).default([])
+})
+
+/**
+ * The model's debrief of a conversation.
+ */
+export type DebriefReply = z.infer<typeof debriefReplySchema>
+
+/**
+ * Builds the messages asking for a debrief of a conversation.
+ * @param scenario - The scenario that was played
+ * @param transcript - The conversation, oldest first; only the last DEBRIEF_TRANSCRIPT_LIMIT messages are sent
+ * @param achievedGoals - IDs of the goals the learner met
+ * @returns {LLMMessage[]} System prompt and the transcript to assess
+ */
+export function buildDebriefMessages(
+  scenario: RolePlayScenario,
+  transcript: { role: TutorMessageRole; content: string }[],
+  achievedGoals: string[]
+): LLMMessage[] {
+  const lines = [
+    `${scenario.persona.name}: ${scenario.opening.kannada}`,
+    ...transcript
+      .slice(-DEBRIEF_TRANSCRIPT_LIMIT)
+      .map(
+        turn =>
+          `${turn.role === "user" ? "Learner" : scenario.persona.name}: ${turn.content}`
+      )
+  ]
+
+  return [
+    {
+      role: "system",
+      content: [
+        "You are a Kannada teacher reviewing a learner's role-play conversation.",
+        `The learner is at ${scenario.level} level, so judge their Kannada against what that level can expect.`,
+        'Reply with a JSON object {"languageScore": 0 to 100 for how well they used Kannada (grammar, vocabulary, politeness), "summary": one or two sentences of feedback in English, "strengths": up to 3 short points, "improvements": up to 3 short points}.'
+      ].join("\n")
+    },
+    {
+      role: "user",
+      content: [
+        `Scenario: ${scenario.title}. ${scenario.setting}`,
+        "Goals:",
+        ...scenario.goals.map(
+          goal =>
+            `- ${goal.description} (${achievedGoals.includes(goal.id) ? "met" : "not met"})`
+        ),
+        "Conversation:",
+        ...lines
+      ].join("\n")
+    }
+  ]
+}
+
+/**
+ * Reads and validates the model's debrief.
+ * @param raw - The model's reply
+ * @returns {DebriefReply | null} The rating and feedback, or null when the reply is not the expected JSON
+ */
+export function parseDebriefReply(raw: string): DebriefReply | null {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(raw)
+  } catch {
+    return null
+  }
+
+  const result = debriefReplySchema.safeParse(parsed)
+  return result.success ? result.data : null
+}
+
+/**
+ * Scores a role-play.
+ * @param goalsAchieved - Goals the learner met
+ * @param goalsTotal - Goals in the scenario
+ * @param languageScore - The model's rating of the learner's Kannada, 0 to 100
+ * @returns {number} Whole score from 0 to 100
+ */
+export function scoreRolePlay(
+  goalsAchieved: number,
+  goalsTotal: number,
+  languageScore: number
+): number {
+  const goals = goalsTotal > 0 ? Math.min(goalsAchieved / goalsTotal, 1) : 0
+  const language = Math.min(Math.max(languageScore, 0), 100) / 100
+  return Math.round(100 * (GOAL_WEIGHT * goals + (1 - GOAL_WEIGHT) * language))
+}
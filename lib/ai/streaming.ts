@@ -0,0 +1,150 @@
+/**
+ * @description
+ * Streaming of AI responses from route handlers to the browser in the Learn Kannada app.
+ * A response is sent as newline-delimited JSON: AIStreamEvent lines carrying reply text
+ * as it is generated, then the final result or an error.
+ *
+ * Key features:
+ * - toEventStream: turns the events a route handler produces into a response body
+ * - readEventStream: reads the events back in the browser, reporting a cut-off stream as an error
+ * - partialJsonString: the text so far of a string field in an unfinished JSON reply
+ *
+ * @dependencies
+ * - @/types: AIStreamEvent type
+ *
+ * @notes
+ * - Used on both sides: route handlers write streams, @/lib/hooks/use-ai-stream reads them
+ * - A stream that ends without a done or error event was interrupted (dropped connection,
+ *   server restart); readers get STREAM_INTERRUPTED_MESSAGE instead of hanging
+ */
+
+import { AIStreamEvent } from "@/types"
+
+/**
+ * Content type of streamed AI responses.
+ */
+export const STREAM_CONTENT_TYPE = "application/x-ndjson; charset=utf-8"
+
+/**
+ * Error shown when a stream ends before its result arrives.
+ */
+export const STREAM_INTERRUPTED_MESSAGE =
+  "The response was interrupted. Please try again."
+
+/**
+ * Turns a sequence of events into a response body, one JSON line per event.
+ * @param events - Events to send; the sequence is stopped if the reader cancels
+ * @returns {ReadableStream<Uint8Array>} The response body
+ */
+export function toEventStream<T>(
+  events: AsyncIterable<AIStreamEvent<T>>
+): ReadableStream<Uint8Array> {
+  const iterator = events[Symbol.asyncIterator]()
+  const encoder = new TextEncoder()
+
+  return new ReadableStream({
+    async pull(controller) {
+      const { value, done } = await iterator.next()
+      if (done) {
+        controller.close()
+      } else {
+        controller.enqueue(encoder.encode(`${JSON.stringify(value)}\n`))
+      }
+    },
+    async cancel() {
+      await iterator.return?.()
+    }
+  })
+}
+
+/**
+ * Reads the events of a streamed response body.
+ * @param body - The response body
+ * @returns {AsyncGenerator<AIStreamEvent<T>>} The events in order; when the stream breaks off or
+ *   ends before a done or error event, a final error event with STREAM_INTERRUPTED_MESSAGE
+ */
+export async function* readEventStream<T>(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<AIStreamEvent<T>> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+  let finished = false
+
+  try {
+    while (!finished) {
+      const { value, done } = await reader.read()
+      buffer += decoder.decode(value, { stream: !done })
+
+      // The last piece has no newline yet; at the end of the stream it is a cut-off line
+      const lines = buffer.split("\n")
+      buffer = lines.pop() ?? ""
+      for (const line of lines) {
+        if (!line.trim()) continue
+        const event = JSON.parse(line) as AIStreamEvent<T>
+        yield event
+        if (event.type !== "delta") {
+          finished = true
+          break
+        }
+      }
+
+      if (done) break
+    }
+  } catch (error) {
+    // Aborting the request is how callers cancel; anything else is reported as an interruption
+    if ((error as Error).name !== "AbortError") {
+      console.error("Error reading AI stream:", error)
+    }
+  } finally {
+    if (!finished) await reader.cancel().catch(() => {})
+    reader.releaseLock()
+  }
+
+  if (!finished) {
+    yield { type: "error", message: STREAM_INTERRUPTED_MESSAGE }
+  }
+}
+
+/**
+ * Reads a string field from a JSON object that is still being generated.
+ * @param raw - The JSON received so far
+ * @param key - The field to read
+ * @returns {string | null} The field's text so far, with escapes decoded (an escape cut off at the
+ *   end is left out), or null when the field has not started
+ */
+export function partialJsonString(raw: string, key: string): string | null {
+  const start = raw.match(new RegExp(`"${key}"\\s*:\\s*"`))
+  if (!start || start.index === undefined) return null
+
+  let text = ""
+  for (let i = start.index + start[0].length; i < raw.length; i++) {
+    const char = raw[i]
+    if (char === '"') break
+    if (char !== "\\") {
+      text += char
+      continue
+    }
+
+    const escape = raw[i + 1]
+    if (escape === undefined) break
+    if (escape === "u") {
+      const hex = raw.slice(i + 2, i + 6)
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) break
+      text += String.fromCharCode(parseInt(hex, 16))
+      i += 5
+    } else {
+      text += JSON_ESCAPES[escape] ?? escape
+      i += 1
+    }
+  }
+  return text
+}
+
+const JSON_ESCAPES: Record<string, string> = {
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t"
+}
@@ -0,0 +1,171 @@
+/**
+ * @description
+ * A deterministic, offline language model provider for the Learn Kannada app.
+ * Each task has a fixture that builds a canned reply from the request, so AI features
+ * can be developed and tested with no network access and no API key.
+ *
+ * Key features:
+ * - stubProvider: the stub with the default fixtures, selected with LLM_PROVIDER=stub
+ * - createStubProvider: a stub with some fixtures replaced, for tests
+ * - Default fixtures give plausible replies: grammar feedback with no mistakes, a level from the
+ *   XP thresholds, a pronunciation match check, valid exercises of the requested type, tutor
+ *   and role-play replies from short scripts (each role-play message meeting the next goal), and a
+ *   fixed role-play debrief
+ *
+ * @dependencies
+ * - @/lib/ai/exercise-generation: EXERCISE_CONTENT_EXAMPLES for generated exercises
+ * - @/types: LLM request and provider types
+ *
+ * @notes
+ * - The same request always gets the same reply; replies report the model "stub"
+ * - Streamed replies arrive in short chunks with a brief pause between them, and stop when aborted
+ * - Fixtures read the prompts the actions send, so they follow the prompt wording
+ */
+
+import { EXERCISE_CONTENT_EXAMPLES } from "@/lib/ai/exercise-generation"
+import { ExerciseType, LLMProvider, LLMRequest, LLMTask } from "@/types"
+
+/**
+ * Builds the stub's reply to a request.
+ */
+export type StubFixture = (request: LLMRequest) => string
+
+/**
+ * Model name reported by stub replies.
+ */
+export const STUB_MODEL = "stub"
+
+// Characters per streamed chunk
+const STUB_CHUNK_LENGTH = 12
+
+// Kannada replies and their translations for the tutor chat fixture
+const TUTOR_SCRIPT: [string, string][] = [
+  ["ನಮಸ್ಕಾರ! ನೀವು ಹೇಗಿದ್ದೀರಿ?", "Hello! How are you?"],
+  ["ಒಳ್ಳೆಯದು! ನಿಮ್ಮ ಊರು ಯಾವುದು?", "Good! Which is your hometown?"],
+  ["ಚೆನ್ನಾಗಿದೆ. ನಿಮಗೆ ಯಾವ ಊಟ ಇಷ್ಟ?", "Nice. Which food do you like?"]
+]
+
+// Kannada replies and their translations for the role-play fixture
+const ROLEPLAY_SCRIPT: [string, string][] = [
+  ["ಸರಿ, ಹೇಳಿ.", "Okay, go on."],
+  ["ಹೌದಾ? ಆಮೇಲೆ?", "Is that so? And then?"],
+  ["ಆಯ್ತು. ಇನ್ನೇನು ಬೇಕು?", "Done. What else do you need?"]
+]
+
+const DEFAULT_FIXTURES: Record<LLMTask, StubFixture> = {
+  // No mistakes found
+  "grammar-explanation": request => {
+    const sentence = lastUserMessage(request)
+    return JSON.stringify({
+      errors: [],
+      correctedSentence: sentence,
+      summary: `The sentence "${sentence}" looks grammatically correct.`
+    })
+  },
+
+  // Same thresholds as the prompt: beginner to 100 XP, intermediate to 300 XP
+  "lesson-difficulty": request => {
+    const xp = Number(lastUserMessage(request).match(/-?\d+/)?.[0] ?? 0)
+    return xp > 300 ? "advanced" : xp > 100 ? "intermediate" : "beginner"
+  },
+
+  "pronunciation-feedback": request => {
+    const message = lastUserMessage(request)
+    const transcript = message.match(/Transcript: "(.*)"/)?.[1] ?? ""
+    const expected = message.match(/Expected: "(.*)"/)?.[1] ?? ""
+    return transcript.trim() === expected.trim()
+      ? `Well done! "${transcript}" matches the expected phrase.`
+      : `You said "${transcript}", but the expected phrase is "${expected}". Listen to it again and repeat it slowly.`
+  },
+
+  // One copy of the type's example per exercise asked for
+  "exercise-generation": request => {
+    const match = lastUserMessage(request).match(/Write (\d+) "([a-z-]+)"/)
+    const count = Number(match?.[1] ?? 1)
+    const example =
+      EXERCISE_CONTENT_EXAMPLES[(match?.[2] ?? "quiz") as ExerciseType] ??
+      EXERCISE_CONTENT_EXAMPLES.quiz
+    return JSON.stringify({ exercises: Array(count).fill(example) })
+  },
+
+  // Replies in turn from a short script, finding no mistakes
+  "tutor-chat": request => {
+    const message = lastUserMessage(request)
+    const turn = request.messages.filter(m => m.role === "user").length - 1
+    const [reply, translation] = TUTOR_SCRIPT[turn % TUTOR_SCRIPT.length]
+    return JSON.stringify({
+      reply,
+      translation,
+      errors: [],
+      correctedSentence: message,
+      summary: "No mistakes found."
+    })
+  },
+
+  // Replies in turn from a short script; each message meets the next goal listed in the prompt
+  "roleplay-chat": request => {
+    const message = lastUserMessage(request)
+    const turn = request.messages.filter(m => m.role === "user").length - 1
+    const goalIds = [
+      ...(request.messages[0]?.content ?? "").matchAll(/^- "([^"]+)":/gm)
+    ].map(match => match[1])
+    const [reply, translation] = ROLEPLAY_SCRIPT[turn % ROLEPLAY_SCRIPT.length]
+    return JSON.stringify({
+      reply,
+      translation,
+      errors: [],
+      correctedSentence: message,
+      summary: "No mistakes found.",
+      achievedGoals: goalIds.slice(turn, turn + 1)
+    })
+  },
+
+  "roleplay-debrief": () =>
+    JSON.stringify({
+      languageScore: 80,
+      summary: "You kept the conversation going in simple, clear Kannada.",
+      strengths: ["Polite greetings", "Clear questions"],
+      improvements: ["Try longer sentences"]
+    })
+}
+
+/**
+ * Creates a stub provider, replacing the default fixture of some tasks.
+ * @param fixtures - Fixtures to use instead of the defaults
+ * @param chunkDelayMs - Pause between streamed chunks, so streaming can be seen offline
+ * @returns {LLMProvider} A provider that answers from fixtures
+ */
+export function createStubProvider(
+  fixtures: Partial<Record<LLMTask, StubFixture>> = {},
+  chunkDelayMs = 0
+): LLMProvider {
+  const resolved = { ...DEFAULT_FIXTURES, ...fixtures }
+  return {
+    name: "stub",
+    async complete(request) {
+      return { content: resolved[request.task](request), model: STUB_MODEL }
+    },
+    async *stream(request, signal) {
+      const content = resolved[request.task](request)
+      for (let i = 0; i < content.length; i += STUB_CHUNK_LENGTH) {
+        if (chunkDelayMs > 0) {
+          await new Promise(resolve => setTimeout(resolve, chunkDelayMs))
+        }
+        signal?.throwIfAborted()
+        yield content.slice(i, i + STUB_CHUNK_LENGTH)
+      }
+    }
+  }
+}
+
+/**
+ * Stub provider with the default fixtures.
+ */
+export const stubProvider = createStubProvider({}, 25)
+
+function lastUserMessage(request: LLMRequest): string {
+  return (
+    request.messages.filter(message => message.role === "user").at(-1)
+      ?.content ?? ""
+  )
+}
@@ -0,0 +1,183 @@
+/**
+ * @description
+ * Prompt building and reply checking for the AI Kannada tutor chat in the Learn Kannada app.
+ * The tutor holds a conversation in Kannada at the learner's level; with each reply it returns
+ * an English translation and grammar feedback on the learner's latest message, as JSON.
+ *
+ * Key features:
+ * - buildTutorMessages: system prompt for the level, recent history and the new message
+ * - parseTutorReply: validates the reply and pins the corrections to the learner's message
+ * - conversationTitle: a short title from the learner's first message
+ * - toTutorMessage: a saved message row as sent to the browser
+ *
+ * @dependencies
+ * - zod: Schema for the model's reply
+ * - @/db/schema/tutor-messages-schema: SelectTutorMessage type
+ * - @/lib/ai/grammar-feedback: Grammar feedback format, schema and span resolution
+ * - @/types: LLMMessage, GrammarFeedback and tutor types
+ *
+ * @notes
+ * - Only the last TUTOR_HISTORY_LIMIT messages are sent, to bound prompt size in long conversations
+ * - Past tutor turns are sent as their Kannada text only; translations and corrections are for the learner
+ * - The prompt asks for "reply" first, so it can be shown while the rest of the JSON is still streaming
+ */
+
+import { SelectTutorMessage } from "@/db/schema/tutor-messages-schema"
+import {
+  GRAMMAR_ERROR_CATEGORIES,
+  GRAMMAR_ERROR_FORMAT,
+  grammarReplySchema,
+  toGrammarFeedback
+} from "@/lib/ai/grammar-feedback"
+import {
+  GrammarFeedback,
+  LLMMessage,
+  TutorConversationSummary,
+  TutorMessage,
+  TutorMessageRole
+} from "@/types"
+import { z } from "zod"
+
+/**
+ * Most earlier messages sent to the model with each new message.
+ */
+export const TUTOR_HISTORY_LIMIT = 20
+
+/**
+ * Longest learner message, in characters.
+ */
+export const TUTOR_MESSAGE_MAX_LENGTH = 1000
+
+/**
+ * Longest conversation title, in characters.
+ */
+export const TUTOR_TITLE_LENGTH = 60
+
+/**
+ * A tutor reply read from the model.
+ */
+export interface TutorReply {
+  reply: string // The tutor's answer, in Kannada
+  translation: string // Its English translation
+  corrections: GrammarFeedback // Feedback on the learner's message
+}
+
+/**
+ * How the tutor pitches its Kannada at each level.
+ */
+export const TUTOR_LEVEL_GUIDANCE: Record<
+  TutorConversationSummary["level"],
+  string
+> = {
+  beginner:
+    "The learner is a beginner: use short, simple sentences, present tense and common everyday words.",
+  intermediate:
+    "The learner is intermediate: use everyday sentences with past and future tenses and common case endings.",
+  advanced:
+    "The learner is advanced: speak naturally, with idioms, compound sentences and polite forms."
+}
+
+/**
+ * Prompt lines asking for a reply with its translation and corrections, as JSON.
+ */
+export const TUTOR_REPLY_FORMAT = [
+  'Reply with a JSON object {"reply": your Kannada reply, "translation": its English translation, "errors": [...], "correctedSentence": "...", "summary": "..."}.',
+  `"errors" lists the mistakes in the learner's latest message only, using one of these categories: ${GRAMMAR_ERROR_CATEGORIES.join(", ")}.`,
+  GRAMMAR_ERROR_FORMAT,
+  '"correctedSentence" is their message with every mistake fixed, and "summary" is one short sentence of feedback in English.'
+].join("\n")
+
+/**
+ * Schema of a tutor reply: the reply and its translation, with grammar feedback.
+ */
+export const tutorReplySchema = grammarReplySchema.extend({
+  reply: z.string().trim().min(1),
+  translation: z.string().trim()
+})
+
+/**
+ * Builds the messages for the tutor's next reply.
+ * @param level - The level the tutor replies at
+ * @param history - Earlier messages of the conversation, oldest first
+ * @param message - The learner's new message
+ * @returns {LLMMessage[]} System prompt, recent history and the new message
+ */
+export function buildTutorMessages(
+  level: TutorConversationSummary["level"],
+  history: { role: TutorMessageRole; content: string }[],
+  message: string
+): LLMMessage[] {
+  return [
+    {
+      role: "system",
+      content: [
+        "You are a friendly Kannada tutor chatting with an English-speaking learner.",
+        TUTOR_LEVEL_GUIDANCE[level],
+        "Always reply in Kannada script, keep the conversation going with a question, and stay on the learner's topic.",
+        TUTOR_REPLY_FORMAT
+      ].join("\n")
+    },
+    ...history.slice(-TUTOR_HISTORY_LIMIT).map(turn => ({
+      role: turn.role,
+      content: turn.content
+    })),
+    { role: "user", content: message }
+  ]
+}
+
+/**
+ * Reads and validates the tutor's reply.
+ * @param raw - The model's reply
+ * @param message - The learner's message it answers
+ * @returns {TutorReply | null} The reply with corrections pinned to the message, or null when the reply
+ *   is not the expected JSON
+ */
+export function parseTutorReply(
+  raw: string,
+  message: string
+): TutorReply | null {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(raw)
+  } catch {
+    return null
+  }
+
+  const result = tutorReplySchema.safeParse(parsed)
+  if (!result.success) return null
+
+  const { reply, translation, ...feedback } = result.data
+  return {
+    reply,
+    translation,
+    corrections: toGrammarFeedback(feedback, message)
+  }
+}
+
+/**
+ * Makes a conversation title from the learner's first message.
+ * @param message - The first message
+ * @returns {string} The message on one line, shortened to TUTOR_TITLE_LENGTH characters
+ */
+export function conversationTitle(message: string): string {
+  const title = message.replace(/\s+/g, " ").trim()
+  return title.length > TUTOR_TITLE_LENGTH
+    ? `${title.slice(0, TUTOR_TITLE_LENGTH - 1).trimEnd()}…`
+    : title
+}
+
+/**
+ * Converts a saved message row to the message sent to the browser.
+ * @param message - The saved row
+ * @returns {TutorMessage} The message
+ */
+export function toTutorMessage(message: SelectTutorMessage): TutorMessage {
+  return {
+    id: message.id,
+    role: message.role,
+    content: message.content,
+    translation: message.translation,
+    corrections: message.corrections ?? null,
+    createdAt: message.createdAt
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * @description
+ * Server-side authorization helpers for the content authoring area of the Learn Kannada app.
+ * Admins are learners whose profile role is "admin"; they can author lessons and exercises.
+ *
+ * Key features:
+ * - Resolves the signed-in user's admin status from their profile
+ * - Shared message for rejected admin-only actions
+ *
+ * @dependencies
+ * - @clerk/nextjs/server: Identifies the signed-in user
+ * - @/db/db: Drizzle ORM database instance
+ * - @/db/schema/profiles-schema: Profiles table with the role column
+ * - drizzle-orm: For the profile lookup
+ *
+ * @notes
+ * - Server-only: call from server actions, layouts and pages, never from client components
+ * - Roles are granted by updating profiles.role directly; there is no self-service promotion
+ */
+
+import { auth } from "@clerk/nextjs/server"
+import { db } from "@/db/db"
+import { profilesTable } from "@/db/schema/profiles-schema"
+import { eq } from "drizzle-orm"
+
+/**
+ * Message returned by admin-only actions when the caller is not an admin.
+ */
+export const ADMIN_REQUIRED_MESSAGE = "Forbidden: Admin access required"
+
+/**
+ * Returns the signed-in user's ID if they are an admin.
+ * @returns Promise<string | null> - The admin's user ID, or null for signed-out users and learners
+ */
+export async function getAdminUserId(): Promise<string | null> {
+  const { userId } = await auth()
+  if (!userId) return null
+
+  const [profile] = await db
+    .select({ role: profilesTable.role })
+    .from(profilesTable)
+    .where(eq(profilesTable.userId, userId))
+    .limit(1)
+
+  return profile?.role === "admin" ? userId : null
+}
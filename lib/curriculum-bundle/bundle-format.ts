@@ -0,0 +1,356 @@
+/**
+ * @description
+ * The curriculum bundle file format: validation, the vocabulary CSV, and slugs.
+ *
+ * A bundle is a JSON document:
+ *
+ *   {
+ *     "format": "learn-kannada-curriculum",
+ *     "version": 1,
+ *     "units": [{ "slug": "greetings", "title": "Greetings", "position": 0 }],
+ *     "lessons": [{
+ *       "slug": "greetings-basics",
+ *       "title": "Saying hello",
+ *       "level": "beginner",
+ *       "unit": "greetings",
+ *       "position": 0,
+ *       "prerequisites": [],
+ *       "content": { "version": 1, "vocabulary": [...], ... },
+ *       "exercises": [{ "slug": "quiz-hello", "type": "quiz", "content": {...} }]
+ *     }]
+ *   }
+ *
+ * The vocabulary CSV has the header `lesson,kannada,transliteration,english,partOfSpeech,audioUrl`.
+ * Each row is one vocabulary item of the lesson with that slug; the rows for a lesson
+ * replace its whole vocabulary section, in file order.
+ *
+ * Key features:
+ * - Strict validation with errors located by path (e.g. "lessons.0.exercises.1.slug")
+ * - Slugs are lowercase words joined by hyphens and must be unique per entity kind
+ * - Audio is referenced by URL (vocabulary audioUrl, exercise content.audioUrl) and validated as such
+ * - Deterministic slugs for rows created before slugs existed
+ *
+ * @dependencies
+ * - zod: Schema definitions and parsing
+ * - @/lib/curriculum-bundle/csv: CSV reading and writing
+ * - @/lib/validation/exercise-content-validation: Per-type exercise content schemas
+ * - @/lib/validation/lesson-content-validation: Lesson content and vocabulary schemas
+ * - @/types: Bundle and lesson content types
+ *
+ * @notes
+ * - Omitted optional fields default (units/lessons/prerequisites/exercises to [], positions to 0)
+ * - Exercise content is validated against its type, exactly as createExerciseAction does
+ */
+
+import { formatCsv, parseCsv } from "@/lib/curriculum-bundle/csv"
+import { exerciseDefinitionSchema } from "@/lib/validation/exercise-content-validation"
+import {
+  lessonContentSchema,
+  vocabularyItemSchema
+} from "@/lib/validation/lesson-content-validation"
+import {
+  BundleImportIssue,
+  CURRENT_CURRICULUM_BUNDLE_VERSION,
+  CURRICULUM_BUNDLE_FORMAT,
+  CurriculumBundle,
+  VocabularyCsvRow
+} from "@/types"
+import { ZodError, z } from "zod"
+
+/**
+ * Column order of the vocabulary CSV.
+ */
+export const VOCABULARY_CSV_COLUMNS = [
+  "lesson",
+  "kannada",
+  "transliteration",
+  "english",
+  "partOfSpeech",
+  "audioUrl"
+] as const
+
+const REQUIRED_VOCABULARY_CSV_COLUMNS = ["lesson", "kannada", "english"]
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+
+const slugSchema = z
+  .string()
+  .regex(SLUG_PATTERN, "Use lowercase letters, digits and hyphens")
+
+const requiredText = z.string().trim().min(1, "Required")
+
+const bundleUnitSchema = z.object({
+  slug: slugSchema,
+  title: requiredText,
+  description: z.string().trim().min(1).optional(),
+  position: z.number().int().default(0)
+})
+
+const bundleExerciseSchema = z
+  .object({ slug: slugSchema })
+  .and(exerciseDefinitionSchema)
+
+const bundleLessonSchema = z.object({
+  slug: slugSchema,
+  title: requiredText,
+  level: z.enum(["beginner", "intermediate", "advanced"]),
+  unit: slugSchema.optional(),
+  position: z.number().int().default(0),
+  prerequisites: z.array(slugSchema).default([]),
+  content: lessonContentSchema,
+  exercises: z.array(bundleExerciseSchema).default([])
+})
+
+export const curriculumBundleSchema = z.object({
+  format: z.literal(CURRICULUM_BUNDLE_FORMAT),
+  version: z.literal(CURRENT_CURRICULUM_BUNDLE_VERSION),
+  units: z.array(bundleUnitSchema).default([]),
+  lessons: z.array(bundleLessonSchema).default([])
+})
+
+/**
+ * Result of parsing one of the bundle input files.
+ */
+export type BundleParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: BundleImportIssue[] }
+
+/**
+ * Parses and validates a bundle from JSON text.
+ * @param text - The bundle file contents
+ * @returns {BundleParseResult<CurriculumBundle>} The bundle or every problem found
+ */
+export function parseCurriculumBundle(
+  text: string
+): BundleParseResult<CurriculumBundle> {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    return {
+      success: false,
+      errors: [{ path: "bundle", message: "Not valid JSON" }]
+    }
+  }
+
+  const result = curriculumBundleSchema.safeParse(raw)
+  if (!result.success) {
+    return { success: false, errors: toIssues(result.error) }
+  }
+
+  const bundle = result.data as CurriculumBundle
+  const errors = [
+    ...findDuplicates(bundle.units, "units"),
+    ...findDuplicates(bundle.lessons, "lessons"),
+    ...bundle.lessons.flatMap((lesson, index) =>
+      findDuplicates(lesson.exercises, `lessons.${index}.exercises`)
+    )
+  ]
+
+  return errors.length > 0
+    ? { success: false, errors }
+    : { success: true, data: bundle }
+}
+
+/**
+ * Parses and validates the vocabulary CSV.
+ * @param text - The CSV file contents, header row first
+ * @returns {BundleParseResult<VocabularyCsvRow[]>} The rows or every problem found
+ */
+export function parseVocabularyCsv(
+  text: string
+): BundleParseResult<VocabularyCsvRow[]> {
+  const [header, ...rows] = parseCsv(text)
+  const columns = (header ?? []).map(column => column.trim())
+
+  const missing = REQUIRED_VOCABULARY_CSV_COLUMNS.filter(
+    column => !columns.includes(column)
+  )
+  if (missing.length > 0) {
+    return {
+      success: false,
+      errors: [
+        {
+          path: "vocabulary.csv:1",
+          message: `Missing column(s): ${missing.join(", ")}`
+        }
+      ]
+    }
+  }
+
+  const rowSchema = z.object({ lesson: slugSchema }).and(vocabularyItemSchema)
+  const errors: BundleImportIssue[] = []
+  const data: VocabularyCsvRow[] = []
+
+  rows.forEach((fields, index) => {
+    const record: Record<string, string> = {}
+    columns.forEach((column, position) => {
+      const value = fields[position]?.trim()
+      if (value) record[column] = value
+    })
+
+    const result = rowSchema.safeParse(record)
+    if (result.success) {
+      data.push(result.data)
+    } else {
+      // Line numbers count the header as line 1, like a spreadsheet
+      errors.push(...toIssues(result.error, `vocabulary.csv:${index + 2}`))
+    }
+  })
+
+  return errors.length > 0
+    ? { success: false, errors }
+    : { success: true, data }
+}
+
+/**
+ * Writes every lesson's vocabulary as CSV.
+ * @param bundle - The bundle to export
+ * @returns {string} CSV text with a header row
+ */
+export function formatVocabularyCsv(bundle: CurriculumBundle): string {
+  return formatCsv([
+    [...VOCABULARY_CSV_COLUMNS],
+    ...bundle.lessons.flatMap(lesson =>
+      lesson.content.vocabulary.map(item => [
+        lesson.slug,
+        item.kannada,
+        item.transliteration ?? "",
+        item.english,
+        item.partOfSpeech ?? "",
+        item.audioUrl ?? ""
+      ])
+    )
+  ])
+}
+
+/**
+ * Replaces the vocabulary of every lesson named in the CSV with its CSV rows.
+ * Lessons missing from the bundle are taken from `existing` (the current curriculum)
+ * so a spreadsheet can update vocabulary without a bundle.
+ * @param bundle - The bundle being imported (possibly empty)
+ * @param rows - Parsed vocabulary CSV rows
+ * @param existing - The current curriculum, used for lessons not in the bundle
+ * @returns {BundleParseResult<CurriculumBundle>} The merged bundle or unknown-lesson errors
+ */
+export function applyVocabularyCsv(
+  bundle: CurriculumBundle,
+  rows: VocabularyCsvRow[],
+  existing: CurriculumBundle
+): BundleParseResult<CurriculumBundle> {
+  const lessons = [...bundle.lessons]
+  const vocabularyBySlug = new Map<string, VocabularyCsvRow[]>()
+  const errors: BundleImportIssue[] = []
+
+  rows.forEach((row, index) => {
+    if (!lessons.some(lesson => lesson.slug === row.lesson)) {
+      const stored = existing.lessons.find(lesson => lesson.slug === row.lesson)
+      if (!stored) {
+        errors.push({
+          path: `vocabulary.csv:${index + 2}.lesson`,
+          message: `Unknown lesson "${row.lesson}"`
+        })
+        return
+      }
+      lessons.push(stored)
+    }
+    vocabularyBySlug.set(row.lesson, [
+      ...(vocabularyBySlug.get(row.lesson) ?? []),
+      row
+    ])
+  })
+
+  if (errors.length > 0) {
+    return { success: false, errors }
+  }
+
+  return {
+    success: true,
+    data: {
+      ...bundle,
+      lessons: lessons.map(lesson => {
+        const vocabulary = vocabularyBySlug.get(lesson.slug)
+        if (!vocabulary) return lesson
+        return {
+          ...lesson,
+          content: {
+            ...lesson.content,
+            vocabulary: vocabulary.map(({ lesson: _lesson, ...item }) => item)
+          }
+        }
+      })
+    }
+  }
+}
+
+/**
+ * Turns a title into a slug, e.g. "Saying Hello!" -> "saying-hello".
+ * @param text - Any text
+ * @param fallback - Used when the text has no latin letters or digits (e.g. Kannada only)
+ * @returns {string} A slug matching the bundle slug format
+ */
+export function slugify(text: string, fallback = "item"): string {
+  const slug = text
+    .normalize("NFKD")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+  return slug || fallback
+}
+
+/**
+ * Picks slugs for rows that do not have one yet, avoiding every slug already taken.
+ * Repeated names get numeric suffixes ("greetings", "greetings-2", ...).
+ * @param rows - Rows with their current slug (or null) and a name to derive one from
+ * @returns {Map<string, string>} New slugs keyed by row ID, only for rows that lacked one
+ */
+export function assignMissingSlugs(
+  rows: { id: string; slug: string | null; name: string }[]
+): Map<string, string> {
+  const taken = new Set(rows.flatMap(row => (row.slug ? [row.slug] : [])))
+  const assigned = new Map<string, string>()
+
+  for (const row of rows) {
+    if (row.slug) continue
+
+    const base = slugify(row.name)
+    let slug = base
+    for (let suffix = 2; taken.has(slug); suffix++) {
+      slug = `${base}-${suffix}`
+    }
+
+    taken.add(slug)
+    assigned.set(row.id, slug)
+  }
+
+  return assigned
+}
+
+function findDuplicates(
+  entries: { slug: string }[],
+  path: string
+): BundleImportIssue[] {
+  const seen = new Set<string>()
+  return entries.flatMap((entry, index) => {
+    if (!seen.has(entry.slug)) {
+      seen.add(entry.slug)
+      return []
+    }
+    return [
+      {
+        path: `${path}.${index}.slug`,
+        message: `Duplicate slug "${entry.slug}"`
+      }
+    ]
+  })
+}
+
+function toIssues(error: ZodError, prefix?: string): BundleImportIssue[] {
+  return error.issues.map(issue => ({
+    path:
+      [prefix, ...issue.path]
+        .filter(segment => segment !== undefined)
+        .join(".") || "bundle",
+    message: issue.message
+  }))
+}
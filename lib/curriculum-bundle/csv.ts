@@ -0,0 +1,78 @@
+/**
+ * @description
+ * Minimal RFC 4180 CSV reading and writing for curriculum spreadsheets.
+ *
+ * Key features:
+ * - Quoted fields with embedded commas, quotes ("") and line breaks
+ * - CRLF or LF line endings; a leading byte order mark is ignored
+ * - Writing quotes only the fields that need it
+ *
+ * @notes
+ * - Rows are returned as raw strings; mapping to typed records is the caller's job
+ * - Blank lines are skipped so trailing newlines from spreadsheet exports are harmless
+ */
+
+/**
+ * Parses CSV text into rows of fields.
+ * @param text - CSV text, e.g. a spreadsheet export
+ * @returns {string[][]} Rows in file order, blank lines omitted
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.startsWith("\uFEFF") ? text.slice(1) : text
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let inQuotes = false
+
+  const endRow = () => {
+    row.push(field)
+    if (row.length > 1 || row[0] !== "") rows.push(row)
+    row = []
+    field = ""
+  }
+
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index]
+
+    if (inQuotes) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"'
+        index++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ",") {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[index + 1] === "\n") index++
+      endRow()
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== "" || row.length > 0) endRow()
+
+  return rows
+}
+
+/**
+ * Formats rows of fields as CSV text with LF line endings.
+ * @param rows - Rows to write; the first row is usually the header
+ * @returns {string} CSV text ending in a newline
+ */
+export function formatCsv(rows: string[][]): string {
+  return rows.map(row => row.map(formatField).join(",")).join("\n") + "\n"
+}
+
+function formatField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
@@ -0,0 +1,193 @@
+/**
+ * @description
+ * Plans a curriculum bundle import against the current curriculum.
+ * The plan says, per unit, lesson and exercise, whether the import creates,
+ * updates or leaves it unchanged, and lists anything that would stop the import.
+ *
+ * Key features:
+ * - Entities are matched by slug, so importing the same bundle twice changes nothing
+ * - Unit and prerequisite references may point into the bundle or the current curriculum
+ * - Prerequisite cycles are rejected across the merged curriculum
+ *
+ * @dependencies
+ * - @/lib/curriculum/lesson-status: Prerequisite cycle detection
+ * - @/types: Bundle and import report types
+ *
+ * @notes
+ * - Pure function: the caller loads the current curriculum and applies the plan
+ * - Entities missing from the bundle are never deleted; bundles may be partial
+ * - Exercise order is not compared; new exercises are created in bundle order
+ */
+
+import { wouldCreateCycle } from "@/lib/curriculum/lesson-status"
+import {
+  BundleImportAction,
+  BundleImportIssue,
+  BundleImportItem,
+  CurriculumBundle
+} from "@/types"
+
+/**
+ * The planned effect of an import, before anything is written.
+ */
+export interface CurriculumImportPlan {
+  items: BundleImportItem[] // Units, then lessons, then exercises, in bundle order
+  errors: BundleImportIssue[] // Reference and cycle problems
+}
+
+/**
+ * Compares a validated bundle with the current curriculum.
+ * @param bundle - The bundle to import (already validated)
+ * @param existing - The current curriculum in bundle form
+ * @returns {CurriculumImportPlan} What the import would do, and what stops it
+ */
+export function planCurriculumImport(
+  bundle: CurriculumBundle,
+  existing: CurriculumBundle
+): CurriculumImportPlan {
+  const items: BundleImportItem[] = []
+  const errors: BundleImportIssue[] = []
+
+  const unitSlugs = new Set(
+    [...bundle.units, ...existing.units].map(unit => unit.slug)
+  )
+  const lessonSlugs = new Set(
+    [...bundle.lessons, ...existing.lessons].map(lesson => lesson.slug)
+  )
+
+  for (const unit of bundle.units) {
+    const stored = existing.units.find(
+      candidate => candidate.slug === unit.slug
+    )
+    items.push({
+      kind: "unit",
+      slug: unit.slug,
+      action: compare(
+        stored && {
+          title: stored.title,
+          description: stored.description,
+          position: stored.position
+        },
+        {
+          title: unit.title,
+          description: unit.description,
+          position: unit.position
+        }
+      )
+    })
+  }
+
+  bundle.lessons.forEach((lesson, index) => {
+    const path = `lessons.${index}`
+    const stored = existing.lessons.find(
+      candidate => candidate.slug === lesson.slug
+    )
+
+    if (lesson.unit && !unitSlugs.has(lesson.unit)) {
+      errors.push({
+        path: `${path}.unit`,
+        message: `Unknown unit "${lesson.unit}"`
+      })
+    }
+
+    lesson.prerequisites.forEach((prerequisite, position) => {
+      if (prerequisite === lesson.slug) {
+        errors.push({
+          path: `${path}.prerequisites.${position}`,
+          message: "A lesson cannot require itself"
+        })
+      } else if (!lessonSlugs.has(prerequisite)) {
+        errors.push({
+          path: `${path}.prerequisites.${position}`,
+          message: `Unknown lesson "${prerequisite}"`
+        })
+      }
+    })
+
+    items.push({
+      kind: "lesson",
+      slug: lesson.slug,
+      action: compare(stored && lessonFields(stored), lessonFields(lesson))
+    })
+  })
+
+  for (const lesson of bundle.lessons) {
+    const stored = existing.lessons.find(
+      candidate => candidate.slug === lesson.slug
+    )
+    for (const exercise of lesson.exercises) {
+      const storedExercise = stored?.exercises.find(
+        candidate => candidate.slug === exercise.slug
+      )
+      items.push({
+        kind: "exercise",
+        slug: `${lesson.slug}/${exercise.slug}`,
+        action: compare(
+          storedExercise && {
+            type: storedExercise.type,
+            content: storedExercise.content
+          },
+          { type: exercise.type, content: exercise.content }
+        )
+      })
+    }
+  }
+
+  // Prerequisites of bundle lessons replace the stored ones; check the merged graph
+  // (self-references are already reported above)
+  const bundleSlugs = new Set(bundle.lessons.map(lesson => lesson.slug))
+  const otherPrerequisites = (lesson: CurriculumBundle["lessons"][number]) =>
+    lesson.prerequisites.filter(prerequisite => prerequisite !== lesson.slug)
+  const edges = [
+    ...existing.lessons.filter(lesson => !bundleSlugs.has(lesson.slug)),
+    ...bundle.lessons
+  ].flatMap(lesson =>
+    otherPrerequisites(lesson).map(prerequisite => ({
+      lessonId: lesson.slug,
+      prerequisiteLessonId: prerequisite
+    }))
+  )
+  bundle.lessons.forEach((lesson, index) => {
+    if (wouldCreateCycle(edges, lesson.slug, otherPrerequisites(lesson))) {
+      errors.push({
+        path: `lessons.${index}.prerequisites`,
+        message: "Prerequisites cannot form a cycle"
+      })
+    }
+  })
+
+  return { items, errors }
+}
+
+function lessonFields(lesson: CurriculumBundle["lessons"][number]) {
+  return {
+    title: lesson.title,
+    level: lesson.level,
+    unit: lesson.unit,
+    position: lesson.position,
+    prerequisites: [...lesson.prerequisites].sort(),
+    content: lesson.content
+  }
+}
+
+function compare(stored: unknown, incoming: unknown): BundleImportAction {
+  if (stored === undefined) return "create"
+  return canonicalJson(stored) === canonicalJson(incoming)
+    ? "unchanged"
+    : "update"
+}
+
+/**
+ * JSON with object keys sorted and undefined fields dropped, for equality checks.
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, entry) =>
+    entry && typeof entry === "object" && !Array.isArray(entry)
+      ? Object.fromEntries(
+          Object.entries(entry as Record<string, unknown>).sort(([a], [b]) =>
+            a.localeCompare(b)
+          )
+        )
+      : entry
+  )
+}
@@ -0,0 +1,170 @@
+/**
+ * @description
+ * Pure rules for sequencing lessons in the Learn Kannada curriculum.
+ * Server actions load lessons, progress and prerequisite edges, then use these
+ * helpers to decide what each learner may open next.
+ *
+ * Key features:
+ * - Lesson status: completed, available or locked
+ * - Lessons with no exercises to answer count as completed, so they never block the lessons after them
+ * - Explicit prerequisites override the default "previous lesson first" rule
+ * - "Continue where you left off" selection
+ * - Cycle detection for prerequisite edits
+ *
+ * @dependencies
+ * - @/types: LessonStatus, CurriculumLesson and ExerciseType types
+ *
+ * @notes
+ * - Lessons must be passed in curriculum order (unit position, lesson position, creation time)
+ * - Sequencing restarts at each level, so the first lesson of every level is open by default
+ * - Prerequisites pointing at lessons that are not in the input are treated as satisfied
+ */
+
+import { CurriculumLesson, ExerciseType, LessonStatus } from "@/types"
+
+/**
+ * Completion percentage at which a lesson counts as completed.
+ */
+export const LESSON_COMPLETION_THRESHOLD = 100
+
+/**
+ * Exercise types that do not count towards lesson completion. SpeakingExercise gives
+ * pronunciation feedback instead of submitting an answer, so it never records an attempt.
+ */
+export const COMPLETION_EXCLUDED_TYPES: ExerciseType[] = ["speaking"]
+
+/**
+ * The fields needed to sequence a lesson.
+ */
+export interface SequencedLesson {
+  id: string
+  level: string
+  completion: number
+  exerciseCount: number // Exercises that count towards completion
+}
+
+/**
+ * A prerequisite edge: lessonId unlocks once prerequisiteLessonId is completed.
+ */
+export interface PrerequisiteEdge {
+  lessonId: string
+  prerequisiteLessonId: string
+}
+
+/**
+ * Computes each lesson's status for one learner.
+ * A lesson is completed at 100%, or when it has no exercises to answer. Otherwise it is available when all of its explicit
+ * prerequisites are completed or, if it has none, when the previous lesson in the
+ * same level is completed. Everything else is locked.
+ * @param lessons - Lessons in curriculum order with the learner's completion
+ * @param prerequisites - Prerequisite edges for those lessons
+ * @returns {Map<string, LessonStatus>} Status keyed by lesson ID
+ */
+export function computeLessonStatuses(
+  lessons: SequencedLesson[],
+  prerequisites: PrerequisiteEdge[]
+): Map<string, LessonStatus> {
+  const completed = new Set(
+    lessons
+      .filter(
+        lesson =>
+          lesson.completion >= LESSON_COMPLETION_THRESHOLD ||
+          lesson.exerciseCount === 0
+      )
+      .map(lesson => lesson.id)
+  )
+  const known = new Set(lessons.map(lesson => lesson.id))
+  const prerequisitesByLesson = groupPrerequisites(prerequisites)
+  const statuses = new Map<string, LessonStatus>()
+
+  lessons.forEach((lesson, index) => {
+    if (completed.has(lesson.id)) {
+      statuses.set(lesson.id, "completed")
+      return
+    }
+
+    const explicit = prerequisitesByLesson.get(lesson.id) ?? []
+    let unlocked: boolean
+    if (explicit.length > 0) {
+      unlocked = explicit.every(id => completed.has(id) || !known.has(id))
+    } else {
+      const previous = lessons[index - 1]
+      unlocked =
+        !previous ||
+        previous.level !== lesson.level ||
+        completed.has(previous.id)
+    }
+
+    statuses.set(lesson.id, unlocked ? "available" : "locked")
+  })
+
+  return statuses
+}
+
+/**
+ * Picks the lesson a learner should continue with.
+ * Prefers the last lesson they opened if it is still in progress, then the next
+ * open lesson after it, then the first open lesson anywhere in the curriculum.
+ * @param lessons - Curriculum lessons in order, with statuses
+ * @param lastLessonId - The learner's last opened lesson, if any
+ * @returns {CurriculumLesson | null} The lesson to resume, or null when nothing is open
+ */
+export function findContinueLesson(
+  lessons: CurriculumLesson[],
+  lastLessonId?: string | null
+): CurriculumLesson | null {
+  const lastIndex = lastLessonId
+    ? lessons.findIndex(lesson => lesson.id === lastLessonId)
+    : -1
+
+  if (lastIndex >= 0) {
+    if (lessons[lastIndex].status === "available") return lessons[lastIndex]
+
+    const next = lessons
+      .slice(lastIndex + 1)
+      .find(lesson => lesson.status === "available")
+    if (next) return next
+  }
+
+  return lessons.find(lesson => lesson.status === "available") ?? null
+}
+
+/**
+ * Checks whether giving a lesson the proposed prerequisites would create a cycle.
+ * @param edges - Existing prerequisite edges (edges for lessonId itself are ignored)
+ * @param lessonId - The lesson being edited
+ * @param prerequisiteIds - The proposed prerequisites for lessonId
+ * @returns {boolean} True if lessonId would (indirectly) require itself
+ */
+export function wouldCreateCycle(
+  edges: PrerequisiteEdge[],
+  lessonId: string,
+  prerequisiteIds: string[]
+): boolean {
+  const prerequisitesByLesson = groupPrerequisites(
+    edges.filter(edge => edge.lessonId !== lessonId)
+  )
+  const visited = new Set<string>()
+  const stack = [...prerequisiteIds]
+
+  while (stack.length > 0) {
+    const current = stack.pop() as string
+    if (current === lessonId) return true
+    if (visited.has(current)) continue
+    visited.add(current)
+    stack.push(...(prerequisitesByLesson.get(current) ?? []))
+  }
+
+  return false
+}
+
+function groupPrerequisites(edges: PrerequisiteEdge[]): Map<string, string[]> {
+  const grouped = new Map<string, string[]>()
+  for (const edge of edges) {
+    grouped.set(edge.lessonId, [
+      ...(grouped.get(edge.lessonId) ?? []),
+      edge.prerequisiteLessonId
+    ])
+  }
+  return grouped
+}
@@ -0,0 +1,112 @@
+/**
+ * @description
+ * Learner-facing projection of exercises in the Learn Kannada app.
+ * Pages convert stored exercises with toLearnerExercise before passing them to client components,
+ * so answer keys never reach the browser; responses are graded by server actions.
+ *
+ * Key features:
+ * - Drops correct answers, accepted answers and expected transcripts
+ * - Matching sends both columns without the pairing, the English column shuffled
+ * - Word order sends the words already shuffled, as their authored order is the answer
+ * - Dictation sends only what is needed to play the audio
+ *
+ * @dependencies
+ * - @/lib/utils: seededShuffle for a stable order per exercise
+ * - @/lib/validation/exercise-content-validation: readExerciseDefinition
+ * - @/types: Exercise and learner exercise types
+ *
+ * @notes
+ * - Dictation without a recording is read aloud by the browser, so its text has to be sent;
+ *   attach a recording to keep the text off the client
+ * - Shuffles are seeded with the exercise ID, so a learner sees the same order on every visit
+ */
+
+import { seededShuffle } from "@/lib/utils"
+import { readExerciseDefinition } from "@/lib/validation/exercise-content-validation"
+import { ExerciseType, LearnerExercise } from "@/types"
+
+/**
+ * Projects a stored exercise for learners.
+ * @param exercise - A stored exercise row or revision snapshot
+ * @returns {LearnerExercise | null} The exercise without its answer key, or null when its content does not fit its type
+ */
+export function toLearnerExercise(exercise: {
+  id: string
+  type: ExerciseType
+  content: unknown
+}): LearnerExercise | null {
+  const definition = readExerciseDefinition(exercise)
+  if (!definition) return null
+  const { id } = exercise
+
+  switch (definition.type) {
+    case "quiz": {
+      const { question, options } = definition.content
+      return { id, type: "quiz", content: { question, options } }
+    }
+
+    case "writing":
+      return {
+        id,
+        type: "writing",
+        content: { prompt: definition.content.prompt }
+      }
+
+    case "speaking": {
+      const { phrase, english, audioUrl } = definition.content
+      return { id, type: "speaking", content: { phrase, english, audioUrl } }
+    }
+
+    case "matching": {
+      const { instructions, pairs } = definition.content
+      return {
+        id,
+        type: "matching",
+        content: {
+          instructions,
+          kannadaItems: pairs.map(pair => pair.kannada),
+          englishItems: seededShuffle(
+            pairs.map(pair => pair.english),
+            id
+          )
+        }
+      }
+    }
+
+    case "fill-blank": {
+      const { sentence, blanks, english } = definition.content
+      return {
+        id,
+        type: "fill-blank",
+        content: {
+          sentence,
+          hints: blanks.map(blank => blank.hint ?? null),
+          english
+        }
+      }
+    }
+
+    case "word-order": {
+      const { words, english } = definition.content
+      return {
+        id,
+        type: "word-order",
+        content: { words: seededShuffle(words, id), english }
+      }
+    }
+
+    case "dictation": {
+      const { text, audioUrl } = definition.content
+      return {
+        id,
+        type: "dictation",
+        content: audioUrl ? { audioUrl } : { speechText: text }
+      }
+    }
+
+    case "translation": {
+      const { source, direction } = definition.content
+      return { id, type: "translation", content: { source, direction } }
+    }
+  }
+}
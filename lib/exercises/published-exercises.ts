@@ -0,0 +1,97 @@
+/**
+ * @description
+ * Server-side lookup of the exercises learners are served in the Learn Kannada app:
+ * those of each published lesson's published revision.
+ *
+ * Key features:
+ * - Exercises of many lessons in two queries, keyed by exercise ID
+ * - Each exercise carries its lesson and the revision it was taken from
+ *
+ * @dependencies
+ * - @/db/db: Drizzle ORM database instance
+ * - @/db/schema: Lessons, lesson revisions and exercises tables
+ * - @/types: ExerciseSnapshot
+ * - drizzle-orm: For database operations
+ *
+ * @notes
+ * - Server-only: the exercises include their answer keys; project them with toLearnerExercise before sending
+ * - Draft lessons supply nothing; published lessons without a revision (from before versioning) supply their working copy
+ * - Review items and practice session items are served from here, so they follow the lesson's current revision
+ */
+
+import { db } from "@/db/db"
+import { exercisesTable } from "@/db/schema/exercises-schema"
+import { lessonRevisionsTable } from "@/db/schema/lesson-revisions-schema"
+import { lessonsTable } from "@/db/schema/lessons-schema"
+import { ExerciseSnapshot } from "@/types"
+import { and, eq, inArray, isNull } from "drizzle-orm"
+
+/**
+ * An exercise as learners are currently served it.
+ */
+export interface PublishedExercise extends ExerciseSnapshot {
+  lessonId: string // Lesson the exercise belongs to
+  lessonRevisionId: string | null // Published revision it was taken from; null for lessons published before versioning
+}
+
+/**
+ * Loads the exercises learners are served for the given lessons.
+ * @param lessonIds - Lessons to load; draft and unknown lessons are skipped
+ * @returns Promise<Map<string, PublishedExercise>> - Exercises keyed by exercise ID
+ */
+export async function loadPublishedExercises(
+  lessonIds: string[]
+): Promise<Map<string, PublishedExercise>> {
+  const published = new Map<string, PublishedExercise>()
+  const ids = [...new Set(lessonIds)]
+  if (ids.length === 0) return published
+
+  const revisions = await db
+    .select({
+      id: lessonRevisionsTable.id,
+      lessonId: lessonRevisionsTable.lessonId,
+      exercises: lessonRevisionsTable.exercises
+    })
+    .from(lessonsTable)
+    .innerJoin(
+      lessonRevisionsTable,
+      eq(lessonsTable.publishedRevisionId, lessonRevisionsTable.id)
+    )
+    .where(
+      and(
+        inArray(lessonsTable.id, ids),
+        eq(lessonsTable.publishStatus, "published")
+      )
+    )
+  for (const revision of revisions) {
+    for (const exercise of revision.exercises) {
+      published.set(exercise.id, {
+        ...exercise,
+        lessonId: revision.lessonId,
+        lessonRevisionId: revision.id
+      })
+    }
+  }
+
+  const unversioned = await db
+    .select({
+      id: exercisesTable.id,
+      type: exercisesTable.type,
+      content: exercisesTable.content,
+      lessonId: exercisesTable.lessonId
+    })
+    .from(exercisesTable)
+    .innerJoin(lessonsTable, eq(exercisesTable.lessonId, lessonsTable.id))
+    .where(
+      and(
+        inArray(lessonsTable.id, ids),
+        eq(lessonsTable.publishStatus, "published"),
+        isNull(lessonsTable.publishedRevisionId)
+      )
+    )
+  for (const exercise of unversioned) {
+    published.set(exercise.id, { ...exercise, lessonRevisionId: null })
+  }
+
+  return published
+}
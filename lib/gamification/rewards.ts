@@ -0,0 +1,197 @@
+/**
+ * @description
+ * Pure rules for XP, streaks and badges in the Learn Kannada app.
+ * submitExerciseAction grades a response, then uses these helpers to work out what it earned
+ * and the learner's new totals.
+ *
+ * Key features:
+ * - XP scales with the score, the lesson level and how much the exercise type asks the learner to produce
+ * - Role-play scenarios earn XP from their debrief score and the scenario's level
+ * - Streaks count consecutive calendar days with at least one submission
+ * - Badges at XP thresholds
+ *
+ * @dependencies
+ * - @/types: ExerciseType, ExerciseReward and ProgressTotals types
+ *
+ * @notes
+ * - Days are UTC calendar days, as the server does not know the learner's time zone
+ * - Wrong answers earn no XP but still count towards the streak: the streak rewards practising every day
+ * - Badges are never taken away, even if the thresholds change
+ */
+
+import { ExerciseReward, ExerciseType, ProgressTotals } from "@/types"
+
+/**
+ * A lesson's difficulty level.
+ */
+export type RewardLevel = "beginner" | "intermediate" | "advanced"
+
+/**
+ * XP for a fully correct answer, by lesson level.
+ */
+export const LEVEL_XP: Record<RewardLevel, number> = {
+  beginner: 10,
+  intermediate: 15,
+  advanced: 20
+}
+
+/**
+ * Extra XP for exercise types where the learner writes the answer rather than picks it.
+ */
+export const EXERCISE_TYPE_BONUS_XP: Record<ExerciseType, number> = {
+  quiz: 0,
+  matching: 0,
+  speaking: 0,
+  "word-order": 2,
+  "fill-blank": 2,
+  writing: 5,
+  dictation: 5,
+  translation: 5
+}
+
+/**
+ * Badges and the XP at which they are earned, lowest first.
+ */
+export const BADGE_THRESHOLDS: { xp: number; badge: string }[] = [
+  { xp: 50, badge: "Learner" },
+  { xp: 150, badge: "Scholar" },
+  { xp: 300, badge: "Master" }
+]
+
+/**
+ * XP for a perfect role-play debrief, by scenario level.
+ */
+export const ROLEPLAY_XP: Record<RewardLevel, number> = {
+  beginner: 30,
+  intermediate: 45,
+  advanced: 60
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * XP earned by one graded submission.
+ * @param score - Grade from 0 to 1
+ * @param exerciseType - Type of the exercise answered
+ * @param level - Level of the exercise's lesson
+ * @returns {number} Whole XP, in proportion to the score
+ */
+export function calculateExerciseXp(
+  score: number,
+  exerciseType: ExerciseType,
+  level: RewardLevel
+): number {
+  const clamped = Math.min(Math.max(score, 0), 1)
+  return Math.round(
+    (LEVEL_XP[level] + EXERCISE_TYPE_BONUS_XP[exerciseType]) * clamped
+  )
+}
+
+/**
+ * XP earned by a role-play scenario.
+ * @param score - Debrief score from 0 to 100
+ * @param level - Level of the scenario
+ * @returns {number} Whole XP, in proportion to the score
+ */
+export function calculateRolePlayXp(score: number, level: RewardLevel): number {
+  const clamped = Math.min(Math.max(score, 0), 100)
+  return Math.round((ROLEPLAY_XP[level] * clamped) / 100)
+}
+
+/**
+ * The streak after activity at `now`.
+ * Activity on the same day keeps the streak, on the next day extends it and after a missed day restarts it.
+ * @param streak - Current streak
+ * @param lastActiveAt - Previous activity, or null for a first activity
+ * @param now - Time of the new activity
+ * @returns {number} The new streak (at least 1)
+ */
+export function calculateStreak(
+  streak: number,
+  lastActiveAt: Date | null,
+  now: Date
+): number {
+  if (!lastActiveAt) return 1
+  const daysSince = utcDay(now) - utcDay(lastActiveAt)
+  if (daysSince <= 0) return Math.max(streak, 1)
+  if (daysSince === 1) return streak + 1
+  return 1
+}
+
+/**
+ * Badges whose thresholds `xp` has reached and that are not already held.
+ * @param xp - Total XP
+ * @param badges - Badges already held
+ * @returns {string[]} Newly earned badges, lowest threshold first
+ */
+export function findNewBadges(xp: number, badges: string[]): string[] {
+  return BADGE_THRESHOLDS.filter(
+    threshold => xp >= threshold.xp && !badges.includes(threshold.badge)
+  ).map(threshold => threshold.badge)
+}
+
+/**
+ * Applies one graded submission to a learner's totals.
+ * @param totals - Current totals, or null when the learner has none yet
+ * @param submission - The submission's score, exercise type and lesson level
+ * @param now - When the submission was made
+ * @returns The new totals and the reward to show the learner
+ */
+export function applyExerciseReward(
+  totals: ProgressTotals | null,
+  submission: { score: number; exerciseType: ExerciseType; level: RewardLevel },
+  now: Date
+): { totals: ProgressTotals; reward: ExerciseReward } {
+  const xpEarned = calculateExerciseXp(
+    submission.score,
+    submission.exerciseType,
+    submission.level
+  )
+  return applyXpReward(totals, xpEarned, now)
+}
+
+/**
+ * Adds earned XP to a learner's totals, counting the activity towards the streak.
+ * @param totals - Current totals, or null when the learner has none yet
+ * @param xpEarned - XP earned by the activity
+ * @param now - When the activity happened
+ * @returns The new totals and the reward to show the learner
+ */
+export function applyXpReward(
+  totals: ProgressTotals | null,
+  xpEarned: number,
+  now: Date
+): { totals: ProgressTotals; reward: ExerciseReward } {
+  const previous = totals ?? {
+    xp: 0,
+    streak: 0,
+    badges: [],
+    lastActiveAt: null
+  }
+
+  const xp = previous.xp + xpEarned
+  const streak = calculateStreak(previous.streak, previous.lastActiveAt, now)
+  const newBadges = findNewBadges(xp, previous.badges)
+
+  return {
+    totals: {
+      xp,
+      streak,
+      badges: [...previous.badges, ...newBadges],
+      lastActiveAt: now
+    },
+    reward: {
+      xpEarned,
+      totalXp: xp,
+      streak,
+      streakExtended:
+        !previous.lastActiveAt || utcDay(now) > utcDay(previous.lastActiveAt),
+      newBadges
+    }
+  }
+}
+
+// Days since the epoch, in UTC
+function utcDay(date: Date): number {
+  return Math.floor(date.getTime() / DAY_MS)
+}
@@ -0,0 +1,307 @@
+/**
+ * @description
+ * Server-side grading of learner responses for every exercise type.
+ * submitExerciseAction reads the stored exercise, then hands it and the response here.
+ *
+ * Key features:
+ * - Text answers are checked against every accepted answer, not just the first
+ * - Tolerated spelling variants (short/long vowels, ಳ/ಲ, missing anusvara) count as correct
+ * - Romanized input is read as Kannada when the answer is in Kannada script
+ * - Near misses get partial credit from akshara edit distance, with feedback naming the aksharas that differ
+ * - Partial credit for matching (per pair) and fill-blank (per gap)
+ * - Word order graded on the whole sentence, so repeated words can be placed either way
+ *
+ * @dependencies
+ * - @/lib/kannada/akshara: Normalization, spelling folds, similarity and alignment
+ * - @/lib/transliteration/transliterate: Reading romanized answers
+ * - @/lib/validation/exercise-content-validation: Answer keys
+ * - @/types: Exercise definition, response and grade types
+ *
+ * @notes
+ * - gradeExercise returns null when the response does not have the shape its type expects
+ *   (e.g. a string for a matching exercise); callers report that as a bad request
+ * - Quiz answers are choices, so they must match exactly (after normalization)
+ * - Answers below PARTIAL_CREDIT_MIN_SIMILARITY score 0
+ */
+
+import {
+  alignAkshara,
+  aksharaSimilarity,
+  foldKannadaSpelling,
+  normalizeKannada
+} from "@/lib/kannada/akshara"
+import { fromLatin, hasKannada } from "@/lib/transliteration/transliterate"
+import {
+  getAcceptedAnswers,
+  getExpectedAnswer
+} from "@/lib/validation/exercise-content-validation"
+import {
+  ExerciseDefinition,
+  ExerciseGrade,
+  ExerciseResponse,
+  TransliterationScheme
+} from "@/types"
+
+const CORRECT_FEEDBACK = "Correct! Well done."
+const INCORRECT_FEEDBACK = "Incorrect. Try again!"
+
+/**
+ * Lowest akshara similarity that still earns partial credit.
+ */
+export const PARTIAL_CREDIT_MIN_SIMILARITY = 0.6
+
+// Romanized answers are tried in every scheme; casual first, as that is what most learners type
+const ROMANIZATION_SCHEMES: TransliterationScheme[] = [
+  "casual",
+  "iso15919",
+  "harvard-kyoto"
+]
+
+// Differences listed in feedback before the rest are summarized
+const MAX_LISTED_DIFFERENCES = 3
+
+/**
+ * How a text response compares with its closest accepted answer.
+ * - exact: the same after normalization
+ * - variant: the same once tolerated spelling variants are folded
+ * - partial: close enough for partial credit
+ * - wrong: not close enough
+ */
+export interface TextMatch {
+  kind: "exact" | "variant" | "partial" | "wrong"
+  answer: string // Closest accepted answer
+  response: string // The response as compared, in Kannada script if it was romanized
+  romanized: boolean // The learner typed the answer in Latin letters
+  similarity: number // Akshara similarity of the folded texts, 0 to 1
+}
+
+/**
+ * Grades a response against a validated exercise.
+ * @param exercise - The exercise as the learner saw it
+ * @param response - The learner's response
+ * @returns {ExerciseGrade | null} Score and feedback, or null if the response does not fit the exercise type
+ */
+export function gradeExercise(
+  exercise: ExerciseDefinition,
+  response: ExerciseResponse
+): ExerciseGrade | null {
+  switch (exercise.type) {
+    case "quiz":
+      if (typeof response !== "string") return null
+      return isSameAnswer(response, exercise.content.correctAnswer)
+        ? { score: 1, feedback: CORRECT_FEEDBACK }
+        : { score: 0, feedback: INCORRECT_FEEDBACK }
+
+    case "writing":
+    case "speaking":
+      if (typeof response !== "string") return null
+      return gradeText(
+        matchText(response, getAcceptedAnswers(exercise)),
+        INCORRECT_FEEDBACK
+      )
+
+    case "dictation":
+    case "translation":
+      if (typeof response !== "string") return null
+      return gradeText(
+        matchText(response, getAcceptedAnswers(exercise)),
+        `Not quite. Expected: ${getExpectedAnswer(exercise)}`
+      )
+
+    case "matching": {
+      if (typeof response !== "object" || Array.isArray(response)) return null
+      const { pairs } = exercise.content
+      const correct = pairs.filter(
+        pair =>
+          typeof response[pair.kannada] === "string" &&
+          isSameAnswer(response[pair.kannada], pair.english)
+      ).length
+      return {
+        score: correct / pairs.length,
+        feedback:
+          correct === pairs.length
+            ? CORRECT_FEEDBACK
+            : `${correct} of ${pairs.length} pairs correct. The pairs are: ${getExpectedAnswer(exercise)}`
+      }
+    }
+
+    case "fill-blank": {
+      if (!Array.isArray(response)) return null
+      const { blanks } = exercise.content
+      const wrong = blanks
+        .map((blank, index) => ({ blank, index }))
+        .filter(({ blank, index }) => {
+          const { kind } = matchText(response[index] ?? "", [
+            blank.answer,
+            ...(blank.acceptedAnswers ?? [])
+          ])
+          return kind !== "exact" && kind !== "variant"
+        })
+      if (wrong.length === 0) return { score: 1, feedback: CORRECT_FEEDBACK }
+      const corrections = wrong
+        .map(({ blank, index }) => `blank ${index + 1} is "${blank.answer}"`)
+        .join(", ")
+      return {
+        score: (blanks.length - wrong.length) / blanks.length,
+        feedback: `${blanks.length - wrong.length} of ${blanks.length} blanks correct: ${corrections}.`
+      }
+    }
+
+    case "word-order":
+      if (!Array.isArray(response)) return null
+      return isSameAnswer(response.join(" "), getExpectedAnswer(exercise))
+        ? { score: 1, feedback: CORRECT_FEEDBACK }
+        : {
+            score: 0,
+            feedback: `Not quite. The sentence is: ${getExpectedAnswer(exercise)}`
+          }
+  }
+}
+
+/**
+ * Finds the accepted answer closest to a text response.
+ * @param response - The learner's text, in Kannada script or romanized
+ * @param accepted - Answers graded as correct (at least one)
+ * @returns {TextMatch} The best match, preferring exact over variant over the most similar
+ */
+export function matchText(response: string, accepted: string[]): TextMatch {
+  let best: TextMatch | null = null
+
+  for (const answer of accepted) {
+    for (const candidate of readResponse(response, answer)) {
+      const match = compareText(candidate, answer, candidate !== response)
+      if (!best || isBetterMatch(match, best)) best = match
+    }
+  }
+
+  return (
+    best ?? {
+      kind: "wrong",
+      answer: "",
+      response,
+      romanized: false,
+      similarity: 0
+    }
+  )
+}
+
+/**
+ * Compares two answers, ignoring Kannada encoding differences, spacing, case and sentence punctuation.
+ * @param response - The learner's text
+ * @param expected - The answer key
+ * @returns {boolean} True when they match
+ */
+export function isSameAnswer(response: string, expected: string): boolean {
+  return normalizeAnswer(response) === normalizeAnswer(expected)
+}
+
+/**
+ * Lists where a response differs from its answer, akshara by akshara.
+ * @param answer - The accepted answer
+ * @param response - The learner's text
+ * @returns {string} e.g. `"ನು" instead of "ನ", missing "ಗೆ"`; empty when they match
+ */
+export function describeDifferences(answer: string, response: string): string {
+  const differences = alignAkshara(
+    normalizeAnswer(answer),
+    normalizeAnswer(response)
+  ).flatMap(edit => {
+    switch (edit.kind) {
+      case "match":
+        return []
+      case "substitute":
+        return [`"${edit.expected}" instead of "${edit.actual}"`]
+      case "delete":
+        return [`missing "${edit.expected}"`]
+      case "insert":
+        return [`extra "${edit.actual}"`]
+    }
+  })
+
+  const listed = differences.slice(0, MAX_LISTED_DIFFERENCES)
+  const more = differences.length - listed.length
+  return more > 0 ? `${listed.join(", ")} and ${more} more` : listed.join(", ")
+}
+
+// Turns a text match into a grade; wrong answers get the caller's message
+function gradeText(match: TextMatch, incorrectFeedback: string): ExerciseGrade {
+  // Romanizations cannot spell every letter, so romanized answers are shown the script rather than corrected
+  if (match.romanized && (match.kind === "exact" || match.kind === "variant")) {
+    return {
+      score: 1,
+      feedback: `${CORRECT_FEEDBACK} In Kannada script: ${match.answer}`
+    }
+  }
+
+  switch (match.kind) {
+    case "exact":
+      return { score: 1, feedback: CORRECT_FEEDBACK }
+    case "variant":
+      return {
+        score: 1,
+        feedback: `Correct! Watch the spelling: ${describeDifferences(match.answer, match.response)}.`
+      }
+    case "partial":
+      return {
+        score: Math.round(match.similarity * 100) / 100,
+        feedback: `Almost: ${describeDifferences(match.answer, match.response)}. Expected: ${match.answer}`
+      }
+    case "wrong":
+      return { score: 0, feedback: incorrectFeedback }
+  }
+}
+
+// The response as typed, plus its Kannada readings when it is romanized and the answer is in Kannada
+function readResponse(response: string, answer: string): string[] {
+  if (hasKannada(response) || !hasKannada(answer)) return [response]
+  return [
+    response,
+    ...ROMANIZATION_SCHEMES.map(scheme => fromLatin(response, scheme))
+  ]
+}
+
+function compareText(
+  response: string,
+  answer: string,
+  romanized: boolean
+): TextMatch {
+  const normalizedResponse = normalizeAnswer(response)
+  const normalizedAnswer = normalizeAnswer(answer)
+  const foldedResponse = foldKannadaSpelling(normalizedResponse)
+  const foldedAnswer = foldKannadaSpelling(normalizedAnswer)
+  const similarity = aksharaSimilarity(foldedResponse, foldedAnswer)
+
+  const kind =
+    normalizedResponse === normalizedAnswer
+      ? "exact"
+      : foldedResponse === foldedAnswer
+        ? "variant"
+        : similarity >= PARTIAL_CREDIT_MIN_SIMILARITY
+          ? "partial"
+          : "wrong"
+
+  return { kind, answer, response, romanized, similarity }
+}
+
+const MATCH_RANK: Record<TextMatch["kind"], number> = {
+  exact: 3,
+  variant: 2,
+  partial: 1,
+  wrong: 0
+}
+
+function isBetterMatch(match: TextMatch, best: TextMatch): boolean {
+  if (MATCH_RANK[match.kind] !== MATCH_RANK[best.kind]) {
+    return MATCH_RANK[match.kind] > MATCH_RANK[best.kind]
+  }
+  return match.similarity > best.similarity
+}
+
+// Answers are compared after Unicode normalization, so e.g. a stray ZWJ or a decomposed vowel sign still matches
+function normalizeAnswer(answer: string): string {
+  return normalizeKannada(answer)
+    .replace(/[.,!?।]/g, " ")
+    .trim()
+    .replace(/\s+/g, " ")
+    .toLowerCase()
+}
@@ -0,0 +1,98 @@
+/*
+Hook for calling a streaming AI route: the reply text grows as it arrives, and a request is cancelled when another starts or the component unmounts.
+*/
+
+"use client"
+
+import { STREAM_INTERRUPTED_MESSAGE, readEventStream } from "@/lib/ai/streaming"
+import { ActionState } from "@/types"
+import { useEffect, useRef, useState } from "react"
+
+export function useAIStream<T>(url: string) {
+  const [text, setText] = useState("")
+  const [isStreaming, setIsStreaming] = useState(false)
+  const controllerRef = useRef<AbortController | null>(null)
+
+  // Stop the model when the learner navigates away
+  useEffect(() => {
+    return () => {
+      controllerRef.current?.abort()
+    }
+  }, [])
+
+  const cancel = () => {
+    controllerRef.current?.abort()
+    controllerRef.current = null
+    setIsStreaming(false)
+  }
+
+  // Resolves with the final result, or null if the request was cancelled
+  const start = async (body: unknown): Promise<ActionState<T> | null> => {
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+    setText("")
+    setIsStreaming(true)
+
+    try {
+      return await read(url, body, controller.signal, delta =>
+        setText(prev => prev + delta)
+      )
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null
+        setIsStreaming(false)
+      }
+    }
+  }
+
+  return { text, isStreaming, start, cancel }
+}
+
+async function read<T>(
+  url: string,
+  body: unknown,
+  signal: AbortSignal,
+  onDelta: (text: string) => void
+): Promise<ActionState<T> | null> {
+  let response: Response
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal
+    })
+  } catch {
+    return signal.aborted
+      ? null
+      : { isSuccess: false, message: STREAM_INTERRUPTED_MESSAGE }
+  }
+
+  if (!response.ok || !response.body) {
+    const error = await response.json().catch(() => null)
+    return {
+      isSuccess: false,
+      message: error?.error ?? STREAM_INTERRUPTED_MESSAGE
+    }
+  }
+
+  for await (const event of readEventStream<T>(response.body)) {
+    if (signal.aborted) return null
+    if (event.type === "delta") {
+      onDelta(event.text)
+    } else if (event.type === "done") {
+      return {
+        isSuccess: true,
+        message: "Response received successfully",
+        data: event.data
+      }
+    } else {
+      return { isSuccess: false, message: event.message }
+    }
+  }
+
+  return signal.aborted
+    ? null
+    : { isSuccess: false, message: STREAM_INTERRUPTED_MESSAGE }
+}
@@ -0,0 +1,67 @@
+/*
+Hook for reading Kannada text aloud with the Web Speech API, or playing a recorded clip when one exists.
+*/
+
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+
+export interface SpeakOptions {
+  audioUrl?: string // Recorded pronunciation; preferred over synthesis when set
+  rate?: number // Speech rate for synthesis (1.0 is normal)
+}
+
+export function useSpeechSynthesis(lang = "kn-IN") {
+  const [isSupported, setIsSupported] = useState(false)
+  const [isSpeaking, setIsSpeaking] = useState(false)
+  const audioRef = useRef<HTMLAudioElement | null>(null)
+
+  useEffect(() => {
+    setIsSupported("speechSynthesis" in window)
+
+    return () => {
+      audioRef.current?.pause()
+    }
+  }, [])
+
+  const stop = () => {
+    audioRef.current?.pause()
+    if ("speechSynthesis" in window) {
+      window.speechSynthesis.cancel()
+    }
+    setIsSpeaking(false)
+  }
+
+  const speak = (text: string, { audioUrl, rate = 1.0 }: SpeakOptions = {}) => {
+    stop()
+
+    if (audioUrl) {
+      const audio = new Audio(audioUrl)
+      audioRef.current = audio
+      audio.onplay = () => setIsSpeaking(true)
+      audio.onended = () => setIsSpeaking(false)
+      audio.onerror = () => setIsSpeaking(false)
+      audio.play().catch(error => {
+        console.error("Audio playback error:", error)
+        setIsSpeaking(false)
+      })
+      return
+    }
+
+    if (!isSupported || !text.trim()) return
+
+    const utterance = new SpeechSynthesisUtterance(text)
+    utterance.lang = lang
+    utterance.rate = rate
+    utterance.onstart = () => setIsSpeaking(true)
+    utterance.onend = () => setIsSpeaking(false)
+    utterance.onerror = event => {
+      console.error("Speech synthesis error:", event.error)
+      setIsSpeaking(false)
+    }
+
+    window.speechSynthesis.speak(utterance)
+  }
+
+  return { isSupported, isSpeaking, speak, stop }
+}
@@ -0,0 +1,260 @@
+/**
+ * @description
+ * Akshara-aware utilities for comparing Kannada text.
+ * An akshara is the written syllable a reader sees as one unit: a consonant cluster joined by viramas
+ * (ottakshara), an optional vowel sign and an optional anusvara/visarga, e.g. ಕ್ಷ್ಮೀ or ಬೆಂ.
+ *
+ * Key features:
+ * - normalizeKannada: one spelling for text that looks the same (NFC, joiners, stray duplicates)
+ * - segmentAkshara: splits text into aksharas (other scripts fall back to base + combining marks)
+ * - aksharaDistance / aksharaSimilarity: edit distance counted in aksharas rather than code points
+ * - alignAkshara: the edits themselves, for pointing at the exact aksharas that differ
+ * - foldKannadaSpelling: collapses tolerated spelling variants (vowel length, ಳ/ಲ, anusvara)
+ *
+ * @dependencies
+ * - @/lib/transliteration/schemes: Kannada sign constants
+ *
+ * @notes
+ * - Code-point edit distance over-counts Kannada mistakes: a wrong vowel sign is one typo, not a deleted and
+ *   inserted code point pair, and a missing ottakshara changes one akshara, not three characters
+ * - Used for answer checking; search, pronunciation scoring and the keyboard can share it
+ */
+
+import {
+  ANUSVARA,
+  NUKTA,
+  VIRAMA,
+  ZWJ,
+  ZWNJ
+} from "@/lib/transliteration/schemes"
+
+const KANNADA_DIGIT_ZERO = "\u0CE6" // ೦, often typed in place of the anusvara ಂ
+const COMBINING_MARK = /^\p{M}$/u
+const KANNADA_LETTER_OR_SIGN = /^[\u0C80-\u0CE3\u0CF1-\u0CF3]$/u
+const WHITESPACE = /^\s$/u
+const LONG_A_SIGN = "\u0CBE" // ಾ, folded into the inherent a
+
+// Long vowels, letters and signs, and ಳ, mapped to the spelling they are confused with
+const SPELLING_FOLDS: Record<string, string> = {
+  ಆ: "ಅ",
+  ಈ: "ಇ",
+  ಊ: "ಉ",
+  ೠ: "ಋ",
+  ಏ: "ಎ",
+  ಓ: "ಒ",
+  "\u0CC0": "\u0CBF", // ೀ -> ಿ
+  "\u0CC2": "\u0CC1", // ೂ -> ು
+  "\u0CC4": "\u0CC3", // ೄ -> ೃ
+  "\u0CC7": "\u0CC6", // ೇ -> ೆ
+  "\u0CCB": "\u0CCA", // ೋ -> ೊ
+  ಳ: "ಲ"
+}
+
+/**
+ * Normalizes Kannada text so that strings that render identically compare equal.
+ * @param text - Text that may contain Kannada script
+ * @returns {string} NFC text without zero-width joiners, with a nukta before its vowel sign,
+ *   ೦ used as an anusvara replaced by ಂ and accidentally repeated signs removed
+ */
+export function normalizeKannada(text: string): string {
+  const chars = [...text.normalize("NFC")].filter(
+    char => char !== ZWJ && char !== ZWNJ
+  )
+
+  const output: string[] = []
+  for (const char of chars) {
+    const previous = output[output.length - 1]
+
+    // A repeated combining sign renders once (ಕಾಾ, ಕ್್)
+    if (COMBINING_MARK.test(char) && char === previous) continue
+
+    // Nukta typed after the vowel sign belongs to the consonant (ಫೋ಼ -> ಫ಼ೋ)
+    if (char === NUKTA && previous && isVowelSign(previous)) {
+      output.splice(output.length - 1, 0, NUKTA)
+      continue
+    }
+
+    // The digit zero right after a letter is an anusvara typed with the wrong key (ಸ೦ತೋಷ)
+    if (
+      char === KANNADA_DIGIT_ZERO &&
+      previous &&
+      KANNADA_LETTER_OR_SIGN.test(previous)
+    ) {
+      output.push(ANUSVARA)
+      continue
+    }
+
+    output.push(char)
+  }
+
+  return output.join("").normalize("NFC")
+}
+
+/**
+ * Splits text into aksharas.
+ * @param text - Text to split; it is not normalized, so call normalizeKannada first when comparing
+ * @returns {string[]} The aksharas, in order; spaces and punctuation are their own entries
+ */
+export function segmentAkshara(text: string): string[] {
+  const aksharas: string[] = []
+  let current = ""
+
+  for (const char of text) {
+    const joinsCurrent =
+      current !== "" &&
+      !WHITESPACE.test(current) &&
+      (COMBINING_MARK.test(char) ||
+        char === ZWJ ||
+        char === ZWNJ ||
+        (isConsonant(char) && endsWithJoiningVirama(current)))
+
+    if (joinsCurrent) {
+      current += char
+    } else {
+      if (current) aksharas.push(current)
+      current = char
+    }
+  }
+  if (current) aksharas.push(current)
+
+  return aksharas
+}
+
+/**
+ * Counts the akshara insertions, deletions and substitutions that turn one text into another.
+ * @param a - First text
+ * @param b - Second text
+ * @returns {number} Levenshtein distance over the aksharas of the normalized texts
+ */
+export function aksharaDistance(a: string, b: string): number {
+  const source = segmentAkshara(normalizeKannada(a))
+  const target = segmentAkshara(normalizeKannada(b))
+
+  let previousRow = target.map((_, index) => index + 1)
+  previousRow.unshift(0)
+
+  source.forEach((sourceAkshara, i) => {
+    const row = [i + 1]
+    target.forEach((targetAkshara, j) => {
+      row.push(
+        Math.min(
+          previousRow[j + 1] + 1, // Deletion
+          row[j] + 1, // Insertion
+          previousRow[j] + (sourceAkshara === targetAkshara ? 0 : 1) // Substitution
+        )
+      )
+    })
+    previousRow = row
+  })
+
+  return previousRow[target.length]
+}
+
+/**
+ * Scores how close two texts are, in aksharas.
+ * @param a - First text
+ * @param b - Second text
+ * @returns {number} 1 for identical (after normalization) down to 0 for nothing in common
+ */
+export function aksharaSimilarity(a: string, b: string): number {
+  const length = Math.max(
+    segmentAkshara(normalizeKannada(a)).length,
+    segmentAkshara(normalizeKannada(b)).length
+  )
+  if (length === 0) return 1
+  return 1 - aksharaDistance(a, b) / length
+}
+
+/**
+ * One step in an akshara alignment: an akshara both texts share, or an edit between them.
+ */
+export type AksharaEdit =
+  | { kind: "match"; expected: string; actual: string }
+  | { kind: "substitute"; expected: string; actual: string }
+  | { kind: "insert"; actual: string } // Extra akshara in the actual text
+  | { kind: "delete"; expected: string } // Akshara missing from the actual text
+
+/**
+ * Lines up two texts akshara by akshara with the fewest edits.
+ * @param expected - The reference text, e.g. an answer key
+ * @param actual - The text to compare, e.g. a learner's answer
+ * @returns {AksharaEdit[]} Steps from the start of both normalized texts to their end
+ */
+export function alignAkshara(expected: string, actual: string): AksharaEdit[] {
+  const source = segmentAkshara(normalizeKannada(expected))
+  const target = segmentAkshara(normalizeKannada(actual))
+
+  // costs[i][j] is the distance between the first i expected and first j actual aksharas
+  const costs = source.map(() => new Array<number>(target.length + 1))
+  costs.push(new Array<number>(target.length + 1))
+  for (let i = 0; i <= source.length; i++) costs[i][0] = i
+  for (let j = 0; j <= target.length; j++) costs[0][j] = j
+  for (let i = 1; i <= source.length; i++) {
+    for (let j = 1; j <= target.length; j++) {
+      costs[i][j] = Math.min(
+        costs[i - 1][j] + 1,
+        costs[i][j - 1] + 1,
+        costs[i - 1][j - 1] + (source[i - 1] === target[j - 1] ? 0 : 1)
+      )
+    }
+  }
+
+  const edits: AksharaEdit[] = []
+  let i = source.length
+  let j = target.length
+  while (i > 0 || j > 0) {
+    if (
+      i > 0 &&
+      j > 0 &&
+      costs[i][j] ===
+        costs[i - 1][j - 1] + (source[i - 1] === target[j - 1] ? 0 : 1)
+    ) {
+      edits.push({
+        kind: source[i - 1] === target[j - 1] ? "match" : "substitute",
+        expected: source[i - 1],
+        actual: target[j - 1]
+      })
+      i--
+      j--
+    } else if (i > 0 && costs[i][j] === costs[i - 1][j] + 1) {
+      edits.push({ kind: "delete", expected: source[i - 1] })
+      i--
+    } else {
+      edits.push({ kind: "insert", actual: target[j - 1] })
+      j--
+    }
+  }
+
+  return edits.reverse()
+}
+
+/**
+ * Folds spelling differences learners commonly make and readers tolerate, so variant spellings compare equal.
+ * @param text - Text that may contain Kannada script
+ * @returns {string} Normalized text with long vowels made short, ಳ read as ಲ and anusvaras removed
+ */
+export function foldKannadaSpelling(text: string): string {
+  return [...normalizeKannada(text)]
+    .filter(char => char !== ANUSVARA && char !== LONG_A_SIGN)
+    .map(char => SPELLING_FOLDS[char] ?? char)
+    .join("")
+}
+
+function isConsonant(char: string): boolean {
+  const code = char.charCodeAt(0)
+  return (
+    (code >= 0x0c95 && code <= 0x0cb9) || code === 0x0cdd || code === 0x0cde
+  )
+}
+
+function isVowelSign(char: string): boolean {
+  const code = char.charCodeAt(0)
+  return (
+    (code >= 0x0cbe && code <= 0x0ccc) || code === 0x0ce2 || code === 0x0ce3
+  )
+}
+
+// A virama, optionally followed by a ZWJ, joins the next consonant; a ZWNJ keeps it apart
+function endsWithJoiningVirama(akshara: string): boolean {
+  return akshara.endsWith(VIRAMA) || akshara.endsWith(VIRAMA + ZWJ)
+}
@@ -0,0 +1,209 @@
+/**
+ * @description
+ * Pure rules for building and summarizing practice sessions in the Learn Kannada app.
+ * Practice session actions load the learner's lessons, published exercises and attempt history,
+ * then use these helpers to choose the exercises and to add up the results.
+ *
+ * Key features:
+ * - Review items: exercises whose last answer was not fully correct, longest waiting first
+ * - Weak areas: exercise types with low accuracy across the learner's attempts
+ * - Current lessons: exercises from lessons the learner is working through, unanswered first
+ * - Refreshers from completed lessons fill whatever is left
+ * - Session summary: accuracy, XP earned and mistakes
+ *
+ * @dependencies
+ * - @/lib/utils: seededShuffle for a stable item order
+ * - @/types: Exercise and practice session types
+ *
+ * @notes
+ * - Review and weak-area items are each capped at a share of the session, so a session is never all revision;
+ *   unused share goes to the other sources
+ * - Each exercise appears at most once per session
+ * - The order is shuffled with the session seed, so the same inputs always give the same session
+ */
+
+import { seededShuffle } from "@/lib/utils"
+import {
+  ExerciseType,
+  PracticeItemReason,
+  PracticeSessionItem,
+  PracticeSessionSummary
+} from "@/types"
+
+/**
+ * Exercises in a session unless the learner asks for another size.
+ */
+export const DEFAULT_PRACTICE_SESSION_SIZE = 10
+
+/**
+ * Largest session the learner can ask for.
+ */
+export const MAX_PRACTICE_SESSION_SIZE = 30
+
+/**
+ * Largest share of a session given to review items.
+ */
+export const REVIEW_SHARE = 0.3
+
+/**
+ * Largest share of a session given to weak-area items.
+ */
+export const WEAK_AREA_SHARE = 0.3
+
+/**
+ * Accuracy below which an exercise type counts as a weak area.
+ */
+export const WEAK_AREA_ACCURACY = 0.7
+
+/**
+ * Attempts of a type needed before it can count as a weak area.
+ */
+export const WEAK_AREA_MIN_ATTEMPTS = 3
+
+/**
+ * A published exercise the session may use.
+ */
+export interface PracticeCandidate {
+  exerciseId: string
+  exerciseType: ExerciseType
+  lessonId: string
+  lessonRevisionId: string | null
+  lessonStatus: "available" | "completed" // Locked lessons are never candidates
+}
+
+/**
+ * One of the learner's past attempts.
+ */
+export interface PracticeAttempt {
+  exerciseId: string
+  exerciseType: ExerciseType
+  score: number
+  createdAt: Date
+}
+
+/**
+ * Chooses the exercises for a practice session.
+ * @param candidates - Exercises the learner may practise, in curriculum order
+ * @param attempts - The learner's attempt history, in any order
+ * @param options - Session size and the seed for its order
+ * @returns {PracticeSessionItem[]} Up to `size` items, each with the reason it was chosen
+ */
+export function selectPracticeItems(
+  candidates: PracticeCandidate[],
+  attempts: PracticeAttempt[],
+  options: { size: number; seed: string }
+): PracticeSessionItem[] {
+  const size = Math.max(0, Math.floor(options.size))
+  const latest = latestAttempts(attempts)
+  const weakTypes = findWeakTypes(attempts)
+
+  // Unanswered exercises first, then the ones answered longest ago
+  const lastSeen = (candidate: PracticeCandidate) =>
+    latest.get(candidate.exerciseId)?.createdAt.getTime() ?? 0
+  const byLastSeen = (pool: PracticeCandidate[]) =>
+    [...pool].sort((a, b) => lastSeen(a) - lastSeen(b))
+
+  const review = byLastSeen(
+    candidates.filter(candidate => {
+      const attempt = latest.get(candidate.exerciseId)
+      return attempt !== undefined && attempt.score < 1
+    })
+  )
+  const weak = byLastSeen(
+    candidates.filter(candidate => weakTypes.has(candidate.exerciseType))
+  )
+  const current = byLastSeen(
+    candidates.filter(candidate => candidate.lessonStatus === "available")
+  )
+  const refresher = byLastSeen(candidates)
+
+  const chosen = new Map<string, PracticeSessionItem>()
+  const take = (
+    pool: PracticeCandidate[],
+    reason: PracticeItemReason,
+    limit: number
+  ) => {
+    for (const candidate of pool) {
+      if (chosen.size >= size || limit <= 0) return
+      if (chosen.has(candidate.exerciseId)) continue
+      chosen.set(candidate.exerciseId, {
+        exerciseId: candidate.exerciseId,
+        exerciseType: candidate.exerciseType,
+        lessonId: candidate.lessonId,
+        lessonRevisionId: candidate.lessonRevisionId,
+        reason
+      })
+      limit--
+    }
+  }
+
+  take(review, "review", Math.ceil(size * REVIEW_SHARE))
+  take(weak, "weak-area", Math.ceil(size * WEAK_AREA_SHARE))
+  take(current, "lesson", size)
+  take(review, "review", size)
+  take(weak, "weak-area", size)
+  take(refresher, "refresher", size)
+
+  return seededShuffle([...chosen.values()], options.seed)
+}
+
+/**
+ * Adds up the answered items of a session.
+ * @param items - The session's items, answered or not
+ * @returns {PracticeSessionSummary} Accuracy, XP and mistakes so far
+ */
+export function summarizePracticeSession(
+  items: PracticeSessionItem[]
+): PracticeSessionSummary {
+  const answered = items.filter(item => item.result)
+  const scores = answered.map(item => item.result?.score ?? 0)
+
+  return {
+    answered: answered.length,
+    correct: scores.filter(score => score >= 1).length,
+    accuracy:
+      answered.length > 0
+        ? scores.reduce((sum, score) => sum + score, 0) / answered.length
+        : 0,
+    xpEarned: answered.reduce(
+      (sum, item) => sum + (item.result?.xpEarned ?? 0),
+      0
+    ),
+    mistakes: answered.filter(item => (item.result?.score ?? 0) < 1)
+  }
+}
+
+// The most recent attempt at each exercise
+function latestAttempts(
+  attempts: PracticeAttempt[]
+): Map<string, PracticeAttempt> {
+  const latest = new Map<string, PracticeAttempt>()
+  for (const attempt of attempts) {
+    const current = latest.get(attempt.exerciseId)
+    if (!current || attempt.createdAt > current.createdAt) {
+      latest.set(attempt.exerciseId, attempt)
+    }
+  }
+  return latest
+}
+
+// Exercise types answered often enough, and badly enough, to practise more
+function findWeakTypes(attempts: PracticeAttempt[]): Set<ExerciseType> {
+  const totals = new Map<ExerciseType, { count: number; score: number }>()
+  for (const attempt of attempts) {
+    const total = totals.get(attempt.exerciseType) ?? { count: 0, score: 0 }
+    total.count++
+    total.score += attempt.score
+    totals.set(attempt.exerciseType, total)
+  }
+
+  return new Set(
+    [...totals]
+      .filter(
+        ([, total]) =>
+          total.count >= WEAK_AREA_MIN_ATTEMPTS &&
+          total.score / total.count < WEAK_AREA_ACCURACY
+      )
+      .map(([type]) => type)
+  )
+}
@@ -0,0 +1,109 @@
+/**
+ * @description
+ * Scheduling rules for the mistake review queue in the Learn Kannada app.
+ * A wrong answer puts an item in the queue, due straight away. Each correct answer
+ * given while it is due pushes the next review further out, and the item leaves
+ * the queue after REVIEW_CLEAR_STREAK correct answers in a row.
+ *
+ * Key features:
+ * - scheduleReview: the item's new schedule after an answer
+ * - findMissedPairs: the vocabulary a matching response got wrong
+ * - toVocabularyReviewDefinition: a missed word as a translation exercise, for grading and display
+ *
+ * @dependencies
+ * - @/lib/grading/exercise-grading: isSameAnswer for matching pairs
+ * - @/types: Exercise and review types
+ *
+ * @notes
+ * - Any score below 1 is a mistake, so partial credit keeps an item in the queue
+ * - Correct answers before an item is due leave its schedule alone; otherwise retrying
+ *   straight after a mistake would clear it without any spacing
+ */
+
+import { isSameAnswer } from "@/lib/grading/exercise-grading"
+import { ExerciseDefinition, MatchingPair, ReviewSchedule } from "@/types"
+
+/**
+ * Correct answers in a row that take an item out of the queue.
+ */
+export const REVIEW_CLEAR_STREAK = 3
+
+/**
+ * Days until the next review, by the number of correct answers in a row so far.
+ */
+export const REVIEW_INTERVAL_DAYS = [0, 1, 3]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Works out an item's schedule after an answer.
+ * @param current - The item's schedule, or null when it is not in the queue
+ * @param score - Score of the answer, 0 to 1
+ * @param now - When the answer was given
+ * @returns {ReviewSchedule | null} The new schedule; current itself when the answer changes nothing,
+ *   or null when there is nothing to keep
+ */
+export function scheduleReview(
+  current: ReviewSchedule | null,
+  score: number,
+  now: Date
+): ReviewSchedule | null {
+  if (score < 1) {
+    return {
+      correctStreak: 0,
+      lapses: (current?.lapses ?? 0) + 1,
+      dueAt: addDays(now, REVIEW_INTERVAL_DAYS[0]),
+      clearedAt: null
+    }
+  }
+
+  if (!current || current.clearedAt || current.dueAt > now) return current
+
+  const correctStreak = current.correctStreak + 1
+  const cleared = correctStreak >= REVIEW_CLEAR_STREAK
+  return {
+    correctStreak,
+    lapses: current.lapses,
+    dueAt: cleared ? now : addDays(now, REVIEW_INTERVAL_DAYS[correctStreak]),
+    clearedAt: cleared ? now : null
+  }
+}
+
+/**
+ * Lists the pairs a matching response got wrong or left out.
+ * @param pairs - The exercise's correct pairs
+ * @param response - The learner's Kannada-to-English map
+ * @returns {MatchingPair[]} Pairs that were not matched correctly
+ */
+export function findMissedPairs(
+  pairs: MatchingPair[],
+  response: Record<string, string>
+): MatchingPair[] {
+  return pairs.filter(
+    pair =>
+      typeof response[pair.kannada] !== "string" ||
+      !isSameAnswer(response[pair.kannada], pair.english)
+  )
+}
+
+/**
+ * Turns a missed word into a Kannada-to-English translation exercise.
+ * @param word - The word and its meaning
+ * @returns {ExerciseDefinition} The exercise the word is reviewed with
+ */
+export function toVocabularyReviewDefinition(
+  word: MatchingPair
+): ExerciseDefinition {
+  return {
+    type: "translation",
+    content: {
+      source: word.kannada,
+      direction: "kn-en",
+      acceptedAnswers: [word.english]
+    }
+  }
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS)
+}
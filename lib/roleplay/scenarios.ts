@@ -0,0 +1,167 @@
+/**
+ * @description
+ * The role-play scenario library for the Learn Kannada app.
+ * Each scenario is an everyday situation in Bengaluru, with a character for the AI to play,
+ * goals for the learner to meet and the vocabulary it practises.
+ *
+ * Key features:
+ * - ROLEPLAY_SCENARIOS: every scenario, easiest first
+ * - getScenario: looks a scenario up by its ID
+ *
+ * @dependencies
+ * - @/types: RolePlayScenario type
+ *
+ * @notes
+ * - Scenario and goal IDs are stored with learners' sessions; rename them only with a data migration
+ * - Romanizations are left to the transliteration helpers, as in lesson content without one
+ */
+
+import { RolePlayScenario } from "@/types"
+
+/**
+ * Every role-play scenario, easiest first.
+ */
+export const ROLEPLAY_SCENARIOS: RolePlayScenario[] = [
+  {
+    id: "darshini-breakfast",
+    title: "Breakfast at a darshini",
+    level: "beginner",
+    setting:
+      "A busy darshini in Jayanagar at eight in the morning. You order and pay at the counter, then collect your food.",
+    persona: {
+      name: "Manju",
+      role: "counter clerk",
+      description:
+        "Quick and cheerful, used to a queue of regulars; uses short sentences and repeats the order back."
+    },
+    opening: {
+      kannada: "ನಮಸ್ಕಾರ! ಏನು ಬೇಕು?",
+      english: "Hello! What would you like?"
+    },
+    goals: [
+      { id: "greet", description: "Greet Manju" },
+      { id: "order-food", description: "Order something to eat" },
+      { id: "order-coffee", description: "Ask for a coffee" },
+      { id: "ask-price", description: "Ask how much it all costs" },
+      { id: "thank", description: "Thank Manju as you leave" }
+    ],
+    vocabulary: [
+      { kannada: "ಇಡ್ಲಿ", english: "idli" },
+      { kannada: "ದೋಸೆ", english: "dosa" },
+      { kannada: "ಕಾಫಿ", english: "coffee" },
+      { kannada: "ಕೊಡಿ", english: "please give" },
+      { kannada: "ಎಷ್ಟು", english: "how much" },
+      { kannada: "ಧನ್ಯವಾದ", english: "thank you" }
+    ]
+  },
+  {
+    id: "bmtc-directions",
+    title: "Directions at a BMTC bus stop",
+    level: "beginner",
+    setting:
+      "A BMTC bus stop in Shivajinagar. You need to get to Lalbagh and ask the woman waiting next to you.",
+    persona: {
+      name: "Lakshmamma",
+      role: "fellow passenger",
+      description:
+        "An elderly woman who has taken these buses for years; kind and patient, speaks slowly and clearly."
+    },
+    opening: {
+      kannada: "ಹೇಳಿ, ಏನು ಬೇಕಿತ್ತು?",
+      english: "Tell me, what did you need?"
+    },
+    goals: [
+      { id: "ask-bus", description: "Ask which bus goes to Lalbagh" },
+      { id: "ask-stop", description: "Ask where to get off" },
+      { id: "ask-time", description: "Ask how long the journey takes" },
+      { id: "thank", description: "Thank Lakshmamma for her help" }
+    ],
+    vocabulary: [
+      { kannada: "ಬಸ್", english: "bus" },
+      { kannada: "ಯಾವ", english: "which" },
+      { kannada: "ನಿಲ್ದಾಣ", english: "stop, station" },
+      { kannada: "ಇಳಿಯಬೇಕು", english: "have to get off" },
+      { kannada: "ಎಷ್ಟು ಹೊತ್ತು", english: "how long" },
+      { kannada: "ಹತ್ತಿರ", english: "near" }
+    ]
+  },
+  {
+    id: "auto-haggling",
+    title: "Haggling with an auto driver",
+    level: "intermediate",
+    setting:
+      "Outside Majestic bus station in the evening rush. You want an auto to Malleshwaram.",
+    persona: {
+      name: "Ramesh",
+      role: "auto driver",
+      description:
+        "Friendly but firm; asks for well over the meter fare to start with and comes down only if the learner bargains."
+    },
+    opening: {
+      kannada: "ಎಲ್ಲಿಗೆ ಹೋಗಬೇಕು?",
+      english: "Where do you need to go?"
+    },
+    goals: [
+      { id: "say-destination", description: "Tell Ramesh where you are going" },
+      { id: "ask-fare", description: "Ask how much the ride will cost" },
+      { id: "ask-meter", description: "Ask him to go by the meter" },
+      { id: "counter-offer", description: "Make a counter-offer on the fare" },
+      { id: "settle", description: "Agree on a fare, or politely decline" }
+    ],
+    vocabulary: [
+      { kannada: "ಮೀಟರ್", english: "meter" },
+      { kannada: "ಎಷ್ಟು ಆಗುತ್ತೆ", english: "how much will it be" },
+      { kannada: "ಜಾಸ್ತಿ", english: "too much, more" },
+      { kannada: "ಕಡಿಮೆ", english: "less" },
+      { kannada: "ಹೋಗೋಣ", english: "let's go" },
+      { kannada: "ಬೇಡ", english: "no thanks, not needed" }
+    ]
+  },
+  {
+    id: "landlord-viewing",
+    title: "Viewing a flat with the landlord",
+    level: "advanced",
+    setting:
+      "A two-bedroom flat for rent in Basavanagudi. The landlord lives downstairs and is showing you around.",
+    persona: {
+      name: "Shankar",
+      role: "landlord",
+      description:
+        "A retired bank officer; formal and particular, uses polite forms, and wants tenants who pay on time and look after the house."
+    },
+    opening: {
+      kannada: "ಬನ್ನಿ, ಕುಳಿತುಕೊಳ್ಳಿ. ಮನೆ ನೋಡಲು ಬಂದಿದ್ದೀರಾ?",
+      english: "Come, sit down. Have you come to see the house?"
+    },
+    goals: [
+      {
+        id: "introduce",
+        description: "Say what you do and who will live with you"
+      },
+      { id: "ask-rent", description: "Ask what the monthly rent is" },
+      { id: "ask-deposit", description: "Ask how much advance he wants" },
+      {
+        id: "ask-water",
+        description: "Ask about the water supply and maintenance"
+      },
+      { id: "move-in", description: "Agree on when you can move in" }
+    ],
+    vocabulary: [
+      { kannada: "ಬಾಡಿಗೆ", english: "rent" },
+      { kannada: "ಮುಂಗಡ", english: "advance, deposit" },
+      { kannada: "ತಿಂಗಳು", english: "month" },
+      { kannada: "ನೀರು", english: "water" },
+      { kannada: "ಒಪ್ಪಂದ", english: "agreement" },
+      { kannada: "ಯಾವಾಗ", english: "when" }
+    ]
+  }
+]
+
+/**
+ * Looks up a scenario.
+ * @param scenarioId - The scenario's ID
+ * @returns {RolePlayScenario | null} The scenario, or null when there is none with that ID
+ */
+export function getScenario(scenarioId: string): RolePlayScenario | null {
+  return ROLEPLAY_SCENARIOS.find(scenario => scenario.id === scenarioId) ?? null
+}
@@ -0,0 +1,281 @@
+/**
+ * @description
+ * Kannada letter inventory and the romanization tables for each transliteration scheme.
+ *
+ * Key features:
+ * - One row per Kannada vowel/consonant with its spelling in every scheme
+ * - ISO 15919 and Harvard-Kyoto readings are derived from the same rows, so they stay in sync
+ * - The casual scheme has its own reading table, because chat spelling is ambiguous
+ *
+ * @dependencies
+ * - @/types: TransliterationScheme type
+ *
+ * @notes
+ * - Harvard-Kyoto is extended for Dravidian vowels: e/E and o/O are short/long, L is ಳ
+ * - Casual spelling follows common South Indian chat usage: t = ಟ, th = ತ, d = ಡ, dh = ದ, ee = ಈ, oo = ಊ;
+ *   it cannot tell every letter apart (e.g. ಎ/ಏ, ಲ/ಳ, ಶ/ಷ), so casual round trips are lossy
+ * - Archaic letters (ಱ, ೞ) only round-trip in ISO 15919
+ */
+
+import { TransliterationScheme } from "@/types"
+
+export const VIRAMA = "\u0CCD" // Kills the inherent vowel, forming conjuncts (ottakshara)
+export const ANUSVARA = "\u0C82" // ಂ Nasal (sonne)
+export const VISARGA = "\u0C83" // ಃ Breathy h (visarga)
+export const NUKTA = "\u0CBC" // Marks borrowed sounds (ಫ಼ f, ಜ಼ z)
+export const ZWNJ = "\u200C" // Zero-width non-joiner
+export const ZWJ = "\u200D" // Zero-width joiner
+
+/**
+ * A vowel, written as an independent letter or, after a consonant, as a sign.
+ */
+export interface KannadaVowel {
+  letter: string // Independent form, e.g. ಆ
+  sign: string // Dependent sign after a consonant; "" for the inherent a
+  roman: Record<TransliterationScheme, string>
+}
+
+/**
+ * A consonant letter (or a fixed cluster such as ಕ್ಷ) with its inherent vowel removed.
+ */
+export interface KannadaConsonant {
+  letter: string // e.g. ಕ, or ಫ಼ for consonants written with a nukta
+  roman: Record<TransliterationScheme, string>
+}
+
+export const VOWELS: KannadaVowel[] = [
+  vowel("ಅ", "", "a", "a", "a"),
+  vowel("ಆ", "ಾ", "ā", "A", "aa"),
+  vowel("ಇ", "ಿ", "i", "i", "i"),
+  vowel("ಈ", "ೀ", "ī", "I", "ee"),
+  vowel("ಉ", "ು", "u", "u", "u"),
+  vowel("ಊ", "ೂ", "ū", "U", "oo"),
+  vowel("ಋ", "ೃ", "r̥", "R", "ru"),
+  vowel("ೠ", "ೄ", "r̥̄", "RR", "ru"),
+  vowel("ಌ", "ೢ", "l̥", "lR", "lu"),
+  vowel("ೡ", "ೣ", "l̥̄", "lRR", "lu"),
+  vowel("ಎ", "ೆ", "e", "e", "e"),
+  vowel("ಏ", "ೇ", "ē", "E", "e"),
+  vowel("ಐ", "ೈ", "ai", "ai", "ai"),
+  vowel("ಒ", "ೊ", "o", "o", "o"),
+  vowel("ಓ", "ೋ", "ō", "O", "o"),
+  vowel("ಔ", "ೌ", "au", "au", "au")
+]
+
+export const CONSONANTS: KannadaConsonant[] = [
+  consonant("ಕ", "k", "k", "k"),
+  consonant("ಖ", "kh", "kh", "kh"),
+  consonant("ಗ", "g", "g", "g"),
+  consonant("ಘ", "gh", "gh", "gh"),
+  consonant("ಙ", "ṅ", "G", "ng"),
+  consonant("ಚ", "c", "c", "ch"),
+  consonant("ಛ", "ch", "ch", "chh"),
+  consonant("ಜ", "j", "j", "j"),
+  consonant("ಝ", "jh", "jh", "jh"),
+  consonant("ಞ", "ñ", "J", "n"),
+  consonant("ಟ", "ṭ", "T", "t"),
+  consonant("ಠ", "ṭh", "Th", "t"),
+  consonant("ಡ", "ḍ", "D", "d"),
+  consonant("ಢ", "ḍh", "Dh", "d"),
+  consonant("ಣ", "ṇ", "N", "n"),
+  consonant("ತ", "t", "t", "th"),
+  consonant("ಥ", "th", "th", "th"),
+  consonant("ದ", "d", "d", "dh"),
+  consonant("ಧ", "dh", "dh", "dh"),
+  consonant("ನ", "n", "n", "n"),
+  consonant("ಪ", "p", "p", "p"),
+  consonant("ಫ", "ph", "ph", "ph"),
+  consonant("ಬ", "b", "b", "b"),
+  consonant("ಭ", "bh", "bh", "bh"),
+  consonant("ಮ", "m", "m", "m"),
+  consonant("ಯ", "y", "y", "y"),
+  consonant("ರ", "r", "r", "r"),
+  consonant("ಱ", "ṟ", "r", "r"),
+  consonant("ಲ", "l", "l", "l"),
+  consonant("ಳ", "ḷ", "L", "l"),
+  consonant("ೞ", "ḻ", "L", "l"),
+  consonant("ವ", "v", "v", "v"),
+  consonant("ಶ", "ś", "z", "sh"),
+  consonant("ಷ", "ṣ", "S", "sh"),
+  consonant("ಸ", "s", "s", "s"),
+  consonant("ಹ", "h", "h", "h"),
+  consonant(`ಫ${NUKTA}`, "f", "ph", "f"),
+  consonant(`ಜ${NUKTA}`, "z", "j", "z")
+]
+
+/**
+ * Romanization of the anusvara and visarga.
+ * Casual spelling writes the anusvara as the nasal that is actually pronounced (see toLatin).
+ */
+export const MARKS: Record<
+  TransliterationScheme,
+  { anusvara: string; visarga: string }
+> = {
+  iso15919: { anusvara: "ṁ", visarga: "ḥ" },
+  "harvard-kyoto": { anusvara: "M", visarga: "H" },
+  casual: { anusvara: "m", visarga: "h" }
+}
+
+/**
+ * Separator that splits letters which would otherwise read as one (ISO 15919 "k:h", "a:i").
+ * Schemes without one are ambiguous in those rare cases.
+ */
+export const SEPARATORS: Record<TransliterationScheme, string | null> = {
+  iso15919: ":",
+  "harvard-kyoto": null,
+  casual: null
+}
+
+/**
+ * One unit of romanized input.
+ */
+export type LatinToken =
+  | { kind: "vowel"; vowel: KannadaVowel }
+  | { kind: "consonant"; letter: string; roman: string }
+  | { kind: "mark"; letter: string }
+  | { kind: "separator" }
+
+/**
+ * How each scheme is read back into Kannada: a table of spellings and whether case matters.
+ */
+export interface LatinReadingTable {
+  tokens: Map<string, LatinToken> // Spelling -> token
+  maxLength: number // Longest spelling, for greedy matching
+  caseSensitive: boolean // Harvard-Kyoto uses capitals as letters
+}
+
+const vowelByLetter = (letter: string) =>
+  VOWELS.find(vowel => vowel.letter === letter)!
+
+// Alternative spellings accepted when reading each scheme (never written)
+const READING_ALIASES: Record<TransliterationScheme, [string, LatinToken][]> = {
+  iso15919: [
+    ["ṃ", { kind: "mark", letter: ANUSVARA }],
+    ["ṛ", { kind: "vowel", vowel: vowelByLetter("ಋ") }],
+    ["ṝ", { kind: "vowel", vowel: vowelByLetter("ೠ") }]
+  ],
+  "harvard-kyoto": [],
+  casual: []
+}
+
+// Casual spelling is read with its own table: many letters share a spelling when written
+const CASUAL_READING: [string, string][] = [
+  ["a", "ಅ"],
+  ["aa", "ಆ"],
+  ["i", "ಇ"],
+  ["ii", "ಈ"],
+  ["ee", "ಈ"],
+  ["u", "ಉ"],
+  ["uu", "ಊ"],
+  ["oo", "ಊ"],
+  ["e", "ಎ"],
+  ["ai", "ಐ"],
+  ["o", "ಒ"],
+  ["au", "ಔ"],
+  ["ou", "ಔ"],
+  ["k", "ಕ"],
+  ["kh", "ಖ"],
+  ["g", "ಗ"],
+  ["gh", "ಘ"],
+  ["ch", "ಚ"],
+  ["chh", "ಛ"],
+  ["j", "ಜ"],
+  ["jh", "ಝ"],
+  ["t", "ಟ"],
+  ["d", "ಡ"],
+  ["th", "ತ"],
+  ["dh", "ದ"],
+  ["n", "ನ"],
+  ["p", "ಪ"],
+  ["ph", "ಫ"],
+  ["f", `ಫ${NUKTA}`],
+  ["b", "ಬ"],
+  ["bh", "ಭ"],
+  ["m", "ಮ"],
+  ["y", "ಯ"],
+  ["r", "ರ"],
+  ["l", "ಲ"],
+  ["v", "ವ"],
+  ["w", "ವ"],
+  ["sh", "ಶ"],
+  ["s", "ಸ"],
+  ["h", "ಹ"],
+  ["z", `ಜ${NUKTA}`],
+  ["x", `ಕ${VIRAMA}ಷ`],
+  ["ksh", `ಕ${VIRAMA}ಷ`],
+  ["jn", `ಜ${VIRAMA}ಞ`]
+]
+
+const readingTables = new Map<TransliterationScheme, LatinReadingTable>()
+
+/**
+ * Returns the table used to read romanized text of a scheme back into Kannada.
+ * @param scheme - The romanization scheme
+ * @returns {LatinReadingTable} Spellings and matching rules (cached per scheme)
+ */
+export function getReadingTable(
+  scheme: TransliterationScheme
+): LatinReadingTable {
+  const cached = readingTables.get(scheme)
+  if (cached) return cached
+
+  const tokens = new Map<string, LatinToken>()
+  const add = (spelling: string, token: LatinToken) => {
+    if (!tokens.has(spelling)) tokens.set(spelling, token)
+  }
+
+  if (scheme === "casual") {
+    for (const [spelling, letter] of CASUAL_READING) {
+      const vowel = VOWELS.find(candidate => candidate.letter === letter)
+      add(
+        spelling,
+        vowel
+          ? { kind: "vowel", vowel }
+          : { kind: "consonant", letter, roman: spelling }
+      )
+    }
+  } else {
+    for (const vowel of VOWELS)
+      add(vowel.roman[scheme], { kind: "vowel", vowel })
+    for (const { letter, roman } of CONSONANTS) {
+      add(roman[scheme], { kind: "consonant", letter, roman: roman[scheme] })
+    }
+    add(MARKS[scheme].anusvara, { kind: "mark", letter: ANUSVARA })
+    add(MARKS[scheme].visarga, { kind: "mark", letter: VISARGA })
+  }
+
+  for (const [spelling, token] of READING_ALIASES[scheme]) add(spelling, token)
+  const separator = SEPARATORS[scheme]
+  if (separator) add(separator, { kind: "separator" })
+
+  const table: LatinReadingTable = {
+    tokens,
+    maxLength: Math.max(...[...tokens.keys()].map(key => key.length)),
+    caseSensitive: scheme === "harvard-kyoto"
+  }
+  readingTables.set(scheme, table)
+  return table
+}
+
+function vowel(
+  letter: string,
+  sign: string,
+  iso15919: string,
+  harvardKyoto: string,
+  casual: string
+): KannadaVowel {
+  return {
+    letter,
+    sign,
+    roman: { iso15919, "harvard-kyoto": harvardKyoto, casual }
+  }
+}
+
+function consonant(
+  letter: string,
+  iso15919: string,
+  harvardKyoto: string,
+  casual: string
+): KannadaConsonant {
+  return { letter, roman: { iso15919, "harvard-kyoto": harvardKyoto, casual } }
+}
@@ -0,0 +1,295 @@
+/**
+ * @description
+ * Converts Kannada text between the Kannada script and Latin romanizations.
+ *
+ * Key features:
+ * - toLatin: Kannada script -> ISO 15919, Harvard-Kyoto or casual romanization
+ * - fromLatin: romanized text -> Kannada script, forming conjuncts (ottakshara) with the virama
+ * - Anusvara (ಂ) and visarga (ಃ) in both directions, including the casual "n"/"m" spelling of the anusvara
+ * - Text that is not Kannada (or not romanized Kannada) passes through unchanged, so mixed sentences work
+ * - hasKannada: detects Kannada script, so English-only text can skip romanization
+ *
+ * @dependencies
+ * - ./schemes: Letter inventory and reading tables
+ *
+ * @notes
+ * - Input is NFC-normalized first; zero-width joiners only affect rendering and are dropped
+ * - ISO 15919 and Harvard-Kyoto are read case-sensitively only where the scheme needs it (Harvard-Kyoto)
+ * - ISO 15919 output inserts ":" where two letters would otherwise read as one (ಕ್ಹ -> k:ha)
+ * - Casual output writes doubled consonants as in chat (ಹೇಗಿದ್ದೀರಿ -> hegiddeeri); "dd" and "tt" read back as ಡ್ಡ and ಟ್ಟ
+ */
+
+import { TransliterationScheme } from "@/types"
+import {
+  ANUSVARA,
+  CONSONANTS,
+  getReadingTable,
+  LatinReadingTable,
+  LatinToken,
+  MARKS,
+  NUKTA,
+  SEPARATORS,
+  VIRAMA,
+  VISARGA,
+  VOWELS,
+  ZWJ,
+  ZWNJ
+} from "./schemes"
+
+const INHERENT_VOWEL = VOWELS[0]
+const CONSONANT_BY_LETTER = new Map(CONSONANTS.map(c => [c.letter, c]))
+const VOWEL_BY_LETTER = new Map(VOWELS.map(vowel => [vowel.letter, vowel]))
+const VOWEL_BY_SIGN = new Map(
+  VOWELS.filter(vowel => vowel.sign).map(vowel => [vowel.sign, vowel])
+)
+const KANNADA_DIGIT_ZERO = 0x0ce6
+const KANNADA_BLOCK = /[\u0c80-\u0cff]/
+
+// Casual spelling writes the anusvara as "n" before these stops (ಮಂಜು -> manju) and as "m" elsewhere
+const N_ANUSVARA_LETTERS = new Set([..."ಕಖಗಘಚಛಜಝಟಠಡಢತಥದಧ"])
+// ...and reads "m" before these letters as an anusvara (thumba -> ತುಂಬ)
+const M_ANUSVARA_LETTERS = new Set([..."ಪಫಬಭಶಷಸಹ"])
+
+// Casual spelling marks dentals with an "h" (ತ -> th, ದ -> dh), but writes them plain when doubled (ಹತ್ತು -> hattu)
+const CASUAL_PLAIN_DENTALS = new Map([
+  ["ತ", "t"],
+  ["ದ", "d"]
+])
+
+interface LatinPiece {
+  text: string
+  kannada: boolean // Converted from Kannada, so it may need a separator
+}
+
+/**
+ * Romanizes Kannada text.
+ * @param text - Text containing Kannada script (other characters are kept as-is)
+ * @param scheme - The romanization scheme to write
+ * @returns {string} The romanized text
+ */
+export function toLatin(
+  text: string,
+  scheme: TransliterationScheme = "iso15919"
+): string {
+  const chars = [...text.normalize("NFC")].filter(
+    char => char !== ZWJ && char !== ZWNJ
+  )
+  const pieces: LatinPiece[] = []
+  const push = (piece: string, kannada = true) =>
+    pieces.push({ text: piece, kannada })
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i]
+
+    if (CONSONANT_BY_LETTER.has(char)) {
+      let letter = char
+      if (chars[i + 1] === NUKTA) {
+        i++
+        if (CONSONANT_BY_LETTER.has(char + NUKTA)) letter = char + NUKTA
+      }
+      const roman = CONSONANT_BY_LETTER.get(letter)!.roman[scheme]
+
+      if (scheme === "casual" && isGeminate(chars, i, letter)) {
+        push(casualGeminate(letter, roman))
+        i += 2
+        // A virama after the pair starts a cluster (ತ್ತ್ವ) or ends the word (ನ್ನ್)
+        if (chars[i + 1] === VIRAMA) {
+          i++
+          continue
+        }
+      } else {
+        push(roman)
+        if (chars[i + 1] === VIRAMA) {
+          i++
+          continue
+        }
+      }
+      const sign = VOWEL_BY_SIGN.get(chars[i + 1])
+      if (sign) i++
+      push((sign ?? INHERENT_VOWEL).roman[scheme])
+      continue
+    }
+
+    const vowel = VOWEL_BY_LETTER.get(char) ?? VOWEL_BY_SIGN.get(char)
+    if (vowel) {
+      push(vowel.roman[scheme])
+    } else if (char === ANUSVARA) {
+      push(
+        scheme === "casual" && N_ANUSVARA_LETTERS.has(chars[i + 1])
+          ? "n"
+          : MARKS[scheme].anusvara
+      )
+    } else if (char === VISARGA) {
+      push(MARKS[scheme].visarga)
+    } else if (isKannadaDigit(char)) {
+      push(String(char.charCodeAt(0) - KANNADA_DIGIT_ZERO), false)
+    } else if (char !== VIRAMA && char !== NUKTA) {
+      push(char, false)
+    }
+  }
+
+  return joinPieces(pieces, scheme)
+}
+
+/**
+ * Checks whether text contains any Kannada script.
+ * @param text - Text to check
+ * @returns {boolean} True if at least one character is in the Kannada Unicode block
+ */
+export function hasKannada(text: string): boolean {
+  return KANNADA_BLOCK.test(text)
+}
+
+/**
+ * Converts romanized Kannada back into Kannada script.
+ * @param text - Romanized text in the given scheme (other characters are kept as-is)
+ * @param scheme - The romanization scheme to read
+ * @returns {string} The text in Kannada script
+ */
+export function fromLatin(
+  text: string,
+  scheme: TransliterationScheme = "iso15919"
+): string {
+  const table = getReadingTable(scheme)
+  const source = text.normalize("NFC")
+  const matchSource = table.caseSensitive ? source : toLowerCase(source)
+
+  let output = ""
+  let pending: { letter: string } | null = null // Consonant still waiting for its vowel
+  const closePending = () => {
+    if (pending) output += pending.letter + VIRAMA
+    pending = null
+  }
+
+  let i = 0
+  while (i < source.length) {
+    const match = longestMatch(table, matchSource, i)
+    if (!match) {
+      closePending()
+      output += source[i]
+      i++
+      continue
+    }
+
+    const { token, length } = match
+    i += length
+    switch (token.kind) {
+      case "consonant":
+        if (pending) {
+          output += isCasualAnusvara(pending.letter, token.letter, scheme)
+            ? ANUSVARA
+            : pending.letter + VIRAMA
+        }
+        pending = token
+        break
+      case "vowel":
+        output += pending
+          ? pending.letter + token.vowel.sign
+          : token.vowel.letter
+        pending = null
+        break
+      case "mark":
+        closePending()
+        output += token.letter
+        break
+      case "separator":
+        break
+    }
+  }
+  closePending()
+
+  return output
+}
+
+/**
+ * Joins romanized pieces, adding the scheme's separator where two pieces would read as one.
+ */
+function joinPieces(
+  pieces: LatinPiece[],
+  scheme: TransliterationScheme
+): string {
+  const separator = SEPARATORS[scheme]
+  if (!separator) return pieces.map(piece => piece.text).join("")
+
+  const table = getReadingTable(scheme)
+  return pieces
+    .map((piece, index) => {
+      const previous = pieces[index - 1]
+      const ambiguous =
+        previous?.kannada &&
+        piece.kannada &&
+        readsAsOne(table, previous.text, piece.text)
+      return ambiguous ? separator + piece.text : piece.text
+    })
+    .join("")
+}
+
+// True when reading `first + second` would take a longer spelling than `first`
+function readsAsOne(
+  table: LatinReadingTable,
+  first: string,
+  second: string
+): boolean {
+  const joined = first + second
+  for (const spelling of table.tokens.keys()) {
+    if (spelling.length > first.length && joined.startsWith(spelling)) {
+      return true
+    }
+  }
+  return false
+}
+
+function longestMatch(
+  table: LatinReadingTable,
+  source: string,
+  start: number
+): { token: LatinToken; length: number } | null {
+  const longest = Math.min(table.maxLength, source.length - start)
+  for (let length = longest; length > 0; length--) {
+    const token = table.tokens.get(source.slice(start, start + length))
+    if (token) return { token, length }
+  }
+  return null
+}
+
+function isCasualAnusvara(
+  nasal: string,
+  next: string,
+  scheme: TransliterationScheme
+): boolean {
+  if (scheme !== "casual") return false
+  return (
+    (nasal === "ನ" && N_ANUSVARA_LETTERS.has(next)) ||
+    (nasal === "ಮ" && M_ANUSVARA_LETTERS.has(next))
+  )
+}
+
+// Lowercases character by character so indexes still line up with the original text
+function toLowerCase(text: string): string {
+  return [...text]
+    .map(char => {
+      const lower = char.toLowerCase()
+      return lower.length === char.length ? lower : char
+    })
+    .join("")
+}
+
+// True when the consonant at `index` is doubled with the virama (ದ್ದ)
+function isGeminate(chars: string[], index: number, letter: string): boolean {
+  return (
+    chars[index + 1] === VIRAMA &&
+    chars[index + 2] === letter &&
+    chars[index + 3] !== NUKTA
+  )
+}
+
+// A doubled consonant in casual spelling: ದ್ದ -> dd, ಕ್ಕ -> kk, ಚ್ಚ -> cch
+function casualGeminate(letter: string, roman: string): string {
+  const plain = CASUAL_PLAIN_DENTALS.get(letter)
+  return plain ? plain + plain : roman[0] + roman
+}
+
+function isKannadaDigit(char: string): boolean {
+  const offset = char.charCodeAt(0) - KANNADA_DIGIT_ZERO
+  return offset >= 0 && offset <= 9
+}
@@ -8,3 +8,27 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Shuffles items in an order fixed by the seed, so server and client renders agree.
+// Never returns the original order when there is more than one distinct item.
+export function seededShuffle<T>(items: T[], seed: string): T[] {
+  let state = 0
+  for (const char of seed) {
+    state = (state * 31 + char.charCodeAt(0)) >>> 0
+  }
+  const next = () => {
+    state = (state * 1664525 + 1013904223) >>> 0
+    return state / 2 ** 32
+  }
+
+  const shuffled = [...items]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(next() * (i + 1))
+    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+
+  if (shuffled.every((item, index) => item === items[index])) {
+    return [...shuffled.slice(1), ...shuffled.slice(0, 1)]
+  }
+  return shuffled
+}
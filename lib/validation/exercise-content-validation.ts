@@ -0,0 +1,255 @@
+/**
+ * @description
+ * Zod schemas and helpers for exercise content, one schema per exercise type.
+ * Server actions use these to reject malformed exercises before they are written,
+ * and renderers use them to read stored rows safely.
+ *
+ * Key features:
+ * - exerciseDefinitionSchema: discriminated union on the exercise type
+ * - Strict validation with field-level errors for writes ("content.<path>")
+ * - Lenient reads that return null for content that no longer fits its type
+ * - Fill-blank sentences mark each gap with BLANK_MARKER; the marker count must match the blanks
+ *
+ * @dependencies
+ * - zod: Schema definitions and parsing
+ * - @/types: Exercise content types and FieldErrors
+ * - @/lib/validation/field-errors: ZodError flattening
+ *
+ * @notes
+ * - Writes must always go through validateExerciseDefinition
+ * - readExerciseDefinition never throws; it is safe to call on any stored row
+ */
+
+import {
+  DictationContent,
+  ExerciseDefinition,
+  ExerciseType,
+  FieldErrors,
+  FillBlankContent,
+  MatchingContent,
+  QuizContent,
+  SpeakingContent,
+  TranslationContent,
+  WordOrderContent,
+  WritingContent
+} from "@/types"
+import { toFieldErrors } from "@/lib/validation/field-errors"
+import { z } from "zod"
+
+const requiredText = z.string().trim().min(1, "Required")
+const optionalText = z.string().trim().min(1).optional()
+
+export const quizContentSchema: z.ZodType<QuizContent> = z
+  .object({
+    question: requiredText,
+    options: z.array(requiredText).min(2, "Add at least two options"),
+    correctAnswer: requiredText
+  })
+  .refine(content => content.options.includes(content.correctAnswer), {
+    message: "The correct answer must be one of the options",
+    path: ["correctAnswer"]
+  })
+
+const acceptedAnswers = z.array(requiredText).optional()
+
+export const writingContentSchema: z.ZodType<WritingContent> = z.object({
+  prompt: requiredText,
+  correctAnswer: requiredText,
+  acceptedAnswers
+})
+
+export const speakingContentSchema: z.ZodType<SpeakingContent> = z.object({
+  phrase: requiredText,
+  english: optionalText,
+  audioUrl: z.string().url("Must be a valid URL").optional(),
+  correctAnswer: optionalText
+})
+
+/**
+ * Marks a gap in a fill-blank sentence.
+ */
+export const BLANK_MARKER = "___"
+
+export const matchingContentSchema: z.ZodType<MatchingContent> = z
+  .object({
+    instructions: optionalText,
+    pairs: z
+      .array(z.object({ kannada: requiredText, english: requiredText }))
+      .min(2, "Add at least two pairs")
+  })
+  .refine(content => isUnique(content.pairs.map(pair => pair.kannada)), {
+    message: "Each Kannada item must be different",
+    path: ["pairs"]
+  })
+  .refine(content => isUnique(content.pairs.map(pair => pair.english)), {
+    message: "Each English item must be different",
+    path: ["pairs"]
+  })
+
+export const fillBlankContentSchema: z.ZodType<FillBlankContent> = z
+  .object({
+    sentence: requiredText,
+    blanks: z
+      .array(
+        z.object({ answer: requiredText, acceptedAnswers, hint: optionalText })
+      )
+      .min(1, "Add at least one blank"),
+    english: optionalText
+  })
+  .refine(
+    content =>
+      content.sentence.split(BLANK_MARKER).length - 1 === content.blanks.length,
+    {
+      message: `Mark each blank in the sentence with ${BLANK_MARKER}`,
+      path: ["sentence"]
+    }
+  )
+
+export const wordOrderContentSchema: z.ZodType<WordOrderContent> = z.object({
+  words: z.array(requiredText).min(2, "Add at least two words"),
+  english: optionalText
+})
+
+export const dictationContentSchema: z.ZodType<DictationContent> = z.object({
+  text: requiredText,
+  audioUrl: z.string().url("Must be a valid URL").optional(),
+  acceptedAnswers,
+  english: optionalText
+})
+
+export const translationContentSchema: z.ZodType<TranslationContent> = z.object(
+  {
+    source: requiredText,
+    direction: z.enum(["kn-en", "en-kn"]),
+    acceptedAnswers: z
+      .array(requiredText)
+      .min(1, "Add at least one accepted answer")
+  }
+)
+
+export const exerciseDefinitionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("quiz"), content: quizContentSchema }),
+  z.object({ type: z.literal("writing"), content: writingContentSchema }),
+  z.object({ type: z.literal("speaking"), content: speakingContentSchema }),
+  z.object({ type: z.literal("matching"), content: matchingContentSchema }),
+  z.object({ type: z.literal("fill-blank"), content: fillBlankContentSchema }),
+  z.object({ type: z.literal("word-order"), content: wordOrderContentSchema }),
+  z.object({ type: z.literal("dictation"), content: dictationContentSchema }),
+  z.object({
+    type: z.literal("translation"),
+    content: translationContentSchema
+  })
+]) satisfies z.ZodType<ExerciseDefinition>
+
+/**
+ * Result of validating an exercise for a write.
+ */
+export type ExerciseValidationResult =
+  | { success: true; data: ExerciseDefinition }
+  | { success: false; fieldErrors: FieldErrors }
+
+/**
+ * Validates an exercise's type and content strictly.
+ * @param input - Untrusted exercise (e.g. { type, content } from a form or import)
+ * @returns {ExerciseValidationResult} The parsed exercise or errors keyed by "type" or "content.<path>"
+ */
+export function validateExerciseDefinition(
+  input: unknown
+): ExerciseValidationResult {
+  const result = exerciseDefinitionSchema.safeParse(input)
+  if (!result.success) {
+    return { success: false, fieldErrors: toFieldErrors(result.error) }
+  }
+  return { success: true, data: result.data }
+}
+
+/**
+ * Reads a stored exercise for display or grading.
+ * @param exercise - A stored row or snapshot with its type and raw content
+ * @returns {ExerciseDefinition | null} The typed exercise, or null if its content does not fit its type
+ */
+export function readExerciseDefinition(exercise: {
+  type: ExerciseType
+  content: unknown
+}): ExerciseDefinition | null {
+  const result = exerciseDefinitionSchema.safeParse({
+    type: exercise.type,
+    content: exercise.content
+  })
+  return result.success ? result.data : null
+}
+
+/**
+ * The correct answer as text, for grading single-answer types and for showing learners what was expected.
+ * @param exercise - A validated exercise
+ * @returns {string} The correct answer; speaking exercises default to their phrase, structured types are written out
+ */
+export function getExpectedAnswer(exercise: ExerciseDefinition): string {
+  switch (exercise.type) {
+    case "quiz":
+    case "writing":
+      return exercise.content.correctAnswer
+    case "speaking":
+      return exercise.content.correctAnswer ?? exercise.content.phrase
+    case "matching":
+      return exercise.content.pairs
+        .map(pair => `${pair.kannada} = ${pair.english}`)
+        .join("; ")
+    case "fill-blank":
+      return fillBlanks(
+        exercise.content.sentence,
+        exercise.content.blanks.map(blank => blank.answer)
+      )
+    case "word-order":
+      return exercise.content.words.join(" ")
+    case "dictation":
+      return exercise.content.text
+    case "translation":
+      return exercise.content.acceptedAnswers[0]
+  }
+}
+
+/**
+ * Every answer graded as fully correct for a single-answer exercise.
+ * @param exercise - A validated exercise of a type answered with text
+ * @returns {string[]} The expected answer first, then any accepted alternatives
+ */
+export function getAcceptedAnswers(
+  exercise: Extract<
+    ExerciseDefinition,
+    { type: "quiz" | "writing" | "speaking" | "dictation" | "translation" }
+  >
+): string[] {
+  switch (exercise.type) {
+    case "quiz":
+    case "speaking":
+      return [getExpectedAnswer(exercise)]
+    case "writing":
+    case "dictation":
+      return [
+        getExpectedAnswer(exercise),
+        ...(exercise.content.acceptedAnswers ?? [])
+      ]
+    case "translation":
+      return exercise.content.acceptedAnswers
+  }
+}
+
+/**
+ * Writes answers into the gaps of a fill-blank sentence.
+ * @param sentence - Sentence with one BLANK_MARKER per gap
+ * @param answers - Text for each gap, in order; missing entries leave the marker in place
+ * @returns {string} The completed sentence
+ */
+export function fillBlanks(sentence: string, answers: string[]): string {
+  return sentence
+    .split(BLANK_MARKER)
+    .map((part, index) =>
+      index === 0 ? part : (answers[index - 1] ?? BLANK_MARKER) + part
+    )
+    .join("")
+}
+
+function isUnique(values: string[]): boolean {
+  return new Set(values).size === values.length
+}
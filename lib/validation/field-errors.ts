@@ -0,0 +1,32 @@
+/**
+ * @description
+ * Helpers for turning zod validation failures into the FieldErrors shape
+ * returned by server actions.
+ *
+ * @dependencies
+ * - zod: Provides the ZodError type
+ * - @/types: FieldErrors type
+ */
+
+import { FieldErrors } from "@/types"
+import { ZodError } from "zod"
+
+/**
+ * Flattens a ZodError into messages keyed by dotted field path.
+ * @param error - The validation error to flatten
+ * @param prefix - Optional path prefix, e.g. "content"
+ * @returns {FieldErrors} Messages grouped by field path
+ */
+export function toFieldErrors(error: ZodError, prefix?: string): FieldErrors {
+  const fieldErrors: FieldErrors = {}
+
+  for (const issue of error.issues) {
+    const path = [prefix, ...issue.path].filter(
+      segment => segment !== undefined && segment !== ""
+    )
+    const key = path.length > 0 ? path.join(".") : "_root"
+    fieldErrors[key] = [...(fieldErrors[key] ?? []), issue.message]
+  }
+
+  return fieldErrors
+}
@@ -0,0 +1,266 @@
+/**
+ * @description
+ * Zod schemas and helpers for the versioned lesson content document.
+ * Server actions use these to reject malformed content before it is written,
+ * and renderers use them to read rows that may predate the current format.
+ *
+ * Key features:
+ * - Strict validation with field-level errors for writes
+ * - Upgrade path from the legacy unversioned format (e.g. { grammar, vocab })
+ * - Lenient reads that drop unusable entries instead of failing the page
+ * - Legacy vocabulary given as bare words is kept without an English meaning until an author adds one
+ *
+ * @dependencies
+ * - zod: Schema definitions and parsing
+ * - @/types: LessonContent interfaces and FieldErrors
+ * - @/lib/validation/field-errors: ZodError flattening
+ *
+ * @notes
+ * - Writes must always go through validateLessonContent
+ * - readLessonContent never throws; it is safe to call on any stored row
+ * - Only migration and reads accept vocabulary without an English meaning; writes still require it
+ */
+
+import {
+  CURRENT_LESSON_CONTENT_VERSION,
+  CulturalNote,
+  Dialogue,
+  DialogueLine,
+  ExampleSentence,
+  FieldErrors,
+  GrammarNote,
+  LessonContent,
+  VocabularyItem
+} from "@/types"
+import { toFieldErrors } from "@/lib/validation/field-errors"
+import { z } from "zod"
+
+const requiredText = z.string().trim().min(1, "Required")
+const optionalText = z.string().trim().min(1).optional()
+
+export const exampleSentenceSchema: z.ZodType<ExampleSentence> = z.object({
+  kannada: requiredText,
+  transliteration: optionalText,
+  english: requiredText,
+  notes: optionalText
+})
+
+export const grammarNoteSchema: z.ZodType<GrammarNote> = z.object({
+  title: requiredText,
+  explanation: requiredText,
+  examples: z.array(exampleSentenceSchema).optional()
+})
+
+export const vocabularyItemSchema: z.ZodType<VocabularyItem> = z.object({
+  kannada: requiredText,
+  transliteration: optionalText,
+  english: requiredText,
+  partOfSpeech: optionalText,
+  audioUrl: z.string().url("Must be a valid URL").optional()
+})
+
+// Legacy vocabulary was a list of bare Kannada words, so migrated items may lack a meaning
+const unglossedVocabularyItemSchema: z.ZodType<VocabularyItem> = z.object({
+  kannada: requiredText,
+  transliteration: optionalText,
+  english: z.string().trim(),
+  partOfSpeech: optionalText,
+  audioUrl: z.string().url("Must be a valid URL").optional()
+})
+
+export const dialogueLineSchema: z.ZodType<DialogueLine> = z.object({
+  speaker: requiredText,
+  kannada: requiredText,
+  transliteration: optionalText,
+  english: requiredText
+})
+
+export const dialogueSchema: z.ZodType<Dialogue> = z.object({
+  title: requiredText,
+  context: optionalText,
+  lines: z
+    .array(dialogueLineSchema)
+    .min(1, "A dialogue needs at least one line")
+})
+
+export const culturalNoteSchema: z.ZodType<CulturalNote> = z.object({
+  title: requiredText,
+  body: requiredText
+})
+
+const buildLessonContentSchema = (
+  vocabularyItem: z.ZodType<VocabularyItem>
+): z.ZodType<LessonContent> =>
+  z.object({
+    version: z.literal(CURRENT_LESSON_CONTENT_VERSION),
+    summary: optionalText,
+    grammarNotes: z.array(grammarNoteSchema),
+    vocabulary: z.array(vocabularyItem),
+    examples: z.array(exampleSentenceSchema),
+    dialogues: z.array(dialogueSchema),
+    culturalNotes: z.array(culturalNoteSchema)
+  })
+
+export const lessonContentSchema =
+  buildLessonContentSchema(vocabularyItemSchema)
+
+const migratedLessonContentSchema = buildLessonContentSchema(
+  unglossedVocabularyItemSchema
+)
+
+/**
+ * Result of validating lesson content for a write.
+ */
+export type LessonContentValidationResult =
+  | { success: true; data: LessonContent }
+  | { success: false; fieldErrors: FieldErrors }
+
+/**
+ * Validates lesson content strictly against the current format.
+ * @param input - Untrusted content (e.g. from a form or import)
+ * @returns {LessonContentValidationResult} Parsed content or errors keyed by "content.<path>"
+ */
+export function validateLessonContent(
+  input: unknown
+): LessonContentValidationResult {
+  const result = lessonContentSchema.safeParse(input)
+  if (!result.success) {
+    return {
+      success: false,
+      fieldErrors: toFieldErrors(result.error, "content")
+    }
+  }
+  return { success: true, data: result.data }
+}
+
+/**
+ * Validates upgraded legacy content for migration. Like validateLessonContent, except
+ * that vocabulary items may lack an English meaning (see findUnglossedVocabulary).
+ * @param input - Content returned by upgradeLessonContent
+ * @returns {LessonContentValidationResult} Parsed content or errors keyed by "content.<path>"
+ */
+export function validateMigratedLessonContent(
+  input: unknown
+): LessonContentValidationResult {
+  const result = migratedLessonContentSchema.safeParse(input)
+  if (!result.success) {
+    return {
+      success: false,
+      fieldErrors: toFieldErrors(result.error, "content")
+    }
+  }
+  return { success: true, data: result.data }
+}
+
+/**
+ * Lists the vocabulary words that still need an English meaning.
+ * @param content - Lesson content in the current format
+ * @returns {string[]} The Kannada words without a meaning, in lesson order
+ */
+export function findUnglossedVocabulary(content: LessonContent): string[] {
+  return content.vocabulary
+    .filter(item => !item.english.trim())
+    .map(item => item.kannada)
+}
+
+/**
+ * Returns an empty lesson document in the current format.
+ */
+export function createEmptyLessonContent(): LessonContent {
+  return {
+    version: CURRENT_LESSON_CONTENT_VERSION,
+    grammarNotes: [],
+    vocabulary: [],
+    examples: [],
+    dialogues: [],
+    culturalNotes: []
+  }
+}
+
+/**
+ * Whether stored content already declares the current format version.
+ * @param raw - Content as read from the database
+ */
+export function isCurrentLessonContent(raw: unknown): boolean {
+  return isRecord(raw) && raw.version === CURRENT_LESSON_CONTENT_VERSION
+}
+
+/**
+ * Maps stored content of any known version onto the current document shape.
+ * Legacy rows were unversioned objects such as { grammar: "...", vocab: [...] }.
+ * The result is not validated; callers decide whether to validate or filter.
+ * @param raw - Content as read from the database
+ * @returns {Record<string, unknown>} Content shaped like the current version
+ */
+export function upgradeLessonContent(raw: unknown): Record<string, unknown> {
+  if (isCurrentLessonContent(raw)) {
+    return raw as Record<string, unknown>
+  }
+
+  const legacy = isRecord(raw) ? raw : {}
+
+  return {
+    version: CURRENT_LESSON_CONTENT_VERSION,
+    summary: firstString(legacy.summary, legacy.description),
+    grammarNotes: toArray(legacy.grammarNotes ?? legacy.grammar).map(entry =>
+      typeof entry === "string"
+        ? { title: "Grammar", explanation: entry }
+        : entry
+    ),
+    vocabulary: toArray(legacy.vocabulary ?? legacy.vocab).map(entry =>
+      typeof entry === "string" ? { kannada: entry, english: "" } : entry
+    ),
+    examples: toArray(legacy.examples ?? legacy.sentences),
+    dialogues: toArray(legacy.dialogues),
+    culturalNotes: toArray(legacy.culturalNotes ?? legacy.culture).map(entry =>
+      typeof entry === "string" ? { title: "Culture", body: entry } : entry
+    )
+  }
+}
+
+/**
+ * Reads stored content for display. Legacy content is upgraded and any entry
+ * that fails validation is dropped, so a single bad row never breaks a page.
+ * Vocabulary without an English meaning is kept so authors can add one.
+ * @param raw - Content as read from the database
+ * @returns {LessonContent} Displayable content in the current format
+ */
+export function readLessonContent(raw: unknown): LessonContent {
+  const upgraded = upgradeLessonContent(raw)
+
+  return {
+    version: CURRENT_LESSON_CONTENT_VERSION,
+    summary:
+      typeof upgraded.summary === "string" && upgraded.summary.trim()
+        ? upgraded.summary
+        : undefined,
+    grammarNotes: keepValid(upgraded.grammarNotes, grammarNoteSchema),
+    vocabulary: keepValid(upgraded.vocabulary, unglossedVocabularyItemSchema),
+    examples: keepValid(upgraded.examples, exampleSentenceSchema),
+    dialogues: keepValid(upgraded.dialogues, dialogueSchema),
+    culturalNotes: keepValid(upgraded.culturalNotes, culturalNoteSchema)
+  }
+}
+
+function keepValid<T>(entries: unknown, schema: z.ZodType<T>): T[] {
+  return toArray(entries).flatMap(entry => {
+    const result = schema.safeParse(entry)
+    return result.success ? [result.data] : []
+  })
+}
+
+function toArray(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value
+  if (value === undefined || value === null) return []
+  return [value]
+}
+
+function firstString(...values: unknown[]): string | undefined {
+  return values.find(
+    (value): value is string => typeof value === "string" && !!value.trim()
+  )
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
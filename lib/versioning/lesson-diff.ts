@@ -0,0 +1,94 @@
+/**
+ * @description
+ * Field-level diffs between lesson revision snapshots for the content studio.
+ * Snapshots are flattened to dotted paths so any change in the lesson document
+ * or its exercises shows up as one added, removed or changed entry.
+ *
+ * Key features:
+ * - Works on any JSON-shaped snapshot; no per-section code to maintain
+ * - Exercises are matched by ID, so reordering does not read as a rewrite
+ *
+ * @dependencies
+ * - @/types: LessonRevisionSnapshot and LessonRevisionChange types
+ *
+ * @notes
+ * - Content arrays are compared by index; inserting an entry mid-list shows later entries as changed
+ * - Values are stringified for display; objects never appear as values, only their leaves
+ */
+
+import { LessonRevisionChange, LessonRevisionSnapshot } from "@/types"
+
+/**
+ * Lists every field that differs between two snapshots.
+ * @param before - The older snapshot, or null when comparing against nothing
+ * @param after - The newer snapshot
+ * @returns {LessonRevisionChange[]} Changes in the order fields appear in the snapshots
+ */
+export function diffLessonRevisions(
+  before: LessonRevisionSnapshot | null,
+  after: LessonRevisionSnapshot
+): LessonRevisionChange[] {
+  const beforeFields = before ? flattenSnapshot(before) : new Map()
+  const afterFields = flattenSnapshot(after)
+  const changes: LessonRevisionChange[] = []
+
+  for (const [path, value] of afterFields) {
+    const previous = beforeFields.get(path)
+    if (previous === undefined) {
+      changes.push({ path, kind: "added", after: value })
+    } else if (previous !== value) {
+      changes.push({ path, kind: "changed", before: previous, after: value })
+    }
+  }
+
+  for (const [path, value] of beforeFields) {
+    if (!afterFields.has(path)) {
+      changes.push({ path, kind: "removed", before: value })
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Flattens a snapshot into leaf values keyed by dotted path.
+ */
+function flattenSnapshot(
+  snapshot: LessonRevisionSnapshot
+): Map<string, string> {
+  const fields = new Map<string, string>()
+
+  flatten({ title: snapshot.title, level: snapshot.level }, "", fields)
+  flatten(snapshot.content, "content", fields)
+  for (const exercise of snapshot.exercises) {
+    flatten(
+      { type: exercise.type, content: exercise.content },
+      `exercises.${exercise.id}`,
+      fields
+    )
+  }
+
+  return fields
+}
+
+function flatten(value: unknown, path: string, fields: Map<string, string>) {
+  if (value === undefined || value === null) return
+
+  if (Array.isArray(value)) {
+    value.forEach((entry, index) => flatten(entry, join(path, index), fields))
+    return
+  }
+
+  if (typeof value === "object") {
+    for (const [key, entry] of Object.entries(value)) {
+      flatten(entry, join(path, key), fields)
+    }
+    return
+  }
+
+  fields.set(path, String(value))
+}
+
+function join(path: string, key: string | number): string {
+  return path ? `${path}.${key}` : String(key)
+}
@@ -0,0 +1,67 @@
+/**
+ * @description
+ * Extracts the vocabulary a lesson teaches from its content document, for the
+ * vocabulary table of the Learn Kannada app.
+ *
+ * Key features:
+ * - One entry per distinct Kannada word, in the order the lesson lists them
+ * - Finds an example sentence for each word among the lesson's examples, dialogues and grammar notes
+ * - Skips words that have no English meaning yet (migrated legacy vocabulary), as they cannot be reviewed
+ *
+ * @dependencies
+ * - @/lib/kannada/akshara: normalizeKannada for matching words and sentences
+ * - @/types: Lesson content and vocabulary types
+ *
+ * @notes
+ * - Words are matched in sentences as written; inflected forms (e.g. ಮನೆಗೆ for ಮನೆ) count,
+ *   as the stem appears in them
+ */
+
+import { normalizeKannada } from "@/lib/kannada/akshara"
+import { ExampleSentence, LessonContent, VocabularyWord } from "@/types"
+
+/**
+ * A word as extracted from a lesson, before it is stored.
+ */
+export type LessonVocabularyEntry = Omit<VocabularyWord, "id" | "lessonId"> & {
+  position: number // Order within the lesson
+}
+
+/**
+ * Lists the words a lesson teaches.
+ * @param content - The lesson's content document
+ * @returns {LessonVocabularyEntry[]} Words in lesson order, with an example sentence when one uses them
+ */
+export function extractLessonVocabulary(
+  content: LessonContent
+): LessonVocabularyEntry[] {
+  const sentences: ExampleSentence[] = [
+    ...content.examples,
+    ...content.dialogues.flatMap(dialogue => dialogue.lines),
+    ...content.grammarNotes.flatMap(note => note.examples ?? [])
+  ]
+
+  const seen = new Set<string>()
+  return content.vocabulary.flatMap(item => {
+    const kannada = item.kannada.trim()
+    const key = normalizeKannada(kannada)
+    if (!key || seen.has(key) || !item.english.trim()) return []
+    seen.add(key)
+
+    const example = sentences.find(sentence =>
+      normalizeKannada(sentence.kannada).includes(key)
+    )
+    return [
+      {
+        kannada,
+        transliteration: item.transliteration ?? null,
+        english: item.english.trim(),
+        partOfSpeech: item.partOfSpeech ?? null,
+        audioUrl: item.audioUrl ?? null,
+        exampleKannada: example?.kannada ?? null,
+        exampleEnglish: example?.english ?? null,
+        position: seen.size - 1
+      }
+    ]
+  })
+}
@@ -0,0 +1,147 @@
+/**
+ * @description
+ * SM-2 spaced-repetition scheduling for vocabulary flashcards in the Learn Kannada app.
+ * Learners rate their recall of each card, and the rating sets when the card comes back.
+ *
+ * Key features:
+ * - scheduleVocabularyReview: the card's next schedule after a rating
+ * - previewIntervals: the interval each rating would give, for the rating buttons
+ * - Daily limits for new words and reviews
+ *
+ * @dependencies
+ * - @/types: RecallRating and VocabularyReviewState types
+ *
+ * @notes
+ * - Follows SM-2 with four ratings, as popularized by Anki: "again" restarts the card,
+ *   "hard" and "easy" lower and raise the ease factor
+ * - A forgotten card is due again straight away, so it comes back in the same session
+ */
+
+import { RecallRating, VocabularyReviewState } from "@/types"
+
+/**
+ * New words introduced per day.
+ */
+export const DAILY_NEW_WORD_LIMIT = 10
+
+/**
+ * Due cards served per day.
+ */
+export const DAILY_REVIEW_LIMIT = 100
+
+/**
+ * Ease factor of a card seen for the first time.
+ */
+export const INITIAL_EASE_FACTOR = 2.5
+
+/**
+ * Lowest ease factor; below it cards would come back too often to make progress.
+ */
+export const MIN_EASE_FACTOR = 1.3
+
+// Change to the ease factor for each rating
+const EASE_CHANGE: Record<RecallRating, number> = {
+  again: -0.2,
+  hard: -0.15,
+  good: 0,
+  easy: 0.15
+}
+
+// Extra interval multiplier for hard and easy answers
+const HARD_MULTIPLIER = 1.2
+const EASY_BONUS = 1.3
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Works out a card's schedule after the learner rates their recall.
+ * @param current - The card's schedule, or null for a new card
+ * @param rating - How well the learner recalled it
+ * @param now - When the card was reviewed
+ * @returns {VocabularyReviewState} The new schedule
+ */
+export function scheduleVocabularyReview(
+  current: VocabularyReviewState | null,
+  rating: RecallRating,
+  now: Date
+): VocabularyReviewState {
+  const previous = current ?? {
+    easeFactor: INITIAL_EASE_FACTOR,
+    intervalDays: 0,
+    repetitions: 0,
+    lapses: 0,
+    dueAt: now
+  }
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    round2(previous.easeFactor + EASE_CHANGE[rating])
+  )
+
+  if (rating === "again") {
+    return {
+      easeFactor,
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: previous.lapses + (current ? 1 : 0),
+      dueAt: now
+    }
+  }
+
+  const intervalDays = nextInterval(previous, rating, easeFactor)
+  return {
+    easeFactor,
+    intervalDays,
+    repetitions: previous.repetitions + 1,
+    lapses: previous.lapses,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS)
+  }
+}
+
+/**
+ * Lists the interval in days each rating would give a card.
+ * @param current - The card's schedule, or null for a new card
+ * @returns {Record<RecallRating, number>} Days until the card is due again, per rating
+ */
+export function previewIntervals(
+  current: VocabularyReviewState | null
+): Record<RecallRating, number> {
+  const now = new Date(0)
+  const ratings: RecallRating[] = ["again", "hard", "good", "easy"]
+  return Object.fromEntries(
+    ratings.map(rating => [
+      rating,
+      scheduleVocabularyReview(current, rating, now).intervalDays
+    ])
+  ) as Record<RecallRating, number>
+}
+
+function nextInterval(
+  previous: VocabularyReviewState,
+  rating: Exclude<RecallRating, "again">,
+  easeFactor: number
+): number {
+  const { repetitions, intervalDays } = previous
+  const good =
+    repetitions === 0
+      ? 1
+      : repetitions === 1
+        ? 6
+        : Math.round(intervalDays * easeFactor)
+
+  switch (rating) {
+    case "hard":
+      return repetitions === 0
+        ? 1
+        : Math.max(intervalDays + 1, Math.round(intervalDays * HARD_MULTIPLIER))
+    case "good":
+      return good
+    case "easy":
+      return repetitions === 0
+        ? 4
+        : Math.max(good + 1, Math.round(good * EASY_BONUS))
+  }
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
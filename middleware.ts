@@ -14,7 +14,9 @@
  * - next/server: Provides NextResponse for handling HTTP responses
  *
  * @notes
- * - Protected routes include /learn, /practice, /dashboard, and /community with all sub-routes
+ * - Protected routes include /learn, /practice, /dashboard, /community, /admin, /review, /vocabulary, /tutor
+ *   and /roleplay with all sub-routes
+ * - /admin additionally requires the admin role, which is checked in app/admin/layout.tsx
  * - The matcher config ensures middleware applies to all relevant app routes
  * - Does not expose environment variables per project rules
  */
@@ -29,7 +31,12 @@ const isProtectedRoute = createRouteMatcher([
   "/learn(.*)",         // Protects all learning module routes
   "/practice(.*)",      // Protects all interactive exercise routes
   "/dashboard(.*)",     // Protects the user dashboard and its sub-routes
-  "/community(.*)"      // Protects community features like chat and tutors
+  "/community(.*)",     // Protects community features like chat and tutors
+  "/admin(.*)",         // Protects the content authoring studio
+  "/review(.*)",        // Protects the mistake review queue
+  "/vocabulary(.*)",    // Protects the vocabulary reviews
+  "/tutor(.*)",         // Protects the tutor chat and its saved conversations
+  "/roleplay(.*)"       // Protects the role-play scenarios
 ])
 
 /**
@@ -0,0 +1,71 @@
+/**
+ * @description
+ * Unit tests for AI server actions in the Learn Kannada app.
+ */
+import { getGrammarExplanationAction } from "@/actions/ai-actions"
+import { GRAMMAR_SENTENCE_MAX_LENGTH } from "@/lib/ai/grammar-feedback"
+import { getLLMProvider } from "@/lib/ai/llm-provider"
+
+const mockAuth = jest.fn()
+jest.mock("@clerk/nextjs/server", () => ({ auth: () => mockAuth() }))
+
+jest.mock("@/lib/ai/llm-provider", () => ({
+  getLLMProvider: jest.fn()
+}))
+
+jest.mock("@/db/db", () => ({ db: {} }))
+
+describe("AI Server Actions", () => {
+  const complete = jest.fn()
+
+  beforeEach(() => {
+    jest.resetAllMocks()
+    mockAuth.mockResolvedValue({ userId: "user123" })
+    ;(getLLMProvider as jest.Mock).mockReturnValue({ complete })
+  })
+
+  describe("getGrammarExplanationAction", () => {
+    it("should require a signed-in learner", async () => {
+      mockAuth.mockResolvedValue({ userId: null })
+
+      const result = await getGrammarExplanationAction("ನಾನು ಮನೆ ಹೋಗುತ್ತೇನೆ")
+
+      expect(result).toEqual({
+        isSuccess: false,
+        message: "Unauthorized: Please sign in to check your grammar"
+      })
+      expect(complete).not.toHaveBeenCalled()
+    })
+
+    it("should reject sentences over the length limit", async () => {
+      const result = await getGrammarExplanationAction(
+        "ಮ".repeat(GRAMMAR_SENTENCE_MAX_LENGTH + 1)
+      )
+
+      expect(result).toEqual({
+        isSuccess: false,
+        message: `Sentences can be at most ${GRAMMAR_SENTENCE_MAX_LENGTH} characters`
+      })
+      expect(complete).not.toHaveBeenCalled()
+    })
+
+    it("should return the model's feedback on the sentence", async () => {
+      complete.mockResolvedValue({
+        content: JSON.stringify({
+          errors: [],
+          correctedSentence: "ನಾನು ಮನೆಗೆ ಹೋಗುತ್ತೇನೆ",
+          summary: "Looks good."
+        })
+      })
+
+      const result = await getGrammarExplanationAction("ನಾನು ಮನೆಗೆ ಹೋಗುತ್ತೇನೆ")
+
+      expect(complete).toHaveBeenCalledWith(
+        expect.objectContaining({ task: "grammar-explanation", json: true })
+      )
+      expect(result.isSuccess && result.data.correctedSentence).toBe(
+        "ನಾನು ಮನೆಗೆ ಹೋಗುತ್ತೇನೆ"
+      )
+    })
+  })
+})
@@ -0,0 +1,239 @@
+/**
+ * @description
+ * Unit tests for curriculum bundle import server actions in the Learn Kannada app.
+ */
+import { importCurriculumBundleAction } from "@/actions/db/curriculum-bundle-actions"
+import {
+  publishLessonRevisionAction,
+  recordLessonRevisionAction
+} from "@/actions/db/lesson-revisions-actions"
+import { db } from "@/db/db"
+import { exercisesTable } from "@/db/schema/exercises-schema"
+import { lessonsTable } from "@/db/schema/lessons-schema"
+import { unitsTable } from "@/db/schema/units-schema"
+import { ADMIN_REQUIRED_MESSAGE, getAdminUserId } from "@/lib/auth/admin"
+import { BundleLesson, CurriculumBundle } from "@/types"
+import { mockQuery } from "./drizzle-mock"
+
+jest.mock("@/actions/db/lesson-revisions-actions", () => ({
+  publishLessonRevisionAction: jest.fn(),
+  recordLessonRevisionAction: jest.fn()
+}))
+
+jest.mock("@/lib/auth/admin", () => ({
+  ...jest.requireActual("@/lib/auth/admin"),
+  getAdminUserId: jest.fn()
+}))
+
+jest.mock("@/db/db", () => ({
+  db: {
+    select: jest.fn(),
+    insert: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+    transaction: jest.fn()
+  }
+}))
+
+describe("Curriculum Bundle Server Actions", () => {
+  const createdAt = new Date("2024-05-01T09:00:00Z")
+  const lesson: BundleLesson = {
+    slug: "intro",
+    title: "Introductions",
+    level: "beginner",
+    unit: "basics",
+    position: 0,
+    prerequisites: [],
+    content: {
+      version: 1,
+      grammarNotes: [],
+      vocabulary: [],
+      examples: [],
+      dialogues: [],
+      culturalNotes: []
+    },
+    exercises: [
+      {
+        slug: "quiz",
+        type: "quiz",
+        content: {
+          question: "Hello?",
+          options: ["ನಮಸ್ಕಾರ", "ಹೋಗಿ ಬನ್ನಿ"],
+          correctAnswer: "ನಮಸ್ಕಾರ"
+        }
+      }
+    ]
+  }
+  const bundle: CurriculumBundle = {
+    format: "learn-kannada-curriculum",
+    version: 1,
+    units: [{ slug: "basics", title: "Basics", position: 0 }],
+    lessons: [lesson]
+  }
+
+  // Queues the four reads of the stored curriculum: units, lessons, exercises and prerequisites
+  const queueStoredCurriculum = (stored: "empty" | "bundle") => {
+    const rows =
+      stored === "empty"
+        ? [[], [], [], []]
+        : [
+            [
+              {
+                id: "unit123",
+                slug: "basics",
+                title: "Basics",
+                description: null,
+                position: 0,
+                createdAt,
+                updatedAt: createdAt
+              }
+            ],
+            [
+              {
+                id: "lesson123",
+                slug: "intro",
+                level: "beginner",
+                title: "Introductions",
+                content: lesson.content,
+                unitId: "unit123",
+                position: 0,
+                publishStatus: "published",
+                publishedRevisionId: "revision123",
+                createdAt,
+                updatedAt: createdAt
+              }
+            ],
+            [
+              {
+                id: "exercise123",
+                lessonId: "lesson123",
+                ...lesson.exercises[0],
+                createdAt,
+                updatedAt: createdAt
+              }
+            ],
+            []
+          ]
+    for (const result of rows) {
+      ;(db.select as jest.Mock).mockReturnValueOnce(mockQuery(result))
+    }
+  }
+
+  beforeEach(() => {
+    jest.resetAllMocks()
+    ;(getAdminUserId as jest.Mock).mockResolvedValue("admin123")
+    ;(db.transaction as jest.Mock).mockImplementation(run => run(db))
+    ;(db.delete as jest.Mock).mockReturnValue(mockQuery())
+  })
+
+  describe("importCurriculumBundleAction", () => {
+    it("should reject callers who are not admins", async () => {
+      ;(getAdminUserId as jest.Mock).mockResolvedValue(null)
+
+      const result = await importCurriculumBundleAction({
+        bundle: JSON.stringify(bundle),
+        dryRun: false
+      })
+
+      expect(result).toEqual({
+        isSuccess: false,
+        message: ADMIN_REQUIRED_MESSAGE
+      })
+      expect(db.select).not.toHaveBeenCalled()
+    })
+
+    it("should report the changes of a dry run without writing them", async () => {
+      queueStoredCurriculum("empty")
+
+      const result = await importCurriculumBundleAction({
+        bundle: JSON.stringify(bundle)
+      })
+
+      expect(result).toEqual({
+        isSuccess: true,
+        message: "Dry run: 3 change(s) would be imported",
+        data: {
+          dryRun: true,
+          items: [
+            { kind: "unit", slug: "basics", action: "create" },
+            { kind: "lesson", slug: "intro", action: "create" },
+            { kind: "exercise", slug: "intro/quiz", action: "create" }
+          ],
+          errors: []
+        }
+      })
+      expect(db.transaction).not.toHaveBeenCalled()
+    })
+
+    it("should create the bundle's rows, with new lessons as drafts, and publish them", async () => {
+      queueStoredCurriculum("empty")
+      const unitInsert = mockQuery([{ id: "unit123" }])
+      const lessonInsert = mockQuery([{ id: "lesson123" }])
+      const exerciseInsert = mockQuery()
+      ;(db.insert as jest.Mock)
+        .mockReturnValueOnce(unitInsert)
+        .mockReturnValueOnce(lessonInsert)
+        .mockReturnValueOnce(exerciseInsert)
+      ;(recordLessonRevisionAction as jest.Mock).mockResolvedValue({
+        isSuccess: true,
+        message: "Lesson revision recorded",
+        data: { id: "revision123" }
+      })
+
+      const result = await importCurriculumBundleAction({
+        bundle: JSON.stringify(bundle),
+        dryRun: false,
+        publish: true
+      })
+
+      expect(db.insert).toHaveBeenNthCalledWith(1, unitsTable)
+      expect(db.insert).toHaveBeenNthCalledWith(2, lessonsTable)
+      expect(lessonInsert.values).toHaveBeenCalledWith(
+        expect.objectContaining({
+          slug: "intro",
+          unitId: "unit123",
+          publishStatus: "draft"
+        })
+      )
+      expect(db.insert).toHaveBeenNthCalledWith(3, exercisesTable)
+      expect(exerciseInsert.values).toHaveBeenCalledWith({
+        lessonId: "lesson123",
+        ...lesson.exercises[0]
+      })
+      expect(recordLessonRevisionAction).toHaveBeenCalledWith("lesson123")
+      expect(publishLessonRevisionAction).toHaveBeenCalledWith(
+        "lesson123",
+        "revision123"
+      )
+      expect(result.isSuccess && result.message).toBe("Imported 3 change(s)")
+    })
+
+    it("should change nothing when the bundle matches the stored curriculum", async () => {
+      queueStoredCurriculum("bundle")
+
+      const result = await importCurriculumBundleAction({
+        bundle: JSON.stringify(bundle),
+        dryRun: false,
+        publish: true
+      })
+
+      expect(db.insert).not.toHaveBeenCalled()
+      expect(db.update).not.toHaveBeenCalled()
+      expect(db.delete).not.toHaveBeenCalled()
+      expect(recordLessonRevisionAction).not.toHaveBeenCalled()
+      expect(result.isSuccess && result.message).toBe("Imported 0 change(s)")
+    })
+
+    it("should import nothing from a bundle with problems", async () => {
+      queueStoredCurriculum("empty")
+
+      const result = await importCurriculumBundleAction({
+        bundle: "{ not json",
+        dryRun: false
+      })
+
+      expect(result.isSuccess && result.data.errors.length).toBeGreaterThan(0)
+      expect(db.transaction).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,61 @@
+/**
+ * @description
+ * Drizzle query mocks shared by the server action tests of the Learn Kannada app.
+ *
+ * Key features:
+ * - mockQuery: a query chain whose builder steps return the chain and which resolves to the given rows
+ * - mockFailingQuery: the same chain, rejecting with an error
+ *
+ * @notes
+ * - Queue chains in call order, e.g. (db.select as jest.Mock).mockReturnValueOnce(mockQuery([row]))
+ * - Run transactions against the mocked db: (db.transaction as jest.Mock).mockImplementation(run => run(db))
+ */
+
+export type MockQuery = Record<string, jest.Mock>
+
+const STEPS = [
+  "from",
+  "where",
+  "innerJoin",
+  "leftJoin",
+  "orderBy",
+  "groupBy",
+  "limit",
+  "offset",
+  "for",
+  "set",
+  "values",
+  "returning",
+  "onConflictDoUpdate",
+  "onConflictDoNothing"
+]
+
+/**
+ * A query chain resolving to `rows`.
+ * @param rows - What awaiting the query returns
+ * @returns {MockQuery} The chain; assert on its steps, e.g. query.values
+ */
+export function mockQuery(rows: unknown = []): MockQuery {
+  return buildQuery(() => Promise.resolve(rows))
+}
+
+/**
+ * A query chain rejecting with `error`.
+ * @param error - What awaiting the query throws
+ * @returns {MockQuery} The chain
+ */
+export function mockFailingQuery(error = new Error("DB Error")): MockQuery {
+  return buildQuery(() => Promise.reject(error))
+}
+
+function buildQuery(run: () => Promise<unknown>): MockQuery {
+  const query: MockQuery = {
+    then: jest.fn((onFulfilled, onRejected) =>
+      run().then(onFulfilled, onRejected)
+    )
+  }
+  for (const step of STEPS) {
+    query[step] = jest.fn(() => query)
+  }
+  return query
+}
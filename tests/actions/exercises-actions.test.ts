@@ -8,12 +8,30 @@ import {
     submitExerciseAction
   } from "@/actions/db/exercises-actions"
   import { db } from "@/db/db"
+  import { exerciseAttemptsTable } from "@/db/schema/exercise-attempts-schema"
   import { InsertExercise, SelectExercise, exercisesTable } from "@/db/schema/exercises-schema"
+  import { progressTable } from "@/db/schema/progress-schema"
+  import { getAdminUserId } from "@/lib/auth/admin"
+  import { loadPublishedExercises } from "@/lib/exercises/published-exercises"
+  import { mockFailingQuery, mockQuery } from "./drizzle-mock"
+  
+  const mockAuth = jest.fn()
+  jest.mock("@clerk/nextjs/server", () => ({ auth: () => mockAuth() }))
+  
+  jest.mock("@/actions/db/lesson-revisions-actions", () => ({ recordLessonRevisionAction: jest.fn() }))
+  
+  jest.mock("@/lib/auth/admin", () => ({
+    ADMIN_REQUIRED_MESSAGE: "Forbidden: Admin access required",
+    getAdminUserId: jest.fn().mockResolvedValue("admin123")
+  }))
+  
+  jest.mock("@/lib/exercises/published-exercises", () => ({ loadPublishedExercises: jest.fn() }))
   
   jest.mock("@/db/db", () => ({
     db: {
       insert: jest.fn(),
-      query: { exercises: { findMany: jest.fn() } },
+      select: jest.fn(),
+      transaction: jest.fn(),
       update: jest.fn()
     }
   }))
@@ -23,11 +41,12 @@ import {
       id: "123e4567-e89b-12d3-a456-426614174000",
       lessonId: "lesson123",
       type: "quiz",
-      content: { question: "What is hello?", options: ["ನಮಸ್ಕಾರ", "Goodbye"], correct: "ನಮಸ್ಕಾರ" }
+      content: { question: "What is hello?", options: ["ನಮಸ್ಕಾರ", "Goodbye"], correctAnswer: "ನಮಸ್ಕಾರ" }
     }
   
     const mockSelectExercise: SelectExercise = {
       ...mockExercise,
+      slug: null,
       createdAt: new Date(),
       updatedAt: new Date(),
       id: mockExercise.id as string
@@ -64,20 +83,28 @@ import {
   
         expect(result).toEqual({
           isSuccess: false,
-          message: "Failed to create exercise"
+          message: "Failed to create exercise due to a server error"
         })
       })
     })
   
     describe("getExercisesByLessonIdAction", () => {
+      it("should require the admin role", async () => {
+        (getAdminUserId as jest.Mock).mockResolvedValueOnce(null)
+
+        const result = await getExercisesByLessonIdAction(mockExercise.lessonId)
+
+        expect(result).toEqual({ isSuccess: false, message: "Forbidden: Admin access required" })
+      })
+
       it("should retrieve exercises successfully", async () => {
-        (db.query.exercises.findMany as jest.Mock).mockResolvedValue([mockSelectExercise])
+        const query = mockQuery([mockSelectExercise])
+        ;(db.select as jest.Mock).mockReturnValueOnce(query)
   
         const result = await getExercisesByLessonIdAction(mockExercise.lessonId)
   
-        expect(db.query.exercises.findMany).toHaveBeenCalledWith({
-          where: expect.any(Function)
-        })
+        expect(query.from).toHaveBeenCalledWith(exercisesTable)
+        expect(query.where).toHaveBeenCalled()
         expect(result).toEqual({
           isSuccess: true,
           message: "Exercises retrieved successfully",
@@ -86,43 +113,224 @@ import {
       })
   
       it("should handle retrieval error", async () => {
-        (db.query.exercises.findMany as jest.Mock).mockRejectedValue(new Error("DB Error"))
+        (db.select as jest.Mock).mockReturnValueOnce(mockFailingQuery())
   
         const result = await getExercisesByLessonIdAction(mockExercise.lessonId)
   
         expect(result).toEqual({
           isSuccess: false,
-          message: "Failed to get exercises"
+          message: "Failed to retrieve exercises due to a server error"
         })
       })
     })
   
     describe("submitExerciseAction", () => {
+      beforeEach(() => {
+        (db.select as jest.Mock).mockReset()
+        ;(db.insert as jest.Mock).mockReset()
+        ;(db.update as jest.Mock).mockReset().mockReturnValue(mockQuery())
+        ;(db.transaction as jest.Mock).mockReset().mockImplementation(run => run(db))
+        ;(loadPublishedExercises as jest.Mock).mockResolvedValue(
+          new Map([[mockSelectExercise.id, { ...mockSelectExercise, lessonRevisionId: null }]])
+        )
+        mockAuth.mockResolvedValue({ userId: "user123" })
+      })
+  
       it("should submit an exercise and score correctly", async () => {
-        (db.query.exercises.findMany as jest.Mock).mockResolvedValue([mockSelectExercise])
-        (db.update as jest.Mock).mockReturnValue({
-          set: jest.fn().mockReturnThis(),
-          where: jest.fn().mockReturnThis(),
-          returning: jest.fn().mockResolvedValue([mockSelectExercise])
-        })
+        ;(db.select as jest.Mock)
+          .mockReturnValueOnce(mockQuery([{ lessonId: "lesson123" }]))
+          .mockReturnValueOnce(
+            mockQuery([{ level: "beginner", publishStatus: "published", publishedRevisionId: null }])
+          )
+          .mockReturnValueOnce(mockQuery([]))
+          .mockReturnValueOnce(mockQuery([{ best: null }]))
+          .mockReturnValueOnce(mockQuery([]))
+        ;(db.insert as jest.Mock).mockReturnValueOnce(mockQuery([{ id: "attempt123" }])).mockReturnValue(mockQuery())
   
-        const submission = { answer: "ನಮಸ್ಕಾರ" }
-        const result = await submitExerciseAction(mockExercise.id as string, submission)
+        const result = await submitExerciseAction(mockExercise.id as string, "ನಮಸ್ಕಾರ")
   
         expect(result.isSuccess).toBe(true)
         expect(result.message).toBe("Exercise submitted successfully")
-        expect(result.data).toHaveProperty("score", 100)
+        expect(result.data).toHaveProperty("score", 1)
       })
   
       it("should handle submission error", async () => {
-        (db.query.exercises.findMany as jest.Mock).mockRejectedValue(new Error("DB Error"))
+        (db.select as jest.Mock).mockReturnValueOnce(mockFailingQuery())
   
-        const result = await submitExerciseAction(mockExercise.id as string, { answer: "Wrong" })
+        const result = await submitExerciseAction(mockExercise.id as string, "Wrong")
   
         expect(result).toEqual({
           isSuccess: false,
-          message: "Failed to submit exercise"
+          message: "Failed to submit exercise due to a server error"
         })
       })
     })
-  })
\ No newline at end of file
+  
+    describe("submitExerciseAction transaction", () => {
+      const publishedLesson = { level: "beginner", publishStatus: "published", publishedRevisionId: "revision123" }
+  
+      // Queues the reads of a submission: the exercise's lesson, then the learner's totals, best earlier score and review item
+      const queueSubmission = (progress: unknown[] = [], reviewItem: unknown[] = [], best: number | null = null) => {
+        const totals = mockQuery(progress)
+        ;(db.select as jest.Mock)
+          .mockReturnValueOnce(mockQuery([{ lessonId: "lesson123" }]))
+          .mockReturnValueOnce(mockQuery([publishedLesson]))
+          .mockReturnValueOnce(totals)
+          .mockReturnValueOnce(mockQuery([{ best }]))
+          .mockReturnValueOnce(mockQuery(reviewItem))
+        const attempt = mockQuery([{ id: "attempt123" }])
+        const inserts = mockQuery()
+        ;(db.insert as jest.Mock).mockReturnValueOnce(attempt).mockReturnValue(inserts)
+        return { attempt, totals, inserts }
+      }
+  
+      beforeEach(() => {
+        ;(db.select as jest.Mock).mockReset()
+        ;(db.insert as jest.Mock).mockReset()
+        ;(db.update as jest.Mock).mockReset().mockReturnValue(mockQuery())
+        ;(db.transaction as jest.Mock).mockReset().mockImplementation(run => run(db))
+        ;(loadPublishedExercises as jest.Mock).mockResolvedValue(
+          new Map([
+            [
+              mockSelectExercise.id,
+              { ...mockSelectExercise, lessonRevisionId: "revision123" }
+            ]
+          ])
+        )
+        mockAuth.mockResolvedValue({ userId: "user123" })
+      })
+  
+      it("should require a signed-in learner", async () => {
+        mockAuth.mockResolvedValue({ userId: null })
+  
+        const result = await submitExerciseAction(mockSelectExercise.id, "ನಮಸ್ಕಾರ")
+  
+        expect(result).toEqual({ isSuccess: false, message: "Unauthorized: Please sign in to submit exercises" })
+        expect(db.select).not.toHaveBeenCalled()
+      })
+  
+      it("should record the graded attempt with its details", async () => {
+        const { attempt } = queueSubmission()
+  
+        const result = await submitExerciseAction(mockSelectExercise.id, "ನಮಸ್ಕಾರ", null, {
+          timeTakenMs: 4200.4,
+          hintsUsed: 1
+        })
+  
+        expect(db.transaction).toHaveBeenCalledTimes(1)
+        expect(db.insert).toHaveBeenCalledWith(exerciseAttemptsTable)
+        expect(attempt.values).toHaveBeenCalledWith(
+          expect.objectContaining({
+            userId: "user123",
+            exerciseId: mockSelectExercise.id,
+            exerciseType: "quiz",
+            lessonId: "lesson123",
+            lessonRevisionId: "revision123",
+            response: "ನಮಸ್ಕಾರ",
+            score: 1,
+            timeTakenMs: 4200,
+            hintsUsed: 1
+          })
+        )
+        expect(result.isSuccess && result.data).toEqual(
+          expect.objectContaining({ attemptId: "attempt123", score: 1, lessonRevisionId: "revision123" })
+        )
+      })
+  
+      it("should add the XP to the learner's locked totals and grant badges", async () => {
+        const { totals } = queueSubmission([
+          { id: "progress123", xp: 45, streak: 3, badges: [], updatedAt: new Date() }
+        ])
+        const update = mockQuery()
+        ;(db.update as jest.Mock).mockReturnValueOnce(update)
+  
+        const result = await submitExerciseAction(mockSelectExercise.id, "ನಮಸ್ಕಾರ")
+  
+        expect(totals.for).toHaveBeenCalledWith("update")
+        expect(db.update).toHaveBeenCalledWith(progressTable)
+        expect(update.set).toHaveBeenCalledWith(expect.objectContaining({ xp: 55, streak: 3, badges: ["Learner"] }))
+        expect(result.isSuccess && result.data.reward).toEqual(
+          expect.objectContaining({ xpEarned: 10, totalXp: 55, newBadges: ["Learner"] })
+        )
+      })
+  
+      it("should create the learner's totals on their first submission", async () => {
+        const { inserts } = queueSubmission()
+  
+        await submitExerciseAction(mockSelectExercise.id, "ನಮಸ್ಕಾರ")
+  
+        expect(db.insert).toHaveBeenCalledWith(progressTable)
+        expect(inserts.values).toHaveBeenCalledWith(
+          expect.objectContaining({ userId: "user123", xp: 10, streak: 1, badges: [] })
+        )
+      })
+  
+      it("should award no XP for a wrong answer", async () => {
+        queueSubmission([{ id: "progress123", xp: 45, streak: 3, badges: [], updatedAt: new Date() }])
+  
+        const result = await submitExerciseAction(mockSelectExercise.id, "Goodbye")
+  
+        expect(result.isSuccess && result.data.reward).toEqual(
+          expect.objectContaining({ xpEarned: 0, totalXp: 45, newBadges: [] })
+        )
+      })
+  
+      it("should award no XP again for an exercise already answered correctly", async () => {
+        const { inserts } = queueSubmission(
+          [{ id: "progress123", xp: 45, streak: 3, badges: [], updatedAt: new Date() }],
+          [],
+          1
+        )
+  
+        const result = await submitExerciseAction(mockSelectExercise.id, "ನಮಸ್ಕಾರ")
+  
+        expect(inserts.values).not.toHaveBeenCalledWith(expect.objectContaining({ xp: expect.any(Number) }))
+        expect(result.isSuccess && result.data.reward).toEqual(
+          expect.objectContaining({ xpEarned: 0, totalXp: 45, newBadges: [] })
+        )
+      })
+  
+      it("should award only the improvement on a partly correct earlier attempt", async () => {
+        queueSubmission([{ id: "progress123", xp: 45, streak: 3, badges: [], updatedAt: new Date() }], [], 0.4)
+  
+        const result = await submitExerciseAction(mockSelectExercise.id, "ನಮಸ್ಕಾರ")
+  
+        expect(result.isSuccess && result.data.reward.xpEarned).toBe(6)
+      })
+  
+      it("should grade against the published revision the learner was served", async () => {
+        ;(db.select as jest.Mock)
+          .mockReturnValueOnce(mockQuery([{ lessonId: "lesson123" }]))
+          .mockReturnValueOnce(mockQuery([{ ...publishedLesson, publishedRevisionId: "revision456" }]))
+  
+        const result = await submitExerciseAction(mockSelectExercise.id, "ನಮಸ್ಕಾರ", "revision123")
+  
+        expect(result).toEqual({ isSuccess: false, message: "This lesson has been updated. Reload it to continue." })
+        expect(loadPublishedExercises).not.toHaveBeenCalled()
+        expect(db.transaction).not.toHaveBeenCalled()
+      })
+  
+      it("should not grade exercises of draft lessons", async () => {
+        ;(db.select as jest.Mock)
+          .mockReturnValueOnce(mockQuery([{ lessonId: "lesson123" }]))
+          .mockReturnValueOnce(mockQuery([{ ...publishedLesson, publishStatus: "draft" }]))
+  
+        const result = await submitExerciseAction(mockSelectExercise.id, "ನಮಸ್ಕಾರ")
+  
+        expect(result).toEqual({ isSuccess: false, message: "Exercise not found" })
+        expect(db.transaction).not.toHaveBeenCalled()
+      })
+  
+      it("should record nothing for a response that does not fit the exercise type", async () => {
+        ;(db.select as jest.Mock)
+          .mockReturnValueOnce(mockQuery([{ lessonId: "lesson123" }]))
+          .mockReturnValueOnce(mockQuery([publishedLesson]))
+  
+        const result = await submitExerciseAction(mockSelectExercise.id, ["ನಮಸ್ಕಾರ"])
+  
+        expect(result).toEqual({ isSuccess: false, message: "Response does not match the exercise type" })
+        expect(db.transaction).not.toHaveBeenCalled()
+        expect(db.insert).not.toHaveBeenCalled()
+      })
+    })
+  })
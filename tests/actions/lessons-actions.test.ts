@@ -4,12 +4,26 @@
  */
 import {
     createLessonAction,
-    getLessonAction,
+    getLessonsByLevelAction,
     updateLessonAction,
-    deleteLessonAction
+    deleteLessonAction,
+    migrateLessonContentAction
   } from "@/actions/db/lessons-actions"
+  import { getCurriculumOverviewAction } from "@/actions/db/curriculum-actions"
+  import { recordLessonRevisionAction } from "@/actions/db/lesson-revisions-actions"
   import { db } from "@/db/db"
-  import { lessonsTable } from "@/db/schema/lessons-schema"
+  import { InsertLesson, SelectLesson, lessonsTable } from "@/db/schema/lessons-schema"
+  import { getAdminUserId } from "@/lib/auth/admin"
+  import { CurriculumLesson, LessonStatus } from "@/types"
+  
+  jest.mock("@/actions/db/curriculum-actions", () => ({ getCurriculumOverviewAction: jest.fn() }))
+  
+  jest.mock("@/actions/db/lesson-revisions-actions", () => ({ recordLessonRevisionAction: jest.fn() }))
+  
+  jest.mock("@/lib/auth/admin", () => ({
+    ADMIN_REQUIRED_MESSAGE: "Forbidden: Admin access required",
+    getAdminUserId: jest.fn()
+  }))
   
   jest.mock("@/db/db", () => ({
     db: {
@@ -20,46 +34,51 @@ import {
     }
   }))
   
-  interface InsertLesson {
-    id: string
-    level: "beginner" | "intermediate" | "advanced"
-    title: string
-    content: unknown
-  }
-  
-  interface SelectLesson extends InsertLesson {
-    createdAt: Date
-    updatedAt: Date
-  }
-  
   describe("Lessons Server Actions", () => {
     const mockLesson: InsertLesson = {
       id: "123e4567-e89b-12d3-a456-426614174000",
       level: "beginner",
       title: "Lesson 1",
-      content: { grammar: "Basics", vocab: ["hello"] }
+      content: {
+        version: 1,
+        grammarNotes: [{ title: "Basics", explanation: "Kannada is verb-final (SOV)." }],
+        vocabulary: [{ kannada: "ನಮಸ್ಕಾರ", transliteration: "namaskāra", english: "hello" }],
+        examples: [],
+        dialogues: [],
+        culturalNotes: []
+      }
     }
   
     const mockSelectLesson: SelectLesson = {
       ...mockLesson,
+      id: mockLesson.id as string,
+      slug: null,
+      unitId: null,
+      position: 0,
+      publishStatus: "published",
+      publishedRevisionId: null,
       createdAt: new Date(),
       updatedAt: new Date()
     }
   
     beforeEach(() => {
       jest.clearAllMocks()
+      ;(getAdminUserId as jest.Mock).mockResolvedValue("admin123")
     })
   
     describe("createLessonAction", () => {
       it("should create a lesson successfully", async () => {
-        (db.insert as jest.Mock).mockReturnValue({
-          values: jest.fn().mockReturnThis(),
+        const values = jest.fn().mockReturnThis()
+        ;(db.insert as jest.Mock).mockReturnValue({
+          values,
           returning: jest.fn().mockResolvedValue([mockSelectLesson])
         })
   
         const result = await createLessonAction(mockLesson)
   
         expect(db.insert).toHaveBeenCalledWith(lessonsTable)
+        expect(values).toHaveBeenCalledWith(expect.objectContaining({ publishStatus: "draft" }))
+        expect(recordLessonRevisionAction).toHaveBeenCalledWith(mockSelectLesson.id)
         expect(result).toEqual({
           isSuccess: true,
           message: "Lesson created successfully",
@@ -80,36 +99,140 @@ import {
           message: "Failed to create lesson"
         })
       })
-    })
   
-    describe("getLessonAction", () => {
-      it("should retrieve a lesson successfully", async () => {
-        (db.select as jest.Mock).mockReturnValue({
-          from: jest.fn().mockReturnThis(),
-          where: jest.fn().mockResolvedValue([mockSelectLesson])
-        })
+      it("should reject malformed content with field errors", async () => {
+        const malformed = {
+          ...mockLesson,
+          content: { ...mockLesson.content, vocabulary: [{ kannada: "ನೀರು" }] }
+        } as unknown as InsertLesson
   
-        const result = await getLessonAction(mockLesson.id)
+        const result = await createLessonAction(malformed)
   
+        expect(db.insert).not.toHaveBeenCalled()
+        expect(result.isSuccess).toBe(false)
+        expect(result).toHaveProperty(["fieldErrors", "content.vocabulary.0.english"])
+      })
+
+      it("should reject a blank title", async () => {
+        const result = await createLessonAction({ ...mockLesson, title: "  " })
+
+        expect(db.insert).not.toHaveBeenCalled()
+        expect(result).toHaveProperty(["fieldErrors", "title"])
+      })
+
+      it("should reject callers who are not admins", async () => {
+        (getAdminUserId as jest.Mock).mockResolvedValue(null)
+
+        const result = await createLessonAction(mockLesson)
+
+        expect(db.insert).not.toHaveBeenCalled()
         expect(result).toEqual({
-          isSuccess: true,
-          message: "Lesson retrieved successfully",
-          data: [mockSelectLesson]
+          isSuccess: false,
+          message: "Forbidden: Admin access required"
         })
       })
+    })
   
-      it("should handle retrieval error", async () => {
-        (db.select as jest.Mock).mockReturnValue({
+    describe("getLessonsByLevelAction", () => {
+      const outlineLesson = (id: string, completion: number, status: LessonStatus): CurriculumLesson => ({
+        id,
+        title: id,
+        level: "beginner",
+        unitId: null,
+        position: 0,
+        completion,
+        status,
+        prerequisiteIds: []
+      })
+
+      const mockOverview = (lessons: CurriculumLesson[]) =>
+        (getCurriculumOverviewAction as jest.Mock).mockResolvedValue({
+          isSuccess: true,
+          message: "Curriculum retrieved successfully",
+          data: {
+            levels: [
+              {
+                level: "beginner",
+                units: [{ id: null, title: "More lessons", description: null, position: 0, lessons }],
+                completedCount: 0,
+                totalCount: lessons.length
+              }
+            ],
+            continueLesson: null
+          }
+        })
+
+      it("should return a page of lessons in curriculum order with completion and status", async () => {
+        const outline = Array.from({ length: 13 }, (_, index) => outlineLesson(`lesson-${index}`, 100, "completed"))
+        outline[12] = outlineLesson(mockSelectLesson.id, 40, "available")
+        mockOverview(outline)
+        ;(db.select as jest.Mock).mockReturnValueOnce({
           from: jest.fn().mockReturnThis(),
-          where: jest.fn().mockRejectedValue(new Error("DB Error"))
+          where: jest.fn().mockResolvedValue([mockSelectLesson])
         })
-  
-        const result = await getLessonAction(mockLesson.id)
-  
+
+        const result = await getLessonsByLevelAction({ level: "beginner", page: 2, pageSize: 12 })
+
         expect(result).toEqual({
+          isSuccess: true,
+          message: "Lessons retrieved successfully",
+          data: {
+            items: [{ ...mockSelectLesson, progress: 40, status: "available" }],
+            page: 2,
+            pageSize: 12,
+            total: 13,
+            pageCount: 2
+          }
+        })
+      })
+
+      it("should serve the published revision instead of the working copy", async () => {
+        mockOverview([outlineLesson(mockSelectLesson.id, 0, "available")])
+        const published = {
+          id: "rev-1",
+          title: "Lesson 1 (published)",
+          level: "beginner",
+          content: { ...mockLesson.content, vocabulary: [] }
+        }
+        ;(db.select as jest.Mock)
+          .mockReturnValueOnce({
+            from: jest.fn().mockReturnThis(),
+            where: jest.fn().mockResolvedValue([{ ...mockSelectLesson, publishedRevisionId: "rev-1" }])
+          })
+          .mockReturnValueOnce({
+            from: jest.fn().mockReturnThis(),
+            where: jest.fn().mockResolvedValue([published])
+          })
+
+        const result = await getLessonsByLevelAction({ level: "beginner" })
+
+        expect(result.data?.items[0]).toMatchObject({
+          id: mockSelectLesson.id,
+          title: "Lesson 1 (published)",
+          content: published.content,
+          publishedRevisionId: "rev-1"
+        })
+      })
+
+      it("should skip the lesson lookup when the page is empty", async () => {
+        mockOverview([outlineLesson(mockSelectLesson.id, 0, "available")])
+
+        const result = await getLessonsByLevelAction({ level: "beginner", page: 3 })
+
+        expect(db.select).not.toHaveBeenCalled()
+        expect(result.data?.items).toEqual([])
+        expect(result.data?.total).toBe(1)
+      })
+
+      it("should fail when the curriculum cannot be loaded", async () => {
+        (getCurriculumOverviewAction as jest.Mock).mockResolvedValue({
           isSuccess: false,
-          message: "Failed to get lesson"
+          message: "Failed to get curriculum"
         })
+
+        const result = await getLessonsByLevelAction({ level: "beginner" })
+
+        expect(result).toEqual({ isSuccess: false, message: "Failed to get lessons" })
       })
     })
   
@@ -122,7 +245,7 @@ import {
         })
   
         const updateData = { title: "Updated Lesson" }
-        const result = await updateLessonAction(mockLesson.id, updateData)
+        const result = await updateLessonAction(mockSelectLesson.id, updateData)
   
         expect(db.update).toHaveBeenCalledWith(lessonsTable)
         expect(result).toEqual({
@@ -139,13 +262,23 @@ import {
           returning: jest.fn().mockRejectedValue(new Error("DB Error"))
         })
   
-        const result = await updateLessonAction(mockLesson.id, { title: "Updated" })
+        const result = await updateLessonAction(mockSelectLesson.id, { title: "Updated" })
   
         expect(result).toEqual({
           isSuccess: false,
           message: "Failed to update lesson"
         })
       })
+  
+      it("should reject content without a version", async () => {
+        const result = await updateLessonAction(mockSelectLesson.id, {
+          content: { grammar: "Basics" } as unknown as InsertLesson["content"]
+        })
+  
+        expect(db.update).not.toHaveBeenCalled()
+        expect(result.isSuccess).toBe(false)
+        expect(result).toHaveProperty(["fieldErrors", "content.version"])
+      })
     })
   
     describe("deleteLessonAction", () => {
@@ -154,7 +287,7 @@ import {
           where: jest.fn().mockResolvedValue(undefined)
         })
   
-        const result = await deleteLessonAction(mockLesson.id)
+        const result = await deleteLessonAction(mockSelectLesson.id)
   
         expect(db.delete).toHaveBeenCalledWith(lessonsTable)
         expect(result).toEqual({
@@ -164,12 +297,21 @@ import {
         })
       })
   
+      it("should reject callers who are not admins", async () => {
+        (getAdminUserId as jest.Mock).mockResolvedValue(null)
+
+        const result = await deleteLessonAction(mockSelectLesson.id)
+
+        expect(db.delete).not.toHaveBeenCalled()
+        expect(result.isSuccess).toBe(false)
+      })
+
       it("should handle deletion error", async () => {
         (db.delete as jest.Mock).mockReturnValue({
           where: jest.fn().mockRejectedValue(new Error("DB Error"))
         })
   
-        const result = await deleteLessonAction(mockLesson.id)
+        const result = await deleteLessonAction(mockSelectLesson.id)
   
         expect(result).toEqual({
           isSuccess: false,
@@ -177,4 +319,60 @@ import {
         })
       })
     })
-  })
\ No newline at end of file
+    
+    describe("migrateLessonContentAction", () => {
+      it("should upgrade legacy rows and report rows needing manual fixes", async () => {
+        const update = { set: jest.fn().mockReturnThis(), where: jest.fn().mockResolvedValue(undefined) }
+        ;(db.update as jest.Mock).mockReturnValue(update)
+        ;(db.select as jest.Mock).mockReturnValue({
+          from: jest.fn().mockResolvedValue([
+            { id: "current", content: mockLesson.content },
+            { id: "legacy", content: { grammar: "Verbs come last." } },
+            { id: "broken", content: { dialogues: [{ title: "Greetings", lines: [] }] } }
+          ])
+        })
+  
+        const result = await migrateLessonContentAction({ dryRun: false })
+  
+        expect(result.isSuccess).toBe(true)
+        expect(result.data).toMatchObject({
+          dryRun: false,
+          migrated: ["legacy"],
+          alreadyCurrent: ["current"],
+          failed: [{ lessonId: "broken" }],
+          unglossed: []
+        })
+        expect(update.set).toHaveBeenCalledWith({
+          content: expect.objectContaining({
+            version: 1,
+            grammarNotes: [{ title: "Grammar", explanation: "Verbs come last." }]
+          })
+        })
+        expect(db.update).toHaveBeenCalledTimes(1)
+      })
+  
+      it("should keep legacy vocabulary without a meaning and list it for an author", async () => {
+        const update = { set: jest.fn().mockReturnThis(), where: jest.fn().mockResolvedValue(undefined) }
+        ;(db.update as jest.Mock).mockReturnValue(update)
+        ;(db.select as jest.Mock).mockReturnValue({
+          from: jest.fn().mockResolvedValue([{ id: "legacy", content: { vocab: ["ನೀರು", "ಹಾಲು"] } }])
+        })
+  
+        const result = await migrateLessonContentAction({ dryRun: false })
+  
+        expect(result.isSuccess && result.data).toMatchObject({
+          migrated: ["legacy"],
+          failed: [],
+          unglossed: [{ lessonId: "legacy", words: ["ನೀರು", "ಹಾಲು"] }]
+        })
+        expect(update.set).toHaveBeenCalledWith({
+          content: expect.objectContaining({
+            vocabulary: [
+              { kannada: "ನೀರು", english: "" },
+              { kannada: "ಹಾಲು", english: "" }
+            ]
+          })
+        })
+      })
+    })
+  })
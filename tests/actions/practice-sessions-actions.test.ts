@@ -0,0 +1,234 @@
+/**
+ * @description
+ * Unit tests for practice session server actions in the Learn Kannada app.
+ */
+import { submitExerciseAction } from "@/actions/db/exercises-actions"
+import { submitPracticeAnswerAction } from "@/actions/db/practice-sessions-actions"
+import { db } from "@/db/db"
+import { SelectPracticeSession } from "@/db/schema/practice-sessions-schema"
+import { loadPublishedExercises } from "@/lib/exercises/published-exercises"
+import { mockQuery } from "./drizzle-mock"
+
+const mockAuth = jest.fn()
+jest.mock("@clerk/nextjs/server", () => ({ auth: () => mockAuth() }))
+
+jest.mock("@/actions/db/curriculum-actions", () => ({
+  getCurriculumOverviewAction: jest.fn()
+}))
+
+jest.mock("@/actions/db/exercises-actions", () => ({
+  submitExerciseAction: jest.fn()
+}))
+
+jest.mock("@/lib/exercises/published-exercises", () => ({
+  loadPublishedExercises: jest.fn()
+}))
+
+jest.mock("@/db/db", () => ({
+  db: {
+    select: jest.fn(),
+    transaction: jest.fn(),
+    update: jest.fn()
+  }
+}))
+
+describe("Practice Sessions Server Actions", () => {
+  const createdAt = new Date("2024-05-01T09:00:00Z")
+  const session: SelectPracticeSession = {
+    id: "session123",
+    userId: "user123",
+    exerciseType: null,
+    status: "active",
+    items: [
+      {
+        exerciseId: "exercise1",
+        exerciseType: "quiz",
+        lessonId: "lesson123",
+        lessonRevisionId: "revision123",
+        reason: "lesson"
+      },
+      {
+        exerciseId: "exercise2",
+        exerciseType: "translation",
+        lessonId: "lesson123",
+        lessonRevisionId: "revision123",
+        reason: "review"
+      }
+    ],
+    position: 0,
+    completedAt: null,
+    createdAt,
+    updatedAt: createdAt
+  }
+  const submission = {
+    isSuccess: true,
+    message: "Exercise submitted successfully",
+    data: {
+      attemptId: "attempt123",
+      score: 1,
+      feedback: "Correct!",
+      lessonRevisionId: "revision123",
+      reward: { xpEarned: 10 }
+    }
+  }
+
+  beforeEach(() => {
+    jest.resetAllMocks()
+    mockAuth.mockResolvedValue({ userId: "user123" })
+    ;(db.transaction as jest.Mock).mockImplementation(run => run(db))
+    ;(loadPublishedExercises as jest.Mock).mockResolvedValue(
+      new Map(
+        session.items.map(item => [
+          item.exerciseId,
+          { id: item.exerciseId, lessonRevisionId: "revision456" }
+        ])
+      )
+    )
+  })
+
+  describe("submitPracticeAnswerAction", () => {
+    it("should require a signed-in learner", async () => {
+      mockAuth.mockResolvedValue({ userId: null })
+
+      const result = await submitPracticeAnswerAction(
+        "session123",
+        "exercise1",
+        "ನಮಸ್ಕಾರ"
+      )
+
+      expect(result).toEqual({
+        isSuccess: false,
+        message: "Unauthorized: Please sign in to practise"
+      })
+      expect(db.select).not.toHaveBeenCalled()
+    })
+
+    it("should claim the position, grade the answer and store its result", async () => {
+      const claim = mockQuery([{ id: "session123" }])
+      const save = mockQuery()
+      ;(db.select as jest.Mock)
+        .mockReturnValueOnce(mockQuery([session]))
+        .mockReturnValueOnce(mockQuery([{ items: session.items }]))
+      ;(db.update as jest.Mock)
+        .mockReturnValueOnce(claim)
+        .mockReturnValueOnce(save)
+      ;(submitExerciseAction as jest.Mock).mockResolvedValue(submission)
+
+      const result = await submitPracticeAnswerAction(
+        "session123",
+        "exercise1",
+        "ನಮಸ್ಕಾರ",
+        { hintsUsed: 1 }
+      )
+
+      expect(claim.set).toHaveBeenCalledWith({ position: 1 })
+      expect(loadPublishedExercises).toHaveBeenCalledWith(["lesson123"])
+      expect(submitExerciseAction).toHaveBeenCalledWith(
+        "exercise1",
+        "ನಮಸ್ಕಾರ",
+        "revision456",
+        { hintsUsed: 1 }
+      )
+      expect(save.set).toHaveBeenCalledWith({
+        items: [
+          {
+            ...session.items[0],
+            result: {
+              attemptId: "attempt123",
+              response: "ನಮಸ್ಕಾರ",
+              score: 1,
+              feedback: "Correct!",
+              xpEarned: 10
+            }
+          },
+          session.items[1]
+        ]
+      })
+      expect(result).toEqual(submission)
+    })
+
+    it("should complete the session with its last answer", async () => {
+      const claim = mockQuery([{ id: "session123" }])
+      ;(db.select as jest.Mock)
+        .mockReturnValueOnce(mockQuery([{ ...session, position: 1 }]))
+        .mockReturnValueOnce(mockQuery([{ items: session.items }]))
+      ;(db.update as jest.Mock)
+        .mockReturnValueOnce(claim)
+        .mockReturnValueOnce(mockQuery())
+      ;(submitExerciseAction as jest.Mock).mockResolvedValue(submission)
+
+      await submitPracticeAnswerAction("session123", "exercise2", "hello")
+
+      expect(claim.set).toHaveBeenCalledWith({
+        position: 2,
+        status: "completed",
+        completedAt: expect.any(Date)
+      })
+    })
+
+    it("should not grade an answer whose position was already claimed", async () => {
+      ;(db.select as jest.Mock).mockReturnValueOnce(mockQuery([session]))
+      ;(db.update as jest.Mock).mockReturnValueOnce(mockQuery([]))
+
+      const result = await submitPracticeAnswerAction(
+        "session123",
+        "exercise1",
+        "ನಮಸ್ಕಾರ"
+      )
+
+      expect(result).toEqual({
+        isSuccess: false,
+        message: "This exercise has already been answered"
+      })
+      expect(submitExerciseAction).not.toHaveBeenCalled()
+      expect(db.transaction).not.toHaveBeenCalled()
+    })
+
+    it("should not claim an item whose exercise is no longer published", async () => {
+      ;(db.select as jest.Mock).mockReturnValueOnce(mockQuery([session]))
+      ;(loadPublishedExercises as jest.Mock).mockResolvedValue(new Map())
+
+      const result = await submitPracticeAnswerAction(
+        "session123",
+        "exercise1",
+        "ನಮಸ್ಕಾರ"
+      )
+
+      expect(result).toEqual({
+        isSuccess: false,
+        message: "Exercise not found"
+      })
+      expect(db.update).not.toHaveBeenCalled()
+      expect(submitExerciseAction).not.toHaveBeenCalled()
+    })
+
+    it("should hand the position back when grading fails", async () => {
+      const handBack = mockQuery()
+      ;(db.select as jest.Mock).mockReturnValueOnce(mockQuery([session]))
+      ;(db.update as jest.Mock)
+        .mockReturnValueOnce(mockQuery([{ id: "session123" }]))
+        .mockReturnValueOnce(handBack)
+      ;(submitExerciseAction as jest.Mock).mockResolvedValue({
+        isSuccess: false,
+        message: "Failed to submit exercise"
+      })
+
+      const result = await submitPracticeAnswerAction(
+        "session123",
+        "exercise1",
+        "ನಮಸ್ಕಾರ"
+      )
+
+      expect(handBack.set).toHaveBeenCalledWith({
+        position: 0,
+        status: "active",
+        completedAt: null
+      })
+      expect(db.transaction).not.toHaveBeenCalled()
+      expect(result).toEqual({
+        isSuccess: false,
+        message: "Failed to submit exercise"
+      })
+    })
+  })
+})
@@ -0,0 +1,89 @@
+/**
+ * @description
+ * Unit tests for profile server actions in the Learn Kannada app.
+ */
+import {
+  LearnerProfileUpdate,
+  createProfileAction,
+  updateProfileAction
+} from "@/actions/db/profiles-actions"
+import { db } from "@/db/db"
+import { profilesTable } from "@/db/schema/profiles-schema"
+import { mockQuery } from "./drizzle-mock"
+
+const mockAuth = jest.fn()
+jest.mock("@clerk/nextjs/server", () => ({ auth: () => mockAuth() }))
+
+jest.mock("@/db/db", () => ({
+  db: {
+    insert: jest.fn(),
+    update: jest.fn()
+  }
+}))
+
+describe("Profiles Server Actions", () => {
+  beforeEach(() => {
+    jest.resetAllMocks()
+    mockAuth.mockResolvedValue({ userId: "user123" })
+  })
+
+  describe("updateProfileAction", () => {
+    it("should require a signed-in user", async () => {
+      mockAuth.mockResolvedValue({ userId: null })
+
+      const result = await updateProfileAction({ scriptDisplay: "script" })
+
+      expect(result).toEqual({
+        isSuccess: false,
+        message: "Unauthorized: Please sign in to update your profile"
+      })
+      expect(db.update).not.toHaveBeenCalled()
+    })
+
+    it("should update only the learner's own writable fields", async () => {
+      const update = mockQuery([{ userId: "user123", scriptDisplay: "script" }])
+      ;(db.update as jest.Mock).mockReturnValueOnce(update)
+
+      const result = await updateProfileAction({
+        scriptDisplay: "script",
+        role: "admin",
+        membership: "pro",
+        userId: "someone-else"
+      } as LearnerProfileUpdate)
+
+      expect(db.update).toHaveBeenCalledWith(profilesTable)
+      expect(update.set).toHaveBeenCalledWith({ scriptDisplay: "script" })
+      expect(result.isSuccess).toBe(true)
+    })
+
+    it("should write nothing when no writable field is given", async () => {
+      const result = await updateProfileAction({
+        role: "admin"
+      } as LearnerProfileUpdate)
+
+      expect(result).toEqual({ isSuccess: false, message: "Nothing to update" })
+      expect(db.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("createProfileAction", () => {
+    it("should require a signed-in user", async () => {
+      mockAuth.mockResolvedValue({ userId: null })
+
+      const result = await createProfileAction()
+
+      expect(result.isSuccess).toBe(false)
+      expect(db.insert).not.toHaveBeenCalled()
+    })
+
+    it("should create the signed-in user's profile with the defaults", async () => {
+      const insert = mockQuery([{ userId: "user123", role: "learner" }])
+      ;(db.insert as jest.Mock).mockReturnValueOnce(insert)
+
+      const result = await createProfileAction()
+
+      expect(insert.values).toHaveBeenCalledWith({ userId: "user123" })
+      expect(result.isSuccess).toBe(true)
+    })
+  })
+})
@@ -5,15 +5,28 @@
 import {
     createProgressAction,
     getProgressByUserIdAction,
+    recordLessonCompletionAction,
+    recordRolePlayCompletionAction,
     updateProgressAction
   } from "@/actions/db/progress-actions"
   import { db } from "@/db/db"
   import { InsertProgress, SelectProgress, progressTable } from "@/db/schema/progress-schema"
+  import { SelectRoleplaySession, roleplaySessionsTable } from "@/db/schema/roleplay-sessions-schema"
+  import { PublishedExercise, loadPublishedExercises } from "@/lib/exercises/published-exercises"
+  import { mockFailingQuery, mockQuery } from "./drizzle-mock"
+  
+  const mockAuth = jest.fn()
+  jest.mock("@clerk/nextjs/server", () => ({ auth: () => mockAuth() }))
+  
+  jest.mock("@/lib/exercises/published-exercises", () => ({
+    loadPublishedExercises: jest.fn()
+  }))
   
   jest.mock("@/db/db", () => ({
     db: {
       insert: jest.fn(),
-      query: { progress: { findMany: jest.fn() } },
+      select: jest.fn(),
+      transaction: jest.fn(),
       update: jest.fn()
     }
   }))
@@ -36,7 +49,9 @@ import {
       streak: mockProgress.streak ?? 0,
       lessonId: mockProgress.lessonId || null,
       id: mockProgress.id as string,
-      badges: mockProgress.badges
+      badges: mockProgress.badges,
+      completion: 0,
+      lessonRevisionId: null
     }
   
     beforeEach(() => {
@@ -77,13 +92,13 @@ import {
   
     describe("getProgressByUserIdAction", () => {
       it("should retrieve progress successfully", async () => {
-        (db.query.progress.findMany as jest.Mock).mockResolvedValue([mockSelectProgress])
+        const query = mockQuery([mockSelectProgress])
+        ;(db.select as jest.Mock).mockReturnValueOnce(query)
   
         const result = await getProgressByUserIdAction(mockProgress.userId)
   
-        expect(db.query.progress.findMany).toHaveBeenCalledWith({
-          where: expect.any(Function)
-        })
+        expect(query.from).toHaveBeenCalledWith(progressTable)
+        expect(query.where).toHaveBeenCalled()
         expect(result).toEqual({
           isSuccess: true,
           message: "Progress retrieved successfully",
@@ -92,13 +107,13 @@ import {
       })
   
       it("should handle retrieval error", async () => {
-        (db.query.progress.findMany as jest.Mock).mockRejectedValue(new Error("DB Error"))
+        (db.select as jest.Mock).mockReturnValueOnce(mockFailingQuery())
   
         const result = await getProgressByUserIdAction(mockProgress.userId)
   
         expect(result).toEqual({
           isSuccess: false,
-          message: "Failed to get progress"
+          message: "Failed to retrieve progress"
         })
       })
     })
@@ -137,4 +152,171 @@ import {
         })
       })
     })
+  
+    describe("recordLessonCompletionAction", () => {
+      const exercise = (id: string, type: PublishedExercise["type"]) =>
+        ({ id, type, content: {}, lessonId: "lesson123", lessonRevisionId: "revision123" }) as PublishedExercise
+  
+      beforeEach(() => {
+        (db.select as jest.Mock).mockReset()
+        ;(db.insert as jest.Mock).mockReset()
+        ;(db.update as jest.Mock).mockReset()
+        mockAuth.mockResolvedValue({ userId: "user123" })
+        ;(loadPublishedExercises as jest.Mock).mockResolvedValue(
+          new Map(
+            [exercise("quiz1", "quiz"), exercise("quiz2", "quiz"), exercise("speak1", "speaking")].map(e => [e.id, e])
+          )
+        )
+      })
+  
+      it("should require a signed-in learner", async () => {
+        mockAuth.mockResolvedValueOnce({ userId: null })
+  
+        const result = await recordLessonCompletionAction("lesson123")
+  
+        expect(result).toEqual({
+          isSuccess: false,
+          message: "Unauthorized: Please sign in to record progress"
+        })
+        expect(db.select).not.toHaveBeenCalled()
+      })
+  
+      it("should work out completion from the answers recorded for the published revision", async () => {
+        const insert = mockQuery([mockSelectProgress])
+        ;(db.select as jest.Mock)
+          .mockReturnValueOnce(mockQuery([{ publishedRevisionId: "revision123" }]))
+          .mockReturnValueOnce(mockQuery([{ exerciseId: "quiz1" }]))
+          .mockReturnValueOnce(mockQuery([]))
+        ;(db.insert as jest.Mock).mockReturnValueOnce(insert)
+  
+        const result = await recordLessonCompletionAction("lesson123")
+  
+        expect(insert.values).toHaveBeenCalledWith({
+          userId: "user123",
+          lessonId: "lesson123",
+          completion: 50,
+          lessonRevisionId: "revision123"
+        })
+        expect(result.isSuccess && result.message).toBe("Lesson completion recorded")
+      })
+  
+      it("should not lower a completion recorded before", async () => {
+        ;(db.select as jest.Mock)
+          .mockReturnValueOnce(mockQuery([{ publishedRevisionId: "revision123" }]))
+          .mockReturnValueOnce(mockQuery([]))
+          .mockReturnValueOnce(mockQuery([{ ...mockSelectProgress, completion: 100 }]))
+  
+        const result = await recordLessonCompletionAction("lesson123")
+  
+        expect(db.update).not.toHaveBeenCalled()
+        expect(db.insert).not.toHaveBeenCalled()
+        expect(result.isSuccess && result.message).toBe("Lesson completion unchanged")
+      })
+  
+      it("should not record completion of a lesson that is not published", async () => {
+        ;(db.select as jest.Mock).mockReturnValueOnce(mockQuery([]))
+  
+        const result = await recordLessonCompletionAction("lesson123")
+  
+        expect(result).toEqual({ isSuccess: false, message: "Lesson not found" })
+        expect(db.insert).not.toHaveBeenCalled()
+      })
+    })
+  
+    describe("recordRolePlayCompletionAction", () => {
+      const endedAt = new Date("2024-05-01T09:00:00Z")
+      const mockSession: SelectRoleplaySession = {
+        id: "session123",
+        userId: "user123",
+        conversationId: "conversation123",
+        scenarioId: "darshini-breakfast",
+        achievedGoals: ["greet"],
+        debrief: {
+          score: 80,
+          goalsAchieved: 4,
+          goalsTotal: 5,
+          languageScore: 80,
+          summary: "Clear and polite.",
+          strengths: [],
+          improvements: [],
+          xpEarned: 24
+        },
+        xpAwarded: null,
+        completedAt: endedAt,
+        createdAt: endedAt,
+        updatedAt: endedAt
+      }
+      const mockTotals = { ...mockSelectProgress, lessonId: null, updatedAt: endedAt }
+  
+      beforeEach(() => {
+        (db.select as jest.Mock).mockReset()
+        ;(db.insert as jest.Mock).mockReset()
+        ;(db.update as jest.Mock).mockReset()
+        ;(db.transaction as jest.Mock).mockReset().mockImplementation(run => run(db))
+        mockAuth.mockResolvedValue({ userId: "user123" })
+      })
+  
+      it("should require a signed-in learner", async () => {
+        mockAuth.mockResolvedValueOnce({ userId: null })
+  
+        const result = await recordRolePlayCompletionAction("session123")
+  
+        expect(result).toEqual({
+          isSuccess: false,
+          message: "Unauthorized: Please sign in to record progress"
+        })
+        expect(db.transaction).not.toHaveBeenCalled()
+      })
+  
+      it("should add the debrief's XP to the learner's locked totals once", async () => {
+        const session = mockQuery([mockSession])
+        const totals = mockQuery([mockTotals])
+        const updateTotals = mockQuery()
+        const markAwarded = mockQuery()
+        ;(db.select as jest.Mock).mockReturnValueOnce(session).mockReturnValueOnce(totals)
+        ;(db.update as jest.Mock).mockReturnValueOnce(updateTotals).mockReturnValueOnce(markAwarded)
+  
+        const result = await recordRolePlayCompletionAction("session123")
+  
+        expect(session.for).toHaveBeenCalledWith("update")
+        expect(totals.for).toHaveBeenCalledWith("update")
+        expect(db.update).toHaveBeenNthCalledWith(1, progressTable)
+        expect(updateTotals.set).toHaveBeenCalledWith(expect.objectContaining({ xp: 124 }))
+        expect(db.update).toHaveBeenNthCalledWith(2, roleplaySessionsTable)
+        expect(markAwarded.set).toHaveBeenCalledWith({ xpAwarded: 24 })
+        expect(result).toEqual({
+          isSuccess: true,
+          message: "Role-play completion recorded",
+          data: expect.objectContaining({ xpEarned: 24, totalXp: 124 })
+        })
+      })
+  
+      it("should return the recorded reward without adding the XP again", async () => {
+        ;(db.select as jest.Mock)
+          .mockReturnValueOnce(mockQuery([{ ...mockSession, xpAwarded: 24 }]))
+          .mockReturnValueOnce(mockQuery([mockTotals]))
+  
+        const result = await recordRolePlayCompletionAction("session123")
+  
+        expect(db.update).not.toHaveBeenCalled()
+        expect(db.insert).not.toHaveBeenCalled()
+        expect(result).toEqual({
+          isSuccess: true,
+          message: "Role-play completion already recorded",
+          data: { xpEarned: 24, totalXp: 100, streak: 1, streakExtended: false, newBadges: [] }
+        })
+      })
+  
+      it("should not award XP before the role-play is debriefed", async () => {
+        ;(db.select as jest.Mock).mockReturnValueOnce(mockQuery([{ ...mockSession, debrief: null }]))
+  
+        const result = await recordRolePlayCompletionAction("session123")
+  
+        expect(result).toEqual({
+          isSuccess: false,
+          message: "End the role-play to get its debrief first"
+        })
+        expect(db.update).not.toHaveBeenCalled()
+      })
+    })
   })
\ No newline at end of file
@@ -0,0 +1,222 @@
+/**
+ * @description
+ * Unit tests for mistake review queue server actions in the Learn Kannada app.
+ */
+import { submitExerciseAction } from "@/actions/db/exercises-actions"
+import {
+  getReviewQueueCountsAction,
+  submitReviewAnswerAction
+} from "@/actions/db/review-items-actions"
+import { db } from "@/db/db"
+import {
+  SelectReviewItem,
+  reviewItemsTable
+} from "@/db/schema/review-items-schema"
+import { loadPublishedExercises } from "@/lib/exercises/published-exercises"
+import { mockQuery } from "./drizzle-mock"
+
+const mockAuth = jest.fn()
+jest.mock("@clerk/nextjs/server", () => ({ auth: () => mockAuth() }))
+
+jest.mock("@/actions/db/exercises-actions", () => ({
+  submitExerciseAction: jest.fn()
+}))
+
+jest.mock("@/lib/exercises/published-exercises", () => ({
+  loadPublishedExercises: jest.fn()
+}))
+
+jest.mock("@/db/db", () => ({
+  db: {
+    select: jest.fn(),
+    transaction: jest.fn(),
+    update: jest.fn()
+  }
+}))
+
+describe("Review Items Server Actions", () => {
+  const dueAt = new Date("2024-05-01T09:00:00Z")
+  const vocabularyItem: SelectReviewItem = {
+    id: "item123",
+    userId: "user123",
+    kind: "vocabulary",
+    lessonId: "lesson123",
+    exerciseId: null,
+    exerciseType: null,
+    lessonRevisionId: null,
+    kannada: "ನಮಸ್ಕಾರ",
+    english: "hello",
+    correctStreak: 1,
+    lapses: 1,
+    dueAt,
+    lastReviewedAt: null,
+    clearedAt: null,
+    createdAt: dueAt,
+    updatedAt: dueAt
+  }
+
+  beforeEach(() => {
+    jest.resetAllMocks()
+    mockAuth.mockResolvedValue({ userId: "user123" })
+    ;(db.transaction as jest.Mock).mockImplementation(run => run(db))
+  })
+
+  describe("submitReviewAnswerAction", () => {
+    it("should require a signed-in learner", async () => {
+      mockAuth.mockResolvedValue({ userId: null })
+
+      const result = await submitReviewAnswerAction("item123", "hello")
+
+      expect(result).toEqual({
+        isSuccess: false,
+        message: "Unauthorized: Please sign in to review your mistakes"
+      })
+      expect(db.select).not.toHaveBeenCalled()
+    })
+
+    it("should reschedule a vocabulary item answered wrongly", async () => {
+      const update = mockQuery([
+        { ...vocabularyItem, correctStreak: 0, lapses: 2 }
+      ])
+      ;(db.select as jest.Mock)
+        .mockReturnValueOnce(mockQuery([vocabularyItem]))
+        .mockReturnValueOnce(mockQuery([vocabularyItem]))
+      ;(db.update as jest.Mock).mockReturnValueOnce(update)
+
+      const result = await submitReviewAnswerAction("item123", "goodbye")
+
+      expect(db.update).toHaveBeenCalledWith(reviewItemsTable)
+      expect(update.set).toHaveBeenCalledWith(
+        expect.objectContaining({
+          correctStreak: 0,
+          lapses: 2,
+          clearedAt: null
+        })
+      )
+      expect(result).toEqual({
+        isSuccess: true,
+        message: "Review answer submitted successfully",
+        data: expect.objectContaining({
+          score: 0,
+          xpEarned: 0,
+          correctStreak: 0,
+          cleared: false
+        })
+      })
+    })
+
+    it("should submit exercise items through the regular submission", async () => {
+      const exerciseItem: SelectReviewItem = {
+        ...vocabularyItem,
+        kind: "exercise",
+        exerciseId: "exercise123",
+        exerciseType: "quiz",
+        lessonRevisionId: "revision123",
+        kannada: null,
+        english: null
+      }
+      ;(db.select as jest.Mock)
+        .mockReturnValueOnce(mockQuery([exerciseItem]))
+        .mockReturnValueOnce(mockQuery([{ ...exerciseItem, correctStreak: 2 }]))
+      ;(loadPublishedExercises as jest.Mock).mockResolvedValue(
+        new Map([
+          [
+            "exercise123",
+            { id: "exercise123", lessonRevisionId: "revision456" }
+          ]
+        ])
+      )
+      ;(submitExerciseAction as jest.Mock).mockResolvedValue({
+        isSuccess: true,
+        message: "Exercise submitted successfully",
+        data: {
+          attemptId: "attempt123",
+          score: 1,
+          feedback: "Correct!",
+          lessonRevisionId: "revision123",
+          reward: { xpEarned: 10 }
+        }
+      })
+
+      const result = await submitReviewAnswerAction("item123", "ನಮಸ್ಕಾರ", {
+        hintsUsed: 1
+      })
+
+      expect(submitExerciseAction).toHaveBeenCalledWith(
+        "exercise123",
+        "ನಮಸ್ಕಾರ",
+        "revision456",
+        { hintsUsed: 1 }
+      )
+      expect(db.transaction).not.toHaveBeenCalled()
+      expect(result.isSuccess && result.data).toEqual(
+        expect.objectContaining({ score: 1, xpEarned: 10, correctStreak: 2 })
+      )
+    })
+
+    it("should not answer an item that has left the queue or belongs to someone else", async () => {
+      ;(db.select as jest.Mock).mockReturnValueOnce(mockQuery([]))
+
+      const result = await submitReviewAnswerAction("item123", "hello")
+
+      expect(result).toEqual({
+        isSuccess: false,
+        message: "Review item not found"
+      })
+      expect(db.transaction).not.toHaveBeenCalled()
+      expect(submitExerciseAction).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("getReviewQueueCountsAction", () => {
+    it("should count only items that can still be served", async () => {
+      const exerciseItem: SelectReviewItem = {
+        ...vocabularyItem,
+        id: "item456",
+        kind: "exercise",
+        exerciseId: "exercise123",
+        exerciseType: "quiz",
+        kannada: null,
+        english: null
+      }
+      ;(db.select as jest.Mock).mockReturnValueOnce(
+        mockQuery([
+          vocabularyItem,
+          {
+            ...vocabularyItem,
+            id: "item789",
+            dueAt: new Date(Date.now() + 86_400_000)
+          },
+          exerciseItem,
+          { ...exerciseItem, id: "orphan", exerciseId: "deleted" }
+        ])
+      )
+      ;(loadPublishedExercises as jest.Mock).mockResolvedValue(
+        new Map([
+          [
+            "exercise123",
+            {
+              id: "exercise123",
+              type: "quiz",
+              content: {
+                question: "Hello?",
+                options: ["ನಮಸ್ಕಾರ", "ಹೋಗಿ ಬನ್ನಿ"],
+                correctAnswer: "ನಮಸ್ಕಾರ"
+              },
+              lessonId: "lesson123",
+              lessonRevisionId: "revision123"
+            }
+          ]
+        ])
+      )
+
+      const result = await getReviewQueueCountsAction()
+
+      expect(result).toEqual({
+        isSuccess: true,
+        message: "Review queue counted successfully",
+        data: { due: 2, total: 3 }
+      })
+    })
+  })
+})
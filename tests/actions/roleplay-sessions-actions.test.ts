@@ -0,0 +1,172 @@
+/**
+ * @description
+ * Unit tests for role-play session server actions in the Learn Kannada app.
+ */
+import { recordRolePlayCompletionAction } from "@/actions/db/progress-actions"
+import { completeRolePlayAction } from "@/actions/db/roleplay-sessions-actions"
+import { db } from "@/db/db"
+import { SelectRoleplaySession } from "@/db/schema/roleplay-sessions-schema"
+import { getLLMProvider } from "@/lib/ai/llm-provider"
+import { ExerciseReward, RolePlayDebrief } from "@/types"
+import { mockQuery } from "./drizzle-mock"
+
+const mockAuth = jest.fn()
+jest.mock("@clerk/nextjs/server", () => ({ auth: () => mockAuth() }))
+
+jest.mock("@/actions/db/progress-actions", () => ({
+  recordRolePlayCompletionAction: jest.fn()
+}))
+
+jest.mock("@/lib/ai/llm-provider", () => ({
+  getLLMProvider: jest.fn()
+}))
+
+jest.mock("@/db/db", () => ({
+  db: {
+    select: jest.fn(),
+    update: jest.fn()
+  }
+}))
+
+describe("Role-play Sessions Server Actions", () => {
+  const startedAt = new Date("2024-05-01T09:00:00Z")
+  const session: SelectRoleplaySession = {
+    id: "session123",
+    userId: "user123",
+    conversationId: "conversation123",
+    scenarioId: "darshini-breakfast",
+    achievedGoals: ["greet", "order-food", "order-coffee", "ask-price"],
+    debrief: null,
+    xpAwarded: null,
+    completedAt: null,
+    createdAt: startedAt,
+    updatedAt: startedAt
+  }
+  const reward: ExerciseReward = {
+    xpEarned: 24,
+    totalXp: 124,
+    streak: 2,
+    streakExtended: true,
+    newBadges: []
+  }
+  const complete = jest.fn()
+
+  beforeEach(() => {
+    jest.resetAllMocks()
+    mockAuth.mockResolvedValue({ userId: "user123" })
+    ;(getLLMProvider as jest.Mock).mockReturnValue({ complete })
+    ;(recordRolePlayCompletionAction as jest.Mock).mockResolvedValue({
+      isSuccess: true,
+      message: "Role-play completion recorded",
+      data: reward
+    })
+  })
+
+  describe("completeRolePlayAction", () => {
+    it("should require a signed-in learner", async () => {
+      mockAuth.mockResolvedValue({ userId: null })
+
+      const result = await completeRolePlayAction("conversation123")
+
+      expect(result).toEqual({
+        isSuccess: false,
+        message: "Unauthorized: Please sign in to play role-play scenarios"
+      })
+      expect(db.select).not.toHaveBeenCalled()
+    })
+
+    it("should score the conversation, save the debrief and award its XP", async () => {
+      const end = mockQuery([{ debrief: {} }])
+      ;(db.select as jest.Mock)
+        .mockReturnValueOnce(mockQuery([session]))
+        .mockReturnValueOnce(
+          mockQuery([{ role: "user", content: "ಒಂದು ಕಾಫಿ ಕೊಡಿ" }])
+        )
+      ;(db.update as jest.Mock).mockReturnValueOnce(end)
+      complete.mockResolvedValue({
+        content: JSON.stringify({
+          languageScore: 80,
+          summary: "Clear and polite.",
+          strengths: ["Ordering"],
+          improvements: ["Say goodbye"]
+        })
+      })
+
+      const result = await completeRolePlayAction("conversation123")
+
+      const debrief: RolePlayDebrief = {
+        score: 80,
+        goalsAchieved: 4,
+        goalsTotal: 5,
+        languageScore: 80,
+        summary: "Clear and polite.",
+        strengths: ["Ordering"],
+        improvements: ["Say goodbye"],
+        xpEarned: 24
+      }
+      expect(complete).toHaveBeenCalledWith(
+        expect.objectContaining({ task: "roleplay-debrief", json: true })
+      )
+      expect(end.set).toHaveBeenCalledWith({
+        debrief,
+        completedAt: expect.any(Date)
+      })
+      expect(recordRolePlayCompletionAction).toHaveBeenCalledWith("session123")
+      expect(result).toEqual({
+        isSuccess: true,
+        message: "Role-play completed successfully",
+        data: { debrief, reward }
+      })
+    })
+
+    it("should return the saved debrief of a session ended before", async () => {
+      const debrief: RolePlayDebrief = {
+        score: 60,
+        goalsAchieved: 3,
+        goalsTotal: 5,
+        languageScore: 60,
+        summary: "Good start.",
+        strengths: [],
+        improvements: [],
+        xpEarned: 18
+      }
+      ;(db.select as jest.Mock).mockReturnValueOnce(
+        mockQuery([{ ...session, debrief, completedAt: startedAt }])
+      )
+
+      const result = await completeRolePlayAction("conversation123")
+
+      expect(complete).not.toHaveBeenCalled()
+      expect(db.update).not.toHaveBeenCalled()
+      expect(result.isSuccess && result.data).toEqual({ debrief, reward })
+    })
+
+    it("should ask for the debrief again when the reply cannot be read", async () => {
+      ;(db.select as jest.Mock)
+        .mockReturnValueOnce(mockQuery([session]))
+        .mockReturnValueOnce(mockQuery([]))
+      complete.mockResolvedValue({ content: "Well done!" })
+
+      const result = await completeRolePlayAction("conversation123")
+
+      expect(result).toEqual({
+        isSuccess: false,
+        message: "The debrief could not be read. Please try again."
+      })
+      expect(db.update).not.toHaveBeenCalled()
+      expect(recordRolePlayCompletionAction).not.toHaveBeenCalled()
+    })
+
+    it("should not end a session that belongs to someone else", async () => {
+      ;(db.select as jest.Mock).mockReturnValueOnce(mockQuery([]))
+
+      const result = await completeRolePlayAction("conversation123")
+
+      expect(result).toEqual({
+        isSuccess: false,
+        message: "Role-play session not found"
+      })
+      expect(complete).not.toHaveBeenCalled()
+    })
+  })
+})
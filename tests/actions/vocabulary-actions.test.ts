@@ -0,0 +1,239 @@
+/**
+ * @description
+ * Unit tests for vocabulary flashcard server actions in the Learn Kannada app.
+ */
+import { getCurriculumOverviewAction } from "@/actions/db/curriculum-actions"
+import {
+  getDailyVocabularyQueueAction,
+  rateVocabularyCardAction
+} from "@/actions/db/vocabulary-actions"
+import { db } from "@/db/db"
+import {
+  SelectVocabularyReview,
+  vocabularyReviewsTable
+} from "@/db/schema/vocabulary-reviews-schema"
+import { DAILY_NEW_WORD_LIMIT } from "@/lib/vocabulary/srs"
+import { RecallRating, VocabularyWord } from "@/types"
+import { mockQuery } from "./drizzle-mock"
+
+const mockAuth = jest.fn()
+jest.mock("@clerk/nextjs/server", () => ({ auth: () => mockAuth() }))
+
+jest.mock("@/actions/db/curriculum-actions", () => ({
+  getCurriculumOverviewAction: jest.fn()
+}))
+
+jest.mock("@/db/db", () => ({
+  db: {
+    select: jest.fn(),
+    insert: jest.fn(),
+    update: jest.fn(),
+    transaction: jest.fn()
+  }
+}))
+
+describe("Vocabulary Server Actions", () => {
+  const reviewedAt = new Date("2024-05-01T09:00:00Z")
+  const word: VocabularyWord = {
+    id: "word123",
+    lessonId: "lesson123",
+    kannada: "ನೀರು",
+    transliteration: "neeru",
+    english: "water",
+    partOfSpeech: "noun",
+    audioUrl: null,
+    exampleKannada: null,
+    exampleEnglish: null
+  }
+  const review: SelectVocabularyReview = {
+    id: "review123",
+    userId: "user123",
+    vocabularyId: "word123",
+    easeFactor: 2.5,
+    intervalDays: 1,
+    repetitions: 1,
+    lapses: 0,
+    dueAt: reviewedAt,
+    lastReviewedAt: reviewedAt,
+    createdAt: reviewedAt,
+    updatedAt: reviewedAt
+  }
+
+  beforeEach(() => {
+    jest.resetAllMocks()
+    mockAuth.mockResolvedValue({ userId: "user123" })
+    ;(db.transaction as jest.Mock).mockImplementation(run => run(db))
+  })
+
+  describe("rateVocabularyCardAction", () => {
+    it("should require a signed-in learner", async () => {
+      mockAuth.mockResolvedValue({ userId: null })
+
+      const result = await rateVocabularyCardAction("word123", "good")
+
+      expect(result).toEqual({
+        isSuccess: false,
+        message: "Unauthorized: Please sign in to review vocabulary"
+      })
+      expect(db.select).not.toHaveBeenCalled()
+    })
+
+    it("should start a schedule for a word reviewed for the first time", async () => {
+      const insert = mockQuery()
+      ;(db.select as jest.Mock)
+        .mockReturnValueOnce(mockQuery([{ id: "word123" }]))
+        .mockReturnValueOnce(mockQuery([]))
+      ;(db.insert as jest.Mock).mockReturnValueOnce(insert)
+
+      const result = await rateVocabularyCardAction("word123", "good")
+
+      expect(db.insert).toHaveBeenCalledWith(vocabularyReviewsTable)
+      expect(insert.values).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: "user123",
+          vocabularyId: "word123",
+          repetitions: 1,
+          lastReviewedAt: expect.any(Date)
+        })
+      )
+      expect(insert.onConflictDoUpdate).toHaveBeenCalled()
+      expect(result).toEqual({
+        isSuccess: true,
+        message: "Recall recorded successfully",
+        data: expect.objectContaining({ repetitions: 1, lapses: 0 })
+      })
+    })
+
+    it("should reschedule the learner's locked schedule of a word", async () => {
+      const existing = mockQuery([review])
+      const update = mockQuery()
+      ;(db.select as jest.Mock)
+        .mockReturnValueOnce(mockQuery([{ id: "word123" }]))
+        .mockReturnValueOnce(existing)
+      ;(db.update as jest.Mock).mockReturnValueOnce(update)
+
+      const result = await rateVocabularyCardAction("word123", "again")
+
+      expect(existing.for).toHaveBeenCalledWith("update")
+      expect(update.set).toHaveBeenCalledWith(
+        expect.objectContaining({ repetitions: 0, lapses: 1 })
+      )
+      expect(db.insert).not.toHaveBeenCalled()
+      expect(result.isSuccess && result.data).toEqual(
+        expect.objectContaining({ repetitions: 0, lapses: 1 })
+      )
+    })
+
+    it("should reject an unknown rating without touching the database", async () => {
+      const result = await rateVocabularyCardAction(
+        "word123",
+        "perfect" as RecallRating
+      )
+
+      expect(result).toEqual({
+        isSuccess: false,
+        message: "Unknown recall rating"
+      })
+      expect(db.select).not.toHaveBeenCalled()
+    })
+
+    it("should not schedule a word that does not exist", async () => {
+      ;(db.select as jest.Mock).mockReturnValueOnce(mockQuery([]))
+
+      const result = await rateVocabularyCardAction("missing", "good")
+
+      expect(result).toEqual({ isSuccess: false, message: "Word not found" })
+      expect(db.transaction).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("getDailyVocabularyQueueAction", () => {
+    it("should require a signed-in learner", async () => {
+      mockAuth.mockResolvedValue({ userId: null })
+
+      const result = await getDailyVocabularyQueueAction()
+
+      expect(result).toEqual({
+        isSuccess: false,
+        message: "Unauthorized: Please sign in to review vocabulary"
+      })
+      expect(db.select).not.toHaveBeenCalled()
+    })
+
+    it("should serve due cards, then new words from started lessons once each", async () => {
+      const newWord = {
+        ...word,
+        id: "word456",
+        kannada: "ಹಾಲು",
+        english: "milk"
+      }
+      ;(db.select as jest.Mock)
+        .mockReturnValueOnce(mockQuery([{ word, review }]))
+        .mockReturnValueOnce(mockQuery([{ count: 0 }]))
+        .mockReturnValueOnce(
+          mockQuery([
+            newWord,
+            { ...newWord, id: "word789", lessonId: "lesson456" }
+          ])
+        )
+      ;(getCurriculumOverviewAction as jest.Mock).mockResolvedValue({
+        isSuccess: true,
+        message: "Curriculum retrieved successfully",
+        data: {
+          levels: [
+            {
+              units: [
+                {
+                  lessons: [
+                    { id: "lesson123", status: "completed", completion: 1 },
+                    { id: "lesson456", status: "available", completion: 0.5 },
+                    { id: "lesson789", status: "available", completion: 0 }
+                  ]
+                }
+              ]
+            }
+          ]
+        }
+      })
+
+      const result = await getDailyVocabularyQueueAction()
+
+      expect(result).toEqual({
+        isSuccess: true,
+        message: "Vocabulary queue retrieved successfully",
+        data: {
+          cards: [
+            {
+              ...word,
+              review: {
+                easeFactor: 2.5,
+                intervalDays: 1,
+                repetitions: 1,
+                lapses: 0,
+                dueAt: reviewedAt
+              }
+            },
+            { ...newWord, review: null }
+          ],
+          dueCount: 1,
+          newCount: 1
+        }
+      })
+    })
+
+    it("should introduce no new words once today's limit is reached", async () => {
+      ;(db.select as jest.Mock)
+        .mockReturnValueOnce(mockQuery([]))
+        .mockReturnValueOnce(mockQuery([{ count: DAILY_NEW_WORD_LIMIT }]))
+
+      const result = await getDailyVocabularyQueueAction()
+
+      expect(getCurriculumOverviewAction).not.toHaveBeenCalled()
+      expect(result.isSuccess && result.data).toEqual({
+        cards: [],
+        dueCount: 0,
+        newCount: 0
+      })
+    })
+  })
+})
@@ -0,0 +1,88 @@
+/**
+ * @description
+ * Unit tests for AI exercise generation prompts and output checking in the Learn Kannada app.
+ */
+import {
+  MAX_GENERATED_EXERCISES,
+  buildExerciseGenerationMessages,
+  parseGeneratedExercises
+} from "@/lib/ai/exercise-generation"
+import { LessonContent } from "@/types"
+
+describe("buildExerciseGenerationMessages", () => {
+  const content: LessonContent = {
+    version: 1,
+    grammarNotes: [
+      { title: "Dative case", explanation: "Add -ಗೆ", examples: [] }
+    ],
+    vocabulary: [{ kannada: "ನೀರು", english: "water" }],
+    examples: [],
+    dialogues: [],
+    culturalNotes: []
+  }
+
+  it("should include the lesson material and the requested type and count", () => {
+    const [system, user] = buildExerciseGenerationMessages(
+      { title: "Basics", level: "beginner", content },
+      "matching",
+      3
+    )
+
+    expect(system.role).toBe("system")
+    expect(system.content).toContain('"matching"')
+    expect(system.content).toContain('"pairs"')
+    expect(user.content).toContain("Lesson: Basics (beginner)")
+    expect(user.content).toContain("- ನೀರು = water")
+    expect(user.content).toContain("- Dative case: Add -ಗೆ")
+    expect(user.content).not.toContain("Example sentences")
+    expect(user.content).toContain('Write 3 "matching" exercises')
+  })
+})
+
+describe("parseGeneratedExercises", () => {
+  const quiz = {
+    question: "What does ನೀರು mean?",
+    options: ["water", "milk"],
+    correctAnswer: "water"
+  }
+
+  it("should keep valid exercises and report invalid ones", () => {
+    const result = parseGeneratedExercises(
+      JSON.stringify({ exercises: [quiz, { question: "Missing options" }] }),
+      "quiz"
+    )
+
+    expect(result?.exercises).toEqual([{ type: "quiz", content: quiz }])
+    expect(result?.rejected).toHaveLength(1)
+    expect(Object.keys(result!.rejected[0])[0]).toMatch(/^content\./)
+  })
+
+  it("should validate against the requested type", () => {
+    const result = parseGeneratedExercises(
+      JSON.stringify({ exercises: [quiz] }),
+      "writing"
+    )
+
+    expect(result?.exercises).toEqual([])
+    expect(result?.rejected).toHaveLength(1)
+  })
+
+  it("should keep at most MAX_GENERATED_EXERCISES", () => {
+    const exercises = Array.from(
+      { length: MAX_GENERATED_EXERCISES + 2 },
+      () => quiz
+    )
+    const result = parseGeneratedExercises(
+      JSON.stringify({ exercises }),
+      "quiz"
+    )
+
+    expect(result?.exercises).toHaveLength(MAX_GENERATED_EXERCISES)
+  })
+
+  it("should return null when the reply is not the expected JSON", () => {
+    expect(parseGeneratedExercises("not json", "quiz")).toBeNull()
+    expect(parseGeneratedExercises('{"items": []}', "quiz")).toBeNull()
+    expect(parseGeneratedExercises("null", "quiz")).toBeNull()
+  })
+})
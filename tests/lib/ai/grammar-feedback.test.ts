@@ -0,0 +1,138 @@
+/**
+ * @description
+ * Unit tests for structured grammar feedback parsing and sentence segmentation in the Learn Kannada app.
+ */
+import {
+  GRAMMAR_ERROR_CATEGORIES,
+  buildGrammarFeedbackMessages,
+  parseGrammarFeedback,
+  segmentSentence
+} from "@/lib/ai/grammar-feedback"
+
+describe("buildGrammarFeedbackMessages", () => {
+  it("should describe every category and send the sentence as the user message", () => {
+    const [system, user] = buildGrammarFeedbackMessages("ನಾನು ಮನೆ ಹೋಗುತ್ತೇನೆ")
+
+    for (const category of GRAMMAR_ERROR_CATEGORIES) {
+      expect(system.content).toContain(category)
+    }
+    expect(user).toEqual({ role: "user", content: "ನಾನು ಮನೆ ಹೋಗುತ್ತೇನೆ" })
+  })
+})
+
+describe("parseGrammarFeedback", () => {
+  const sentence = "ನಾನು ಮನೆ ಹೋಗುತ್ತಾನೆ"
+  const reply = (errors: object[]) =>
+    JSON.stringify({
+      errors,
+      correctedSentence: "ನಾನು ಮನೆಗೆ ಹೋಗುತ್ತೇನೆ",
+      summary: "Two mistakes."
+    })
+  const caseError = {
+    text: "ಮನೆ",
+    category: "case-ending",
+    correction: "ಮನೆಗೆ",
+    explanation: "Going to a place takes the dative -ಗೆ."
+  }
+  const verbError = {
+    text: "ಹೋಗುತ್ತಾನೆ",
+    category: "verb-agreement",
+    correction: "ಹೋಗುತ್ತೇನೆ",
+    explanation: "The verb must agree with ನಾನು."
+  }
+
+  it("should keep spans that cover the quoted text", () => {
+    const feedback = parseGrammarFeedback(
+      reply([{ ...caseError, start: 5, end: 8 }]),
+      sentence
+    )
+
+    expect(feedback?.errors).toEqual([{ ...caseError, start: 5, end: 8 }])
+    expect(feedback?.correctedSentence).toBe("ನಾನು ಮನೆಗೆ ಹೋಗುತ್ತೇನೆ")
+  })
+
+  it("should find the quoted text when the span is wrong or missing", () => {
+    const feedback = parseGrammarFeedback(
+      reply([verbError, { ...caseError, start: 0, end: 3 }]),
+      sentence
+    )
+
+    expect(feedback?.errors.map(error => [error.start, error.end])).toEqual([
+      [5, 8],
+      [9, 19]
+    ])
+    for (const error of feedback!.errors) {
+      expect(sentence.slice(error.start, error.end)).toBe(error.text)
+    }
+  })
+
+  it("should drop mistakes that are not in the sentence or overlap another", () => {
+    const feedback = parseGrammarFeedback(
+      reply([
+        caseError,
+        { ...caseError, text: "ಮನೆ ಹೋ" },
+        { ...caseError, text: "ಶಾಲೆ" }
+      ]),
+      sentence
+    )
+
+    expect(feedback?.errors).toHaveLength(1)
+    expect(feedback?.errors[0].text).toBe("ಮನೆ")
+  })
+
+  it("should place repeated text at its next free occurrence", () => {
+    const feedback = parseGrammarFeedback(
+      JSON.stringify({
+        errors: [
+          { ...caseError, text: "ನೀರ" },
+          { ...caseError, text: "ನೀರ" }
+        ],
+        correctedSentence: "",
+        summary: ""
+      }),
+      "ನೀರ ನೀರ"
+    )
+
+    expect(feedback?.errors.map(error => error.start)).toEqual([0, 4])
+    expect(feedback?.correctedSentence).toBe("ನೀರ ನೀರ")
+  })
+
+  it("should return null for replies that are not valid feedback", () => {
+    expect(parseGrammarFeedback("not json", sentence)).toBeNull()
+    expect(
+      parseGrammarFeedback(
+        reply([{ ...caseError, category: "tone" }]),
+        sentence
+      )
+    ).toBeNull()
+    expect(parseGrammarFeedback('{"errors": []}', sentence)).toBeNull()
+  })
+})
+
+describe("segmentSentence", () => {
+  it("should split the sentence into plain and mistaken parts that join back up", () => {
+    const sentence = "ನಾನು ಮನೆ ಹೋಗುತ್ತಾನೆ"
+    const error = {
+      start: 5,
+      end: 8,
+      text: "ಮನೆ",
+      category: "case-ending" as const,
+      correction: "ಮನೆಗೆ",
+      explanation: ""
+    }
+    const segments = segmentSentence(sentence, [error])
+
+    expect(segments).toEqual([
+      { text: "ನಾನು ", error: null },
+      { text: "ಮನೆ", error },
+      { text: " ಹೋಗುತ್ತಾನೆ", error: null }
+    ])
+    expect(segments.map(segment => segment.text).join("")).toBe(sentence)
+  })
+
+  it("should return the whole sentence when there are no mistakes", () => {
+    expect(segmentSentence("ನಮಸ್ಕಾರ", [])).toEqual([
+      { text: "ನಮಸ್ಕಾರ", error: null }
+    ])
+  })
+})
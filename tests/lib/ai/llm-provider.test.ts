@@ -0,0 +1,235 @@
+/**
+ * @description
+ * Unit tests for language model provider selection, per-task models and the stub provider
+ * in the Learn Kannada app.
+ */
+import { parseGeneratedExercises } from "@/lib/ai/exercise-generation"
+import { parseGrammarFeedback } from "@/lib/ai/grammar-feedback"
+import { getLLMProvider } from "@/lib/ai/llm-provider"
+import { DEFAULT_MODELS, modelEnvVar, resolveModel } from "@/lib/ai/models"
+import { openaiProvider } from "@/lib/ai/openai"
+import {
+  buildRolePlayMessages,
+  parseRolePlayReply
+} from "@/lib/ai/roleplay-chat"
+import { parseDebriefReply } from "@/lib/ai/roleplay-debrief"
+import {
+  STUB_MODEL,
+  createStubProvider,
+  stubProvider
+} from "@/lib/ai/stub-provider"
+import { buildTutorMessages, parseTutorReply } from "@/lib/ai/tutor-chat"
+import { getScenario } from "@/lib/roleplay/scenarios"
+import { RolePlayScenario } from "@/types"
+
+describe("getLLMProvider", () => {
+  it("should use OpenAI by default and the stub when LLM_PROVIDER=stub", () => {
+    expect(getLLMProvider({})).toBe(openaiProvider)
+    expect(getLLMProvider({ LLM_PROVIDER: "openai" })).toBe(openaiProvider)
+    expect(getLLMProvider({ LLM_PROVIDER: "stub" })).toBe(stubProvider)
+  })
+
+  it("should reject unknown providers", () => {
+    expect(() => getLLMProvider({ LLM_PROVIDER: "other" })).toThrow(
+      'Unknown LLM_PROVIDER "other"'
+    )
+  })
+})
+
+describe("resolveModel", () => {
+  it("should use the task's default model unless it is overridden", () => {
+    expect(resolveModel("exercise-generation", {})).toBe(
+      DEFAULT_MODELS["exercise-generation"]
+    )
+    expect(
+      resolveModel("exercise-generation", {
+        LLM_MODEL_EXERCISE_GENERATION: " gpt-4o-mini "
+      })
+    ).toBe("gpt-4o-mini")
+    expect(
+      resolveModel("grammar-explanation", {
+        LLM_MODEL_EXERCISE_GENERATION: "gpt-4o-mini"
+      })
+    ).toBe(DEFAULT_MODELS["grammar-explanation"])
+  })
+
+  it("should name the override variable after the task", () => {
+    expect(modelEnvVar("pronunciation-feedback")).toBe(
+      "LLM_MODEL_PRONUNCIATION_FEEDBACK"
+    )
+  })
+})
+
+describe("openaiProvider", () => {
+  it("should fail on request, not on import, when the API key is missing", async () => {
+    const key = process.env.OPENAI_API_KEY
+    delete process.env.OPENAI_API_KEY
+    try {
+      await expect(
+        openaiProvider.complete({ task: "grammar-explanation", messages: [] })
+      ).rejects.toThrow("OPENAI_API_KEY")
+    } finally {
+      if (key !== undefined) process.env.OPENAI_API_KEY = key
+    }
+  })
+})
+
+describe("stubProvider", () => {
+  it("should find no grammar mistakes", async () => {
+    const response = await stubProvider.complete({
+      task: "grammar-explanation",
+      messages: [{ role: "user", content: "ನಮಸ್ಕಾರ" }],
+      json: true
+    })
+
+    expect(parseGrammarFeedback(response.content, "ನಮಸ್ಕಾರ")).toMatchObject({
+      errors: [],
+      correctedSentence: "ನಮಸ್ಕಾರ"
+    })
+  })
+
+  it("should reply to the tutor chat in Kannada with a translation", async () => {
+    const response = await stubProvider.complete({
+      task: "tutor-chat",
+      messages: buildTutorMessages("beginner", [], "ನಮಸ್ಕಾರ"),
+      json: true
+    })
+
+    const reply = parseTutorReply(response.content, "ನಮಸ್ಕಾರ")
+    expect(reply?.reply).toMatch(/[ಀ-೿]/)
+    expect(reply?.translation).not.toBe("")
+    expect(reply?.corrections.errors).toEqual([])
+  })
+
+  it("should play a role-play and meet a goal each turn", async () => {
+    const scenario = getScenario("darshini-breakfast") as RolePlayScenario
+    const response = await stubProvider.complete({
+      task: "roleplay-chat",
+      messages: buildRolePlayMessages(scenario, [], "ನಮಸ್ಕಾರ"),
+      json: true
+    })
+
+    const reply = parseRolePlayReply(response.content, "ನಮಸ್ಕಾರ", scenario)
+    expect(reply?.reply).toMatch(/[ಀ-೿]/)
+    expect(reply?.achievedGoals).toEqual([scenario.goals[0].id])
+  })
+
+  it("should debrief a role-play", async () => {
+    const response = await stubProvider.complete({
+      task: "roleplay-debrief",
+      messages: [{ role: "user", content: "Conversation:" }],
+      json: true
+    })
+
+    expect(parseDebriefReply(response.content)?.languageScore).toBe(80)
+  })
+
+  it("should recommend a level from the XP in the request", async () => {
+    const levels = await Promise.all(
+      [50, 150, 400].map(async xp => {
+        const response = await stubProvider.complete({
+          task: "lesson-difficulty",
+          messages: [{ role: "user", content: `User XP: ${xp}` }]
+        })
+        return response.content
+      })
+    )
+    expect(levels).toEqual(["beginner", "intermediate", "advanced"])
+  })
+
+  it("should check the transcript against the expected phrase", async () => {
+    const assess = (transcript: string) =>
+      stubProvider.complete({
+        task: "pronunciation-feedback",
+        messages: [
+          {
+            role: "user",
+            content: `Transcript: "${transcript}"\nExpected: "ನಮಸ್ಕಾರ"`
+          }
+        ]
+      })
+
+    expect((await assess("ನಮಸ್ಕಾರ")).content).toMatch(/^Well done/)
+    expect((await assess("ನಮಸ್ತೆ")).content).toContain(
+      'the expected phrase is "ನಮಸ್ಕಾರ"'
+    )
+  })
+
+  it("should generate valid exercises of the requested type and count", async () => {
+    const response = await stubProvider.complete({
+      task: "exercise-generation",
+      messages: [
+        {
+          role: "user",
+          content: 'Write 2 "fill-blank" exercises for this lesson.'
+        }
+      ],
+      json: true
+    })
+
+    expect(response.model).toBe(STUB_MODEL)
+    const generated = parseGeneratedExercises(response.content, "fill-blank")
+    expect(generated?.exercises).toHaveLength(2)
+    expect(generated?.rejected).toEqual([])
+  })
+
+  it("should give the same reply to the same request", async () => {
+    const request = {
+      task: "grammar-explanation" as const,
+      messages: [{ role: "user" as const, content: "ನಾನು ಮನೆಗೆ ಹೋಗುತ್ತೇನೆ" }]
+    }
+    expect(await stubProvider.complete(request)).toEqual(
+      await stubProvider.complete(request)
+    )
+  })
+
+  it("should stream the same reply in chunks", async () => {
+    const request = {
+      task: "pronunciation-feedback" as const,
+      messages: [
+        {
+          role: "user" as const,
+          content: 'Transcript: "ನೀರು"\nExpected: "ನೀರು"'
+        }
+      ]
+    }
+    const provider = createStubProvider()
+
+    const chunks: string[] = []
+    for await (const chunk of provider.stream(request)) chunks.push(chunk)
+
+    expect(chunks.length).toBeGreaterThan(1)
+    expect(chunks.join("")).toBe((await provider.complete(request)).content)
+  })
+
+  it("should stop streaming when aborted", async () => {
+    const controller = new AbortController()
+    const chunks: string[] = []
+    const read = async () => {
+      for await (const chunk of createStubProvider().stream(
+        {
+          task: "tutor-chat",
+          messages: [{ role: "user", content: "ನಮಸ್ಕಾರ" }]
+        },
+        controller.signal
+      )) {
+        chunks.push(chunk)
+        controller.abort()
+      }
+    }
+
+    await expect(read()).rejects.toThrow()
+    expect(chunks).toHaveLength(1)
+  })
+
+  it("should use fixtures passed to createStubProvider", async () => {
+    const provider = createStubProvider({
+      "grammar-explanation": request => `checked ${request.messages.length}`
+    })
+    const response = await provider.complete({
+      task: "grammar-explanation",
+      messages: [{ role: "user", content: "ನೀರು" }]
+    })
+    expect(response.content).toBe("checked 1")
+  })
+})
@@ -0,0 +1,78 @@
+/**
+ * @description
+ * Unit tests for the role-play character prompt, reply parsing and goal tracking in the Learn Kannada app.
+ */
+import {
+  buildRolePlayMessages,
+  mergeAchievedGoals,
+  parseRolePlayReply
+} from "@/lib/ai/roleplay-chat"
+import { getScenario } from "@/lib/roleplay/scenarios"
+import { RolePlayScenario } from "@/types"
+
+const scenario = getScenario("darshini-breakfast") as RolePlayScenario
+
+describe("buildRolePlayMessages", () => {
+  it("should brief the character with the goals and open with its first line", () => {
+    const messages = buildRolePlayMessages(scenario, [], "ನಮಸ್ಕಾರ")
+
+    expect(messages[0].role).toBe("system")
+    expect(messages[0].content).toContain(scenario.persona.name)
+    for (const goal of scenario.goals) {
+      expect(messages[0].content).toContain(`- "${goal.id}":`)
+    }
+    expect(messages[1]).toEqual({
+      role: "assistant",
+      content: scenario.opening.kannada
+    })
+    expect(messages[messages.length - 1]).toEqual({
+      role: "user",
+      content: "ನಮಸ್ಕಾರ"
+    })
+  })
+})
+
+describe("parseRolePlayReply", () => {
+  const message = "ನಮಸ್ಕಾರ, ಒಂದು ದೋಸೆ ಕೊಡಿ"
+  const reply = (fields: object) =>
+    JSON.stringify({
+      reply: "ಸರಿ, ಒಂದು ದೋಸೆ.",
+      translation: "Okay, one dosa.",
+      errors: [],
+      correctedSentence: message,
+      summary: "No mistakes found.",
+      ...fields
+    })
+
+  it("should keep only the scenario's goals, in its order", () => {
+    const parsed = parseRolePlayReply(
+      reply({ achievedGoals: ["order-food", "made-up", "greet"] }),
+      message,
+      scenario
+    )
+
+    expect(parsed?.reply).toBe("ಸರಿ, ಒಂದು ದೋಸೆ.")
+    expect(parsed?.achievedGoals).toEqual(["greet", "order-food"])
+  })
+
+  it("should treat missing goals as none met", () => {
+    expect(
+      parseRolePlayReply(reply({}), message, scenario)?.achievedGoals
+    ).toEqual([])
+  })
+
+  it("should return null for a reply that is not the expected JSON", () => {
+    expect(parseRolePlayReply("ಸರಿ", message, scenario)).toBeNull()
+    expect(
+      parseRolePlayReply(JSON.stringify({ reply: "" }), message, scenario)
+    ).toBeNull()
+  })
+})
+
+describe("mergeAchievedGoals", () => {
+  it("should add new goals to earlier ones without repeats", () => {
+    expect(
+      mergeAchievedGoals(scenario, ["order-food"], ["greet", "order-food"])
+    ).toEqual(["greet", "order-food"])
+  })
+})
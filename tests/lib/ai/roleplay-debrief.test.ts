@@ -0,0 +1,74 @@
+/**
+ * @description
+ * Unit tests for the role-play debrief prompt, reply parsing and scoring in the Learn Kannada app.
+ */
+import {
+  DEBRIEF_TRANSCRIPT_LIMIT,
+  buildDebriefMessages,
+  parseDebriefReply,
+  scoreRolePlay
+} from "@/lib/ai/roleplay-debrief"
+import { getScenario } from "@/lib/roleplay/scenarios"
+import { RolePlayScenario, TutorMessageRole } from "@/types"
+
+const scenario = getScenario("darshini-breakfast") as RolePlayScenario
+
+describe("buildDebriefMessages", () => {
+  it("should mark each goal as met or not and send the latest messages", () => {
+    const transcript = Array.from(
+      { length: DEBRIEF_TRANSCRIPT_LIMIT + 2 },
+      (_, i) => ({
+        role: (i % 2 === 0 ? "user" : "assistant") as TutorMessageRole,
+        content: `turn ${i}`
+      })
+    )
+
+    const [, user] = buildDebriefMessages(scenario, transcript, ["greet"])
+
+    expect(user.content).toContain(`- ${scenario.goals[0].description} (met)`)
+    expect(user.content).toContain(
+      `- ${scenario.goals[1].description} (not met)`
+    )
+    expect(user.content).not.toContain("turn 1\n")
+    expect(user.content).toContain(`turn ${DEBRIEF_TRANSCRIPT_LIMIT + 1}`)
+  })
+})
+
+describe("parseDebriefReply", () => {
+  it("should read the rating and feedback", () => {
+    expect(
+      parseDebriefReply(
+        JSON.stringify({
+          languageScore: 72,
+          summary: "Clear and polite.",
+          strengths: ["Greeting"]
+        })
+      )
+    ).toEqual({
+      languageScore: 72,
+      summary: "Clear and polite.",
+      strengths: ["Greeting"],
+      improvements: []
+    })
+  })
+
+  it("should return null for a reply that is not the expected JSON", () => {
+    expect(parseDebriefReply("Good job")).toBeNull()
+    expect(
+      parseDebriefReply(JSON.stringify({ languageScore: 140, summary: "Ok" }))
+    ).toBeNull()
+  })
+})
+
+describe("scoreRolePlay", () => {
+  it("should weight goals met above the language rating", () => {
+    expect(scoreRolePlay(4, 4, 100)).toBe(100)
+    expect(scoreRolePlay(4, 4, 0)).toBe(70)
+    expect(scoreRolePlay(0, 4, 100)).toBe(30)
+    expect(scoreRolePlay(2, 4, 50)).toBe(50)
+  })
+
+  it("should handle a scenario without goals", () => {
+    expect(scoreRolePlay(0, 0, 100)).toBe(30)
+  })
+})
@@ -0,0 +1,126 @@
+/**
+ * @description
+ * Unit tests for streamed AI responses (event encoding, reading and partial JSON) in the Learn Kannada app.
+ */
+import {
+  STREAM_INTERRUPTED_MESSAGE,
+  partialJsonString,
+  readEventStream,
+  toEventStream
+} from "@/lib/ai/streaming"
+import { AIStreamEvent } from "@/types"
+
+async function collect<T>(
+  events: AsyncIterable<AIStreamEvent<T>>
+): Promise<AIStreamEvent<T>[]> {
+  const collected: AIStreamEvent<T>[] = []
+  for await (const event of events) collected.push(event)
+  return collected
+}
+
+// A body that delivers the given text in the given pieces
+function bodyOf(...pieces: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      for (const piece of pieces) controller.enqueue(encoder.encode(piece))
+      controller.close()
+    }
+  })
+}
+
+describe("toEventStream and readEventStream", () => {
+  it("should deliver events in order", async () => {
+    async function* events(): AsyncGenerator<AIStreamEvent<number>> {
+      yield { type: "delta", text: "ನಮ" }
+      yield { type: "delta", text: "ಸ್ಕಾರ" }
+      yield { type: "done", data: 42 }
+    }
+
+    expect(await collect(readEventStream(toEventStream(events())))).toEqual([
+      { type: "delta", text: "ನಮ" },
+      { type: "delta", text: "ಸ್ಕಾರ" },
+      { type: "done", data: 42 }
+    ])
+  })
+
+  it("should read lines split across chunks", async () => {
+    const body = bodyOf(
+      '{"type":"delta","te',
+      'xt":"a"}\n{"type":"do',
+      'ne","data":1}\n'
+    )
+
+    expect(await collect(readEventStream(body))).toEqual([
+      { type: "delta", text: "a" },
+      { type: "done", data: 1 }
+    ])
+  })
+
+  it("should report a stream that ends without a result as interrupted", async () => {
+    const body = bodyOf('{"type":"delta","text":"a"}\n{"type":"do')
+
+    expect(await collect(readEventStream(body))).toEqual([
+      { type: "delta", text: "a" },
+      { type: "error", message: STREAM_INTERRUPTED_MESSAGE }
+    ])
+  })
+
+  it("should pass error events through", async () => {
+    const body = bodyOf('{"type":"error","message":"No reply"}\n')
+
+    expect(await collect(readEventStream(body))).toEqual([
+      { type: "error", message: "No reply" }
+    ])
+  })
+
+  it("should stop producing events when the reader cancels", async () => {
+    let finished = false
+    async function* events(): AsyncGenerator<AIStreamEvent<number>> {
+      try {
+        for (;;) yield { type: "delta", text: "." }
+      } finally {
+        finished = true
+      }
+    }
+
+    const reader = toEventStream(events()).getReader()
+    await reader.read()
+    await reader.cancel()
+
+    expect(finished).toBe(true)
+  })
+})
+
+describe("partialJsonString", () => {
+  it("should return null until the field starts", () => {
+    expect(partialJsonString("", "reply")).toBeNull()
+    expect(partialJsonString('{"reply"', "reply")).toBeNull()
+    expect(partialJsonString('{"reply": ', "reply")).toBeNull()
+  })
+
+  it("should read the field so far and when complete", () => {
+    expect(partialJsonString('{"reply": "ನಮಸ್', "reply")).toBe("ನಮಸ್")
+    expect(
+      partialJsonString('{"reply": "ನಮಸ್ಕಾರ", "translation": "Hello"}', "reply")
+    ).toBe("ನಮಸ್ಕಾರ")
+  })
+
+  it("should decode escapes and leave out one that is cut off", () => {
+    expect(partialJsonString('{"reply": "a\\"b\\nc\\u0ca', "reply")).toBe(
+      'a"b\nc'
+    )
+    expect(partialJsonString('{"reply": "a\\u0c95\\', "reply")).toBe("aಕ")
+  })
+
+  it("should only ever grow as more JSON arrives", () => {
+    const json = JSON.stringify({ reply: 'ಹೇಳಿ "ನಮಸ್ಕಾರ"\nಈಗ', summary: "x" })
+    let previous = ""
+    for (let i = 0; i <= json.length; i++) {
+      const text = partialJsonString(json.slice(0, i), "reply") ?? ""
+      expect(text.startsWith(previous)).toBe(true)
+      previous = text
+    }
+    expect(previous).toBe('ಹೇಳಿ "ನಮಸ್ಕಾರ"\nಈಗ')
+  })
+})
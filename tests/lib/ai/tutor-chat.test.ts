@@ -0,0 +1,103 @@
+/**
+ * @description
+ * Unit tests for the AI tutor chat prompt, reply parsing and conversation titles in the Learn Kannada app.
+ */
+import {
+  TUTOR_HISTORY_LIMIT,
+  TUTOR_TITLE_LENGTH,
+  buildTutorMessages,
+  conversationTitle,
+  parseTutorReply
+} from "@/lib/ai/tutor-chat"
+import { TutorMessageRole } from "@/types"
+
+describe("buildTutorMessages", () => {
+  it("should pitch the system prompt at the level and end with the new message", () => {
+    const beginner = buildTutorMessages("beginner", [], "ನಮಸ್ಕಾರ")
+    const advanced = buildTutorMessages("advanced", [], "ನಮಸ್ಕಾರ")
+
+    expect(beginner[0].role).toBe("system")
+    expect(beginner[0].content).toContain("beginner")
+    expect(advanced[0].content).toContain("advanced")
+    expect(beginner[beginner.length - 1]).toEqual({
+      role: "user",
+      content: "ನಮಸ್ಕಾರ"
+    })
+  })
+
+  it("should send only the most recent history", () => {
+    const history = Array.from({ length: TUTOR_HISTORY_LIMIT + 5 }, (_, i) => ({
+      role: (i % 2 === 0 ? "user" : "assistant") as TutorMessageRole,
+      content: `turn ${i}`
+    }))
+
+    const messages = buildTutorMessages("intermediate", history, "ಹೊಸ")
+
+    expect(messages).toHaveLength(TUTOR_HISTORY_LIMIT + 2)
+    expect(messages[1].content).toBe("turn 5")
+    expect(messages[messages.length - 2].content).toBe(
+      `turn ${TUTOR_HISTORY_LIMIT + 4}`
+    )
+  })
+})
+
+describe("parseTutorReply", () => {
+  const message = "ನಾನು ಮನೆ ಹೋಗುತ್ತೇನೆ"
+  const reply = (fields: object) =>
+    JSON.stringify({
+      reply: "ಒಳ್ಳೆಯದು! ಮನೆಗೆ ಯಾವಾಗ ಹೋಗುತ್ತೀರಿ?",
+      translation: "Good! When are you going home?",
+      errors: [],
+      correctedSentence: message,
+      summary: "No mistakes found.",
+      ...fields
+    })
+
+  it("should read the reply, translation and corrections", () => {
+    const parsed = parseTutorReply(
+      reply({
+        errors: [
+          {
+            text: "ಮನೆ",
+            category: "case-ending",
+            correction: "ಮನೆಗೆ",
+            explanation: "Going to a place takes the dative -ಗೆ."
+          }
+        ],
+        correctedSentence: "ನಾನು ಮನೆಗೆ ಹೋಗುತ್ತೇನೆ",
+        summary: "One case ending is missing."
+      }),
+      message
+    )
+
+    expect(parsed?.reply).toBe("ಒಳ್ಳೆಯದು! ಮನೆಗೆ ಯಾವಾಗ ಹೋಗುತ್ತೀರಿ?")
+    expect(parsed?.translation).toBe("Good! When are you going home?")
+    expect(parsed?.corrections.sentence).toBe(message)
+    expect(parsed?.corrections.errors).toEqual([
+      expect.objectContaining({ start: 5, end: 8, text: "ಮನೆ" })
+    ])
+  })
+
+  it("should reject replies that are not the expected JSON", () => {
+    expect(parseTutorReply("ನಮಸ್ಕಾರ", message)).toBeNull()
+    expect(parseTutorReply(reply({ reply: "  " }), message)).toBeNull()
+    expect(
+      parseTutorReply(JSON.stringify({ reply: "ನಮಸ್ಕಾರ" }), message)
+    ).toBeNull()
+  })
+})
+
+describe("conversationTitle", () => {
+  it("should keep short messages on one line", () => {
+    expect(conversationTitle("  ನಮಸ್ಕಾರ,\n ಹೇಗಿದ್ದೀರಿ? ")).toBe(
+      "ನಮಸ್ಕಾರ, ಹೇಗಿದ್ದೀರಿ?"
+    )
+  })
+
+  it("should shorten long messages", () => {
+    const title = conversationTitle("ಕನ್ನಡ ".repeat(30))
+
+    expect(title).toHaveLength(TUTOR_TITLE_LENGTH)
+    expect(title.endsWith("…")).toBe(true)
+  })
+})
@@ -0,0 +1,207 @@
+/**
+ * @description
+ * Unit tests for the curriculum bundle format in the Learn Kannada app.
+ */
+import {
+  applyVocabularyCsv,
+  assignMissingSlugs,
+  formatVocabularyCsv,
+  parseCurriculumBundle,
+  parseVocabularyCsv,
+  slugify
+} from "@/lib/curriculum-bundle/bundle-format"
+import { CurriculumBundle } from "@/types"
+
+describe("curriculum bundle format", () => {
+  const bundle: CurriculumBundle = {
+    format: "learn-kannada-curriculum",
+    version: 1,
+    units: [{ slug: "greetings", title: "Greetings", position: 0 }],
+    lessons: [
+      {
+        slug: "greetings-basics",
+        title: "Saying hello",
+        level: "beginner",
+        unit: "greetings",
+        position: 0,
+        prerequisites: [],
+        content: {
+          version: 1,
+          grammarNotes: [],
+          vocabulary: [{ kannada: "ನಮಸ್ಕಾರ", english: "hello" }],
+          examples: [],
+          dialogues: [],
+          culturalNotes: []
+        },
+        exercises: [
+          {
+            slug: "say-hello",
+            type: "speaking",
+            content: {
+              phrase: "ನಮಸ್ಕಾರ",
+              audioUrl: "https://cdn.example.com/audio/namaskara.mp3"
+            }
+          }
+        ]
+      }
+    ]
+  }
+
+  describe("parseCurriculumBundle", () => {
+    it("should accept a valid bundle and fill in defaults", () => {
+      const { prerequisites: _prerequisites, ...lesson } = bundle.lessons[0]
+      const result = parseCurriculumBundle(
+        JSON.stringify({ ...bundle, lessons: [lesson] })
+      )
+
+      expect(result).toEqual({ success: true, data: bundle })
+    })
+
+    it("should reject text that is not JSON", () => {
+      expect(parseCurriculumBundle("{ nope")).toEqual({
+        success: false,
+        errors: [{ path: "bundle", message: "Not valid JSON" }]
+      })
+    })
+
+    it("should locate invalid slugs, audio URLs and duplicates by path", () => {
+      const invalid = {
+        ...bundle,
+        units: [...bundle.units, bundle.units[0]],
+        lessons: [
+          {
+            ...bundle.lessons[0],
+            slug: "Saying Hello",
+            exercises: [
+              {
+                ...bundle.lessons[0].exercises[0],
+                content: { phrase: "ನಮಸ್ಕಾರ", audioUrl: "namaskara.mp3" }
+              }
+            ]
+          }
+        ]
+      }
+
+      const result = parseCurriculumBundle(JSON.stringify(invalid))
+
+      expect(result.success).toBe(false)
+      if (result.success) return
+      expect(result.errors.map(error => error.path)).toEqual([
+        "lessons.0.slug",
+        "lessons.0.exercises.0.content.audioUrl"
+      ])
+
+      const duplicates = parseCurriculumBundle(
+        JSON.stringify({ ...bundle, units: invalid.units })
+      )
+      expect(duplicates).toEqual({
+        success: false,
+        errors: [
+          { path: "units.1.slug", message: 'Duplicate slug "greetings"' }
+        ]
+      })
+    })
+  })
+
+  describe("vocabulary CSV", () => {
+    it("should parse rows, numbering errors like spreadsheet lines", () => {
+      const result = parseVocabularyCsv(
+        "lesson,kannada,english,audioUrl\n" +
+          "greetings-basics,ಹೋಗಿ ಬನ್ನಿ,goodbye,\n" +
+          "greetings-basics,ನೀರು,,not-a-url\n"
+      )
+
+      expect(result).toEqual({
+        success: false,
+        errors: [
+          { path: "vocabulary.csv:3.english", message: "Required" },
+          { path: "vocabulary.csv:3.audioUrl", message: "Must be a valid URL" }
+        ]
+      })
+    })
+
+    it("should require the lesson, kannada and english columns", () => {
+      expect(parseVocabularyCsv("lesson,english\n")).toEqual({
+        success: false,
+        errors: [
+          { path: "vocabulary.csv:1", message: "Missing column(s): kannada" }
+        ]
+      })
+    })
+
+    it("should replace a lesson's vocabulary with its rows", () => {
+      const rows = parseVocabularyCsv(
+        "lesson,kannada,transliteration,english\n" +
+          "greetings-basics,ಹೋಗಿ ಬನ್ನಿ,hōgi banni,goodbye\n"
+      )
+      if (!rows.success) throw new Error("expected valid rows")
+
+      const empty = { ...bundle, units: [], lessons: [] }
+      const result = applyVocabularyCsv(empty, rows.data, bundle)
+
+      expect(result.success).toBe(true)
+      if (!result.success) return
+      expect(result.data.lessons[0].content.vocabulary).toEqual([
+        {
+          kannada: "ಹೋಗಿ ಬನ್ನಿ",
+          transliteration: "hōgi banni",
+          english: "goodbye"
+        }
+      ])
+    })
+
+    it("should reject rows for unknown lessons", () => {
+      const result = applyVocabularyCsv(
+        bundle,
+        [{ lesson: "missing", kannada: "ನೀರು", english: "water" }],
+        bundle
+      )
+
+      expect(result).toEqual({
+        success: false,
+        errors: [
+          {
+            path: "vocabulary.csv:2.lesson",
+            message: 'Unknown lesson "missing"'
+          }
+        ]
+      })
+    })
+
+    it("should export vocabulary that parses back to the same rows", () => {
+      const csv = formatVocabularyCsv(bundle)
+
+      expect(csv).toBe(
+        "lesson,kannada,transliteration,english,partOfSpeech,audioUrl\n" +
+          "greetings-basics,ನಮಸ್ಕಾರ,,hello,,\n"
+      )
+      expect(parseVocabularyCsv(csv)).toEqual({
+        success: true,
+        data: [
+          { lesson: "greetings-basics", kannada: "ನಮಸ್ಕಾರ", english: "hello" }
+        ]
+      })
+    })
+  })
+
+  describe("slugs", () => {
+    it("should slugify titles, falling back for non-latin text", () => {
+      expect(slugify("Saying Hello!")).toBe("saying-hello")
+      expect(slugify("Café  Kannada 101")).toBe("cafe-kannada-101")
+      expect(slugify("ನಮಸ್ಕಾರ", "lesson")).toBe("lesson")
+    })
+
+    it("should only assign slugs to rows without one, avoiding taken slugs", () => {
+      const assigned = assignMissingSlugs([
+        { id: "1", slug: "greetings", name: "Greetings" },
+        { id: "2", slug: null, name: "Greetings" },
+        { id: "3", slug: null, name: "Greetings" }
+      ])
+
+      expect([...assigned]).toEqual([
+        ["2", "greetings-2"],
+        ["3", "greetings-3"]
+      ])
+    })
+  })
+})
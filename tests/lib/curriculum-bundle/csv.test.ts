@@ -0,0 +1,43 @@
+/**
+ * @description
+ * Unit tests for CSV reading and writing in the Learn Kannada app.
+ */
+import { formatCsv, parseCsv } from "@/lib/curriculum-bundle/csv"
+
+describe("parseCsv", () => {
+  it("should split rows and fields", () => {
+    expect(parseCsv("a,b,c\n1,2,3\n")).toEqual([
+      ["a", "b", "c"],
+      ["1", "2", "3"]
+    ])
+  })
+
+  it("should handle quoted commas, quotes and line breaks", () => {
+    expect(parseCsv('word,note\nನೀರು,"water, ""cold""\nor hot"')).toEqual([
+      ["word", "note"],
+      ["ನೀರು", 'water, "cold"\nor hot']
+    ])
+  })
+
+  it("should accept CRLF endings, skip blank lines and ignore a byte order mark", () => {
+    expect(parseCsv("\uFEFFa,b\r\n\r\n1,\r\n")).toEqual([
+      ["a", "b"],
+      ["1", ""]
+    ])
+  })
+})
+
+describe("formatCsv", () => {
+  it("should round-trip through parseCsv", () => {
+    const rows = [
+      ["lesson", "english"],
+      ["greetings", 'hello, "friend"'],
+      ["greetings", "line\nbreak"]
+    ]
+
+    expect(formatCsv(rows)).toBe(
+      'lesson,english\ngreetings,"hello, ""friend"""\ngreetings,"line\nbreak"\n'
+    )
+    expect(parseCsv(formatCsv(rows))).toEqual(rows)
+  })
+})
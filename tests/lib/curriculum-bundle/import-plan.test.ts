@@ -0,0 +1,154 @@
+/**
+ * @description
+ * Unit tests for curriculum import planning in the Learn Kannada app.
+ */
+import { planCurriculumImport } from "@/lib/curriculum-bundle/import-plan"
+import { BundleLesson, CurriculumBundle } from "@/types"
+
+describe("planCurriculumImport", () => {
+  const lesson = (
+    slug: string,
+    prerequisites: string[] = []
+  ): BundleLesson => ({
+    slug,
+    title: slug,
+    level: "beginner",
+    position: 0,
+    prerequisites,
+    content: {
+      version: 1,
+      grammarNotes: [],
+      vocabulary: [],
+      examples: [],
+      dialogues: [],
+      culturalNotes: []
+    },
+    exercises: [
+      {
+        slug: "quiz",
+        type: "quiz",
+        content: {
+          question: `${slug}?`,
+          options: ["yes", "no"],
+          correctAnswer: "yes"
+        }
+      }
+    ]
+  })
+
+  const bundleOf = (
+    lessons: BundleLesson[],
+    units: CurriculumBundle["units"] = []
+  ): CurriculumBundle => ({
+    format: "learn-kannada-curriculum",
+    version: 1,
+    units,
+    lessons
+  })
+
+  it("should create everything in an empty curriculum", () => {
+    const plan = planCurriculumImport(
+      bundleOf(
+        [lesson("intro")],
+        [{ slug: "basics", title: "Basics", position: 0 }]
+      ),
+      bundleOf([])
+    )
+
+    expect(plan).toEqual({
+      items: [
+        { kind: "unit", slug: "basics", action: "create" },
+        { kind: "lesson", slug: "intro", action: "create" },
+        { kind: "exercise", slug: "intro/quiz", action: "create" }
+      ],
+      errors: []
+    })
+  })
+
+  it("should be idempotent: importing the current curriculum changes nothing", () => {
+    const current = bundleOf([lesson("intro"), lesson("numbers", ["intro"])])
+
+    const plan = planCurriculumImport(structuredClone(current), current)
+
+    expect(plan.errors).toEqual([])
+    expect(plan.items.every(item => item.action === "unchanged")).toBe(true)
+  })
+
+  it("should ignore key order and prerequisite order when comparing", () => {
+    const stored = bundleOf([lesson("a"), lesson("b"), lesson("c", ["a", "b"])])
+    const incoming = lesson("c", ["b", "a"])
+    incoming.exercises = [
+      {
+        slug: "quiz",
+        content: {
+          correctAnswer: "yes",
+          options: ["yes", "no"],
+          question: "c?"
+        },
+        type: "quiz"
+      }
+    ]
+
+    const plan = planCurriculumImport(bundleOf([incoming]), stored)
+
+    expect(plan.items.map(item => item.action)).toEqual([
+      "unchanged",
+      "unchanged"
+    ])
+  })
+
+  it("should report updated lessons and exercises separately", () => {
+    const stored = bundleOf([lesson("intro")])
+    const renamed = { ...lesson("intro"), title: "Introduction" }
+    const reworded = lesson("intro")
+    reworded.exercises[0].content = {
+      question: "Changed?",
+      options: ["yes", "no"],
+      correctAnswer: "yes"
+    }
+
+    expect(
+      planCurriculumImport(bundleOf([renamed]), stored).items.map(
+        item => item.action
+      )
+    ).toEqual(["update", "unchanged"])
+    expect(
+      planCurriculumImport(bundleOf([reworded]), stored).items.map(
+        item => item.action
+      )
+    ).toEqual(["unchanged", "update"])
+  })
+
+  it("should resolve references against the bundle and the current curriculum", () => {
+    const stored = bundleOf(
+      [lesson("intro")],
+      [{ slug: "basics", title: "Basics", position: 0 }]
+    )
+    const next = { ...lesson("numbers", ["intro"]), unit: "basics" }
+    const broken = { ...lesson("colors", ["nope", "colors"]), unit: "missing" }
+
+    const plan = planCurriculumImport(bundleOf([next, broken]), stored)
+
+    expect(plan.errors).toEqual([
+      { path: "lessons.1.unit", message: 'Unknown unit "missing"' },
+      { path: "lessons.1.prerequisites.0", message: 'Unknown lesson "nope"' },
+      {
+        path: "lessons.1.prerequisites.1",
+        message: "A lesson cannot require itself"
+      }
+    ])
+  })
+
+  it("should reject prerequisite cycles across bundle and stored lessons", () => {
+    const stored = bundleOf([lesson("a"), lesson("b", ["a"])])
+
+    const plan = planCurriculumImport(bundleOf([lesson("a", ["b"])]), stored)
+
+    expect(plan.errors).toEqual([
+      {
+        path: "lessons.0.prerequisites",
+        message: "Prerequisites cannot form a cycle"
+      }
+    ])
+  })
+})
@@ -0,0 +1,174 @@
+/**
+ * @description
+ * Unit tests for curriculum sequencing rules in the Learn Kannada app.
+ */
+import {
+  computeLessonStatuses,
+  findContinueLesson,
+  wouldCreateCycle
+} from "@/lib/curriculum/lesson-status"
+import { CurriculumLesson } from "@/types"
+
+describe("Curriculum lesson status", () => {
+  const lesson = (
+    id: string,
+    completion = 0,
+    level = "beginner",
+    exerciseCount = 3
+  ) => ({
+    id,
+    level,
+    completion,
+    exerciseCount
+  })
+
+  describe("computeLessonStatuses", () => {
+    it("should unlock lessons in sequence within a level", () => {
+      const statuses = computeLessonStatuses(
+        [lesson("a", 100), lesson("b", 40), lesson("c")],
+        []
+      )
+
+      expect(statuses.get("a")).toBe("completed")
+      expect(statuses.get("b")).toBe("available")
+      expect(statuses.get("c")).toBe("locked")
+    })
+
+    it("should open the first lesson of each level", () => {
+      const statuses = computeLessonStatuses(
+        [lesson("a"), lesson("b", 0, "intermediate")],
+        []
+      )
+
+      expect(statuses.get("a")).toBe("available")
+      expect(statuses.get("b")).toBe("available")
+    })
+
+    it("should use explicit prerequisites instead of the previous lesson", () => {
+      const statuses = computeLessonStatuses(
+        [lesson("a", 100), lesson("b"), lesson("c")],
+        [{ lessonId: "c", prerequisiteLessonId: "a" }]
+      )
+
+      expect(statuses.get("b")).toBe("available")
+      expect(statuses.get("c")).toBe("available")
+    })
+
+    it("should lock a lesson until every prerequisite is completed", () => {
+      const statuses = computeLessonStatuses(
+        [lesson("a", 100), lesson("b", 50), lesson("c")],
+        [
+          { lessonId: "c", prerequisiteLessonId: "a" },
+          { lessonId: "c", prerequisiteLessonId: "b" }
+        ]
+      )
+
+      expect(statuses.get("c")).toBe("locked")
+    })
+
+    it("should keep completed lessons completed even if a prerequisite is not", () => {
+      const statuses = computeLessonStatuses(
+        [lesson("a"), lesson("b", 100)],
+        [{ lessonId: "b", prerequisiteLessonId: "a" }]
+      )
+
+      expect(statuses.get("b")).toBe("completed")
+    })
+
+    it("should count a lesson with no exercises as completed", () => {
+      const statuses = computeLessonStatuses(
+        [lesson("a", 100), lesson("b", 0, "beginner", 0), lesson("c")],
+        []
+      )
+
+      expect(statuses.get("b")).toBe("completed")
+      expect(statuses.get("c")).toBe("available")
+    })
+
+    it("should treat unknown prerequisites as satisfied", () => {
+      const statuses = computeLessonStatuses(
+        [lesson("a"), lesson("b")],
+        [{ lessonId: "b", prerequisiteLessonId: "missing" }]
+      )
+
+      expect(statuses.get("b")).toBe("available")
+    })
+  })
+
+  describe("findContinueLesson", () => {
+    const outline = (
+      entries: [string, CurriculumLesson["status"]][]
+    ): CurriculumLesson[] =>
+      entries.map(([id, status], position) => ({
+        id,
+        title: id,
+        level: "beginner",
+        unitId: null,
+        position,
+        completion: status === "completed" ? 100 : 0,
+        status,
+        prerequisiteIds: []
+      }))
+
+    it("should resume the last opened lesson while it is in progress", () => {
+      const lessons = outline([
+        ["a", "available"],
+        ["b", "available"]
+      ])
+
+      expect(findContinueLesson(lessons, "b")?.id).toBe("b")
+    })
+
+    it("should move on to the next open lesson after a completed one", () => {
+      const lessons = outline([
+        ["a", "available"],
+        ["b", "completed"],
+        ["c", "available"]
+      ])
+
+      expect(findContinueLesson(lessons, "b")?.id).toBe("c")
+    })
+
+    it("should fall back to the first open lesson", () => {
+      const lessons = outline([
+        ["a", "completed"],
+        ["b", "available"]
+      ])
+
+      expect(findContinueLesson(lessons)?.id).toBe("b")
+      expect(findContinueLesson(lessons, "unknown")?.id).toBe("b")
+    })
+
+    it("should return null when nothing is open", () => {
+      const lessons = outline([
+        ["a", "completed"],
+        ["b", "locked"]
+      ])
+
+      expect(findContinueLesson(lessons, "a")).toBeNull()
+    })
+  })
+
+  describe("wouldCreateCycle", () => {
+    const edges = [
+      { lessonId: "b", prerequisiteLessonId: "a" },
+      { lessonId: "c", prerequisiteLessonId: "b" }
+    ]
+
+    it("should detect indirect cycles", () => {
+      expect(wouldCreateCycle(edges, "a", ["c"])).toBe(true)
+    })
+
+    it("should detect self references", () => {
+      expect(wouldCreateCycle(edges, "a", ["a"])).toBe(true)
+    })
+
+    it("should allow acyclic prerequisites", () => {
+      expect(wouldCreateCycle(edges, "c", ["a", "b"])).toBe(false)
+    })
+
+    it("should ignore the lesson's current edges when replacing them", () => {
+      expect(wouldCreateCycle(edges, "b", [])).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,147 @@
+/**
+ * @description
+ * Unit tests for the learner-facing exercise projection in the Learn Kannada app.
+ */
+import { toLearnerExercise } from "@/lib/exercises/learner-exercise"
+
+describe("toLearnerExercise", () => {
+  it("should drop the answer keys of text exercises", () => {
+    expect(
+      toLearnerExercise({
+        id: "q",
+        type: "quiz",
+        content: {
+          question: "What does ನೀರು mean?",
+          options: ["water", "milk"],
+          correctAnswer: "water"
+        }
+      })
+    ).toEqual({
+      id: "q",
+      type: "quiz",
+      content: { question: "What does ನೀರು mean?", options: ["water", "milk"] }
+    })
+    expect(
+      toLearnerExercise({
+        id: "w",
+        type: "writing",
+        content: {
+          prompt: "Write 'water'",
+          correctAnswer: "ನೀರು",
+          acceptedAnswers: ["neeru"]
+        }
+      })
+    ).toEqual({
+      id: "w",
+      type: "writing",
+      content: { prompt: "Write 'water'" }
+    })
+    expect(
+      toLearnerExercise({
+        id: "t",
+        type: "translation",
+        content: {
+          source: "ನಮಸ್ಕಾರ",
+          direction: "kn-en",
+          acceptedAnswers: ["hello"]
+        }
+      })
+    ).toEqual({
+      id: "t",
+      type: "translation",
+      content: { source: "ನಮಸ್ಕಾರ", direction: "kn-en" }
+    })
+  })
+
+  it("should keep only the hints of fill-blank answers", () => {
+    expect(
+      toLearnerExercise({
+        id: "f",
+        type: "fill-blank",
+        content: {
+          sentence: "ನಾನು ಮನೆ___ ಹೋಗುತ್ತೇನೆ",
+          blanks: [{ answer: "ಗೆ", hint: "dative" }]
+        }
+      })
+    ).toEqual({
+      id: "f",
+      type: "fill-blank",
+      content: { sentence: "ನಾನು ಮನೆ___ ಹೋಗುತ್ತೇನೆ", hints: ["dative"] }
+    })
+  })
+
+  it("should send matching columns without their pairing", () => {
+    const exercise = toLearnerExercise({
+      id: "m",
+      type: "matching",
+      content: {
+        pairs: [
+          { kannada: "ನೀರು", english: "water" },
+          { kannada: "ಹಾಲು", english: "milk" },
+          { kannada: "ಮನೆ", english: "house" }
+        ]
+      }
+    })
+
+    if (exercise?.type !== "matching") throw new Error("Expected matching")
+    expect(exercise.content.kannadaItems).toEqual(["ನೀರು", "ಹಾಲು", "ಮನೆ"])
+    expect(exercise.content.englishItems).not.toEqual([
+      "water",
+      "milk",
+      "house"
+    ])
+    expect([...exercise.content.englishItems].sort()).toEqual([
+      "house",
+      "milk",
+      "water"
+    ])
+    expect(exercise.content).not.toHaveProperty("pairs")
+  })
+
+  it("should shuffle word-order words the same way every time", () => {
+    const stored = {
+      id: "o",
+      type: "word-order" as const,
+      content: { words: ["ನಾನು", "ಮನೆಗೆ", "ಹೋಗುತ್ತೇನೆ"] }
+    }
+    const exercise = toLearnerExercise(stored)
+
+    expect(exercise).toEqual(toLearnerExercise(stored))
+    if (exercise?.type !== "word-order") throw new Error("Expected word-order")
+    expect(exercise.content.words).not.toEqual(stored.content.words)
+    expect([...exercise.content.words].sort()).toEqual(
+      [...stored.content.words].sort()
+    )
+  })
+
+  it("should send dictation text only when there is no recording", () => {
+    expect(
+      toLearnerExercise({
+        id: "d",
+        type: "dictation",
+        content: { text: "ನಮಸ್ಕಾರ", audioUrl: "https://example.com/a.mp3" }
+      })
+    ).toEqual({
+      id: "d",
+      type: "dictation",
+      content: { audioUrl: "https://example.com/a.mp3" }
+    })
+    expect(
+      toLearnerExercise({
+        id: "d",
+        type: "dictation",
+        content: { text: "ನಮಸ್ಕಾರ" }
+      })
+    ).toEqual({
+      id: "d",
+      type: "dictation",
+      content: { speechText: "ನಮಸ್ಕಾರ" }
+    })
+  })
+
+  it("should return null for content that does not fit its type", () => {
+    expect(
+      toLearnerExercise({ id: "x", type: "quiz", content: { prompt: "x" } })
+    ).toBeNull()
+  })
+})
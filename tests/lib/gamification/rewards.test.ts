@@ -0,0 +1,180 @@
+/**
+ * @description
+ * Unit tests for XP, streak and badge rules in the Learn Kannada app.
+ */
+import {
+  applyExerciseReward,
+  applyXpReward,
+  calculateExerciseXp,
+  calculateRolePlayXp,
+  calculateStreak,
+  findNewBadges
+} from "@/lib/gamification/rewards"
+
+describe("Gamification rewards", () => {
+  describe("calculateExerciseXp", () => {
+    it("should scale XP with the lesson level and exercise type", () => {
+      expect(calculateExerciseXp(1, "quiz", "beginner")).toBe(10)
+      expect(calculateExerciseXp(1, "quiz", "intermediate")).toBe(15)
+      expect(calculateExerciseXp(1, "translation", "advanced")).toBe(25)
+    })
+
+    it("should award XP in proportion to the score", () => {
+      expect(calculateExerciseXp(0.5, "writing", "beginner")).toBe(8)
+      expect(calculateExerciseXp(0, "writing", "advanced")).toBe(0)
+    })
+
+    it("should clamp scores outside 0 to 1", () => {
+      expect(calculateExerciseXp(2, "quiz", "beginner")).toBe(10)
+      expect(calculateExerciseXp(-1, "quiz", "beginner")).toBe(0)
+    })
+  })
+
+  describe("calculateStreak", () => {
+    const day = (date: string) => new Date(`${date}T12:00:00Z`)
+
+    it("should start a streak on the first activity", () => {
+      expect(calculateStreak(0, null, day("2024-05-01"))).toBe(1)
+    })
+
+    it("should keep the streak for activity on the same day", () => {
+      expect(
+        calculateStreak(
+          3,
+          new Date("2024-05-01T00:30:00Z"),
+          new Date("2024-05-01T23:30:00Z")
+        )
+      ).toBe(3)
+    })
+
+    it("should extend the streak on the next calendar day", () => {
+      expect(
+        calculateStreak(
+          3,
+          new Date("2024-05-01T23:30:00Z"),
+          new Date("2024-05-02T00:30:00Z")
+        )
+      ).toBe(4)
+    })
+
+    it("should restart the streak after a missed day", () => {
+      expect(calculateStreak(3, day("2024-05-01"), day("2024-05-03"))).toBe(1)
+    })
+  })
+
+  describe("findNewBadges", () => {
+    it("should return badges reached and not yet held", () => {
+      expect(findNewBadges(160, ["Learner"])).toEqual(["Scholar"])
+      expect(findNewBadges(300, [])).toEqual(["Learner", "Scholar", "Master"])
+      expect(findNewBadges(40, [])).toEqual([])
+    })
+  })
+
+  describe("applyExerciseReward", () => {
+    const now = new Date("2024-05-02T09:00:00Z")
+
+    it("should create totals on the first submission", () => {
+      const { totals, reward } = applyExerciseReward(
+        null,
+        { score: 1, exerciseType: "quiz", level: "intermediate" },
+        now
+      )
+
+      expect(totals).toEqual({
+        xp: 15,
+        streak: 1,
+        badges: [],
+        lastActiveAt: now
+      })
+      expect(reward).toEqual({
+        xpEarned: 15,
+        totalXp: 15,
+        streak: 1,
+        streakExtended: true,
+        newBadges: []
+      })
+    })
+
+    it("should add XP, extend the streak and grant badges", () => {
+      const { totals, reward } = applyExerciseReward(
+        {
+          xp: 45,
+          streak: 3,
+          badges: [],
+          lastActiveAt: new Date("2024-05-01T20:00:00Z")
+        },
+        { score: 1, exerciseType: "dictation", level: "beginner" },
+        now
+      )
+
+      expect(totals.badges).toEqual(["Learner"])
+      expect(reward).toEqual({
+        xpEarned: 15,
+        totalXp: 60,
+        streak: 4,
+        streakExtended: true,
+        newBadges: ["Learner"]
+      })
+    })
+
+    it("should count wrong answers towards the streak without XP", () => {
+      const { reward } = applyExerciseReward(
+        {
+          xp: 20,
+          streak: 2,
+          badges: [],
+          lastActiveAt: new Date("2024-05-02T08:00:00Z")
+        },
+        { score: 0, exerciseType: "quiz", level: "beginner" },
+        now
+      )
+
+      expect(reward).toEqual({
+        xpEarned: 0,
+        totalXp: 20,
+        streak: 2,
+        streakExtended: false,
+        newBadges: []
+      })
+    })
+  })
+
+  describe("calculateRolePlayXp", () => {
+    it("should scale the level's role-play XP by the score", () => {
+      expect(calculateRolePlayXp(100, "beginner")).toBe(30)
+      expect(calculateRolePlayXp(50, "advanced")).toBe(30)
+      expect(calculateRolePlayXp(0, "intermediate")).toBe(0)
+    })
+
+    it("should clamp scores outside 0 to 100", () => {
+      expect(calculateRolePlayXp(150, "beginner")).toBe(30)
+      expect(calculateRolePlayXp(-10, "beginner")).toBe(0)
+    })
+  })
+
+  describe("applyXpReward", () => {
+    it("should add the XP and grant badges it unlocks", () => {
+      const now = new Date("2024-05-02T09:00:00Z")
+      const { totals, reward } = applyXpReward(
+        {
+          xp: 40,
+          streak: 1,
+          badges: [],
+          lastActiveAt: new Date("2024-05-01T20:00:00Z")
+        },
+        45,
+        now
+      )
+
+      expect(totals.xp).toBe(85)
+      expect(totals.lastActiveAt).toBe(now)
+      expect(reward).toEqual({
+        xpEarned: 45,
+        totalXp: 85,
+        streak: 2,
+        streakExtended: true,
+        newBadges: ["Learner"]
+      })
+    })
+  })
+})
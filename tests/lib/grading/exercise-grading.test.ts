@@ -0,0 +1,136 @@
+/**
+ * @description
+ * Unit tests for exercise grading in the Learn Kannada app.
+ */
+import { gradeExercise } from "@/lib/grading/exercise-grading"
+import { ExerciseDefinition } from "@/types"
+
+describe("gradeExercise", () => {
+  it("should grade text answers ignoring spacing, case and punctuation", () => {
+    const writing: ExerciseDefinition = {
+      type: "writing",
+      content: { prompt: "Say hello", correctAnswer: "ನಮಸ್ಕಾರ" }
+    }
+    expect(gradeExercise(writing, "  ನಮಸ್ಕಾರ! ")?.score).toBe(1)
+    expect(gradeExercise(writing, "ನೀರು")?.score).toBe(0)
+  })
+
+  it("should accept spelling variants and alternatives as correct", () => {
+    const writing: ExerciseDefinition = {
+      type: "writing",
+      content: {
+        prompt: "Write 'Bengaluru'",
+        correctAnswer: "ಬೆಂಗಳೂರು",
+        acceptedAnswers: ["ಬೆಂಗಳೂರ್"]
+      }
+    }
+    const variant = gradeExercise(writing, "ಬೆಗಲುರು")
+    expect(variant?.score).toBe(1)
+    expect(variant?.feedback).toContain('"ಬೆಂ" instead of "ಬೆ"')
+    expect(gradeExercise(writing, "ಬೆಂಗಳೂರ್")?.score).toBe(1)
+  })
+
+  it("should read romanized answers as Kannada", () => {
+    const writing: ExerciseDefinition = {
+      type: "writing",
+      content: { prompt: "Write 'he'", correctAnswer: "ಅವನು" }
+    }
+    const result = gradeExercise(writing, "avanu")
+    expect(result?.score).toBe(1)
+    expect(result?.feedback).toContain("ಅವನು")
+  })
+
+  it("should give partial credit for near misses and name the wrong aksharas", () => {
+    const writing: ExerciseDefinition = {
+      type: "writing",
+      content: { prompt: "Write 'he'", correctAnswer: "ಅವನು" }
+    }
+    const result = gradeExercise(writing, "ಅವನ")
+    expect(result?.score).toBeCloseTo(0.67)
+    expect(result?.feedback).toContain('"ನು" instead of "ನ"')
+    expect(gradeExercise(writing, "ಮನೆ")?.score).toBe(0)
+  })
+
+  it("should keep quiz answers exact", () => {
+    const quiz: ExerciseDefinition = {
+      type: "quiz",
+      content: {
+        question: "Which means 'water'?",
+        options: ["ನೀರು", "ನಿರು"],
+        correctAnswer: "ನೀರು"
+      }
+    }
+    expect(gradeExercise(quiz, "ನಿರು")?.score).toBe(0)
+  })
+
+  it("should accept any accepted translation", () => {
+    const translation: ExerciseDefinition = {
+      type: "translation",
+      content: {
+        source: "ನಾನು ಮನೆಗೆ ಹೋಗುತ್ತೇನೆ",
+        direction: "kn-en",
+        acceptedAnswers: ["I am going home", "I will go home"]
+      }
+    }
+    expect(gradeExercise(translation, "I will go home.")?.score).toBe(1)
+    const wrong = gradeExercise(translation, "I went home")
+    expect(wrong?.score).toBe(0)
+    expect(wrong?.feedback).toContain("I am going home")
+  })
+
+  it("should give partial credit per matched pair", () => {
+    const matching: ExerciseDefinition = {
+      type: "matching",
+      content: {
+        pairs: [
+          { kannada: "ನೀರು", english: "water" },
+          { kannada: "ಹಾಲು", english: "milk" }
+        ]
+      }
+    }
+    expect(
+      gradeExercise(matching, { ನೀರು: "water", ಹಾಲು: "milk" })?.score
+    ).toBe(1)
+    expect(gradeExercise(matching, { ನೀರು: "milk", ಹಾಲು: "milk" })?.score).toBe(
+      0.5
+    )
+  })
+
+  it("should grade each blank and name the wrong ones", () => {
+    const fillBlank: ExerciseDefinition = {
+      type: "fill-blank",
+      content: {
+        sentence: "ನಾನು ಮನೆ___ ಹೋಗಿ ಊಟ___ ಮಾಡಿದೆ",
+        blanks: [{ answer: "ಗೆ", hint: "dative" }, { answer: "ವನ್ನು" }]
+      }
+    }
+    expect(gradeExercise(fillBlank, ["ಗೆ", "ವನ್ನು"])?.score).toBe(1)
+    expect(gradeExercise(fillBlank, ["ge", "ವನ್ನು"])?.score).toBe(1)
+    const partial = gradeExercise(fillBlank, ["ಗೆ", "ಅನ್ನು"])
+    expect(partial?.score).toBe(0.5)
+    expect(partial?.feedback).toContain('blank 2 is "ವನ್ನು"')
+  })
+
+  it("should grade word order on the whole sentence", () => {
+    const wordOrder: ExerciseDefinition = {
+      type: "word-order",
+      content: { words: ["ನಾನು", "ಊಟ", "ಮಾಡಿದೆ"] }
+    }
+    expect(gradeExercise(wordOrder, ["ನಾನು", "ಊಟ", "ಮಾಡಿದೆ"])?.score).toBe(1)
+    expect(gradeExercise(wordOrder, ["ಊಟ", "ನಾನು", "ಮಾಡಿದೆ"])?.score).toBe(0)
+  })
+
+  it("should return null for responses of the wrong shape", () => {
+    const dictation: ExerciseDefinition = {
+      type: "dictation",
+      content: { text: "ನಮಸ್ಕಾರ" }
+    }
+    expect(gradeExercise(dictation, ["ನಮಸ್ಕಾರ"])).toBeNull()
+    expect(
+      gradeExercise(
+        { type: "word-order", content: { words: ["ನಾನು", "ಬಂದೆ"] } },
+        "ನಾನು ಬಂದೆ"
+      )
+    ).toBeNull()
+  })
+})
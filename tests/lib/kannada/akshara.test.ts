@@ -0,0 +1,163 @@
+/**
+ * @description
+ * Unit tests for akshara segmentation, normalization and distance in the Learn Kannada app.
+ */
+import {
+  aksharaDistance,
+  aksharaSimilarity,
+  alignAkshara,
+  foldKannadaSpelling,
+  normalizeKannada,
+  segmentAkshara
+} from "@/lib/kannada/akshara"
+
+describe("segmentAkshara", () => {
+  it.each([
+    ["ಕನ್ನಡ", ["ಕ", "ನ್ನ", "ಡ"]],
+    ["ನಮಸ್ಕಾರ", ["ನ", "ಮ", "ಸ್ಕಾ", "ರ"]],
+    ["ಲಕ್ಷ್ಮೀ", ["ಲ", "ಕ್ಷ್ಮೀ"]],
+    ["ಬೆಂಗಳೂರು", ["ಬೆಂ", "ಗ", "ಳೂ", "ರು"]],
+    ["ದುಃಖ", ["ದುಃ", "ಖ"]],
+    ["ಸ್ತ್ರೀ", ["ಸ್ತ್ರೀ"]],
+    ["ಆಟ", ["ಆ", "ಟ"]]
+  ])("should split %s into aksharas", (text, aksharas) => {
+    expect(segmentAkshara(text)).toEqual(aksharas)
+  })
+
+  it("should keep a word-final virama with its consonant", () => {
+    expect(segmentAkshara("ಬಸ್")).toEqual(["ಬ", "ಸ್"])
+    expect(segmentAkshara("ಬಸ್ ಬಂತು")).toEqual(["ಬ", "ಸ್", " ", "ಬಂ", "ತು"])
+  })
+
+  it("should join across a ZWJ but break after a ZWNJ", () => {
+    expect(segmentAkshara("\u0C95\u0CCD\u200D\u0CB7")).toEqual([
+      "\u0C95\u0CCD\u200D\u0CB7"
+    ])
+    expect(segmentAkshara("\u0C95\u0CCD\u200C\u0CB7")).toEqual([
+      "\u0C95\u0CCD\u200C",
+      "\u0CB7"
+    ])
+  })
+
+  it("should keep nukta consonants together", () => {
+    expect(segmentAkshara("ಫ಼ೋನ್")).toEqual(["ಫ಼ೋ", "ನ್"])
+  })
+
+  it("should split other text into characters with their combining marks", () => {
+    expect(segmentAkshara("ok ಸರಿ!")).toEqual(["o", "k", " ", "ಸ", "ರಿ", "!"])
+    expect(segmentAkshara("kā")).toEqual(["k", "ā"])
+  })
+})
+
+describe("normalizeKannada", () => {
+  it("should compose two-part vowel signs", () => {
+    // ಹೋ as ಹ + ೆ + ೂ + ೕ
+    expect(normalizeKannada("\u0CB9\u0CC6\u0CC2\u0CD5")).toBe("ಹೋ")
+    // ಕೈ as ಕ + ೆ + ೖ
+    expect(normalizeKannada("\u0C95\u0CC6\u0CD6")).toBe("ಕೈ")
+  })
+
+  it("should drop zero-width joiners", () => {
+    expect(normalizeKannada("\u0C95\u0CCD\u200D\u0CB7")).toBe("ಕ್ಷ")
+    expect(normalizeKannada("ನಮ\u200Cಸ್ಕಾರ")).toBe("ನಮಸ್ಕಾರ")
+  })
+
+  it("should move a nukta typed after the vowel sign onto the consonant", () => {
+    expect(normalizeKannada("ಫೋ಼")).toBe("ಫ಼ೋ")
+  })
+
+  it("should read the digit zero after a letter as an anusvara", () => {
+    expect(normalizeKannada("ಸ೦ತೋಷ")).toBe("ಸಂತೋಷ")
+    expect(normalizeKannada("೧೦ ಮನೆ")).toBe("೧೦ ಮನೆ")
+  })
+
+  it("should remove accidentally repeated signs", () => {
+    expect(normalizeKannada("ಕಾಾಗದ")).toBe("ಕಾಗದ")
+    expect(normalizeKannada("ಬಸ್್")).toBe("ಬಸ್")
+  })
+
+  it("should leave already normal text unchanged", () => {
+    const text = "ನಾನು ಕನ್ನಡ ಕಲಿಯುತ್ತಿದ್ದೇನೆ."
+    expect(normalizeKannada(text)).toBe(text)
+  })
+})
+
+describe("aksharaDistance", () => {
+  it("should be zero for text that only differs in encoding", () => {
+    expect(
+      aksharaDistance("\u0CB9\u0CC6\u0CC2\u0CD5\u0C97\u0CBF", "ಹೋಗಿ")
+    ).toBe(0)
+    expect(aksharaDistance("ಸ೦ತೋಷ", "ಸಂತೋಷ")).toBe(0)
+  })
+
+  it("should count a wrong vowel sign or missing ottakshara as one edit", () => {
+    expect(aksharaDistance("ನೀರು", "ನಿರು")).toBe(1)
+    expect(aksharaDistance("ಕನ್ನಡ", "ಕನಡ")).toBe(1)
+    expect(aksharaDistance("ಲಕ್ಷ್ಮೀ", "ಲಕ್ಷೀ")).toBe(1)
+  })
+
+  it("should count insertions, deletions and substitutions", () => {
+    expect(aksharaDistance("", "ಕನ್ನಡ")).toBe(3)
+    expect(aksharaDistance("ಕನ್ನಡ", "")).toBe(3)
+    expect(aksharaDistance("ಮನೆ", "ಮನೆಗೆ")).toBe(1)
+    expect(aksharaDistance("ಹಾಲು", "ಹಲ್ಲು")).toBe(2)
+  })
+
+  it("should be symmetric", () => {
+    expect(aksharaDistance("ಬೆಂಗಳೂರು", "ಬೆಂಗಳುರು")).toBe(
+      aksharaDistance("ಬೆಂಗಳುರು", "ಬೆಂಗಳೂರು")
+    )
+  })
+})
+
+describe("aksharaSimilarity", () => {
+  it("should scale the distance by the longer text", () => {
+    expect(aksharaSimilarity("ಕನ್ನಡ", "ಕನ್ನಡ")).toBe(1)
+    expect(aksharaSimilarity("ನೀರು", "ನಿರು")).toBe(0.5)
+    expect(aksharaSimilarity("ಮನೆ", "ಹಾಲು")).toBe(0)
+    expect(aksharaSimilarity("", "")).toBe(1)
+  })
+})
+
+describe("alignAkshara", () => {
+  it("should point at the aksharas that differ", () => {
+    expect(alignAkshara("ಅವನು", "ಅವನ")).toEqual([
+      { kind: "match", expected: "ಅ", actual: "ಅ" },
+      { kind: "match", expected: "ವ", actual: "ವ" },
+      { kind: "substitute", expected: "ನು", actual: "ನ" }
+    ])
+  })
+
+  it("should report missing and extra aksharas", () => {
+    expect(
+      alignAkshara("ಮನೆಗೆ", "ಮನೆ").filter(edit => edit.kind !== "match")
+    ).toEqual([{ kind: "delete", expected: "ಗೆ" }])
+    expect(
+      alignAkshara("ಮನೆ", "ಮನೆಗೆ").filter(edit => edit.kind !== "match")
+    ).toEqual([{ kind: "insert", actual: "ಗೆ" }])
+  })
+
+  it("should have as many edits as the akshara distance", () => {
+    const edits = alignAkshara("ಹಾಲು", "ಹಲ್ಲು")
+    expect(edits.filter(edit => edit.kind !== "match")).toHaveLength(
+      aksharaDistance("ಹಾಲು", "ಹಲ್ಲು")
+    )
+  })
+})
+
+describe("foldKannadaSpelling", () => {
+  it("should treat short and long vowels alike", () => {
+    expect(foldKannadaSpelling("ನೀರು")).toBe(foldKannadaSpelling("ನಿರು"))
+    expect(foldKannadaSpelling("ಆಟ")).toBe(foldKannadaSpelling("ಅಟ"))
+    expect(foldKannadaSpelling("ಹಾಲು")).toBe(foldKannadaSpelling("ಹಲು"))
+  })
+
+  it("should treat ಳ as ಲ and ignore the anusvara", () => {
+    expect(foldKannadaSpelling("ಬೆಂಗಳೂರು")).toBe(foldKannadaSpelling("ಬೆಗಲುರು"))
+  })
+
+  it("should keep other differences", () => {
+    expect(foldKannadaSpelling("ಅವನು")).not.toBe(foldKannadaSpelling("ಅವಳು"))
+    expect(foldKannadaSpelling("ಕನ್ನಡ")).not.toBe(foldKannadaSpelling("ಕನಡ"))
+  })
+})
@@ -0,0 +1,172 @@
+/**
+ * @description
+ * Unit tests for practice session selection and summary rules in the Learn Kannada app.
+ */
+import {
+  PracticeAttempt,
+  PracticeCandidate,
+  selectPracticeItems,
+  summarizePracticeSession
+} from "@/lib/practice/practice-session"
+import { ExerciseType, PracticeSessionItem } from "@/types"
+
+describe("Practice sessions", () => {
+  const candidate = (
+    exerciseId: string,
+    exerciseType: ExerciseType = "quiz",
+    lessonStatus: PracticeCandidate["lessonStatus"] = "available"
+  ): PracticeCandidate => ({
+    exerciseId,
+    exerciseType,
+    lessonId: `lesson-${lessonStatus}`,
+    lessonRevisionId: `revision-${lessonStatus}`,
+    lessonStatus
+  })
+
+  const attempt = (
+    exerciseId: string,
+    score: number,
+    day: number,
+    exerciseType: ExerciseType = "quiz"
+  ): PracticeAttempt => ({
+    exerciseId,
+    exerciseType,
+    score,
+    createdAt: new Date(Date.UTC(2024, 4, day))
+  })
+
+  const reasons = (items: PracticeSessionItem[]) =>
+    Object.fromEntries(items.map(item => [item.exerciseId, item.reason]))
+
+  describe("selectPracticeItems", () => {
+    it("should take exercises from current lessons, unanswered first", () => {
+      const items = selectPracticeItems(
+        [candidate("a"), candidate("b"), candidate("c")],
+        [attempt("a", 1, 1)],
+        { size: 2, seed: "s" }
+      )
+
+      expect(reasons(items)).toEqual({ b: "lesson", c: "lesson" })
+    })
+
+    it("should include review items whose last answer was not fully correct", () => {
+      const items = selectPracticeItems(
+        [
+          candidate("done", "quiz", "completed"),
+          candidate("new-1"),
+          candidate("new-2")
+        ],
+        [attempt("done", 1, 1), attempt("done", 0.5, 2)],
+        { size: 3, seed: "s" }
+      )
+
+      expect(reasons(items)).toEqual({
+        done: "review",
+        "new-1": "lesson",
+        "new-2": "lesson"
+      })
+    })
+
+    it("should cap review items at their share of the session", () => {
+      const reviews = ["r1", "r2", "r3", "r4"]
+      const items = selectPracticeItems(
+        [
+          ...reviews.map(id => candidate(id, "matching", "completed")),
+          candidate("new-1", "matching"),
+          candidate("new-2", "matching")
+        ],
+        reviews
+          .map((id, index) => attempt(id, 1, index + 1, "matching"))
+          .concat(
+            reviews.map((id, index) => attempt(id, 0, index + 5, "matching"))
+          ),
+        { size: 4, seed: "s" }
+      )
+
+      // Matching is also a weak area here, so its unanswered exercises come first in that share
+      expect(reasons(items)).toEqual({
+        r1: "review",
+        r2: "review",
+        "new-1": "weak-area",
+        "new-2": "weak-area"
+      })
+    })
+
+    it("should add exercises of weak types", () => {
+      const items = selectPracticeItems(
+        [
+          candidate("w1", "dictation", "completed"),
+          candidate("w2", "dictation", "completed"),
+          candidate("q1", "quiz", "completed")
+        ],
+        [
+          attempt("w1", 1, 1, "dictation"),
+          attempt("x", 0, 2, "dictation"),
+          attempt("y", 0, 3, "dictation")
+        ],
+        { size: 2, seed: "s" }
+      )
+
+      expect(reasons(items)).toEqual({ w2: "weak-area", w1: "weak-area" })
+    })
+
+    it("should fill the session with refreshers from completed lessons", () => {
+      const items = selectPracticeItems(
+        [candidate("old", "quiz", "completed"), candidate("new")],
+        [attempt("old", 1, 1)],
+        { size: 5, seed: "s" }
+      )
+
+      expect(reasons(items)).toEqual({ old: "refresher", new: "lesson" })
+    })
+
+    it("should give the same order for the same seed", () => {
+      const candidates = ["a", "b", "c", "d", "e"].map(id => candidate(id))
+      const first = selectPracticeItems(candidates, [], { size: 5, seed: "x" })
+      const second = selectPracticeItems(candidates, [], { size: 5, seed: "x" })
+
+      expect(first).toEqual(second)
+    })
+  })
+
+  describe("summarizePracticeSession", () => {
+    const item = (
+      exerciseId: string,
+      result?: { score: number; xpEarned: number }
+    ): PracticeSessionItem => ({
+      exerciseId,
+      exerciseType: "quiz",
+      lessonId: "lesson",
+      lessonRevisionId: "revision",
+      reason: "lesson",
+      result: result && {
+        attemptId: `attempt-${exerciseId}`,
+        response: "answer",
+        feedback: "feedback",
+        ...result
+      }
+    })
+
+    it("should add up accuracy, XP and mistakes of answered items", () => {
+      const summary = summarizePracticeSession([
+        item("a", { score: 1, xpEarned: 10 }),
+        item("b", { score: 0.5, xpEarned: 5 }),
+        item("c", { score: 0, xpEarned: 0 }),
+        item("d")
+      ])
+
+      expect(summary.answered).toBe(3)
+      expect(summary.correct).toBe(1)
+      expect(summary.accuracy).toBeCloseTo(0.5)
+      expect(summary.xpEarned).toBe(15)
+      expect(summary.mistakes.map(mistake => mistake.exerciseId)).toEqual([
+        "b",
+        "c"
+      ])
+    })
+
+    it("should report zero accuracy before any answer", () => {
+      expect(summarizePracticeSession([item("a")]).accuracy).toBe(0)
+    })
+  })
+})
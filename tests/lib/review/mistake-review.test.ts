@@ -0,0 +1,100 @@
+/**
+ * @description
+ * Unit tests for mistake review scheduling in the Learn Kannada app.
+ */
+import { gradeExercise } from "@/lib/grading/exercise-grading"
+import {
+  REVIEW_CLEAR_STREAK,
+  findMissedPairs,
+  scheduleReview,
+  toVocabularyReviewDefinition
+} from "@/lib/review/mistake-review"
+import { ReviewSchedule } from "@/types"
+
+describe("Mistake review", () => {
+  const day = (n: number) => new Date(Date.UTC(2024, 4, n, 12))
+
+  describe("scheduleReview", () => {
+    it("should add a mistake to the queue, due straight away", () => {
+      expect(scheduleReview(null, 0.5, day(1))).toEqual({
+        correctStreak: 0,
+        lapses: 1,
+        dueAt: day(1),
+        clearedAt: null
+      })
+    })
+
+    it("should keep nothing for a correct answer to an item not in the queue", () => {
+      expect(scheduleReview(null, 1, day(1))).toBeNull()
+    })
+
+    it("should space reviews further apart with each correct answer", () => {
+      let schedule = scheduleReview(null, 0, day(1))!
+      schedule = scheduleReview(schedule, 1, day(1))!
+      expect(schedule.dueAt).toEqual(day(2))
+
+      schedule = scheduleReview(schedule, 1, day(2))!
+      expect(schedule.dueAt).toEqual(day(5))
+      expect(schedule.correctStreak).toBe(2)
+    })
+
+    it("should clear an item after enough correct answers in a row", () => {
+      let schedule = scheduleReview(null, 0, day(1))!
+      for (let n = 0; n < REVIEW_CLEAR_STREAK; n++) {
+        schedule = scheduleReview(schedule, 1, day(10 + n * 5))!
+      }
+      expect(schedule.clearedAt).toEqual(day(20))
+    })
+
+    it("should ignore correct answers given before the item is due", () => {
+      const current: ReviewSchedule = {
+        correctStreak: 1,
+        lapses: 1,
+        dueAt: day(3),
+        clearedAt: null
+      }
+      expect(scheduleReview(current, 1, day(2))).toBe(current)
+    })
+
+    it("should reset the streak on a mistake and bring cleared items back", () => {
+      const cleared: ReviewSchedule = {
+        correctStreak: 3,
+        lapses: 2,
+        dueAt: day(1),
+        clearedAt: day(1)
+      }
+      expect(scheduleReview(cleared, 0, day(4))).toEqual({
+        correctStreak: 0,
+        lapses: 3,
+        dueAt: day(4),
+        clearedAt: null
+      })
+    })
+  })
+
+  describe("findMissedPairs", () => {
+    const pairs = [
+      { kannada: "ನೀರು", english: "water" },
+      { kannada: "ಹಾಲು", english: "milk" },
+      { kannada: "ಮನೆ", english: "house" }
+    ]
+
+    it("should list wrong and unanswered pairs", () => {
+      expect(findMissedPairs(pairs, { ನೀರು: "Water", ಹಾಲು: "house" })).toEqual([
+        pairs[1],
+        pairs[2]
+      ])
+    })
+  })
+
+  describe("toVocabularyReviewDefinition", () => {
+    it("should grade the meaning of the word", () => {
+      const definition = toVocabularyReviewDefinition({
+        kannada: "ನೀರು",
+        english: "water"
+      })
+      expect(gradeExercise(definition, "water")?.score).toBe(1)
+      expect(gradeExercise(definition, "milk")?.score).toBe(0)
+    })
+  })
+})
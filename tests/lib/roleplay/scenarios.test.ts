@@ -0,0 +1,30 @@
+/**
+ * @description
+ * Unit tests for the role-play scenario library in the Learn Kannada app.
+ */
+import { ROLEPLAY_SCENARIOS, getScenario } from "@/lib/roleplay/scenarios"
+
+describe("ROLEPLAY_SCENARIOS", () => {
+  it("should have unique scenario IDs", () => {
+    const ids = ROLEPLAY_SCENARIOS.map(scenario => scenario.id)
+    expect(new Set(ids).size).toBe(ids.length)
+  })
+
+  it.each(ROLEPLAY_SCENARIOS.map(scenario => [scenario.id, scenario]))(
+    "%s should have goals with unique IDs and vocabulary",
+    (_, scenario) => {
+      const goalIds = scenario.goals.map(goal => goal.id)
+      expect(goalIds.length).toBeGreaterThan(0)
+      expect(new Set(goalIds).size).toBe(goalIds.length)
+      expect(scenario.vocabulary.length).toBeGreaterThan(0)
+      expect(scenario.opening.kannada).toMatch(/[ಀ-೿]/)
+    }
+  )
+})
+
+describe("getScenario", () => {
+  it("should find a scenario by ID", () => {
+    expect(getScenario("bmtc-directions")?.title).toBeDefined()
+    expect(getScenario("unknown")).toBeNull()
+  })
+})
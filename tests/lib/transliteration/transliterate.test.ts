@@ -0,0 +1,205 @@
+/**
+ * @description
+ * Unit tests for Kannada transliteration in the Learn Kannada app.
+ */
+import {
+  fromLatin,
+  hasKannada,
+  toLatin
+} from "@/lib/transliteration/transliterate"
+
+describe("toLatin", () => {
+  describe("ISO 15919", () => {
+    it.each([
+      ["ನಮಸ್ಕಾರ", "namaskāra"],
+      ["ಕನ್ನಡ", "kannaḍa"],
+      ["ಬೆಂಗಳೂರು", "beṁgaḷūru"],
+      ["ಕೃಷ್ಣ", "kr̥ṣṇa"],
+      ["ದುಃಖ", "duḥkha"],
+      ["ಲಕ್ಷ್ಮಿ", "lakṣmi"],
+      ["ಜ್ಞಾನ", "jñāna"],
+      ["ಸ್ತ್ರೀ", "strī"],
+      ["ಏನು", "ēnu"],
+      ["ಒಳ್ಳೆಯ", "oḷḷeya"],
+      ["ಕೈ", "kai"],
+      ["ಮೌನ", "mauna"],
+      ["ಶಾಲೆ", "śāle"]
+    ])("should romanize %s as %s", (kannada, latin) => {
+      expect(toLatin(kannada)).toBe(latin)
+    })
+
+    it("should separate letters that would otherwise read as one", () => {
+      expect(toLatin("ಕ್ಹ")).toBe("k:ha")
+      expect(toLatin("ಅಇ")).toBe("a:i")
+      expect(toLatin("ಕಉ")).toBe("ka:u")
+    })
+
+    it("should spell nukta consonants as borrowed sounds", () => {
+      expect(toLatin("ಫ಼ೋನ್")).toBe("fōn")
+      expect(toLatin("ಜ಼ೀರೋ")).toBe("zīrō")
+    })
+  })
+
+  describe("Harvard-Kyoto", () => {
+    it.each([
+      ["ನಮಸ್ಕಾರ", "namaskAra"],
+      ["ಕನ್ನಡ", "kannaDa"],
+      ["ಕೃಷ್ಣ", "kRSNa"],
+      ["ದುಃಖ", "duHkha"],
+      ["ಜ್ಞಾನ", "jJAna"],
+      ["ಏನು", "Enu"],
+      ["ಒಳ್ಳೆಯ", "oLLeya"],
+      ["ಬೆಂಗಳೂರು", "beMgaLUru"],
+      ["ಶಿವ", "ziva"]
+    ])("should romanize %s as %s", (kannada, latin) => {
+      expect(toLatin(kannada, "harvard-kyoto")).toBe(latin)
+    })
+  })
+
+  describe("casual", () => {
+    it.each([
+      ["ನಮಸ್ಕಾರ", "namaskaara"],
+      ["ಕನ್ನಡ", "kannada"],
+      ["ತುಂಬ", "thumba"],
+      ["ಮಂಜು", "manju"],
+      ["ಬೆಂಗಳೂರು", "bengalooru"],
+      ["ಅದು", "adhu"],
+      ["ಊಟ", "oota"],
+      ["ನೀರು", "neeru"],
+      ["ಲಕ್ಷ್ಮಿ", "lakshmi"],
+      ["ಚೆನ್ನಾಗಿದೆ", "chennaagidhe"],
+      ["ಹೇಗಿದ್ದೀರಿ", "hegiddeeri"],
+      ["ಹತ್ತು", "hattu"],
+      ["ಅಕ್ಕ", "akka"],
+      ["ಹೆಚ್ಚು", "hecchu"],
+      ["ಸತ್ತ್ವ", "sattva"],
+      ["ಮಹತ್ತ್ವ", "mahattva"],
+      ["ಉಜ್ಜ್ವಲ", "ujjvala"],
+      ["ಕನ್ನ್", "kann"]
+    ])("should romanize %s as %s", (kannada, latin) => {
+      expect(toLatin(kannada, "casual")).toBe(latin)
+    })
+  })
+
+  it("should keep spaces, punctuation and other scripts, and convert Kannada digits", () => {
+    expect(toLatin("ನಾನು 3 ಸೇಬು ತಿಂದೆ!")).toBe("nānu 3 sēbu tiṁde!")
+    expect(toLatin("ಪಾಠ ೧೨")).toBe("pāṭha 12")
+    expect(toLatin("Hello ಕನ್ನಡ")).toBe("Hello kannaḍa")
+  })
+
+  it("should normalize decomposed vowel signs and ignore zero-width joiners", () => {
+    // ೋ written as ೊ + length mark, and a ZWJ inside the conjunct
+    expect(toLatin("\u0CB9\u0CCA\u0CD5\u0C97\u0CBF")).toBe("hōgi")
+    expect(toLatin("\u0C95\u0CCD\u200D\u0CB7")).toBe("kṣa")
+  })
+})
+
+describe("fromLatin", () => {
+  describe("ISO 15919", () => {
+    it.each([
+      ["namaskāra", "ನಮಸ್ಕಾರ"],
+      ["kannaḍa", "ಕನ್ನಡ"],
+      ["beṁgaḷūru", "ಬೆಂಗಳೂರು"],
+      ["kr̥ṣṇa", "ಕೃಷ್ಣ"],
+      ["duḥkha", "ದುಃಖ"],
+      ["lakṣmi", "ಲಕ್ಷ್ಮಿ"],
+      ["jñāna", "ಜ್ಞಾನ"],
+      ["strī", "ಸ್ತ್ರೀ"]
+    ])("should read %s as %s", (latin, kannada) => {
+      expect(fromLatin(latin)).toBe(kannada)
+    })
+
+    it("should honour separators and accept common alternative spellings", () => {
+      expect(fromLatin("k:ha")).toBe("ಕ್ಹ")
+      expect(fromLatin("a:i")).toBe("ಅಇ")
+      expect(fromLatin("beṃgaḷūru")).toBe("ಬೆಂಗಳೂರು")
+      expect(fromLatin("kṛṣṇa")).toBe("ಕೃಷ್ಣ")
+    })
+
+    it("should ignore letter case", () => {
+      expect(fromLatin("Kannaḍa")).toBe("ಕನ್ನಡ")
+      expect(fromLatin("NĀNU")).toBe("ನಾನು")
+    })
+
+    it("should close a trailing consonant with a virama", () => {
+      expect(fromLatin("fōn")).toBe("ಫ಼ೋನ್")
+      expect(fromLatin("bas")).toBe("ಬಸ್")
+    })
+
+    it.each([
+      "ನಮಸ್ಕಾರ, ನೀವು ಹೇಗಿದ್ದೀರಿ?",
+      "ಕ್ಷಮಿಸಿ",
+      "ಸಂಸ್ಕೃತ",
+      "ದುಃಖ",
+      "ಕ್ಹ ಅಇ",
+      "ಜ಼ೀರೋ",
+      "ಕರ್ನಾಟಕ"
+    ])("should round-trip %s", kannada => {
+      expect(fromLatin(toLatin(kannada))).toBe(kannada)
+    })
+  })
+
+  describe("Harvard-Kyoto", () => {
+    it.each([
+      ["namaskAra", "ನಮಸ್ಕಾರ"],
+      ["kannaDa", "ಕನ್ನಡ"],
+      ["kRSNa", "ಕೃಷ್ಣ"],
+      ["duHkha", "ದುಃಖ"],
+      ["jJAna", "ಜ್ಞಾನ"],
+      ["Enu", "ಏನು"],
+      ["enu", "ಎನು"],
+      ["oLLeya", "ಒಳ್ಳೆಯ"]
+    ])("should read %s as %s", (latin, kannada) => {
+      expect(fromLatin(latin, "harvard-kyoto")).toBe(kannada)
+    })
+
+    it.each(["ನಮಸ್ಕಾರ", "ಬೆಂಗಳೂರು", "ಶಿವ", "ಸ್ತ್ರೀ", "ಕೃಷ್ಣ"])(
+      "should round-trip %s",
+      kannada => {
+        expect(
+          fromLatin(toLatin(kannada, "harvard-kyoto"), "harvard-kyoto")
+        ).toBe(kannada)
+      }
+    )
+  })
+
+  describe("casual", () => {
+    it.each([
+      ["namaskaara", "ನಮಸ್ಕಾರ"],
+      ["thumba", "ತುಂಬ"],
+      ["kannada", "ಕನ್ನಡ"],
+      ["adhu", "ಅದು"],
+      ["oota", "ಊಟ"],
+      ["neeru", "ನೀರು"],
+      ["lakshmi", "ಲಕ್ಷ್ಮಿ"],
+      ["manju", "ಮಂಜು"],
+      ["bandhu", "ಬಂದು"],
+      ["amma", "ಅಮ್ಮ"],
+      ["gnaana", "ಗ್ನಾನ"],
+      ["jnaana", "ಜ್ಞಾನ"],
+      ["Chennagidhe", "ಚೆನ್ನಗಿದೆ"]
+    ])("should read %s as %s", (latin, kannada) => {
+      expect(fromLatin(latin, "casual")).toBe(kannada)
+    })
+
+    it("should read casual output back when the spelling is unambiguous", () => {
+      for (const kannada of ["ನಮಸ್ಕಾರ", "ತುಂಬ", "ಮಂಜು", "ಊಟ", "ಲಕ್ಷ್ಮಿ"]) {
+        expect(fromLatin(toLatin(kannada, "casual"), "casual")).toBe(kannada)
+      }
+    })
+  })
+
+  it("should keep digits, punctuation and Kannada script as they are", () => {
+    expect(fromLatin("nānu 3 sēbu tiṁde!")).toBe("ನಾನು 3 ಸೇಬು ತಿಂದೆ!")
+    expect(fromLatin("ಕನ್ನಡ kali")).toBe("ಕನ್ನಡ ಕಲಿ")
+  })
+})
+
+describe("hasKannada", () => {
+  it("should detect Kannada script anywhere in the text", () => {
+    expect(hasKannada("ನಮಸ್ಕಾರ")).toBe(true)
+    expect(hasKannada("Say ನೀರು for water")).toBe(true)
+    expect(hasKannada("namaskāra")).toBe(false)
+    expect(hasKannada("")).toBe(false)
+  })
+})
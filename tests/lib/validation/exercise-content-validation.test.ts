@@ -0,0 +1,158 @@
+/**
+ * @description
+ * Unit tests for exercise content validation in the Learn Kannada app.
+ */
+import {
+  fillBlanks,
+  getExpectedAnswer,
+  readExerciseDefinition,
+  validateExerciseDefinition
+} from "@/lib/validation/exercise-content-validation"
+
+describe("validateExerciseDefinition", () => {
+  it("should accept valid content for each type", () => {
+    expect(
+      validateExerciseDefinition({
+        type: "quiz",
+        content: {
+          question: "What does ನೀರು mean?",
+          options: ["water", "milk"],
+          correctAnswer: "water"
+        }
+      }).success
+    ).toBe(true)
+    expect(
+      validateExerciseDefinition({
+        type: "writing",
+        content: { prompt: "Write 'water'", correctAnswer: "ನೀರು" }
+      }).success
+    ).toBe(true)
+    expect(
+      validateExerciseDefinition({
+        type: "speaking",
+        content: { phrase: "ನಮಸ್ಕಾರ" }
+      }).success
+    ).toBe(true)
+  })
+
+  it("should report content errors by path", () => {
+    const result = validateExerciseDefinition({
+      type: "quiz",
+      content: {
+        question: "What does ನೀರು mean?",
+        options: ["water", "milk"],
+        correctAnswer: "juice"
+      }
+    })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(Object.keys(result.fieldErrors)).toEqual(["content.correctAnswer"])
+    }
+  })
+
+  it("should reject content written for another type", () => {
+    const result = validateExerciseDefinition({
+      type: "writing",
+      content: { phrase: "ನಮಸ್ಕಾರ" }
+    })
+    expect(result.success).toBe(false)
+  })
+
+  it("should accept valid content for the structured types", () => {
+    expect(
+      validateExerciseDefinition({
+        type: "matching",
+        content: {
+          pairs: [
+            { kannada: "ನೀರು", english: "water" },
+            { kannada: "ಹಾಲು", english: "milk" }
+          ]
+        }
+      }).success
+    ).toBe(true)
+    expect(
+      validateExerciseDefinition({
+        type: "fill-blank",
+        content: {
+          sentence: "ನಾನು ಮನೆ___ ಹೋಗುತ್ತೇನೆ",
+          blanks: [{ answer: "ಗೆ", hint: "dative" }]
+        }
+      }).success
+    ).toBe(true)
+    expect(
+      validateExerciseDefinition({
+        type: "translation",
+        content: {
+          source: "ನಮಸ್ಕಾರ",
+          direction: "kn-en",
+          acceptedAnswers: ["hello"]
+        }
+      }).success
+    ).toBe(true)
+  })
+
+  it("should require one blank marker per fill-blank answer", () => {
+    const result = validateExerciseDefinition({
+      type: "fill-blank",
+      content: {
+        sentence: "ನಾನು ಮನೆ___ ಹೋಗುತ್ತೇನೆ",
+        blanks: [{ answer: "ಗೆ" }, { answer: "ಗೆ" }]
+      }
+    })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(Object.keys(result.fieldErrors)).toEqual(["content.sentence"])
+    }
+  })
+
+  it("should reject matching pairs with repeated items", () => {
+    expect(
+      validateExerciseDefinition({
+        type: "matching",
+        content: {
+          pairs: [
+            { kannada: "ನೀರು", english: "water" },
+            { kannada: "ನೀರು", english: "milk" }
+          ]
+        }
+      }).success
+    ).toBe(false)
+  })
+
+  it("should reject unknown types", () => {
+    expect(
+      validateExerciseDefinition({ type: "essay", content: {} }).success
+    ).toBe(false)
+  })
+})
+
+describe("readExerciseDefinition", () => {
+  it("should return null for stored content that does not fit its type", () => {
+    expect(readExerciseDefinition({ type: "quiz", content: null })).toBeNull()
+    expect(
+      readExerciseDefinition({ type: "speaking", content: { prompt: "x" } })
+    ).toBeNull()
+  })
+})
+
+describe("getExpectedAnswer", () => {
+  it("should fall back to the phrase for speaking exercises", () => {
+    expect(
+      getExpectedAnswer({ type: "speaking", content: { phrase: "ನಮಸ್ಕಾರ" } })
+    ).toBe("ನಮಸ್ಕಾರ")
+    expect(
+      getExpectedAnswer({
+        type: "speaking",
+        content: { phrase: "ನಮಸ್ಕಾರ ಸರ್", correctAnswer: "ನಮಸ್ಕಾರ" }
+      })
+    ).toBe("ನಮಸ್ಕಾರ")
+  })
+})
+
+describe("fillBlanks", () => {
+  it("should write answers into the gaps in order", () => {
+    expect(fillBlanks("ನಾನು ಮನೆ___ ಹೋಗಿ ಊಟ___ ಮಾಡಿದೆ", ["ಗೆ", "ವನ್ನು"])).toBe(
+      "ನಾನು ಮನೆಗೆ ಹೋಗಿ ಊಟವನ್ನು ಮಾಡಿದೆ"
+    )
+  })
+})
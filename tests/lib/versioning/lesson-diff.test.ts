@@ -0,0 +1,98 @@
+/**
+ * @description
+ * Unit tests for lesson revision diffs in the Learn Kannada app.
+ */
+import { diffLessonRevisions } from "@/lib/versioning/lesson-diff"
+import { LessonRevisionSnapshot } from "@/types"
+
+describe("diffLessonRevisions", () => {
+  const snapshot: LessonRevisionSnapshot = {
+    title: "Greetings",
+    level: "beginner",
+    content: {
+      version: 1,
+      grammarNotes: [],
+      vocabulary: [{ kannada: "ನಮಸ್ಕಾರ", english: "hello" }],
+      examples: [],
+      dialogues: [],
+      culturalNotes: []
+    },
+    exercises: [
+      {
+        id: "ex-1",
+        type: "writing",
+        content: { prompt: "Write hello", correctAnswer: "ನಮಸ್ಕಾರ" }
+      }
+    ]
+  }
+
+  it("should report no changes for identical snapshots", () => {
+    expect(diffLessonRevisions(snapshot, structuredClone(snapshot))).toEqual([])
+  })
+
+  it("should report changed, added and removed fields", () => {
+    const next: LessonRevisionSnapshot = {
+      ...snapshot,
+      title: "Greetings and farewells",
+      content: {
+        ...snapshot.content,
+        vocabulary: [
+          { kannada: "ನಮಸ್ಕಾರ", english: "hello", transliteration: "namaskāra" }
+        ]
+      },
+      exercises: []
+    }
+
+    expect(diffLessonRevisions(snapshot, next)).toEqual([
+      {
+        path: "title",
+        kind: "changed",
+        before: "Greetings",
+        after: "Greetings and farewells"
+      },
+      {
+        path: "content.vocabulary.0.transliteration",
+        kind: "added",
+        after: "namaskāra"
+      },
+      {
+        path: "exercises.ex-1.type",
+        kind: "removed",
+        before: "writing"
+      },
+      {
+        path: "exercises.ex-1.content.prompt",
+        kind: "removed",
+        before: "Write hello"
+      },
+      {
+        path: "exercises.ex-1.content.correctAnswer",
+        kind: "removed",
+        before: "ನಮಸ್ಕಾರ"
+      }
+    ])
+  })
+
+  it("should match exercises by ID regardless of order", () => {
+    const second = {
+      id: "ex-2",
+      type: "speaking" as const,
+      content: { phrase: "ಹೋಗಿ ಬನ್ನಿ" }
+    }
+    const before = { ...snapshot, exercises: [...snapshot.exercises, second] }
+    const after = { ...snapshot, exercises: [second, ...snapshot.exercises] }
+
+    expect(diffLessonRevisions(before, after)).toEqual([])
+  })
+
+  it("should treat every field as added when there is no previous revision", () => {
+    const changes = diffLessonRevisions(null, snapshot)
+
+    expect(changes.every(change => change.kind === "added")).toBe(true)
+    expect(changes).toContainEqual({
+      path: "content.version",
+      kind: "added",
+      after: "1"
+    })
+  })
+})
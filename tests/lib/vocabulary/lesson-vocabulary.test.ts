@@ -0,0 +1,58 @@
+/**
+ * @description
+ * Unit tests for extracting lesson vocabulary in the Learn Kannada app.
+ */
+import { extractLessonVocabulary } from "@/lib/vocabulary/lesson-vocabulary"
+import { LessonContent } from "@/types"
+
+describe("extractLessonVocabulary", () => {
+  const content: LessonContent = {
+    version: 1,
+    grammarNotes: [
+      {
+        title: "Dative case",
+        explanation: "Add -ಗೆ",
+        examples: [{ kannada: "ನಾನು ಮನೆಗೆ ಹೋಗುತ್ತೇನೆ", english: "I go home" }]
+      }
+    ],
+    vocabulary: [
+      { kannada: "ಮನೆ", english: "house", partOfSpeech: "noun" },
+      { kannada: "ನೀರು", transliteration: "nīru", english: "water" },
+      { kannada: "ಮನೆ", english: "home" }
+    ],
+    examples: [{ kannada: "ನೀರು ಕೊಡಿ", english: "Please give water" }],
+    dialogues: [],
+    culturalNotes: []
+  }
+
+  it("should list each word once, in lesson order", () => {
+    expect(
+      extractLessonVocabulary(content).map(word => [
+        word.kannada,
+        word.position
+      ])
+    ).toEqual([
+      ["ಮನೆ", 0],
+      ["ನೀರು", 1]
+    ])
+  })
+
+  it("should find an example sentence that uses the word", () => {
+    const [house, water] = extractLessonVocabulary(content)
+    expect(house.exampleKannada).toBe("ನಾನು ಮನೆಗೆ ಹೋಗುತ್ತೇನೆ")
+    expect(water).toMatchObject({
+      transliteration: "nīru",
+      partOfSpeech: null,
+      exampleKannada: "ನೀರು ಕೊಡಿ",
+      exampleEnglish: "Please give water"
+    })
+  })
+
+  it("should skip words that have no English meaning yet", () => {
+    const words = extractLessonVocabulary({
+      ...content,
+      vocabulary: [{ kannada: "ಹಾಲು", english: "" }, ...content.vocabulary]
+    })
+    expect(words.map(word => word.kannada)).toEqual(["ಮನೆ", "ನೀರು"])
+  })
+})
@@ -0,0 +1,73 @@
+/**
+ * @description
+ * Unit tests for SM-2 vocabulary scheduling in the Learn Kannada app.
+ */
+import {
+  INITIAL_EASE_FACTOR,
+  MIN_EASE_FACTOR,
+  previewIntervals,
+  scheduleVocabularyReview
+} from "@/lib/vocabulary/srs"
+import { RecallRating, VocabularyReviewState } from "@/types"
+
+describe("Vocabulary SRS", () => {
+  const now = new Date(Date.UTC(2024, 4, 1, 12))
+  const daysFromNow = (days: number) =>
+    new Date(now.getTime() + days * 24 * 60 * 60 * 1000)
+
+  const review = (
+    ratings: RecallRating[],
+    start: VocabularyReviewState | null = null
+  ) =>
+    ratings.reduce<VocabularyReviewState | null>(
+      (state, rating) => scheduleVocabularyReview(state, rating, now),
+      start
+    )!
+
+  describe("scheduleVocabularyReview", () => {
+    it("should schedule a new word for the next day when recalled", () => {
+      expect(scheduleVocabularyReview(null, "good", now)).toEqual({
+        easeFactor: INITIAL_EASE_FACTOR,
+        intervalDays: 1,
+        repetitions: 1,
+        lapses: 0,
+        dueAt: daysFromNow(1)
+      })
+    })
+
+    it("should follow SM-2 intervals for good answers", () => {
+      expect(review(["good", "good"]).intervalDays).toBe(6)
+      expect(review(["good", "good", "good"]).intervalDays).toBe(15)
+    })
+
+    it("should make the card due again and count a lapse when forgotten", () => {
+      const forgotten = review(["good", "good", "again"])
+      expect(forgotten.intervalDays).toBe(0)
+      expect(forgotten.repetitions).toBe(0)
+      expect(forgotten.lapses).toBe(1)
+      expect(forgotten.dueAt).toEqual(now)
+    })
+
+    it("should not count a lapse for a new word forgotten on first sight", () => {
+      expect(review(["again"]).lapses).toBe(0)
+    })
+
+    it("should lower and raise the ease factor for hard and easy answers", () => {
+      expect(review(["hard"]).easeFactor).toBeCloseTo(2.35)
+      expect(review(["easy"]).easeFactor).toBeCloseTo(2.65)
+    })
+
+    it("should keep the ease factor above its minimum", () => {
+      expect(review(Array(10).fill("again")).easeFactor).toBe(MIN_EASE_FACTOR)
+    })
+  })
+
+  describe("previewIntervals", () => {
+    it("should order the intervals from again to easy", () => {
+      const intervals = previewIntervals(review(["good", "good"]))
+      expect(intervals.again).toBe(0)
+      expect(intervals.hard).toBeLessThan(intervals.good)
+      expect(intervals.good).toBeLessThan(intervals.easy)
+    })
+  })
+})
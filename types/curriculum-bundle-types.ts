@@ -0,0 +1,113 @@
+/**
+ * @description
+ * Type definitions for curriculum bundles, the portable file format used to
+ * import and export lessons in bulk (for authoring in git and spreadsheets).
+ *
+ * Key features:
+ * - JSON bundle of units, lessons (with content, prerequisites and exercises)
+ * - Vocabulary CSV rows that fill in a lesson's vocabulary section
+ * - Import report describing what a (dry-run) import creates, updates or leaves unchanged
+ *
+ * @notes
+ * - Every entity is keyed by a stable slug, never by database ID
+ * - Parsing, validation and planning live in @/lib/curriculum-bundle
+ */
+
+import { ExerciseDefinition } from "./exercise-types"
+import { LessonContent, VocabularyItem } from "./lesson-types"
+
+/**
+ * Identifies a curriculum bundle file.
+ */
+export const CURRICULUM_BUNDLE_FORMAT = "learn-kannada-curriculum"
+
+/**
+ * The bundle format version written by the current code.
+ */
+export const CURRENT_CURRICULUM_BUNDLE_VERSION = 1
+
+/**
+ * A unit in a bundle.
+ */
+export interface BundleUnit {
+  slug: string // Stable key, e.g. "greetings"
+  title: string // Unit title
+  description?: string // Optional summary
+  position: number // Sort order across units
+}
+
+/**
+ * An exercise in a bundle: a stable slug within the lesson (e.g. "quiz-hello") plus its type and content.
+ * Audio is referenced by URL (content.audioUrl), never embedded.
+ */
+export type BundleExercise = { slug: string } & ExerciseDefinition
+
+/**
+ * A lesson in a bundle.
+ */
+export interface BundleLesson {
+  slug: string // Stable key, e.g. "greetings-basics"
+  title: string // Lesson title
+  level: "beginner" | "intermediate" | "advanced" // Lesson level
+  unit?: string // Slug of the unit the lesson belongs to
+  position: number // Sort order within the unit
+  prerequisites: string[] // Slugs of lessons that must be completed first
+  content: LessonContent // Lesson document; vocabulary audio is referenced by audioUrl
+  exercises: BundleExercise[] // Exercises in display order
+}
+
+/**
+ * A complete or partial curriculum. Entities not in the bundle are left untouched on import.
+ */
+export interface CurriculumBundle {
+  format: typeof CURRICULUM_BUNDLE_FORMAT // Always "learn-kannada-curriculum"
+  version: typeof CURRENT_CURRICULUM_BUNDLE_VERSION // Bundle format version
+  units: BundleUnit[]
+  lessons: BundleLesson[]
+}
+
+/**
+ * A vocabulary CSV row: a vocabulary item plus the slug of the lesson it belongs to.
+ */
+export interface VocabularyCsvRow extends VocabularyItem {
+  lesson: string // Lesson slug
+}
+
+/**
+ * What an import does to one entity.
+ */
+export type BundleImportAction = "create" | "update" | "unchanged"
+
+/**
+ * One entity in an import report.
+ */
+export interface BundleImportItem {
+  kind: "unit" | "lesson" | "exercise" // Entity type
+  slug: string // Entity slug; exercises use "<lesson slug>/<exercise slug>"
+  action: BundleImportAction // What the import does (or would do)
+}
+
+/**
+ * A problem that stops an import, located by path in the input files.
+ */
+export interface BundleImportIssue {
+  path: string // e.g. "lessons.2.exercises.0.content.audioUrl" or "vocabulary.csv:4.english"
+  message: string // Human-readable explanation
+}
+
+/**
+ * Outcome of validating (and, unless a dry run, applying) a curriculum import.
+ */
+export interface CurriculumImportReport {
+  dryRun: boolean // True if nothing was written
+  items: BundleImportItem[] // Every unit, lesson and exercise in the input
+  errors: BundleImportIssue[] // Nothing is written while this is non-empty
+}
+
+/**
+ * An exported curriculum, ready to download.
+ */
+export interface CurriculumExport {
+  bundle: CurriculumBundle // All units and lessons (drafts included, working copies)
+  vocabularyCsv: string // Every lesson's vocabulary as CSV
+}
@@ -0,0 +1,64 @@
+/**
+ * @description
+ * Type definitions for the curriculum structure of the Learn Kannada app.
+ * Lessons are grouped into ordered units and unlock in sequence or via explicit prerequisites.
+ *
+ * Key features:
+ * - Per-learner lesson status (locked, available, completed)
+ * - Ordered units of lessons for the learn sidebar and level pages
+ *
+ * @notes
+ * - Status rules live in @/lib/curriculum/lesson-status
+ * - Lesson rows are typed in @/db/schema/lessons-schema; these types only describe the outline
+ */
+
+/**
+ * A learner's unlock state for a lesson.
+ * - locked: a prerequisite (or the previous lesson) is not completed yet
+ * - available: the lesson can be started or resumed
+ * - completed: the learner reached 100% completion
+ */
+export type LessonStatus = "locked" | "available" | "completed"
+
+/**
+ * A lesson as it appears in the curriculum outline.
+ */
+export interface CurriculumLesson {
+  id: string // Lesson ID
+  title: string // Lesson title
+  level: "beginner" | "intermediate" | "advanced" // Lesson level
+  unitId: string | null // Unit the lesson belongs to, if any
+  position: number // Sort order within the unit
+  completion: number // Learner's completion percentage (0-100)
+  status: LessonStatus // Learner's unlock state
+  prerequisiteIds: string[] // Explicit prerequisite lesson IDs
+}
+
+/**
+ * An ordered group of lessons. Lessons without a unit are grouped under a unit with a null id.
+ */
+export interface CurriculumUnit {
+  id: string | null // Unit ID, or null for lessons not assigned to a unit
+  title: string // Unit title
+  description: string | null // Optional unit summary
+  position: number // Sort order across units
+  lessons: CurriculumLesson[] // Lessons in display order
+}
+
+/**
+ * A learner's view of one level: its units and where to continue.
+ */
+export interface CurriculumLevel {
+  level: CurriculumLesson["level"] // The level described
+  units: CurriculumUnit[] // Units in display order
+  completedCount: number // Number of completed lessons in the level
+  totalCount: number // Number of lessons in the level
+}
+
+/**
+ * The learner's full curriculum outline plus the lesson to continue with.
+ */
+export interface CurriculumOverview {
+  levels: CurriculumLevel[] // Levels in teaching order
+  continueLesson: CurriculumLesson | null // Lesson to resume, or null when everything is completed
+}
@@ -0,0 +1,261 @@
+/**
+ * @description
+ * Type definitions for exercise content in the Learn Kannada app.
+ * Each exercise type has its own content shape; an exercise is the pair of its
+ * type and matching content, so checking `type` narrows `content`.
+ *
+ * Key features:
+ * - One content interface per exercise type
+ * - ExerciseDefinition: discriminated union keyed on the exercise type
+ * - LearnerExercise: what learners are sent, with answer keys removed
+ * - ExerciseResponse and ExerciseGrade: what learners submit and what grading returns
+ * - ExerciseAttemptDetails: timing and hints recorded with each attempt
+ * - ExerciseSubmission: what a submission returns to the learner, including its reward
+ *
+ * @notes
+ * - Runtime validation lives in @/lib/validation/exercise-content-validation
+ * - ExerciseType matches exerciseTypeEnum; add a content interface and union member with each new type,
+ *   and a learner content interface for what the learner may see of it
+ */
+
+import { ExerciseReward } from "./gamification-types"
+
+/**
+ * The kinds of exercise (matches exerciseTypeEnum).
+ */
+export type ExerciseType =
+  | "quiz"
+  | "writing"
+  | "speaking"
+  | "matching"
+  | "fill-blank"
+  | "word-order"
+  | "dictation"
+  | "translation"
+
+/**
+ * Multiple-choice question.
+ */
+export interface QuizContent {
+  question: string // Question shown to the learner
+  options: string[] // Choices, at least two
+  correctAnswer: string // Must be one of the options
+}
+
+/**
+ * Free-text answer to a prompt.
+ */
+export interface WritingContent {
+  prompt: string // What the learner should write
+  correctAnswer: string // Expected answer
+  acceptedAnswers?: string[] // Other answers graded as correct, e.g. another valid spelling
+}
+
+/**
+ * Phrase the learner says aloud.
+ */
+export interface SpeakingContent {
+  phrase: string // Kannada phrase to say
+  english?: string // English meaning of the phrase
+  audioUrl?: string // Recorded model pronunciation
+  correctAnswer?: string // Expected transcript; defaults to the phrase
+}
+
+/**
+ * A Kannada word or phrase and its English meaning.
+ */
+export interface MatchingPair {
+  kannada: string // Kannada side of the pair
+  english: string // English side of the pair
+}
+
+/**
+ * Pairs the learner matches up (Kannada ⇄ English).
+ */
+export interface MatchingContent {
+  instructions?: string // Shown above the pairs
+  pairs: MatchingPair[] // Correct pairs, at least two; the English side is shuffled for display
+}
+
+/**
+ * One gap in a cloze sentence.
+ */
+export interface FillBlankSlot {
+  answer: string // Expected text, e.g. the case ending "ಗೆ"
+  acceptedAnswers?: string[] // Other texts graded as correct, e.g. "ಕ್ಕೆ"
+  hint?: string // Shown under the gap, e.g. "dative"
+}
+
+/**
+ * Sentence with gaps, e.g. "ನಾನು ಮನೆ___ ಹೋಗುತ್ತೇನೆ".
+ */
+export interface FillBlankContent {
+  sentence: string // Sentence with one "___" per blank
+  blanks: FillBlankSlot[] // Answers for the gaps, in order
+  english?: string // English meaning of the whole sentence
+}
+
+/**
+ * Sentence the learner builds by putting shuffled words in order (SOV practice).
+ */
+export interface WordOrderContent {
+  words: string[] // Words in the correct order, at least two
+  english?: string // English meaning, shown as the prompt
+}
+
+/**
+ * Audio the learner listens to and types out.
+ */
+export interface DictationContent {
+  text: string // Kannada text that is read aloud and expected back
+  audioUrl?: string // Recorded clip; text-to-speech is used when absent
+  acceptedAnswers?: string[] // Other transcriptions graded as correct
+  english?: string // English meaning, shown after answering
+}
+
+/**
+ * Direction of a translation exercise.
+ */
+export type TranslationDirection = "kn-en" | "en-kn"
+
+/**
+ * Free translation of a sentence.
+ */
+export interface TranslationContent {
+  source: string // Sentence to translate
+  direction: TranslationDirection // "kn-en": Kannada to English; "en-kn": English to Kannada
+  acceptedAnswers: string[] // Translations graded as correct, at least one
+}
+
+/**
+ * An exercise's type together with its content.
+ */
+export type ExerciseDefinition =
+  | { type: "quiz"; content: QuizContent }
+  | { type: "writing"; content: WritingContent }
+  | { type: "speaking"; content: SpeakingContent }
+  | { type: "matching"; content: MatchingContent }
+  | { type: "fill-blank"; content: FillBlankContent }
+  | { type: "word-order"; content: WordOrderContent }
+  | { type: "dictation"; content: DictationContent }
+  | { type: "translation"; content: TranslationContent }
+
+/**
+ * Quiz as learners see it: the question and choices, without the answer.
+ */
+export interface LearnerQuizContent {
+  question: string
+  options: string[]
+}
+
+/**
+ * Writing prompt as learners see it.
+ */
+export interface LearnerWritingContent {
+  prompt: string
+}
+
+/**
+ * Speaking phrase as learners see it: the phrase is the prompt, the expected transcript is left out.
+ */
+export interface LearnerSpeakingContent {
+  phrase: string
+  english?: string
+  audioUrl?: string
+}
+
+/**
+ * Matching as learners see it: both columns, without the pairing.
+ */
+export interface LearnerMatchingContent {
+  instructions?: string
+  kannadaItems: string[] // Kannada column, in authored order
+  englishItems: string[] // English column, shuffled on the server
+}
+
+/**
+ * Fill-blank as learners see it: the sentence and hints, without the answers.
+ */
+export interface LearnerFillBlankContent {
+  sentence: string // Sentence with one "___" per blank
+  hints: (string | null)[] // Hint for each blank, in order
+  english?: string
+}
+
+/**
+ * Word order as learners see it: the words, shuffled on the server.
+ */
+export interface LearnerWordOrderContent {
+  words: string[] // Words out of order
+  english?: string
+}
+
+/**
+ * Dictation as learners see it: something to play, never the text to type.
+ */
+export interface LearnerDictationContent {
+  audioUrl?: string // Recorded clip
+  speechText?: string // Text for the browser to read aloud; only sent when there is no recording
+}
+
+/**
+ * Translation as learners see it: the sentence, without accepted translations.
+ */
+export interface LearnerTranslationContent {
+  source: string
+  direction: TranslationDirection
+}
+
+/**
+ * An exercise as sent to learners. Answer keys stay on the server, where responses are graded.
+ */
+export type LearnerExercise = { id: string } & (
+  | { type: "quiz"; content: LearnerQuizContent }
+  | { type: "writing"; content: LearnerWritingContent }
+  | { type: "speaking"; content: LearnerSpeakingContent }
+  | { type: "matching"; content: LearnerMatchingContent }
+  | { type: "fill-blank"; content: LearnerFillBlankContent }
+  | { type: "word-order"; content: LearnerWordOrderContent }
+  | { type: "dictation"; content: LearnerDictationContent }
+  | { type: "translation"; content: LearnerTranslationContent }
+)
+
+/**
+ * Content shape for one exercise type, e.g. ExerciseContent<"quiz"> is QuizContent.
+ */
+export type ExerciseContent<T extends ExerciseType = ExerciseType> = Extract<
+  ExerciseDefinition,
+  { type: T }
+>["content"]
+
+/**
+ * A learner's answer. Most types answer with text; matching answers with a map from
+ * each Kannada item to the chosen English item, fill-blank with one entry per gap
+ * and word-order with the words in the chosen order.
+ */
+export type ExerciseResponse = string | string[] | Record<string, string>
+
+/**
+ * Outcome of grading a response.
+ */
+export interface ExerciseGrade {
+  score: number // 0 to 1; near-miss text answers, matching and fill-blank give partial credit
+  feedback: string // Message shown to the learner
+}
+
+/**
+ * How a response was produced, recorded with the attempt.
+ */
+export interface ExerciseAttemptDetails {
+  timeTakenMs?: number // From showing the exercise to submitting
+  hintsUsed?: number // Hints revealed before answering
+}
+
+/**
+ * Result of submitting a response: the grade, the recorded attempt and what it earned.
+ */
+export interface ExerciseSubmission extends ExerciseGrade {
+  attemptId: string // The recorded attempt
+  lessonRevisionId: string | null // Revision the response was graded against
+  reward: ExerciseReward // XP, streak and badges earned
+}
@@ -0,0 +1,32 @@
+/**
+ * @description
+ * Type definitions for XP, streaks and badges in the Learn Kannada app.
+ *
+ * Key features:
+ * - ProgressTotals: a learner's running totals, as kept on their overall progress record
+ * - ExerciseReward: what one exercise submission earned, shown to the learner straight away
+ *
+ * @notes
+ * - Reward rules live in @/lib/gamification/rewards
+ */
+
+/**
+ * A learner's running gamification totals.
+ */
+export interface ProgressTotals {
+  xp: number // Experience points earned so far
+  streak: number // Consecutive days with at least one submission
+  badges: string[] // Badges earned so far
+  lastActiveAt: Date | null // When the learner last submitted an exercise; null before their first
+}
+
+/**
+ * What a single exercise submission earned.
+ */
+export interface ExerciseReward {
+  xpEarned: number // XP for this submission (0 for a wrong answer)
+  totalXp: number // XP after this submission
+  streak: number // Streak after this submission
+  streakExtended: boolean // First submission of the day, which started or extended the streak
+  newBadges: string[] // Badges earned by this submission
+}
@@ -0,0 +1,51 @@
+/**
+ * @description
+ * Type definitions for structured grammar feedback in the Learn Kannada app.
+ * The grammar checker lists each mistake in a learner's sentence with where it is,
+ * what kind of mistake it is and how to fix it, so the UI can underline it inline.
+ *
+ * Key features:
+ * - GrammarErrorCategory: the kinds of mistake the checker reports
+ * - GrammarError: one mistake with its character span, correction and explanation
+ * - GrammarFeedback: every mistake in a sentence and the corrected sentence
+ *
+ * @notes
+ * - Spans are checked against the sentence before feedback is returned (see @/lib/ai/grammar-feedback)
+ */
+
+/**
+ * The kinds of grammar mistake the checker reports.
+ * - case-ending: wrong or missing case suffix (e.g. ಮನೆ for ಮನೆಗೆ)
+ * - verb-agreement: verb ending does not agree with its subject's person, number or gender
+ * - word-order: words out of the expected subject-object-verb order
+ * - spelling: misspelt word, including wrong vowel signs or consonant clusters
+ * - honorific: plural/respectful form used where the plain one is expected, or the reverse
+ */
+export type GrammarErrorCategory =
+  | "case-ending"
+  | "verb-agreement"
+  | "word-order"
+  | "spelling"
+  | "honorific"
+
+/**
+ * One mistake in a sentence.
+ */
+export interface GrammarError {
+  start: number // Index of the mistake's first character in the sentence
+  end: number // Index just past its last character
+  text: string // The mistaken text, sentence.slice(start, end)
+  category: GrammarErrorCategory
+  correction: string // What the text should be
+  explanation: string // Short reason, in English
+}
+
+/**
+ * Grammar feedback on a sentence.
+ */
+export interface GrammarFeedback {
+  sentence: string // The sentence that was checked
+  errors: GrammarError[] // Mistakes in sentence order, not overlapping
+  correctedSentence: string // The sentence with every mistake fixed
+  summary: string // One or two sentences of overall feedback
+}
@@ -4,7 +4,7 @@
  * This file centralizes type exports for use across the application.
  *
  * Key features:
- * - Consolidates server action and Web Speech API types
+ * - Consolidates server action, Web Speech API, lesson content, exercise, curriculum, curriculum bundle, transliteration, gamification, practice session, review queue, vocabulary, language model, grammar feedback, tutor chat and role-play types
  *
  * @notes
  * - Follows project rule to export all types from a single index file
@@ -12,3 +12,17 @@
 
 export * from "./server-action-types"
 export * from "./web-speech-types" // Added to include SpeechRecognitionConstructor
+export * from "./lesson-types"
+export * from "./exercise-types"
+export * from "./pagination-types"
+export * from "./curriculum-types"
+export * from "./curriculum-bundle-types"
+export * from "./transliteration-types"
+export * from "./gamification-types"
+export * from "./practice-types"
+export * from "./review-types"
+export * from "./vocabulary-types"
+export * from "./llm-types"
+export * from "./grammar-feedback-types"
+export * from "./tutor-types"
+export * from "./roleplay-types"
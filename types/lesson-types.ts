@@ -0,0 +1,132 @@
+/**
+ * @description
+ * Type definitions for structured lesson content in the Learn Kannada app.
+ * Lessons store their body as a versioned JSON document made up of sections
+ * (grammar notes, vocabulary, example sentences, dialogues and cultural notes).
+ *
+ * Key features:
+ * - Versioned document format via the `version` field
+ * - One interface per section entry for reuse in renderers and editors
+ * - Revision snapshots and field-level diffs for lesson versioning
+ *
+ * @notes
+ * - Runtime validation lives in @/lib/validation/lesson-content-validation
+ * - Bump CURRENT_LESSON_CONTENT_VERSION and extend the upgrade path when the format changes
+ */
+
+import { ExerciseType } from "./exercise-types"
+
+/**
+ * The lesson content format version written by the current code.
+ */
+export const CURRENT_LESSON_CONTENT_VERSION = 1
+
+/**
+ * A single example sentence with optional romanization.
+ */
+export interface ExampleSentence {
+  kannada: string // Sentence in Kannada script
+  transliteration?: string // Romanized form of the sentence
+  english: string // English translation
+  notes?: string // Optional usage note
+}
+
+/**
+ * A grammar explanation block, optionally illustrated with examples.
+ */
+export interface GrammarNote {
+  title: string // Short heading, e.g. "Dative case (-ಗೆ / -ಕ್ಕೆ)"
+  explanation: string // Explanation text
+  examples?: ExampleSentence[] // Sentences illustrating the rule
+}
+
+/**
+ * A vocabulary entry taught in the lesson.
+ */
+export interface VocabularyItem {
+  kannada: string // Word in Kannada script
+  transliteration?: string // Romanized form of the word
+  english: string // English meaning
+  partOfSpeech?: string // e.g. "noun", "verb"
+  audioUrl?: string // Optional recorded pronunciation
+}
+
+/**
+ * A single line spoken in a dialogue.
+ */
+export interface DialogueLine {
+  speaker: string // Name or role of the speaker
+  kannada: string // Line in Kannada script
+  transliteration?: string // Romanized form of the line
+  english: string // English translation
+}
+
+/**
+ * A short conversation that shows the lesson material in context.
+ */
+export interface Dialogue {
+  title: string // Heading for the dialogue
+  context?: string // Setting, e.g. "At a bus stop"
+  lines: DialogueLine[] // Ordered dialogue lines
+}
+
+/**
+ * A note about culture or etiquette related to the lesson.
+ */
+export interface CulturalNote {
+  title: string // Heading for the note
+  body: string // Note text
+}
+
+/**
+ * The structured content document stored in lessons.content.
+ */
+export interface LessonContent {
+  version: typeof CURRENT_LESSON_CONTENT_VERSION // Format version
+  summary?: string // One-paragraph lesson overview
+  grammarNotes: GrammarNote[]
+  vocabulary: VocabularyItem[]
+  examples: ExampleSentence[]
+  dialogues: Dialogue[]
+  culturalNotes: CulturalNote[]
+}
+
+/**
+ * Outcome of upgrading stored lesson rows to the current content format.
+ */
+export interface LessonContentMigrationReport {
+  dryRun: boolean // True if nothing was written
+  migrated: string[] // IDs of lessons upgraded (or that would be upgraded)
+  alreadyCurrent: string[] // IDs of lessons already in the current format
+  failed: { lessonId: string; fieldErrors: Record<string, string[]> }[] // Rows needing manual fixes
+  unglossed: { lessonId: string; words: string[] }[] // Migrated vocabulary still needing an English meaning
+}
+
+/**
+ * An exercise as captured in a lesson revision.
+ */
+export interface ExerciseSnapshot {
+  id: string // ID of the exercise row at the time of the snapshot
+  type: ExerciseType // Exercise type
+  content: unknown // Exercise content as stored
+}
+
+/**
+ * The learner-visible state of a lesson captured by a revision.
+ */
+export interface LessonRevisionSnapshot {
+  title: string // Lesson title
+  level: "beginner" | "intermediate" | "advanced" // Lesson level
+  content: LessonContent // Lesson document
+  exercises: ExerciseSnapshot[] // Exercises in display order
+}
+
+/**
+ * A single field-level difference between two revisions.
+ */
+export interface LessonRevisionChange {
+  path: string // Dotted path, e.g. "content.vocabulary.2.english" or "exercises.<id>.content.question"
+  kind: "added" | "removed" | "changed" // How the value changed
+  before?: string // Previous value (absent when added)
+  after?: string // New value (absent when removed)
+}
@@ -0,0 +1,81 @@
+/**
+ * @description
+ * Type definitions for the language model provider layer in the Learn Kannada app.
+ * AI features send chat requests to an LLMProvider, which is either the OpenAI API
+ * or a deterministic local stub, chosen by environment variable.
+ *
+ * Key features:
+ * - LLMTask: the AI features, each with its own configurable model
+ * - LLMRequest and LLMResponse: a provider-neutral chat completion
+ * - LLMProvider: the interface every provider implements
+ * - AIStreamEvent: one line of a streamed AI response sent to the browser
+ *
+ * @notes
+ * - Provider selection and per-task models live in @/lib/ai/llm-provider
+ */
+
+/**
+ * The AI features that call a language model.
+ */
+export type LLMTask =
+  | "grammar-explanation"
+  | "lesson-difficulty"
+  | "pronunciation-feedback"
+  | "exercise-generation"
+  | "tutor-chat"
+  | "roleplay-chat"
+  | "roleplay-debrief"
+
+/**
+ * The providers that can serve requests.
+ * - openai: the OpenAI API (needs OPENAI_API_KEY)
+ * - stub: canned, deterministic replies, for offline development and tests
+ */
+export type LLMProviderName = "openai" | "stub"
+
+/**
+ * A chat message sent to the model.
+ */
+export interface LLMMessage {
+  role: "system" | "user" | "assistant"
+  content: string
+}
+
+/**
+ * A chat completion request.
+ */
+export interface LLMRequest {
+  task: LLMTask // Feature making the request; selects the model
+  messages: LLMMessage[]
+  maxTokens?: number // Longest reply wanted
+  json?: boolean // Ask for a JSON object reply
+}
+
+/**
+ * A model's reply.
+ */
+export interface LLMResponse {
+  content: string // Reply text; empty when the model gave none
+  model: string // Model that produced the reply
+}
+
+/**
+ * A language model backend.
+ */
+export interface LLMProvider {
+  name: LLMProviderName
+  complete(request: LLMRequest): Promise<LLMResponse>
+  // Yields the reply as it is generated; aborting the signal stops generation
+  stream(request: LLMRequest, signal?: AbortSignal): AsyncIterable<string>
+}
+
+/**
+ * An event of a streamed AI response, sent to the browser as one JSON line.
+ * - delta: more reply text to show
+ * - done: the response is complete, with its final result
+ * - error: the response failed; no done event follows
+ */
+export type AIStreamEvent<T> =
+  | { type: "delta"; text: string }
+  | { type: "done"; data: T }
+  | { type: "error"; message: string }
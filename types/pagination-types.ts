@@ -0,0 +1,23 @@
+/**
+ * @description
+ * Shared pagination types for list endpoints in the Learn Kannada app.
+ */
+
+/**
+ * Paging options accepted by list actions.
+ */
+export interface PaginationParams {
+  page?: number // 1-based page number, defaults to 1
+  pageSize?: number // Items per page
+}
+
+/**
+ * A single page of results with totals for rendering pagination controls.
+ */
+export interface PaginatedResult<T> {
+  items: T[]
+  page: number // 1-based page number of this result
+  pageSize: number
+  total: number // Total items across all pages
+  pageCount: number // Total number of pages (at least 1)
+}
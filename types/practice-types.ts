@@ -0,0 +1,86 @@
+/**
+ * @description
+ * Type definitions for practice sessions in the Learn Kannada app.
+ * A practice session is a fixed list of exercises chosen for one learner, answered one at a time.
+ *
+ * Key features:
+ * - Why each exercise was chosen (current lesson, weak area, review, refresher)
+ * - Per-item results, so a session can be resumed and summarized
+ * - The session as sent to the practice page, with each exercise to render
+ *
+ * @notes
+ * - Selection and summary rules live in @/lib/practice/practice-session
+ * - Sessions are stored in practice_sessions (see @/db/schema/practice-sessions-schema)
+ */
+
+import {
+  ExerciseResponse,
+  ExerciseType,
+  LearnerExercise
+} from "./exercise-types"
+
+/**
+ * Why an exercise was chosen for a session.
+ * - lesson: from a lesson the learner is working through
+ * - weak-area: an exercise type the learner often gets wrong
+ * - review: the learner's last answer to this exercise was not fully correct
+ * - refresher: from a completed lesson, to fill the session
+ */
+export type PracticeItemReason = "lesson" | "weak-area" | "review" | "refresher"
+
+/**
+ * The state of a practice session.
+ */
+export type PracticeSessionStatus = "active" | "completed" | "abandoned"
+
+/**
+ * The outcome of answering one session item.
+ */
+export interface PracticeItemResult {
+  attemptId: string // The recorded exercise attempt
+  response: ExerciseResponse // The learner's answer
+  score: number // 0 to 1
+  feedback: string // Grading feedback shown to the learner
+  xpEarned: number // XP the answer earned
+}
+
+/**
+ * One exercise in a session.
+ */
+export interface PracticeSessionItem {
+  exerciseId: string // Exercise ID in its lesson revision
+  exerciseType: ExerciseType // Type of the exercise
+  lessonId: string // Lesson the exercise belongs to
+  lessonRevisionId: string | null // Published revision the exercise is served and graded from; null for lessons published before versioning
+  reason: PracticeItemReason // Why it was chosen
+  result?: PracticeItemResult // Set once answered
+}
+
+/**
+ * A session item together with the exercise to render.
+ */
+export interface PracticeSessionEntry extends PracticeSessionItem {
+  exercise: LearnerExercise // The exercise as the learner is shown it, without its answer key
+}
+
+/**
+ * A practice session as the practice page shows it.
+ */
+export interface PracticeSessionState {
+  id: string // Session ID
+  exerciseType: ExerciseType | null // Exercise type the session is limited to; null for mixed practice
+  status: PracticeSessionStatus
+  position: number // Index of the next item to answer; equals the item count when finished
+  entries: PracticeSessionEntry[] // Items in order
+}
+
+/**
+ * What a finished (or partly answered) session adds up to.
+ */
+export interface PracticeSessionSummary {
+  answered: number // Items answered
+  correct: number // Items answered fully correctly
+  accuracy: number // Average score of answered items, 0 to 1
+  xpEarned: number // XP earned across the session
+  mistakes: PracticeSessionItem[] // Answered items that were not fully correct, in session order
+}
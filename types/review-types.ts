@@ -0,0 +1,63 @@
+/**
+ * @description
+ * Type definitions for the mistake review queue in the Learn Kannada app.
+ * Exercises answered wrongly, and vocabulary missed in matching exercises,
+ * come back for review at increasing intervals until they are answered
+ * correctly several times in a row.
+ *
+ * Key features:
+ * - ReviewSchedule: where an item stands in the queue
+ * - ReviewQueueEntry: a due item with the exercise the learner is shown
+ * - ReviewAnswerResult: the grade of a review answer and the item's new schedule
+ *
+ * @notes
+ * - Scheduling rules live in @/lib/review/mistake-review
+ */
+
+import { ExerciseGrade, ExerciseType, LearnerExercise } from "./exercise-types"
+
+/**
+ * What a review item asks the learner to recall.
+ * - exercise: an exercise answered wrongly
+ * - vocabulary: a word paired wrongly in a matching exercise, reviewed as a translation
+ */
+export type ReviewItemKind = "exercise" | "vocabulary"
+
+/**
+ * Where a review item stands in the queue.
+ */
+export interface ReviewSchedule {
+  correctStreak: number // Correct answers in a row since the last mistake
+  lapses: number // Mistakes made on the item so far
+  dueAt: Date // When the item is next due
+  clearedAt: Date | null // When the item left the queue; null while it is in it
+}
+
+/**
+ * A review item that is due, with the exercise the learner is shown.
+ */
+export interface ReviewQueueEntry {
+  id: string // Review item ID
+  kind: ReviewItemKind
+  exerciseType: ExerciseType // Type of the exercise shown; vocabulary is reviewed as translation
+  correctStreak: number // Correct answers in a row so far
+  exercise: LearnerExercise // Without its answer key
+}
+
+/**
+ * The number of items in a learner's review queue.
+ */
+export interface ReviewQueueCounts {
+  due: number // Items due now
+  total: number // Items still in the queue, due or not
+}
+
+/**
+ * The outcome of answering a review item.
+ */
+export interface ReviewAnswerResult extends ExerciseGrade {
+  xpEarned: number // XP earned; vocabulary reviews earn none
+  correctStreak: number // Correct answers in a row after this one
+  cleared: boolean // The item has left the queue
+  dueAt: Date // When the item is next due
+}
@@ -0,0 +1,83 @@
+/**
+ * @description
+ * Type definitions for role-play conversation scenarios in the Learn Kannada app.
+ * Learners practise real situations (ordering at a darshini, haggling with an auto driver)
+ * with the AI playing a character, aiming to meet the scenario's goals.
+ *
+ * Key features:
+ * - RolePlayScenario: setting, goals, target vocabulary and the AI's persona
+ * - RolePlaySession: a learner's run of a scenario, with the goals met so far
+ * - RolePlayDebrief and RolePlayResult: the scored debrief and the XP it earned
+ *
+ * @notes
+ * - The scenario library lives in @/lib/roleplay/scenarios
+ * - A session's messages are a tutor conversation (see tutor-types)
+ */
+
+import { ExerciseReward } from "./gamification-types"
+import { VocabularyItem } from "./lesson-types"
+import { TutorConversation } from "./tutor-types"
+
+/**
+ * Something the learner sets out to do in a scenario.
+ */
+export interface RolePlayGoal {
+  id: string // Stable identifier, unique within the scenario
+  description: string // What the learner should do, in English
+}
+
+/**
+ * The character the AI plays.
+ */
+export interface RolePlayPersona {
+  name: string // How the learner addresses them
+  role: string // e.g. "auto driver"
+  description: string // Manner and background, for the AI
+}
+
+/**
+ * A role-play scenario in the library.
+ */
+export interface RolePlayScenario {
+  id: string // URL slug
+  title: string
+  level: "beginner" | "intermediate" | "advanced" // Level the character speaks at
+  setting: string // Where the scene takes place, shown to the learner
+  persona: RolePlayPersona
+  opening: { kannada: string; english: string } // The character's first line
+  goals: RolePlayGoal[]
+  vocabulary: VocabularyItem[] // Words the scenario practises
+}
+
+/**
+ * A learner's scored debrief at the end of a scenario.
+ */
+export interface RolePlayDebrief {
+  score: number // 0 to 100, from goals met and language use
+  goalsAchieved: number
+  goalsTotal: number
+  languageScore: number // 0 to 100, the model's rating of the learner's Kannada
+  summary: string // One or two sentences of feedback
+  strengths: string[]
+  improvements: string[]
+  xpEarned: number // XP the score is worth
+}
+
+/**
+ * A learner's run of a scenario.
+ */
+export interface RolePlaySession {
+  id: string
+  scenarioId: string
+  conversation: TutorConversation // The messages exchanged
+  achievedGoals: string[] // IDs of the goals met so far
+  debrief: RolePlayDebrief | null // Set when the scenario is ended
+}
+
+/**
+ * The result of ending a scenario.
+ */
+export interface RolePlayResult {
+  debrief: RolePlayDebrief
+  reward: ExerciseReward // XP, streak and badges earned
+}
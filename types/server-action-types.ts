@@ -2,6 +2,17 @@
 Contains the general server action types.
 */
 
+/**
+ * Validation messages keyed by the dotted path of the offending field,
+ * e.g. { "content.vocabulary.0.english": ["Required"] }.
+ */
+export type FieldErrors = Record<string, string[]>
+
 export type ActionState<T> =
   | { isSuccess: true; message: string; data: T }
-  | { isSuccess: false; message: string; data?: never }
+  | {
+      isSuccess: false
+      message: string
+      data?: never
+      fieldErrors?: FieldErrors
+    }
@@ -0,0 +1,26 @@
+/**
+ * @description
+ * Type definitions for Kannada transliteration in the Learn Kannada app.
+ *
+ * @notes
+ * - Scheme tables and conversion live in @/lib/transliteration
+ */
+
+/**
+ * A romanization scheme for Kannada.
+ * - iso15919: ISO 15919 with diacritics (kannaḍa); lossless in both directions
+ * - harvard-kyoto: ASCII with capitals for long vowels and retroflexes (kannaDa)
+ * - casual: the informal chat spelling most learners already type (kannada, thumba)
+ */
+export type TransliterationScheme = "iso15919" | "harvard-kyoto" | "casual"
+
+/**
+ * How Kannada text is displayed to a learner (matches scriptDisplayEnum).
+ * - script: Kannada script only
+ * - script_romanization: Kannada script with its romanization underneath
+ * - romanization_english: romanization with an English gloss where one is available
+ */
+export type ScriptDisplay =
+  | "script"
+  | "script_romanization"
+  | "romanization_english"
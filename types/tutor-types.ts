@@ -0,0 +1,60 @@
+/**
+ * @description
+ * Type definitions for the AI Kannada tutor chat in the Learn Kannada app.
+ * Learners hold conversations with the tutor, which replies in Kannada at their level
+ * and corrects each of their messages; conversations are saved so they can be resumed.
+ *
+ * Key features:
+ * - TutorMessage: one turn, with corrections (learner) or a translation (tutor)
+ * - TutorConversationSummary and TutorConversation: the conversation list and a full conversation
+ * - TutorExchange: a learner message and the tutor's reply to it
+ *
+ * @notes
+ * - Prompting and reply checking live in @/lib/ai/tutor-chat
+ */
+
+import { GrammarFeedback } from "./grammar-feedback-types"
+
+/**
+ * Who sent a tutor chat message.
+ */
+export type TutorMessageRole = "user" | "assistant"
+
+/**
+ * One turn of a tutor conversation.
+ */
+export interface TutorMessage {
+  id: string
+  role: TutorMessageRole
+  content: string // Message text
+  translation: string | null // English translation of a tutor reply
+  corrections: GrammarFeedback | null // Grammar feedback on a learner message
+  createdAt: Date
+}
+
+/**
+ * A conversation in the learner's list.
+ */
+export interface TutorConversationSummary {
+  id: string
+  title: string // From the learner's first message
+  level: "beginner" | "intermediate" | "advanced" // Level the tutor replies at
+  updatedAt: Date // When the last message was sent
+}
+
+/**
+ * A conversation with all its messages, oldest first.
+ */
+export interface TutorConversation extends TutorConversationSummary {
+  messages: TutorMessage[]
+}
+
+/**
+ * A learner message and the tutor's reply, as saved.
+ */
+export interface TutorExchange {
+  conversationId: string // The conversation, new or continued
+  userMessage: TutorMessage // Learner message with its corrections
+  reply: TutorMessage // Tutor reply with its translation
+  achievedGoals?: string[] // In a role-play, the IDs of the goals met so far
+}
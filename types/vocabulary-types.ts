@@ -0,0 +1,66 @@
+/**
+ * @description
+ * Type definitions for vocabulary and spaced-repetition review in the Learn Kannada app.
+ * Words taught by published lessons are kept in their own table, and each learner
+ * reviews them as flashcards scheduled with SM-2.
+ *
+ * Key features:
+ * - VocabularyWord: a word as taught by its lesson
+ * - RecallRating and VocabularyReviewState: a learner's self-rated recall and the resulting schedule
+ * - VocabularyCard and DailyVocabularyQueue: what the flashcard page is served
+ *
+ * @notes
+ * - Scheduling rules live in @/lib/vocabulary/srs
+ * - Words are copied from lesson content when a revision is published
+ */
+
+/**
+ * A word taught by a lesson.
+ */
+export interface VocabularyWord {
+  id: string // Vocabulary row ID
+  lessonId: string // Lesson that teaches the word
+  kannada: string // Word in Kannada script
+  transliteration: string | null // Romanized form
+  english: string // English meaning
+  partOfSpeech: string | null // e.g. "noun", "verb"
+  audioUrl: string | null // Recorded pronunciation
+  exampleKannada: string | null // A sentence from the lesson that uses the word
+  exampleEnglish: string | null // Its translation
+}
+
+/**
+ * How well the learner recalled a card.
+ * - again: forgot it
+ * - hard: recalled with serious difficulty
+ * - good: recalled after some thought
+ * - easy: recalled straight away
+ */
+export type RecallRating = "again" | "hard" | "good" | "easy"
+
+/**
+ * A learner's SM-2 schedule for one word.
+ */
+export interface VocabularyReviewState {
+  easeFactor: number // Interval multiplier, at least 1.3
+  intervalDays: number // Days between the last review and the next; 0 while relearning
+  repetitions: number // Successful reviews in a row
+  lapses: number // Times the word was forgotten
+  dueAt: Date // When the word is next due
+}
+
+/**
+ * A flashcard: a word and, once it has been reviewed, its schedule.
+ */
+export interface VocabularyCard extends VocabularyWord {
+  review: VocabularyReviewState | null // Null for a word the learner has not seen yet
+}
+
+/**
+ * The cards a learner is served today.
+ */
+export interface DailyVocabularyQueue {
+  cards: VocabularyCard[] // Due cards first, then new ones
+  dueCount: number // Cards due for review
+  newCount: number // New words introduced in this queue
+}